@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getActiveAttendanceSession } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: the open RFID session started by the current user (or null)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const attendanceSession = await getActiveAttendanceSession(session.user.id);
+    return NextResponse.json({ session: attendanceSession });
+  } catch (error: any) {
+    console.error("Error fetching active attendance session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch active attendance session",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import AzureADProvider from "next-auth/providers/azure-ad";
 import { prisma } from "@/lib/prisma";
 import { Role } from "@prisma/client";
 import { logAction } from "@/lib/audit";
+import { findStudentForSignIn, getPortalStudent } from "@/lib/services";
 import crypto from "crypto";
 
 // Lazy initialization: only validate and create provider at runtime, not during build
@@ -88,6 +89,30 @@ const handler = NextAuth({
           },
         });
 
+        // Not staff: a student signing in to the read-only portal
+        if (!dbUser) {
+          const student = await findStudentForSignIn(user.email);
+          if (student) {
+            user.id = student.id;
+            user.roles = [Role.STUDENT];
+            user.name = `${student.firstName} ${student.lastName}`;
+
+            await logAction({
+              userId: null,
+              action: "STUDENT_LOGIN",
+              module: "User",
+              reason: `Student logged in: ${user.name} (${student.studentId})`,
+              status: "SUCCESS",
+              metadata: {
+                studentId: student.id,
+                email: user.email,
+                loginMethod: account?.provider || "unknown",
+              },
+            });
+            return true;
+          }
+        }
+
         if (!dbUser) {
           console.warn(`User not found in DB: ${user.email}`);
           // Log failed login
@@ -316,6 +341,11 @@ const handler = NextAuth({
         token.email = user.email;
         token.name = user.name;
 
+        // Students have no user row, so no tracked session either
+        if (user.roles?.includes(Role.STUDENT)) {
+          return token;
+        }
+
         // Generate unique session token
         const sessionToken = crypto.randomBytes(32).toString("hex");
         token.sessionToken = sessionToken;
@@ -358,6 +388,19 @@ const handler = NextAuth({
         token.selectedRole = session.selectedRole;
       }
 
+      // Students: end the session once the student record is gone
+      if (!user && token.id && token.roles?.includes(Role.STUDENT)) {
+        try {
+          const student = await getPortalStudent(token.id as string);
+          if (!student) {
+            token.sessionExpired = true;
+          }
+        } catch (err) {
+          console.error("JWT student fetch error:", err);
+        }
+        return token;
+      }
+
       // ALWAYS fetch fresh data on each session access (page load, API call)
       // This ensures role/status changes are reflected immediately for all users
       if (!user && token.id) {
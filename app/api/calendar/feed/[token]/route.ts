@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateCalendarFeed, buildCalendarFeed } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// The token may carry an .ics suffix so calendar apps recognise the URL
+const getFeedToken = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1].replace(/\.ics$/i, "");
+};
+
+// GET: iCalendar feed of the token's owner
+// Authenticated with the feed token in the URL, not a user session, so
+// calendar apps like Outlook or Google Calendar can subscribe to it
+export async function GET(req: NextRequest) {
+  try {
+    const user = await authenticateCalendarFeed(getFeedToken(req));
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Calendar feed not found" },
+        { status: 404 }
+      );
+    }
+
+    const calendar = await buildCalendarFeed(user);
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="didasko.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
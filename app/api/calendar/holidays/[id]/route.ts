@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { deleteHoliday } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getHolidayId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+export const DELETE = withLogging(
+  { action: "HOLIDAY_DELETE", module: "Calendar" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_CALENDAR);
+
+      try {
+        const holiday = await deleteHoliday(getHolidayId(req));
+
+        await logAction({
+          userId: session.user.id,
+          action: "HOLIDAY_DELETED",
+          module: "Calendar",
+          before: {
+            date: holiday.date.toISOString().split("T")[0],
+            name: holiday.name,
+          },
+          reason: `Removed the ${holiday.name} holiday`,
+          metadata: { holidayId: holiday.id },
+        });
+
+        return NextResponse.json({ success: true });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
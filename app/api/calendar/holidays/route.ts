@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { createHoliday } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: { date, name }
+export const POST = withLogging(
+  { action: "HOLIDAY_CREATE", module: "Calendar" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_CALENDAR);
+
+      const body = await req.json();
+
+      try {
+        const holiday = await createHoliday(body);
+
+        await logAction({
+          userId: session.user.id,
+          action: "HOLIDAY_CREATED",
+          module: "Calendar",
+          after: {
+            id: holiday.id,
+            date: holiday.date.toISOString().split("T")[0],
+            name: holiday.name,
+          },
+          reason: `Declared ${holiday.name} a holiday`,
+        });
+
+        return NextResponse.json(holiday);
+      } catch (error: any) {
+        if (error.message.includes("already")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (
+          error.message.includes("required") ||
+          error.message.includes("must")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getNonClassDays } from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: ?courseIds=a,b&from=yyyy-MM-dd&to=yyyy-MM-dd -> non-class days by course
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const courseIds = (searchParams.get("courseIds") || "")
+      .split(",")
+      .filter(Boolean);
+
+    try {
+      const days = await getNonClassDays(
+        courseIds,
+        searchParams.get("from") || "",
+        searchParams.get("to") || ""
+      );
+      return NextResponse.json({ days });
+    } catch (error: any) {
+      if (
+        error.message.includes("must") ||
+        error.message.includes("cannot") ||
+        error.message.includes("at most")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    return handleAuthError(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getAcademicCalendar } from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { withLogging } from "@/lib/withLogging";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: term ranges, holidays and suspensions (?academicYear=&semester=)
+export const GET = withLogging(
+  { action: "CALENDAR_VIEW", module: "Calendar" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { searchParams } = new URL(req.url);
+      const calendar = await getAcademicCalendar({
+        academicYear: searchParams.get("academicYear") || undefined,
+        semester: searchParams.get("semester") || undefined,
+      });
+
+      return NextResponse.json(calendar);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
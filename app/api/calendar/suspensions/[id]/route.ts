@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { deleteClassSuspension } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getSuspensionId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+// DELETE: lifts the suspension; absences are not back-filled
+export const DELETE = withLogging(
+  { action: "CLASS_SUSPENSION_DELETE", module: "Calendar" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_CALENDAR);
+
+      try {
+        const suspension = await deleteClassSuspension(getSuspensionId(req));
+
+        await logAction({
+          userId: session.user.id,
+          action: "CLASS_SUSPENSION_DELETED",
+          module: "Calendar",
+          before: {
+            reason: suspension.reason,
+            startDate: suspension.startDate.toISOString().split("T")[0],
+            endDate: suspension.endDate.toISOString().split("T")[0],
+            scope: suspension.scope,
+          },
+          reason: `Lifted the suspension for ${suspension.label}`,
+          metadata: { suspensionId: suspension.id },
+        });
+
+        return NextResponse.json({ success: true });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
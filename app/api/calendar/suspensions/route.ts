@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { createClassSuspension } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: { reason, startDate, endDate, scope, roomId? | courseId? | sectionId? }
+export const POST = withLogging(
+  { action: "CLASS_SUSPENSION_CREATE", module: "Calendar" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_CALENDAR);
+
+      const body = await req.json();
+
+      try {
+        const suspension = await createClassSuspension(body);
+
+        await logAction({
+          userId: session.user.id,
+          action: "CLASS_SUSPENSION_CREATED",
+          module: "Calendar",
+          after: {
+            id: suspension.id,
+            reason: suspension.reason,
+            startDate: suspension.startDate.toISOString().split("T")[0],
+            endDate: suspension.endDate.toISOString().split("T")[0],
+            scope: suspension.scope,
+            roomId: suspension.roomId,
+            courseId: suspension.courseId,
+            sectionId: suspension.sectionId,
+          },
+          reason: `Suspended ${suspension.label}: ${suspension.reason}`,
+        });
+
+        return NextResponse.json(suspension);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (
+          error.message.includes("required") ||
+          error.message.includes("must") ||
+          error.message.includes("cannot")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
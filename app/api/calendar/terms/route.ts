@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { setAcademicTerms } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const termSnapshot = (
+  terms: Array<{ term: string; startDate: Date; endDate: Date }>
+) =>
+  terms.map((t) => ({
+    term: t.term,
+    startDate: t.startDate.toISOString().split("T")[0],
+    endDate: t.endDate.toISOString().split("T")[0],
+  }));
+
+// PUT: { academicYear, semester, terms: [{ term, startDate, endDate }] }
+export const PUT = withLogging(
+  { action: "CALENDAR_TERMS_UPDATE", module: "Calendar" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_CALENDAR);
+
+      const { academicYear, semester, terms } = await req.json();
+
+      try {
+        const { before, after } = await setAcademicTerms(
+          academicYear,
+          semester,
+          terms
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "CALENDAR_TERMS_UPDATED",
+          module: "Calendar",
+          before: termSnapshot(before),
+          after: termSnapshot(after),
+          reason: `Set term dates for ${semester} ${academicYear}`,
+        });
+
+        return NextResponse.json({ terms: after });
+      } catch (error: any) {
+        if (
+          error.message.includes("required") ||
+          error.message.includes("must") ||
+          error.message.includes("cannot") ||
+          error.message.includes("only")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -37,6 +37,9 @@ export async function POST(
       if (error.message.includes("not found")) {
         return NextResponse.json({ error: error.message }, { status: 404 });
       }
+      if (error.message.includes("are locked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       if (
         error.message.includes("exceeds max score") ||
         error.message.includes("Invalid assessment")
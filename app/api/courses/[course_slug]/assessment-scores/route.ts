@@ -72,6 +72,9 @@ export async function PUT(
       if (error.message.includes("not found")) {
         return NextResponse.json({ error: error.message }, { status: 404 });
       }
+      if (error.message.includes("are locked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       if (error.message.includes("cannot exceed")) {
         return NextResponse.json({ error: error.message }, { status: 400 });
       }
@@ -2,6 +2,10 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
+import {
+  getCourseNonClassDay,
+  recomputeQuizzesForAttendance,
+} from "@/lib/services";
 //@ts-ignore
 
 // Route segment config for pre-compilation and performance
@@ -49,6 +53,20 @@ export async function POST(
       return NextResponse.json({ error: "Course not found" }, { status: 404 });
     }
 
+    // Holidays, suspensions and term breaks take no attendance
+    const nonClassDay = await getCourseNonClassDay(
+      course.id,
+      utcDate.toISOString().split("T")[0]
+    );
+    if (nonClassDay) {
+      return NextResponse.json(
+        {
+          error: `No class on ${nonClassDay.date} (${nonClassDay.reason})`,
+        },
+        { status: 409 }
+      );
+    }
+
     // Get all student IDs to process
     const studentIds = recordsToProcess.map((r) => r.studentId);
 
@@ -128,6 +146,8 @@ export async function POST(
       }
     );
 
+    await recomputeQuizzesForAttendance(course.id, [utcDate]);
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Error batch saving attendance:", error);
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/prisma";
+import { recomputeQuizzesForAttendance } from "@/lib/services";
 //@ts-ignore
 
 // Route segment config for pre-compilation and performance
@@ -38,15 +39,30 @@ export async function POST(request: Request, { params }) {
     nextDay.setUTCDate(nextDay.getUTCDate() + 1);
 
     // Delete all attendance records for this course on this date
-    const deleted = await prisma.attendance.deleteMany({
-      where: {
-        courseId: course.id,
-        date: {
-          gte: utcDate,
-          lt: nextDay,
+    // and discard any RFID session still open for it
+    const [deleted] = await prisma.$transaction([
+      prisma.attendance.deleteMany({
+        where: {
+          courseId: course.id,
+          date: {
+            gte: utcDate,
+            lt: nextDay,
+          },
         },
-      },
-    });
+      }),
+      prisma.attendanceSession.updateMany({
+        where: {
+          courseId: course.id,
+          date: utcDate,
+          status: { in: ["ACTIVE", "PAUSED"] },
+        },
+        data: { status: "ENDED", endedAt: new Date(), pausedAt: null },
+      }),
+    ]);
+
+    if (deleted.count > 0) {
+      await recomputeQuizzesForAttendance(course.id, [utcDate]);
+    }
 
     return NextResponse.json(
       {
@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
-import { getAttendance } from "@/lib/services";
+import {
+  getAttendance,
+  getCourseNonClassDay,
+  recomputeQuizzesForAttendance,
+} from "@/lib/services";
 import { AttendanceResponse } from "@/shared/types/attendance";
 import { prisma } from "@/lib/prisma";
 
@@ -87,6 +91,20 @@ export async function POST(request: Request, context: { params }) {
         );
       }
 
+      // Holidays, suspensions and term breaks take no attendance
+      const nonClassDay = await getCourseNonClassDay(
+        course.id,
+        utcDate.toISOString().split("T")[0]
+      );
+      if (nonClassDay) {
+        return NextResponse.json(
+          {
+            error: `No class on ${nonClassDay.date} (${nonClassDay.reason})`,
+          },
+          { status: 409 }
+        );
+      }
+
       // Limit attendance array size to prevent excessive queries
       const MAX_ATTENDANCE_RECORDS = 500;
       const safeAttendance = attendance.slice(0, MAX_ATTENDANCE_RECORDS);
@@ -184,6 +202,8 @@ export async function POST(request: Request, context: { params }) {
         }
       });
 
+      await recomputeQuizzesForAttendance(course.id, [utcDate]);
+
       return NextResponse.json({
         message: "Attendance saved successfully",
         records: safeAttendance.length,
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  pauseAttendanceSession,
+  resumeAttendanceSession,
+} from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+type Params = { params: Promise<{ course_slug: string; session_id: string }> };
+
+async function handle(req: NextRequest, { params }: Params, resume: boolean) {
+  try {
+    const { course_slug, session_id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const attendanceSession = resume
+        ? await resumeAttendanceSession(course_slug, session_id)
+        : await pauseAttendanceSession(course_slug, session_id);
+      return NextResponse.json(attendanceSession);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Only")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating attendance session:", error);
+    return NextResponse.json(
+      {
+        error: resume
+          ? "Failed to resume attendance session"
+          : "Failed to pause attendance session",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: pause the session (scans are rejected and the clocks stop)
+export async function POST(req: NextRequest, context: Params) {
+  return handle(req, context, false);
+}
+
+// DELETE: lift the pause and resume scanning
+export async function DELETE(req: NextRequest, context: Params) {
+  return handle(req, context, true);
+}
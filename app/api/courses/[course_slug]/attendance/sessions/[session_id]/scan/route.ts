@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { recordAttendanceScan } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: { rfid } — record a scan; the server decides PRESENT or LATE
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string; session_id: string }> }
+) {
+  try {
+    const { course_slug, session_id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+
+    try {
+      const result = await recordAttendanceScan(
+        course_slug,
+        session_id,
+        body.rfid
+      );
+      return NextResponse.json(result);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("already") ||
+        error.message.includes("timed out") ||
+        error.message.includes("paused")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes("Invalid")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error recording attendance scan:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to record attendance scan",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
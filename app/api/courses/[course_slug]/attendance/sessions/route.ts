@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  getCourseAttendanceSession,
+  startAttendanceSession,
+} from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: ?date= — the open RFID session of the course on that date (or null)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const date = new URL(req.url).searchParams.get("date");
+    if (!date) {
+      return NextResponse.json({ error: "Date is required" }, { status: 400 });
+    }
+
+    try {
+      const attendanceSession = await getCourseAttendanceSession(
+        course_slug,
+        date
+      );
+      return NextResponse.json({ session: attendanceSession });
+    } catch (error: any) {
+      if (error.message.includes("Invalid")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error fetching attendance session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch attendance session",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: { date, graceMinutes, timeoutMinutes } — start an RFID session
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    if (!body.date) {
+      return NextResponse.json({ error: "Date is required" }, { status: 400 });
+    }
+
+    try {
+      const attendanceSession = await startAttendanceSession(
+        course_slug,
+        session.user.id,
+        {
+          date: body.date,
+          graceMinutes: body.graceMinutes,
+          timeoutMinutes: body.timeoutMinutes,
+        }
+      );
+      return NextResponse.json(attendanceSession);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("already active") ||
+        error.message.includes("No class on")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("must be") ||
+        error.message.includes("Invalid")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error starting attendance session:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to start attendance session",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
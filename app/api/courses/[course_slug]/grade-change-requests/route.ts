@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { GradeChangeRequestStatus } from "@prisma/client";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  createGradeChangeRequest,
+  getCourseGradeChangeRequests,
+} from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: grade change requests of the course (?status=PENDING|APPROVED|REJECTED)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  const { course_slug } = await params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = new URL(req.url).searchParams.get("status");
+  const requests = await getCourseGradeChangeRequests(
+    course_slug,
+    status && status in GradeChangeRequestStatus
+      ? (status as GradeChangeRequestStatus)
+      : undefined
+  );
+
+  if (!requests) {
+    return NextResponse.json({ error: "Course not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ requests });
+}
+
+// POST: { studentId, assessmentId, proposedScore, reason } — faculty proposes a correction
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true, code: true, section: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    if (course.facultyId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { studentId, assessmentId, proposedScore, reason } = body;
+
+    if (!studentId || !assessmentId) {
+      return NextResponse.json(
+        { error: "studentId and assessmentId are required" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const request = await createGradeChangeRequest(
+        course_slug,
+        {
+          studentId,
+          assessmentId,
+          proposedScore: proposedScore ?? null,
+          reason,
+        },
+        session.user.id
+      );
+
+      await logAction({
+        userId: session.user.id,
+        action: "GRADE_CHANGE_REQUESTED",
+        module: "Grading",
+        before: { score: request.currentScore },
+        after: { score: request.proposedScore },
+        reason: `Requested grade change in ${course.code} - ${course.section}: ${request.reason}`,
+        metadata: {
+          requestId: request.id,
+          courseId: request.courseId,
+          assessmentId,
+          studentId,
+        },
+      });
+
+      return NextResponse.json(request);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("already pending")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("reason is required") ||
+        error.message.includes("only for locked terms") ||
+        error.message.includes("linked criteria") ||
+        error.message.includes("Proposed score")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error creating grade change request:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create grade change request",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  getCourseGradeSubmissions,
+  transitionGradeSubmission,
+  setGradeRelease,
+  GradeSubmissionAction,
+} from "@/lib/services";
+import { hasPermission, Permission } from "@/lib/roles";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const AUDIT_ACTIONS: Record<GradeSubmissionAction, string> = {
+  SUBMIT: "GRADE_SHEET_SUBMITTED",
+  APPROVE: "GRADE_SHEET_APPROVED",
+  RETURN: "GRADE_SHEET_RETURNED",
+  LOCK: "GRADE_SHEET_LOCKED",
+};
+
+// GET: grade sheet status of every term of the course
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  const { course_slug } = await params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const submissions = await getCourseGradeSubmissions(course_slug);
+
+  if (!submissions) {
+    return NextResponse.json({ error: "Course not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ submissions });
+}
+
+// POST: { term, action: SUBMIT | APPROVE | RETURN | LOCK, note? }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { term, action, note } = body as {
+      term: string;
+      action: GradeSubmissionAction;
+      note?: string | null;
+    };
+
+    if (!term || !AUDIT_ACTIONS[action]) {
+      return NextResponse.json(
+        { error: "term and a valid action are required" },
+        { status: 400 }
+      );
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    // The course faculty submits; academic heads (and admins) review and lock
+    const allowed =
+      action === "SUBMIT"
+        ? course.facultyId === session.user.id
+        : await hasPermission(session.user, Permission.REVIEW_GRADES);
+    if (!allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const result = await transitionGradeSubmission(
+        course_slug,
+        term,
+        action,
+        session.user.id,
+        note
+      );
+
+      await logAction({
+        userId: session.user.id,
+        action: AUDIT_ACTIONS[action],
+        module: "Grading",
+        before: { status: result.before },
+        after: { status: result.submission.status },
+        reason: `${result.termLabel} grade sheet of ${result.course.code} - ${
+          result.course.section
+        }: ${result.before} → ${result.submission.status}${
+          result.submission.note ? ` (${result.submission.note})` : ""
+        }`,
+        metadata: {
+          courseId: result.course.id,
+          term,
+          submissionId: result.submission.id,
+        },
+      });
+
+      return NextResponse.json({ success: true, ...result.submission });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Cannot")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("Not a term of this course") ||
+        error.message.includes("reason is required")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating grade sheet:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update grade sheet",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: { term, released } shows or hides the term's grades in the student portal
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { term, released } = body as { term: string; released: boolean };
+
+    if (!term || typeof released !== "boolean") {
+      return NextResponse.json(
+        { error: "term and released are required" },
+        { status: 400 }
+      );
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    // The course faculty decides when students see grades; managers may too
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const result = await setGradeRelease(
+        course_slug,
+        term,
+        released,
+        session.user.id
+      );
+
+      await logAction({
+        userId: session.user.id,
+        action: released ? "GRADES_RELEASED" : "GRADES_HIDDEN",
+        module: "Grading",
+        after: { releasedAt: result.submission.releasedAt },
+        reason: `${result.termLabel} grades of ${result.course.code} - ${
+          result.course.section
+        } ${released ? "released to" : "hidden from"} students`,
+        metadata: {
+          courseId: result.course.id,
+          term,
+          submissionId: result.submission.id,
+        },
+      });
+
+      return NextResponse.json({ success: true, ...result.submission });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Not a term of this course")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating grade release:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update grade release",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
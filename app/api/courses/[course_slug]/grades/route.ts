@@ -149,6 +149,9 @@ export async function POST(request: NextRequest, { params }: { params }) {
       if (error.message.includes("not found")) {
         return NextResponse.json({ error: error.message }, { status: 404 });
       }
+      if (error.message.includes("are locked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       throw error;
     }
   } catch (error: any) {
@@ -203,6 +206,9 @@ export async function DELETE(request: Request, { params }: { params }) {
       if (error.message.includes("not found")) {
         return NextResponse.json({ error: error.message }, { status: 404 });
       }
+      if (error.message.includes("are locked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       throw error;
     }
   } catch (error: any) {
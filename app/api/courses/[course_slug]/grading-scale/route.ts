@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  resolveCourseGradingScale,
+  setCourseGradingScale,
+} from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: the course's selected scale id and the scale grades resolve through
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  const { course_slug } = await params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { slug: course_slug },
+    select: { id: true, gradingScaleId: true },
+  });
+
+  if (!course) {
+    return NextResponse.json({ error: "Course not found" }, { status: 404 });
+  }
+
+  const gradingScale = await resolveCourseGradingScale(course.id);
+
+  return NextResponse.json({
+    gradingScaleId: course.gradingScaleId,
+    gradingScale,
+  });
+}
+
+// PUT: pick the course's grading scale ({ gradingScaleId: null } = use default)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true, code: true, section: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    // Course faculty, admins and academic heads may choose the scale
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const gradingScaleId: string | null = body.gradingScaleId || null;
+
+    try {
+      const result = await setCourseGradingScale(course_slug, gradingScaleId);
+
+      await logAction({
+        userId: session.user.id,
+        action: "COURSE_GRADING_SCALE_CHANGED",
+        module: "Grading",
+        before: { gradingScaleId: result.before },
+        after: { gradingScaleId: result.gradingScaleId },
+        reason: `Changed grading scale of ${course.code} - ${course.section}`,
+        metadata: { courseId: result.courseId },
+      });
+
+      return NextResponse.json({
+        success: true,
+        ...result,
+        gradingScale: await resolveCourseGradingScale(result.courseId),
+      });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating course grading scale:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update grading scale",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { previewCourseGroups } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const BALANCE_OPTIONS = ["NONE", "GRADE", "ATTENDANCE"];
+const LEADER_RULES = ["NONE", "RANDOM", "HIGHEST_GRADE", "BEST_ATTENDANCE"];
+
+const isPairList = (value: unknown): value is Array<[string, string]> =>
+  Array.isArray(value) &&
+  value.every(
+    (pair) =>
+      Array.isArray(pair) &&
+      pair.length === 2 &&
+      pair.every((id) => typeof id === "string")
+  );
+
+// POST: Preview constraint-aware groups for the ungrouped students
+// Nothing is saved; groups are created from the preview via POST /groups
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const {
+      minSize,
+      maxSize,
+      balanceBy = "NONE",
+      keepTogether = [],
+      keepApart = [],
+      avoidRepeatPairs = false,
+      leaderRule = "NONE",
+      seed,
+      studentIds,
+    } = body;
+
+    if (
+      !BALANCE_OPTIONS.includes(balanceBy) ||
+      !LEADER_RULES.includes(leaderRule) ||
+      !isPairList(keepTogether) ||
+      !isPairList(keepApart) ||
+      (seed !== undefined && !Number.isInteger(seed)) ||
+      (studentIds !== undefined &&
+        (!Array.isArray(studentIds) ||
+          !studentIds.every((id: unknown) => typeof id === "string")))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid group generator options" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const preview = await previewCourseGroups(course_slug, {
+        minSize: Number(minSize),
+        maxSize: Number(maxSize),
+        balanceBy,
+        keepTogether,
+        keepApart,
+        avoidRepeatPairs: !!avoidRepeatPairs,
+        leaderRule,
+        seed,
+        studentIds,
+      });
+      return NextResponse.json(preview);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("Cannot") ||
+        error.message.includes("must") ||
+        error.message.includes("Only")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error generating groups:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to generate groups" },
+      { status: 500 }
+    );
+  }
+}
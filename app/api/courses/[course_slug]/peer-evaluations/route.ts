@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  closePeerEvaluation,
+  getPeerEvaluation,
+  openPeerEvaluation,
+} from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// Helper: The course faculty runs peer evaluations; managers may too
+async function canManage(
+  courseSlug: string,
+  user: { id: string; roles?: string[] }
+) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { facultyId: true },
+  });
+  if (!course) return null;
+
+  const isManager = user.roles?.some(
+    (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+  );
+  return course.facultyId === user.id || !!isManager;
+}
+
+function toErrorResponse(error: any) {
+  if (error.message.includes("not found")) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (
+    error.message.includes("Cannot") ||
+    error.message.includes("are locked")
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (
+    error.message.includes("only available") ||
+    error.message.includes("rubric") ||
+    error.message.includes("must")
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return null;
+}
+
+// GET: ?criteriaId= peer evaluation of a group criteria (null if none)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const criteriaId = new URL(req.url).searchParams.get("criteriaId");
+    if (!criteriaId) {
+      return NextResponse.json(
+        { error: "criteriaId is required" },
+        { status: 400 }
+      );
+    }
+
+    const allowed = await canManage(course_slug, session.user);
+    if (allowed === null) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+    if (!allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const evaluation = await getPeerEvaluation(course_slug, criteriaId);
+      return NextResponse.json({ evaluation });
+    } catch (error: any) {
+      const response = toErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error fetching peer evaluation:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch peer evaluation",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: { criteriaId, rubric, scale?, closesAt, minMultiplier?, maxMultiplier? }
+// Opens the evaluation, or reopens a closed one
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { criteriaId, ...input } = await req.json();
+    if (!criteriaId) {
+      return NextResponse.json(
+        { error: "criteriaId is required" },
+        { status: 400 }
+      );
+    }
+
+    const allowed = await canManage(course_slug, session.user);
+    if (allowed === null) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+    if (!allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const { evaluation, criteria, reopened } = await openPeerEvaluation(
+        course_slug,
+        criteriaId,
+        input,
+        session.user.id
+      );
+
+      await logAction({
+        userId: session.user.id,
+        action: reopened
+          ? "PEER_EVALUATION_REOPENED"
+          : "PEER_EVALUATION_OPENED",
+        module: "Grading",
+        after: {
+          rubric: evaluation.rubric,
+          scale: evaluation.scale,
+          closesAt: evaluation.closesAt,
+          minMultiplier: evaluation.minMultiplier,
+          maxMultiplier: evaluation.maxMultiplier,
+        },
+        reason: `${reopened ? "Reopened" : "Opened"} peer evaluation for ${
+          criteria.name
+        }`,
+        metadata: {
+          courseId: criteria.courseId,
+          criteriaId,
+          evaluationId: evaluation.id,
+        },
+      });
+
+      return NextResponse.json(evaluation);
+    } catch (error: any) {
+      const response = toErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error opening peer evaluation:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to open peer evaluation",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: { criteriaId } closes the evaluation and applies the multipliers
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { criteriaId } = await req.json();
+    if (!criteriaId) {
+      return NextResponse.json(
+        { error: "criteriaId is required" },
+        { status: 400 }
+      );
+    }
+
+    const allowed = await canManage(course_slug, session.user);
+    if (allowed === null) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+    if (!allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const { evaluation, criteria } = await closePeerEvaluation(
+        course_slug,
+        criteriaId
+      );
+
+      await logAction({
+        userId: session.user.id,
+        action: "PEER_EVALUATION_CLOSED",
+        module: "Grading",
+        after: { multipliers: evaluation.multipliers },
+        reason: `Closed peer evaluation for ${criteria.name} and applied the adjustments to its grades`,
+        metadata: {
+          courseId: criteria.courseId,
+          criteriaId,
+          evaluationId: evaluation.id,
+        },
+      });
+
+      return NextResponse.json(evaluation);
+    } catch (error: any) {
+      const response = toErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error closing peer evaluation:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to close peer evaluation",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
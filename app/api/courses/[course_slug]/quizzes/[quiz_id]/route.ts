@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { deleteQuiz, getQuizWithScores, updateQuiz } from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+type QuizParams = { params: Promise<{ course_slug: string; quiz_id: string }> };
+
+// Helper: course faculty, admins and academic heads may manage quizzes
+async function authorizeQuizWrite(courseSlug: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return {
+      error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { facultyId: true, code: true, section: true },
+  });
+
+  if (!course) {
+    return {
+      error: NextResponse.json({ error: "Course not found" }, { status: 404 }),
+    };
+  }
+
+  const isManager = session.user.roles?.some(
+    (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+  );
+  if (course.facultyId !== session.user.id && !isManager) {
+    return {
+      error: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { session, course };
+}
+
+// GET: the quiz with a score row for every enrolled student
+export async function GET(req: NextRequest, { params }: QuizParams) {
+  const { course_slug, quiz_id } = await params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const data = await getQuizWithScores(course_slug, quiz_id);
+
+  if (!data) {
+    return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// PUT: update the quiz; saved scores are recomputed
+export async function PUT(req: NextRequest, { params }: QuizParams) {
+  try {
+    const { course_slug, quiz_id } = await params;
+    const auth = await authorizeQuizWrite(course_slug);
+    if (auth.error) return auth.error;
+    const { session, course } = auth;
+
+    const body = await req.json();
+
+    try {
+      const { before, quiz } = await updateQuiz(course_slug, quiz_id, body);
+
+      await logAction({
+        userId: session.user.id,
+        action: "QUIZ_UPDATED",
+        module: "Grading",
+        before,
+        after: quiz,
+        reason: `Updated quiz ${quiz.name} in ${course.code} - ${course.section}`,
+        metadata: { courseId: quiz.courseId, quizId: quiz.id },
+      });
+
+      return NextResponse.json(quiz);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("already linked") ||
+        error.message.includes("are locked")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes("Quiz") || error.message.includes("range")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating quiz:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update quiz",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: remove the quiz and its scores
+export async function DELETE(req: NextRequest, { params }: QuizParams) {
+  try {
+    const { course_slug, quiz_id } = await params;
+    const auth = await authorizeQuizWrite(course_slug);
+    if (auth.error) return auth.error;
+    const { session, course } = auth;
+
+    try {
+      const quiz = await deleteQuiz(course_slug, quiz_id);
+
+      await logAction({
+        userId: session.user.id,
+        action: "QUIZ_DELETED",
+        module: "Grading",
+        before: quiz,
+        reason: `Deleted quiz ${quiz.name} in ${course.code} - ${course.section}`,
+        metadata: { courseId: quiz.courseId, quizId: quiz.id },
+      });
+
+      return NextResponse.json({ success: true });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error deleting quiz:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete quiz",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
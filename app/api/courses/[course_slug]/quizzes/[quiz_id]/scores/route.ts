@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { saveQuizScores } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// PUT: { scores: [{ studentId, score | null }] } — plus points and totals are computed server-side
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string; quiz_id: string }> }
+) {
+  try {
+    const { course_slug, quiz_id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+
+    try {
+      const result = await saveQuizScores(course_slug, quiz_id, body.scores);
+      return NextResponse.json(result);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("are locked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("must be") ||
+        error.message.includes("cannot exceed")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error saving quiz scores:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save quiz scores",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { createQuiz, getQuizzes } from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: the course's quizzes
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  const { course_slug } = await params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const quizzes = await getQuizzes(course_slug);
+
+  if (!quizzes) {
+    return NextResponse.json({ error: "Course not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ quizzes });
+}
+
+// POST: create a quiz
+// { name, quizDate, attendanceRangeStart, attendanceRangeEnd, maxScore, passingRate, maxPlusPoints?, assessmentId? }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true, code: true, section: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+
+    try {
+      const quiz = await createQuiz(course_slug, body);
+
+      await logAction({
+        userId: session.user.id,
+        action: "QUIZ_CREATED",
+        module: "Grading",
+        after: quiz,
+        reason: `Created quiz ${quiz.name} in ${course.code} - ${course.section}`,
+        metadata: { courseId: quiz.courseId, quizId: quiz.id },
+      });
+
+      return NextResponse.json(quiz);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("already linked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes("Quiz") || error.message.includes("range")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error creating quiz:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create quiz",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -72,6 +72,14 @@ export async function PUT(
       if (error.message.includes("already exists")) {
         return NextResponse.json({ error: error.message }, { status: 400 });
       }
+      if (
+        error.message.includes("already booked") ||
+        error.message.includes("students, but") ||
+        error.message.includes("declared availability") ||
+        error.message.includes("limit for")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       throw error;
     }
   } catch (error: any) {
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/prisma";
 import { revalidateTag } from "next/cache";
+import { checkRoomOverlap } from "@/lib/utils/schedule-utils";
+import { checkFacultyLoad } from "@/lib/services/faculty-load";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -35,7 +37,14 @@ export async function PUT(
     // Find course by slug to get the ID and facultyId
     const course = await prisma.course.findUnique({
       where: { slug: course_slug },
-      select: { id: true, facultyId: true },
+      select: {
+        id: true,
+        facultyId: true,
+        room: true,
+        status: true,
+        semester: true,
+        academicYear: true,
+      },
     });
 
     if (!course) {
@@ -67,6 +76,31 @@ export async function PUT(
       }
     }
 
+    // Reject room double-bookings and schedules the faculty cannot take on
+    if (course.status === "ACTIVE") {
+      const roomConflict =
+        (await checkRoomOverlap(
+          schedules,
+          course.room,
+          [course.id],
+          course.semester,
+          course.academicYear
+        )) ??
+        (await checkFacultyLoad(
+          schedules,
+          course.facultyId,
+          [course.id],
+          course.semester,
+          course.academicYear
+        ));
+      if (roomConflict) {
+        return NextResponse.json(
+          { error: roomConflict },
+          { status: 409, headers: { "Cache-Control": "no-store" } }
+        );
+      }
+    }
+
     // Update schedules in a transaction
     await prisma.$transaction(async (tx) => {
       // Delete existing schedules for this course
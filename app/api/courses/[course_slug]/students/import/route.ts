@@ -4,6 +4,7 @@ import { prisma } from "@/lib/prisma";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
 import { logAction, generateBatchId } from "@/lib/audit";
+import { getRoomSeatsLeft } from "@/lib/services";
 
 interface StudentImportRow {
   "Student Number": string;
@@ -198,6 +199,9 @@ export async function POST(
       return NextResponse.json({ error: "Course not found" }, { status: 404 });
     }
 
+    // Seats left in the course's registered room (null = no known capacity)
+    let seatsLeft = await getRoomSeatsLeft(course.id);
+
     // Get already enrolled student IDs for this course
     const enrolledStudentIds = new Set(course.students.map((s) => s.studentId));
 
@@ -326,6 +330,18 @@ export async function POST(
           continue;
         }
 
+        if (seatsLeft === 0) {
+          result.skipped++;
+          result.detailedFeedback.push({
+            row: rowNumber,
+            studentNumber,
+            fullName,
+            status: "skipped",
+            message: "Course room is full (capacity reached)",
+          });
+          continue;
+        }
+
         // Add student to course
         await prisma.course.update({
           where: { id: course.id },
@@ -335,6 +351,7 @@ export async function POST(
             },
           },
         });
+        if (seatsLeft !== null) seatsLeft--;
 
         result.imported++;
         result.detailedFeedback.push({
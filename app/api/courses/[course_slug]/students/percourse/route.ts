@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/prisma";
 import { logAction } from "@/lib/audit";
+import { getRoomSeatsLeft } from "@/lib/services";
 import { encryptResponse } from "@/lib/crypto-server";
 
 // GET - Fetch all students or filter by query params
@@ -142,6 +143,16 @@ export async function POST(request: NextRequest) {
 
     // If courseId is provided, connect the student to the course
     if (courseId) {
+      const course = await prisma.course.findUnique({
+        where: { slug: courseId },
+        select: { id: true },
+      });
+      if (course && (await getRoomSeatsLeft(course.id)) === 0) {
+        return NextResponse.json(
+          { error: "Course room is full (capacity reached)" },
+          { status: 409 }
+        );
+      }
       studentData.coursesEnrolled = {
         connect: { slug: courseId },
       };
@@ -1,7 +1,10 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
-import { getCourseStudentsWithAttendance } from "@/lib/services";
+import {
+  getCourseStudentsWithAttendance,
+  getRoomSeatsLeft,
+} from "@/lib/services";
 import { prisma } from "@/lib/prisma";
 import { encryptResponse } from "@/lib/crypto-server";
 import { revalidateTag } from "next/cache";
@@ -94,6 +97,8 @@ export async function POST(
 
     const courseId = course.id;
     const existingStudentIds = new Set(course.students.map((s) => s.studentId));
+    // Seats left in the course's registered room (null = no known capacity)
+    let seatsLeft = await getRoomSeatsLeft(courseId);
 
     let imported = 0;
     let skipped = 0;
@@ -189,6 +194,17 @@ export async function POST(
           continue;
         }
 
+        if (seatsLeft === 0) {
+          skipped++;
+          detailedFeedback.push({
+            row: rowNumber,
+            studentId: studentId,
+            status: "skipped",
+            message: "Course room is full (capacity reached)",
+          });
+          continue;
+        }
+
         // Connect existing student to course
         await prisma.course.update({
           where: { id: courseId },
@@ -198,6 +214,7 @@ export async function POST(
             },
           },
         });
+        if (seatsLeft !== null) seatsLeft--;
 
         imported++;
         existingStudentIds.add(studentId); // Update the set
@@ -339,13 +356,6 @@ export async function DELETE(
           studentId: { in: studentIds },
         },
       }),
-      // Delete grade scores
-      prisma.gradeScore.deleteMany({
-        where: {
-          courseId: course.id,
-          studentId: { in: studentIds },
-        },
-      }),
       // Delete grades
       prisma.grade.deleteMany({
         where: {
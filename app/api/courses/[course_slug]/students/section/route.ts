@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { enrollSectionInCourse } from "@/lib/services";
+import { logAction, generateBatchId } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: enroll every student of the course's section
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { id: true, facultyId: true, code: true, section: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const result = await enrollSectionInCourse(course_slug);
+
+      await logAction({
+        userId: session.user.id,
+        action: "STUDENT_IMPORT",
+        module: "Student",
+        reason: `Enrolled ${result.imported} student(s) of section ${course.section} to course ${course.code}. Skipped: ${result.skipped}`,
+        batchId: generateBatchId(),
+        after: {
+          courseId: course.id,
+          courseCode: course.code,
+          imported: result.imported,
+          skipped: result.skipped,
+          total: result.total,
+          source: "section",
+        },
+        metadata: {
+          importType: "students",
+          courseSlug: course_slug,
+          recordCount: result.total,
+          successCount: result.imported,
+          skippedCount: result.skipped,
+        },
+      });
+
+      return NextResponse.json(result);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("not linked")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error enrolling section:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to enroll section",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -52,7 +52,13 @@ export async function POST(
         termConfigs: result.termConfigs,
       });
     } catch (error: any) {
-      if (error.message.includes("Weights must total")) {
+      if (error.message.includes("are locked")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("Weights must total") ||
+        error.message.includes("Not a term of this course")
+      ) {
         return NextResponse.json({ error: error.message }, { status: 400 });
       }
       if (error.message.includes("not found")) {
@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
-import { prisma } from "@/lib/prisma";
+import { computeCourseGrades } from "@/lib/services";
+import {
+  getEffectiveScore,
+  lookupFromRecord,
+} from "@/lib/services/grading-engine";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 export const maxDuration = 30;
 
-// Map frontend term keys to database term values
+// Map legacy frontend term keys to database term values
+// (course term keys are passed through as-is)
 const TERM_MAP: Record<string, string> = {
   prelims: "PRELIM",
   midterm: "MIDTERM",
@@ -40,6 +45,7 @@ interface TermGradeData {
   };
   totalPercentage?: number | null;
   numericGrade?: number | null;
+  gradeLabel?: string | null;
   remarks?: string | null;
 }
 
@@ -55,73 +61,17 @@ export async function GET(
 
     const { course_slug, term } = await params;
 
-    // Get course ID
-    const course = await prisma.course.findUnique({
-      where: { slug: course_slug },
-      select: {
-        id: true,
-        students: {
-          select: {
-            id: true,
-            studentId: true,
-            lastName: true,
-            firstName: true,
-            middleInitial: true,
-            image: true,
-          },
-          orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
-        },
-      },
-    });
+    // Compute grades through the shared grading engine
+    const computed = await computeCourseGrades(course_slug);
 
-    if (!course) {
+    if (!computed) {
       return NextResponse.json({ error: "Course not found" }, { status: 404 });
     }
 
     // Map term key to database term value
     const dbTerm = TERM_MAP[term.toLowerCase()] || term.toUpperCase();
 
-    // Fetch term config for the specific term
-    const termConfig = await prisma.termConfiguration.findFirst({
-      where: {
-        courseId: course.id,
-        term: dbTerm,
-      },
-      select: {
-        id: true,
-        term: true,
-        ptWeight: true,
-        quizWeight: true,
-        examWeight: true,
-        termGrades: {
-          select: {
-            studentId: true,
-            totalPercentage: true,
-            numericGrade: true,
-            remarks: true,
-          },
-        },
-        assessments: {
-          where: { enabled: true },
-          select: {
-            id: true,
-            type: true,
-            name: true,
-            maxScore: true,
-            order: true,
-            linkedCriteriaId: true,
-            transmutationBase: true,
-            scores: {
-              select: {
-                studentId: true,
-                score: true,
-              },
-            },
-          },
-          orderBy: { order: "asc" },
-        },
-      },
-    });
+    const termConfig = computed.termConfigs.find((tc) => tc.term === dbTerm);
 
     if (!termConfig) {
       return NextResponse.json({
@@ -130,74 +80,50 @@ export async function GET(
       });
     }
 
+    const lookup = lookupFromRecord(computed.scoresMap);
+    const enabledAssessments = termConfig.assessments
+      .filter((a: any) => a.enabled)
+      .sort((a: any, b: any) => a.order - b.order);
+
     // Build term grades for each student
-    const studentsWithGrades = course.students.map((student) => {
-      // Get student's computed term grade
-      const studentTermGrade = termConfig.termGrades.find(
-        (tg) => tg.studentId === student.id
-      );
+    const studentsWithGrades = computed.students.map((student) => {
+      const toScore = (assessment: any) => {
+        const score = getEffectiveScore(
+          student.id,
+          assessment,
+          lookup,
+          computed.criteriaMetadata
+        );
+        return {
+          id: assessment.id,
+          name: assessment.name,
+          score,
+          maxScore: assessment.maxScore,
+          percentage:
+            score !== null && assessment.maxScore > 0
+              ? (score / assessment.maxScore) * 100
+              : undefined,
+        };
+      };
 
-      // Build PT scores
-      const ptScores = termConfig.assessments
-        .filter((a) => a.type === "PT")
-        .sort((a, b) => a.order - b.order)
-        .map((assessment) => {
-          const score = assessment.scores.find(
-            (s) => s.studentId === student.id
-          );
-          return {
-            id: assessment.id,
-            name: assessment.name,
-            score: score?.score ?? null,
-            maxScore: assessment.maxScore,
-            percentage:
-              score && assessment.maxScore > 0
-                ? (score.score / assessment.maxScore) * 100
-                : undefined,
-          };
-        });
-
-      // Build Quiz scores
-      const quizScores = termConfig.assessments
-        .filter((a) => a.type === "QUIZ")
-        .sort((a, b) => a.order - b.order)
-        .map((assessment) => {
-          const score = assessment.scores.find(
-            (s) => s.studentId === student.id
-          );
-          return {
-            id: assessment.id,
-            name: assessment.name,
-            score: score?.score ?? null,
-            maxScore: assessment.maxScore,
-            percentage:
-              score && assessment.maxScore > 0
-                ? (score.score / assessment.maxScore) * 100
-                : undefined,
-          };
-        });
-
-      // Build Exam score
-      const examAssessment = termConfig.assessments.find(
-        (a) => a.type === "EXAM"
+      const examAssessment = enabledAssessments.find(
+        (a: any) => a.type === "EXAM"
       );
-      const examScore = examAssessment
-        ? (() => {
-            const score = examAssessment.scores.find(
-              (s) => s.studentId === student.id
-            );
-            return {
-              id: examAssessment.id,
-              name: examAssessment.name,
-              score: score?.score ?? null,
-              maxScore: examAssessment.maxScore,
-              percentage:
-                score && examAssessment.maxScore > 0
-                  ? (score.score / examAssessment.maxScore) * 100
-                  : undefined,
-            };
-          })()
-        : undefined;
+      const result = computed.grades[student.id].terms[dbTerm];
+
+      const termGrade: TermGradeData = {
+        ptScores: enabledAssessments
+          .filter((a: any) => a.type === "PT")
+          .map(toScore),
+        quizScores: enabledAssessments
+          .filter((a: any) => a.type === "QUIZ")
+          .map(toScore),
+        examScore: examAssessment ? toScore(examAssessment) : undefined,
+        totalPercentage: result?.totalPercent ?? null,
+        numericGrade: result?.numericGrade ?? null,
+        gradeLabel: result?.gradeLabel ?? null,
+        remarks: result?.remarks ?? null,
+      };
 
       return {
         id: student.id,
@@ -206,14 +132,7 @@ export async function GET(
         firstName: student.firstName,
         middleInitial: student.middleInitial || undefined,
         image: student.image || undefined,
-        termGrade: {
-          ptScores,
-          quizScores,
-          examScore,
-          totalPercentage: studentTermGrade?.totalPercentage ?? null,
-          numericGrade: studentTermGrade?.numericGrade ?? null,
-          remarks: studentTermGrade?.remarks ?? null,
-        },
+        termGrade,
       };
     });
 
@@ -226,6 +145,8 @@ export async function GET(
         quizWeight: termConfig.quizWeight,
         examWeight: termConfig.examWeight,
       },
+      term: computed.terms.find((t) => t.key === dbTerm) ?? null,
+      gradingScale: computed.gradingScale,
     });
   } catch (error) {
     console.error("Error fetching term grades:", error);
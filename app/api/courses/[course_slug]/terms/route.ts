@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { getCourseTerms, saveCourseTerms } from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: the course's ordered terms and final-grade weights
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  const { course_slug } = await params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { slug: course_slug },
+    select: { id: true },
+  });
+
+  if (!course) {
+    return NextResponse.json({ error: "Course not found" }, { status: 404 });
+  }
+
+  const terms = await getCourseTerms(course.id);
+
+  return NextResponse.json({ terms });
+}
+
+// PUT: replace the course's term list ({ terms: [{ key?, label, weight }] })
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ course_slug: string }> }
+) {
+  try {
+    const { course_slug } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const course = await prisma.course.findUnique({
+      where: { slug: course_slug },
+      select: { facultyId: true, code: true, section: true },
+    });
+
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    // Course faculty, admins and academic heads may change the term structure
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (course.facultyId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+
+    try {
+      const result = await saveCourseTerms(course_slug, body.terms);
+
+      await logAction({
+        userId: session.user.id,
+        action: "COURSE_TERMS_UPDATED",
+        module: "Grading",
+        before: { terms: result.before },
+        after: { terms: result.terms },
+        reason: `Updated terms of ${course.code} - ${course.section}`,
+        metadata: { courseId: result.courseId },
+      });
+
+      return NextResponse.json({ success: true, terms: result.terms });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("Cannot remove") ||
+        error.message.includes("are locked")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes("term") || error.message.includes("Term")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating course terms:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update terms",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
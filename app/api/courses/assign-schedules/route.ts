@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/prisma";
+import {
+  checkRoomOverlap,
+  checkScheduleOverlap,
+} from "@/lib/utils/schedule-utils";
+import {
+  checkFacultyLoad,
+  checkRoomCapacity,
+  normalizeRoomName,
+  resolveRoomId,
+} from "@/lib/services";
 
 // Route segment config for pre-compilation and performance
 export const dynamic = "force-dynamic";
@@ -15,7 +25,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    // Expected format: { courseId: string, schedules: Array<{day, fromTime, toTime}> }[]
+    // Expected format: { courseId: string, schedules: Array<{day, fromTime, toTime}>, room?: string }[]
     const { coursesSchedules } = body;
 
     if (!coursesSchedules || !Array.isArray(coursesSchedules)) {
@@ -33,7 +43,7 @@ export async function POST(request: NextRequest) {
 
     // Process each course's schedules
     for (const courseSchedule of coursesSchedules) {
-      const { courseId, schedules } = courseSchedule;
+      const { courseId, schedules, room } = courseSchedule;
 
       if (!courseId || !schedules || !Array.isArray(schedules)) {
         results.failed++;
@@ -48,7 +58,7 @@ export async function POST(request: NextRequest) {
         // Verify course exists
         const course = await prisma.course.findUnique({
           where: { id: courseId },
-          include: { schedules: true },
+          include: { schedules: true, _count: { select: { students: true } } },
         });
 
         if (!course) {
@@ -60,6 +70,58 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Optionally move the course to another room (e.g. from the timetable generator)
+        const newRoom =
+          typeof room === "string" && room.trim()
+            ? normalizeRoomName(room)
+            : course.room;
+        const roomChanged = newRoom !== course.room;
+
+        // Reject room double-bookings, faculty overlaps and overloads (earlier courses in this batch count)
+        const conflict =
+          course.status !== "ACTIVE"
+            ? null
+            : (roomChanged &&
+                (await checkRoomCapacity(newRoom, course._count.students))) ||
+              (await checkRoomOverlap(
+                schedules,
+                newRoom,
+                [courseId],
+                course.semester,
+                course.academicYear
+              )) ||
+              (course.facultyId
+                ? (await checkScheduleOverlap(
+                    schedules,
+                    course.facultyId,
+                    [courseId],
+                    course.semester,
+                    course.academicYear
+                  )) ||
+                  (await checkFacultyLoad(
+                    schedules,
+                    course.facultyId,
+                    [courseId],
+                    course.semester,
+                    course.academicYear
+                  ))
+                : null);
+        if (conflict) {
+          results.failed++;
+          results.errors.push({
+            courseId,
+            message: conflict,
+          });
+          continue;
+        }
+
+        if (roomChanged) {
+          await prisma.course.update({
+            where: { id: courseId },
+            data: { room: newRoom, roomId: await resolveRoomId(newRoom) },
+          });
+        }
+
         // Delete existing schedules for this course
         await prisma.courseSchedule.deleteMany({
           where: { courseId },
@@ -4,6 +4,10 @@ import { authOptions } from "@/lib/auth-options";
 import { CourseStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { logAction, generateBatchId } from "@/lib/audit";
+import { resolveSectionId } from "@/lib/services/sections";
+import { resolveRoomId } from "@/lib/services/rooms";
+import { checkFacultyLoad } from "@/lib/services/faculty-load";
+import { checkRoomOverlap } from "@/lib/utils/schedule-utils";
 import { revalidateTag } from "next/cache";
 
 interface CourseWithSchedule {
@@ -257,13 +261,65 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Reject room double-bookings (earlier rows of this import count)
+        const roomConflict =
+          status === CourseStatus.ACTIVE
+            ? await checkRoomOverlap(
+                validSchedules,
+                room,
+                [],
+                semester,
+                academicYear
+              )
+            : null;
+        if (roomConflict) {
+          results.failed++;
+          results.errors.push({
+            code,
+            message: roomConflict,
+          });
+          results.detailedFeedback.push({
+            code,
+            status: "failed",
+            message: "Room double-booked",
+          });
+          continue;
+        }
+
+        // Imported courses go to the importer, who must be available and within their load limits
+        const loadError =
+          status === CourseStatus.ACTIVE
+            ? await checkFacultyLoad(
+                validSchedules,
+                session.user.id,
+                [],
+                semester,
+                academicYear
+              )
+            : null;
+        if (loadError) {
+          results.failed++;
+          results.errors.push({
+            code,
+            message: loadError,
+          });
+          results.detailedFeedback.push({
+            code,
+            status: "failed",
+            message: "Faculty load limit or availability",
+          });
+          continue;
+        }
+
         // Create course WITH schedules in a single transaction
         const newCourse = await prisma.course.create({
           data: {
             code,
             title,
             section,
+            sectionId: await resolveSectionId(section, academicYear),
             room,
+            roomId: await resolveRoomId(room),
             semester,
             academicYear,
             classNumber,
@@ -5,6 +5,8 @@ import { authOptions } from "@/lib/auth-options";
 import { CourseStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { logAction, generateBatchId } from "@/lib/audit";
+import { resolveSectionId } from "@/lib/services/sections";
+import { resolveRoomId } from "@/lib/services/rooms";
 
 interface ImportRow {
   "Course Code": string;
@@ -228,10 +230,12 @@ export async function POST(request: NextRequest) {
             code,
             title,
             room,
+            roomId: await resolveRoomId(room),
             semester,
             academicYear,
             classNumber,
             section,
+            sectionId: await resolveSectionId(section, academicYear),
             status,
             slug,
             facultyId: session.user.id, // Assign to current user
@@ -478,12 +482,18 @@ export async function POST_IMPORT(request: NextRequest) {
             code: row["Course Code"].trim().toUpperCase(),
             title: row["Course Title"].trim(),
             room: row["Room"]?.trim().toUpperCase() || "TBA",
+            roomId: await resolveRoomId(row["Room"]),
             semester: row["Semester"]?.trim() || "1st Semester",
             academicYear:
               row["Academic Year"]?.trim() ||
               new Date().getFullYear().toString(),
             classNumber: parseInt(row["Class Number"]) || 1,
             section: row["Section"]?.trim().toUpperCase() || "A",
+            sectionId: await resolveSectionId(
+              row["Section"]?.trim().toUpperCase() || "A",
+              row["Academic Year"]?.trim() ||
+                new Date().getFullYear().toString()
+            ),
             status: status as any,
             facultyId: session.user.id,
             slug: `${row["Course Code"].trim().toLowerCase()}-${
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { previewCourseRollover, CourseRolloverInput } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: show what a rollover would create, without writing anything
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: CourseRolloverInput = await request.json();
+
+    // Faculty can only roll over their own load
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (!isManager) {
+      if (body.facultyId && body.facultyId !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      if (body.courseSlugs?.length) {
+        const foreign = await prisma.course.count({
+          where: {
+            slug: { in: body.courseSlugs },
+            facultyId: { not: session.user.id },
+          },
+        });
+        if (foreign > 0) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+      }
+    }
+
+    try {
+      return NextResponse.json(await previewCourseRollover(body));
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("required") ||
+        error.message.includes("Select")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error previewing course rollover:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to preview rollover",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import { commitCourseRollover, CourseRolloverInput } from "@/lib/services";
+import { logAction, generateBatchId } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// POST: copy course structure into a new academic year and semester
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: CourseRolloverInput = await request.json();
+
+    // Faculty can only roll over their own load
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (!isManager) {
+      if (body.facultyId && body.facultyId !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      if (body.courseSlugs?.length) {
+        const foreign = await prisma.course.count({
+          where: {
+            slug: { in: body.courseSlugs },
+            facultyId: { not: session.user.id },
+          },
+        });
+        if (foreign > 0) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+      }
+    }
+
+    try {
+      const result = await commitCourseRollover(body);
+      const created = result.courses.filter((c) => c.status === "create");
+
+      await logAction({
+        userId: session.user.id,
+        action: "COURSE_ROLLOVER",
+        module: "Course",
+        reason: `Rolled over ${result.created} course(s) to ${result.academicYear} ${result.semester}. Skipped: ${result.skipped}. Conflicts: ${result.conflicts}`,
+        batchId: generateBatchId(),
+        after: {
+          academicYear: result.academicYear,
+          semester: result.semester,
+          courses: created.map((c) => ({
+            from: c.source.slug,
+            to: c.target.slug,
+          })),
+        },
+        metadata: {
+          bulkOperation: !body.courseSlugs || body.courseSlugs.length > 1,
+          facultyId: body.facultyId,
+          recordCount: result.total,
+          successCount: result.created,
+          skippedCount: result.skipped,
+          conflictCount: result.conflicts,
+        },
+      });
+
+      return NextResponse.json(result);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("required") ||
+        error.message.includes("Select")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error rolling over courses:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to roll over courses",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
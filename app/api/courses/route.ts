@@ -164,6 +164,11 @@ export async function POST(request: Request) {
             },
             errorType: error.message.includes("already exists")
               ? "duplicate"
+              : error.message.includes("already booked")
+              ? "room_conflict"
+              : error.message.includes("declared availability") ||
+                error.message.includes("limit for")
+              ? "faculty_load"
               : "unknown",
           },
         });
@@ -171,7 +176,12 @@ export async function POST(request: Request) {
         console.error("Error logging course creation failure:", logError);
       }
 
-      if (error.message.includes("already exists")) {
+      if (
+        error.message.includes("already exists") ||
+        error.message.includes("already booked") ||
+        error.message.includes("declared availability") ||
+        error.message.includes("limit for")
+      ) {
         return NextResponse.json({ error: error.message }, { status: 409 });
       }
       throw error;
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { proposeTimetable, TimetableRequest } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// POST: Propose a timetable for the term's unscheduled courses
+// Nothing is saved; placements are applied via POST /courses/assign-schedules
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (!isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body: TimetableRequest = await request.json();
+
+    try {
+      const proposal = await proposeTimetable(body);
+      return NextResponse.json(proposal);
+    } catch (error: any) {
+      if (
+        error.message.includes("required") ||
+        error.message.includes("must")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error proposing timetable:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to propose timetable" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { applyCriteriaTemplate } from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { withLogging } from "@/lib/withLogging";
+import { logAction, generateBatchId } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: create criteria from the template in each selected course
+export const POST = withLogging(
+  { action: "CRITERIA_TEMPLATE_APPLY", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+      const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+      const body = await req.json();
+
+      try {
+        const { template, criteria } = await applyCriteriaTemplate(
+          parts[parts.length - 2],
+          { id: session.user.id, isManager },
+          {
+            courseSlugs: Array.isArray(body.courseSlugs)
+              ? body.courseSlugs
+              : [],
+            date: new Date(body.date),
+            name: body.name,
+          }
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "CRITERIA_TEMPLATE_APPLIED",
+          module: "Grading",
+          reason: `Applied criteria template ${template.name} (v${template.version}) to ${criteria.length} course(s)`,
+          batchId: generateBatchId(),
+          after: {
+            templateId: template.id,
+            version: template.version,
+            criteria: criteria.map((c) => ({
+              id: c.id,
+              name: c.name,
+              courseCode: c.course.code,
+              courseSection: c.course.section,
+            })),
+          },
+          metadata: { recordCount: criteria.length },
+        });
+
+        return NextResponse.json(criteria);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Only")) {
+          return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        if (
+          error.message.includes("Select") ||
+          error.message.includes("Invalid")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
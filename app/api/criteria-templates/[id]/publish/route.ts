@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { publishCriteriaToTemplate } from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: publish an edited criteria as the template's next version
+export const POST = withLogging(
+  { action: "CRITERIA_TEMPLATE_PUBLISH", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+      const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+      const { criteriaId } = await req.json();
+
+      try {
+        const { before, template } = await publishCriteriaToTemplate(
+          parts[parts.length - 2],
+          criteriaId,
+          { id: session.user.id, isManager }
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "CRITERIA_TEMPLATE_UPDATED",
+          module: "Grading",
+          before: { version: before.version },
+          after: {
+            version: template.version,
+            rubrics: template.rubrics.map((r) => ({
+              name: r.name,
+              percentage: r.percentage,
+            })),
+          },
+          reason: `Published version ${template.version} of criteria template: ${template.name}`,
+          metadata: { sourceCriteriaId: criteriaId },
+        });
+
+        return NextResponse.json(template);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Only")) {
+          return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        if (
+          error.message.includes("not created") ||
+          error.message.includes("rubric") ||
+          error.message.includes("Rubric")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
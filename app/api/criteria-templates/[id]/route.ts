@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getCriteriaTemplate,
+  updateCriteriaTemplate,
+  deleteCriteriaTemplate,
+  CriteriaTemplateInput,
+} from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getTemplateId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+const summarizeTemplate = (template: any) => ({
+  id: template.id,
+  name: template.name,
+  scope: template.scope,
+  department: template.department,
+  version: template.version,
+  scoringRange: template.scoringRange,
+  passingScore: template.passingScore,
+  rubrics: template.rubrics.map((r: any) => ({
+    name: r.name,
+    percentage: r.percentage,
+  })),
+});
+
+export const GET = withLogging(
+  { action: "CRITERIA_TEMPLATE_VIEW", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+
+      try {
+        const template = await getCriteriaTemplate(getTemplateId(req), {
+          id: session.user.id,
+          isManager,
+        });
+        return NextResponse.json(template);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const PUT = withLogging(
+  { action: "CRITERIA_TEMPLATE_UPDATE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+      const body: CriteriaTemplateInput = await req.json();
+
+      try {
+        const { before, template } = await updateCriteriaTemplate(
+          getTemplateId(req),
+          body,
+          { id: session.user.id, isManager }
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "CRITERIA_TEMPLATE_UPDATED",
+          module: "Grading",
+          before: summarizeTemplate(before),
+          after: summarizeTemplate(template),
+          reason:
+            template.version !== before.version
+              ? `Published version ${template.version} of criteria template: ${template.name}`
+              : `Updated criteria template: ${template.name}`,
+          metadata: { coursesUsing: template._count.criteria },
+        });
+
+        return NextResponse.json(template);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Only")) {
+          return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        if (
+          error.message.includes("Template") ||
+          error.message.includes("rubric") ||
+          error.message.includes("Rubric")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const DELETE = withLogging(
+  { action: "CRITERIA_TEMPLATE_DELETE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+
+      try {
+        const deleted = await deleteCriteriaTemplate(getTemplateId(req), {
+          id: session.user.id,
+          isManager,
+        });
+
+        await logAction({
+          userId: session.user.id,
+          action: "CRITERIA_TEMPLATE_DELETED",
+          module: "Grading",
+          before: summarizeTemplate(deleted),
+          reason: `Deleted criteria template: ${deleted.name}`,
+        });
+
+        return NextResponse.json({ success: true });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Only")) {
+          return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getCriteriaTemplateUsage } from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { withLogging } from "@/lib/withLogging";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: courses using the template and whether they are on the latest version
+export const GET = withLogging(
+  { action: "CRITERIA_TEMPLATE_USAGE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+      const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+
+      try {
+        const usage = await getCriteriaTemplateUsage(parts[parts.length - 2], {
+          id: session.user.id,
+          isManager,
+        });
+        return NextResponse.json(usage);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
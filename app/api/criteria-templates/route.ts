@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getCriteriaTemplates,
+  createCriteriaTemplate,
+  CriteriaTemplateInput,
+} from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+export const GET = withLogging(
+  { action: "CRITERIA_TEMPLATE_LIST", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const isManager = !!session.user.roles?.some(
+        (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+      );
+
+      // type: individual | group | recitation (omit for all)
+      const type = new URL(req.url).searchParams.get("type");
+      const templates = await getCriteriaTemplates(
+        { id: session.user.id, isManager },
+        type
+          ? {
+              isGroupCriteria: type === "group",
+              isRecitationCriteria: type === "recitation",
+            }
+          : undefined
+      );
+
+      return NextResponse.json(templates);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const POST = withLogging(
+  { action: "CRITERIA_TEMPLATE_CREATE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const body: CriteriaTemplateInput & { sourceCriteriaId?: string } =
+        await req.json();
+
+      try {
+        const template = await createCriteriaTemplate(body, session.user.id);
+
+        await logAction({
+          userId: session.user.id,
+          action: "CRITERIA_TEMPLATE_CREATED",
+          module: "Grading",
+          after: {
+            id: template.id,
+            name: template.name,
+            scope: template.scope,
+            department: template.department,
+            version: template.version,
+            rubrics: template.rubrics.map((r) => ({
+              name: r.name,
+              percentage: r.percentage,
+            })),
+          },
+          reason: `Created criteria template: ${template.name}`,
+          metadata: body.sourceCriteriaId
+            ? { sourceCriteriaId: body.sourceCriteriaId }
+            : undefined,
+        });
+
+        return NextResponse.json(template);
+      } catch (error: any) {
+        if (
+          error.message.includes("Template") ||
+          error.message.includes("rubric") ||
+          error.message.includes("Rubric")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
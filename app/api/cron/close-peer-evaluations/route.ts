@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { closeDuePeerEvaluations } from "@/lib/services";
+import { logAction, generateBatchId } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended for security)
+    const authHeader = request.headers.get("Authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { closed, blocked } = await closeDuePeerEvaluations();
+
+    const batchId = generateBatchId();
+    for (const evaluation of closed) {
+      await logAction({
+        action: "PEER_EVALUATION_CLOSED",
+        module: "Grading",
+        after: { multipliers: evaluation.multipliers },
+        reason: `Closed peer evaluation for ${evaluation.criteriaName} at its closing date and applied the adjustments to its grades`,
+        batchId,
+        metadata: {
+          source: "cron",
+          courseId: evaluation.courseId,
+          criteriaId: evaluation.criteriaId,
+          evaluationId: evaluation.id,
+        },
+      });
+    }
+    for (const evaluation of blocked) {
+      console.log(
+        `🔒 Peer evaluation for ${evaluation.criteriaName} left open: ${evaluation.reason}`
+      );
+    }
+
+    console.log(`🧮 Closed ${closed.length} peer evaluation(s)`);
+
+    return NextResponse.json({
+      success: true,
+      closed: closed.length,
+      blocked: blocked.length,
+      batchId: closed.length > 0 ? batchId : null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error closing peer evaluations:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to close peer evaluations",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { markAbsencesForEndedClasses } from "@/lib/services";
+import { logAction, generateBatchId } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended for security)
+    const authHeader = request.headers.get("Authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await markAbsencesForEndedClasses();
+
+    if (result.holiday) {
+      console.log(
+        `📅 ${result.date} is a holiday (${result.holiday}), skipped`
+      );
+    }
+    if (result.suspended > 0) {
+      console.log(
+        `📅 Skipped ${result.suspended} course(s) with no class on ${result.date}`
+      );
+    }
+
+    const batchId = generateBatchId();
+    for (const course of result.courses) {
+      await logAction({
+        action: "ATTENDANCE_AUTO_ABSENT",
+        module: "Attendance",
+        reason: `Marked ${course.studentIds.length} student(s) absent${
+          course.excusedStudentIds.length > 0
+            ? ` and ${course.excusedStudentIds.length} excused`
+            : ""
+        } for ${course.courseCode} - ${course.section} on ${
+          result.date
+        } after class ended`,
+        batchId,
+        after: {
+          courseId: course.courseId,
+          courseCode: course.courseCode,
+          date: result.date,
+          studentIds: course.studentIds,
+          excusedStudentIds: course.excusedStudentIds,
+        },
+        metadata: {
+          source: "cron",
+          recordCount:
+            course.studentIds.length + course.excusedStudentIds.length,
+        },
+      });
+    }
+
+    const markedAbsent = result.courses.reduce(
+      (sum, c) => sum + c.studentIds.length,
+      0
+    );
+    console.log(
+      `📝 Marked ${markedAbsent} absence(s) across ${result.courses.length} course(s)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      date: result.date,
+      holiday: result.holiday,
+      suspended: result.suspended,
+      courses: result.courses.length,
+      markedAbsent,
+      batchId: result.courses.length > 0 ? batchId : null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error marking absences:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to mark absences",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  cleanupExpiredExportJobs,
+  processQueuedExportJobs,
+} from "@/lib/services";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended for security)
+    const authHeader = request.headers.get("Authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { requeued, processed } = await processQueuedExportJobs();
+    const deleted = await cleanupExpiredExportJobs();
+
+    console.log(
+      `📦 Processed ${processed.length} export(s), requeued ${requeued}, removed ${deleted} expired`
+    );
+
+    return NextResponse.json({
+      success: true,
+      processed: processed.length,
+      failed: processed.filter((job) => job.status === "FAILED").length,
+      requeued,
+      deleted,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error processing export jobs:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to process export jobs",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
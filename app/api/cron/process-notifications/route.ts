@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runNotificationCycle } from "@/lib/services";
+import { generateBatchId } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended for security)
+    const authHeader = request.headers.get("Authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const batchId = generateBatchId();
+    const { absenceQueued, atRiskQueued, processed } =
+      await runNotificationCycle(batchId);
+
+    const sent = processed.filter((n) => n.status === "SENT").length;
+    const failed = processed.filter((n) => n.status === "FAILED").length;
+    console.log(
+      `✉️ Queued ${absenceQueued} absence and ${atRiskQueued} at-risk notification(s), sent ${sent}, failed ${failed}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      queued: { absence: absenceQueued, atRisk: atRiskQueued },
+      sent,
+      failed,
+      retrying: processed.length - sent - failed,
+      batchId: processed.length > 0 ? batchId : null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error processing notifications:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to process notifications",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
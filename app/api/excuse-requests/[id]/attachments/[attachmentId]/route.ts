@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getExcuseAttachmentUrl } from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { hasPermission, Permission } from "@/lib/roles";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: redirect to a short-lived link for the document
+// Reviewers can open any attachment; faculty only those they uploaded
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const canReview = await hasPermission(
+      session.user,
+      Permission.REVIEW_EXCUSES
+    );
+
+    try {
+      const url = await getExcuseAttachmentUrl(
+        id,
+        attachmentId,
+        canReview ? undefined : session.user.id
+      );
+      return NextResponse.redirect(url);
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    return handleAuthError(error);
+  }
+}
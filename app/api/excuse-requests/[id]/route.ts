@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { reviewExcuseRequest } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getRequestId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+const formatDate = (date: Date) => date.toISOString().split("T")[0];
+
+// PATCH: { decision: "APPROVE" | "REJECT", note? }
+export const PATCH = withLogging(
+  { action: "EXCUSE_REQUEST_REVIEW", module: "Attendance" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.REVIEW_EXCUSES);
+
+      const { decision, note } = await req.json();
+      if (decision !== "APPROVE" && decision !== "REJECT") {
+        return NextResponse.json(
+          { error: "decision must be APPROVE or REJECT" },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const { request, excused } = await reviewExcuseRequest(
+          getRequestId(req),
+          decision,
+          session.user.id,
+          note
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action:
+            decision === "APPROVE" ? "EXCUSE_APPROVED" : "EXCUSE_REJECTED",
+          module: "Attendance",
+          before: excused.length
+            ? excused.map((record) => ({
+                course: `${record.course.code} - ${record.course.section}`,
+                date: formatDate(record.date),
+                status: record.status,
+              }))
+            : undefined,
+          after: excused.length
+            ? { status: "EXCUSED", records: excused.length }
+            : undefined,
+          reason: `${
+            decision === "APPROVE" ? "Approved" : "Rejected"
+          } excuse for ${request.student.lastName}, ${
+            request.student.firstName
+          } from ${formatDate(request.startDate)} to ${formatDate(
+            request.endDate
+          )}: ${request.reviewNote ?? request.reason}`,
+          metadata: {
+            requestId: request.id,
+            studentId: request.studentId,
+            courseIds: [...new Set(excused.map((record) => record.course.id))],
+          },
+        });
+
+        return NextResponse.json(request);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Cannot review")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (error.message.includes("reason is required")) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
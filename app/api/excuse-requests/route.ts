@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  createExcuseRequest,
+  getExcuseRequests,
+  isTeachingStudent,
+} from "@/lib/services";
+import { handleAuthError } from "@/lib/authz";
+import { hasPermission, Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+import { ExcuseRequestStatus } from "@prisma/client";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: reviewers see every request; faculty see the ones they filed
+// Query: status?, studentId?
+export const GET = withLogging(
+  { action: "EXCUSE_REQUEST_LIST", module: "Attendance" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { searchParams } = new URL(req.url);
+      const status = searchParams.get("status");
+      if (
+        status &&
+        !Object.values(ExcuseRequestStatus).includes(
+          status as ExcuseRequestStatus
+        )
+      ) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+
+      const canReview = await hasPermission(
+        session.user,
+        Permission.REVIEW_EXCUSES
+      );
+
+      const requests = await getExcuseRequests({
+        status: (status as ExcuseRequestStatus) || undefined,
+        studentId: searchParams.get("studentId") || undefined,
+        requestedById: canReview ? undefined : session.user.id,
+      });
+
+      return NextResponse.json({ requests });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// POST: { studentId, startDate, endDate, reason, attachments }
+// Filed by a faculty member teaching the student, or by a reviewer
+export const POST = withLogging(
+  { action: "EXCUSE_REQUEST_CREATE", module: "Attendance" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const body = await req.json();
+      if (!body.studentId) {
+        return NextResponse.json(
+          { error: "studentId is required" },
+          { status: 400 }
+        );
+      }
+
+      const allowed =
+        (await hasPermission(session.user, Permission.REVIEW_EXCUSES)) ||
+        (await isTeachingStudent(session.user.id, body.studentId));
+      if (!allowed) {
+        return NextResponse.json(
+          { error: "You can only file excuses for students you teach" },
+          { status: 403 }
+        );
+      }
+
+      try {
+        const request = await createExcuseRequest(body, session.user.id);
+
+        await logAction({
+          userId: session.user.id,
+          action: "EXCUSE_REQUEST_CREATED",
+          module: "Attendance",
+          after: {
+            startDate: body.startDate,
+            endDate: body.endDate,
+            attachments: request.attachments.length,
+          },
+          reason: `Filed excuse for ${request.student.lastName}, ${request.student.firstName} from ${body.startDate} to ${body.endDate}: ${request.reason}`,
+          metadata: {
+            requestId: request.id,
+            studentId: request.studentId,
+          },
+        });
+
+        return NextResponse.json(request, { status: 201 });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("already")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (
+          error.message.includes("required") ||
+          error.message.includes("date") ||
+          error.message.includes("Attach") ||
+          error.message.includes("Invalid attachment")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getExportDownloadUrl, getExportJob } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: redirect to a short-lived link for the generated file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await getExportJob(id);
+
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (!job || (!isManager && job.requestedById !== session.user.id)) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+
+    try {
+      const url = await getExportDownloadUrl(id);
+      return NextResponse.redirect(url);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("expired")) {
+          return NextResponse.json({ error: error.message }, { status: 410 });
+        }
+        if (error.message.includes("not ready")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error downloading export:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to download export",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
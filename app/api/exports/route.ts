@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { prisma } from "@/lib/prisma";
+import {
+  createExportJob,
+  getExportJobs,
+  processExportJob,
+} from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// GET: the current user's recent exports
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const jobs = await getExportJobs(session.user.id, {
+      courseSlug: searchParams.get("courseSlug") || undefined,
+    });
+
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error("Error fetching export jobs:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch export jobs",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: queue an export; the workbook is generated after the response is sent
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { type, courseSlug, params } = body;
+
+    if (!type || !courseSlug) {
+      return NextResponse.json(
+        { error: "Export type and course are required" },
+        { status: 400 }
+      );
+    }
+
+    // Faculty can only export their own courses
+    const isManager = session.user.roles?.some(
+      (role) => role === "ADMIN" || role === "ACADEMIC_HEAD"
+    );
+    if (!isManager) {
+      const course = await prisma.course.findUnique({
+        where: { slug: courseSlug },
+        select: { facultyId: true },
+      });
+      if (course && course.facultyId !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    try {
+      const job = await createExportJob(
+        { type, courseSlug, params },
+        session.user.id
+      );
+
+      // The cron worker picks the job up if this never runs
+      after(async () => {
+        await processExportJob(job.id);
+      });
+
+      return NextResponse.json(job, { status: 202 });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error queueing export:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to queue export",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
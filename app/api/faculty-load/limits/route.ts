@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getTeachingLoadLimits,
+  updateTeachingLoadLimits,
+} from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: load limits per work type
+export const GET = withLogging(
+  { action: "LOAD_LIMITS_VIEW", module: "Faculty" },
+  async (_req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const limits = await getTeachingLoadLimits();
+      return NextResponse.json({ limits });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// PUT: { limits: Array<{ workType, maxHours, maxCourses? }> }
+export const PUT = withLogging(
+  { action: "LOAD_LIMITS_UPDATE", module: "Faculty" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_FACULTY);
+
+      const body = await req.json();
+
+      try {
+        const { before, after } = await updateTeachingLoadLimits(body.limits);
+
+        await logAction({
+          userId: session.user.id,
+          action: "LOAD_LIMITS_UPDATED",
+          module: "Faculty",
+          before,
+          after,
+          reason: "Updated faculty teaching load limits",
+        });
+
+        return NextResponse.json({ limits: after });
+      } catch (error: any) {
+        if (
+          error.message.includes("required") ||
+          error.message.includes("must")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
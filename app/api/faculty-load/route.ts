@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getFacultyUtilization } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: teaching load of every faculty member against their work type's limits
+export const GET = withLogging(
+  { action: "FACULTY_UTILIZATION_VIEW", module: "Faculty" },
+  async (_req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_FACULTY);
+
+      const faculty = await getFacultyUtilization();
+      return NextResponse.json({ faculty });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { reviewGradeChangeRequest } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getRequestId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+const summarizeTermGrade = (termGrade: any) =>
+  termGrade
+    ? {
+        totalPercentage: termGrade.totalPercentage,
+        numericGrade: termGrade.numericGrade,
+        gradeLabel: termGrade.gradeLabel,
+        remarks: termGrade.remarks,
+      }
+    : null;
+
+// PATCH: { decision: "APPROVE" | "REJECT", note? }
+export const PATCH = withLogging(
+  { action: "GRADE_CHANGE_REQUEST_REVIEW", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.REVIEW_GRADES);
+
+      const { decision, note } = await req.json();
+      if (decision !== "APPROVE" && decision !== "REJECT") {
+        return NextResponse.json(
+          { error: "decision must be APPROVE or REJECT" },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const result = await reviewGradeChangeRequest(
+          getRequestId(req),
+          decision,
+          session.user.id,
+          note
+        );
+        const { request } = result;
+
+        await logAction({
+          userId: session.user.id,
+          action:
+            decision === "APPROVE"
+              ? "GRADE_CHANGE_APPROVED"
+              : "GRADE_CHANGE_REJECTED",
+          module: "Grading",
+          before: {
+            score: result.beforeScore,
+            termGrade: summarizeTermGrade(result.beforeTermGrade),
+          },
+          after: {
+            score: result.afterScore,
+            termGrade: summarizeTermGrade(result.afterTermGrade),
+          },
+          reason: `${
+            decision === "APPROVE" ? "Approved" : "Rejected"
+          } grade change for ${request.student.lastName}, ${
+            request.student.firstName
+          } on ${request.assessment.name} (${request.course.code} - ${
+            request.course.section
+          }): ${request.reviewNote ?? request.reason}`,
+          metadata: {
+            requestId: request.id,
+            courseId: request.courseId,
+            assessmentId: request.assessmentId,
+            studentId: request.studentId,
+            term: request.assessment.termConfig.term,
+          },
+        });
+
+        return NextResponse.json(request);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Cannot review")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (
+          error.message.includes("reason is required") ||
+          error.message.includes("cannot exceed") ||
+          error.message.includes("linked criteria")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
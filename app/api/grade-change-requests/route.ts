@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getGradeChangeRequestsForReview } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: pending grade change requests across courses
+export const GET = withLogging(
+  { action: "GRADE_CHANGE_REQUEST_LIST", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.REVIEW_GRADES);
+
+      const requests = await getGradeChangeRequestsForReview();
+
+      return NextResponse.json({ requests });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getGradeSubmissionsForReview } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: grade sheets awaiting review or locking
+export const GET = withLogging(
+  { action: "GRADE_SUBMISSION_REVIEW_LIST", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.REVIEW_GRADES);
+
+      const submissions = await getGradeSubmissionsForReview();
+
+      return NextResponse.json({ submissions });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getGradingScale,
+  updateGradingScale,
+  deleteGradingScale,
+  GradingScaleInput,
+} from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getScaleId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+const summarizeScale = (scale: any) => ({
+  id: scale.id,
+  name: scale.name,
+  type: scale.type,
+  department: scale.department,
+  isDefault: scale.isDefault,
+  passingGrade: scale.passingGrade,
+  lowerIsBetter: scale.lowerIsBetter,
+  entries: scale.entries.map((entry: any) => ({
+    minPercentage: entry.minPercentage,
+    label: entry.label,
+    value: entry.value,
+  })),
+});
+
+export const GET = withLogging(
+  { action: "GRADING_SCALE_VIEW", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const scale = await getGradingScale(getScaleId(req));
+      if (!scale) {
+        return NextResponse.json(
+          { error: "Grading scale not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(scale);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const PUT = withLogging(
+  { action: "GRADING_SCALE_UPDATE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_GRADING_SCALES);
+
+      const body: GradingScaleInput = await req.json();
+
+      try {
+        const { before, scale } = await updateGradingScale(
+          getScaleId(req),
+          body
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "GRADING_SCALE_UPDATED",
+          module: "Grading",
+          before: summarizeScale(before),
+          after: summarizeScale(scale),
+          reason: `Updated grading scale: ${scale.name}`,
+          metadata: { affectedCourses: scale._count.courses },
+        });
+
+        return NextResponse.json(scale);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (
+          error.message.includes("Grading scale") ||
+          error.message.includes("Entry") ||
+          error.message.includes("entry") ||
+          error.message.includes("Passing grade")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const DELETE = withLogging(
+  { action: "GRADING_SCALE_DELETE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_GRADING_SCALES);
+
+      try {
+        const deleted = await deleteGradingScale(getScaleId(req));
+
+        await logAction({
+          userId: session.user.id,
+          action: "GRADING_SCALE_DELETED",
+          module: "Grading",
+          before: summarizeScale(deleted),
+          reason: `Deleted grading scale: ${deleted.name}`,
+        });
+
+        return NextResponse.json({ success: true });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("in use")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
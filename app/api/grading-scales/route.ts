@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getGradingScales,
+  createGradingScale,
+  GradingScaleInput,
+} from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+export const GET = withLogging(
+  { action: "GRADING_SCALE_LIST", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { searchParams } = new URL(req.url);
+      const scales = await getGradingScales({
+        department: searchParams.get("department") || undefined,
+      });
+
+      return NextResponse.json(scales);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const POST = withLogging(
+  { action: "GRADING_SCALE_CREATE", module: "Grading" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_GRADING_SCALES);
+
+      const body: GradingScaleInput = await req.json();
+
+      try {
+        const scale = await createGradingScale(body, session.user.id);
+
+        await logAction({
+          userId: session.user.id,
+          action: "GRADING_SCALE_CREATED",
+          module: "Grading",
+          after: {
+            id: scale.id,
+            name: scale.name,
+            type: scale.type,
+            department: scale.department,
+            isDefault: scale.isDefault,
+            passingGrade: scale.passingGrade,
+            entries: scale.entries.length,
+          },
+          reason: `Created grading scale: ${scale.name}`,
+        });
+
+        return NextResponse.json(scale);
+      } catch (error: any) {
+        if (
+          error.message.includes("Grading scale") ||
+          error.message.includes("Entry") ||
+          error.message.includes("entry") ||
+          error.message.includes("Passing grade")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { updateKioskDevice } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getDeviceId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+// PUT: { name?, roomId?, isActive? }
+export const PUT = withLogging(
+  { action: "KIOSK_DEVICE_UPDATE", module: "Attendance" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_KIOSKS);
+
+      const body = await req.json();
+
+      try {
+        const { before, device } = await updateKioskDevice(getDeviceId(req), {
+          name: body.name,
+          roomId: body.roomId,
+          isActive: body.isActive,
+        });
+
+        await logAction({
+          userId: session.user.id,
+          action: "KIOSK_DEVICE_UPDATED",
+          module: "Attendance",
+          before: {
+            name: before.name,
+            room: before.room.name,
+            isActive: before.isActive,
+          },
+          after: {
+            name: device.name,
+            room: device.room.name,
+            isActive: device.isActive,
+          },
+          reason: `Updated kiosk ${device.name}`,
+          metadata: { deviceId: device.id },
+        });
+
+        return NextResponse.json(device);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("required")) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { rotateKioskDeviceToken } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getDeviceId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 2];
+};
+
+// POST: issue a new device token (the old one stops working)
+export const POST = withLogging(
+  { action: "KIOSK_DEVICE_TOKEN_ROTATE", module: "Attendance" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_KIOSKS);
+
+      try {
+        const { device, token } = await rotateKioskDeviceToken(
+          getDeviceId(req)
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "KIOSK_DEVICE_TOKEN_ROTATED",
+          module: "Attendance",
+          reason: `Issued a new token for kiosk ${device.name}`,
+          metadata: { deviceId: device.id },
+        });
+
+        return NextResponse.json({ device, token });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getKioskDevices, createKioskDevice } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: registered kiosk devices
+export const GET = withLogging(
+  { action: "KIOSK_DEVICE_LIST", module: "Attendance" },
+  async () => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_KIOSKS);
+
+      const devices = await getKioskDevices();
+      return NextResponse.json({ devices });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// POST: { name, roomId } — returns the device and its token (shown only once)
+export const POST = withLogging(
+  { action: "KIOSK_DEVICE_CREATE", module: "Attendance" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_KIOSKS);
+
+      const body = await req.json();
+
+      try {
+        const { device, token } = await createKioskDevice(
+          body,
+          session.user.id
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "KIOSK_DEVICE_CREATED",
+          module: "Attendance",
+          after: { id: device.id, name: device.name, room: device.room.name },
+          reason: `Registered kiosk ${device.name} in room ${device.room.name}`,
+        });
+
+        return NextResponse.json({ device, token });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("required")) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
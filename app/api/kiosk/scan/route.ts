@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateKioskDevice, recordKioskScan } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: { rfid } — tap event from a classroom reader
+// Authenticated with the device token (Authorization: Bearer <token>), not a user session
+export async function POST(req: NextRequest) {
+  try {
+    const token =
+      req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") || "";
+    const device = await authenticateKioskDevice(token);
+
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    if (!body.rfid) {
+      return NextResponse.json({ error: "RFID is required" }, { status: 400 });
+    }
+
+    try {
+      const result = await recordKioskScan(device, String(body.rfid));
+      return NextResponse.json(result);
+    } catch (error: any) {
+      if (
+        error.message.includes("not found") ||
+        error.message.includes("No class")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("already") ||
+        error.message.includes("timed out") ||
+        error.message.includes("paused")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes("Invalid")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error recording kiosk scan:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to record attendance",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateKioskDevice, getKioskStatus } from "@/lib/services";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: the device and the class currently scheduled in its room
+export async function GET(req: NextRequest) {
+  try {
+    const token =
+      req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") || "";
+    const device = await authenticateKioskDevice(token);
+
+    if (!device) {
+      return NextResponse.json(
+        { error: "Unauthorized device" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(await getKioskStatus(device));
+  } catch (error: any) {
+    console.error("Error fetching kiosk status:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch kiosk status",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { NotificationStatus, NotificationType } from "@prisma/client";
+import { authOptions } from "@/lib/auth-options";
+import { getNotifications } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+export const GET = withLogging(
+  { action: "NOTIFICATION_LIST", module: "Notifications" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_NOTIFICATIONS);
+
+      const { searchParams } = new URL(req.url);
+      const status = searchParams.get("status");
+      const type = searchParams.get("type");
+
+      const notifications = await getNotifications({
+        status:
+          status && status in NotificationStatus
+            ? (status as NotificationStatus)
+            : undefined,
+        type:
+          type && type in NotificationType
+            ? (type as NotificationType)
+            : undefined,
+        limit: parseInt(searchParams.get("limit") || "100", 10) || 100,
+      });
+
+      return NextResponse.json(notifications);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
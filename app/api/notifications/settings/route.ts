@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getNotificationSettings,
+  updateNotificationSettings,
+  NotificationSettingsInput,
+} from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const summarizeSettings = (settings: any) => ({
+  absenceEnabled: settings.absenceEnabled,
+  absenceThreshold: settings.absenceThreshold,
+  notifyGuardian: settings.notifyGuardian,
+  atRiskEnabled: settings.atRiskEnabled,
+  failingThreshold: settings.failingThreshold,
+});
+
+export const GET = withLogging(
+  { action: "NOTIFICATION_SETTINGS_VIEW", module: "Notifications" },
+  async () => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_NOTIFICATIONS);
+
+      const settings = await getNotificationSettings();
+      return NextResponse.json(settings);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+export const PUT = withLogging(
+  { action: "NOTIFICATION_SETTINGS_UPDATE", module: "Notifications" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_NOTIFICATIONS);
+
+      const body: NotificationSettingsInput = await req.json();
+
+      try {
+        const before = await getNotificationSettings();
+        const settings = await updateNotificationSettings(
+          body,
+          session.user.id
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "NOTIFICATION_SETTINGS_UPDATED",
+          module: "Notifications",
+          before: summarizeSettings(before),
+          after: summarizeSettings(settings),
+          reason: "Updated notification settings",
+        });
+
+        return NextResponse.json(settings);
+      } catch (error: any) {
+        if (error.message.includes("threshold")) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getFacultyAvailability, setFacultyAvailability } from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const toSnapshot = (
+  windows: Array<{ day: string; fromTime: string; toTime: string }>
+) => windows.map((w) => `${w.day} ${w.fromTime} - ${w.toTime}`);
+
+// GET: the signed-in faculty member's weekly availability windows
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const availability = await getFacultyAvailability(session.user.id);
+    return NextResponse.json({ availability });
+  } catch (error: any) {
+    console.error("Error fetching availability:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch availability" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: { availability: Array<{ day, fromTime, toTime }> } replaces every window
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const isFaculty = session.user.roles?.some(
+      (role) => role === "FACULTY" || role === "ACADEMIC_HEAD"
+    );
+    if (!isFaculty) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    try {
+      const { before, after } = await setFacultyAvailability(
+        session.user.id,
+        body.availability
+      );
+
+      await logAction({
+        userId: session.user.id,
+        action: "AVAILABILITY_UPDATED",
+        module: "Faculty",
+        before: { availability: toSnapshot(before) },
+        after: { availability: toSnapshot(after) },
+        reason: `Declared ${after.length} availability window(s)`,
+      });
+
+      return NextResponse.json({ availability: after });
+    } catch (error: any) {
+      if (
+        error.message.includes("required") ||
+        error.message.includes("must")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error updating availability:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update availability" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getCalendarFeed,
+  revokeCalendarFeed,
+  rotateCalendarFeedToken,
+} from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: whether the signed-in user has a calendar feed (the URL is only shown once)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const feed = await getCalendarFeed(session.user.id);
+    return NextResponse.json({ feed });
+  } catch (error: any) {
+    console.error("Error fetching calendar feed:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch calendar feed" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: issue a new feed URL; any previous URL stops working
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { feed, token, rotated } = await rotateCalendarFeedToken(
+      session.user.id
+    );
+
+    await logAction({
+      userId: session.user.id,
+      action: rotated ? "CALENDAR_FEED_TOKEN_ROTATED" : "CALENDAR_FEED_CREATED",
+      module: "Calendar",
+      reason: rotated
+        ? "Rotated calendar feed URL; the previous URL no longer works"
+        : "Created calendar feed",
+    });
+
+    const url = new URL(
+      `/api/calendar/feed/${token}.ics`,
+      request.nextUrl.origin
+    ).toString();
+
+    return NextResponse.json({ feed, url });
+  } catch (error: any) {
+    console.error("Error issuing calendar feed:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to issue calendar feed" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: revoke the feed; subscribed calendars stop updating
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      const feed = await revokeCalendarFeed(session.user.id);
+
+      await logAction({
+        userId: session.user.id,
+        action: "CALENDAR_FEED_REVOKED",
+        module: "Calendar",
+        before: {
+          createdAt: feed.createdAt.toISOString(),
+          lastAccessedAt: feed.lastAccessedAt?.toISOString() ?? null,
+        },
+        reason: "Revoked calendar feed",
+      });
+
+      return NextResponse.json({ success: true });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error revoking calendar feed:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to revoke calendar feed" },
+      { status: 500 }
+    );
+  }
+}
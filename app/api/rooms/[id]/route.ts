@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { updateRoom, deleteRoom } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getRoomId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+const roomSnapshot = (room: {
+  name: string;
+  building: string | null;
+  capacity: number;
+  type: string;
+}) => ({
+  name: room.name,
+  building: room.building,
+  capacity: room.capacity,
+  type: room.type,
+});
+
+// PATCH: { name?, building?, capacity?, type? }
+export const PATCH = withLogging(
+  { action: "ROOM_UPDATE", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_ROOMS);
+
+      const body = await req.json();
+
+      try {
+        const { before, room } = await updateRoom(getRoomId(req), body);
+
+        await logAction({
+          userId: session.user.id,
+          action: "ROOM_UPDATED",
+          module: "Course",
+          before: roomSnapshot(before),
+          after: roomSnapshot(room),
+          reason: `Updated room ${room.name}`,
+          metadata: { roomId: room.id },
+        });
+
+        return NextResponse.json(room);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (
+          error.message.includes("already exists") ||
+          error.message.includes("Cannot")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (
+          error.message.includes("required") ||
+          error.message.includes("must")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// DELETE: courses keep their room label but lose the capacity link
+export const DELETE = withLogging(
+  { action: "ROOM_DELETE", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_ROOMS);
+
+      try {
+        const room = await deleteRoom(getRoomId(req));
+
+        await logAction({
+          userId: session.user.id,
+          action: "ROOM_DELETED",
+          module: "Course",
+          before: roomSnapshot(room),
+          reason: `Deleted room ${room.name}`,
+          metadata: { roomId: room.id, courses: room._count.courses },
+        });
+
+        return NextResponse.json({ success: true });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("Cannot")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { RoomType } from "@prisma/client";
+import { authOptions } from "@/lib/auth-options";
+import { getRooms, createRoom } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: rooms (?type=LECTURE|LAB&search=) with course counts
+export const GET = withLogging(
+  { action: "ROOM_LIST", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { searchParams } = new URL(req.url);
+      const type = searchParams.get("type");
+      const rooms = await getRooms({
+        type:
+          type && Object.values(RoomType).includes(type as RoomType)
+            ? (type as RoomType)
+            : undefined,
+        search: searchParams.get("search") || undefined,
+      });
+
+      return NextResponse.json({ rooms });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// POST: { name, building?, capacity, type? }
+export const POST = withLogging(
+  { action: "ROOM_CREATE", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_ROOMS);
+
+      const body = await req.json();
+
+      try {
+        const room = await createRoom(body);
+
+        await logAction({
+          userId: session.user.id,
+          action: "ROOM_CREATED",
+          module: "Course",
+          after: {
+            id: room.id,
+            name: room.name,
+            building: room.building,
+            capacity: room.capacity,
+            type: room.type,
+          },
+          reason: `Created room ${room.name}`,
+        });
+
+        return NextResponse.json(room);
+      } catch (error: any) {
+        if (error.message.includes("already exists")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (
+          error.message.includes("required") ||
+          error.message.includes("must")
+        ) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getSectionById, setSectionStudents } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const getSectionId = (req: NextRequest) => {
+  const parts = new URL(req.url).pathname.split("/").filter(Boolean);
+  return parts[parts.length - 1];
+};
+
+// GET: the section with its courses and students
+export const GET = withLogging(
+  { action: "SECTION_VIEW", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const section = await getSectionById(getSectionId(req));
+      if (!section) {
+        return NextResponse.json(
+          { error: "Section not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(section);
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// PUT: { studentIds } — replaces the section's students
+export const PUT = withLogging(
+  { action: "SECTION_STUDENTS_UPDATE", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_SECTIONS);
+
+      const body = await req.json();
+
+      try {
+        const { before, section } = await setSectionStudents(
+          getSectionId(req),
+          body.studentIds
+        );
+
+        await logAction({
+          userId: session.user.id,
+          action: "SECTION_STUDENTS_UPDATED",
+          module: "Course",
+          before: { studentIds: before },
+          after: { studentIds: section?.students.map((s) => s.id) ?? [] },
+          reason: `Updated students of section ${section?.name} (${section?.academicYear})`,
+          metadata: { sectionId: section?.id },
+        });
+
+        return NextResponse.json(section);
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.includes("must be")) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
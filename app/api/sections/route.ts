@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getSections, createSection } from "@/lib/services";
+import { requirePermission, handleAuthError } from "@/lib/authz";
+import { Permission } from "@/lib/roles";
+import { withLogging } from "@/lib/withLogging";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// GET: sections (?academicYear=&search=) with course and student counts
+export const GET = withLogging(
+  { action: "SECTION_LIST", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { searchParams } = new URL(req.url);
+      const sections = await getSections({
+        academicYear: searchParams.get("academicYear") || undefined,
+        search: searchParams.get("search") || undefined,
+      });
+
+      return NextResponse.json({ sections });
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
+
+// POST: { name, academicYear }
+export const POST = withLogging(
+  { action: "SECTION_CREATE", module: "Course" },
+  async (req: NextRequest) => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      await requirePermission(session.user, Permission.MANAGE_SECTIONS);
+
+      const body = await req.json();
+
+      try {
+        const section = await createSection(body);
+
+        await logAction({
+          userId: session.user.id,
+          action: "SECTION_CREATED",
+          module: "Course",
+          after: {
+            id: section.id,
+            name: section.name,
+            academicYear: section.academicYear,
+          },
+          reason: `Created section ${section.name} (${section.academicYear})`,
+        });
+
+        return NextResponse.json(section);
+      } catch (error: any) {
+        if (error.message.includes("already exists")) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (error.message.includes("required")) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAuthError(error);
+    }
+  }
+);
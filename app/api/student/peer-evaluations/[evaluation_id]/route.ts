@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { hasAccess } from "@/lib/permissions";
+import { submitPeerRatings } from "@/lib/services";
+import { logAction } from "@/lib/audit";
+
+// Route segment config for pre-compilation and performance
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// POST: { ratings: [{ rateeId, scores, comment? }] } from a signed-in student
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ evaluation_id: string }> }
+) {
+  try {
+    const { evaluation_id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasAccess(session.user, "CAN_ACCESS_STUDENT_PORTAL")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { ratings } = await req.json();
+
+    try {
+      const result = await submitPeerRatings(
+        session.user.id,
+        evaluation_id,
+        ratings
+      );
+
+      await logAction({
+        action: "PEER_EVALUATION_SUBMITTED",
+        module: "Grading",
+        reason: `Student rated ${result.rated} groupmate(s) for ${result.evaluation.criteria.name}`,
+        metadata: {
+          courseId: result.evaluation.courseId,
+          evaluationId: evaluation_id,
+          studentId: session.user.id,
+        },
+      });
+
+      return NextResponse.json({ success: true, rated: result.rated });
+    } catch (error: any) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Cannot")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("Rate each") ||
+        error.message.includes("must score")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error("Error submitting peer ratings:", error);
+    return NextResponse.json(
+      { error: "Failed to submit ratings" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
 import { encryptResponse } from "@/lib/crypto-server";
+import { SCHOOL_EMAIL_DOMAIN } from "@/lib/services";
 
 // Route segment config for pre-compilation and performance
 export const dynamic = "force-dynamic";
@@ -78,6 +79,8 @@ export async function PUT(request: Request, context: any) {
       image,
       studentId: newStudentId,
       rfid_id,
+      email,
+      guardianEmail,
     } = body;
 
     // ✅ Validate required fields
@@ -91,6 +94,32 @@ export async function PUT(request: Request, context: any) {
       );
     }
 
+    // ✅ Portal accounts must be on the school domain
+    const normalizedEmail =
+      typeof email === "string" && email.trim()
+        ? email.trim().toLowerCase()
+        : null;
+    if (normalizedEmail && !normalizedEmail.endsWith(SCHOOL_EMAIL_DOMAIN)) {
+      return NextResponse.json(
+        { error: `Email must end with ${SCHOOL_EMAIL_DOMAIN}` },
+        { status: 400 }
+      );
+    }
+
+    const normalizedGuardianEmail =
+      typeof guardianEmail === "string" && guardianEmail.trim()
+        ? guardianEmail.trim().toLowerCase()
+        : null;
+    if (
+      normalizedGuardianEmail &&
+      !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedGuardianEmail)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid guardian email" },
+        { status: 400 }
+      );
+    }
+
     // ✅ Make sure the student exists (use ID, not RFID)
     const currentStudent = await prisma.student.findUnique({
       where: { id: studentId },
@@ -145,6 +174,10 @@ export async function PUT(request: Request, context: any) {
         image: image || null,
         studentId: newStudentId,
         rfid_id: numericRfid,
+        ...(email !== undefined && { email: normalizedEmail }),
+        ...(guardianEmail !== undefined && {
+          guardianEmail: normalizedGuardianEmail,
+        }),
       },
       include: {
         coursesEnrolled: {
@@ -2,7 +2,8 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth-options';
 import { createClient } from '@supabase/supabase-js';
-import { UploadResponse } from '@/shared/types/upload';
+import { DocumentUploadResponse, UploadResponse } from '@/shared/types/upload';
+import { EXCUSE_BUCKET } from '@/lib/services';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -13,6 +14,46 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!,
 );
 
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Excuse letters go to a private bucket under the uploader's folder; the
+// returned path is attached to an excuse request and served via signed URLs
+async function uploadExcuseDocument(userId: string, file: File) {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    return NextResponse.json(
+      { error: 'Only images and PDF files can be attached' },
+      { status: 400, headers: { 'Cache-Control': 'no-store' } },
+    );
+  }
+
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return NextResponse.json(
+      { error: 'File must be 10 MB or smaller' },
+      { status: 400, headers: { 'Cache-Control': 'no-store' } },
+    );
+  }
+
+  const ext = file.name.split('.').pop()?.toLowerCase() || 'pdf';
+  const path = `${userId}/${crypto.randomUUID()}.${ext}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(EXCUSE_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const response: DocumentUploadResponse = {
+    path,
+    fileName: file.name,
+    contentType: file.type,
+    size: file.size,
+  };
+
+  return NextResponse.json(response, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
@@ -24,6 +65,18 @@ export async function POST(request: Request) {
     }
 
     const formData = await request.formData();
+
+    if (formData.get('purpose') === 'excuse') {
+      const document = formData.get('file');
+      if (!(document instanceof File)) {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400, headers: { 'Cache-Control': 'no-store' } },
+        );
+      }
+      return await uploadExcuseDocument(session.user.id, document);
+    }
+
     const file = formData.get('image') as File;
 
     if (!file) {
@@ -66,9 +119,9 @@ export async function POST(request: Request) {
       headers: { 'Cache-Control': 'no-store' },
     });
   } catch (error) {
-    console.error('Error uploading image:', error);
+    console.error('Error uploading file:', error);
     return NextResponse.json(
-      { error: 'Failed to upload image' },
+      { error: 'Failed to upload file' },
       { status: 500, headers: { 'Cache-Control': 'no-store' } },
     );
   }
@@ -3,6 +3,10 @@ import { AppSidebar } from "@/shared/components/layout/app-sidebar";
 import Stats from "@/features/dashboard/components/stats";
 import Greet from "@/features/dashboard/components/greeting";
 import AcademicHeadStats from "@/features/dashboard/components/academic-head-stats";
+import GradeSubmissionReview from "@/features/dashboard/components/grade-submission-review";
+import GradeChangeReview from "@/features/dashboard/components/grade-change-review";
+import ExcuseRequestReview from "@/features/dashboard/components/excuse-request-review";
+import DepartmentRiskOverview from "@/features/dashboard/components/department-risk-overview";
 import Header from "@/shared/components/layout/header";
 import Rightsidebar from "@/shared/components/layout/right-sidebar";
 import { getFacultyStats, getFacultyCount } from "@/lib/services/stats";
@@ -10,6 +14,7 @@ import {
   getFacultyWithHighestLoad,
   getCoursesWithWorstAttendance,
 } from "@/lib/services/academic-head-stats";
+import { getDepartmentRiskSummary } from "@/lib/services";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
 import { redirect } from "next/navigation";
@@ -35,11 +40,13 @@ export default async function AcademicHeadDashboard() {
     facultyCount,
     highestLoadFaculty,
     worstAttendanceCourses,
+    departmentRisk,
   ] = await Promise.all([
     getFacultyStats(session.user.id),
     getFacultyCount(),
     getFacultyWithHighestLoad(),
     getCoursesWithWorstAttendance(),
+    getDepartmentRiskSummary(),
   ]);
 
   return (
@@ -59,6 +66,14 @@ export default async function AcademicHeadDashboard() {
                 userRole={session.user.roles?.[0] || "ACADEMIC_HEAD"}
               />
 
+              <GradeSubmissionReview />
+
+              <GradeChangeReview />
+
+              <ExcuseRequestReview />
+
+              <DepartmentRiskOverview departments={departmentRisk} />
+
               <AcademicHeadStats
                 highestLoadFaculty={highestLoadFaculty}
                 worstAttendanceCourses={worstAttendanceCourses}
@@ -0,0 +1,40 @@
+import React from "react";
+import { AppSidebar } from "@/shared/components/layout/app-sidebar";
+import Header from "@/shared/components/layout/header";
+import Rightsidebar from "@/shared/components/layout/right-sidebar";
+import { AcademicCalendarManager } from "@/features/admin/components/academic-calendar-manager";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { redirect } from "next/navigation";
+import { hasAccess } from "@/lib/permissions";
+
+export const dynamic = "force-dynamic";
+
+export default async function AcademicCalendarPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect("/");
+  }
+
+  // The academic calendar is managed from the admin dashboard
+  if (!hasAccess(session.user, "CAN_ACCESS_ADMIN_DASHBOARD")) {
+    redirect("/403");
+  }
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden">
+      <AppSidebar />
+      <Header />
+
+      <main className="h-full w-full xl:w-[calc(100%-22.5rem)] pl-[4rem] sm:pl-[5rem] transition-all overflow-y-auto">
+        <div className="flex flex-col flex-grow px-4">
+          <AcademicCalendarManager />
+        </div>
+
+        {/* Right Sidebar */}
+        <Rightsidebar />
+      </main>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ import Stats from "@/features/dashboard/components/stats";
 import Greet from "@/features/dashboard/components/greeting";
 import AllCourses from "@/features/courses/components/all-courses";
 import WeeklySchedule from "@/features/dashboard/components/weekly-schedule";
+import AtRiskStudents from "@/features/dashboard/components/at-risk-students";
 import Header from "@/shared/components/layout/header";
 import Rightsidebar from "@/shared/components/layout/right-sidebar";
-import { getCourses } from "@/lib/services";
+import { getCourses, getFacultyAtRiskStudents } from "@/lib/services";
 import { getFacultyStats, getFacultyCount } from "@/lib/services/stats";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
@@ -38,6 +39,12 @@ async function StatsContent({
   );
 }
 
+// Separate async component for the early-warning list
+async function AtRiskContent({ userId }: { userId: string }) {
+  const students = await getFacultyAtRiskStudents(userId);
+  return <AtRiskStudents students={students} />;
+}
+
 // Separate async component for courses
 function CoursesContent({ coursesResult }: { coursesResult: any }) {
   // Check if user has no courses
@@ -100,6 +107,9 @@ export default async function FacultyDashboard() {
                   userRole={session.user.roles?.[0] || "FACULTY"}
                 />
 
+                {/* At-risk students - only when there are courses */}
+                {!hasNoCourses && <AtRiskContent userId={session.user.id} />}
+
                 {/* Courses */}
                 <CoursesContent coursesResult={coursesResult} />
               </div>
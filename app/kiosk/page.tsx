@@ -0,0 +1,8 @@
+import { KioskScanner } from "@/features/attendance/components/kiosk-scanner";
+
+export const dynamic = "force-dynamic";
+
+// Full-screen page for classroom RFID readers; authenticated by device token
+export default function KioskPage() {
+  return <KioskScanner />;
+}
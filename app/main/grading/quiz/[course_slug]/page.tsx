@@ -0,0 +1,39 @@
+import { getCourseBySlug } from "@/lib/services";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { redirect, notFound } from "next/navigation";
+import { QuizPageClient } from "@/features/grading/components/quiz-page-client";
+
+export const dynamic = "force-dynamic";
+
+export default async function IndividualQuizPage({
+  params,
+}: {
+  params: Promise<{ course_slug: string }>;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect("/");
+  }
+
+  const { course_slug } = await params;
+
+  const course = await getCourseBySlug(course_slug);
+
+  if (!course) {
+    notFound();
+  }
+
+  return (
+    <QuizPageClient
+      course={{
+        id: course.id,
+        code: course.code,
+        title: course.title,
+        section: course.section,
+        slug: course.slug,
+      }}
+    />
+  );
+}
@@ -107,16 +107,19 @@ export default function RedirectingPage() {
       }
 
       // For other roles, proceed with normal redirection
-      // Determine primary role (priority: ACADEMIC_HEAD > FACULTY)
+      // Determine primary role (priority: ACADEMIC_HEAD > FACULTY > STUDENT)
       const primaryRole = roles.includes(Role.ACADEMIC_HEAD)
         ? Role.ACADEMIC_HEAD
         : roles.includes(Role.FACULTY)
         ? Role.FACULTY
+        : roles.includes(Role.STUDENT)
+        ? Role.STUDENT
         : roles[0];
 
       const roleMap: Record<string, string> = {
         ACADEMIC_HEAD: "/dashboard/academic-head",
         FACULTY: "/dashboard/faculty",
+        STUDENT: "/student",
       };
 
       const path = primaryRole
@@ -0,0 +1,44 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { ArrowLeft } from "lucide-react";
+import { authOptions } from "@/lib/auth-options";
+import {
+  getStudentCourseRecord,
+  getStudentPeerEvaluations,
+} from "@/lib/services";
+import { CourseRecord } from "@/features/student-portal/components/course-record";
+import { PeerEvaluationForm } from "@/features/student-portal/components/peer-evaluation-form";
+
+export const dynamic = "force-dynamic";
+
+export default async function StudentCoursePage({
+  params,
+}: {
+  params: Promise<{ course_slug: string }>;
+}) {
+  const { course_slug } = await params;
+  const session = await getServerSession(authOptions);
+  const record = await getStudentCourseRecord(session!.user.id, course_slug);
+
+  if (!record) notFound();
+
+  const peerEvaluations = await getStudentPeerEvaluations(
+    session!.user.id,
+    record.course.id
+  );
+
+  return (
+    <div className="space-y-4">
+      <Link
+        href="/student"
+        className="inline-flex items-center gap-1 text-sm text-[#124A69] hover:underline"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        My Courses
+      </Link>
+      <PeerEvaluationForm evaluations={peerEvaluations} />
+      <CourseRecord record={record} />
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth-options";
+import { hasAccess } from "@/lib/permissions";
+import { getPortalStudent } from "@/lib/services";
+import { PortalHeader } from "@/features/student-portal/components/portal-header";
+
+export const dynamic = "force-dynamic";
+
+export default async function StudentPortalLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user || !hasAccess(session.user, "CAN_ACCESS_STUDENT_PORTAL")) {
+    redirect("/");
+  }
+
+  const student = await getPortalStudent(session.user.id);
+  if (!student) {
+    redirect("/session-expired");
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PortalHeader
+        name={`${student.firstName} ${student.lastName}`}
+        studentNumber={student.studentId}
+      />
+      <main className="mx-auto max-w-5xl p-4 sm:p-6">{children}</main>
+    </div>
+  );
+}
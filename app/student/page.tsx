@@ -0,0 +1,19 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth-options";
+import { getStudentPortalCourses } from "@/lib/services";
+import { CourseList } from "@/features/student-portal/components/course-list";
+
+export const dynamic = "force-dynamic";
+
+// Access is checked by the portal layout
+export default async function StudentPortalPage() {
+  const session = await getServerSession(authOptions);
+  const courses = await getStudentPortalCourses(session!.user.id);
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-xl font-bold text-gray-800">My Courses</h1>
+      <CourseList courses={courses} />
+    </div>
+  );
+}
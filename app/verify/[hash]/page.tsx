@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { getServerSession } from "next-auth";
+import { CheckCircle2, Lock, XCircle } from "lucide-react";
+import { authOptions } from "@/lib/auth-options";
+import { getIssuedDocument } from "@/lib/services";
+
+export const dynamic = "force-dynamic";
+
+interface IssuedDocumentSummary {
+  course: {
+    code: string;
+    title: string;
+    section: string;
+    semester: string;
+    academicYear: string;
+  };
+  termLabel: string | null;
+  faculty: string | null;
+  columns: string[];
+  rows: string[][];
+  signatories: Array<{
+    title: string;
+    name: string | null;
+    date: string | null;
+  }>;
+}
+
+// Public page behind the QR code printed on grade sheets and class records
+// Anyone can confirm the document is authentic; the student rows are only
+// shown to signed-in staff
+export default async function VerifyDocumentPage({
+  params,
+}: {
+  params: Promise<{ hash: string }>;
+}) {
+  const { hash } = await params;
+  const document = await getIssuedDocument(hash.toLowerCase());
+
+  if (!document) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4 p-6">
+        <XCircle className="h-16 w-16 text-red-600" />
+        <h1 className="text-2xl font-semibold text-gray-800">
+          Document not recognized
+        </h1>
+        <p className="text-gray-600 text-center max-w-md">
+          No document was issued with this verification hash. The copy you are
+          holding may have been altered.
+        </p>
+        <p className="font-mono text-xs text-gray-500 break-all">{hash}</p>
+      </div>
+    );
+  }
+
+  const summary = document.summary as unknown as IssuedDocumentSummary;
+  const session = await getServerSession(authOptions);
+  const canViewRows = !!session?.user?.roles?.some(
+    (role) => role !== "STUDENT"
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-start gap-4 rounded-lg border bg-white p-6">
+          <CheckCircle2 className="h-10 w-10 shrink-0 text-green-600" />
+          <div className="space-y-1">
+            <h1 className="text-xl font-semibold text-[#124A69]">
+              Authentic {document.title.toLowerCase()}
+            </h1>
+            <p className="text-sm text-gray-700">
+              {summary.course.code} - {summary.course.title} | Section{" "}
+              {summary.course.section} | {summary.course.semester}, A.Y.{" "}
+              {summary.course.academicYear}
+              {summary.termLabel ? ` | ${summary.termLabel}` : ""}
+            </p>
+            <p className="text-sm text-gray-600">
+              Faculty: {summary.faculty ?? "-"} | Issued{" "}
+              {format(document.issuedAt, "MMMM d, yyyy h:mm a")}
+              {document.issuedBy ? ` by ${document.issuedBy}` : ""}
+            </p>
+            <p className="font-mono text-xs text-gray-500 break-all">
+              {document.hash}
+            </p>
+          </div>
+        </div>
+
+        {canViewRows ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Compare the printed copy with the values below, as they were at
+              the time of issue.
+            </p>
+
+            <div className="overflow-x-auto rounded-lg border bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-[#124A69] text-white">
+                  <tr>
+                    {summary.columns.map((column) => (
+                      <th key={column} className="px-3 py-2 font-medium">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.rows.map((row, index) => (
+                    <tr key={index} className="border-t even:bg-gray-50">
+                      {row.map((cell, cellIndex) => (
+                        <td
+                          key={cellIndex}
+                          className={`px-3 py-1.5 ${
+                            cellIndex === 2 ? "text-left" : "text-center"
+                          }`}
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-start gap-3 rounded-lg border bg-white p-4 text-sm text-gray-600">
+            <Lock className="h-5 w-5 shrink-0 text-gray-400" />
+            <p>
+              This document lists {summary.rows.length} student record(s).
+              Student names and grades are only shown to school staff.{" "}
+              <Link href="/" className="text-[#124A69] underline">
+                Sign in
+              </Link>{" "}
+              with a staff account to compare the values.
+            </p>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {summary.signatories.map((signatory) => (
+            <div
+              key={signatory.title}
+              className="rounded-lg border bg-white p-4 text-sm"
+            >
+              <p className="text-gray-500">{signatory.title}</p>
+              <p className="font-medium text-gray-800">
+                {signatory.name ?? "-"}
+              </p>
+              <p className="text-gray-500">
+                {signatory.date
+                  ? format(new Date(signatory.date), "MMMM d, yyyy")
+                  : "Not yet signed"}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
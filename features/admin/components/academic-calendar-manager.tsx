@@ -0,0 +1,518 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Trash2 } from "lucide-react";
+import {
+  ClassSuspension,
+  SuspensionScope,
+  useAcademicCalendar,
+  useCourses,
+  useCreateClassSuspension,
+  useCreateHoliday,
+  useDeleteClassSuspension,
+  useDeleteHoliday,
+  useRooms,
+  useSections,
+  useSetAcademicTerms,
+} from "@/lib/hooks/queries";
+
+const TERMS = [
+  { key: "PRELIM", label: "Prelims" },
+  { key: "MIDTERM", label: "Midterm" },
+  { key: "PREFINALS", label: "Pre-Finals" },
+  { key: "FINALS", label: "Finals" },
+];
+
+const SCOPE_LABELS: Record<SuspensionScope, string> = {
+  SCHOOL: "School-wide",
+  ROOM: "Room",
+  COURSE: "Course",
+  SECTION: "Section",
+};
+
+// Calendar dates are stored at UTC midnight; show them as the same local day
+const toLocalDate = (value: string) =>
+  new Date(`${value.slice(0, 10)}T00:00:00`);
+
+const formatRange = (startDate: string, endDate: string) =>
+  startDate.slice(0, 10) === endDate.slice(0, 10)
+    ? format(toLocalDate(startDate), "MMM d, yyyy")
+    : `${format(toLocalDate(startDate), "MMM d")} – ${format(
+        toLocalDate(endDate),
+        "MMM d, yyyy"
+      )}`;
+
+const getCurrentAcademicYear = () => {
+  const now = new Date();
+  const year = now.getFullYear();
+  return now.getMonth() < 6 ? `${year - 1}-${year}` : `${year}-${year + 1}`;
+};
+
+const suspensionTarget = (suspension: ClassSuspension) => {
+  switch (suspension.scope) {
+    case "ROOM":
+      return suspension.room?.name;
+    case "COURSE":
+      return `${suspension.course?.code} - ${suspension.course?.section}`;
+    case "SECTION":
+      return `${suspension.section?.name} (${suspension.section?.academicYear})`;
+    default:
+      return "All classes";
+  }
+};
+
+export function AcademicCalendarManager() {
+  const [academicYear, setAcademicYear] = useState(getCurrentAcademicYear);
+  const [semester, setSemester] = useState("1st Semester");
+  const [termForm, setTermForm] = useState<
+    Record<string, { startDate: string; endDate: string }>
+  >({});
+  const [holidayForm, setHolidayForm] = useState({ date: "", name: "" });
+  const [suspensionForm, setSuspensionForm] = useState({
+    reason: "",
+    startDate: "",
+    endDate: "",
+    scope: "SCHOOL" as SuspensionScope,
+    targetId: "",
+  });
+
+  const { data: calendar, isLoading } = useAcademicCalendar({
+    academicYear,
+    semester,
+  });
+  const { data: rooms = [] } = useRooms({
+    enabled: suspensionForm.scope === "ROOM",
+  });
+  const { data: sections = [] } = useSections(academicYear, {
+    enabled: suspensionForm.scope === "SECTION",
+  });
+  const { data: coursesData } = useCourses({ status: "ACTIVE", semester });
+  const courses = (coursesData?.courses ?? []).filter(
+    (course) => course.academicYear === academicYear
+  );
+
+  const setTerms = useSetAcademicTerms();
+  const createHoliday = useCreateHoliday();
+  const deleteHoliday = useDeleteHoliday();
+  const createSuspension = useCreateClassSuspension();
+  const deleteSuspension = useDeleteClassSuspension();
+
+  useEffect(() => {
+    if (!calendar) return;
+    setTermForm(
+      Object.fromEntries(
+        calendar.terms.map((term) => [
+          term.term,
+          {
+            startDate: term.startDate.slice(0, 10),
+            endDate: term.endDate.slice(0, 10),
+          },
+        ])
+      )
+    );
+  }, [calendar]);
+
+  const handleSaveTerms = async () => {
+    await setTerms
+      .mutateAsync({
+        academicYear,
+        semester,
+        terms: TERMS.filter(
+          ({ key }) => termForm[key]?.startDate && termForm[key]?.endDate
+        ).map(({ key }) => ({ term: key, ...termForm[key] })),
+      })
+      .catch(() => null);
+  };
+
+  const handleAddHoliday = async () => {
+    const result = await createHoliday
+      .mutateAsync(holidayForm)
+      .catch(() => null);
+    if (result) setHolidayForm({ date: "", name: "" });
+  };
+
+  const handleAddSuspension = async () => {
+    const { targetId, ...rest } = suspensionForm;
+    const result = await createSuspension
+      .mutateAsync({
+        ...rest,
+        endDate: rest.endDate || rest.startDate,
+        roomId: rest.scope === "ROOM" ? targetId : null,
+        courseId: rest.scope === "COURSE" ? targetId : null,
+        sectionId: rest.scope === "SECTION" ? targetId : null,
+      })
+      .catch(() => null);
+    if (result) {
+      setSuspensionForm({
+        reason: "",
+        startDate: "",
+        endDate: "",
+        scope: "SCHOOL",
+        targetId: "",
+      });
+    }
+  };
+
+  const targetOptions =
+    suspensionForm.scope === "ROOM"
+      ? rooms.map((room) => ({ id: room.id, label: room.name }))
+      : suspensionForm.scope === "COURSE"
+      ? courses.map((course) => ({
+          id: course.id,
+          label: `${course.code} - ${course.section}`,
+        }))
+      : suspensionForm.scope === "SECTION"
+      ? sections.map((section) => ({ id: section.id, label: section.name }))
+      : [];
+
+  return (
+    <div className="flex flex-col gap-4 py-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-bold text-[#124A69]">
+            Academic Calendar
+          </h1>
+          <p className="text-sm text-gray-600">
+            No attendance is taken or auto-marked on holidays, suspended days or
+            outside the term dates, and those days are left out of absence
+            counts.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={academicYear}
+            onChange={(e) => setAcademicYear(e.target.value)}
+            className="w-32"
+            aria-label="Academic year"
+          />
+          <Select value={semester} onValueChange={setSemester}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1st Semester">1st Semester</SelectItem>
+              <SelectItem value="2nd Semester">2nd Semester</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card className="p-4">
+        <h2 className="font-semibold text-gray-800">Term Dates</h2>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-4">
+              {TERMS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label>{label}</Label>
+                  <Input
+                    type="date"
+                    value={termForm[key]?.startDate ?? ""}
+                    onChange={(e) =>
+                      setTermForm({
+                        ...termForm,
+                        [key]: {
+                          endDate: termForm[key]?.endDate ?? "",
+                          startDate: e.target.value,
+                        },
+                      })
+                    }
+                    aria-label={`${label} start date`}
+                  />
+                  <Input
+                    type="date"
+                    value={termForm[key]?.endDate ?? ""}
+                    onChange={(e) =>
+                      setTermForm({
+                        ...termForm,
+                        [key]: {
+                          startDate: termForm[key]?.startDate ?? "",
+                          endDate: e.target.value,
+                        },
+                      })
+                    }
+                    aria-label={`${label} end date`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-gray-500">
+                Leave every term blank to treat the whole semester as class
+                days.
+              </p>
+              <Button
+                className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
+                disabled={setTerms.isPending}
+                onClick={handleSaveTerms}
+              >
+                {setTerms.isPending && (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                )}
+                Save Term Dates
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card className="p-4 gap-3">
+          <h2 className="font-semibold text-gray-800">Holidays</h2>
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              value={holidayForm.date}
+              onChange={(e) =>
+                setHolidayForm({ ...holidayForm, date: e.target.value })
+              }
+              className="w-40"
+              aria-label="Holiday date"
+            />
+            <Input
+              placeholder="Name"
+              value={holidayForm.name}
+              onChange={(e) =>
+                setHolidayForm({ ...holidayForm, name: e.target.value })
+              }
+            />
+            <Button
+              className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
+              disabled={
+                !holidayForm.date ||
+                !holidayForm.name.trim() ||
+                createHoliday.isPending
+              }
+              onClick={handleAddHoliday}
+            >
+              Add
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(calendar?.holidays ?? []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-gray-500">
+                    No holidays.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                calendar?.holidays.map((holiday) => (
+                  <TableRow key={holiday.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(toLocalDate(holiday.date), "EEE, MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>{holiday.name}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteHoliday.isPending}
+                        onClick={() =>
+                          deleteHoliday
+                            .mutateAsync(holiday.id)
+                            .catch(() => null)
+                        }
+                        aria-label={`Remove ${holiday.name}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Card className="p-4 gap-3">
+          <h2 className="font-semibold text-gray-800">Class Suspensions</h2>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Input
+              placeholder="Reason (e.g. Typhoon signal no. 2)"
+              value={suspensionForm.reason}
+              onChange={(e) =>
+                setSuspensionForm({ ...suspensionForm, reason: e.target.value })
+              }
+              className="sm:col-span-2"
+            />
+            <Input
+              type="date"
+              value={suspensionForm.startDate}
+              onChange={(e) =>
+                setSuspensionForm({
+                  ...suspensionForm,
+                  startDate: e.target.value,
+                })
+              }
+              aria-label="Suspension start date"
+            />
+            <Input
+              type="date"
+              value={suspensionForm.endDate}
+              min={suspensionForm.startDate}
+              onChange={(e) =>
+                setSuspensionForm({
+                  ...suspensionForm,
+                  endDate: e.target.value,
+                })
+              }
+              aria-label="Suspension end date"
+            />
+            <Select
+              value={suspensionForm.scope}
+              onValueChange={(value) =>
+                setSuspensionForm({
+                  ...suspensionForm,
+                  scope: value as SuspensionScope,
+                  targetId: "",
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SCOPE_LABELS) as SuspensionScope[]).map(
+                  (scope) => (
+                    <SelectItem key={scope} value={scope}>
+                      {SCOPE_LABELS[scope]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+            <Select
+              value={suspensionForm.targetId}
+              onValueChange={(value) =>
+                setSuspensionForm({ ...suspensionForm, targetId: value })
+              }
+              disabled={suspensionForm.scope === "SCHOOL"}
+            >
+              <SelectTrigger>
+                <SelectValue
+                  placeholder={
+                    suspensionForm.scope === "SCHOOL"
+                      ? "All classes"
+                      : `Select ${SCOPE_LABELS[
+                          suspensionForm.scope
+                        ].toLowerCase()}`
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {targetOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="sm:col-span-2 flex justify-end">
+              <Button
+                className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
+                disabled={
+                  !suspensionForm.reason.trim() ||
+                  !suspensionForm.startDate ||
+                  (suspensionForm.scope !== "SCHOOL" &&
+                    !suspensionForm.targetId) ||
+                  createSuspension.isPending
+                }
+                onClick={handleAddSuspension}
+              >
+                {createSuspension.isPending && (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                )}
+                Suspend Classes
+              </Button>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dates</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(calendar?.suspensions ?? []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-gray-500">
+                    No class suspensions.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                calendar?.suspensions.map((suspension) => (
+                  <TableRow key={suspension.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatRange(suspension.startDate, suspension.endDate)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="mr-1">
+                        {SCOPE_LABELS[suspension.scope]}
+                      </Badge>
+                      {suspension.scope !== "SCHOOL" &&
+                        suspensionTarget(suspension)}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">
+                      {suspension.reason}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteSuspension.isPending}
+                        onClick={() =>
+                          deleteSuspension
+                            .mutateAsync(suspension.id)
+                            .catch(() => null)
+                        }
+                        aria-label="Lift suspension"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+    </div>
+  );
+}
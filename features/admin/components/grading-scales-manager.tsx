@@ -0,0 +1,467 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  useGradingScales,
+  useCreateGradingScale,
+  useUpdateGradingScale,
+  useDeleteGradingScale,
+} from "@/lib/hooks/queries";
+import {
+  DEFAULT_GRADING_SCALE,
+  validateGradingScale,
+} from "@/lib/services/grading-engine";
+
+interface ScaleEntryForm {
+  minPercentage: string;
+  label: string;
+  value: string;
+}
+
+interface ScaleForm {
+  id?: string;
+  name: string;
+  description: string;
+  type: "NUMERIC" | "LETTER";
+  department: string;
+  isDefault: boolean;
+  passingGrade: string;
+  lowerIsBetter: boolean;
+  entries: ScaleEntryForm[];
+}
+
+// New scales start from the institutional 1.00-5.00 table
+const emptyForm = (): ScaleForm => ({
+  name: "",
+  description: "",
+  type: "NUMERIC",
+  department: "",
+  isDefault: false,
+  passingGrade: String(DEFAULT_GRADING_SCALE.passingGrade),
+  lowerIsBetter: DEFAULT_GRADING_SCALE.lowerIsBetter,
+  entries: DEFAULT_GRADING_SCALE.entries.map((entry) => ({
+    minPercentage: String(entry.minPercentage),
+    label: entry.label,
+    value: String(entry.value),
+  })),
+});
+
+const toForm = (scale: any): ScaleForm => ({
+  id: scale.id,
+  name: scale.name,
+  description: scale.description || "",
+  type: scale.type,
+  department: scale.department || "",
+  isDefault: scale.isDefault,
+  passingGrade: String(scale.passingGrade),
+  lowerIsBetter: scale.lowerIsBetter,
+  entries: scale.entries.map((entry: any) => ({
+    minPercentage: String(entry.minPercentage),
+    label: entry.label,
+    value: String(entry.value),
+  })),
+});
+
+export function GradingScalesManager() {
+  const { data: scales = [], isLoading } = useGradingScales();
+  const createScale = useCreateGradingScale();
+  const updateScale = useUpdateGradingScale();
+  const deleteScale = useDeleteGradingScale();
+
+  const [form, setForm] = useState<ScaleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<any | null>(null);
+
+  const isSaving = createScale.isPending || updateScale.isPending;
+
+  const updateEntry = (
+    index: number,
+    field: keyof ScaleEntryForm,
+    value: string
+  ) => {
+    if (!form) return;
+    const entries = form.entries.map((entry, i) =>
+      i === index ? { ...entry, [field]: value } : entry
+    );
+    setForm({ ...form, entries });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const payload = {
+      name: form.name,
+      description: form.description || null,
+      type: form.type,
+      department: form.department || null,
+      isDefault: form.isDefault,
+      passingGrade: Number(form.passingGrade),
+      lowerIsBetter: form.lowerIsBetter,
+      entries: form.entries.map((entry) => ({
+        minPercentage: Number(entry.minPercentage),
+        label: entry.label,
+        value: Number(entry.value),
+      })),
+    };
+
+    if (!payload.name.trim()) {
+      setFormError("Grading scale name is required");
+      return;
+    }
+    const validationError = validateGradingScale(payload);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      if (form.id) {
+        await updateScale.mutateAsync({ id: form.id, scaleData: payload });
+      } else {
+        await createScale.mutateAsync(payload);
+      }
+      setForm(null);
+    } catch {
+      // Toast is shown by the mutation
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteScale.mutateAsync(pendingDelete.id);
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 py-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-[#124A69]">Grading Scales</h1>
+          <p className="text-sm text-gray-600">
+            Percentage-to-grade tables used by class records, term grades and
+            analytics
+          </p>
+        </div>
+        <Button
+          className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
+          onClick={() => {
+            setFormError(null);
+            setForm(emptyForm());
+          }}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New Scale
+        </Button>
+      </div>
+
+      <Card className="p-0 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Passing</TableHead>
+                <TableHead className="text-center">Courses</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scales.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500">
+                    No grading scales yet. Courses use the standard 1.00 - 5.00
+                    table.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                scales.map((scale: any) => (
+                  <TableRow key={scale.id}>
+                    <TableCell className="font-medium">
+                      {scale.name}
+                      {scale.isDefault && (
+                        <Badge className="ml-2 bg-[#124A69]">Default</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{scale.type}</TableCell>
+                    <TableCell>
+                      {scale.department || "All departments"}
+                    </TableCell>
+                    <TableCell>
+                      {scale.lowerIsBetter ? "≤ " : "≥ "}
+                      {scale.passingGrade}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {scale._count?.courses ?? 0}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setFormError(null);
+                          setForm(toForm(scale));
+                        }}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={(scale._count?.courses ?? 0) > 0}
+                        onClick={() => setPendingDelete(scale)}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-[#124A69]">
+              {form?.id ? "Edit Grading Scale" : "New Grading Scale"}
+            </DialogTitle>
+            <DialogDescription>
+              Each entry applies from its minimum percentage up to the next
+              entry. One entry must start at 0%.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="flex flex-col gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="flex flex-col gap-1">
+                  <Label htmlFor="scale-name">Name</Label>
+                  <Input
+                    id="scale-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Label htmlFor="scale-department">Department</Label>
+                  <Input
+                    id="scale-department"
+                    placeholder="All departments"
+                    value={form.department}
+                    onChange={(e) =>
+                      setForm({ ...form, department: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.type}
+                    onValueChange={(value) =>
+                      setForm({ ...form, type: value as ScaleForm["type"] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="NUMERIC">Numeric</SelectItem>
+                      <SelectItem value="LETTER">Letter</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Label htmlFor="scale-passing">Passing grade</Label>
+                  <Input
+                    id="scale-passing"
+                    type="number"
+                    step="0.01"
+                    value={form.passingGrade}
+                    onChange={(e) =>
+                      setForm({ ...form, passingGrade: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.lowerIsBetter}
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, lowerIsBetter: checked === true })
+                    }
+                  />
+                  Lower grade value is better (e.g. 1.00 is highest)
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.isDefault}
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, isDefault: checked === true })
+                    }
+                  />
+                  Default for the department
+                </label>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs font-semibold text-gray-600">
+                  <span>Min %</span>
+                  <span>Label</span>
+                  <span>Grade value</span>
+                  <span className="w-8" />
+                </div>
+                {form.entries.map((entry, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2"
+                  >
+                    <Input
+                      type="number"
+                      step="0.1"
+                      value={entry.minPercentage}
+                      onChange={(e) =>
+                        updateEntry(index, "minPercentage", e.target.value)
+                      }
+                    />
+                    <Input
+                      value={entry.label}
+                      onChange={(e) =>
+                        updateEntry(index, "label", e.target.value)
+                      }
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={entry.value}
+                      onChange={(e) =>
+                        updateEntry(index, "value", e.target.value)
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-8 px-0"
+                      onClick={() =>
+                        setForm({
+                          ...form,
+                          entries: form.entries.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="self-start"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      entries: [
+                        ...form.entries,
+                        { minPercentage: "", label: "", value: "" },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Entry
+                </Button>
+              </div>
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
+              disabled={isSaving}
+              onClick={handleSave}
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Grading Scale</DialogTitle>
+            <DialogDescription>
+              Delete &quot;{pendingDelete?.name}&quot;? Courses using the
+              department default will fall back to the next available scale.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteScale.isPending}
+              onClick={handleDelete}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
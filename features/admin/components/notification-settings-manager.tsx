@@ -0,0 +1,278 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import {
+  NotificationStatus,
+  useNotifications,
+  useNotificationSettings,
+  useUpdateNotificationSettings,
+} from "@/lib/hooks/queries";
+
+const STATUS_STYLES: Record<NotificationStatus, string> = {
+  QUEUED: "bg-gray-100 text-gray-700",
+  SENDING: "bg-blue-100 text-blue-700",
+  SENT: "bg-green-100 text-green-700",
+  FAILED: "bg-red-100 text-red-700",
+};
+
+const TYPE_LABELS = {
+  ABSENCE_THRESHOLD: "Absences",
+  AT_RISK: "At risk",
+};
+
+interface SettingsForm {
+  absenceEnabled: boolean;
+  absenceThreshold: string;
+  notifyGuardian: boolean;
+  atRiskEnabled: boolean;
+  failingThreshold: string;
+}
+
+export function NotificationSettingsManager() {
+  const { data: settings, isLoading } = useNotificationSettings();
+  const updateSettings = useUpdateNotificationSettings();
+  const [statusFilter, setStatusFilter] = useState<"ALL" | NotificationStatus>(
+    "ALL"
+  );
+  const { data: notifications = [], isLoading: isLoadingLog } =
+    useNotifications(
+      statusFilter === "ALL" ? undefined : { status: statusFilter }
+    );
+  const [form, setForm] = useState<SettingsForm | null>(null);
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      absenceEnabled: settings.absenceEnabled,
+      absenceThreshold: String(settings.absenceThreshold),
+      notifyGuardian: settings.notifyGuardian,
+      atRiskEnabled: settings.atRiskEnabled,
+      failingThreshold:
+        settings.failingThreshold === null
+          ? ""
+          : String(settings.failingThreshold),
+    });
+  }, [settings]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    await updateSettings
+      .mutateAsync({
+        absenceEnabled: form.absenceEnabled,
+        absenceThreshold: Number(form.absenceThreshold),
+        notifyGuardian: form.notifyGuardian,
+        atRiskEnabled: form.atRiskEnabled,
+        failingThreshold:
+          form.failingThreshold.trim() === ""
+            ? null
+            : Number(form.failingThreshold),
+      })
+      .catch(() => null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 py-4">
+      <div>
+        <h1 className="text-xl font-bold text-[#124A69]">Notifications</h1>
+        <p className="text-sm text-gray-600">
+          Emails sent to students, guardians, faculty and academic heads. Due
+          notices are queued and sent every hour.
+        </p>
+      </div>
+
+      <Card className="p-4">
+        {isLoading || !form ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 font-medium">
+                <Checkbox
+                  checked={form.absenceEnabled}
+                  onCheckedChange={(checked) =>
+                    setForm({ ...form, absenceEnabled: checked === true })
+                  }
+                />
+                Absence notices
+              </label>
+              <div className="space-y-1">
+                <Label htmlFor="absenceThreshold">Notify after absences</Label>
+                <Input
+                  id="absenceThreshold"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={form.absenceThreshold}
+                  disabled={!form.absenceEnabled}
+                  onChange={(e) =>
+                    setForm({ ...form, absenceThreshold: e.target.value })
+                  }
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.notifyGuardian}
+                  disabled={!form.absenceEnabled}
+                  onCheckedChange={(checked) =>
+                    setForm({ ...form, notifyGuardian: checked === true })
+                  }
+                />
+                Also notify the guardian contact on file
+              </label>
+            </div>
+
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 font-medium">
+                <Checkbox
+                  checked={form.atRiskEnabled}
+                  onCheckedChange={(checked) =>
+                    setForm({ ...form, atRiskEnabled: checked === true })
+                  }
+                />
+                At-risk alerts to faculty and academic head
+              </label>
+              <div className="space-y-1">
+                <Label htmlFor="failingThreshold">
+                  Failing threshold (term %)
+                </Label>
+                <Input
+                  id="failingThreshold"
+                  type="number"
+                  min={1}
+                  max={100}
+                  step="0.5"
+                  placeholder="Course grading scale passing %"
+                  value={form.failingThreshold}
+                  disabled={!form.atRiskEnabled}
+                  onChange={(e) =>
+                    setForm({ ...form, failingThreshold: e.target.value })
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  Leave blank to use each course&apos;s passing percentage.
+                </p>
+              </div>
+            </div>
+
+            <div className="md:col-span-2 flex justify-end">
+              <Button
+                className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
+                disabled={updateSettings.isPending}
+                onClick={handleSave}
+              >
+                {updateSettings.isPending && (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                )}
+                Save Settings
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-800">Recent Notifications</h2>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) =>
+            setStatusFilter(value as "ALL" | NotificationStatus)
+          }
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">All</SelectItem>
+            <SelectItem value="QUEUED">Queued</SelectItem>
+            <SelectItem value="SENT">Sent</SelectItem>
+            <SelectItem value="FAILED">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="p-0 overflow-hidden">
+        {isLoadingLog ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Course</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notifications.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500">
+                    No notifications yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                notifications.map((notification) => (
+                  <TableRow key={notification.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(
+                        new Date(notification.createdAt),
+                        "MMM d, yyyy h:mm a"
+                      )}
+                    </TableCell>
+                    <TableCell>{TYPE_LABELS[notification.type]}</TableCell>
+                    <TableCell>
+                      {notification.course
+                        ? `${notification.course.code} - ${notification.course.section}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell>{notification.recipient}</TableCell>
+                    <TableCell className="max-w-xs truncate">
+                      {notification.subject}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className={STATUS_STYLES[notification.status]}
+                        title={notification.errorMessage ?? undefined}
+                      >
+                        {notification.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
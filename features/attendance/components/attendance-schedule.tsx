@@ -13,8 +13,12 @@ import {
 } from "@/components/ui/pagination";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { format } from "date-fns";
-import { useFacultySchedules } from "@/lib/hooks/queries";
+import { addDays, format, startOfWeek } from "date-fns";
+import {
+  NonClassDay,
+  useFacultySchedules,
+  useNonClassDays,
+} from "@/lib/hooks/queries";
 
 interface Course {
   id: string;
@@ -45,8 +49,14 @@ const dayOrder: { [key: string]: number } = {
   Saturday: 6,
 };
 
-// Course Card Component
-const CourseCard = ({ schedule }: { schedule: Schedule }) => {
+// Course Card Component (greyed out when there is no class this week)
+const CourseCard = ({
+  schedule,
+  nonClassDay,
+}: {
+  schedule: Schedule;
+  nonClassDay?: NonClassDay;
+}) => {
   const router = useRouter();
   const dayStr = schedule.day;
 
@@ -68,17 +78,32 @@ const CourseCard = ({ schedule }: { schedule: Schedule }) => {
 
   return (
     <Card
-      className="bg-[#FAEDCB] text-[#124A69] rounded-lg shadow-md p-4 w-full cursor-pointer hover:bg-[#F5E5B8] transition-colors"
+      className={`rounded-lg shadow-md p-4 w-full cursor-pointer transition-colors ${
+        nonClassDay
+          ? "bg-gray-100 text-gray-400 hover:bg-gray-200"
+          : "bg-[#FAEDCB] text-[#124A69] hover:bg-[#F5E5B8]"
+      }`}
       onClick={handleClick}
+      title={nonClassDay ? `No class: ${nonClassDay.reason}` : undefined}
     >
       <h2 className="text-lg font-bold">{schedule.course.title}</h2>
       <p className="text-sm font-semibold -mt-3">{schedule.course.section}</p>
       <div className="flex items-center -mt-2 text-gray-600">
-        <CalendarClock size={20} className="mr-2" color="#E1BB56" />
+        <CalendarClock
+          size={20}
+          className="mr-2"
+          color={nonClassDay ? "#9CA3AF" : "#E1BB56"}
+        />
         <p className="text-sm">
           {dayStr} {timeStr}
         </p>
       </div>
+      {nonClassDay && (
+        <p className="text-xs font-medium text-gray-500 -mt-2 truncate">
+          No class {format(new Date(`${nonClassDay.date}T00:00:00`), "MMM d")} ·{" "}
+          {nonClassDay.reason}
+        </p>
+      )}
     </Card>
   );
 };
@@ -124,6 +149,25 @@ export default function AttendanceSchedule({
     }
   );
 
+  // Holidays and suspensions of the current week (Monday to Saturday)
+  const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
+  const { data: nonClassDays } = useNonClassDays(
+    [...new Set<string>(schedules.map((s: Schedule) => s.courseId))],
+    format(weekStart, "yyyy-MM-dd"),
+    format(addDays(weekStart, 5), "yyyy-MM-dd")
+  );
+
+  const getNonClassDay = (schedule: Schedule) => {
+    // Schedules may store short ("Mon") or full day names
+    const offset = Object.entries(dayOrder).find(
+      ([day]) =>
+        day.slice(0, 3).toLowerCase() === schedule.day.slice(0, 3).toLowerCase()
+    )?.[1];
+    if (!offset) return undefined;
+    const date = format(addDays(weekStart, offset - 1), "yyyy-MM-dd");
+    return nonClassDays?.[schedule.courseId]?.find((d) => d.date === date);
+  };
+
   // Calculate pagination
   const totalPages = Math.ceil(schedules.length / itemsPerPage);
   const currentSchedules = schedules.slice(
@@ -148,7 +192,11 @@ export default function AttendanceSchedule({
       <div className="flex flex-wrap justify-center min-w-0 ">
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 w-full">
           {currentSchedules.map((schedule: Schedule) => (
-            <CourseCard key={schedule.id} schedule={schedule} />
+            <CourseCard
+              key={schedule.id}
+              schedule={schedule}
+              nonClassDay={getNonClassDay(schedule)}
+            />
           ))}
         </div>
       </div>
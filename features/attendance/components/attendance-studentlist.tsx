@@ -29,7 +29,7 @@ import {
   MousePointerClick,
 } from "lucide-react";
 import { Calendar } from "@/components/ui/calendar";
-import { format, isToday } from "date-fns";
+import { format, isToday, subYears } from "date-fns";
 import {
   Popover,
   PopoverContent,
@@ -58,10 +58,11 @@ import ExcelJS from "exceljs";
 import { saveAs } from "file-saver";
 import { StudentCard } from "./student-card";
 import { FilterSheet } from "./filter-sheet";
+import { ExcuseRequestDialog } from "./excuse-request-dialog";
 import { LoadingSpinner } from "@/features/courses/components/ui-components";
 import Link from "next/link";
 import { AttendanceStatus } from "@prisma/client";
-import { FilterState } from "@/shared/types/attendance";
+import { AttendanceSession, FilterState } from "@/shared/types/attendance";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -76,8 +77,15 @@ import {
   useRecordAttendance,
   useBatchAttendance,
   useClearAttendance,
+  useActiveAttendanceSession,
+  useCourseAttendanceSession,
+  useStartAttendanceSession,
+  useRecordAttendanceScan,
+  usePauseAttendanceSession,
+  useEndAttendanceSession,
   useCreateStudent,
   useImportStudentsToCourse,
+  useNonClassDays,
 } from "@/lib/hooks/queries";
 import { useQueryClient } from "@tanstack/react-query";
 import { queryKeys } from "@/lib/hooks/queries/queryKeys";
@@ -172,6 +180,10 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     status: AttendanceStatus;
   } | null>(null);
   const [isBulkExcuse, setIsBulkExcuse] = useState(false);
+  const [excuseLetterStudent, setExcuseLetterStudent] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
   const [selectedStudents, setSelectedStudents] = useState<string[]>([]);
   const [studentList, setStudentList] = useState<Student[]>([]);
   const [open, setOpen] = useState(false);
@@ -275,8 +287,7 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
   const lastKeyTimeRef = useRef<number>(0);
   const isRfidScanRef = useRef<boolean>(false);
   const batchSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const [timeIn, setTimeIn] = useState<string>("");
-  const [timeOut, setTimeOut] = useState<string>("");
+  const [sessionMinutes, setSessionMinutes] = useState<number>(60);
 
   const [pendingAttendanceUpdates, setPendingAttendanceUpdates] = useState<{
     [studentId: string]: {
@@ -316,55 +327,27 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     [selectedDate]
   );
 
-  // Global key for tracking active RFID sessions across all courses
-  const GLOBAL_RFID_SESSION_KEY = "attendance:global:activeRfidSession";
+  // RFID sessions live on the server, so a refresh or another device
+  // picks up the same session instead of starting a duplicate
+  const { data: activeRfidSession } = useActiveAttendanceSession();
+  const { data: courseRfidSession } = useCourseAttendanceSession(
+    courseSlug,
+    selectedDateStr || ""
+  );
+  const rfidSessionIdRef = useRef<string | null>(null);
+  const [isRfidPaused, setIsRfidPaused] = useState(false);
 
-  // Helper function to check if there's an active RFID session globally
+  // Helper function to check if there's an active RFID session for another course/date
   const checkGlobalActiveSession = useCallback(() => {
-    try {
-      const activeSession = localStorage.getItem(GLOBAL_RFID_SESSION_KEY);
-      if (activeSession) {
-        const session = JSON.parse(activeSession) as {
-          courseSlug: string;
-          date: string;
-          startedAt: string;
-        };
-        // Check if it's a different course/date
-        if (
-          session.courseSlug !== courseSlug ||
-          session.date !== selectedDateStr
-        ) {
-          return session;
-        }
-      }
-      return null;
-    } catch (e) {
-      return null;
-    }
-  }, [courseSlug, selectedDateStr]);
-
-  // Helper function to set global active session
-  const setGlobalActiveSession = useCallback(() => {
-    if (attendanceStartTime && selectedDateStr) {
-      localStorage.setItem(
-        GLOBAL_RFID_SESSION_KEY,
-        JSON.stringify({
-          courseSlug,
-          date: selectedDateStr,
-          startedAt: attendanceStartTime.toISOString(),
-        })
-      );
-      // Dispatch custom event to notify other components
-      window.dispatchEvent(new Event("rfid-session-changed"));
+    if (
+      activeRfidSession &&
+      (activeRfidSession.courseSlug !== courseSlug ||
+        activeRfidSession.date !== selectedDateStr)
+    ) {
+      return activeRfidSession;
     }
-  }, [attendanceStartTime, courseSlug, selectedDateStr]);
-
-  // Helper function to clear global active session
-  const clearGlobalActiveSession = useCallback(() => {
-    localStorage.removeItem(GLOBAL_RFID_SESSION_KEY);
-    // Dispatch custom event to notify other components
-    window.dispatchEvent(new Event("rfid-session-changed"));
-  }, []);
+    return null;
+  }, [activeRfidSession, courseSlug, selectedDateStr]);
 
   const attendanceDateSet = useMemo(() => {
     return new Set(attendanceDates.map((d) => format(d, "yyyy-MM-dd")));
@@ -374,29 +357,11 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     return selectedDateStr ? attendanceDateSet.has(selectedDateStr) : false;
   }, [selectedDateStr, attendanceDateSet]);
 
-  const attendanceTimeout = useMemo(() => {
-    if (!timeIn || !timeOut || !attendanceStartTime) return 0;
-
-    const today = new Date();
-    const timeInDate = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate()
-    );
-    const [hours, minutes] = timeIn.split(":").map(Number);
-    timeInDate.setHours(hours, minutes, 0, 0);
-
-    const timeOutDate = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate()
-    );
-    const [outHours, outMinutes] = timeOut.split(":").map(Number);
-    timeOutDate.setHours(outHours, outMinutes, 0, 0);
-
-    const timeoutMs = timeOutDate.getTime() - timeInDate.getTime();
-    return Math.floor(timeoutMs / (1000 * 60));
-  }, [timeIn, timeOut, attendanceStartTime]);
+  // Session length in minutes; the server closes the session after this
+  const attendanceTimeout = useMemo(
+    () => (attendanceStartTime ? sessionMinutes : 0),
+    [attendanceStartTime, sessionMinutes]
+  );
 
   const gracePeriod = useMemo(() => {
     // Grace period is 5 minutes after timeout
@@ -446,10 +411,33 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
   const { data: attendanceStatsData } = useAttendanceStats(courseSlug);
   const { data: attendanceDatesData } = useAttendanceDates(courseSlug);
 
+  // Holidays, suspensions and term breaks from the last year
+  const { data: nonClassDaysData } = useNonClassDays(
+    courseInfo?.id ? [courseInfo.id] : [],
+    format(subYears(new Date(), 1), "yyyy-MM-dd"),
+    format(new Date(), "yyyy-MM-dd")
+  );
+  const nonClassDayMap = useMemo(
+    () =>
+      new Map(
+        (courseInfo?.id ? nonClassDaysData?.[courseInfo.id] ?? [] : []).map(
+          (day) => [day.date, day]
+        )
+      ),
+    [nonClassDaysData, courseInfo?.id]
+  );
+  const selectedNonClassDay = selectedDateStr
+    ? nonClassDayMap.get(selectedDateStr)
+    : undefined;
+
   // React Query mutations
   const recordAttendanceMutation = useRecordAttendance();
   const batchAttendanceMutation = useBatchAttendance();
   const clearAttendanceMutation = useClearAttendance();
+  const startSessionMutation = useStartAttendanceSession();
+  const recordScanMutation = useRecordAttendanceScan();
+  const pauseSessionMutation = usePauseAttendanceSession();
+  const endSessionMutation = useEndAttendanceSession();
   const createStudentMutation = useCreateStudent();
   const importStudentsMutation = useImportStudentsToCourse();
 
@@ -557,41 +545,6 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     }
   }, [studentsData, attendanceData, selectedDateStr]);
 
-  // Create RFID map after studentsData is available
-  const studentByRfidMap = useMemo(() => {
-    const map = new Map<string, Student>();
-    studentList.forEach((student) => {
-      // Use rfid from student (which is mapped from rfid_id)
-      if (student.rfid) {
-        const normalized = student.rfid.replace(/\s+/g, "").toUpperCase();
-        // Store both the normalized version and the numeric version (without leading zeros)
-        // to handle different RFID scanner formats
-        map.set(normalized, student);
-        const numeric = normalized.replace(/^0+/, "") || normalized;
-        if (numeric !== normalized) {
-          map.set(numeric, student);
-        }
-      }
-      // Also check raw rfid_id from studentsData if available (fallback)
-      if (studentsData?.students) {
-        const rawStudent = studentsData.students.find(
-          (s: any) => s.id === student.id
-        );
-        if (rawStudent?.rfid_id && !student.rfid) {
-          // If student.rfid is missing but rfid_id exists, use it
-          const rfidStr = String(rawStudent.rfid_id);
-          const normalized = rfidStr.replace(/\s+/g, "").toUpperCase();
-          map.set(normalized, student);
-          const numeric = normalized.replace(/^0+/, "") || normalized;
-          if (numeric !== normalized) {
-            map.set(numeric, student);
-          }
-        }
-      }
-    });
-    return map;
-  }, [studentList, studentsData]);
-
   useEffect(() => {
     // Always update student list when attendance data changes, even if empty
     // This ensures attendance status is properly set on first load
@@ -830,20 +783,14 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     }
   }, [studentList, localTimeInMap, selectedDateStr, courseSlug]);
 
-  // Restore persisted times and session state (only once on mount)
+  // Restore the persisted selected date (only once on mount)
   const hasRestoredRef = useRef(false);
   useEffect(() => {
     // Only restore once per courseSlug change
     if (hasRestoredRef.current) return;
 
     try {
-      const savedTimeIn = localStorage.getItem(getStorageKey("timeIn"));
-      const savedTimeOut = localStorage.getItem(getStorageKey("timeOut"));
-      const savedSession = localStorage.getItem(getStorageKey("session"));
       const savedSelectedDate = localStorage.getItem(getStorageKey("date"));
-
-      if (savedTimeIn) setTimeIn(savedTimeIn);
-      if (savedTimeOut) setTimeOut(savedTimeOut);
       if (savedSelectedDate) {
         const parsed = new Date(savedSelectedDate);
         // Only restore saved date if it's today - otherwise use today's date
@@ -869,140 +816,6 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
         }
       }
 
-      if (savedSession) {
-        const session = JSON.parse(savedSession) as {
-          startedAt: string;
-          isInGrace: boolean;
-          graceMinutes?: number;
-        };
-        const startedAt = new Date(session.startedAt);
-        if (!isNaN(startedAt.getTime())) {
-          // Check if there's a conflicting global session BEFORE setting state
-          const currentSelectedDateStr = selectedDate
-            ? format(selectedDate, "yyyy-MM-dd")
-            : null;
-          const globalSession = (() => {
-            try {
-              const activeSession = localStorage.getItem(
-                GLOBAL_RFID_SESSION_KEY
-              );
-              if (activeSession) {
-                const sess = JSON.parse(activeSession) as {
-                  courseSlug: string;
-                  date: string;
-                  startedAt: string;
-                };
-                if (
-                  sess.courseSlug !== courseSlug ||
-                  sess.date !== currentSelectedDateStr
-                ) {
-                  return sess;
-                }
-              }
-              return null;
-            } catch (e) {
-              return null;
-            }
-          })();
-
-          if (globalSession && globalSession.courseSlug !== courseSlug) {
-            // Another course has an active session, don't restore this one
-            localStorage.removeItem(getStorageKey("session"));
-            toast.error(
-              `Another RFID attendance session is active for ${globalSession.courseSlug}. This session was cleared.`,
-              {
-                id: "error-toast",
-                duration: 5000,
-              }
-            );
-          } else {
-            // Restore this session
-            setAttendanceStartTime(startedAt);
-            setShowTimeoutModal(true);
-
-            // Restore grace minutes first
-            const restoredGraceMinutes = session.graceMinutes || graceMinutes;
-            if (session.graceMinutes) {
-              setGraceMinutes(session.graceMinutes);
-            }
-
-            // Recalculate grace period status based on current time
-            const now = Date.now();
-            const startedAtMs = startedAt.getTime();
-            const elapsedMs = now - startedAtMs;
-            const gracePeriodMs = restoredGraceMinutes * 60 * 1000;
-            const isStillInGrace = elapsedMs < gracePeriodMs;
-            const remainingGraceMs = Math.max(0, gracePeriodMs - elapsedMs);
-
-            setIsInGracePeriod(isStillInGrace);
-
-            // Set up grace period timer if still in grace period
-            if (isStillInGrace && remainingGraceMs > 0) {
-              const grace = setTimeout(() => {
-                setIsInGracePeriod(false);
-                toast.success(
-                  "Grace period ended. Late arrivals will be marked as LATE"
-                );
-              }, remainingGraceMs);
-              setGracePeriodTimer(grace);
-            } else {
-              setIsInGracePeriod(false);
-            }
-
-            // Set global active session when restoring (use current values)
-            if (currentSelectedDateStr) {
-              localStorage.setItem(
-                GLOBAL_RFID_SESSION_KEY,
-                JSON.stringify({
-                  courseSlug,
-                  date: currentSelectedDateStr,
-                  startedAt: startedAt.toISOString(),
-                })
-              );
-              // Dispatch custom event to notify other components
-              window.dispatchEvent(new Event("rfid-session-changed"));
-            }
-
-            // Use saved timeIn/timeOut values for timer calculations
-            const savedTimeInValue = savedTimeIn || timeIn;
-            const savedTimeOutValue = savedTimeOut || timeOut;
-
-            if (savedTimeInValue && savedTimeOutValue) {
-              const today = new Date();
-              const [hIn, mIn] = savedTimeInValue.split(":").map(Number);
-              const [hOut, mOut] = savedTimeOutValue.split(":").map(Number);
-              const tIn = new Date(
-                today.getFullYear(),
-                today.getMonth(),
-                today.getDate(),
-                hIn,
-                mIn,
-                0,
-                0
-              );
-              const tOut = new Date(
-                today.getFullYear(),
-                today.getMonth(),
-                today.getDate(),
-                hOut,
-                mOut,
-                0,
-                0
-              );
-              const totalMs = tOut.getTime() - tIn.getTime();
-              const elapsedMsForTimeout = Date.now() - startedAt.getTime();
-              const remainingMs = Math.max(0, totalMs - elapsedMsForTimeout);
-
-              if (remainingMs > 0) {
-                const timeout = setTimeout(() => {
-                  handleAttendanceTimeout();
-                }, remainingMs);
-                setTimeoutTimer(timeout);
-              }
-            }
-          }
-        }
-      }
       hasRestoredRef.current = true;
     } catch (e) {
       // ignore
@@ -1016,6 +829,63 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     hasRestoredRef.current = false;
   }, [courseSlug]);
 
+  // Sync local timers with a server session; paused time is folded into the
+  // start time so the grace countdown and timeout pick up where they stopped
+  const applyRfidSession = (session: AttendanceSession) => {
+    rfidSessionIdRef.current = session.id;
+    const graceEndsAt = new Date(session.graceEndsAt).getTime();
+    const effectiveStart = new Date(
+      graceEndsAt - session.graceMinutes * 60 * 1000
+    );
+    const paused = session.status === "PAUSED";
+
+    setAttendanceStartTime(effectiveStart);
+    setGraceMinutes(session.graceMinutes);
+    setSessionMinutes(session.timeoutMinutes);
+    setIsRfidPaused(paused);
+
+    if (gracePeriodTimer) clearTimeout(gracePeriodTimer);
+    if (timeoutTimer) clearTimeout(timeoutTimer);
+    setGracePeriodTimer(null);
+    setTimeoutTimer(null);
+
+    const remainingGraceMs = graceEndsAt - Date.now();
+    setIsInGracePeriod(remainingGraceMs > 0);
+    if (paused) return;
+
+    if (remainingGraceMs > 0) {
+      const grace = setTimeout(() => {
+        setIsInGracePeriod(false);
+        toast.success(
+          "Grace period ended. Late arrivals will be marked as LATE"
+        );
+      }, remainingGraceMs);
+      setGracePeriodTimer(grace);
+    }
+
+    const remainingMs = new Date(session.endsAt).getTime() - Date.now();
+    const timeout = setTimeout(() => {
+      handleAttendanceTimeout();
+    }, Math.max(0, remainingMs));
+    setTimeoutTimer(timeout);
+  };
+
+  // Restore an open session from the server (after a refresh or on another device)
+  useEffect(() => {
+    if (!courseRfidSession) return;
+    if (rfidSessionIdRef.current === courseRfidSession.id) return;
+
+    applyRfidSession(courseRfidSession);
+    setShowTimeoutModal(true);
+
+    // Time-in of students already scanned in this session
+    const scannedTimes = courseRfidSession.scans.reduce((acc, scan) => {
+      if (scan.scannedAt) acc[scan.studentId] = scan.scannedAt;
+      return acc;
+    }, {} as { [studentId: string]: string });
+    setLocalTimeInMap((prev) => ({ ...prev, ...scannedTimes }));
+  }, [courseRfidSession]);
+
   const getAttendanceForDate = (student: Student, date: Date | undefined) => {
     if (!date) return null;
     const dateStr = format(date, "yyyy-MM-dd");
@@ -1823,8 +1693,12 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
         setIsInGracePeriod(false);
         pendingSavesRef.current.clear();
         setCurrentPage(1);
-        // Clear global active session
-        clearGlobalActiveSession();
+        // The clear endpoint also discards the open RFID session for the date
+        rfidSessionIdRef.current = null;
+        setIsRfidPaused(false);
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.attendance.activeSession(),
+        });
         // Clear RFID time-in map and scanned statuses for this date
         try {
           localStorage.removeItem(getStorageKey(`rfidTimeInMap:${dateStr}`));
@@ -1888,7 +1762,7 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
   }, []);
 
   useEffect(() => {
-    if (!attendanceStartTime || !showTimeoutModal) return;
+    if (!attendanceStartTime || !showTimeoutModal || isRfidPaused) return;
 
     const interval = setInterval(() => {
       const now = Date.now();
@@ -1904,7 +1778,13 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [attendanceStartTime, showTimeoutModal, attendanceTimeout, timeoutTimer]);
+  }, [
+    attendanceStartTime,
+    showTimeoutModal,
+    isRfidPaused,
+    attendanceTimeout,
+    timeoutTimer,
+  ]);
 
   useEffect(() => {
     if (!attendanceStartTime) {
@@ -1922,38 +1802,18 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
       const s = Math.floor((remainingMs % 60000) / 1000);
       setGraceCountdown(`${m}:${s.toString().padStart(2, "0")}`);
 
-      // Update grace period status and persist session
+      // Update grace period status (the server decides PRESENT/LATE on scan)
       const isCurrentlyInGrace = remainingMs > 0;
       if (isCurrentlyInGrace !== isInGracePeriod) {
         setIsInGracePeriod(isCurrentlyInGrace);
       }
-
-      // Persist current session state
-      if (selectedDateStr) {
-        try {
-          localStorage.setItem(
-            getStorageKey("session"),
-            JSON.stringify({
-              startedAt: attendanceStartTime.toISOString(),
-              isInGrace: isCurrentlyInGrace,
-              graceMinutes: graceMinutes,
-            })
-          );
-        } catch (e) {
-          // Ignore storage errors
-        }
-      }
     };
+    // The countdown stays frozen while the session is paused
+    if (isRfidPaused) return;
     tick();
     const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [
-    attendanceStartTime,
-    graceMinutes,
-    isInGracePeriod,
-    selectedDateStr,
-    courseSlug,
-  ]);
+  }, [attendanceStartTime, graceMinutes, isInGracePeriod, isRfidPaused]);
 
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -2003,6 +1863,14 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
       return;
     }
 
+    if (selectedNonClassDay) {
+      toast.dismiss("error-toast");
+      toast.error(`No class on this day: ${selectedNonClassDay.reason}`, {
+        id: "error-toast",
+      });
+      return;
+    }
+
     // Check if there's already an active RFID session in another course/date
     const activeSession = checkGlobalActiveSession();
     if (activeSession) {
@@ -2047,39 +1915,21 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     }
 
     try {
-      const started = new Date();
-      setAttendanceStartTime(started);
-      setIsInGracePeriod(true);
-      setGraceCountdown(`${graceMinutes}:00`);
+      const session = await startSessionMutation.mutateAsync({
+        courseSlug,
+        date: selectedDateStr!,
+        graceMinutes,
+        timeoutMinutes: sessionMinutes,
+      });
+      applyRfidSession(session);
+      setGraceCountdown(`${session.graceMinutes}:00`);
       setShowTimeSetupModal(false);
       setShowTimeoutModal(true);
 
-      localStorage.setItem(
-        getStorageKey("session"),
-        JSON.stringify({
-          startedAt: started.toISOString(),
-          graceMinutes: graceMinutes,
-        })
-      );
-
-      // Set global active session
-      setGlobalActiveSession();
-
-      const grace = setTimeout(() => {
-        setIsInGracePeriod(false);
-        toast.success(
-          "Grace period ended. Late arrivals will be marked as LATE"
-        );
-      }, graceMinutes * 60 * 1000);
-      setGracePeriodTimer(grace);
-
       toast.success("Attendance session started successfully");
     } catch (error) {
+      // The mutation shows the server's reason (e.g. a session already active elsewhere)
       console.error("Error starting attendance:", error);
-      toast.dismiss("error-toast");
-      toast.error("Failed to start attendance", {
-        id: "error-toast",
-      });
     }
   };
 
@@ -2089,11 +1939,8 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
   };
 
   const handleDoneClick = async () => {
-    // End the attendance session - this will:
-    // 1. Mark all NOT_SET students as ABSENT
-    // 2. Save all pending RFID attendance updates (scanned students)
-    // 3. Save all absent students
-    // 4. Close the modal and end the session
+    // End the attendance session - the server marks every student
+    // without a scan as ABSENT, then the modal closes
     await endAttendanceSession();
   };
 
@@ -2108,174 +1955,91 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     await handleDoneClick();
   };
 
-  const handleGracePeriodEnd = () => {
+  const handleTogglePause = async () => {
+    if (!rfidSessionIdRef.current) return;
     try {
-      localStorage.setItem(
-        getStorageKey("session"),
-        JSON.stringify({
-          startedAt:
-            attendanceStartTime?.toISOString() || new Date().toISOString(),
-          isInGrace: false,
-        })
-      );
-    } catch {}
-
-    toast.success("Grace period ended. Late arrivals will be marked as LATE");
-    setIsInGracePeriod(false);
-
-    if (gracePeriodTimer) {
-      clearTimeout(gracePeriodTimer);
-      setGracePeriodTimer(null);
+      const session = await pauseSessionMutation.mutateAsync({
+        courseSlug,
+        sessionId: rfidSessionIdRef.current,
+        paused: !isRfidPaused,
+      });
+      applyRfidSession(session);
+    } catch (error) {
+      console.error("Error pausing attendance:", error);
     }
   };
 
   const processRfidAttendance = useCallback(
     async (rfid: string) => {
-      if (!attendanceStartTime || !selectedDate || isProcessingRfid) return;
+      const sessionId = rfidSessionIdRef.current;
+      if (
+        !attendanceStartTime ||
+        !selectedDateStr ||
+        !sessionId ||
+        isProcessingRfid
+      )
+        return;
 
-      // Debug: Log the RFID value received
-      if (process.env.NODE_ENV === "development") {
-        console.log("processRfidAttendance called with:", {
-          rfid,
-          length: rfid.length,
-          type: typeof rfid,
+      if (isRfidPaused) {
+        toast.dismiss("error-toast");
+        toast.error("Attendance session is paused", {
+          id: "error-toast",
+          duration: 2000,
         });
+        return;
       }
 
       setIsProcessingRfid(true);
 
       try {
-        // Normalize scanned RFID: remove spaces, convert to uppercase, and handle numeric strings
-        const normalized = rfid.replace(/\s+/g, "").toUpperCase();
-
-        // Debug: Log normalized value
-        if (process.env.NODE_ENV === "development") {
-          console.log("Normalized RFID:", {
-            original: rfid,
-            normalized,
-            length: normalized.length,
-          });
-        }
-        // Also try numeric comparison (remove leading zeros for comparison)
-        const numericScanned = normalized.replace(/^0+/, "") || normalized;
-
-        // First, try to find in the map (fastest lookup)
-        let student = studentByRfidMap.get(normalized);
-
-        // If not found in map, search through studentList directly
-        // This handles cases where RFID might not be set initially or format differences
-        if (!student) {
-          student = studentList.find((s) => {
-            // Check both rfid (mapped from rfid_id) and also check studentsData for raw rfid_id
-            const studentRfid = s.rfid;
-            if (!studentRfid) return false;
-
-            const studentRfidNormalized = studentRfid
-              .replace(/\s+/g, "")
-              .toUpperCase();
-            const numericStudent =
-              studentRfidNormalized.replace(/^0+/, "") || studentRfidNormalized;
-
-            // Try both exact match and numeric match (handles leading zeros)
-            const matches =
-              studentRfidNormalized === normalized ||
-              numericStudent === numericScanned ||
-              studentRfidNormalized === numericScanned ||
-              numericStudent === normalized;
-
-            // Also check raw rfid_id from studentsData if available
-            if (!matches && studentsData?.students) {
-              const rawStudent = studentsData.students.find(
-                (st: any) => st.id === s.id
-              );
-              if (rawStudent?.rfid_id) {
-                const rawRfidStr = String(rawStudent.rfid_id);
-                const rawRfidNormalized = rawRfidStr
-                  .replace(/\s+/g, "")
-                  .toUpperCase();
-                const rawNumeric =
-                  rawRfidNormalized.replace(/^0+/, "") || rawRfidNormalized;
-                return (
-                  rawRfidNormalized === normalized ||
-                  rawNumeric === numericScanned ||
-                  rawRfidNormalized === numericScanned ||
-                  rawNumeric === normalized
-                );
-              }
-            }
-
-            return matches;
-          });
-
-          // If found, update the student's RFID in the list to ensure consistency
-          if (student && (!student.rfid || student.rfid !== rfid)) {
-            setStudentList((prev) =>
-              prev.map((s) => (s.id === student!.id ? { ...s, rfid } : s))
-            );
-          }
-        }
-
-        if (!student) {
-          // Log for debugging
-          console.log("RFID scan failed:", {
-            scannedRfid: rfid,
-            normalized,
-            numericScanned,
-            studentListRfids: studentList.map((s) => ({
-              id: s.id,
-              name: s.name,
-              rfid: s.rfid,
-            })),
-            studentsDataRfids: studentsData?.students?.map((s: any) => ({
-              id: s.id,
-              name: `${s.lastName}, ${s.firstName}`,
-              rfid_id: s.rfid_id,
-            })),
-          });
-          toast.dismiss("error-toast");
-          toast.error("Student not found in this course for this RFID", {
-            id: "error-toast",
-            duration: 2000,
-          });
-          return;
-        }
-
-        if (student.status !== "NOT_SET") {
-          toast.dismiss("error-toast");
-          toast.error(`${student.name} already marked as ${student.status}`, {
-            id: "error-toast",
-            duration: 2000,
-          });
-          return;
-        }
-
-        // Recalculate grace period status at the time of scan
-        const now = Date.now();
-        const startedAtMs = attendanceStartTime.getTime();
-        const elapsedMs = now - startedAtMs;
-        const gracePeriodMs = graceMinutes * 60 * 1000;
-        const isCurrentlyInGrace = elapsedMs < gracePeriodMs;
-
-        const status: AttendanceStatus = isCurrentlyInGrace
-          ? "PRESENT"
-          : "LATE";
-        const nowDate = new Date();
+        // The server matches the card to an enrolled student and decides
+        // PRESENT (within the grace period) or LATE
+        const { student, attendance } = await recordScanMutation.mutateAsync({
+          courseSlug,
+          sessionId,
+          rfid,
+        });
+        const status = attendance.status as AttendanceStatus;
+        const record = {
+          id: attendance.id,
+          studentId: student.id,
+          courseId: courseInfo?.id || "",
+          status,
+          date: selectedDateStr,
+          reason: null,
+        };
 
         // Use startTransition for non-blocking updates
         startTransition(() => {
           setStudentList((prev) =>
-            prev.map((s) => (s.id === student!.id ? { ...s, status } : s))
+            prev.map((s) =>
+              s.id === student.id
+                ? {
+                    ...s,
+                    status,
+                    attendanceRecords: [
+                      ...s.attendanceRecords.filter(
+                        (r) => r.date !== selectedDateStr
+                      ),
+                      record,
+                    ],
+                  }
+                : s
+            )
           );
           setLocalTimeInMap((prev) => ({
             ...prev,
-            [student!.id]: nowDate.toISOString(),
-          }));
-          setPendingAttendanceUpdates((prev) => ({
-            ...prev,
-            [student!.id]: { status, timestamp: nowDate, rfid },
+            [student.id]: attendance.scannedAt,
           }));
         });
 
+        const dateOnly = new Date(selectedDateStr);
+        setAttendanceDates((prev) =>
+          prev.some((d) => format(d, "yyyy-MM-dd") === selectedDateStr)
+            ? prev
+            : [...prev, dateOnly]
+        );
+
         const statusText = status === "PRESENT" ? "Present" : "Late";
         toast.success(`${student.name} marked as ${statusText}`, {
           duration: 2000,
@@ -2291,28 +2055,30 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
         setRfidInput("");
         // Don't set isScanning to false here - keep it true if input is still focused
         // Only set to false on blur
-
-        // Removed automatic batch update - will only update when DONE is clicked
-        // This optimizes performance by batching all updates at once
-      } catch (error) {
+        dispatchAttendanceUpdate();
+      } catch (error: any) {
         console.error("RFID processing error:", error);
         toast.dismiss("error-toast");
-        toast.error("Failed to process RFID", {
+        toast.error(error?.response?.data?.error || "Failed to process RFID", {
           id: "error-toast",
           duration: 2000,
         });
+        // A session that timed out on the server is closed locally as well
+        if (error?.response?.data?.error?.includes("timed out")) {
+          handleAttendanceTimeout();
+        }
       } finally {
         setIsProcessingRfid(false);
       }
     },
     [
       attendanceStartTime,
-      selectedDate,
+      selectedDateStr,
       isProcessingRfid,
-      studentByRfidMap,
-      isInGracePeriod,
-      studentList,
-      studentsData,
+      isRfidPaused,
+      courseSlug,
+      courseInfo?.id,
+      dispatchAttendanceUpdate,
     ]
   );
 
@@ -2495,28 +2261,10 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
   };
 
   const endAttendanceSession = async () => {
-    const notSetStudents = studentList.filter((s) => s.status === "NOT_SET");
-    if (notSetStudents.length > 0) {
-      const now = new Date();
-      setStudentList((prev) =>
-        prev.map((s) =>
-          s.status === "NOT_SET" ? { ...s, status: "ABSENT" } : s
-        )
-      );
-      setPendingAttendanceUpdates((prev) => ({
-        ...prev,
-        ...notSetStudents.reduce((acc, s) => {
-          acc[s.id] = { status: "ABSENT", timestamp: now, rfid: "" };
-          return acc;
-        }, {} as typeof prev),
-      }));
-    }
-
-    try {
-      localStorage.removeItem(getStorageKey("session"));
-      // Clear global active session
-      clearGlobalActiveSession();
-    } catch {}
+    // Guard against the timeout timer and the Time Out button both firing
+    const sessionId = rfidSessionIdRef.current;
+    if (!sessionId) return;
+    rfidSessionIdRef.current = null;
 
     if (timeoutTimer) {
       clearTimeout(timeoutTimer);
@@ -2534,133 +2282,52 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
     setAttendanceStartTime(null);
     setShowTimeoutModal(false);
     setIsInGracePeriod(false);
+    setIsRfidPaused(false);
 
-    const now = new Date();
-
-    // Reconstruct pendingAttendanceUpdates from current studentList
-    const reconstructedPendingUpdates: {
-      [studentId: string]: {
-        status: AttendanceStatus;
-        timestamp: Date;
-        rfid: string;
-      };
-    } = {};
-
-    studentList.forEach((student) => {
-      if (student.status !== "NOT_SET" && localTimeInMap[student.id]) {
-        const timeInIso = localTimeInMap[student.id];
-        const timeInDate = timeInIso ? new Date(timeInIso) : now;
-        reconstructedPendingUpdates[student.id] = {
-          status: student.status,
-          timestamp: timeInDate,
-          rfid: "",
-        };
-      }
-    });
-
-    // NEW: Check for orphaned scanned students (removed from course but still in localStorage)
-    const currentStudentIds = new Set(studentList.map((s) => s.id));
-    let orphanedStudents: string[] = [];
+    isSavingRfidAttendanceRef.current = true;
+    setIsSavingRfidAttendance(true);
 
     try {
-      const savedScannedStatuses = localStorage.getItem(
-        getStorageKey(`rfidScannedStatuses:${selectedDateStr}`)
-      );
-      const savedTimeInMap = localStorage.getItem(
-        getStorageKey(`rfidTimeInMap:${selectedDateStr}`)
-      );
-
-      if (savedScannedStatuses && savedTimeInMap) {
-        const scannedStatuses = JSON.parse(savedScannedStatuses) as {
-          [studentId: string]: AttendanceStatus;
-        };
-        const timeInMap = JSON.parse(savedTimeInMap) as {
-          [studentId: string]: string;
-        };
-
-        // Find students that were scanned but are no longer in the course
-        Object.keys(scannedStatuses).forEach((studentId) => {
-          if (!currentStudentIds.has(studentId) && timeInMap[studentId]) {
-            orphanedStudents.push(studentId);
-          }
-        });
-      }
-    } catch (e) {
-      console.error("Error checking for orphaned students:", e);
-    }
+      // Students without a scan are marked ABSENT on the server
+      const { absentCount } = await endSessionMutation.mutateAsync({
+        courseSlug,
+        sessionId,
+      });
 
-    // Warn user about orphaned students if any exist
-    if (orphanedStudents.length > 0) {
-      toast.error(
-        `${orphanedStudents.length} scanned student(s) were removed from the course. Their attendance will not be saved.`,
-        {
-          id: "orphaned-students-warning",
-          duration: 5000,
-        }
+      setStudentList((prev) =>
+        prev.map((s) =>
+          s.status === "NOT_SET" ? { ...s, status: "ABSENT" } : s
+        )
       );
 
-      // Clean up orphaned data from localStorage
       try {
-        const savedScannedStatuses = localStorage.getItem(
+        localStorage.removeItem(
           getStorageKey(`rfidScannedStatuses:${selectedDateStr}`)
         );
-        const savedTimeInMap = localStorage.getItem(
+        localStorage.removeItem(
           getStorageKey(`rfidTimeInMap:${selectedDateStr}`)
         );
+      } catch {}
 
-        if (savedScannedStatuses && savedTimeInMap) {
-          const scannedStatuses = JSON.parse(savedScannedStatuses) as {
-            [studentId: string]: AttendanceStatus;
-          };
-          const timeInMap = JSON.parse(savedTimeInMap) as {
-            [studentId: string]: string;
-          };
-
-          // Remove orphaned students from localStorage
-          orphanedStudents.forEach((studentId) => {
-            delete scannedStatuses[studentId];
-            delete timeInMap[studentId];
-          });
+      toast.success(
+        absentCount > 0
+          ? `Attendance session ended. ${absentCount} student(s) marked as ABSENT`
+          : "Attendance session ended"
+      );
 
-          localStorage.setItem(
-            getStorageKey(`rfidScannedStatuses:${selectedDateStr}`),
-            JSON.stringify(scannedStatuses)
-          );
-          localStorage.setItem(
-            getStorageKey(`rfidTimeInMap:${selectedDateStr}`),
-            JSON.stringify(timeInMap)
-          );
-        }
-      } catch (e) {
-        console.error("Error cleaning up orphaned students:", e);
+      // Dispatch event to update right sidebar
+      dispatchAttendanceUpdate();
+    } catch (error: any) {
+      console.error("Error ending attendance session:", error);
+      // The server already closed a session that ran past its timeout
+      if (error?.response?.status === 409) {
+        queryClient.invalidateQueries({
+          queryKey: [...queryKeys.attendance.byCourse(courseSlug)],
+        });
       }
-    }
-
-    // Merge with existing pendingAttendanceUpdates
-    const allPendingUpdates = {
-      ...pendingAttendanceUpdates,
-      ...reconstructedPendingUpdates,
-    };
-
-    const remainingNotSet = studentList
-      .filter((s) => s.status === "NOT_SET")
-      .reduce((acc, s) => {
-        acc[s.id] = {
-          status: "ABSENT" as AttendanceStatus,
-          timestamp: now,
-          rfid: "",
-        };
-        return acc;
-      }, {} as { [studentId: string]: { status: AttendanceStatus; timestamp: Date; rfid: string } });
-
-    const hasPending = Object.keys(allPendingUpdates).length > 0;
-    const hasRemaining = Object.keys(remainingNotSet).length > 0;
-
-    if (hasPending || hasRemaining) {
-      await batchUpdateAttendance({
-        ...allPendingUpdates,
-        ...remainingNotSet,
-      });
+    } finally {
+      isSavingRfidAttendanceRef.current = false;
+      setIsSavingRfidAttendance(false);
     }
   };
 
@@ -3179,6 +2846,11 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
                           return true;
                         }
 
+                        // Non-class days only open when records exist
+                        if (nonClassDayMap.has(dateStr) && !hasAttendance) {
+                          return true;
+                        }
+
                         return false;
                       }}
                       modifiers={{
@@ -3189,6 +2861,8 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
                               attDate.getMonth() === date.getMonth() &&
                               attDate.getDate() === date.getDate()
                           ),
+                        nonClassDay: (date) =>
+                          nonClassDayMap.has(format(date, "yyyy-MM-dd")),
                       }}
                       modifiersStyles={{
                         hasAttendance: {
@@ -3206,6 +2880,7 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
                           "bg-[#124A69] text-white hover:bg-[#124A69] focus:bg-[#124A69]",
                         hasAttendance:
                           "border border-[#124A69] rounded-full text-black",
+                        nonClassDay: "bg-gray-100 text-gray-400 line-through",
                       }}
                       initialFocus
                     />
@@ -3450,7 +3125,26 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
         {!hasAttendanceForSelectedDate &&
         selectedDate &&
         !attendanceStartTime &&
-        isToday(selectedDate) ? (
+        isToday(selectedDate) &&
+        selectedNonClassDay ? (
+          <div className="flex flex-col items-center justify-center py-20">
+            <div className="text-center max-w-md">
+              <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                <CalendarIcon className="w-12 h-12 text-gray-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                No Class Today
+              </h3>
+              <p className="text-gray-500">
+                {selectedNonClassDay.reason}. Attendance is not taken on this
+                day.
+              </p>
+            </div>
+          </div>
+        ) : !hasAttendanceForSelectedDate &&
+          selectedDate &&
+          !attendanceStartTime &&
+          isToday(selectedDate) ? (
           <div className="flex flex-col items-center justify-center py-20">
             <div className="text-center max-w-md">
               <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -4064,6 +3758,52 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
                     </div>
                   </div>
                 </div>
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-full bg-[#124A69] flex items-center justify-center flex-shrink-0">
+                    <svg
+                      className="w-6 h-6 text-white"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                      />
+                    </svg>
+                  </div>
+                  <div className="flex-1">
+                    <label className="text-base font-semibold text-gray-900 block mb-1">
+                      Session Length
+                    </label>
+                    <p className="text-sm text-gray-600 mb-3">
+                      The session ends automatically after this time and
+                      students who did not scan are marked as ABSENT
+                    </p>
+                    <div className="flex items-center gap-4">
+                      <Input
+                        type="number"
+                        min={graceMinutes}
+                        max={300}
+                        step={1}
+                        value={sessionMinutes}
+                        onChange={(e) => {
+                          const v = Math.floor(Number(e.target.value));
+                          setSessionMinutes(
+                            isNaN(v) ? graceMinutes : Math.min(300, v)
+                          );
+                        }}
+                        className="w-24 text-center text-lg font-semibold"
+                        required
+                      />
+                      <span className="text-base text-gray-700 font-medium">
+                        minutes
+                      </span>
+                    </div>
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -4079,7 +3819,11 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
               <Button
                 onClick={confirmAttendanceStart}
                 disabled={
-                  isSavingRfidAttendance || !graceMinutes || graceMinutes <= 0
+                  isSavingRfidAttendance ||
+                  startSessionMutation.isPending ||
+                  !graceMinutes ||
+                  graceMinutes <= 0 ||
+                  sessionMinutes < graceMinutes
                 }
                 className="flex-1 h-12 text-base bg-[#124A69] hover:bg-[#0D3A54] text-white font-semibold"
               >
@@ -4158,7 +3902,9 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
               RFID ATTENDANCE
             </DialogTitle>
             <DialogDescription className="text-center text-gray-500">
-              Grace Period: {graceCountdown || `${graceMinutes}:00`}
+              {isRfidPaused
+                ? "Paused - scans are not accepted"
+                : `Grace Period: ${graceCountdown || `${graceMinutes}:00`}`}
             </DialogDescription>
           </DialogHeader>
 
@@ -4339,6 +4085,16 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
                 >
                   Back
                 </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1 h-11 border-[#124A69] text-[#124A69]"
+                  onClick={handleTogglePause}
+                  disabled={
+                    isSavingRfidAttendance || pauseSessionMutation.isPending
+                  }
+                >
+                  {isRfidPaused ? "Resume" : "Pause"}
+                </Button>
                 <Button
                   className="flex-1 h-11 bg-[#124A69] hover:bg-[#0a2f42] text-white"
                   onClick={() => setShowTimeoutConfirm(true)}
@@ -4398,6 +4154,26 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
                 {excuseReason.length}/30
               </span>
             </div>
+            {!isBulkExcuse && pendingExcusedStudent && (
+              <button
+                type="button"
+                onClick={() => {
+                  const student = studentList[pendingExcusedStudent.index];
+                  setShowExcuseModal(false);
+                  setExcuseReason("");
+                  setPendingExcusedStudent(null);
+                  if (student) {
+                    setExcuseLetterStudent({
+                      id: student.id,
+                      name: student.name,
+                    });
+                  }
+                }}
+                className="text-xs text-[#124A69] hover:underline"
+              >
+                Have an excuse letter? File it for approval instead
+              </button>
+            )}
           </div>
 
           <DialogFooter className="gap-2 sm:gap-2">
@@ -4425,6 +4201,13 @@ export default function StudentList({ courseSlug }: { courseSlug: string }) {
         </DialogContent>
       </Dialog>
 
+      <ExcuseRequestDialog
+        open={!!excuseLetterStudent}
+        onOpenChange={(open) => !open && setExcuseLetterStudent(null)}
+        student={excuseLetterStudent}
+        date={selectedDate ? format(selectedDate, "yyyy-MM-dd") : null}
+      />
+
       {/* Back Confirmation Alert */}
       <AlertDialog open={showBackConfirm} onOpenChange={setShowBackConfirm}>
         <AlertDialogContent className="sm:max-w-[425px]">
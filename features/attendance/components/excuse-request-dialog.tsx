@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useCreateExcuseRequest,
+  useUploadExcuseDocument,
+} from "@/lib/hooks/queries";
+
+const MAX_FILES = 5;
+
+interface ExcuseRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  student: { id: string; name: string } | null;
+  // yyyy-MM-dd the range starts on
+  date: string | null;
+}
+
+export function ExcuseRequestDialog({
+  open,
+  onOpenChange,
+  student,
+  date,
+}: ExcuseRequestDialogProps) {
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const upload = useUploadExcuseDocument();
+  const createRequest = useCreateExcuseRequest();
+
+  useEffect(() => {
+    if (open) {
+      setStartDate(date ?? "");
+      setEndDate(date ?? "");
+      setReason("");
+      setFiles([]);
+    }
+  }, [open, date]);
+
+  const isSubmitting = upload.isPending || createRequest.isPending;
+  const canSubmit =
+    !!student &&
+    !!startDate &&
+    !!endDate &&
+    endDate >= startDate &&
+    !!reason.trim() &&
+    files.length > 0;
+
+  const handleSubmit = async () => {
+    if (!student || !canSubmit) return;
+
+    const attachments = [];
+    for (const file of files) {
+      const uploaded = await upload.mutateAsync(file).catch(() => null);
+      if (!uploaded) return;
+      attachments.push(uploaded);
+    }
+
+    const created = await createRequest
+      .mutateAsync({
+        studentId: student.id,
+        startDate,
+        endDate,
+        reason: reason.trim(),
+        attachments,
+      })
+      .catch(() => null);
+    if (created) onOpenChange(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isSubmitting && onOpenChange(next)}
+    >
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#124A69] text-xl font-bold">
+            File Excuse Letter
+          </DialogTitle>
+          <DialogDescription className="text-gray-500">
+            {student
+              ? `Once approved, ${student.name}'s absences in this range are marked excused in all courses.`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="excuse-start">From</Label>
+              <Input
+                id="excuse-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="excuse-end">To</Label>
+              <Input
+                id="excuse-end"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="excuse-reason">Reason</Label>
+            <Textarea
+              id="excuse-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Medical leave"
+              maxLength={255}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Supporting documents</Label>
+            {files.map((file, index) => (
+              <div
+                key={`${file.name}-${index}`}
+                className="flex items-center justify-between gap-2 rounded-md border border-gray-200 px-2 py-1 text-xs"
+              >
+                <span className="flex items-center gap-1 truncate">
+                  <Paperclip className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{file.name}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setFiles((current) => current.filter((_, i) => i !== index))
+                  }
+                  disabled={isSubmitting}
+                  className="text-gray-500 hover:text-red-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp,application/pdf"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const selected = Array.from(e.target.files ?? []);
+                setFiles((current) =>
+                  [...current, ...selected].slice(0, MAX_FILES)
+                );
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isSubmitting || files.length >= MAX_FILES}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Paperclip className="h-4 w-4 mr-1" />
+              Attach documents
+            </Button>
+            <p className="text-[11px] text-muted-foreground">
+              PDF or image, up to 10MB each, at most {MAX_FILES} files
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+            className="border-gray-200"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !canSubmit}
+            className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+          >
+            {isSubmitting ? "Submitting..." : "Submit for Approval"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { isAxiosError } from "axios";
+import { format } from "date-fns";
+import { CheckCircle2, Clock, CreditCard, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  useKioskStatus,
+  useKioskScan,
+  KioskScanResult,
+} from "@/lib/hooks/queries";
+
+const KIOSK_TOKEN_KEY = "kiosk:deviceToken";
+
+// How long a confirmation stays on screen before returning to idle
+const FEEDBACK_MS = 4000;
+
+type Feedback =
+  | { type: "success"; result: KioskScanResult }
+  | { type: "error"; message: string };
+
+export function KioskScanner() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState("");
+  const [now, setNow] = useState(new Date());
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const feedbackTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const { data: status, error: statusError } = useKioskStatus(token);
+  const scanMutation = useKioskScan(token);
+
+  // Restore the paired device token
+  useEffect(() => {
+    setToken(localStorage.getItem(KIOSK_TOKEN_KEY));
+  }, []);
+
+  // Unknown or deactivated devices go back to pairing
+  useEffect(() => {
+    if (isAxiosError(statusError) && statusError.response?.status === 401) {
+      localStorage.removeItem(KIOSK_TOKEN_KEY);
+      setToken(null);
+    }
+  }, [statusError]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Keep the hidden reader input focused
+  useEffect(() => {
+    if (!token) return;
+    const focus = () => inputRef.current?.focus();
+    focus();
+    const interval = setInterval(focus, 2000);
+    return () => clearInterval(interval);
+  }, [token]);
+
+  useEffect(() => {
+    return () => {
+      if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+    };
+  }, []);
+
+  const showFeedback = (next: Feedback) => {
+    setFeedback(next);
+    if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+    feedbackTimerRef.current = setTimeout(() => setFeedback(null), FEEDBACK_MS);
+  };
+
+  const handlePair = () => {
+    const value = tokenInput.trim();
+    if (!value) return;
+    localStorage.setItem(KIOSK_TOKEN_KEY, value);
+    setToken(value);
+    setTokenInput("");
+  };
+
+  const handleUnpair = () => {
+    if (!window.confirm("Disconnect this kiosk from its device token?")) return;
+    localStorage.removeItem(KIOSK_TOKEN_KEY);
+    setToken(null);
+  };
+
+  // Readers type the card number and finish with Enter
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+
+    const rfid = e.currentTarget.value.trim();
+    e.currentTarget.value = "";
+    if (!rfid || scanMutation.isPending) return;
+
+    try {
+      const result = await scanMutation.mutateAsync(rfid);
+      showFeedback({ type: "success", result });
+    } catch (error: any) {
+      showFeedback({
+        type: "error",
+        message: error?.response?.data?.error || "Could not record attendance",
+      });
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#124A69] p-6">
+        <div className="w-full max-w-md bg-white rounded-xl shadow-lg p-8 space-y-6">
+          <div className="text-center space-y-2">
+            <h1 className="text-2xl font-bold text-[#124A69]">
+              Attendance Kiosk
+            </h1>
+            <p className="text-sm text-gray-600">
+              Enter the device token issued by the administrator to pair this
+              reader with its room.
+            </p>
+          </div>
+          <Input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handlePair()}
+            placeholder="Device token"
+            autoFocus
+          />
+          <Button
+            onClick={handlePair}
+            disabled={!tokenInput.trim()}
+            className="w-full bg-[#124A69] hover:bg-[#0D3A54] text-white"
+          >
+            Pair Device
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const currentClass = status?.currentClass;
+
+  return (
+    <div
+      className="min-h-screen flex flex-col bg-gradient-to-br from-[#124A69] to-[#0D3A54] text-white select-none"
+      onClick={() => inputRef.current?.focus()}
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        onKeyDown={handleKeyDown}
+        autoFocus
+        aria-label="RFID reader input"
+        className="absolute -left-[9999px] w-px h-px opacity-0"
+      />
+
+      <header className="flex items-center justify-between px-10 py-6">
+        <div>
+          <p className="text-lg font-semibold">
+            {status?.device.name ?? "Connecting..."}
+          </p>
+          {status && (
+            <p className="text-sm text-white/70">Room {status.device.room}</p>
+          )}
+        </div>
+        <div className="text-right">
+          <p className="text-4xl font-bold tabular-nums">
+            {format(now, "h:mm:ss a")}
+          </p>
+          <p className="text-sm text-white/70">
+            {format(now, "EEEE, MMMM d, yyyy")}
+          </p>
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center px-10 text-center">
+        {feedback?.type === "success" ? (
+          <div
+            className={`w-full max-w-2xl rounded-2xl bg-white p-10 shadow-2xl border-4 ${
+              feedback.result.status === "PRESENT"
+                ? "border-green-500"
+                : "border-yellow-500"
+            }`}
+          >
+            <div className="flex flex-col items-center gap-4 text-gray-900">
+              {feedback.result.student.image ? (
+                <img
+                  src={feedback.result.student.image}
+                  alt={feedback.result.student.name}
+                  className="w-36 h-36 rounded-full object-cover border-4 border-[#124A69]/20"
+                />
+              ) : (
+                <CheckCircle2
+                  className={`w-24 h-24 ${
+                    feedback.result.status === "PRESENT"
+                      ? "text-green-500"
+                      : "text-yellow-500"
+                  }`}
+                />
+              )}
+              <p className="text-3xl font-bold">
+                {feedback.result.student.name}
+              </p>
+              <p className="text-gray-500">
+                {feedback.result.student.studentId}
+              </p>
+              <span
+                className={`px-6 py-2 rounded-full text-xl font-bold ${
+                  feedback.result.status === "PRESENT"
+                    ? "bg-green-100 text-green-700"
+                    : "bg-yellow-100 text-yellow-700"
+                }`}
+              >
+                {feedback.result.status}
+              </span>
+              <p className="text-lg text-gray-700">{feedback.result.message}</p>
+              <p className="text-sm text-gray-500">
+                Time in: {format(new Date(feedback.result.scannedAt), "h:mm a")}
+              </p>
+            </div>
+          </div>
+        ) : feedback?.type === "error" ? (
+          <div className="w-full max-w-2xl rounded-2xl bg-white p-10 shadow-2xl border-4 border-red-500">
+            <div className="flex flex-col items-center gap-4 text-gray-900">
+              <XCircle className="w-24 h-24 text-red-500" />
+              <p className="text-2xl font-bold">{feedback.message}</p>
+              <p className="text-gray-500">
+                Please try again or see your instructor.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-8">
+            {currentClass ? (
+              <div className="space-y-2">
+                <p className="text-5xl font-bold">{currentClass.code}</p>
+                <p className="text-2xl">{currentClass.title}</p>
+                <p className="text-lg text-white/70 flex items-center justify-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  Section {currentClass.section} · {currentClass.fromTime} -{" "}
+                  {currentClass.toTime}
+                </p>
+              </div>
+            ) : (
+              <p className="text-2xl text-white/80">
+                {status ? "No class is scheduled in this room right now" : ""}
+              </p>
+            )}
+            <div className="flex flex-col items-center gap-4">
+              <div
+                className={`w-40 h-40 rounded-full bg-white/10 flex items-center justify-center ${
+                  scanMutation.isPending ? "animate-pulse" : ""
+                }`}
+              >
+                <CreditCard className="w-20 h-20" />
+              </div>
+              <p className="text-3xl font-semibold">
+                {scanMutation.isPending
+                  ? "Checking..."
+                  : "Tap your ID card on the reader"}
+              </p>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <footer className="px-10 py-4 flex justify-end">
+        <button
+          type="button"
+          onClick={handleUnpair}
+          className="text-xs text-white/40 hover:text-white/80"
+        >
+          Disconnect kiosk
+        </button>
+      </footer>
+    </div>
+  );
+}
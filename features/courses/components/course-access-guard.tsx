@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { checkActiveRfidSession } from "@/lib/utils/rfid-session";
+import { useActiveAttendanceSession } from "@/lib/hooks/queries";
 import toast from "react-hot-toast";
 import { UserRole } from "@/lib/permission";
 
@@ -23,94 +23,36 @@ export function CourseAccessGuard({
 }: CourseAccessGuardProps) {
   const router = useRouter();
   const [isBlocked, setIsBlocked] = useState(false);
-  const [hasChecked, setHasChecked] = useState(false);
-  const checkIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const hasRedirectedRef = useRef(false);
 
-  const checkAndBlock = () => {
-    // Academic heads can always access
-    if (userRole === "ACADEMIC_HEAD") {
-      return false;
-    }
+  // Academic heads can always access
+  const isExempt = userRole === "ACADEMIC_HEAD";
 
-    // Check for active RFID session
-    const activeSession = checkActiveRfidSession(courseSlug);
-
-    // Debug logging
-    if (process.env.NODE_ENV === "development") {
-      console.log("CourseAccessGuard check:", {
-        courseSlug,
-        activeSession,
-        isBlocked,
-        hasRedirected: hasRedirectedRef.current,
-        userRole,
-      });
-    }
-
-    if (activeSession && !hasRedirectedRef.current) {
-      setIsBlocked(true);
-      hasRedirectedRef.current = true;
-      toast.error(
-        `Cannot access course: RFID attendance is currently active for this course. Please wait until the attendance session ends.`,
-        {
-          id: `rfid-block-${courseSlug}`,
-          duration: 5000,
-        }
-      );
-      // Redirect back to courses page after a short delay
-      setTimeout(() => {
-        router.push("/main/course");
-      }, 2000);
-      return true;
-    }
-    return false;
-  };
+  // The active session lives on the server and is polled, so sessions
+  // started after mount (or on another device) are picked up too
+  const { data: activeSession, isLoading } = useActiveAttendanceSession({
+    enabled: !isExempt,
+  });
+  const hasChecked = isExempt || !isLoading;
 
   useEffect(() => {
-    // Academic heads can always access
-    if (userRole === "ACADEMIC_HEAD") {
-      setHasChecked(true);
-      return;
-    }
-
-    // Initial check
-    const wasBlocked = checkAndBlock();
-    setHasChecked(true);
-
-    // Set up periodic checks (every 1 second) to catch sessions that start after mount
-    checkIntervalRef.current = setInterval(() => {
-      checkAndBlock();
-    }, 1000);
-
-    // Listen for storage changes (when session is created/removed in another tab/window)
-    const handleStorageChange = (e: StorageEvent) => {
-      if (
-        e.key === "attendance:global:activeRfidSession" ||
-        e.key === null // null means all keys changed
-      ) {
-        checkAndBlock();
+    if (isExempt || hasRedirectedRef.current) return;
+    if (activeSession?.courseSlug !== courseSlug) return;
+
+    setIsBlocked(true);
+    hasRedirectedRef.current = true;
+    toast.error(
+      `Cannot access course: RFID attendance is currently active for this course. Please wait until the attendance session ends.`,
+      {
+        id: `rfid-block-${courseSlug}`,
+        duration: 5000,
       }
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-
-    // Also listen for custom events (for same-tab changes)
-    const handleCustomStorageChange = () => {
-      checkAndBlock();
-    };
-    window.addEventListener("rfid-session-changed", handleCustomStorageChange);
-
-    return () => {
-      if (checkIntervalRef.current) {
-        clearInterval(checkIntervalRef.current);
-      }
-      window.removeEventListener("storage", handleStorageChange);
-      window.removeEventListener(
-        "rfid-session-changed",
-        handleCustomStorageChange
-      );
-    };
-  }, [courseSlug, userRole, router]);
+    );
+    // Redirect back to courses page after a short delay
+    setTimeout(() => {
+      router.push("/main/course");
+    }, 2000);
+  }, [activeSession, courseSlug, isExempt, router]);
 
   // Show loading state while checking
   if (!hasChecked) {
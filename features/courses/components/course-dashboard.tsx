@@ -52,6 +52,10 @@ import {
   AttendanceLegend,
 } from "./ui-components";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DEFAULT_TERM_DEFINITIONS,
+  TermDefinition,
+} from "@/lib/services/grading-engine";
 import {
   Table,
   TableBody,
@@ -149,6 +153,10 @@ export function CourseDashboard({
     });
   const importStudentsMutation = useImportStudentsToCourse();
 
+  // Term tabs follow the course's own term structure
+  const terms: TermDefinition[] =
+    analyticsData?.terms ?? DEFAULT_TERM_DEFINITIONS;
+
   // Check if course is archived
   const isArchived = useMemo(() => {
     return courseInfo?.status === "ARCHIVED";
@@ -221,89 +229,6 @@ export function CourseDashboard({
     setIsLoading(isLoadingAnalytics);
   }, [isLoadingAnalytics]);
 
-  // Helper function to convert percentage to numeric grade
-  const getNumericGrade = (totalPercent: number): number => {
-    if (totalPercent >= 97.5) return 1.0;
-    if (totalPercent >= 94.5) return 1.25;
-    if (totalPercent >= 91.5) return 1.5;
-    if (totalPercent >= 86.5) return 1.75;
-    if (totalPercent >= 81.5) return 2.0;
-    if (totalPercent >= 76.0) return 2.25;
-    if (totalPercent >= 70.5) return 2.5;
-    if (totalPercent >= 65.0) return 2.75;
-    if (totalPercent >= 59.5) return 3.0;
-    return 5.0;
-  };
-
-  // Helper function to calculate grade from assessment scores
-  const calculateGradeFromScores = (
-    termGrade: any,
-    ptWeight: number,
-    quizWeight: number,
-    examWeight: number
-  ): { totalPercentage: number | null; numericGrade: number | null } => {
-    if (!termGrade) return { totalPercentage: null, numericGrade: null };
-
-    // Calculate PT average percentage
-    const ptPercentages: number[] = [];
-    termGrade.ptScores?.forEach((pt: any) => {
-      if (pt.score !== null && pt.score !== undefined && pt.maxScore > 0) {
-        const percentage = (pt.score / pt.maxScore) * 100;
-        ptPercentages.push(percentage);
-      }
-    });
-    const ptAvg =
-      ptPercentages.length > 0
-        ? ptPercentages.reduce((a, b) => a + b, 0) / ptPercentages.length
-        : 0;
-
-    // Calculate Quiz average percentage
-    const quizPercentages: number[] = [];
-    termGrade.quizScores?.forEach((quiz: any) => {
-      if (
-        quiz.score !== null &&
-        quiz.score !== undefined &&
-        quiz.maxScore > 0
-      ) {
-        const percentage = (quiz.score / quiz.maxScore) * 100;
-        quizPercentages.push(percentage);
-      }
-    });
-    const quizAvg =
-      quizPercentages.length > 0
-        ? quizPercentages.reduce((a, b) => a + b, 0) / quizPercentages.length
-        : 0;
-
-    // Calculate Exam percentage
-    let examPercentage: number | null = null;
-    if (termGrade.examScore) {
-      const exam = termGrade.examScore;
-      if (
-        exam.score !== null &&
-        exam.score !== undefined &&
-        exam.maxScore > 0
-      ) {
-        examPercentage = (exam.score / exam.maxScore) * 100;
-      }
-    }
-
-    // If no exam score, can't compute term grade
-    if (examPercentage === null) {
-      return { totalPercentage: null, numericGrade: null };
-    }
-
-    // Calculate weighted total
-    const ptWeighted = (ptAvg / 100) * ptWeight;
-    const quizWeighted = (quizAvg / 100) * quizWeight;
-    const examWeighted = (examPercentage / 100) * examWeight;
-    const totalPercentage = ptWeighted + quizWeighted + examWeighted;
-
-    // Calculate numeric grade
-    const numericGrade = getNumericGrade(totalPercentage);
-
-    return { totalPercentage, numericGrade };
-  };
-
   // Reset termAverageGrade when switching to overview tab
   useEffect(() => {
     if (activeTab === "overview") {
@@ -663,37 +588,29 @@ export function CourseDashboard({
             // Event will be dispatched by useEffect that watches activeTab
           }}
         >
-          <TabsList className="grid w-full grid-cols-5 flex-shrink-0">
+          <TabsList
+            className="grid w-full flex-shrink-0"
+            style={{
+              gridTemplateColumns: `repeat(${
+                terms.length + 1
+              }, minmax(0, 1fr))`,
+            }}
+          >
             <TabsTrigger
               value="overview"
               disabled={isTermLoading || isFetchingTermGrades > 0}
             >
               Overview
             </TabsTrigger>
-            <TabsTrigger
-              value="prelims"
-              disabled={isTermLoading || isFetchingTermGrades > 0}
-            >
-              Prelims
-            </TabsTrigger>
-            <TabsTrigger
-              value="midterm"
-              disabled={isTermLoading || isFetchingTermGrades > 0}
-            >
-              Midterm
-            </TabsTrigger>
-            <TabsTrigger
-              value="prefinals"
-              disabled={isTermLoading || isFetchingTermGrades > 0}
-            >
-              Pre-Finals
-            </TabsTrigger>
-            <TabsTrigger
-              value="finals"
-              disabled={isTermLoading || isFetchingTermGrades > 0}
-            >
-              Finals
-            </TabsTrigger>
+            {terms.map((term) => (
+              <TabsTrigger
+                key={term.key}
+                value={term.key}
+                disabled={isTermLoading || isFetchingTermGrades > 0}
+              >
+                {term.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           {/* Overview Tab */}
@@ -856,73 +773,26 @@ export function CourseDashboard({
           </TabsContent>
 
           {/* Term Grade Tabs */}
-          <TabsContent
-            value="prelims"
-            className="flex flex-col flex-1 min-h-0 space-y-4 mt-4 pb-4"
-          >
-            <TermGradesTab
-              courseSlug={courseSlug}
-              termKey="prelims"
-              globalSearchQuery={globalSearchQuery}
-              onLoadingChange={setIsTermLoading}
-              onAverageGradeChange={(avg) => {
-                if (activeTab === "prelims") {
-                  setTermAverageGrade(avg);
-                }
-              }}
-            />
-          </TabsContent>
-
-          <TabsContent
-            value="midterm"
-            className="flex flex-col flex-1 min-h-0 space-y-4 mt-4 pb-4"
-          >
-            <TermGradesTab
-              courseSlug={courseSlug}
-              termKey="midterm"
-              globalSearchQuery={globalSearchQuery}
-              onLoadingChange={setIsTermLoading}
-              onAverageGradeChange={(avg) => {
-                if (activeTab === "midterm") {
-                  setTermAverageGrade(avg);
-                }
-              }}
-            />
-          </TabsContent>
-
-          <TabsContent
-            value="prefinals"
-            className="flex flex-col flex-1 min-h-0 space-y-4 mt-4 pb-4"
-          >
-            <TermGradesTab
-              courseSlug={courseSlug}
-              termKey="preFinals"
-              globalSearchQuery={globalSearchQuery}
-              onLoadingChange={setIsTermLoading}
-              onAverageGradeChange={(avg) => {
-                if (activeTab === "prefinals") {
-                  setTermAverageGrade(avg);
-                }
-              }}
-            />
-          </TabsContent>
-
-          <TabsContent
-            value="finals"
-            className="flex flex-col flex-1 min-h-0 space-y-4 mt-4 pb-4"
-          >
-            <TermGradesTab
-              courseSlug={courseSlug}
-              termKey="finals"
-              globalSearchQuery={globalSearchQuery}
-              onLoadingChange={setIsTermLoading}
-              onAverageGradeChange={(avg) => {
-                if (activeTab === "finals") {
-                  setTermAverageGrade(avg);
-                }
-              }}
-            />
-          </TabsContent>
+          {terms.map((term) => (
+            <TabsContent
+              key={term.key}
+              value={term.key}
+              className="flex flex-col flex-1 min-h-0 space-y-4 mt-4 pb-4"
+            >
+              <TermGradesTab
+                courseSlug={courseSlug}
+                termKey={term.key}
+                termLabel={term.label}
+                globalSearchQuery={globalSearchQuery}
+                onLoadingChange={setIsTermLoading}
+                onAverageGradeChange={(avg) => {
+                  if (activeTab === term.key) {
+                    setTermAverageGrade(avg);
+                  }
+                }}
+              />
+            </TabsContent>
+          ))}
         </Tabs>
 
         {/* Modals */}
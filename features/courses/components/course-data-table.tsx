@@ -30,6 +30,9 @@ import {
   Filter,
   X,
   Download,
+  CopyPlus,
+  DoorOpen,
+  CalendarRange,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -50,6 +53,7 @@ import {
   useCoursesStatsBatch,
   useFaculty,
   useBulkArchiveCourses,
+  useActiveAttendanceSession,
 } from "@/lib/hooks/queries";
 import { CourseResponse } from "@/shared/types/course";
 import { useQueryClient } from "@tanstack/react-query";
@@ -77,6 +81,9 @@ import {
 } from "@/lib/permission";
 import { FacultyFilter } from "./faculty-filter";
 import { ImportDialog } from "../dialogs/import-dialog";
+import { RolloverDialog } from "../dialogs/rollover-dialog";
+import { RoomsDialog } from "../dialogs/rooms-dialog";
+import { TimetableDialog } from "../dialogs/timetable-dialog";
 import { ImportStatusDialog } from "../dialogs/import-status-dialog";
 import { ScheduleAssignmentDialog } from "../dialogs/schedule-assignment-dialog";
 import { CourseSettingsDialog } from "../dialogs/course-settings-dialog";
@@ -94,7 +101,6 @@ import axiosInstance from "@/lib/axios";
 import axios from "@/lib/axios";
 import AnimatedContent from "@/components/ui/AnimatedContent";
 import SplitText from "@/components/ui/SplitText";
-import { checkActiveRfidSession } from "@/lib/utils/rfid-session";
 import { checkCourseSlugExists } from "@/lib/actions/courses";
 
 interface CourseStats {
@@ -254,6 +260,7 @@ const CourseCard = ({
   userId?: string;
 }) => {
   const router = useRouter();
+  const { data: activeRfidSession } = useActiveAttendanceSession();
 
   const formatTo12Hour = (time: string) => {
     if (!time) return "";
@@ -371,8 +378,7 @@ const CourseCard = ({
           // Check if there's an active RFID session for this course
           // Academic heads can always access (view-only)
           if (userRole !== "ACADEMIC_HEAD") {
-            const activeSession = checkActiveRfidSession(course.slug);
-            if (activeSession) {
+            if (activeRfidSession?.courseSlug === course.slug) {
               toast.error(
                 `Cannot access course: RFID attendance is currently active for this course. Please wait until the attendance session ends.`,
                 {
@@ -533,6 +539,9 @@ export function CourseDataTable({
   // Get permissions based on role
   const permissions = useMemo(() => getCoursePermissions(userRole), [userRole]);
 
+  const isManager =
+    userRoles.includes("ADMIN") || userRoles.includes("ACADEMIC_HEAD");
+
   // Detect if user is pure Academic Head (ACADEMIC_HEAD role without FACULTY role)
   const isPureAcademicHead = useMemo(
     () => userRoles.includes("ACADEMIC_HEAD") && !userRoles.includes("FACULTY"),
@@ -566,6 +575,7 @@ export function CourseDataTable({
   const [isRedirecting, setIsRedirecting] = useState(false);
   const [showRedirectingMessage, setShowRedirectingMessage] = useState(false);
   const router = useRouter();
+  const { data: activeRfidSession } = useActiveAttendanceSession();
   // For pure Academic Head, initialize temp filter with empty array
   // For others, initialize with their own userId
   const [tempFacultyFilter, setTempFacultyFilter] = useState<string[]>(
@@ -602,6 +612,9 @@ export function CourseDataTable({
   // Import/Export State
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [showImportPreview, setShowImportPreview] = useState(false);
+  const [showRolloverDialog, setShowRolloverDialog] = useState(false);
+  const [showRoomsDialog, setShowRoomsDialog] = useState(false);
+  const [showTimetableDialog, setShowTimetableDialog] = useState(false);
   const [showImportStatus, setShowImportStatus] = useState(false);
   const [showValidatingDialog, setShowValidatingDialog] = useState(false);
   const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
@@ -831,6 +844,25 @@ export function CourseDataTable({
     isPureAcademicHead,
   ]);
 
+  // Terms with active courses, newest first (for the timetable generator)
+  const activeTerms = useMemo(() => {
+    const unique = new Map<
+      string,
+      { academicYear: string; semester: string }
+    >();
+    tableData
+      .filter((course) => course.status === "ACTIVE")
+      .forEach((course) =>
+        unique.set(`${course.academicYear}|${course.semester}`, {
+          academicYear: course.academicYear,
+          semester: course.semester,
+        })
+      );
+    return Array.from(unique.entries())
+      .sort((a, b) => b[0].localeCompare(a[0]))
+      .map(([, term]) => term);
+  }, [tableData]);
+
   const hasReachedMaxActiveCourses = activeCoursesCount >= MAX_ACTIVE_COURSES;
 
   const isInEmptyState = activeCoursesCount === 0;
@@ -2577,8 +2609,7 @@ export function CourseDataTable({
     // Check if there's an active RFID session for this course
     // Academic heads can always access (view-only)
     if (userRole !== "ACADEMIC_HEAD") {
-      const activeSession = checkActiveRfidSession(slug);
-      if (activeSession) {
+      if (activeRfidSession?.courseSlug === slug) {
         toast.error(
           `Cannot access course: RFID attendance is currently active for this course. Please wait until the attendance session ends.`,
           {
@@ -2819,6 +2850,51 @@ export function CourseDataTable({
                       <span className="hidden xl:inline">Import</span>
                     </Button>
                   )}
+                  {permissions.canImportCourses && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowRolloverDialog(true)}
+                      disabled={
+                        isViewingOtherFaculty ||
+                        isInitialLoading ||
+                        isLoading ||
+                        !hasLoadedOnce ||
+                        !tableData.some((course) => course.facultyId === userId)
+                      }
+                      className="gap-1 xl:gap-2 text-xs xl:text-sm px-2 xl:px-3 py-2 min-h-[44px] sm:min-h-0"
+                      title={
+                        isViewingOtherFaculty
+                          ? "Cannot roll over courses for other faculties"
+                          : "Copy courses into a new semester"
+                      }
+                    >
+                      <CopyPlus className="h-3 w-3 sm:h-4 sm:w-4" />
+                      <span className="hidden xl:inline">Roll Over</span>
+                    </Button>
+                  )}
+                  {isManager && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowRoomsDialog(true)}
+                      className="gap-1 xl:gap-2 text-xs xl:text-sm px-2 xl:px-3 py-2 min-h-[44px] sm:min-h-0"
+                      title="Manage rooms and capacities"
+                    >
+                      <DoorOpen className="h-3 w-3 sm:h-4 sm:w-4" />
+                      <span className="hidden xl:inline">Rooms</span>
+                    </Button>
+                  )}
+                  {isManager && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowTimetableDialog(true)}
+                      disabled={isInitialLoading || isLoading || !hasLoadedOnce}
+                      className="gap-1 xl:gap-2 text-xs xl:text-sm px-2 xl:px-3 py-2 min-h-[44px] sm:min-h-0"
+                      title="Generate schedules for unscheduled courses"
+                    >
+                      <CalendarRange className="h-3 w-3 sm:h-4 sm:w-4" />
+                      <span className="hidden xl:inline">Timetable</span>
+                    </Button>
+                  )}
                   {permissions.canCreateCourse && (
                     <CourseSheet
                       mode="add"
@@ -3219,6 +3295,31 @@ export function CourseDataTable({
               importedRows={importedRows}
             />
 
+            {/* Rollover Dialog */}
+            <RolloverDialog
+              open={showRolloverDialog}
+              onOpenChange={setShowRolloverDialog}
+              courses={tableData.filter(
+                (course) => course.facultyId === userId
+              )}
+              facultyId={userId}
+              onSuccess={() => refetchCourses()}
+            />
+
+            {/* Rooms Dialog */}
+            <RoomsDialog
+              open={showRoomsDialog}
+              onOpenChange={setShowRoomsDialog}
+            />
+
+            {/* Timetable Dialog */}
+            <TimetableDialog
+              open={showTimetableDialog}
+              onOpenChange={setShowTimetableDialog}
+              terms={activeTerms}
+              onSuccess={() => refetchCourses()}
+            />
+
             {/* Validating Dialog */}
             <Dialog open={showValidatingDialog} onOpenChange={() => {}}>
               <DialogContent className="w-[90vw] sm:w-[80vw] md:w-[70vw] lg:w-[60vw] max-w-[500px] p-4 sm:p-6">
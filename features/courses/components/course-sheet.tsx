@@ -24,7 +24,7 @@ import toast from "react-hot-toast";
 import { editCourse, checkCourseSlugExists } from "@/lib/actions/courses";
 import { CourseStatus, Role } from "@prisma/client";
 import type { UserRole } from "@/lib/permission";
-import { useUsers } from "@/lib/hooks/queries";
+import { useRooms, useUsers } from "@/lib/hooks/queries";
 
 interface Course {
   id: string;
@@ -85,6 +85,7 @@ export function CourseSheet({
 
   // Fetch all users to check if user is the last academic head
   const { data: allUsersData } = useUsers();
+  const { data: rooms = [] } = useRooms({ enabled: open });
   const allUsers: Array<{
     id: string;
     roles?: Role[];
@@ -467,7 +468,17 @@ export function CourseSheet({
                   maxLength={15}
                   required
                   className="pr-12"
+                  list="room-options"
                 />
+                <datalist id="room-options">
+                  {rooms.map((room) => (
+                    <option key={room.id} value={room.name}>
+                      {`${room.type === "LAB" ? "Lab" : "Lecture"} · ${
+                        room.capacity
+                      } seats`}
+                    </option>
+                  ))}
+                </datalist>
                 <span className="absolute bottom-2 right-3 text-xs text-gray-500">
                   {formData.room.length}/15
                 </span>
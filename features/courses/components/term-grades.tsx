@@ -16,10 +16,15 @@ import toast from "react-hot-toast";
 import { StudentWithGrades, TermGradeData } from "../types/types";
 import { StudentAvatar } from "./ui-components";
 import { useTermGrades } from "@/lib/hooks/queries/useGrading";
+import {
+  DEFAULT_GRADING_SCALE,
+  getPassingPercentage,
+} from "@/lib/services/grading-engine";
 
 interface TermGradesTabProps {
   courseSlug: string;
-  termKey: "prelims" | "midterm" | "preFinals" | "finals";
+  termKey: string; // Course term key (TermConfiguration.term)
+  termLabel: string;
   globalSearchQuery?: string; // Add this prop
   onLoadingChange?: (loading: boolean) => void; // Callback to notify parent of loading state
   onAverageGradeChange?: (averageGrade: {
@@ -33,24 +38,21 @@ interface TermGradesTabProps {
 export const TermGradesTab = ({
   courseSlug,
   termKey,
+  termLabel,
   globalSearchQuery = "", // Default to empty string
   onLoadingChange,
   onAverageGradeChange,
 }: TermGradesTabProps) => {
-  const termName =
-    termKey === "preFinals" ? "PRE-FINALS" : termKey.toUpperCase();
+  const termName = termLabel.toUpperCase();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedRowId, setSelectedRowId] = useState<string | null>(null);
 
-  // Normalize termKey to match API route (preFinals -> prefinals)
-  const apiTermKey = termKey === "preFinals" ? "prefinals" : termKey;
-
   // Fetch term grades for this specific term
   const {
     data: termGradesData,
     isLoading,
     isError,
-  } = useTermGrades(courseSlug, apiTermKey, true);
+  } = useTermGrades(courseSlug, termKey, true);
 
   // Notify parent of loading state changes
   useEffect(() => {
@@ -62,92 +64,21 @@ export const TermGradesTab = ({
     setSearchQuery(globalSearchQuery);
   }, [globalSearchQuery]);
 
-  // Normalize termKey early (before any hooks that use it)
-  const normalizedTermKey = termKey === "preFinals" ? "prefinals" : termKey;
-
-  // Get term config weights from API response (before any returns)
-  const termConfig = termGradesData?.termConfig;
-  const ptWeight = termConfig?.ptWeight || 0;
-  const quizWeight = termConfig?.quizWeight || 0;
-  const examWeight = termConfig?.examWeight || 0;
-
-  // Helper function to convert percentage to numeric grade
-  const getNumericGrade = (totalPercent: number): number => {
-    if (totalPercent >= 97.5) return 1.0;
-    if (totalPercent >= 94.5) return 1.25;
-    if (totalPercent >= 91.5) return 1.5;
-    if (totalPercent >= 86.5) return 1.75;
-    if (totalPercent >= 81.5) return 2.0;
-    if (totalPercent >= 76.0) return 2.25;
-    if (totalPercent >= 70.5) return 2.5;
-    if (totalPercent >= 65.0) return 2.75;
-    if (totalPercent >= 59.5) return 3.0;
-    return 5.0;
-  };
-
-  // Helper function to calculate final percentage and grade for a student
+  // Term grades are computed server-side by the grading engine
   const calculateTermGrade = useMemo(() => {
-    return (termData: TermGradeData) => {
-      // Calculate PT average percentage
-      const ptPercentages: number[] = [];
-      termData.ptScores?.forEach((pt) => {
-        if (pt.score !== null && pt.score !== undefined && pt.maxScore > 0) {
-          const percentage = (pt.score / pt.maxScore) * 100;
-          ptPercentages.push(percentage);
-        }
-      });
-      const ptAvg =
-        ptPercentages.length > 0
-          ? ptPercentages.reduce((a, b) => a + b, 0) / ptPercentages.length
-          : 0;
-
-      // Calculate Quiz average percentage
-      const quizPercentages: number[] = [];
-      termData.quizScores?.forEach((quiz) => {
-        if (
-          quiz.score !== null &&
-          quiz.score !== undefined &&
-          quiz.maxScore > 0
-        ) {
-          const percentage = (quiz.score / quiz.maxScore) * 100;
-          quizPercentages.push(percentage);
-        }
-      });
-      const quizAvg =
-        quizPercentages.length > 0
-          ? quizPercentages.reduce((a, b) => a + b, 0) / quizPercentages.length
-          : 0;
-
-      // Calculate Exam percentage
-      let examPercentage: number | null = null;
-      if (termData.examScore) {
-        const exam = termData.examScore;
-        if (
-          exam.score !== null &&
-          exam.score !== undefined &&
-          exam.maxScore > 0
-        ) {
-          examPercentage = (exam.score / exam.maxScore) * 100;
-        }
-      }
-
-      // If no exam score, can't compute term grade
-      if (examPercentage === null) {
-        return { totalPercentage: null, numericGrade: null };
-      }
-
-      // Calculate weighted total
-      const ptWeighted = (ptAvg / 100) * ptWeight;
-      const quizWeighted = (quizAvg / 100) * quizWeight;
-      const examWeighted = (examPercentage / 100) * examWeight;
-      const totalPercentage = ptWeighted + quizWeighted + examWeighted;
-
-      // Calculate numeric grade
-      const numericGrade = getNumericGrade(totalPercentage);
+    return (termData: TermGradeData) => ({
+      totalPercentage: termData.totalPercentage ?? null,
+      numericGrade: termData.numericGrade ?? null,
+      gradeLabel:
+        termData.gradeLabel ??
+        (termData.numericGrade != null
+          ? termData.numericGrade.toFixed(2)
+          : null),
+      remarks: termData.remarks ?? null,
+    });
+  }, []);
 
-      return { totalPercentage, numericGrade };
-    };
-  }, [ptWeight, quizWeight, examWeight]);
+  const gradingScale = termGradesData?.gradingScale ?? DEFAULT_GRADING_SCALE;
 
   // Transform fetched data to match expected format
   const students = useMemo(() => {
@@ -172,11 +103,11 @@ export const TermGradesTab = ({
         middleInitial: student.middleInitial,
         image: student.image,
         termGrades: {
-          [normalizedTermKey]: student.termGrade,
+          [termKey]: student.termGrade,
         },
       };
     });
-  }, [termGradesData, normalizedTermKey]);
+  }, [termGradesData, termKey]);
 
   // Calculate average grade for all students (MUST be before any returns)
   const termAverageGrade = useMemo(() => {
@@ -195,13 +126,14 @@ export const TermGradesTab = ({
 
     for (const student of students) {
       const termData = student.termGrades[
-        normalizedTermKey as keyof typeof student.termGrades
+        termKey as keyof typeof student.termGrades
       ] as TermGradeData | undefined;
 
       if (!termData) continue;
 
       // Calculate grade using the same logic as the table
-      const { totalPercentage, numericGrade } = calculateTermGrade(termData);
+      const { totalPercentage, numericGrade, remarks } =
+        calculateTermGrade(termData);
 
       // Prefer numericGrade, fallback to totalPercentage
       const grade = numericGrade ?? totalPercentage;
@@ -210,13 +142,14 @@ export const TermGradesTab = ({
         gradeSum += grade;
         gradeCount++;
 
-        // Check if passing (assuming 75 is passing for percentage, 3.0 or less for numeric)
-        if (grade <= 5) {
-          // Numeric grading (1.0-5.0)
-          if (grade <= 3.0) passingStudents++;
-        } else {
-          // Percentage (0-100)
-          if (grade >= 75) passingStudents++;
+        // Passing is decided by the course's grading scale
+        if (numericGrade !== null) {
+          if (remarks === "PASSED") passingStudents++;
+        } else if (
+          totalPercentage !== null &&
+          totalPercentage >= getPassingPercentage(gradingScale)
+        ) {
+          passingStudents++;
         }
       }
     }
@@ -231,7 +164,13 @@ export const TermGradesTab = ({
       hasGrades: gradeCount > 0,
       isLoading: isLoading,
     };
-  }, [students, normalizedTermKey, isLoading, calculateTermGrade]);
+  }, [
+    students,
+    termKey,
+    isLoading,
+    calculateTermGrade,
+    gradingScale,
+  ]);
 
   // Notify parent of average grade changes (MUST be before any returns)
   useEffect(() => {
@@ -270,7 +209,7 @@ export const TermGradesTab = ({
 
   const hasData = students.some(
     (s: StudentWithGrades) =>
-      s.termGrades[normalizedTermKey as keyof typeof s.termGrades]
+      s.termGrades[termKey as keyof typeof s.termGrades]
   );
 
   if (!hasData) {
@@ -305,8 +244,8 @@ export const TermGradesTab = ({
 
   const sampleTerm = students.find(
     (s: StudentWithGrades) =>
-      s.termGrades[normalizedTermKey as keyof typeof s.termGrades]
-  )?.termGrades[normalizedTermKey as keyof (typeof students)[0]["termGrades"]];
+      s.termGrades[termKey as keyof typeof s.termGrades]
+  )?.termGrades[termKey as keyof (typeof students)[0]["termGrades"]];
   const ptColumns =
     sampleTerm?.ptScores?.map((pt: { name: string }) => pt.name) || [];
   const quizColumns =
@@ -360,7 +299,7 @@ export const TermGradesTab = ({
             {filteredStudents.length > 0 ? (
               filteredStudents.map((student: StudentWithGrades) => {
                 const termData = student.termGrades[
-                  normalizedTermKey as keyof typeof student.termGrades
+                  termKey as keyof typeof student.termGrades
                 ] as TermGradeData | undefined;
                 if (!termData) return null;
 
@@ -518,16 +457,14 @@ export const TermGradesTab = ({
                       }`}
                     >
                       {(() => {
-                        const { numericGrade } = calculateTermGrade(termData);
+                        const { gradeLabel } = calculateTermGrade(termData);
                         return (
                           <span
                             className={`font-bold ${
                               isSelected ? "text-white" : "text-[#124A69]"
                             }`}
                           >
-                            {numericGrade !== null
-                              ? numericGrade.toFixed(2)
-                              : "—"}
+                            {gradeLabel ?? "—"}
                           </span>
                         );
                       })()}
@@ -10,10 +10,13 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Upload, Download, AlertCircle } from "lucide-react";
+import { Upload, Download, AlertCircle, Users } from "lucide-react";
 import ExcelJS from "exceljs";
 import { saveAs } from "file-saver";
-import { useImportStudentsToCourse } from "@/lib/hooks/queries";
+import {
+  useEnrollCourseSection,
+  useImportStudentsToCourse,
+} from "@/lib/hooks/queries";
 
 const MAX_PREVIEW_ROWS = 100;
 const EXPECTED_HEADERS = ["Student Number", "Full Name"];
@@ -71,6 +74,7 @@ export function StudentImportDialog({
 
   // React Query hook
   const importMutation = useImportStudentsToCourse();
+  const enrollSectionMutation = useEnrollCourseSection();
 
   const validateHeaders = (headers: string[]): boolean => {
     const trimmedHeaders = headers.map((h) => h?.toString().trim() || "");
@@ -207,6 +211,18 @@ export function StudentImportDialog({
     }
   };
 
+  // Enroll the course's whole section instead of uploading a file
+  const handleEnrollSection = async () => {
+    try {
+      const result = await enrollSectionMutation.mutateAsync({ courseSlug });
+      setImportStatus(result);
+      setShowStatusDialog(true);
+      onImportComplete();
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
   const handleDownloadTemplate = async () => {
     try {
       const workbook = new ExcelJS.Workbook();
@@ -499,6 +515,17 @@ export function StudentImportDialog({
                 <Download className="h-4 w-4" />
                 Download Template
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleEnrollSection}
+                className="flex items-center gap-2"
+                disabled={!!importProgress || enrollSectionMutation.isPending}
+              >
+                <Users className="h-4 w-4" />
+                {enrollSectionMutation.isPending
+                  ? "Enrolling..."
+                  : "Enroll Whole Section"}
+              </Button>
 
               <div className="flex gap-3">
                 <Button
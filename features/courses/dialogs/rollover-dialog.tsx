@@ -0,0 +1,358 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/svdialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, ChevronLeft, Loader2 } from "lucide-react";
+import {
+  usePreviewCourseRollover,
+  useCourseRollover,
+  CourseRolloverEntry,
+  CourseRolloverRequest,
+} from "@/lib/hooks/queries";
+
+interface RolloverCourse {
+  slug: string;
+  code: string;
+  section: string;
+  semester: string;
+  academicYear: string;
+}
+
+interface RolloverDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  courses: RolloverCourse[];
+  facultyId: string;
+  onSuccess?: () => void;
+}
+
+// "2024-2025" -> "2025-2026"
+const nextAcademicYear = (academicYear: string) => {
+  const match = academicYear.match(/^(\d{4})\D(\d{4})$/);
+  return match
+    ? `${Number(match[1]) + 1}-${Number(match[2]) + 1}`
+    : academicYear;
+};
+
+export function RolloverDialog({
+  open,
+  onOpenChange,
+  courses,
+  facultyId,
+  onSuccess,
+}: RolloverDialogProps) {
+  const [mode, setMode] = useState<"selected" | "load">("selected");
+  const [selectedSlugs, setSelectedSlugs] = useState<string[]>([]);
+  const [sourceTerm, setSourceTerm] = useState("");
+  const [academicYear, setAcademicYear] = useState("");
+  const [semester, setSemester] = useState("1st Semester");
+  const [preview, setPreview] = useState<CourseRolloverEntry[] | null>(null);
+
+  const previewMutation = usePreviewCourseRollover();
+  const rolloverMutation = useCourseRollover();
+
+  // Distinct terms of the faculty's courses, newest first
+  const terms = useMemo(() => {
+    const unique = new Map<
+      string,
+      { academicYear: string; semester: string }
+    >();
+    courses.forEach((c) =>
+      unique.set(`${c.academicYear}|${c.semester}`, {
+        academicYear: c.academicYear,
+        semester: c.semester,
+      })
+    );
+    return Array.from(unique.entries()).sort((a, b) =>
+      b[0].localeCompare(a[0])
+    );
+  }, [courses]);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode("selected");
+    setSelectedSlugs([]);
+    setPreview(null);
+    const [latestKey, latest] = terms[0] ?? [];
+    setSourceTerm(latestKey ?? "");
+    if (latest) {
+      // Suggest the term that follows the latest one
+      if (latest.semester === "1st Semester") {
+        setAcademicYear(latest.academicYear);
+        setSemester("2nd Semester");
+      } else {
+        setAcademicYear(nextAcademicYear(latest.academicYear));
+        setSemester("1st Semester");
+      }
+    }
+  }, [open, terms]);
+
+  const buildRequest = (): CourseRolloverRequest => {
+    if (mode === "selected") {
+      return { courseSlugs: selectedSlugs, academicYear, semester };
+    }
+    const [sourceAcademicYear, sourceSemester] = sourceTerm.split("|");
+    return {
+      facultyId,
+      sourceAcademicYear,
+      sourceSemester,
+      academicYear,
+      semester,
+    };
+  };
+
+  const canPreview =
+    !!academicYear.trim() &&
+    !!semester &&
+    (mode === "selected" ? selectedSlugs.length > 0 : !!sourceTerm);
+
+  const handlePreview = async () => {
+    const result = await previewMutation
+      .mutateAsync(buildRequest())
+      .catch(() => null);
+    if (result) setPreview(result.courses);
+  };
+
+  const handleCommit = async () => {
+    const result = await rolloverMutation
+      .mutateAsync(buildRequest())
+      .catch(() => null);
+    if (result) {
+      onOpenChange(false);
+      onSuccess?.();
+    }
+  };
+
+  const toggleCourse = (slug: string) => {
+    setSelectedSlugs((prev) =>
+      prev.includes(slug) ? prev.filter((s) => s !== slug) : [...prev, slug]
+    );
+  };
+
+  const toCreate = preview?.filter((c) => c.status === "create").length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[90vw] max-w-[700px] p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-[#124A69]">
+            Roll Over to New Semester
+          </DialogTitle>
+          <DialogDescription>
+            Copies schedules, grading terms, assessments and criteria into a new
+            term. Students, grades and attendance are not copied.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4 mt-4">
+            <div className="flex gap-2">
+              <Button
+                variant={mode === "selected" ? "default" : "outline"}
+                onClick={() => setMode("selected")}
+                className={
+                  mode === "selected" ? "bg-[#124A69] hover:bg-[#0D3A54]" : ""
+                }
+              >
+                Selected Courses
+              </Button>
+              <Button
+                variant={mode === "load" ? "default" : "outline"}
+                onClick={() => setMode("load")}
+                className={
+                  mode === "load" ? "bg-[#124A69] hover:bg-[#0D3A54]" : ""
+                }
+              >
+                Whole Load
+              </Button>
+            </div>
+
+            {mode === "selected" ? (
+              <div className="space-y-2">
+                <Label>Courses</Label>
+                <div className="max-h-56 overflow-y-auto border rounded-lg p-3 space-y-2">
+                  {courses.map((course) => (
+                    <label
+                      key={course.slug}
+                      className="flex items-center gap-2 text-sm cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selectedSlugs.includes(course.slug)}
+                        onCheckedChange={() => toggleCourse(course.slug)}
+                      />
+                      <span className="font-medium">
+                        {course.code} - {course.section}
+                      </span>
+                      <span className="text-gray-500">
+                        {course.semester}, {course.academicYear}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Copy every course from</Label>
+                <Select value={sourceTerm} onValueChange={setSourceTerm}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select term" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {terms.map(([key, term]) => (
+                      <SelectItem key={key} value={key}>
+                        {term.semester}, {term.academicYear}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rollover-year">Target Academic Year</Label>
+                <Input
+                  id="rollover-year"
+                  value={academicYear}
+                  onChange={(e) => setAcademicYear(e.target.value)}
+                  placeholder="e.g., 2025-2026"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Target Semester</Label>
+                <Select value={semester} onValueChange={setSemester}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1st Semester">1st Semester</SelectItem>
+                    <SelectItem value="2nd Semester">2nd Semester</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={!canPreview || previewMutation.isPending}
+                className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              >
+                {previewMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Preview Changes
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-4">
+            <p className="text-sm text-gray-600">
+              {toCreate} of {preview.length} course(s) will be created in{" "}
+              <span className="font-medium">
+                {semester}, {academicYear}
+              </span>
+              .
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto space-y-3">
+              {preview.map((entry) => (
+                <div
+                  key={entry.source.slug}
+                  className="border rounded-lg p-3 space-y-2 text-sm"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 font-medium">
+                      <span>{entry.source.slug}</span>
+                      <ArrowRight className="h-4 w-4 text-gray-400" />
+                      <span className="text-[#124A69]">
+                        {entry.target.slug ?? "—"}
+                      </span>
+                    </div>
+                    <Badge
+                      className={
+                        entry.status === "create"
+                          ? "bg-green-100 text-green-700"
+                          : entry.status === "conflict"
+                          ? "bg-red-100 text-red-700"
+                          : "bg-amber-100 text-amber-700"
+                      }
+                    >
+                      {entry.status === "create"
+                        ? "New"
+                        : entry.status === "conflict"
+                        ? "Conflict"
+                        : "Skipped"}
+                    </Badge>
+                  </div>
+                  {entry.status === "skipped" ? (
+                    <p className="text-amber-700">{entry.message}</p>
+                  ) : entry.status === "conflict" ? (
+                    <p className="text-red-700">{entry.message}</p>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700">
+                        <span>
+                          + {entry.copies.schedules.length} schedule(s)
+                        </span>
+                        <span>
+                          + {entry.copies.terms.length} grading term(s)
+                        </span>
+                        <span>
+                          + {entry.copies.assessments.length} assessment(s)
+                        </span>
+                        <span>+ {entry.copies.criteria.length} criteria</span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Not copied: {entry.leftBehind.students} student(s),{" "}
+                        {entry.leftBehind.grades} grade(s),{" "}
+                        {entry.leftBehind.attendance} attendance record(s),{" "}
+                        {entry.leftBehind.quizzes} quiz(zes)
+                      </p>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between gap-2 pt-2">
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Back
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={toCreate === 0 || rolloverMutation.isPending}
+                className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              >
+                {rolloverMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Create {toCreate} Course(s)
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Room,
+  RoomType,
+  useCreateRoom,
+  useDeleteRoom,
+  useRooms,
+  useUpdateRoom,
+} from "@/lib/hooks/queries";
+
+interface RoomsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  name: "",
+  building: "",
+  capacity: 40,
+  type: "LECTURE" as RoomType,
+};
+
+export function RoomsDialog({ open, onOpenChange }: RoomsDialogProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const { data: rooms = [], isLoading } = useRooms({ enabled: open });
+  const createRoom = useCreateRoom();
+  const updateRoom = useUpdateRoom();
+  const deleteRoom = useDeleteRoom();
+  const isSaving = createRoom.isPending || updateRoom.isPending;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const startEdit = (room: Room) => {
+    setEditingId(room.id);
+    setForm({
+      name: room.name,
+      building: room.building ?? "",
+      capacity: room.capacity,
+      type: room.type,
+    });
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      name: form.name,
+      building: form.building.trim() || null,
+      capacity: form.capacity,
+      type: form.type,
+    };
+    const saved = await (editingId
+      ? updateRoom.mutateAsync({ id: editingId, ...payload })
+      : createRoom.mutateAsync(payload)
+    ).catch(() => null);
+    if (saved) resetForm();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) resetForm();
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-[#124A69] text-xl font-bold">
+            Rooms
+          </DialogTitle>
+          <DialogDescription className="text-gray-500">
+            Registered rooms are checked for double-bookings when schedules are
+            assigned, and their capacity limits enrollment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end rounded-lg border border-[#124A69]/20 p-3">
+          <div className="space-y-1">
+            <Label htmlFor="room-name">Name</Label>
+            <Input
+              id="room-name"
+              value={form.name}
+              maxLength={15}
+              placeholder="e.g., 402"
+              onChange={(e) =>
+                setForm({ ...form, name: e.target.value.toUpperCase() })
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="room-building">Building</Label>
+            <Input
+              id="room-building"
+              value={form.building}
+              maxLength={50}
+              placeholder="Optional"
+              onChange={(e) => setForm({ ...form, building: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="room-capacity">Capacity</Label>
+            <Input
+              id="room-capacity"
+              type="number"
+              min={1}
+              value={form.capacity}
+              onChange={(e) =>
+                setForm({ ...form, capacity: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select
+              value={form.type}
+              onValueChange={(value) =>
+                setForm({ ...form, type: value as RoomType })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="LECTURE">Lecture</SelectItem>
+                <SelectItem value="LAB">Laboratory</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2 col-span-2 sm:col-span-1">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !form.name.trim() || form.capacity < 1}
+              className="flex-1 bg-[#124A69] hover:bg-[#0D3A54] text-white"
+            >
+              {editingId ? "Save" : "Add"}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-[#124A69]" />
+          </div>
+        ) : rooms.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No rooms registered yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Room</TableHead>
+                <TableHead>Building</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Capacity</TableHead>
+                <TableHead className="text-right">Courses</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rooms.map((room) => (
+                <TableRow key={room.id}>
+                  <TableCell className="font-medium">{room.name}</TableCell>
+                  <TableCell>{room.building ?? "-"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {room.type === "LAB" ? "Laboratory" : "Lecture"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{room.capacity}</TableCell>
+                  <TableCell className="text-right">
+                    {room._count.courses}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEdit(room)}
+                      aria-label={`Edit room ${room.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteRoom.isPending}
+                      onClick={() => {
+                        if (
+                          window.confirm(
+                            `Delete room ${room.name}? Its courses keep the room label.`
+                          )
+                        ) {
+                          deleteRoom.mutateAsync(room.id).catch(() => null);
+                        }
+                      }}
+                      aria-label={`Delete room ${room.name}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
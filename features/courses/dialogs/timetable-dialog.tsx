@@ -0,0 +1,377 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/svdialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronLeft, Loader2, RefreshCw } from "lucide-react";
+import {
+  useProposeTimetable,
+  useApplyTimetable,
+  RoomType,
+  TimetableProposal,
+  TimetableRequest,
+} from "@/lib/hooks/queries";
+
+interface TimetableDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Terms to offer, newest first
+  terms: Array<{ academicYear: string; semester: string }>;
+  onSuccess?: () => void;
+}
+
+type CourseOverride = { weeklyHours: number; roomType: RoomType };
+
+const shortDay = (day: string) => day.slice(0, 3);
+
+export function TimetableDialog({
+  open,
+  onOpenChange,
+  terms,
+  onSuccess,
+}: TimetableDialogProps) {
+  const [term, setTerm] = useState("");
+  const [weeklyHours, setWeeklyHours] = useState(3);
+  const [meetingsPerWeek, setMeetingsPerWeek] = useState("auto");
+  const [overrides, setOverrides] = useState<Record<string, CourseOverride>>(
+    {}
+  );
+  const [proposal, setProposal] = useState<TimetableProposal | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const proposeMutation = useProposeTimetable();
+  const applyMutation = useApplyTimetable();
+
+  useEffect(() => {
+    if (!open) return;
+    const latest = terms[0];
+    setTerm(latest ? `${latest.academicYear}|${latest.semester}` : "");
+    setWeeklyHours(3);
+    setMeetingsPerWeek("auto");
+    setOverrides({});
+    setProposal(null);
+    setIsDirty(false);
+  }, [open, terms]);
+
+  const buildRequest = (): TimetableRequest => {
+    const [academicYear, semester] = term.split("|");
+    return {
+      academicYear,
+      semester,
+      weeklyHours,
+      meetingsPerWeek:
+        meetingsPerWeek === "auto" ? undefined : Number(meetingsPerWeek),
+      courses: Object.entries(overrides).map(([courseId, options]) => ({
+        courseId,
+        ...options,
+      })),
+    };
+  };
+
+  const handleGenerate = async () => {
+    const result = await proposeMutation
+      .mutateAsync(buildRequest())
+      .catch(() => null);
+    if (result) {
+      setProposal(result);
+      setIsDirty(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!proposal) return;
+    const result = await applyMutation
+      .mutateAsync(proposal.courses.filter((c) => c.status === "placed"))
+      .catch(() => null);
+    if (result) {
+      onOpenChange(false);
+      onSuccess?.();
+    }
+  };
+
+  const updateOverride = (
+    courseId: string,
+    current: CourseOverride,
+    changes: Partial<CourseOverride>
+  ) => {
+    setOverrides((prev) => ({
+      ...prev,
+      [courseId]: { ...current, ...prev[courseId], ...changes },
+    }));
+    setIsDirty(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-[900px] p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-[#124A69]">
+            Generate Timetable
+          </DialogTitle>
+          <DialogDescription>
+            Schedules every unscheduled active course of a term around the
+            existing schedules, without double-booking faculty, rooms or block
+            sections and within each faculty member&apos;s weekly hour limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!proposal ? (
+          <div className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label>Term</Label>
+              <Select value={term} onValueChange={setTerm}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select term" />
+                </SelectTrigger>
+                <SelectContent>
+                  {terms.map((t) => (
+                    <SelectItem
+                      key={`${t.academicYear}|${t.semester}`}
+                      value={`${t.academicYear}|${t.semester}`}
+                    >
+                      {t.semester}, {t.academicYear}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="timetable-hours">Weekly Hours per Course</Label>
+                <Input
+                  id="timetable-hours"
+                  type="number"
+                  min={0.5}
+                  max={12}
+                  step={0.5}
+                  value={weeklyHours}
+                  onChange={(e) => setWeeklyHours(Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Meetings per Week</Label>
+                <Select
+                  value={meetingsPerWeek}
+                  onValueChange={setMeetingsPerWeek}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatic</SelectItem>
+                    <SelectItem value="1">Once a week</SelectItem>
+                    <SelectItem value="2">Twice a week</SelectItem>
+                    <SelectItem value="3">Three times a week</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Hours and room type can be adjusted per course after generating.
+            </p>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleGenerate}
+                disabled={
+                  !term ||
+                  !(weeklyHours >= 0.5 && weeklyHours <= 12) ||
+                  proposeMutation.isPending
+                }
+                className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              >
+                {proposeMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Generate
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-4">
+            <p className="text-sm text-gray-600">
+              {proposal.courses.length === 0 ? (
+                "Every active course of this term already has a schedule."
+              ) : (
+                <>
+                  {proposal.placed} of {proposal.courses.length} unscheduled
+                  course(s) placed for{" "}
+                  <span className="font-medium">
+                    {proposal.semester}, {proposal.academicYear}
+                  </span>
+                  .
+                </>
+              )}
+            </p>
+
+            <div className="max-h-[45vh] overflow-y-auto space-y-2">
+              {proposal.courses.map((entry) => {
+                const current = {
+                  weeklyHours: entry.weeklyHours,
+                  roomType: entry.roomType,
+                };
+                const options = overrides[entry.courseId] ?? current;
+
+                return (
+                  <div
+                    key={entry.courseId}
+                    className="border rounded-lg p-3 space-y-2 text-sm"
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div>
+                        <span className="font-medium">
+                          {entry.code} - {entry.section}
+                        </span>
+                        <span className="text-gray-500">
+                          {" "}
+                          · {entry.faculty?.name ?? "No faculty"} ·{" "}
+                          {entry.enrolled} student(s)
+                        </span>
+                      </div>
+                      <Badge
+                        className={
+                          entry.status === "placed"
+                            ? "bg-green-100 text-green-700"
+                            : "bg-amber-100 text-amber-700"
+                        }
+                      >
+                        {entry.status === "placed" ? "Placed" : "Not placed"}
+                      </Badge>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min={0.5}
+                          max={12}
+                          step={0.5}
+                          value={options.weeklyHours}
+                          onChange={(e) =>
+                            updateOverride(entry.courseId, current, {
+                              weeklyHours: Number(e.target.value),
+                            })
+                          }
+                          className="h-8 w-20"
+                          aria-label={`Weekly hours for ${entry.code} - ${entry.section}`}
+                        />
+                        <span className="text-gray-500">h/week</span>
+                      </div>
+                      <Select
+                        value={options.roomType}
+                        onValueChange={(value) =>
+                          updateOverride(entry.courseId, current, {
+                            roomType: value as RoomType,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="LECTURE">Lecture</SelectItem>
+                          <SelectItem value="LAB">Laboratory</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {entry.status === "placed" && (
+                        <span className="text-[#124A69]">
+                          {entry.schedules
+                            .map((s) => shortDay(s.day))
+                            .join("/")}{" "}
+                          {entry.schedules[0]?.fromTime} -{" "}
+                          {entry.schedules[0]?.toTime} · Room {entry.room}
+                          {entry.roomChanged && (
+                            <span className="text-gray-500"> (new)</span>
+                          )}
+                        </span>
+                      )}
+                    </div>
+
+                    {entry.reason && (
+                      <p className="text-amber-700">{entry.reason}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {proposal.facultyLoad.length > 0 && (
+              <div className="space-y-1">
+                <Label>Faculty Load (hours per week)</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {proposal.facultyLoad.map((load) => (
+                    <div
+                      key={load.facultyId}
+                      className="flex justify-between gap-2"
+                    >
+                      <span className="truncate">{load.name}</span>
+                      <span className="text-gray-600 whitespace-nowrap">
+                        {load.scheduledHours} + {load.proposedHours} /{" "}
+                        {load.limitHours}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between gap-2 pt-2">
+              <Button variant="outline" onClick={() => setProposal(null)}>
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Back
+              </Button>
+              <div className="flex gap-2">
+                {isDirty && (
+                  <Button
+                    variant="outline"
+                    onClick={handleGenerate}
+                    disabled={proposeMutation.isPending}
+                  >
+                    {proposeMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                    )}
+                    Regenerate
+                  </Button>
+                )}
+                <Button
+                  onClick={handleApply}
+                  disabled={
+                    isDirty || proposal.placed === 0 || applyMutation.isPending
+                  }
+                  className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                >
+                  {applyMutation.isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Save {proposal.placed} Schedule(s)
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
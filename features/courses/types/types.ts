@@ -15,13 +15,8 @@ export interface AttendanceRecord {
   status: "PRESENT" | "LATE" | "ABSENT" | "EXCUSED";
 }
 
-export interface TermGrades {
-  prelims?: TermGradeData;
-  midterm?: TermGradeData;
-  preFinals?: TermGradeData;
-  prefinals?: TermGradeData; // API returns lowercase
-  finals?: TermGradeData;
-}
+// Keyed by the course's term keys (e.g. "PRELIM", "MIDTERM")
+export type TermGrades = Record<string, TermGradeData | undefined>;
 
 export interface TermGradeData {
   ptScores: Assessment[];
@@ -29,6 +24,7 @@ export interface TermGradeData {
   examScore?: Assessment;
   totalPercentage?: number;
   numericGrade?: number;
+  gradeLabel?: string;
   remarks?: string;
 }
 
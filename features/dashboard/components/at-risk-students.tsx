@@ -0,0 +1,117 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import type { StudentRisk } from "@/lib/services/early-warning";
+import type { RiskFactor, RiskLevel } from "@/lib/services/grading-engine";
+
+export const RISK_LEVEL_STYLES: Record<RiskLevel, string> = {
+  HIGH: "bg-red-100 text-red-700 border-red-200",
+  MODERATE: "bg-amber-100 text-amber-700 border-amber-200",
+  LOW: "bg-green-100 text-green-700 border-green-200",
+};
+
+export function describeRiskFactor(
+  factor: RiskFactor,
+  student: Pick<
+    StudentRisk,
+    "absenceRate" | "missingAssessments" | "trend" | "projectedFinal"
+  >
+) {
+  switch (factor) {
+    case "ABSENCES":
+      return `${student.absenceRate ?? 0}% absences`;
+    case "MISSING_WORK":
+      return `${student.missingAssessments} missing`;
+    case "DECLINING":
+      return `${student.trend ?? 0} pts since last term`;
+    case "PROJECTED_FAIL":
+      return `Projected ${student.projectedFinal?.toFixed(1) ?? "—"}%`;
+  }
+}
+
+interface AtRiskStudentsProps {
+  students: StudentRisk[];
+}
+
+export default function AtRiskStudents({ students }: AtRiskStudentsProps) {
+  return (
+    <Card className="border-[#124A69]/20 shadow-sm mb-6 sm:mb-8">
+      <CardHeader className="pb-3 sm:pb-4 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="p-1.5 sm:p-2 bg-[#124A69] rounded-lg">
+            <ShieldAlert className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+          </div>
+          <div>
+            <CardTitle className="text-sm sm:text-base lg:text-lg font-semibold text-[#124A69]">
+              Students at Risk
+            </CardTitle>
+            <p className="text-[11px] sm:text-xs text-muted-foreground">
+              Ranked by absences, missing work, grade trend and projected final
+              grade
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pb-4 sm:pb-5">
+        {students.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No students are currently flagged in your courses.
+          </p>
+        ) : (
+          <div className="divide-y divide-[#124A69]/10">
+            {students.map((student, index) => (
+              <Link
+                key={`${student.course.id}:${student.id}`}
+                href={`/main/grading/class-record/${student.course.slug}`}
+                className="flex items-center gap-3 py-2.5 hover:bg-[#124A69]/5 rounded-md px-1"
+              >
+                <span className="w-5 text-xs font-bold text-[#124A69] text-center">
+                  {index + 1}
+                </span>
+                <Avatar className="h-8 w-8 ring-2 ring-[#124A69]/10">
+                  <AvatarImage src={student.image || undefined} />
+                  <AvatarFallback className="bg-gradient-to-br from-[#124A69] to-[#0D3A54] text-white text-[10px]">
+                    {`${student.firstName[0] ?? ""}${
+                      student.lastName[0] ?? ""
+                    }`.toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs sm:text-sm font-semibold text-gray-900 truncate">
+                    {student.lastName}, {student.firstName}
+                  </p>
+                  <p className="text-[10px] sm:text-xs text-muted-foreground truncate">
+                    {student.course.code} - {student.course.section}
+                  </p>
+                </div>
+                <div className="hidden md:flex flex-wrap justify-end gap-1 max-w-[45%]">
+                  {student.factors.map((factor) => (
+                    <Badge
+                      key={factor}
+                      variant="outline"
+                      className="text-[10px] font-normal"
+                    >
+                      {describeRiskFactor(factor, student)}
+                    </Badge>
+                  ))}
+                </div>
+                <Badge
+                  variant="outline"
+                  className={`text-[10px] sm:text-xs font-semibold ${
+                    RISK_LEVEL_STYLES[student.level]
+                  }`}
+                >
+                  {student.score}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
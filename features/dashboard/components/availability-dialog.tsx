@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { TimePicker } from "@/components/ui/time-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  AvailabilityWindow,
+  useMyAvailability,
+  useUpdateMyAvailability,
+} from "@/lib/hooks/queries";
+
+const DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const emptyWindow: AvailabilityWindow = { day: "", fromTime: "", toTime: "" };
+
+interface AvailabilityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AvailabilityDialog({
+  open,
+  onOpenChange,
+}: AvailabilityDialogProps) {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+
+  const { data: saved, isLoading } = useMyAvailability({ enabled: open });
+  const updateAvailability = useUpdateMyAvailability();
+
+  useEffect(() => {
+    if (open && saved) {
+      setWindows(
+        saved.map(({ day, fromTime, toTime }) => ({ day, fromTime, toTime }))
+      );
+    }
+  }, [open, saved]);
+
+  const updateWindow = (
+    index: number,
+    field: keyof AvailabilityWindow,
+    value: string
+  ) => {
+    setWindows((prev) =>
+      prev.map((w, i) => (i === index ? { ...w, [field]: value } : w))
+    );
+  };
+
+  const isComplete = windows.every((w) => w.day && w.fromTime && w.toTime);
+
+  const handleSave = async () => {
+    const result = await updateAvailability
+      .mutateAsync(windows)
+      .catch(() => null);
+    if (result) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-[#124A69] text-xl font-bold">
+            My Availability
+          </DialogTitle>
+          <DialogDescription className="text-gray-500">
+            Classes can only be scheduled inside these windows. Leave the list
+            empty if you can teach at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {windows.length === 0 && (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                No availability declared.
+              </p>
+            )}
+            {windows.map((window, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end"
+              >
+                <div className="space-y-1">
+                  {index === 0 && <Label>Day</Label>}
+                  <Select
+                    value={window.day}
+                    onValueChange={(value) => updateWindow(index, "day", value)}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAYS.map((day) => (
+                        <SelectItem key={day} value={day}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  {index === 0 && <Label>From</Label>}
+                  <TimePicker
+                    value={window.fromTime}
+                    onChange={(value) => updateWindow(index, "fromTime", value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  {index === 0 && <Label>To</Label>}
+                  <TimePicker
+                    value={window.toTime}
+                    onChange={(value) => updateWindow(index, "toTime", value)}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setWindows((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  aria-label={`Remove window ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setWindows((prev) => [...prev, emptyWindow])}
+              className="gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add Window
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isComplete || isLoading || updateAvailability.isPending}
+            className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+          >
+            {updateAvailability.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
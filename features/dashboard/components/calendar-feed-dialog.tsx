@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  useCalendarFeed,
+  useRevokeCalendarFeed,
+  useRotateCalendarFeed,
+} from "@/lib/hooks/queries";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CalendarFeedDialog({
+  open,
+  onOpenChange,
+}: CalendarFeedDialogProps) {
+  // The feed URL is only returned when it is issued, so it is kept while open
+  const [url, setUrl] = useState<string | null>(null);
+
+  const { data: feed, isLoading } = useCalendarFeed({ enabled: open });
+  const rotateFeed = useRotateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+
+  useEffect(() => {
+    if (!open) setUrl(null);
+  }, [open]);
+
+  const handleGenerate = async () => {
+    const result = await rotateFeed.mutateAsync().catch(() => null);
+    if (result) setUrl(result.url);
+  };
+
+  const handleRevoke = async () => {
+    const result = await revokeFeed.mutateAsync().catch(() => null);
+    if (result) setUrl(null);
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Feed URL copied");
+    } catch {
+      toast.error("Failed to copy the feed URL");
+    }
+  };
+
+  const isBusy = rotateFeed.isPending || revokeFeed.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#124A69] text-xl font-bold">
+            Subscribe to My Calendar
+          </DialogTitle>
+          <DialogDescription className="text-gray-500">
+            Add your class schedule and school events to Outlook, Google
+            Calendar or Apple Calendar. Holidays and suspended classes are left
+            out automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {url ? (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input value={url} readOnly className="font-mono text-xs" />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCopy}
+                    className="h-9"
+                    aria-label="Copy feed URL"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-amber-700">
+                  Copy this URL now; it will not be shown again. Anyone with the
+                  URL can see your schedule.
+                </p>
+                <p className="text-xs text-gray-500">
+                  In Outlook, go to Add calendar &gt; Subscribe from web and
+                  paste the URL.
+                </p>
+              </div>
+            ) : feed ? (
+              <div className="rounded-md border p-3 text-sm text-gray-600">
+                <p>
+                  Feed active since {format(new Date(feed.updatedAt), "PP")}.
+                </p>
+                <p className="text-xs text-gray-500">
+                  {feed.lastAccessedAt
+                    ? `Last synced ${format(
+                        new Date(feed.lastAccessedAt),
+                        "PPp"
+                      )}`
+                    : "Not synced by a calendar app yet"}
+                </p>
+              </div>
+            ) : (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                No calendar feed yet.
+              </p>
+            )}
+            {feed && !url && (
+              <p className="text-xs text-gray-500">
+                Lost the URL? Generate a new one; the old URL stops working.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          {feed && (
+            <Button
+              variant="outline"
+              onClick={handleRevoke}
+              disabled={isBusy}
+              className="mr-auto gap-1 text-red-600"
+            >
+              {revokeFeed.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4" />
+              )}
+              Revoke
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={isLoading || isBusy}
+            className="gap-1 bg-[#124A69] hover:bg-[#0D3A54] text-white"
+          >
+            {rotateFeed.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+            {feed ? "Generate New URL" : "Generate URL"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { DepartmentRiskSummary } from "@/lib/services/early-warning";
+import { describeRiskFactor, RISK_LEVEL_STYLES } from "./at-risk-students";
+
+interface DepartmentRiskOverviewProps {
+  departments: DepartmentRiskSummary[];
+}
+
+export default function DepartmentRiskOverview({
+  departments,
+}: DepartmentRiskOverviewProps) {
+  return (
+    <Card className="border-[#124A69]/20 shadow-sm mb-3 sm:mb-4 lg:mb-5">
+      <CardHeader className="pb-3 sm:pb-4 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="p-1.5 sm:p-2 bg-[#124A69] rounded-lg">
+            <ShieldAlert className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+          </div>
+          <CardTitle className="text-sm sm:text-base lg:text-lg font-semibold text-[#124A69]">
+            At-Risk Students by Department
+          </CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="pb-4 sm:pb-5 lg:pb-6">
+        {departments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No active courses to assess
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4">
+            {departments.map((department) => (
+              <div
+                key={department.department}
+                className="rounded-lg sm:rounded-xl p-4 border border-[#124A69]/10 bg-gradient-to-br from-white to-gray-50/50"
+              >
+                <div className="flex items-start justify-between gap-2 mb-3">
+                  <div>
+                    <p className="text-sm font-bold text-gray-900">
+                      {department.department}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {department.courses} course(s), {department.students}{" "}
+                      enrollment(s)
+                    </p>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <Badge variant="outline" className={RISK_LEVEL_STYLES.HIGH}>
+                      {department.high} high
+                    </Badge>
+                    <Badge
+                      variant="outline"
+                      className={RISK_LEVEL_STYLES.MODERATE}
+                    >
+                      {department.moderate} moderate
+                    </Badge>
+                  </div>
+                </div>
+
+                {department.topCourses.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-[11px] font-semibold text-[#124A69] mb-1">
+                      Courses with the most flagged students
+                    </p>
+                    <ul className="space-y-1">
+                      {department.topCourses.map((course) => (
+                        <li
+                          key={course.id}
+                          className="flex justify-between text-xs text-gray-700"
+                        >
+                          <span className="truncate">
+                            {course.code} - {course.section}
+                            {course.facultyName && (
+                              <span className="text-muted-foreground">
+                                {" "}
+                                · {course.facultyName}
+                              </span>
+                            )}
+                          </span>
+                          <span className="font-semibold">
+                            {course.atRisk}/{course.students}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {department.topStudents.length > 0 && (
+                  <div>
+                    <p className="text-[11px] font-semibold text-[#124A69] mb-1">
+                      Highest risk
+                    </p>
+                    <ul className="space-y-1">
+                      {department.topStudents.map((student) => (
+                        <li
+                          key={`${student.course.id}:${student.id}`}
+                          className="flex items-center justify-between gap-2 text-xs"
+                        >
+                          <span className="truncate text-gray-700">
+                            {student.lastName}, {student.firstName}{" "}
+                            <span className="text-muted-foreground">
+                              ({student.course.code})
+                            </span>
+                          </span>
+                          <span className="flex items-center gap-1 flex-shrink-0">
+                            <span className="hidden sm:inline text-[10px] text-muted-foreground">
+                              {student.factors
+                                .map((factor) =>
+                                  describeRiskFactor(factor, student)
+                                )
+                                .join(", ")}
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className={`text-[10px] ${
+                                RISK_LEVEL_STYLES[student.level]
+                              }`}
+                            >
+                              {student.score}
+                            </Badge>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
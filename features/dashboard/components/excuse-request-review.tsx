@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { FileCheck, Paperclip } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useExcuseRequests, useReviewExcuseRequest } from "@/lib/hooks/queries";
+
+interface ReviewExcuseRequest {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  createdAt: string;
+  student: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    studentId: string;
+  };
+  attachments: Array<{ id: string; fileName: string }>;
+}
+
+// Dates are stored at UTC midnight; format them without a timezone shift
+const formatDay = (value: string) =>
+  format(new Date(value.slice(0, 10) + "T00:00:00"), "MMM d, yyyy");
+
+export default function ExcuseRequestReview() {
+  const { data: requests = [], isLoading } = useExcuseRequests({
+    status: "PENDING",
+  });
+  const review = useReviewExcuseRequest();
+  const [rejecting, setRejecting] = useState<ReviewExcuseRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const decide = (
+    request: ReviewExcuseRequest,
+    decision: "APPROVE" | "REJECT",
+    note?: string
+  ) => review.mutateAsync({ requestId: request.id, decision, note });
+
+  const closeReject = () => {
+    setRejecting(null);
+    setRejectReason("");
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !rejectReason.trim()) return;
+    try {
+      await decide(rejecting, "REJECT", rejectReason);
+      closeReject();
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  return (
+    <Card className="border-[#124A69]/20 shadow-sm mb-8 sm:mb-12">
+      <CardHeader className="pb-3 sm:pb-4 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="p-1.5 sm:p-2 bg-[#124A69] rounded-lg">
+            <FileCheck className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+          </div>
+          <CardTitle className="text-sm sm:text-base lg:text-lg font-semibold text-[#124A69]">
+            Excuse Letters
+          </CardTitle>
+          {requests.length > 0 && (
+            <Badge className="bg-[#124A69] text-white">{requests.length}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pb-4 sm:pb-5 lg:pb-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No excuse letters are pending
+          </p>
+        ) : (
+          <div className="divide-y divide-[#124A69]/10">
+            {(requests as ReviewExcuseRequest[]).map((request) => (
+              <div
+                key={request.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {request.student.lastName}, {request.student.firstName} ·{" "}
+                    {request.student.studentId}
+                  </p>
+                  <p className="text-xs text-gray-700">
+                    <span className="font-semibold text-[#124A69]">
+                      {formatDay(request.startDate)}
+                      {request.endDate !== request.startDate &&
+                        ` – ${formatDay(request.endDate)}`}
+                    </span>{" "}
+                    · {request.reason}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+                    {request.attachments.map((attachment) => (
+                      <a
+                        key={attachment.id}
+                        href={`/api/excuse-requests/${request.id}/attachments/${attachment.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-[#124A69] hover:underline max-w-[200px]"
+                      >
+                        <Paperclip className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{attachment.fileName}</span>
+                      </a>
+                    ))}
+                    <span className="text-xs text-muted-foreground">
+                      Filed{" "}
+                      {format(
+                        new Date(request.createdAt),
+                        "MMM d, yyyy h:mm a"
+                      )}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={review.isPending}
+                    onClick={() => setRejecting(request)}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                    disabled={review.isPending}
+                    onClick={() => decide(request, "APPROVE").catch(() => {})}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => !open && closeReject()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject excuse letter</DialogTitle>
+            <DialogDescription>
+              {rejecting &&
+                `${rejecting.student.lastName}, ${
+                  rejecting.student.firstName
+                } · ${formatDay(rejecting.startDate)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Why is this excuse rejected?"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReject}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              disabled={!rejectReason.trim() || review.isPending}
+              onClick={handleReject}
+            >
+              Reject excuse
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { FilePen } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useGradeChangeRequestsForReview,
+  useReviewGradeChangeRequest,
+} from "@/lib/hooks/queries";
+
+interface ReviewChangeRequest {
+  id: string;
+  currentScore: number | null;
+  proposedScore: number | null;
+  reason: string;
+  createdAt: string;
+  student: { id: string; firstName: string; lastName: string };
+  assessment: { id: string; name: string; maxScore: number };
+  course: {
+    slug: string;
+    code: string;
+    section: string;
+    faculty: { id: string; name: string } | null;
+  };
+}
+
+export default function GradeChangeReview() {
+  const { data: requests = [], isLoading } = useGradeChangeRequestsForReview();
+  const review = useReviewGradeChangeRequest();
+  const [rejecting, setRejecting] = useState<ReviewChangeRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const decide = (
+    request: ReviewChangeRequest,
+    decision: "APPROVE" | "REJECT",
+    note?: string
+  ) =>
+    review.mutateAsync({
+      requestId: request.id,
+      courseSlug: request.course.slug,
+      decision,
+      note,
+    });
+
+  const closeReject = () => {
+    setRejecting(null);
+    setRejectReason("");
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !rejectReason.trim()) return;
+    try {
+      await decide(rejecting, "REJECT", rejectReason);
+      closeReject();
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  return (
+    <Card className="border-[#124A69]/20 shadow-sm mb-8 sm:mb-12">
+      <CardHeader className="pb-3 sm:pb-4 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="p-1.5 sm:p-2 bg-[#124A69] rounded-lg">
+            <FilePen className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+          </div>
+          <CardTitle className="text-sm sm:text-base lg:text-lg font-semibold text-[#124A69]">
+            Grade Change Requests
+          </CardTitle>
+          {requests.length > 0 && (
+            <Badge className="bg-[#124A69] text-white">{requests.length}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pb-4 sm:pb-5 lg:pb-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No grade change requests are pending
+          </p>
+        ) : (
+          <div className="divide-y divide-[#124A69]/10">
+            {(requests as ReviewChangeRequest[]).map((request) => (
+              <div
+                key={request.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {request.student.lastName}, {request.student.firstName} ·{" "}
+                    {request.assessment.name}
+                  </p>
+                  <p className="text-xs text-gray-700">
+                    {request.currentScore ?? "-"} →{" "}
+                    <span className="font-semibold text-[#124A69]">
+                      {request.proposedScore ?? "-"}
+                    </span>{" "}
+                    / {request.assessment.maxScore} · {request.reason}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {request.course.code} - {request.course.section} ·{" "}
+                    {request.course.faculty?.name ?? "No faculty"} ·{" "}
+                    {format(new Date(request.createdAt), "MMM d, yyyy h:mm a")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={review.isPending}
+                    onClick={() => setRejecting(request)}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                    disabled={review.isPending}
+                    onClick={() => decide(request, "APPROVE").catch(() => {})}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => !open && closeReject()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject grade change</DialogTitle>
+            <DialogDescription>
+              {rejecting &&
+                `${rejecting.student.lastName}, ${rejecting.student.firstName} · ${rejecting.assessment.name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Why is this change rejected?"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReject}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              disabled={!rejectReason.trim() || review.isPending}
+              onClick={handleReject}
+            >
+              Reject change
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { ClipboardCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useGradeSubmissionsForReview,
+  useTransitionGradeSubmission,
+} from "@/lib/hooks/queries";
+
+interface ReviewSubmission {
+  id: string;
+  term: string;
+  termLabel: string;
+  status: "SUBMITTED" | "APPROVED";
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  note: string | null;
+  course: {
+    id: string;
+    slug: string;
+    code: string;
+    title: string;
+    section: string;
+    faculty: { id: string; name: string } | null;
+  };
+}
+
+export default function GradeSubmissionReview() {
+  const { data: submissions = [], isLoading } = useGradeSubmissionsForReview();
+  const transition = useTransitionGradeSubmission();
+  const [returning, setReturning] = useState<ReviewSubmission | null>(null);
+  const [returnReason, setReturnReason] = useState("");
+
+  const act = (
+    submission: ReviewSubmission,
+    action: "APPROVE" | "RETURN" | "LOCK",
+    note?: string
+  ) =>
+    transition.mutateAsync({
+      courseSlug: submission.course.slug,
+      term: submission.term,
+      action,
+      note,
+    });
+
+  const handleReturn = async () => {
+    if (!returning || !returnReason.trim()) return;
+    try {
+      await act(returning, "RETURN", returnReason);
+      setReturning(null);
+      setReturnReason("");
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  return (
+    <Card className="border-[#124A69]/20 shadow-sm mb-8 sm:mb-12">
+      <CardHeader className="pb-3 sm:pb-4 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="p-1.5 sm:p-2 bg-[#124A69] rounded-lg">
+            <ClipboardCheck className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+          </div>
+          <CardTitle className="text-sm sm:text-base lg:text-lg font-semibold text-[#124A69]">
+            Grade Sheets for Review
+          </CardTitle>
+          {submissions.length > 0 && (
+            <Badge className="bg-[#124A69] text-white">
+              {submissions.length}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pb-4 sm:pb-5 lg:pb-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : submissions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No grade sheets are waiting for review
+          </p>
+        ) : (
+          <div className="divide-y divide-[#124A69]/10">
+            {(submissions as ReviewSubmission[]).map((submission) => (
+              <div
+                key={submission.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {submission.course.code} - {submission.course.section} ·{" "}
+                    {submission.termLabel}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {submission.course.faculty?.name ?? "No faculty"}
+                    {submission.submittedAt &&
+                      ` · submitted ${format(
+                        new Date(submission.submittedAt),
+                        "MMM d, yyyy h:mm a"
+                      )}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {submission.status === "SUBMITTED" ? (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={transition.isPending}
+                        onClick={() => setReturning(submission)}
+                      >
+                        Return
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                        disabled={transition.isPending}
+                        onClick={() =>
+                          act(submission, "APPROVE").catch(() => {})
+                        }
+                      >
+                        Approve
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Badge className="bg-green-50 text-green-700 border-green-200">
+                        Approved
+                      </Badge>
+                      <Button
+                        size="sm"
+                        className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                        disabled={transition.isPending}
+                        onClick={() => act(submission, "LOCK").catch(() => {})}
+                      >
+                        Lock
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!returning}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReturning(null);
+            setReturnReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return grade sheet</DialogTitle>
+            <DialogDescription>
+              {returning &&
+                `${returning.course.code} - ${returning.course.section} · ${returning.termLabel}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={returnReason}
+            onChange={(e) => setReturnReason(e.target.value)}
+            placeholder="What needs to be corrected?"
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setReturning(null);
+                setReturnReason("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              disabled={!returnReason.trim() || transition.isPending}
+              onClick={handleReturn}
+            >
+              Return to faculty
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
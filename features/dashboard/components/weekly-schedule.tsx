@@ -1,8 +1,13 @@
 "use client";
+import { useState } from "react";
 import { useSession } from "next-auth/react";
+import { CalendarPlus, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { CourseSchedule } from "@prisma/client";
 import { ScheduleResponse } from "@/shared/types/schedule";
 import { useFacultySchedules, useActiveCourses } from "@/lib/hooks/queries";
+import { AvailabilityDialog } from "./availability-dialog";
+import { CalendarFeedDialog } from "./calendar-feed-dialog";
 
 const days = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -31,6 +36,8 @@ export default function WeeklySchedule({
   isViewingOtherTeacher = false,
 }: WeeklyScheduleProps) {
   const { data: session, status } = useSession();
+  const [showAvailability, setShowAvailability] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
   const currentDay = new Date().toLocaleDateString("en-US", {
     weekday: "short",
   });
@@ -285,10 +292,44 @@ export default function WeeklySchedule({
 
   return (
     <div className="bg-white rounded-lg shadow-sm min-h-[430px] flex flex-col">
-      <div className="p-4 border-b flex-shrink-0">
+      <div className="p-4 border-b flex-shrink-0 relative">
         <h2 className="text-base sm:text-lg md:text-xl font-bold text-center text-[#124A69]">
           {isViewingOtherTeacher ? "WEEKLY SCHEDULE" : "MY WEEKLY SCHEDULE"}
         </h2>
+        {!isViewingOtherTeacher && (
+          <>
+            <div className="absolute right-4 top-1/2 -translate-y-1/2 flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowCalendarFeed(true)}
+                className="gap-1 text-[#124A69]"
+                title="Subscribe to your schedule from Outlook or another calendar app"
+              >
+                <CalendarPlus className="h-4 w-4" />
+                <span className="hidden md:inline">Subscribe</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAvailability(true)}
+                className="gap-1 text-[#124A69]"
+                title="Declare when you are available to teach"
+              >
+                <Clock className="h-4 w-4" />
+                <span className="hidden md:inline">Availability</span>
+              </Button>
+            </div>
+            <AvailabilityDialog
+              open={showAvailability}
+              onOpenChange={setShowAvailability}
+            />
+            <CalendarFeedDialog
+              open={showCalendarFeed}
+              onOpenChange={setShowCalendarFeed}
+            />
+          </>
+        )}
       </div>
       {schedules.length === 0 ? (
         <div className="p-4 sm:p-6 md:p-8 flex items-center justify-center min-h-[400px] flex-1">
@@ -3,10 +3,12 @@ import React, { useState } from "react";
 import FacultyList from "./faculty-list";
 import WeeklySchedule from "@/features/dashboard/components/weekly-schedule";
 import FacultyDetails from "./faculty-details";
+import FacultyUtilization from "./faculty-utilization";
+import { LoadLimitsDialog } from "./load-limits-dialog";
 import { Role, WorkType } from "@prisma/client";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Filter } from "lucide-react";
+import { Filter, Gauge } from "lucide-react";
 import {
   Sheet,
   SheetContent,
@@ -52,6 +54,8 @@ export default function FacultyLoad() {
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [isNavigatingBack, setIsNavigatingBack] = useState(false);
+  const [view, setView] = useState<"faculty" | "utilization">("faculty");
+  const [isLimitsOpen, setIsLimitsOpen] = useState(false);
   const itemsPerPage = 15;
 
   const handlePageChange = (pageNumber: number) => {
@@ -153,10 +157,39 @@ export default function FacultyLoad() {
               )}
             </div>
 
+            {/* View toggle */}
+            <div className="flex rounded-full border border-gray-200 p-0.5 flex-shrink-0 ml-auto">
+              {(["faculty", "utilization"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setView(option)}
+                  className={`px-3 h-8 text-sm rounded-full transition-colors ${
+                    view === option
+                      ? "bg-[#124A69] text-white"
+                      : "text-[#124A69] hover:bg-gray-100"
+                  }`}
+                >
+                  {option === "faculty" ? "Faculty" : "Utilization"}
+                </button>
+              ))}
+            </div>
+
+            {view === "utilization" && (
+              <Button
+                variant="outline"
+                className="rounded-full flex items-center gap-2 px-2 lg:px-3 h-9 bg-white text-[#124A69] hover:bg-gray-100 border border-gray-200 flex-shrink-0"
+                onClick={() => setIsLimitsOpen(true)}
+              >
+                <Gauge className="h-4 w-4" />
+                <span className="text-sm hidden lg:inline">Load Limits</span>
+              </Button>
+            )}
+
             {/* Filter button */}
             <Button
               variant="outline"
-              className="rounded-full relative flex items-center gap-2 px-2 lg:px-3 h-9 bg-white text-[#124A69] hover:bg-gray-100 border border-gray-200 flex-shrink-0 ml-auto"
+              className="rounded-full relative flex items-center gap-2 px-2 lg:px-3 h-9 bg-white text-[#124A69] hover:bg-gray-100 border border-gray-200 flex-shrink-0"
               onClick={() => handleFilterOpen(true)}
             >
               <Filter className="h-4 w-4" />
@@ -228,6 +261,11 @@ export default function FacultyLoad() {
               </div>
             </SheetContent>
           </Sheet>
+
+          <LoadLimitsDialog
+            open={isLimitsOpen}
+            onOpenChange={setIsLimitsOpen}
+          />
         </div>
       )}
       {/* Main Content Area */}
@@ -245,6 +283,8 @@ export default function FacultyLoad() {
                 isViewingOtherTeacher={true}
               />
             </div>
+          ) : view === "utilization" ? (
+            <FacultyUtilization search={search} departments={sortOption} />
           ) : (
             <FacultyList
               search={search}
@@ -0,0 +1,161 @@
+"use client";
+
+import React from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FacultyUtilization as Utilization } from "@/lib/hooks/queries";
+import { useFacultyUtilization } from "@/lib/hooks/queries";
+import { cn } from "@/lib/utils";
+
+interface FacultyUtilizationProps {
+  search: string;
+  departments: string[];
+}
+
+const WORK_TYPE_LABELS: Record<Utilization["workType"], string> = {
+  FULL_TIME: "Full-time",
+  PART_TIME: "Part-time",
+  CONTRACT: "Contract",
+};
+
+const STATUS_STYLES: Record<
+  Utilization["status"],
+  { label: string; badge: string; bar: string }
+> = {
+  UNDER: {
+    label: "Within limit",
+    badge: "bg-green-100 text-green-700",
+    bar: "bg-[#124A69]",
+  },
+  NEAR: {
+    label: "Near limit",
+    badge: "bg-amber-100 text-amber-700",
+    bar: "bg-amber-500",
+  },
+  OVER: {
+    label: "Over limit",
+    badge: "bg-red-100 text-red-700",
+    bar: "bg-red-500",
+  },
+};
+
+export default function FacultyUtilization({
+  search,
+  departments,
+}: FacultyUtilizationProps) {
+  const { data: faculty = [], isLoading } = useFacultyUtilization();
+
+  const rows = faculty.filter(
+    (member) =>
+      member.name.toLowerCase().includes(search.toLowerCase()) &&
+      (departments.length === 0 || departments.includes(member.department))
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-[#124A69]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Faculty</TableHead>
+            <TableHead>Work Type</TableHead>
+            <TableHead className="text-right">Courses</TableHead>
+            <TableHead className="min-w-[200px]">Hours / Week</TableHead>
+            <TableHead>Availability</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={6}
+                className="py-8 text-center text-muted-foreground"
+              >
+                No faculty found.
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((member) => {
+              const style = STATUS_STYLES[member.status];
+              return (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <div className="font-medium text-[#124A69]">
+                      {member.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {member.department}
+                    </div>
+                  </TableCell>
+                  <TableCell>{WORK_TYPE_LABELS[member.workType]}</TableCell>
+                  <TableCell className="text-right">
+                    {member.courses}
+                    {member.maxCourses !== null && (
+                      <span className="text-gray-500">
+                        {" "}
+                        / {member.maxCourses}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 flex-1 rounded-full bg-gray-100">
+                        <div
+                          className={cn("h-2 rounded-full", style.bar)}
+                          style={{
+                            width: `${Math.min(member.utilization, 100)}%`,
+                          }}
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600 whitespace-nowrap">
+                        {member.scheduledHours} / {member.maxHours}h (
+                        {member.utilization}%)
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {member.availableHours === null ? (
+                      <span className="text-gray-500">Not declared</span>
+                    ) : (
+                      <span>{member.availableHours}h declared</span>
+                    )}
+                    {member.outsideAvailability.length > 0 && (
+                      <div
+                        className="text-xs text-red-600"
+                        title={member.outsideAvailability
+                          .map((c) => `${c.code} - ${c.section}: ${c.slot}`)
+                          .join("\n")}
+                      >
+                        {member.outsideAvailability.length} class meeting(s)
+                        outside
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={style.badge}>{style.label}</Badge>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import {
+  WorkTypeLimits,
+  useTeachingLoadLimits,
+  useUpdateTeachingLoadLimits,
+} from "@/lib/hooks/queries";
+
+const WORK_TYPES: Array<{ value: keyof WorkTypeLimits; label: string }> = [
+  { value: "FULL_TIME", label: "Full-time" },
+  { value: "PART_TIME", label: "Part-time" },
+  { value: "CONTRACT", label: "Contract" },
+];
+
+interface LoadLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LoadLimitsDialog({
+  open,
+  onOpenChange,
+}: LoadLimitsDialogProps) {
+  const [form, setForm] = useState<
+    Record<keyof WorkTypeLimits, { maxHours: string; maxCourses: string }>
+  >({
+    FULL_TIME: { maxHours: "", maxCourses: "" },
+    PART_TIME: { maxHours: "", maxCourses: "" },
+    CONTRACT: { maxHours: "", maxCourses: "" },
+  });
+
+  const { data: limits, isLoading } = useTeachingLoadLimits({ enabled: open });
+  const updateLimits = useUpdateTeachingLoadLimits();
+
+  useEffect(() => {
+    if (open && limits) {
+      setForm({
+        FULL_TIME: {
+          maxHours: String(limits.FULL_TIME.maxHours),
+          maxCourses: limits.FULL_TIME.maxCourses?.toString() ?? "",
+        },
+        PART_TIME: {
+          maxHours: String(limits.PART_TIME.maxHours),
+          maxCourses: limits.PART_TIME.maxCourses?.toString() ?? "",
+        },
+        CONTRACT: {
+          maxHours: String(limits.CONTRACT.maxHours),
+          maxCourses: limits.CONTRACT.maxCourses?.toString() ?? "",
+        },
+      });
+    }
+  }, [open, limits]);
+
+  const isValid = WORK_TYPES.every(({ value }) => {
+    const hours = Number(form[value].maxHours);
+    const courses = form[value].maxCourses;
+    return (
+      hours >= 1 &&
+      hours <= 60 &&
+      (courses === "" ||
+        (Number.isInteger(Number(courses)) && Number(courses) > 0))
+    );
+  });
+
+  const handleSave = async () => {
+    const result = await updateLimits
+      .mutateAsync(
+        WORK_TYPES.map(({ value }) => ({
+          workType: value,
+          maxHours: Number(form[value].maxHours),
+          maxCourses:
+            form[value].maxCourses === ""
+              ? null
+              : Number(form[value].maxCourses),
+        }))
+      )
+      .catch(() => null);
+    if (result) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-[#124A69] text-xl font-bold">
+            Teaching Load Limits
+          </DialogTitle>
+          <DialogDescription className="text-gray-500">
+            Schedules and course reassignments that would take a faculty member
+            past these limits are rejected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-[#124A69]" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3 text-sm font-medium text-gray-700">
+              <span>Work Type</span>
+              <span>Max Hours / Week</span>
+              <span>Max Courses</span>
+            </div>
+            {WORK_TYPES.map(({ value, label }) => (
+              <div key={value} className="grid grid-cols-3 gap-3 items-center">
+                <Label>{label}</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={60}
+                  step={0.5}
+                  value={form[value].maxHours}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      [value]: { ...form[value], maxHours: e.target.value },
+                    })
+                  }
+                  aria-label={`Maximum weekly hours for ${label} faculty`}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={form[value].maxCourses}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      [value]: { ...form[value], maxCourses: e.target.value },
+                    })
+                  }
+                  aria-label={`Maximum courses for ${label} faculty`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isValid || isLoading || updateLimits.isPending}
+            className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+          >
+            {updateLimits.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
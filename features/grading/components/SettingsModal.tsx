@@ -34,6 +34,17 @@ import {
 } from "lucide-react";
 import type { Term, Assessment, TermConfig } from "../types/ClassRecordTable";
 import type { CriteriaOption } from "../types/ClassRecordTable";
+import {
+  useCourseGradingScale,
+  useGradingScales,
+  useSetCourseGradingScale,
+} from "@/lib/hooks/queries";
+import {
+  DEFAULT_TERM_DEFINITIONS,
+  type GradingScaleDefinition,
+  type TermDefinition,
+} from "@/lib/services/grading-engine";
+import { TermStructureEditor } from "./term-structure-editor";
 
 interface StudentScore {
   studentId: string;
@@ -50,6 +61,10 @@ interface SettingsModalProps {
   assessmentScores?: Map<string, StudentScore> | Record<string, StudentScore>;
   onClearScores?: (assessmentId: string, studentIds: string[]) => Promise<void>;
   courseSlug?: string;
+  onGradingScaleChange?: (scale: GradingScaleDefinition) => void;
+  terms?: TermDefinition[];
+  onTermsChange?: (terms: TermDefinition[]) => void;
+  lockedTerms?: string[];
 }
 
 const getTutorialSteps = (savedTerms: Set<Term>): TutorialStep[] => {
@@ -58,7 +73,7 @@ const getTutorialSteps = (savedTerms: Set<Term>): TutorialStep[] => {
       target: "[data-tutorial='term-tabs-settings']",
       title: "Select Term",
       content:
-        "Choose which term to configure. Each term can have different weights and assessments. Start with PRELIM!",
+        "Choose which term to configure. Each term can have different weights and assessments. Start with the first term!",
       placement: "bottom",
       spotlightPadding: 6,
     },
@@ -148,13 +163,13 @@ const getTutorialSteps = (savedTerms: Set<Term>): TutorialStep[] => {
     },
   ];
 
-  // Add conditional steps after PRELIM is saved
-  if (savedTerms.has("PRELIM")) {
+  // Add conditional steps once a term is saved
+  if (savedTerms.size > 0) {
     baseSteps.push({
       target: "[data-tutorial='term-tabs-settings']",
       title: "Access Saved Terms",
       content:
-        "PRELIM saved! Access it in main class record. Save other terms (MIDTERM, PREFINALS, FINALS) to access them.",
+        "Term saved! Access it in main class record. Save the other terms to access them.",
       placement: "bottom",
       spotlightPadding: 6,
     });
@@ -172,8 +187,12 @@ export function SettingsModal({
   assessmentScores = new Map(),
   onClearScores,
   courseSlug,
+  onGradingScaleChange,
+  terms = DEFAULT_TERM_DEFINITIONS,
+  onTermsChange,
+  lockedTerms = [],
 }: SettingsModalProps) {
-  const [activeTerm, setActiveTerm] = useState<Term>("PRELIM");
+  const [activeTerm, setActiveTerm] = useState<Term>(terms[0].key);
   const [termConfigs, setTermConfigs] = useState(initialConfigs);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [showTutorial, setShowTutorial] = useState(false);
@@ -184,6 +203,22 @@ export function SettingsModal({
   const [isSaving, setIsSaving] = useState(false);
   const initialConfigsRef = useRef(initialConfigs);
 
+  // Grading scale the course resolves grades through
+  const { data: courseGradingScale } = useCourseGradingScale(courseSlug || "");
+  const { data: gradingScales = [] } = useGradingScales();
+  const setCourseGradingScale = useSetCourseGradingScale();
+
+  const handleGradingScaleChange = async (gradingScaleId: string | null) => {
+    if (!courseSlug) return;
+    const result = await setCourseGradingScale.mutateAsync({
+      courseSlug,
+      gradingScaleId,
+    });
+    if (result?.gradingScale) {
+      onGradingScaleChange?.(result.gradingScale);
+    }
+  };
+
   // Validation dialogs state
   const [showDeleteAssessmentDialog, setShowDeleteAssessmentDialog] =
     useState(false);
@@ -223,6 +258,9 @@ export function SettingsModal({
       setValidationErrors([]);
       setSavedTerms(new Set());
       initialConfigsRef.current = initialConfigs;
+      setActiveTerm((current) =>
+        terms.some((t) => t.key === current) ? current : terms[0].key
+      );
 
       // Check if user has seen tutorial
       const hasSeenTutorial = localStorage.getItem("didasko-settings-tutorial");
@@ -230,7 +268,7 @@ export function SettingsModal({
         setTimeout(() => setShowTutorial(true), 500);
       }
     }
-  }, [isOpen, initialConfigs]);
+  }, [isOpen, initialConfigs, terms]);
 
   // Check if current term has unsaved changes
   const hasUnsavedChanges = (term: Term): boolean => {
@@ -304,9 +342,7 @@ export function SettingsModal({
   // Handle close button click
   const handleClose = () => {
     // Check if there are unsaved changes in any term
-    const hasAnyUnsaved = (
-      ["PRELIM", "MIDTERM", "PREFINALS", "FINALS"] as const
-    ).some((term) => hasUnsavedChanges(term));
+    const hasAnyUnsaved = terms.some((term) => hasUnsavedChanges(term.key));
 
     if (hasAnyUnsaved) {
       setIsClosing(true);
@@ -1137,43 +1173,89 @@ export function SettingsModal({
           </div>
         )}
 
+        {/* Grading Scale */}
+        {courseSlug && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 px-4 sm:px-6 py-2 sm:py-3 border-b bg-gray-50">
+            <label
+              htmlFor="course-grading-scale"
+              className="text-xs sm:text-sm font-medium text-[#124A69]"
+            >
+              Grading Scale
+            </label>
+            <select
+              id="course-grading-scale"
+              value={courseGradingScale?.gradingScaleId ?? ""}
+              disabled={setCourseGradingScale.isPending}
+              onChange={(e) =>
+                handleGradingScaleChange(e.target.value || null).catch(() => {})
+              }
+              className="flex-1 sm:max-w-xs px-2 py-1.5 border border-gray-300 rounded text-xs sm:text-sm"
+            >
+              <option value="">
+                {courseGradingScale && !courseGradingScale.gradingScaleId
+                  ? `Default (${courseGradingScale.gradingScale.name})`
+                  : "Default"}
+              </option>
+              {gradingScales.map((scale: any) => (
+                <option key={scale.id} value={scale.id}>
+                  {scale.name}
+                  {scale.department ? ` (${scale.department})` : ""}
+                </option>
+              ))}
+            </select>
+            {courseGradingScale?.gradingScale && (
+              <span className="text-xs text-gray-500">
+                Passing grade: {courseGradingScale.gradingScale.passingGrade}
+                {courseGradingScale.gradingScale.lowerIsBetter
+                  ? " or better (lower)"
+                  : " or better (higher)"}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Term Structure */}
+        {courseSlug && (
+          <TermStructureEditor
+            courseSlug={courseSlug}
+            terms={terms}
+            onTermsChange={onTermsChange}
+          />
+        )}
+
         {/* Term Tabs */}
         <div
           className="flex border-b overflow-x-auto"
           data-tutorial="term-tabs-settings"
         >
-          {(["PRELIM", "MIDTERM", "PREFINALS", "FINALS"] as const).map(
-            (term) => {
-              const termErrors = validationErrors.filter((e) =>
-                e.startsWith(term)
-              );
-              const isSaved = savedTerms.has(term);
-              return (
-                <button
-                  key={term}
-                  onClick={() => handleTermChange(term)}
-                  className={`relative px-3 sm:px-4 md:px-6 py-2 sm:py-3 text-xs sm:text-sm font-medium whitespace-nowrap ${
-                    term === activeTerm
-                      ? "text-[#124A69] border-b-2 border-[#124A69]"
-                      : "text-gray-500 hover:text-gray-700"
-                  }`}
-                >
-                  {term}
-                  {termErrors.length > 0 && (
-                    <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
-                  )}
-                  {isSaved && !termErrors.length && (
-                    <span className="absolute top-1 right-1 w-2 h-2 bg-green-500 rounded-full"></span>
-                  )}
-                  {hasUnsavedChanges(term) &&
-                    !isSaved &&
-                    !termErrors.length && (
-                      <span className="absolute top-1 right-1 w-2 h-2 bg-yellow-500 rounded-full"></span>
-                    )}
-                </button>
-              );
-            }
-          )}
+          {terms.map(({ key: term, label }) => {
+            const termErrors = validationErrors.filter((e) =>
+              e.startsWith(term)
+            );
+            const isSaved = savedTerms.has(term);
+            return (
+              <button
+                key={term}
+                onClick={() => handleTermChange(term)}
+                className={`relative px-3 sm:px-4 md:px-6 py-2 sm:py-3 text-xs sm:text-sm font-medium whitespace-nowrap ${
+                  term === activeTerm
+                    ? "text-[#124A69] border-b-2 border-[#124A69]"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {label.toUpperCase()}
+                {termErrors.length > 0 && (
+                  <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
+                )}
+                {isSaved && !termErrors.length && (
+                  <span className="absolute top-1 right-1 w-2 h-2 bg-green-500 rounded-full"></span>
+                )}
+                {hasUnsavedChanges(term) && !isSaved && !termErrors.length && (
+                  <span className="absolute top-1 right-1 w-2 h-2 bg-yellow-500 rounded-full"></span>
+                )}
+              </button>
+            );
+          })}
         </div>
 
         {/* Content */}
@@ -1957,7 +2039,11 @@ export function SettingsModal({
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-0 px-4 sm:px-6 py-3 sm:py-4 border-t bg-gray-50">
           <div className="text-xs sm:text-sm text-gray-600">
             <AlertCircle className="inline w-3 h-3 sm:w-4 sm:h-4 mr-1" />
-            {savedTerms.has(activeTerm) ? (
+            {lockedTerms.includes(activeTerm) ? (
+              <span className="flex items-center gap-2 text-[#124A69]">
+                {activeTerm} is locked and can no longer be changed
+              </span>
+            ) : savedTerms.has(activeTerm) ? (
               <span className="flex items-center gap-2 text-green-600">
                 <span className="w-2 h-2 bg-green-500 rounded-full"></span>
                 {activeTerm} saved
@@ -1978,8 +2064,9 @@ export function SettingsModal({
               data-tutorial="term-save-button"
               disabled={
                 isSaving ||
+                lockedTerms.includes(activeTerm) ||
                 (!hasUnsavedChanges(activeTerm) &&
-                  activeTerm !== "PRELIM" &&
+                  activeTerm !== terms[0]?.key &&
                   savedTerms.has(activeTerm))
               }
               className="flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-1.5 sm:py-2 rounded-lg bg-[#124A69] text-white hover:bg-[#0D3A54] text-xs sm:text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
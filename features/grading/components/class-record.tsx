@@ -4,7 +4,6 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "react-hot-toast";
 import { gradingService } from "@/lib/services/client";
 import React from "react";
-import { saveAs } from "file-saver";
 import {
   Search,
   Loader2,
@@ -14,6 +13,7 @@ import {
   Lightbulb,
   ArrowRight,
   ArrowLeft,
+  FilePen,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { Input } from "@/components/ui/input";
@@ -26,9 +26,32 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { SettingsModal } from "./SettingsModal";
+import { GradeSubmissionBar } from "./grade-submission-bar";
+import {
+  GradeChangeRequestDialog,
+  GradeChangeTarget,
+} from "./grade-change-request-dialog";
+import {
+  useExportRunner,
+  useGradeChangeRequests,
+  useGradeSubmissions,
+} from "@/lib/hooks/queries";
+import type { GradeSubmissionSummary } from "../types/ClassRecordTable";
+import {
+  computeFinalGrade as computeEngineFinalGrade,
+  computeTermGrade as computeEngineTermGrade,
+  DEFAULT_GRADING_SCALE,
+  DEFAULT_TERM_DEFINITIONS,
+  getEffectiveScore as getEngineEffectiveScore,
+  getTermWeights,
+  GradingScaleDefinition,
+  percent,
+  TermDefinition,
+  TermGradeResult,
+  transmuteScore,
+} from "@/lib/services/grading-engine";
 // Dynamic imports for heavy libraries (code-split)
 import PasteGradesModal from "./paste-grades";
-import ExcelJS from "exceljs";
 import SplitText from "@/components/ui/SplitText";
 import AnimatedContent from "@/components/ui/AnimatedContent";
 import CustomTutorial, { TutorialStep } from "@/components/ui/CustomTutorial";
@@ -41,6 +64,7 @@ import {
 } from "@/components/ui/svdialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import {
   Select,
   SelectContent,
@@ -85,7 +109,7 @@ const tutorialSteps: TutorialStep[] = [
     target: "[data-tutorial='term-tabs']",
     title: "Switch Terms",
     content:
-      "Navigate between Prelims, Midterm, Pre-Finals, Finals, and Summary. Each term has separate grades.",
+      "Navigate between the course terms and the Summary. Each term has separate grades.",
     placement: "bottom",
     spotlightPadding: 6,
   },
@@ -99,8 +123,8 @@ const tutorialSteps: TutorialStep[] = [
   },
 ];
 
-const TERMS = ["PRELIM", "MIDTERM", "PREFINALS", "FINALS", "SUMMARY"] as const;
-type Term = (typeof TERMS)[number];
+// A course term key (see the course's term list) or "SUMMARY"
+type Term = string;
 
 interface Assessment {
   id: string;
@@ -129,6 +153,7 @@ interface StudentScore {
   score: number | null;
   rawScores?: number[];
   criteriaId?: string;
+  peerMultiplier?: number | null;
 }
 
 interface Student {
@@ -178,6 +203,8 @@ interface ClassRecordData {
       rubrics: Array<{ percentage: number }>;
     }
   >;
+  gradingScale?: GradingScaleDefinition;
+  terms?: TermDefinition[];
 }
 
 interface ClassRecordTableProps {
@@ -189,46 +216,58 @@ interface ClassRecordTableProps {
   initialData?: ClassRecordData;
 }
 
-const TERM_WEIGHTS = {
-  PRELIM: 0.2,
-  MIDTERM: 0.2,
-  PREFINALS: 0.2,
-  FINALS: 0.4,
-} as const;
-
-function percent(score: number | null, max: number | null): number | null {
-  if (score == null || max == null || max <= 0) return null;
-  return Math.max(0, Math.min(100, (score / max) * 100));
-}
-
-function transmuteScore(
-  rawScore: number | null,
-  maxScore: number,
-  base: number
-): number | null {
-  // If base is 0, no transmutation (raw score stays the same)
-  if (base === 0 || rawScore === null) return rawScore;
-
-  // New formula: (raw_score / max_score) * (base% of max_score) + (remaining% of max_score)
-  // Simplified: raw_score * (base/100) + ((100 - base)/100) * max_score
-  const basePercentage = base / 100;
-  const remainingPercentage = (100 - base) / 100;
-  const transmuted = rawScore * basePercentage + remainingPercentage * maxScore;
-
-  return transmuted;
+// Starter configuration for a term that has not been saved yet
+function createDefaultTermConfig(term: string, index: number): TermConfig {
+  const n = index + 1;
+  return {
+    id: term.toLowerCase(),
+    term,
+    ptWeight: 30,
+    quizWeight: 20,
+    examWeight: 50,
+    assessments: [
+      {
+        id: `pt${n}`,
+        name: "PT1",
+        type: "PT",
+        maxScore: 50,
+        date: null,
+        enabled: true,
+        order: 0,
+      },
+      {
+        id: `q${n}`,
+        name: "QUIZ1",
+        type: "QUIZ",
+        maxScore: 20,
+        date: null,
+        enabled: true,
+        order: 0,
+      },
+      {
+        id: `exam${n}`,
+        name: "Exam",
+        type: "EXAM",
+        maxScore: 100,
+        date: null,
+        enabled: true,
+        order: 0,
+      },
+    ],
+  };
 }
 
-function getNumericGrade(totalPercent: number): string {
-  if (totalPercent >= 97.5) return "1.00";
-  if (totalPercent >= 94.5) return "1.25";
-  if (totalPercent >= 91.5) return "1.50";
-  if (totalPercent >= 86.5) return "1.75";
-  if (totalPercent >= 81.5) return "2.00";
-  if (totalPercent >= 76.0) return "2.25";
-  if (totalPercent >= 70.5) return "2.50";
-  if (totalPercent >= 65.0) return "2.75";
-  if (totalPercent >= 59.5) return "3.00";
-  return "5.00";
+// One config per course term: saved configs first, starter configs for the rest
+function buildTermConfigs(
+  terms: TermDefinition[],
+  saved: Record<string, TermConfig>
+): Record<string, TermConfig> {
+  const configs: Record<string, TermConfig> = {};
+  terms.forEach((term, index) => {
+    configs[term.key] =
+      saved[term.key] ?? createDefaultTermConfig(term.key, index);
+  });
+  return configs;
 }
 
 function getScoreStyle(score: number | null, max: number | null): string {
@@ -255,160 +294,18 @@ export function ClassRecordTable({
   courseSlug,
   courseCode,
   courseSection,
-  courseTitle,
-  courseNumber,
   initialData,
 }: ClassRecordTableProps) {
   const [loading, setLoading] = useState(false);
   const [students, setStudents] = useState<Student[]>([]);
   const [isPasteModalOpen, setIsPasteModalOpen] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
-  const [termConfigs, setTermConfigs] = useState<Record<string, TermConfig>>({
-    PRELIM: {
-      id: "prelims",
-      term: "PRELIM",
-      ptWeight: 30,
-      quizWeight: 20,
-      examWeight: 50,
-      assessments: [
-        {
-          id: "pt1",
-          name: "PT1",
-          type: "PT",
-          maxScore: 50,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "q1",
-          name: "Q1",
-          type: "QUIZ",
-          maxScore: 20,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "exam1",
-          name: "Exam",
-          type: "EXAM",
-          maxScore: 100,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-      ],
-    },
-    MIDTERM: {
-      id: "midterm",
-      term: "MIDTERM",
-      ptWeight: 30,
-      quizWeight: 20,
-      examWeight: 50,
-      assessments: [
-        {
-          id: "pt2",
-          name: "PT1",
-          type: "PT",
-          maxScore: 50,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "q2",
-          name: "QUIZ1",
-          type: "QUIZ",
-          maxScore: 20,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "exam2",
-          name: "Exam",
-          type: "EXAM",
-          maxScore: 100,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-      ],
-    },
-    PREFINALS: {
-      id: "prefinals",
-      term: "PREFINALS",
-      ptWeight: 30,
-      quizWeight: 20,
-      examWeight: 50,
-      assessments: [
-        {
-          id: "pt3",
-          name: "PT1",
-          type: "PT",
-          maxScore: 50,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "q3",
-          name: "QUIZ1",
-          type: "QUIZ",
-          maxScore: 20,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "exam3",
-          name: "Exam",
-          type: "EXAM",
-          maxScore: 100,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-      ],
-    },
-    FINALS: {
-      id: "finals",
-      term: "FINALS",
-      ptWeight: 30,
-      quizWeight: 20,
-      examWeight: 50,
-      assessments: [
-        {
-          id: "pt4",
-          name: "PT1",
-          type: "PT",
-          maxScore: 50,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "q4",
-          name: "QUIZ1",
-          type: "QUIZ",
-          maxScore: 20,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-        {
-          id: "exam4",
-          name: "Exam",
-          type: "EXAM",
-          maxScore: 100,
-          date: null,
-          enabled: true,
-          order: 0,
-        },
-      ],
-    },
-  });
+  const [courseTerms, setCourseTerms] = useState<TermDefinition[]>(
+    DEFAULT_TERM_DEFINITIONS
+  );
+  const [termConfigs, setTermConfigs] = useState<Record<string, TermConfig>>(
+    () => buildTermConfigs(DEFAULT_TERM_DEFINITIONS, {})
+  );
   const [availableCriteria, setAvailableCriteria] = useState<CriteriaOption[]>(
     []
   );
@@ -422,8 +319,13 @@ export function ClassRecordTable({
       }
     >
   >({});
+  const [gradingScale, setGradingScale] = useState<GradingScaleDefinition>(
+    DEFAULT_GRADING_SCALE
+  );
   const [search, setSearch] = useState("");
-  const [activeTerm, setActiveTerm] = useState<Term>("PRELIM");
+  const [activeTerm, setActiveTerm] = useState<Term>(
+    DEFAULT_TERM_DEFINITIONS[0].key
+  );
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(7);
@@ -440,6 +342,48 @@ export function ClassRecordTable({
 
   const router = useRouter();
 
+  const termWeights = useMemo(() => getTermWeights(courseTerms), [courseTerms]);
+  const getTermLabel = (term: Term) =>
+    courseTerms.find((t) => t.key === term)?.label ?? term;
+
+  // Grade sheets under review or locked are read-only (the server rejects
+  // their writes too)
+  const { data: gradeSubmissions = [] } = useGradeSubmissions(courseSlug);
+  const lockedTerms = useMemo(
+    () =>
+      (gradeSubmissions as GradeSubmissionSummary[])
+        .filter((submission) =>
+          ["SUBMITTED", "APPROVED", "LOCKED"].includes(submission.status)
+        )
+        .map((submission) => submission.term),
+    [gradeSubmissions]
+  );
+  const isTermLocked = (term: Term) => lockedTerms.includes(term);
+
+  // Pending grade change requests, keyed like scores (studentId:assessmentId)
+  const { data: gradeChangeRequests = [] } = useGradeChangeRequests(courseSlug);
+  const pendingChanges = useMemo(() => {
+    const map = new Map<string, any>();
+    gradeChangeRequests.forEach((request: any) => {
+      map.set(`${request.studentId}:${request.assessmentId}`, request);
+    });
+    return map;
+  }, [gradeChangeRequests]);
+  const [changeTarget, setChangeTarget] = useState<GradeChangeTarget | null>(
+    null
+  );
+
+  // Term list edited in settings: keep configs of surviving terms, add starters for new ones
+  const handleTermsChange = (terms: TermDefinition[]) => {
+    setCourseTerms(terms);
+    setTermConfigs((prev) => buildTermConfigs(terms, prev));
+    setActiveTerm((current) =>
+      current === "SUMMARY" || terms.some((t) => t.key === current)
+        ? current
+        : terms[0].key
+    );
+  };
+
   const pendingScoresRef = useRef<
     Map<
       string,
@@ -460,13 +404,23 @@ export function ClassRecordTable({
     const initializeData = (classRecordData: ClassRecordData) => {
       const studentList = classRecordData.students || [];
       setStudents(studentList);
+      const terms = classRecordData.terms?.length
+        ? classRecordData.terms
+        : DEFAULT_TERM_DEFINITIONS;
+      setCourseTerms(terms);
+      setActiveTerm((current) =>
+        current === "SUMMARY" || terms.some((t) => t.key === current)
+          ? current
+          : terms[0].key
+      );
       if (
         classRecordData.termConfigs &&
         Object.keys(classRecordData.termConfigs).length > 0
       ) {
-        setTermConfigs(classRecordData.termConfigs);
+        setTermConfigs(buildTermConfigs(terms, classRecordData.termConfigs));
         setHasTermConfigs(true);
       } else {
+        setTermConfigs(buildTermConfigs(terms, {}));
         setHasTermConfigs(false);
       }
       // Convert assessment scores object to Map format
@@ -481,6 +435,7 @@ export function ClassRecordTable({
             // ✅ Store raw scores and criteriaId for linked criteria
             rawScores: value.rawScores,
             criteriaId: value.criteriaId,
+            peerMultiplier: value.peerMultiplier,
           });
         }
       );
@@ -490,6 +445,7 @@ export function ClassRecordTable({
       if (classRecordData.criteriaMetadata) {
         setCriteriaMetadata(classRecordData.criteriaMetadata);
       }
+      setGradingScale(classRecordData.gradingScale ?? DEFAULT_GRADING_SCALE);
       const {
         recitations = [],
         groupReportings = [],
@@ -736,11 +692,6 @@ export function ClassRecordTable({
     (a) => a.type === "EXAM" && a.enabled
   );
 
-  const getScore = (studentId: string, assessmentId: string): number | null => {
-    const result = scores.get(`${studentId}:${assessmentId}`);
-    return result?.score ?? null;
-  };
-
   const getLinkedCriteriaScore = (
     studentId: string,
     criteriaId: string
@@ -749,92 +700,16 @@ export function ClassRecordTable({
     return student?.score ?? null;
   };
 
-  /**
-   * Calculate weighted percentage from raw rubric scores
-   * Uses the same formula as grading-table.tsx calculateTotal
-   */
-  const calculateWeightedPercentage = (
-    rawScores: number[] | null | undefined,
-    rubrics: Array<{ percentage: number }>,
-    scoringRange: number
-  ): number => {
-    if (
-      !rawScores ||
-      !Array.isArray(rawScores) ||
-      !rubrics ||
-      rubrics.length === 0
-    )
-      return 0;
-
-    // Ensure we only use scores up to the number of rubrics
-    const validScores = rawScores.slice(0, rubrics.length);
-
-    // Calculate weighted percentage for each rubric
-    const weightedScores = validScores.map((score, index) => {
-      const weight = rubrics[index]?.percentage || 0;
-      // Convert score to percentage based on max score, then apply weight
-      return (score / scoringRange) * weight;
-    });
-
-    // Sum up all weighted scores and round to 2 decimal places
-    const total = Number(
-      weightedScores.reduce((sum, score) => sum + score, 0).toFixed(2)
-    );
-
-    return total;
-  };
-
-  /**
-   * Get the true score (not percentage) from linked criteria
-   */
-  const getTrueScoreFromCriteria = (
-    studentId: string,
-    criteriaId: string,
-    assessmentMaxScore: number
-  ): number | null => {
-    const gradeData = scores.get(`${studentId}:criteria:${criteriaId}`);
-    if (!gradeData) return null;
-
-    // Get raw scores and criteria metadata
-    const rawScores = gradeData.rawScores;
-    const criteriaMeta = criteriaMetadata?.[criteriaId];
-
-    // Ensure rawScores is an array
-    const scoresArray = Array.isArray(rawScores) ? rawScores : null;
-
-    if (!scoresArray || !criteriaMeta) {
-      // Fallback: use percentage if raw scores not available
-      const percentage = gradeData.score;
-      if (percentage === null) return null;
-      return Math.round((percentage / 100) * assessmentMaxScore * 100) / 100;
-    }
-
-    // Calculate weighted percentage from raw scores
-    const weightedPercentage = calculateWeightedPercentage(
-      scoresArray,
-      criteriaMeta.rubrics,
-      criteriaMeta.scoringRange
-    );
-
-    // Convert percentage to actual score
-    const trueScore = (weightedPercentage / 100) * assessmentMaxScore;
-    return Math.round(trueScore * 100) / 100;
-  };
-
   const getEffectiveScore = (
     studentId: string,
     assessment: Assessment
-  ): number | null => {
-    if (assessment.linkedCriteriaId) {
-      // ✅ Use new function to get true score from raw rubric scores
-      return getTrueScoreFromCriteria(
-        studentId,
-        assessment.linkedCriteriaId,
-        assessment.maxScore
-      );
-    }
-    return getScore(studentId, assessment.id);
-  };
+  ): number | null =>
+    getEngineEffectiveScore(
+      studentId,
+      assessment,
+      (key) => scores.get(key),
+      criteriaMetadata
+    );
 
   const setScore = (
     studentId: string,
@@ -853,6 +728,11 @@ export function ClassRecordTable({
       }
     }
 
+    if (isTermLocked(activeTerm)) {
+      notifyOnce(`${getTermLabel(activeTerm)} grades are locked.`);
+      return;
+    }
+
     const key = `${studentId}:${assessmentId}`;
     const updated = new Map(scores);
     if (score === null) {
@@ -928,209 +808,60 @@ export function ClassRecordTable({
       }
     };
 
-  const computeTermGrade = (studentId: string, term: Term) => {
+  // Term/final grades come from the shared grading engine (same math as the server)
+  const getTermResult = (
+    studentId: string,
+    term: Term
+  ): TermGradeResult | null => {
     const config = termConfigs[term];
     if (!config) return null;
-    const ptAssessments = config.assessments.filter(
-      (a) => a.type === "PT" && a.enabled
-    );
-    const quizAssessments = config.assessments.filter(
-      (a) => a.type === "QUIZ" && a.enabled
-    );
-    const examAssessment = config.assessments.find(
-      (a) => a.type === "EXAM" && a.enabled
+    return computeEngineTermGrade(
+      config,
+      studentId,
+      (key) => scores.get(key),
+      criteriaMetadata,
+      gradingScale
     );
-    // Check if any score exceeds max score
-    let hasScoreExceedingMax = false;
-
-    // Apply transmutation to raw scores before calculating percentages (per-assessment)
-    let ptPercentages: number[] = [];
-    ptAssessments.forEach((pt) => {
-      const rawScore = getEffectiveScore(studentId, pt);
-      // For linked assessments, if no score exists, treat as 0 for computation
-      const scoreForComputation =
-        rawScore === null && pt.linkedCriteriaId ? 0 : rawScore;
-      // Check if raw score exceeds max score
-      if (scoreForComputation !== null && scoreForComputation > pt.maxScore) {
-        hasScoreExceedingMax = true;
-      }
-      // Apply transmutation using assessment's own transmutationBase
-      const transmutedScore = transmuteScore(
-        scoreForComputation,
-        pt.maxScore,
-        pt.transmutationBase ?? 0
-      );
-      if (transmutedScore !== null) {
-        const pct = percent(transmutedScore, pt.maxScore);
-        if (pct !== null) ptPercentages.push(pct);
-      }
-    });
-    let quizPercentages: number[] = [];
-    quizAssessments.forEach((quiz) => {
-      const rawScore = getEffectiveScore(studentId, quiz);
-      // For linked assessments, if no score exists, treat as 0 for computation
-      const scoreForComputation =
-        rawScore === null && quiz.linkedCriteriaId ? 0 : rawScore;
-      // Check if raw score exceeds max score
-      if (scoreForComputation !== null && scoreForComputation > quiz.maxScore) {
-        hasScoreExceedingMax = true;
-      }
-      // Apply transmutation using assessment's own transmutationBase
-      const transmutedScore = transmuteScore(
-        scoreForComputation,
-        quiz.maxScore,
-        quiz.transmutationBase ?? 0
-      );
-      if (transmutedScore !== null) {
-        const pct = percent(transmutedScore, quiz.maxScore);
-        if (pct !== null) quizPercentages.push(pct);
-      }
-    });
-    let examPercentage: number | null = null;
-    if (examAssessment) {
-      const rawExamScore = getEffectiveScore(studentId, examAssessment);
-      // For linked assessments, if no score exists, treat as 0 for computation
-      const scoreForComputation =
-        rawExamScore === null && examAssessment.linkedCriteriaId
-          ? 0
-          : rawExamScore;
-      // Check if raw score exceeds max score
-      if (
-        scoreForComputation !== null &&
-        scoreForComputation > examAssessment.maxScore
-      ) {
-        hasScoreExceedingMax = true;
-      }
-      // Apply transmutation using assessment's own transmutationBase
-      const transmutedExamScore = transmuteScore(
-        scoreForComputation,
-        examAssessment.maxScore,
-        examAssessment.transmutationBase ?? 0
-      );
-      if (transmutedExamScore !== null) {
-        examPercentage = percent(transmutedExamScore, examAssessment.maxScore);
-      }
-    }
-    // CRITICAL FIX: Divide by actual number of scores, not total assessments
-    // If a student has scores for 2 out of 3 PT assessments, divide by 2, not 3
-    const ptAvg =
-      ptPercentages.length > 0
-        ? ptPercentages.reduce((a, b) => a + b, 0) / ptPercentages.length
-        : null;
-    const quizAvg =
-      quizPercentages.length > 0
-        ? quizPercentages.reduce((a, b) => a + b, 0) / quizPercentages.length
-        : null;
-
-    // Calculate weighted scores independently:
-    // PT weighted is calculated if ALL PT assessments have scores
-    // Quiz weighted is calculated if ALL Quiz assessments have scores
-    // Exam weighted is calculated if Exam has a score
-    const hasAllPTScores =
-      ptAssessments.length === 0 ||
-      (ptPercentages.length === ptAssessments.length && ptAvg !== null);
-    const hasAllQuizScores =
-      quizAssessments.length === 0 ||
-      (quizPercentages.length === quizAssessments.length && quizAvg !== null);
-    const hasExamScore = !examAssessment || examPercentage !== null;
-
-    const ptWeighted =
-      hasAllPTScores && ptAvg !== null ? (ptAvg / 100) * config.ptWeight : null;
-    const quizWeighted =
-      hasAllQuizScores && quizAvg !== null
-        ? (quizAvg / 100) * config.quizWeight
-        : null;
-    const examWeighted =
-      hasExamScore && examPercentage !== null
-        ? (examPercentage / 100) * config.examWeight
-        : null;
-
-    // Only calculate total if we have all required scores
-    // If PT assessments exist, we need ALL PT scores
-    // If Quiz assessments exist, we need ALL Quiz scores
-    // If Exam assessment exists, we need Exam score
-    const hasRequiredPTScores =
-      ptAssessments.length === 0 || ptWeighted !== null;
-    const hasRequiredQuizScores =
-      quizAssessments.length === 0 || quizWeighted !== null;
-    const hasRequiredExamScore = !examAssessment || examWeighted !== null;
-
-    // Calculate total only if all required components are present
-    const totalPercent =
-      hasRequiredPTScores && hasRequiredQuizScores && hasRequiredExamScore
-        ? (ptWeighted ?? 0) + (quizWeighted ?? 0) + (examWeighted ?? 0)
-        : null;
+  };
+
+  const computeTermGrade = (studentId: string, term: Term) => {
+    const result = getTermResult(studentId, term);
+    if (!result) return null;
+    const format = (value: number | null) =>
+      value !== null ? value.toFixed(2) : "-";
 
     return {
-      totalPercent: totalPercent !== null ? totalPercent.toFixed(2) : "-",
+      totalPercent: format(result.totalPercent),
       numericGrade:
-        totalPercent !== null
-          ? hasScoreExceedingMax
+        result.totalPercent !== null
+          ? result.hasScoreExceedingMax
             ? "(error)"
-            : getNumericGrade(totalPercent)
+            : result.gradeLabel ?? "-"
           : "-",
-      ptWeighted: ptWeighted !== null ? ptWeighted.toFixed(2) : "-",
-      quizWeighted: quizWeighted !== null ? quizWeighted.toFixed(2) : "-",
-      examWeighted: examWeighted !== null ? examWeighted.toFixed(2) : "-",
+      failed: result.remarks === "FAILED",
+      ptWeighted: format(result.ptWeighted),
+      quizWeighted: format(result.quizWeighted),
+      examWeighted: format(result.examWeighted),
     };
   };
 
   const computeFinalGrade = (studentId: string) => {
-    const prelimGrade = computeTermGrade(studentId, "PRELIM");
-    const midtermGrade = computeTermGrade(studentId, "MIDTERM");
-    const preFinalsGrade = computeTermGrade(studentId, "PREFINALS");
-    const finalsGrade = computeTermGrade(studentId, "FINALS");
-    if (!prelimGrade || !midtermGrade || !preFinalsGrade || !finalsGrade)
-      return null;
-
-    // Check if any term grade is invalid (has "-" or is NaN)
-    const prelimPercent = parseFloat(prelimGrade.totalPercent);
-    const midtermPercent = parseFloat(midtermGrade.totalPercent);
-    const preFinalsPercent = parseFloat(preFinalsGrade.totalPercent);
-    const finalsPercent = parseFloat(finalsGrade.totalPercent);
-
-    const prelimNum = parseFloat(prelimGrade.numericGrade);
-    const midtermNum = parseFloat(midtermGrade.numericGrade);
-    const preFinalsNum = parseFloat(preFinalsGrade.numericGrade);
-    const finalsNum = parseFloat(finalsGrade.numericGrade);
-
-    // If any term grade is invalid (NaN or "-"), return null
-    if (
-      isNaN(prelimNum) ||
-      isNaN(midtermNum) ||
-      isNaN(preFinalsNum) ||
-      isNaN(finalsNum) ||
-      prelimGrade.numericGrade === "-" ||
-      midtermGrade.numericGrade === "-" ||
-      preFinalsGrade.numericGrade === "-" ||
-      finalsGrade.numericGrade === "-"
-    ) {
-      return null;
-    }
+    const termResults: Record<string, TermGradeResult | null> = {};
+    courseTerms.forEach((term) => {
+      termResults[term.key] = getTermResult(studentId, term.key);
+    });
 
-    // Calculate final percentage (weighted average of term percentages)
-    const finalPercentage =
-      prelimPercent * TERM_WEIGHTS.PRELIM +
-      midtermPercent * TERM_WEIGHTS.MIDTERM +
-      preFinalsPercent * TERM_WEIGHTS.PREFINALS +
-      finalsPercent * TERM_WEIGHTS.FINALS;
-
-    // Calculate final numeric grade (weighted average of term numeric grades)
-    const finalNumericGrade =
-      prelimNum * TERM_WEIGHTS.PRELIM +
-      midtermNum * TERM_WEIGHTS.MIDTERM +
-      preFinalsNum * TERM_WEIGHTS.PREFINALS +
-      finalsNum * TERM_WEIGHTS.FINALS;
-
-    // Double-check the results are valid
-    if (isNaN(finalPercentage) || isNaN(finalNumericGrade)) {
-      return null;
-    }
+    const finalGrade = computeEngineFinalGrade(
+      termResults,
+      termWeights,
+      gradingScale
+    );
+    if (!finalGrade) return null;
 
     return {
-      percentage: finalPercentage.toFixed(2),
-      grade: finalNumericGrade.toFixed(2),
-      remarks: finalNumericGrade <= 3.0 ? "PASSED" : "FAILED",
+      percentage: finalGrade.percentage.toFixed(2),
+      grade: finalGrade.label,
+      remarks: finalGrade.remarks,
     };
   };
 
@@ -1165,16 +896,61 @@ export function ClassRecordTable({
   // Dispatch custom event when activeTerm changes to sync with leaderboard
   useEffect(() => {
     const event = new CustomEvent("classRecordTermChanged", {
-      detail: { courseSlug, activeTerm },
+      detail: {
+        courseSlug,
+        activeTerm,
+        activeTermLabel: courseTerms.find((t) => t.key === activeTerm)?.label,
+      },
     });
     window.dispatchEvent(event);
-  }, [activeTerm, courseSlug]);
+  }, [activeTerm, courseSlug, courseTerms]);
 
   const studentName = (s: Student) =>
     `${s.lastName}, ${s.firstName}${
       s.middleInitial ? ` ${s.middleInitial}.` : ""
     }`;
 
+  // Pending correction badge, or a request button on locked terms
+  const renderGradeChangeMarker = (
+    student: Student,
+    assessment: Assessment
+  ) => {
+    const pending = pendingChanges.get(`${student.id}:${assessment.id}`);
+    if (pending) {
+      return (
+        <span
+          className="absolute top-0 right-0 px-1 rounded-bl text-[10px] leading-4 bg-amber-100 text-amber-800"
+          title={`Pending change: ${pending.currentScore ?? "-"} → ${
+            pending.proposedScore ?? "-"
+          }\nReason: ${pending.reason}`}
+        >
+          → {pending.proposedScore ?? "-"}
+        </span>
+      );
+    }
+    if (!isTermLocked(activeTerm) || assessment.linkedCriteriaId) return null;
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setChangeTarget({
+            studentId: student.id,
+            studentName: studentName(student),
+            assessmentId: assessment.id,
+            assessmentName: assessment.name,
+            maxScore: assessment.maxScore,
+            currentScore:
+              scores.get(`${student.id}:${assessment.id}`)?.score ?? null,
+          });
+        }}
+        className="absolute top-0 right-0 p-0.5 text-gray-400 hover:text-[#124A69]"
+        title="Request grade change"
+      >
+        <FilePen className="w-3 h-3" />
+      </button>
+    );
+  };
+
   const handleClearScores = async (
     assessmentId: string,
     studentIds: string[]
@@ -1204,15 +980,20 @@ export function ClassRecordTable({
 
   const handleSaveSettings = async (configs: Record<string, TermConfig>) => {
     try {
-      const payload = { termConfigs: configs };
+      // Locked terms cannot be reconfigured, so only editable terms are sent
+      const payload = {
+        termConfigs: Object.fromEntries(
+          Object.entries(configs).filter(([term]) => !isTermLocked(term))
+        ),
+      };
       const response = await gradingService.saveTermConfigs(
         courseSlug,
         payload.termConfigs
       );
       // Use the updated term configs from the backend (with real assessment IDs)
       // If the backend returns updated configs, use them; otherwise fall back to the sent configs
-      const updatedConfigs = response?.termConfigs || configs;
-      setTermConfigs(updatedConfigs);
+      const updatedConfigs = response?.termConfigs || payload.termConfigs;
+      setTermConfigs((prev) => ({ ...prev, ...updatedConfigs }));
       setHasTermConfigs(true);
 
       // Dispatch event to refresh leaderboard
@@ -1228,424 +1009,41 @@ export function ClassRecordTable({
     }
   };
 
-  const handleExportToExcel = async (
+  // Exports are generated on the server from the same grading engine
+  const exportRunner = useExportRunner({
+    onComplete: () => setShowExportDialog(false),
+  });
+
+  const handleExportToExcel = (
     term: Term | "SUMMARY",
     exportType: "summary" | "details"
   ) => {
-    try {
-      toast.loading("Preparing export...");
-
-      toast.loading("Generating Excel file...");
-
-      if (exportType === "summary") {
-        await exportSummary(term);
-      } else {
-        await exportDetails(term);
-      }
-
-      toast.dismiss();
-      toast.success("Excel exported successfully!");
-      setShowExportDialog(false);
-    } catch (error) {
-      toast.dismiss();
-      console.error(error);
-      toast.error("Failed to export Excel");
-    }
-  };
-
-  const exportSummary = async (term: Term | "SUMMARY") => {
-    const wb = new ExcelJS.Workbook();
-    const ws = wb.addWorksheet("Class Record");
-
-    // -----------------------
-    // Top metadata rows
-    // -----------------------
-    ws.getCell("A1").value = `Subject Name: ${courseTitle}`;
-    ws.getCell("A2").value = `Class number: ${courseNumber}`;
-    ws.getCell("A3").value = `Class Section: ${courseSection}`;
-
-    // Row 4 - Main Header
-    const headerRow = ws.addRow([
-      "",
-      "",
-      "Prelim Grade",
-      "Midterm Grade",
-      "Prefinals Grade",
-      "Finals Grade",
-    ]);
-
-    headerRow.height = 25;
-    headerRow.eachCell((cell: any, col: number) => {
-      cell.border = {
-        top: { style: "thin" },
-        bottom: { style: "thin" },
-        left: { style: "thin" },
-        right: { style: "thin" },
-      };
-
-      let isGradeHeader = col >= 3;
-
-      if (isGradeHeader) {
-        ws.getColumn(col).width = 10;
-      }
-
-      cell.alignment = {
-        vertical: "middle",
-        horizontal: isGradeHeader ? "center" : "left",
-      };
-
-      cell.fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb: "FFD9D9D9" },
-      };
+    exportRunner.start({
+      type: "CLASS_RECORD",
+      courseSlug,
+      params: {
+        // Details of the summary view export the term being viewed
+        term:
+          exportType === "details" && term === "SUMMARY" ? activeTerm : term,
+        exportType,
+      },
     });
-
-    // -----------------------
-    // Student Rows Start Row 5
-    // -----------------------
-    filtered.forEach((student) => {
-      // Get term grades and ensure valid values
-      const prelimGrade = computeTermGrade(student.id, "PRELIM");
-      const midtermGrade = computeTermGrade(student.id, "MIDTERM");
-      const prefinalGrade = computeTermGrade(student.id, "PREFINALS");
-      const finalsGrade = computeTermGrade(student.id, "FINALS");
-
-      // Sanitize values: only export if valid (not "-", not NaN)
-      const prelim =
-        prelimGrade?.totalPercent &&
-        prelimGrade.totalPercent !== "-" &&
-        !isNaN(parseFloat(prelimGrade.totalPercent))
-          ? prelimGrade.totalPercent
-          : "";
-      const midterm =
-        midtermGrade?.totalPercent &&
-        midtermGrade.totalPercent !== "-" &&
-        !isNaN(parseFloat(midtermGrade.totalPercent))
-          ? midtermGrade.totalPercent
-          : "";
-      const prefinal =
-        prefinalGrade?.totalPercent &&
-        prefinalGrade.totalPercent !== "-" &&
-        !isNaN(parseFloat(prefinalGrade.totalPercent))
-          ? prefinalGrade.totalPercent
-          : "";
-      const finals =
-        finalsGrade?.totalPercent &&
-        finalsGrade.totalPercent !== "-" &&
-        !isNaN(parseFloat(finalsGrade.totalPercent))
-          ? finalsGrade.totalPercent
-          : "";
-
-      const fullName = studentName(student);
-      const formattedName = fullName
-        .replace(/\s+[A-Z]\.$/, "")
-        .replace(/\s+/g, " ")
-        .trim()
-        .toUpperCase();
-
-      const row = ws.addRow([
-        student.studentId ?? "",
-        formattedName,
-        prelim,
-        midterm,
-        prefinal,
-        finals,
-      ]);
-
-      row.eachCell((cell: any, col: number) => {
-        cell.border = {
-          top: { style: "thin" },
-          bottom: { style: "thin" },
-          left: { style: "thin" },
-          right: { style: "thin" },
-        };
-
-        cell.alignment = {
-          vertical: "middle",
-          horizontal: col <= 2 ? "left" : "right",
-        };
-      });
-    });
-
-    // -----------------------
-    // Column Widths
-    // -----------------------
-    ws.getColumn(1).width = 16;
-    ws.getColumn(2).width = 30;
-    ws.getColumn(3).width = 15;
-    ws.getColumn(4).width = 15;
-    ws.getColumn(5).width = 15;
-    ws.getColumn(6).width = 15;
-
-    // Freeze top rows (up to header row)
-    ws.views = [{ state: "frozen", ySplit: 4 }];
-
-    // -----------------------
-    // Save File
-    // -----------------------
-    const buffer = await wb.xlsx.writeBuffer();
-    const fileName = `${courseCode}_${courseSection}_ClassRecord_Summary.xlsx`;
-    saveAs(new Blob([buffer]), fileName);
   };
 
-  const exportDetails = async (term: Term | "SUMMARY") => {
-    const wb = new ExcelJS.Workbook();
-    const ws = wb.addWorksheet("Class Record");
-
-    // Get term config for the selected term
-    // If term is "SUMMARY", use activeTerm, but if activeTerm is also "SUMMARY",
-    // default to the first available term (usually "PRELIM")
-    let termToExport: Term;
-    if (term === "SUMMARY") {
-      termToExport =
-        activeTerm === "SUMMARY"
-          ? (Object.keys(termConfigs).find((t) => t !== "SUMMARY") as Term) ||
-            "PRELIM"
-          : (activeTerm as Term);
-    } else {
-      termToExport = term;
-    }
-
-    const config = termConfigs[termToExport];
-    if (!config) {
-      throw new Error(`No configuration found for ${termToExport}`);
-    }
-
-    const pts = config.assessments
-      .filter((a) => a.type === "PT" && a.enabled)
-      .sort((a, b) => a.order - b.order);
-    const quizzes = config.assessments
-      .filter((a) => a.type === "QUIZ" && a.enabled)
-      .sort((a, b) => a.order - b.order);
-    const exam = config.assessments.find((a) => a.type === "EXAM" && a.enabled);
-
-    // Calculate total columns
-    const totalColumns =
-      2 + // Student ID, Name
-      pts.length +
-      1 + // PT Weighted
-      quizzes.length +
-      1 + // Quiz Weighted
-      (exam ? 2 : 0) + // Exam + Exam Weighted
-      2; // Total Percent, Numeric Grade
-
-    // Add title row
-    ws.mergeCells(`A1:${String.fromCharCode(64 + totalColumns)}1`);
-    const titleRow = ws.getCell("A1");
-    titleRow.value = "CLASS RECORD DATA";
-    titleRow.font = { bold: true, size: 16, color: { argb: "FFFFFFFF" } };
-    titleRow.fill = {
-      type: "pattern",
-      pattern: "solid",
-      fgColor: { argb: "FF124A69" },
-    };
-    titleRow.alignment = { vertical: "middle", horizontal: "center" };
-    ws.getRow(1).height = 30;
-
-    // Add metadata rows
-    ws.mergeCells(`A2:${String.fromCharCode(64 + totalColumns)}2`);
-    const metadataRow = ws.getCell("A2");
-    metadataRow.value = `${courseTitle} - ${courseSection} | Class Number: ${courseNumber} | Term: ${termToExport}`;
-    metadataRow.font = { italic: true, size: 11 };
-    metadataRow.alignment = { vertical: "middle", horizontal: "center" };
-
-    // Add date row
-    ws.mergeCells(`A3:${String.fromCharCode(64 + totalColumns)}3`);
-    const dateRow = ws.getCell("A3");
-    dateRow.value = `Export Date: ${new Date().toLocaleDateString()}`;
-    dateRow.font = { italic: true, size: 11 };
-    dateRow.alignment = { vertical: "middle", horizontal: "center" };
-
-    ws.addRow([]);
-
-    // Build header row
-    const headers: string[] = ["Student ID", "Name"];
-    pts.forEach((pt) => headers.push(pt.name));
-    headers.push("PT Weighted");
-    quizzes.forEach((quiz) => headers.push(quiz.name));
-    headers.push("Quiz Weighted");
-    if (exam) {
-      headers.push(exam.name);
-      headers.push("Exam Weighted");
-    }
-    headers.push("Total %", "Numeric Grade");
-
-    const headerRow = ws.addRow(headers);
-    headerRow.font = { bold: true, color: { argb: "FFFFFFFF" } };
-    headerRow.fill = {
-      type: "pattern",
-      pattern: "solid",
-      fgColor: { argb: "FF124A69" },
-    };
-    headerRow.alignment = { vertical: "middle", horizontal: "center" };
-    headerRow.height = 25;
-
-    headerRow.eachCell((cell: any) => {
-      cell.border = {
-        top: { style: "thin" },
-        left: { style: "thin" },
-        bottom: { style: "thin" },
-        right: { style: "thin" },
-      };
-    });
-
-    // Add data rows
-    filtered.forEach((student) => {
-      const termGrade = computeTermGrade(student.id, termToExport);
-      const fullName = studentName(student);
-      const formattedName = fullName
-        .replace(/\s+[A-Z]\.$/, "")
-        .replace(/\s+/g, " ")
-        .trim()
-        .toUpperCase();
-
-      const rowData: (string | number)[] = [
-        student.studentId ?? "",
-        formattedName,
-      ];
-
-      // PT scores
-      pts.forEach((pt) => {
-        const rawScore = getEffectiveScore(student.id, pt);
-        const transmutedScore = transmuteScore(
-          rawScore,
-          pt.maxScore,
-          pt.transmutationBase ?? 0
-        );
-        const baseThreshold =
-          (pt.transmutationBase ?? 0) > 0
-            ? ((pt.transmutationBase ?? 0) / 100) * pt.maxScore
-            : null;
-        const showTransmuted =
-          rawScore !== null &&
-          transmutedScore !== null &&
-          baseThreshold !== null &&
-          rawScore < baseThreshold;
-        rowData.push(
-          showTransmuted ? `${rawScore} (${transmutedScore})` : rawScore ?? ""
-        );
-      });
-
-      // Ensure weighted values are valid
-      const ptWeighted = termGrade?.ptWeighted;
-      rowData.push(
-        ptWeighted && ptWeighted !== "-" && !isNaN(parseFloat(ptWeighted))
-          ? ptWeighted
-          : ""
-      );
-
-      // Quiz scores
-      quizzes.forEach((quiz) => {
-        const rawScore = getEffectiveScore(student.id, quiz);
-        const transmutedScore = transmuteScore(
-          rawScore,
-          quiz.maxScore,
-          quiz.transmutationBase ?? 0
-        );
-        const baseThreshold =
-          (quiz.transmutationBase ?? 0) > 0
-            ? ((quiz.transmutationBase ?? 0) / 100) * quiz.maxScore
-            : null;
-        const showTransmuted =
-          rawScore !== null &&
-          transmutedScore !== null &&
-          baseThreshold !== null &&
-          rawScore < baseThreshold;
-        rowData.push(
-          showTransmuted ? `${rawScore} (${transmutedScore})` : rawScore ?? ""
-        );
-      });
-
-      // Ensure weighted values are valid
-      const quizWeighted = termGrade?.quizWeighted;
-      rowData.push(
-        quizWeighted && quizWeighted !== "-" && !isNaN(parseFloat(quizWeighted))
-          ? quizWeighted
-          : ""
-      );
-
-      // Exam score
-      if (exam) {
-        const rawScore = getEffectiveScore(student.id, exam);
-        const transmutedScore = transmuteScore(
-          rawScore,
-          exam.maxScore,
-          exam.transmutationBase ?? 0
-        );
-        const baseThreshold =
-          (exam.transmutationBase ?? 0) > 0
-            ? ((exam.transmutationBase ?? 0) / 100) * exam.maxScore
-            : null;
-        const showTransmuted =
-          rawScore !== null &&
-          transmutedScore !== null &&
-          baseThreshold !== null &&
-          rawScore < baseThreshold;
-        rowData.push(
-          showTransmuted ? `${rawScore} (${transmutedScore})` : rawScore ?? ""
-        );
-        // Ensure weighted values are valid
-        const examWeighted = termGrade?.examWeighted;
-        rowData.push(
-          examWeighted &&
-            examWeighted !== "-" &&
-            !isNaN(parseFloat(examWeighted))
-            ? examWeighted
-            : ""
-        );
-      }
-
-      // Ensure we export valid values (not NaN, handle "-" properly)
-      const totalPercent = termGrade?.totalPercent;
-      const numericGrade = termGrade?.numericGrade;
-
-      rowData.push(
-        totalPercent && totalPercent !== "-" && !isNaN(parseFloat(totalPercent))
-          ? totalPercent
-          : "",
-        numericGrade && numericGrade !== "-" && numericGrade !== "(error)"
-          ? numericGrade
-          : ""
-      );
-
-      const row = ws.addRow(rowData);
-
-      row.eachCell((cell: any) => {
-        cell.border = {
-          top: { style: "thin", color: { argb: "FFD3D3D3" } },
-          left: { style: "thin", color: { argb: "FFD3D3D3" } },
-          bottom: { style: "thin", color: { argb: "FFD3D3D3" } },
-          right: { style: "thin", color: { argb: "FFD3D3D3" } },
-        };
-        cell.alignment = { vertical: "middle" };
-      });
-
-      if (row.number % 2 === 0) {
-        row.fill = {
-          type: "pattern",
-          pattern: "solid",
-          fgColor: { argb: "FFF9FAFB" },
-        };
-      }
-    });
-
-    // Set column widths
-    const columnWidths = [16, 30]; // Student ID, Name
-    pts.forEach(() => columnWidths.push(12));
-    columnWidths.push(12); // PT Weighted
-    quizzes.forEach(() => columnWidths.push(12));
-    columnWidths.push(12); // Quiz Weighted
-    if (exam) {
-      columnWidths.push(12, 12); // Exam, Exam Weighted
-    }
-    columnWidths.push(12, 12); // Total %, Numeric Grade
-
-    ws.columns = columnWidths.map((width) => ({ width }));
-
-    const buffer = await wb.xlsx.writeBuffer();
-    const fileName = `${courseCode}_${courseSection}_ClassRecord_${termToExport}_Details.xlsx`;
-    saveAs(new Blob([buffer]), fileName);
+  // Official documents for the registrar, signed and verifiable
+  const handleExportPdf = (document: PdfDocument, term: Term) => {
+    exportRunner.start(
+      document === "classRecord"
+        ? { type: "CLASS_RECORD_PDF", courseSlug, params: { term } }
+        : {
+            type:
+              document === "gradeSheet"
+                ? "GRADE_SHEET_PDF"
+                : "ATTENDANCE_SUMMARY_PDF",
+            courseSlug,
+            params: {},
+          }
+    );
   };
 
   if (activeTerm === "SUMMARY") {
@@ -1693,11 +1091,11 @@ export function ClassRecordTable({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="ALL">All Terms</SelectItem>
-                {(["PRELIM", "MIDTERM", "PREFINALS", "FINALS"] as const)
-                  .filter((term) => termConfigs[term])
+                {courseTerms
+                  .filter((term) => termConfigs[term.key])
                   .map((term) => (
-                    <SelectItem key={term} value={term}>
-                      {term}
+                    <SelectItem key={term.key} value={term.key}>
+                      {term.label.toUpperCase()}
                     </SelectItem>
                   ))}
               </SelectContent>
@@ -1729,7 +1127,7 @@ export function ClassRecordTable({
         </div>
 
         <div className="flex border-b border-gray-200 mb-4 sm:mb-6 overflow-x-auto">
-          {TERMS.map((term) => (
+          {[...courseTerms.map((t) => t.key), "SUMMARY"].map((term) => (
             <button
               key={term}
               onClick={() => setActiveTerm(term)}
@@ -1739,7 +1137,7 @@ export function ClassRecordTable({
                   : "text-gray-500 hover:text-gray-700"
               }`}
             >
-              {term}
+              {getTermLabel(term).toUpperCase()}
             </button>
           ))}
         </div>
@@ -1749,19 +1147,19 @@ export function ClassRecordTable({
             <thead>
               <tr className="bg-gray-100">
                 <th className="w-[35%] sm:w-[30%] border border-gray-300 px-2 sm:px-4 py-1.5 sm:py-2 text-left text-xs sm:text-sm font-medium text-gray-700"></th>
-                {(["PRELIM", "MIDTERM", "PREFINALS", "FINALS"] as const)
+                {courseTerms
                   .filter(
                     (term) =>
                       summarySelectedTerm === "ALL" ||
-                      summarySelectedTerm === term
+                      summarySelectedTerm === term.key
                   )
                   .map((term) => (
                     <th
-                      key={term}
+                      key={term.key}
                       className="w-[13%] sm:w-[14%] border border-gray-300 px-1 sm:px-2 py-1.5 sm:py-2 text-center text-xs sm:text-sm font-medium text-gray-700"
                       colSpan={2}
                     >
-                      {term}
+                      {term.label.toUpperCase()}
                     </th>
                   ))}
                 {summarySelectedTerm === "ALL" && (
@@ -1780,16 +1178,16 @@ export function ClassRecordTable({
               </tr>
               <tr className="bg-gray-50 text-[10px] sm:text-xs">
                 <th className="border border-gray-300"></th>
-                {(["PRELIM", "MIDTERM", "PREFINALS", "FINALS"] as const)
+                {courseTerms
                   .filter(
                     (term) =>
                       summarySelectedTerm === "ALL" ||
-                      summarySelectedTerm === term
+                      summarySelectedTerm === term.key
                   )
                   .map((term) => (
-                    <React.Fragment key={term}>
+                    <React.Fragment key={term.key}>
                       <th className="border border-gray-300 px-1 sm:px-2 py-1">
-                        {TERM_WEIGHTS[term] * 100}%
+                        {term.weight}%
                       </th>
                       <th className="border border-gray-300 px-1 sm:px-2 py-1">
                         EQV
@@ -1867,7 +1265,8 @@ export function ClassRecordTable({
                         </span>
                       </div>
                     </td>
-                    {(["PRELIM", "MIDTERM", "PREFINALS", "FINALS"] as const)
+                    {courseTerms
+                      .map((t) => t.key)
                       .filter(
                         (term) =>
                           summarySelectedTerm === "ALL" ||
@@ -1963,25 +1362,14 @@ export function ClassRecordTable({
                               type="text"
                               className={`w-full max-w-[44px] sm:max-w-[56px] h-7 sm:h-8 text-center border rounded text-xs sm:text-sm font-medium ${
                                 selectedStudentId === student.id
-                                  ? finalGrade &&
-                                    finalGrade.grade &&
-                                    !isNaN(parseFloat(finalGrade.grade)) &&
-                                    parseFloat(finalGrade.grade) > 3.0
+                                  ? finalGrade?.remarks === "FAILED"
                                     ? "border-white text-red-500 bg-transparent"
                                     : "border-white text-white bg-transparent"
-                                  : finalGrade &&
-                                    finalGrade.grade &&
-                                    !isNaN(parseFloat(finalGrade.grade)) &&
-                                    parseFloat(finalGrade.grade) > 3.0
+                                  : finalGrade?.remarks === "FAILED"
                                   ? "text-red-500 border-gray-200"
                                   : "border-gray-200"
                               }`}
-                              value={
-                                finalGrade?.grade &&
-                                !isNaN(parseFloat(finalGrade.grade))
-                                  ? finalGrade.grade
-                                  : "-"
-                              }
+                              value={finalGrade?.grade || "-"}
                               readOnly
                               onClick={(e) => e.stopPropagation()}
                             />
@@ -2113,6 +1501,10 @@ export function ClassRecordTable({
           assessmentScores={scores}
           onClearScores={handleClearScores}
           courseSlug={courseSlug}
+          onGradingScaleChange={setGradingScale}
+          terms={courseTerms}
+          onTermsChange={handleTermsChange}
+          lockedTerms={lockedTerms}
         />
 
         {/* Export Dialog - Must be rendered here for SUMMARY view */}
@@ -2120,7 +1512,10 @@ export function ClassRecordTable({
           open={showExportDialog}
           onOpenChange={setShowExportDialog}
           onExport={handleExportToExcel}
-          availableTerms={Object.keys(termConfigs) as Term[]}
+          onExportPdf={handleExportPdf}
+          availableTerms={courseTerms.filter((t) => termConfigs[t.key])}
+          isExporting={exportRunner.isRunning}
+          progress={exportRunner.progress}
         />
 
         <PasteGradesModal
@@ -2130,10 +1525,7 @@ export function ClassRecordTable({
             if (activeTerm === "SUMMARY") {
               return [];
             }
-            const config =
-              termConfigs[
-                activeTerm as "PRELIM" | "MIDTERM" | "PREFINALS" | "FINALS"
-              ];
+            const config = termConfigs[activeTerm];
             if (!config) {
               return [];
             }
@@ -2320,7 +1712,7 @@ export function ClassRecordTable({
         className="flex border-b border-gray-200 mb-4 sm:mb-6 overflow-x-auto"
         data-tutorial="term-tabs"
       >
-        {TERMS.map((term) => (
+        {[...courseTerms.map((t) => t.key), "SUMMARY"].map((term) => (
           <button
             key={term}
             onClick={() => setActiveTerm(term)}
@@ -2330,11 +1722,15 @@ export function ClassRecordTable({
                 : "text-gray-500 hover:text-gray-700"
             }`}
           >
-            {term}
+            {getTermLabel(term).toUpperCase()}
           </button>
         ))}
       </div>
 
+      {hasTermConfigs && activeTerm !== "SUMMARY" && (
+        <GradeSubmissionBar courseSlug={courseSlug} term={activeTerm} />
+      )}
+
       {!hasTermConfigs ? (
         <div className="flex flex-col items-center justify-center flex-1 min-h-[400px] mb-4 rounded-md border border-dashed border-gray-300 bg-gray-50/50 relative overflow-hidden">
           <div className="text-center px-4 pb-8 z-10 relative">
@@ -2606,7 +2002,7 @@ export function ClassRecordTable({
                       return (
                         <td
                           key={pt.id}
-                          className={`border py-3 text-center text-sm w-20 ${
+                          className={`relative border py-3 text-center text-sm w-20 ${
                             isSelected ? "border-white" : "border-gray-300"
                           }`}
                         >
@@ -2666,6 +2062,7 @@ export function ClassRecordTable({
                                 : ""
                             }
                           />
+                          {renderGradeChangeMarker(student, pt)}
                         </td>
                       );
                     })}
@@ -2723,7 +2120,7 @@ export function ClassRecordTable({
                       return (
                         <td
                           key={quiz.id}
-                          className={`border py-3 text-center text-sm w-20 ${
+                          className={`relative border py-3 text-center text-sm w-20 ${
                             isSelected ? "border-white" : "border-gray-300"
                           }`}
                         >
@@ -2783,6 +2180,7 @@ export function ClassRecordTable({
                                 : ""
                             }
                           />
+                          {renderGradeChangeMarker(student, quiz)}
                         </td>
                       );
                     })}
@@ -2810,7 +2208,7 @@ export function ClassRecordTable({
                     {exam && (
                       <>
                         <td
-                          className={`border py-3 text-center text-sm ${
+                          className={`relative border py-3 text-center text-sm ${
                             selectedStudentId === student.id
                               ? "border-white"
                               : "border-gray-300"
@@ -2908,6 +2306,7 @@ export function ClassRecordTable({
                               />
                             );
                           })()}
+                          {renderGradeChangeMarker(student, exam)}
                         </td>
                         <td
                           className={`border py-3 text-center text-sm ${
@@ -2941,12 +2340,10 @@ export function ClassRecordTable({
                         type="text"
                         className={`w-[90%] h-8 text-center border rounded font-medium ${
                           selectedStudentId === student.id
-                            ? termGrade &&
-                              parseFloat(termGrade.numericGrade) > 3.0
+                            ? termGrade?.failed
                               ? "border-white text-red-500 bg-transparent"
                               : "border-white text-white bg-transparent"
-                            : termGrade &&
-                              parseFloat(termGrade.numericGrade) > 3.0
+                            : termGrade?.failed
                             ? "text-red-500 border-gray-200"
                             : "border-gray-200"
                         }`}
@@ -2968,14 +2365,12 @@ export function ClassRecordTable({
                           selectedStudentId === student.id
                             ? termGrade?.numericGrade === "(error)"
                               ? "border-white text-white bg-red-500"
-                              : termGrade &&
-                                parseFloat(termGrade.numericGrade) > 3.0
+                              : termGrade?.failed
                               ? "border-white text-red-500 bg-transparent"
                               : "border-white text-white bg-transparent"
                             : termGrade?.numericGrade === "(error)"
                             ? "bg-red-500 text-white border-gray-200"
-                            : termGrade &&
-                              parseFloat(termGrade.numericGrade) > 3.0
+                            : termGrade?.failed
                             ? "text-red-500 border-gray-200"
                             : "border-gray-200"
                         }`}
@@ -3083,6 +2478,10 @@ export function ClassRecordTable({
         assessmentScores={scores}
         onClearScores={handleClearScores}
         courseSlug={courseSlug}
+        onGradingScaleChange={setGradingScale}
+        terms={courseTerms}
+        onTermsChange={handleTermsChange}
+        lockedTerms={lockedTerms}
       />
 
       <PasteGradesModal
@@ -3093,11 +2492,7 @@ export function ClassRecordTable({
           if (activeTerm === ("SUMMARY" as Term)) {
             return [];
           }
-          // After the check, TypeScript knows activeTerm is not "SUMMARY"
-          const config =
-            termConfigs[
-              activeTerm as "PRELIM" | "MIDTERM" | "PREFINALS" | "FINALS"
-            ];
+          const config = termConfigs[activeTerm];
           if (!config) {
             return [];
           }
@@ -3185,28 +2580,82 @@ export function ClassRecordTable({
         open={showExportDialog}
         onOpenChange={setShowExportDialog}
         onExport={handleExportToExcel}
-        availableTerms={Object.keys(termConfigs) as Term[]}
+        onExportPdf={handleExportPdf}
+        availableTerms={courseTerms.filter((t) => termConfigs[t.key])}
+        isExporting={exportRunner.isRunning}
+        progress={exportRunner.progress}
+      />
+
+      <GradeChangeRequestDialog
+        courseSlug={courseSlug}
+        target={changeTarget}
+        onClose={() => setChangeTarget(null)}
       />
     </div>
   );
 }
 
 // Export Dialog Component
+type PdfDocument = "gradeSheet" | "classRecord" | "attendance";
+
+const PDF_DOCUMENTS: Array<{
+  value: PdfDocument;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "gradeSheet",
+    label: "Final Grade Sheet",
+    description: "Every term's grade and the final grade",
+  },
+  {
+    value: "classRecord",
+    label: "Class Record",
+    description: "One term's scores, weighted components and grade",
+  },
+  {
+    value: "attendance",
+    label: "Attendance Summary",
+    description: "Present, late, excused and absent totals per student",
+  },
+];
+
 function ExportDialog({
   open,
   onOpenChange,
   onExport,
+  onExportPdf,
   availableTerms,
+  isExporting,
+  progress,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onExport: (term: Term | "SUMMARY", exportType: "summary" | "details") => void;
-  availableTerms: Term[];
+  onExportPdf: (document: PdfDocument, term: Term) => void;
+  availableTerms: TermDefinition[];
+  isExporting: boolean;
+  progress: number;
 }) {
   const [selectedTerm, setSelectedTerm] = useState<Term | "SUMMARY">("SUMMARY");
   const [exportType, setExportType] = useState<"summary" | "details">(
     "summary"
   );
+  const [fileFormat, setFileFormat] = useState<"excel" | "pdf">("excel");
+  const [pdfDocument, setPdfDocument] = useState<PdfDocument>("gradeSheet");
+
+  // A PDF class record is always for one term
+  const needsTerm = fileFormat === "excel" || pdfDocument === "classRecord";
+  const pdfTerm =
+    selectedTerm === "SUMMARY" ? availableTerms[0]?.key : selectedTerm;
+
+  const handleExport = () => {
+    if (fileFormat === "excel") {
+      onExport(selectedTerm, exportType);
+    } else if (pdfTerm || pdfDocument !== "classRecord") {
+      onExportPdf(pdfDocument, pdfTerm ?? "");
+    }
+  };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -3221,90 +2670,170 @@ function ExportDialog({
         </DialogHeader>
 
         <div className="mt-6 space-y-6">
-          {/* Term Selection */}
-          <div className="space-y-2">
-            <Label
-              htmlFor="term-select"
-              className="text-sm font-medium text-[#124A69]"
+          {/* Format Selection */}
+          <div className="flex gap-2">
+            <Button
+              variant={fileFormat === "excel" ? "default" : "outline"}
+              onClick={() => setFileFormat("excel")}
+              className={
+                fileFormat === "excel" ? "bg-[#124A69] hover:bg-[#0D3A54]" : ""
+              }
             >
-              Select Term
-            </Label>
-            <Select
-              value={selectedTerm}
-              onValueChange={(value: Term | "SUMMARY") =>
-                setSelectedTerm(value)
+              Excel
+            </Button>
+            <Button
+              variant={fileFormat === "pdf" ? "default" : "outline"}
+              onClick={() => setFileFormat("pdf")}
+              className={
+                fileFormat === "pdf" ? "bg-[#124A69] hover:bg-[#0D3A54]" : ""
               }
             >
-              <SelectTrigger id="term-select" className="w-full">
-                <SelectValue placeholder="Select term" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="SUMMARY">Summary (All Terms)</SelectItem>
-                {availableTerms.map((term) => (
-                  <SelectItem key={term} value={term}>
-                    {term}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+              Official PDF
+            </Button>
           </div>
 
-          {/* Export Type Selection */}
-          <div className="space-y-3">
-            <Label className="text-sm font-medium text-[#124A69]">
-              Export Type
-            </Label>
-            <div className="space-y-3">
-              <div
-                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
-                  exportType === "summary"
-                    ? "border-[#124A69] bg-[#124A69]/5"
-                    : "border-gray-200 hover:bg-gray-50"
-                }`}
-                onClick={() => setExportType("summary")}
+          {/* Term Selection */}
+          {needsTerm && (
+            <div className="space-y-2">
+              <Label
+                htmlFor="term-select"
+                className="text-sm font-medium text-[#124A69]"
               >
-                <div className="flex items-center h-5">
-                  <input
-                    type="radio"
-                    checked={exportType === "summary"}
-                    onChange={() => setExportType("summary")}
-                    className="w-4 h-4 text-[#124A69] border-gray-300 focus:ring-[#124A69]"
-                  />
-                </div>
-                <div className="flex-1">
-                  <div className="font-medium text-sm">Summary</div>
-                  <div className="text-xs text-gray-500 mt-1">
-                    Export final grades for all terms (current format)
+                Select Term
+              </Label>
+              <Select
+                value={fileFormat === "pdf" ? pdfTerm : selectedTerm}
+                onValueChange={(value: Term | "SUMMARY") =>
+                  setSelectedTerm(value)
+                }
+              >
+                <SelectTrigger id="term-select" className="w-full">
+                  <SelectValue placeholder="Select term" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fileFormat === "excel" && (
+                    <SelectItem value="SUMMARY">Summary (All Terms)</SelectItem>
+                  )}
+                  {availableTerms.map((term) => (
+                    <SelectItem key={term.key} value={term.key}>
+                      {term.label.toUpperCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Document Selection */}
+          {fileFormat === "pdf" && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium text-[#124A69]">
+                Document
+              </Label>
+              <div className="space-y-3">
+                {PDF_DOCUMENTS.map((document) => (
+                  <div
+                    key={document.value}
+                    className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                      pdfDocument === document.value
+                        ? "border-[#124A69] bg-[#124A69]/5"
+                        : "border-gray-200 hover:bg-gray-50"
+                    }`}
+                    onClick={() => setPdfDocument(document.value)}
+                  >
+                    <div className="flex items-center h-5">
+                      <input
+                        type="radio"
+                        checked={pdfDocument === document.value}
+                        onChange={() => setPdfDocument(document.value)}
+                        className="w-4 h-4 text-[#124A69] border-gray-300 focus:ring-[#124A69]"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <div className="font-medium text-sm">
+                        {document.label}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {document.description}
+                      </div>
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
-              <div
-                className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
-                  exportType === "details"
-                    ? "border-[#124A69] bg-[#124A69]/5"
-                    : "border-gray-200 hover:bg-gray-50"
-                }`}
-                onClick={() => setExportType("details")}
-              >
-                <div className="flex items-center h-5">
-                  <input
-                    type="radio"
-                    checked={exportType === "details"}
-                    onChange={() => setExportType("details")}
-                    className="w-4 h-4 text-[#124A69] border-gray-300 focus:ring-[#124A69]"
-                  />
+              <p className="text-xs text-gray-500">
+                Includes signature blocks, page numbers and a QR code the
+                registrar can scan to verify the copy.
+              </p>
+            </div>
+          )}
+
+          {/* Export Type Selection */}
+          {fileFormat === "excel" && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium text-[#124A69]">
+                Export Type
+              </Label>
+              <div className="space-y-3">
+                <div
+                  className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                    exportType === "summary"
+                      ? "border-[#124A69] bg-[#124A69]/5"
+                      : "border-gray-200 hover:bg-gray-50"
+                  }`}
+                  onClick={() => setExportType("summary")}
+                >
+                  <div className="flex items-center h-5">
+                    <input
+                      type="radio"
+                      checked={exportType === "summary"}
+                      onChange={() => setExportType("summary")}
+                      className="w-4 h-4 text-[#124A69] border-gray-300 focus:ring-[#124A69]"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">Summary</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Export final grades for all terms (current format)
+                    </div>
+                  </div>
                 </div>
-                <div className="flex-1">
-                  <div className="font-medium text-sm">Details</div>
-                  <div className="text-xs text-gray-500 mt-1">
-                    Export all assessment scores with detailed breakdown
+                <div
+                  className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                    exportType === "details"
+                      ? "border-[#124A69] bg-[#124A69]/5"
+                      : "border-gray-200 hover:bg-gray-50"
+                  }`}
+                  onClick={() => setExportType("details")}
+                >
+                  <div className="flex items-center h-5">
+                    <input
+                      type="radio"
+                      checked={exportType === "details"}
+                      onChange={() => setExportType("details")}
+                      className="w-4 h-4 text-[#124A69] border-gray-300 focus:ring-[#124A69]"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">Details</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Export all assessment scores with detailed breakdown
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
+        {isExporting && (
+          <div className="mt-6 space-y-2">
+            <Progress value={progress} className="h-2" />
+            <p className="text-xs text-gray-500">
+              Generating on the server... {progress}%
+            </p>
+          </div>
+        )}
+
         <div className="mt-6 flex flex-col sm:flex-row justify-end gap-3 pt-4 border-t">
           <Button
             variant="outline"
@@ -3315,10 +2844,17 @@ function ExportDialog({
           </Button>
           <Button
             className="bg-[#124A69] hover:bg-[#0D3A54] text-white w-full sm:w-auto"
-            onClick={() => onExport(selectedTerm, exportType)}
+            onClick={handleExport}
+            disabled={
+              isExporting || (fileFormat === "pdf" && needsTerm && !pdfTerm)
+            }
           >
-            <Upload className="h-4 w-4 mr-2" />
-            Export to Excel
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            {fileFormat === "pdf" ? "Export to PDF" : "Export to Excel"}
           </Button>
         </div>
       </DialogContent>
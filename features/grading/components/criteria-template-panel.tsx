@@ -0,0 +1,319 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DialogFooter } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useActiveCourses,
+  useCriteriaTemplates,
+  useCriteriaTemplateUsage,
+  useApplyCriteriaTemplate,
+  useUpdateCriteriaTemplate,
+  useDeleteCriteriaTemplate,
+  CriteriaTemplateType,
+} from "@/lib/hooks/queries";
+
+interface CriteriaTemplatePanelProps {
+  courseSlug: string;
+  templateType: CriteriaTemplateType;
+  selectedDate: Date | undefined;
+  onCancel: () => void;
+  // Receives the criteria created for the current course
+  onApplied: (criteria: any) => void;
+}
+
+export function CriteriaTemplatePanel({
+  courseSlug,
+  templateType,
+  selectedDate,
+  onCancel,
+  onApplied,
+}: CriteriaTemplatePanelProps) {
+  const { data: session } = useSession();
+  const [templateId, setTemplateId] = useState("");
+  const [otherCourseSlugs, setOtherCourseSlugs] = useState<string[]>([]);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { data: templates = [], isLoading } =
+    useCriteriaTemplates(templateType);
+  const { data: usage } = useCriteriaTemplateUsage(templateId || undefined);
+  const { data: coursesData } = useActiveCourses(
+    session?.user?.id ? { filters: { facultyId: session.user.id } } : undefined
+  );
+  const applyMutation = useApplyCriteriaTemplate();
+  const updateMutation = useUpdateCriteriaTemplate();
+  const deleteMutation = useDeleteCriteriaTemplate();
+
+  const template = templates.find((t) => t.id === templateId);
+  const canManage = template?.ownerId === session?.user?.id;
+
+  const otherCourses = useMemo(
+    () =>
+      (coursesData?.courses || []).filter(
+        (course: any) => course.slug !== courseSlug
+      ),
+    [coursesData, courseSlug]
+  );
+
+  const toggleCourse = (slug: string) => {
+    setOtherCourseSlugs((prev) =>
+      prev.includes(slug) ? prev.filter((s) => s !== slug) : [...prev, slug]
+    );
+  };
+
+  const handleApply = async () => {
+    if (!template) return;
+
+    const date = selectedDate ? new Date(selectedDate) : new Date();
+    date.setHours(0, 0, 0, 0);
+
+    // Errors are toasted by the mutation
+    const created = await applyMutation
+      .mutateAsync({
+        id: template.id,
+        courseSlugs: [courseSlug, ...otherCourseSlugs],
+        date: date.toISOString(),
+      })
+      .catch(() => null);
+    if (!created) return;
+
+    toast.success(
+      otherCourseSlugs.length > 0
+        ? `Template applied to ${created.length} courses`
+        : "Template applied"
+    );
+    setOtherCourseSlugs([]);
+    onApplied(created.find((c: any) => c.course.slug === courseSlug));
+  };
+
+  const handleToggleScope = () => {
+    if (!template) return;
+    updateMutation.mutate({
+      id: template.id,
+      templateData: {
+        name: template.name,
+        description: template.description,
+        scope: template.scope === "PERSONAL" ? "DEPARTMENT" : "PERSONAL",
+        scoringRange: template.scoringRange,
+        passingScore: template.passingScore,
+        rubrics: template.rubrics.map((r) => ({
+          name: r.name,
+          percentage: r.percentage,
+        })),
+      },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!template) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    setConfirmDelete(false);
+    deleteMutation.mutate(template.id, {
+      onSuccess: () => setTemplateId(""),
+    });
+  };
+
+  const outdatedCount = usage?.usage.filter((u) => u.isOutdated).length ?? 0;
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700">
+          Select a template
+        </div>
+        <p className="text-xs text-gray-500">
+          Templates are your saved rubrics plus those shared with your
+          department.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-[#124A69]" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="text-gray-500 text-center py-4 text-sm">
+          No templates yet. Tick "Save as template" when creating a report to
+          add one.
+        </div>
+      ) : (
+        <Select
+          value={templateId}
+          onValueChange={(value) => {
+            setTemplateId(value);
+            setConfirmDelete(false);
+          }}
+        >
+          <SelectTrigger className="bg-gray-50 border-gray-200 w-full">
+            <SelectValue placeholder="Select template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                <div className="flex flex-col items-start">
+                  <span className="font-medium text-[#124A69]">{t.name}</span>
+                  <span className="text-xs text-gray-500">
+                    v{t.version} |{" "}
+                    {t.scope === "DEPARTMENT"
+                      ? `Shared by ${t.owner.name}`
+                      : "Personal"}{" "}
+                    | {t.rubrics.length} Criteria
+                  </span>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {template && (
+        <div className="space-y-3 rounded-lg border border-gray-200 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">v{template.version}</Badge>
+              <Badge
+                className={
+                  template.scope === "DEPARTMENT"
+                    ? "bg-[#124A69] text-white"
+                    : "bg-gray-100 text-gray-700"
+                }
+              >
+                {template.scope === "DEPARTMENT"
+                  ? template.department || "Department"
+                  : "Personal"}
+              </Badge>
+            </div>
+            <span className="text-xs text-gray-500">
+              Scoring 1-{template.scoringRange} | Passing{" "}
+              {template.passingScore}%
+            </span>
+          </div>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {template.rubrics.map((r) => (
+              <li key={r.id} className="flex justify-between">
+                <span>{r.name}</span>
+                <span className="text-gray-500">{r.percentage}%</span>
+              </li>
+            ))}
+          </ul>
+
+          {otherCourses.length > 0 && (
+            <div className="space-y-2 border-t pt-3">
+              <div className="text-xs font-medium text-gray-700">
+                Also apply to
+              </div>
+              <div className="max-h-28 overflow-y-auto space-y-1">
+                {otherCourses.map((course: any) => (
+                  <label
+                    key={course.slug}
+                    className="flex items-center gap-2 text-sm cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={otherCourseSlugs.includes(course.slug)}
+                      onCheckedChange={() => toggleCourse(course.slug)}
+                    />
+                    {course.code} - {course.section}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {usage && usage.usage.length > 0 && (
+            <div className="space-y-2 border-t pt-3">
+              <div className="text-xs font-medium text-gray-700">
+                Used in {usage.usage.length} report(s)
+                {outdatedCount > 0 && (
+                  <span className="text-amber-600">
+                    {" "}
+                    ({outdatedCount} on an older version)
+                  </span>
+                )}
+              </div>
+              <div className="max-h-28 overflow-y-auto space-y-1">
+                {usage.usage.map((u) => (
+                  <div
+                    key={u.criteriaId}
+                    className="flex items-center justify-between text-xs"
+                  >
+                    <span className="text-gray-700">
+                      {u.courseCode} - {u.courseSection}: {u.criteriaName}
+                    </span>
+                    {u.isOutdated ? (
+                      <Badge className="bg-amber-100 text-amber-700">
+                        v{u.templateVersion ?? "?"}
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-700">
+                        Latest
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canManage && (
+            <div className="flex gap-2 border-t pt-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleToggleScope}
+                disabled={updateMutation.isPending}
+              >
+                {template.scope === "PERSONAL"
+                  ? "Share with Department"
+                  : "Make Personal"}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending}
+                className="text-red-600 hover:text-red-700"
+              >
+                {confirmDelete ? "Confirm Delete" : "Delete"}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <DialogFooter className="gap-2 sm:gap-2">
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          className="border-gray-200"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          disabled={!template || applyMutation.isPending}
+          className="bg-[#124A69] hover:bg-[#0d3a56]"
+        >
+          {applyMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          Apply Template
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
@@ -1,4 +1,3 @@
-import * as XLSX from "xlsx";
 import {
   Dialog,
   DialogContent,
@@ -8,7 +7,10 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import toast from "react-hot-toast";
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useExportRunner } from "@/lib/hooks/queries";
 
 interface ExportReportingProps {
   showExportPreview: boolean;
@@ -18,12 +20,9 @@ interface ExportReportingProps {
     studentRows: string[][];
   } | null;
   selectedDate: Date | undefined;
-  courseCode: string;
-  courseSection: string;
-  rubricDetails: {
-    name: string;
-    percentage: number;
-  }[];
+  courseSlug: string;
+  criteriaId?: string;
+  groupId?: string;
 }
 
 export function ExportReporting({
@@ -31,142 +30,27 @@ export function ExportReporting({
   setShowExportPreview,
   exportData,
   selectedDate,
-  courseCode,
-  courseSection,
-  rubricDetails,
+  courseSlug,
+  criteriaId,
+  groupId,
 }: ExportReportingProps) {
-  const handleConfirmExport = () => {
-    if (!exportData) return;
-
-    try {
-      const { header, studentRows } = exportData;
-      const ws = XLSX.utils.aoa_to_sheet([...header, ...studentRows]);
-
-      // Configure column widths
-      ws["!cols"] = [
-        { wch: 30 }, // Student Name
-        ...rubricDetails.map(() => ({ wch: 15 })), // Rubric scores
-        { wch: 15 }, // Total Grade
-        { wch: 15 }, // Remarks
-      ];
-
-      // Style configurations
-      const headerStyle = {
-        fill: { fgColor: { rgb: "124A69" } }, // Dark blue background
-        font: { color: { rgb: "FFFFFF" }, bold: true }, // White bold text
-        alignment: { horizontal: "center", vertical: "center" },
-        border: {
-          top: { style: "thin", color: { rgb: "000000" } },
-          bottom: { style: "thin", color: { rgb: "000000" } },
-          left: { style: "thin", color: { rgb: "000000" } },
-          right: { style: "thin", color: { rgb: "000000" } },
-        },
-      };
-
-      const subHeaderStyle = {
-        fill: { fgColor: { rgb: "F5F6FA" } }, // Light gray background
-        font: { bold: true },
-        alignment: { horizontal: "center", vertical: "center" },
-        border: {
-          top: { style: "thin", color: { rgb: "000000" } },
-          bottom: { style: "thin", color: { rgb: "000000" } },
-          left: { style: "thin", color: { rgb: "000000" } },
-          right: { style: "thin", color: { rgb: "000000" } },
-        },
-      };
-
-      const cellStyle = {
-        alignment: { horizontal: "center", vertical: "center" },
-        border: {
-          top: { style: "thin", color: { rgb: "000000" } },
-          bottom: { style: "thin", color: { rgb: "000000" } },
-          left: { style: "thin", color: { rgb: "000000" } },
-          right: { style: "thin", color: { rgb: "000000" } },
-        },
-      };
-
-      // Apply styles to cells
-      const range = XLSX.utils.decode_range(ws["!ref"] || "A1");
-
-      // Style the title row
-      for (let C = range.s.c; C <= range.e.c; ++C) {
-        const cellRef = XLSX.utils.encode_cell({ r: 0, c: C });
-        if (!ws[cellRef]) ws[cellRef] = { v: "" };
-        ws[cellRef].s = headerStyle;
-      }
-
-      // Style the subheader row (column headers)
-      for (let C = range.s.c; C <= range.e.c; ++C) {
-        const cellRef = XLSX.utils.encode_cell({ r: 5, c: C });
-        if (!ws[cellRef]) ws[cellRef] = { v: "" };
-        ws[cellRef].s = subHeaderStyle;
-      }
+  // The file is generated on the server from the saved grades
+  const exportRunner = useExportRunner({
+    onComplete: () => setShowExportPreview(false),
+  });
 
-      // Style all other cells
-      for (let R = 6; R <= range.e.r; ++R) {
-        for (let C = range.s.c; C <= range.e.c; ++C) {
-          const cellRef = XLSX.utils.encode_cell({ r: R, c: C });
-          if (!ws[cellRef]) ws[cellRef] = { v: "" };
-
-          // Special styling for remarks column
-          if (C === range.e.c) {
-            const value = ws[cellRef].v;
-            if (value === "PASSED") {
-              ws[cellRef].s = {
-                ...cellStyle,
-                font: { color: { rgb: "008000" }, bold: true }, // Green for PASSED
-              };
-            } else if (value === "FAILED") {
-              ws[cellRef].s = {
-                ...cellStyle,
-                font: { color: { rgb: "FF0000" }, bold: true }, // Red for FAILED
-              };
-            } else {
-              ws[cellRef].s = cellStyle;
-            }
-          } else {
-            ws[cellRef].s = cellStyle;
-          }
-        }
-      }
-
-      // Merge cells for title and info rows
-      ws["!merges"] = [
-        { s: { r: 0, c: 0 }, e: { r: 0, c: range.e.c } }, // Title row
-        { s: { r: 1, c: 0 }, e: { r: 1, c: range.e.c } }, // Empty row
-        { s: { r: 2, c: 1 }, e: { r: 2, c: range.e.c } }, // Date row
-        { s: { r: 3, c: 1 }, e: { r: 3, c: range.e.c } }, // Report name row
-        { s: { r: 4, c: 0 }, e: { r: 4, c: range.e.c } }, // Empty row
-      ];
-
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, "Grades");
-
-      // Generate filename with date
-      const formattedDate = selectedDate?.toISOString().split("T")[0];
-      const filename = `${courseCode}-${courseSection}-${formattedDate}-grades.xlsx`;
-      XLSX.writeFile(wb, filename);
-
-      setShowExportPreview(false);
-      toast.success("Grades exported successfully", {
-        duration: 3000,
-        style: {
-          background: "#fff",
-          color: "#124A69",
-          border: "1px solid #e5e7eb",
-        },
-      });
-    } catch (error) {
-      console.error("Error exporting grades:", error);
-      toast.error("Failed to export grades", {
-        duration: 3000,
-        style: {
-          background: "#fff",
-          color: "#dc2626",
-          border: "1px solid #e5e7eb",
-        },
-      });
-    }
+  const handleConfirmExport = () => {
+    if (!exportData || !criteriaId || !selectedDate) return;
+
+    exportRunner.start({
+      type: "CRITERIA_REPORT",
+      courseSlug,
+      params: {
+        criteriaId,
+        date: format(selectedDate, "yyyy-MM-dd"),
+        groupId,
+      },
+    });
   };
 
   return (
@@ -177,7 +61,8 @@ export function ExportReporting({
             Export Preview
           </DialogTitle>
           <DialogDescription className="text-gray-500">
-            Preview how your grades will look in the Excel file
+            Preview how your grades will look in the Excel file. The export uses
+            the grades saved for this date.
           </DialogDescription>
         </DialogHeader>
 
@@ -231,6 +116,15 @@ export function ExportReporting({
           </div>
         )}
 
+        {exportRunner.isRunning && (
+          <div className="mt-4 space-y-2">
+            <Progress value={exportRunner.progress} className="h-2" />
+            <p className="text-xs text-gray-500">
+              Generating on the server... {exportRunner.progress}%
+            </p>
+          </div>
+        )}
+
         <DialogFooter className="gap-2 sm:gap-2 mt-4">
           <Button
             variant="outline"
@@ -241,8 +135,12 @@ export function ExportReporting({
           </Button>
           <Button
             onClick={handleConfirmExport}
+            disabled={exportRunner.isRunning || !criteriaId}
             className="bg-[#124A69] hover:bg-[#0d3a56] text-white"
           >
+            {exportRunner.isRunning && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
             Export to Excel
           </Button>
         </DialogFooter>
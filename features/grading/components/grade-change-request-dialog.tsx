@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCreateGradeChangeRequest } from "@/lib/hooks/queries";
+
+export interface GradeChangeTarget {
+  studentId: string;
+  studentName: string;
+  assessmentId: string;
+  assessmentName: string;
+  maxScore: number;
+  currentScore: number | null;
+}
+
+interface GradeChangeRequestDialogProps {
+  courseSlug: string;
+  target: GradeChangeTarget | null;
+  onClose: () => void;
+}
+
+// Proposes a corrected score on a locked term; the academic head approves it
+export function GradeChangeRequestDialog({
+  courseSlug,
+  target,
+  onClose,
+}: GradeChangeRequestDialogProps) {
+  const [proposedScore, setProposedScore] = useState("");
+  const [reason, setReason] = useState("");
+  const createRequest = useCreateGradeChangeRequest();
+
+  useEffect(() => {
+    if (target) {
+      setProposedScore(
+        target.currentScore !== null ? String(target.currentScore) : ""
+      );
+      setReason("");
+    }
+  }, [target]);
+
+  const parsedScore =
+    proposedScore.trim() === "" ? null : Number(proposedScore);
+  const isScoreValid =
+    parsedScore === null ||
+    (!isNaN(parsedScore) &&
+      parsedScore >= 0 &&
+      parsedScore <= (target?.maxScore ?? 0));
+  const canSubmit =
+    !!target &&
+    isScoreValid &&
+    parsedScore !== target.currentScore &&
+    reason.trim().length > 0;
+
+  const handleSubmit = async () => {
+    if (!target || !canSubmit) return;
+    try {
+      await createRequest.mutateAsync({
+        courseSlug,
+        studentId: target.studentId,
+        assessmentId: target.assessmentId,
+        proposedScore: parsedScore,
+        reason,
+      });
+      onClose();
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request grade change</DialogTitle>
+          <DialogDescription>
+            {target &&
+              `${target.studentName} · ${target.assessmentName} (current: ${
+                target.currentScore ?? "no score"
+              } / ${target.maxScore})`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="proposed-score">New score</Label>
+            <Input
+              id="proposed-score"
+              inputMode="numeric"
+              value={proposedScore}
+              onChange={(e) => setProposedScore(e.target.value)}
+              placeholder="Leave blank to clear the score"
+            />
+            {!isScoreValid && (
+              <p className="text-xs text-red-600">
+                Score must be between 0 and {target?.maxScore}
+              </p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="change-reason">Reason</Label>
+            <Textarea
+              id="change-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why does this score need to change?"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+            disabled={!canSubmit || createRequest.isPending}
+            onClick={handleSubmit}
+          >
+            Send for approval
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
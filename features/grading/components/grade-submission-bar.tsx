@@ -0,0 +1,148 @@
+"use client";
+
+import {
+  Lock,
+  Send,
+  CheckCircle2,
+  Undo2,
+  Clock,
+  Eye,
+  EyeOff,
+} from "lucide-react";
+import {
+  useGradeSubmissions,
+  useTransitionGradeSubmission,
+  useSetGradeRelease,
+} from "@/lib/hooks/queries";
+import type {
+  GradeSubmissionStatus,
+  GradeSubmissionSummary,
+} from "../types/ClassRecordTable";
+
+const STATUS_STYLES: Record<
+  GradeSubmissionStatus,
+  { label: string; className: string; icon: typeof Lock }
+> = {
+  DRAFT: {
+    label: "Draft",
+    className: "bg-gray-100 text-gray-700",
+    icon: Clock,
+  },
+  SUBMITTED: {
+    label: "Submitted for review",
+    className: "bg-blue-50 text-blue-700",
+    icon: Send,
+  },
+  APPROVED: {
+    label: "Approved",
+    className: "bg-green-50 text-green-700",
+    icon: CheckCircle2,
+  },
+  RETURNED: {
+    label: "Returned",
+    className: "bg-amber-50 text-amber-700",
+    icon: Undo2,
+  },
+  LOCKED: {
+    label: "Locked",
+    className: "bg-[#124A69]/10 text-[#124A69]",
+    icon: Lock,
+  },
+};
+
+interface GradeSubmissionBarProps {
+  courseSlug: string;
+  term: string;
+}
+
+// Grade sheet status of the active term, with submission and release to the
+// student portal for the course faculty
+export function GradeSubmissionBar({
+  courseSlug,
+  term,
+}: GradeSubmissionBarProps) {
+  const { data: submissions = [] } = useGradeSubmissions(courseSlug);
+  const transition = useTransitionGradeSubmission();
+  const release = useSetGradeRelease();
+
+  const submission = (submissions as GradeSubmissionSummary[]).find(
+    (s) => s.term === term
+  );
+  if (!submission) return null;
+
+  const style = STATUS_STYLES[submission.status];
+  const Icon = style.icon;
+  const canSubmit =
+    submission.status === "DRAFT" || submission.status === "RETURNED";
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3 px-3 py-2 border border-gray-200 rounded-lg bg-white">
+      <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+        <span
+          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-medium ${style.className}`}
+        >
+          <Icon className="w-3 h-3" />
+          {style.label}
+        </span>
+        {submission.status === "LOCKED" && (
+          <span className="text-gray-600">
+            {submission.label} grades are final and can no longer be edited.
+          </span>
+        )}
+        {(submission.status === "SUBMITTED" ||
+          submission.status === "APPROVED") && (
+          <span className="text-gray-600">
+            {submission.label} grades are under review and cannot be edited.
+          </span>
+        )}
+        {submission.status === "RETURNED" && submission.note && (
+          <span className="text-amber-700">Reason: {submission.note}</span>
+        )}
+        {submission.releasedAt && (
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-medium bg-green-50 text-green-700">
+            <Eye className="w-3 h-3" />
+            Visible to students
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() =>
+            release
+              .mutateAsync({
+                courseSlug,
+                term,
+                released: !submission.releasedAt,
+              })
+              .catch(() => {})
+          }
+          disabled={release.isPending}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg border border-[#124A69] text-[#124A69] hover:bg-[#124A69]/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submission.releasedAt ? (
+            <EyeOff className="w-3.5 h-3.5" />
+          ) : (
+            <Eye className="w-3.5 h-3.5" />
+          )}
+          {submission.releasedAt ? "Hide from students" : "Release to students"}
+        </button>
+        {canSubmit && (
+          <button
+            onClick={() =>
+              transition
+                .mutateAsync({ courseSlug, term, action: "SUBMIT" })
+                .catch(() => {})
+            }
+            disabled={transition.isPending}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-[#124A69] text-white hover:bg-[#0D3A54] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send className="w-3.5 h-3.5" />
+            {submission.status === "RETURNED"
+              ? "Resubmit for review"
+              : "Submit for review"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -30,7 +30,6 @@ import {
 import toast from "react-hot-toast";
 import GradingTableHeader from "./grading-table-header";
 import GradingTableRow from "./grading-table-row";
-import * as XLSX from "xlsx";
 import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -42,6 +41,7 @@ import {
   PaginationNext,
 } from "@/components/ui/pagination";
 import { ExportReporting } from "./export-reporting";
+import { CriteriaTemplatePanel } from "./criteria-template-panel";
 import { useRouter, usePathname } from "next/navigation";
 import {
   AlertDialog,
@@ -76,6 +76,8 @@ import {
   useGroupCriteriaByCourse,
   useCreateCriteria,
   useUpdateCriteria,
+  useCreateCriteriaTemplate,
+  usePublishCriteriaToTemplate,
   useUploadImage,
   useDeleteImage,
 } from "@/lib/hooks/queries";
@@ -122,6 +124,8 @@ interface GradingReport {
   };
   isGroupCriteria: boolean;
   isRecitationCriteria?: boolean;
+  templateId?: string | null;
+  templateVersion?: number | null;
 }
 
 interface RubricDetail {
@@ -430,6 +434,9 @@ export function GradingTable({
     null
   );
   const [showEditDialog, setShowEditDialog] = useState(false);
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [shareTemplate, setShareTemplate] = useState(false);
+  const [publishToTemplate, setPublishToTemplate] = useState(false);
   const [showRubricChangeWarning, setShowRubricChangeWarning] = useState(false);
   const [pendingRubricCount, setPendingRubricCount] = useState<string | null>(
     null
@@ -1032,6 +1039,8 @@ export function GradingTable({
   const deleteGradesMutation = useDeleteGrades();
   const createCriteriaMutation = useCreateCriteria();
   const updateCriteriaMutation = useUpdateCriteria();
+  const createTemplateMutation = useCreateCriteriaTemplate();
+  const publishTemplateMutation = usePublishCriteriaToTemplate();
   const uploadImageMutation = useUploadImage();
   const deleteImageMutation = useDeleteImage();
 
@@ -1797,6 +1806,26 @@ export function GradingTable({
           })),
         },
       });
+      if (saveAsTemplate) {
+        // A failed template save shouldn't undo the report that was just created
+        await createTemplateMutation
+          .mutateAsync({
+            name: newReport.name,
+            scope: shareTemplate ? "DEPARTMENT" : "PERSONAL",
+            isGroupCriteria: isGroupView,
+            isRecitationCriteria,
+            scoringRange: Number(newReport.scoringRange),
+            passingScore: Number(newReport.passingScore),
+            rubrics: rubrics.map((r) => ({
+              name: r.name,
+              percentage: r.percentage,
+            })),
+            sourceCriteriaId: created.id,
+          })
+          .catch(() => undefined);
+        setSaveAsTemplate(false);
+        setShareTemplate(false);
+      }
       setSavedReports((prev) => [created, ...prev]);
       setActiveReport(created);
       setRubricDetails(created.rubrics);
@@ -1996,140 +2025,6 @@ export function GradingTable({
     setShowExportPreview(true);
   };
 
-  const handleConfirmExport = () => {
-    if (!exportData) return;
-
-    try {
-      const { header, studentRows } = exportData;
-      const ws = XLSX.utils.aoa_to_sheet([...header, ...studentRows]);
-
-      // Configure column widths
-      ws["!cols"] = [
-        { wch: 30 }, // Student Name
-        ...rubricDetails.map(() => ({ wch: 15 })), // Rubric scores
-        { wch: 15 }, // Total Grade
-        { wch: 15 }, // Remarks
-      ];
-
-      // Style configurations
-      const headerStyle = {
-        fill: { fgColor: { rgb: "124A69" } }, // Dark blue background
-        font: { color: { rgb: "FFFFFF" }, bold: true }, // White bold text
-        alignment: { horizontal: "center", vertical: "center" },
-        border: {
-          top: { style: "thin", color: { rgb: "000000" } },
-          bottom: { style: "thin", color: { rgb: "000000" } },
-          left: { style: "thin", color: { rgb: "000000" } },
-          right: { style: "thin", color: { rgb: "000000" } },
-        },
-      };
-
-      const subHeaderStyle = {
-        fill: { fgColor: { rgb: "F5F6FA" } }, // Light gray background
-        font: { bold: true },
-        alignment: { horizontal: "center", vertical: "center" },
-        border: {
-          top: { style: "thin", color: { rgb: "000000" } },
-          bottom: { style: "thin", color: { rgb: "000000" } },
-          left: { style: "thin", color: { rgb: "000000" } },
-          right: { style: "thin", color: { rgb: "000000" } },
-        },
-      };
-
-      const cellStyle = {
-        alignment: { horizontal: "center", vertical: "center" },
-        border: {
-          top: { style: "thin", color: { rgb: "000000" } },
-          bottom: { style: "thin", color: { rgb: "000000" } },
-          left: { style: "thin", color: { rgb: "000000" } },
-          right: { style: "thin", color: { rgb: "000000" } },
-        },
-      };
-
-      // Apply styles to cells
-      const range = XLSX.utils.decode_range(ws["!ref"] || "A1");
-
-      // Style the title row
-      for (let C = range.s.c; C <= range.e.c; ++C) {
-        const cellRef = XLSX.utils.encode_cell({ r: 0, c: C });
-        if (!ws[cellRef]) ws[cellRef] = { v: "" };
-        ws[cellRef].s = headerStyle;
-      }
-
-      // Style the subheader row (column headers)
-      for (let C = range.s.c; C <= range.e.c; ++C) {
-        const cellRef = XLSX.utils.encode_cell({ r: 5, c: C });
-        if (!ws[cellRef]) ws[cellRef] = { v: "" };
-        ws[cellRef].s = subHeaderStyle;
-      }
-
-      // Style all other cells
-      for (let R = 6; R <= range.e.r; ++R) {
-        for (let C = range.s.c; C <= range.e.c; ++C) {
-          const cellRef = XLSX.utils.encode_cell({ r: R, c: C });
-          if (!ws[cellRef]) ws[cellRef] = { v: "" };
-
-          // Special styling for remarks column
-          if (C === range.e.c) {
-            const value = ws[cellRef].v;
-            if (value === "PASSED") {
-              ws[cellRef].s = {
-                ...cellStyle,
-                font: { color: { rgb: "008000" }, bold: true }, // Green for PASSED
-              };
-            } else if (value === "FAILED") {
-              ws[cellRef].s = {
-                ...cellStyle,
-                font: { color: { rgb: "FF0000" }, bold: true }, // Red for FAILED
-              };
-            } else {
-              ws[cellRef].s = cellStyle;
-            }
-          } else {
-            ws[cellRef].s = cellStyle;
-          }
-        }
-      }
-
-      // Merge cells for title and info rows
-      ws["!merges"] = [
-        { s: { r: 0, c: 0 }, e: { r: 0, c: range.e.c } }, // Title row
-        { s: { r: 1, c: 0 }, e: { r: 1, c: range.e.c } }, // Empty row
-        { s: { r: 2, c: 1 }, e: { r: 2, c: range.e.c } }, // Date row
-        { s: { r: 3, c: 1 }, e: { r: 3, c: range.e.c } }, // Report name row
-        { s: { r: 4, c: 0 }, e: { r: 4, c: range.e.c } }, // Empty row
-      ];
-
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, "Grades");
-
-      // Generate filename with date
-      const formattedDate = selectedDate?.toISOString().split("T")[0];
-      const filename = `${courseCode}-${courseSection}-${formattedDate}-grades.xlsx`;
-      XLSX.writeFile(wb, filename);
-
-      setShowExportPreview(false);
-      toast.success("Grades exported successfully", {
-        duration: 3000,
-        style: {
-          background: "#fff",
-          color: "#124A69",
-          border: "1px solid #e5e7eb",
-        },
-      });
-    } catch (error) {
-      console.error("Error exporting grades:", error);
-      toast.error("Failed to export grades", {
-        duration: 3000,
-        style: {
-          background: "#fff",
-          color: "#dc2626",
-          border: "1px solid #e5e7eb",
-        },
-      });
-    }
-  };
-
   // Function to handle filter changes in the filter sheet (temporary state)
   const handleFilterChange = (key: keyof typeof tempGradeFilter) => {
     const newFilter = {
@@ -2836,6 +2731,16 @@ export function GradingTable({
           passingScore: Number(newReport.passingScore),
         },
       });
+      if (publishToTemplate && editingReport.templateId) {
+        const template = await publishTemplateMutation
+          .mutateAsync({
+            templateId: editingReport.templateId,
+            criteriaId: editingReport.id,
+          })
+          .catch(() => undefined);
+        if (template) updated.templateVersion = template.version;
+      }
+      setPublishToTemplate(false);
       setSavedReports((prev) =>
         prev.map((report) => (report.id === updated.id ? updated : report))
       );
@@ -3456,7 +3361,7 @@ export function GradingTable({
             </div>
           ) : (
             <Tabs defaultValue="existing" className="w-full">
-              <TabsList className="grid w-full grid-cols-2 bg-gray-100 p-1 rounded-lg">
+              <TabsList className="grid w-full grid-cols-3 bg-gray-100 p-1 rounded-lg">
                 <TabsTrigger
                   value="existing"
                   className="data-[state=active]:bg-white data-[state=active]:shadow-sm"
@@ -3469,6 +3374,12 @@ export function GradingTable({
                 >
                   Create New
                 </TabsTrigger>
+                <TabsTrigger
+                  value="template"
+                  className="data-[state=active]:bg-white data-[state=active]:shadow-sm"
+                >
+                  Templates
+                </TabsTrigger>
               </TabsList>
               <TabsContent value="existing">
                 <div className="space-y-4 py-4">
@@ -3796,6 +3707,30 @@ export function GradingTable({
                       </div>
                     </div>
                   </div>
+                  {!isEditingCriteria && (
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <Checkbox
+                          checked={saveAsTemplate}
+                          onCheckedChange={(checked) =>
+                            setSaveAsTemplate(checked === true)
+                          }
+                        />
+                        Save as template
+                      </label>
+                      {saveAsTemplate && (
+                        <label className="flex items-center gap-2 pl-6 text-sm text-gray-700 cursor-pointer">
+                          <Checkbox
+                            checked={shareTemplate}
+                            onCheckedChange={(checked) =>
+                              setShareTemplate(checked === true)
+                            }
+                          />
+                          Share with my department
+                        </label>
+                      )}
+                    </div>
+                  )}
                   <DialogFooter className="gap-2 sm:gap-2">
                     <Button
                       variant="outline"
@@ -3853,6 +3788,29 @@ export function GradingTable({
                   </DialogFooter>
                 </div>
               </TabsContent>
+              <TabsContent value="template">
+                <CriteriaTemplatePanel
+                  courseSlug={courseSlug}
+                  templateType={
+                    isGroupView
+                      ? "group"
+                      : isRecitationCriteria
+                      ? "recitation"
+                      : "individual"
+                  }
+                  selectedDate={selectedDate}
+                  onCancel={handleDialogClose}
+                  onApplied={(created) => {
+                    if (!created) return;
+                    setSavedReports((prev) => [created, ...prev]);
+                    setActiveReport(created);
+                    setRubricDetails(created.rubrics);
+                    setSelectedReport(created.id);
+                    setHasSelectedCriteria(true);
+                    setShowCriteriaDialog(false);
+                  }}
+                />
+              </TabsContent>
             </Tabs>
           )}
         </DialogContent>
@@ -3924,9 +3882,9 @@ export function GradingTable({
         setShowExportPreview={setShowExportPreview}
         exportData={exportData}
         selectedDate={selectedDate}
-        courseCode={courseCode}
-        courseSection={courseSection}
-        rubricDetails={rubricDetails}
+        courseSlug={courseSlug}
+        criteriaId={activeReport?.id}
+        groupId={isGroupView ? groupId : undefined}
       />
 
       {/* Reset Confirmation Modal */}
@@ -4247,6 +4205,17 @@ export function GradingTable({
                 </div>
               </div>
             </div>
+            {editingReport?.templateId && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <Checkbox
+                  checked={publishToTemplate}
+                  onCheckedChange={(checked) =>
+                    setPublishToTemplate(checked === true)
+                  }
+                />
+                Publish these changes as a new template version
+              </label>
+            )}
             <DialogFooter className="gap-2 sm:gap-2">
               <Button
                 variant="outline"
@@ -0,0 +1,616 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { AppSidebar } from "@/shared/components/layout/app-sidebar";
+import Header from "@/shared/components/layout/header";
+import Rightsidebar from "@/shared/components/layout/right-sidebar";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  QuizFormInput,
+  useCreateQuiz,
+  useDeleteQuiz,
+  useQuiz,
+  useQuizzes,
+  useSaveQuizScores,
+  useTermConfigs,
+  useUpdateQuiz,
+} from "@/lib/hooks/queries";
+
+interface Course {
+  id: string;
+  code: string;
+  title: string;
+  section: string;
+  slug: string;
+}
+
+interface Quiz {
+  id: string;
+  name: string;
+  quizDate: string;
+  attendanceRangeStart: string;
+  attendanceRangeEnd: string;
+  maxScore: number;
+  passingRate: number;
+  maxPlusPoints: number;
+  assessmentId: string | null;
+  assessment: {
+    id: string;
+    name: string;
+    termConfig: { term: string };
+  } | null;
+  _count: { scores: number };
+}
+
+interface QuizScoreRow {
+  student: {
+    id: string;
+    studentId: string;
+    firstName: string;
+    lastName: string;
+    middleInitial: string | null;
+  };
+  score: number | null;
+  attendance: string;
+  plusPoints: number;
+  totalGrade: number | null;
+  remarks: string | null;
+}
+
+interface QuizPageClientProps {
+  course: Course;
+}
+
+const NO_LINK = "none";
+
+const toDateInput = (value?: string) =>
+  value ? value.slice(0, 10) : format(new Date(), "yyyy-MM-dd");
+
+const emptyForm = (): QuizFormInput => ({
+  name: "",
+  quizDate: toDateInput(),
+  attendanceRangeStart: toDateInput(),
+  attendanceRangeEnd: toDateInput(),
+  maxScore: 10,
+  passingRate: 75,
+  maxPlusPoints: 0,
+  assessmentId: null,
+});
+
+export function QuizPageClient({ course }: QuizPageClientProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedQuizId, setSelectedQuizId] = useState<string | null>(null);
+  const [editingQuiz, setEditingQuiz] = useState<Quiz | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<QuizFormInput>(emptyForm);
+  const [draftScores, setDraftScores] = useState<Record<string, string>>({});
+
+  const { data: quizzes = [], isLoading } = useQuizzes(course.slug);
+  const { data: quizData, isLoading: isQuizLoading } = useQuiz(
+    course.slug,
+    selectedQuizId
+  );
+  const { data: termConfigs } = useTermConfigs(course.slug);
+  const createQuiz = useCreateQuiz();
+  const updateQuiz = useUpdateQuiz();
+  const deleteQuiz = useDeleteQuiz();
+  const saveScores = useSaveQuizScores();
+
+  const selectedQuiz = (quizzes as Quiz[]).find((q) => q.id === selectedQuizId);
+  const rows: QuizScoreRow[] = quizData?.students ?? [];
+
+  // QUIZ assessments of the class record that can receive this quiz's scores
+  const linkableAssessments = useMemo(() => {
+    const linked = new Set(
+      (quizzes as Quiz[])
+        .filter((q) => q.assessmentId && q.id !== editingQuiz?.id)
+        .map((q) => q.assessmentId)
+    );
+    return Object.values((termConfigs ?? {}) as Record<string, any>).flatMap(
+      (config: any) =>
+        (config.assessments ?? [])
+          .filter((a: any) => a.type === "QUIZ" && !linked.has(a.id))
+          .map((a: any) => ({ id: a.id, label: `${config.term} · ${a.name}` }))
+    );
+  }, [termConfigs, quizzes, editingQuiz]);
+
+  useEffect(() => {
+    if (!selectedQuizId && quizzes.length > 0) {
+      setSelectedQuizId(quizzes[0].id);
+    }
+  }, [quizzes, selectedQuizId]);
+
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    rows.forEach((row) => {
+      next[row.student.id] = row.score !== null ? String(row.score) : "";
+    });
+    setDraftScores(next);
+  }, [quizData]);
+
+  const openCreate = () => {
+    setEditingQuiz(null);
+    setForm(emptyForm());
+    setFormOpen(true);
+  };
+
+  const openEdit = (quiz: Quiz) => {
+    setEditingQuiz(quiz);
+    setForm({
+      name: quiz.name,
+      quizDate: toDateInput(quiz.quizDate),
+      attendanceRangeStart: toDateInput(quiz.attendanceRangeStart),
+      attendanceRangeEnd: toDateInput(quiz.attendanceRangeEnd),
+      maxScore: quiz.maxScore,
+      passingRate: quiz.passingRate,
+      maxPlusPoints: quiz.maxPlusPoints,
+      assessmentId: quiz.assessmentId,
+    });
+    setFormOpen(true);
+  };
+
+  const handleSubmitQuiz = async () => {
+    try {
+      if (editingQuiz) {
+        await updateQuiz.mutateAsync({
+          courseSlug: course.slug,
+          quizId: editingQuiz.id,
+          quiz: form,
+        });
+      } else {
+        const created = await createQuiz.mutateAsync({
+          courseSlug: course.slug,
+          quiz: form,
+        });
+        setSelectedQuizId(created.id);
+      }
+      setFormOpen(false);
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  const handleDeleteQuiz = async (quiz: Quiz) => {
+    if (!window.confirm(`Delete ${quiz.name} and all of its scores?`)) return;
+    try {
+      await deleteQuiz.mutateAsync({
+        courseSlug: course.slug,
+        quizId: quiz.id,
+      });
+      if (selectedQuizId === quiz.id) setSelectedQuizId(null);
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  const isScoreInvalid = (value: string) => {
+    if (value.trim() === "") return false;
+    const score = Number(value);
+    return (
+      isNaN(score) || score < 0 || score > (selectedQuiz?.maxScore ?? Infinity)
+    );
+  };
+
+  const changedScores = rows
+    .filter((row) => {
+      const draft = draftScores[row.student.id] ?? "";
+      return draft !== (row.score !== null ? String(row.score) : "");
+    })
+    .map((row) => {
+      const draft = (draftScores[row.student.id] ?? "").trim();
+      return {
+        studentId: row.student.id,
+        score: draft === "" ? null : Number(draft),
+      };
+    });
+  const hasInvalidScore = Object.values(draftScores).some(isScoreInvalid);
+
+  const handleSaveScores = () => {
+    if (!selectedQuizId || changedScores.length === 0 || hasInvalidScore) {
+      return;
+    }
+    saveScores
+      .mutateAsync({
+        courseSlug: course.slug,
+        quizId: selectedQuizId,
+        scores: changedScores,
+      })
+      .catch(() => {});
+  };
+
+  const isFormValid =
+    form.name.trim().length > 0 &&
+    form.maxScore > 0 &&
+    form.passingRate >= 0 &&
+    form.passingRate <= 100 &&
+    form.maxPlusPoints >= 0 &&
+    form.attendanceRangeStart <= form.attendanceRangeEnd;
+
+  return (
+    <SidebarProvider open={open} onOpenChange={setOpen}>
+      <div className="relative h-screen w-screen overflow-hidden">
+        <Header />
+        <AppSidebar />
+        <main className="h-full w-full xl:w-[calc(100%-22.5rem)] pl-[4rem] sm:pl-[5rem] transition-all">
+          <div className="flex flex-col flex-grow px-4">
+            <div className="flex items-center justify-between mb-2">
+              <h1 className="text-3xl font-bold tracking-tight text-[#A0A0A0]">
+                Quiz
+              </h1>
+              <h1 className="text-2xl font-bold tracking-tight text-[#A0A0A0]">
+                {format(new Date(), "EEEE, MMMM d")}
+              </h1>
+            </div>
+
+            <div className="flex-1 overflow-y-auto pb-6 grid gap-4 lg:grid-cols-[18rem_1fr]">
+              <Card className="border-[#124A69]/20 shadow-sm h-fit">
+                <CardHeader className="pb-3 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-sm sm:text-base font-semibold text-[#124A69]">
+                      {course.code} - {course.section}
+                    </CardTitle>
+                    <Button
+                      size="sm"
+                      className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                      onClick={openCreate}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Quiz
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-3">
+                  {isLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading...</p>
+                  ) : quizzes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No quizzes yet
+                    </p>
+                  ) : (
+                    <div className="space-y-1">
+                      {(quizzes as Quiz[]).map((quiz) => (
+                        <div
+                          key={quiz.id}
+                          className={`flex items-center justify-between gap-2 rounded-md px-2 py-2 cursor-pointer ${
+                            quiz.id === selectedQuizId
+                              ? "bg-[#124A69]/10"
+                              : "hover:bg-gray-50"
+                          }`}
+                          onClick={() => setSelectedQuizId(quiz.id)}
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-gray-900 truncate">
+                              {quiz.name}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {format(new Date(quiz.quizDate), "MMM d, yyyy")} ·{" "}
+                              {quiz._count.scores} scored
+                              {quiz.assessment &&
+                                ` · ${quiz.assessment.termConfig.term}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                openEdit(quiz);
+                              }}
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7 text-red-600"
+                              disabled={deleteQuiz.isPending}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteQuiz(quiz);
+                              }}
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border-[#124A69]/20 shadow-sm">
+                <CardHeader className="pb-3 border-b bg-gradient-to-r from-[#124A69]/5 to-transparent">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-sm sm:text-base font-semibold text-[#124A69]">
+                        {selectedQuiz?.name ?? "Select a quiz"}
+                      </CardTitle>
+                      {selectedQuiz && (
+                        <p className="text-xs text-muted-foreground">
+                          Max {selectedQuiz.maxScore} · passing{" "}
+                          {selectedQuiz.passingRate}% · up to{" "}
+                          {selectedQuiz.maxPlusPoints} plus points for
+                          attendance{" "}
+                          {format(
+                            new Date(selectedQuiz.attendanceRangeStart),
+                            "MMM d"
+                          )}
+                          –
+                          {format(
+                            new Date(selectedQuiz.attendanceRangeEnd),
+                            "MMM d"
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    {selectedQuiz && (
+                      <div className="flex items-center gap-2">
+                        {selectedQuiz.assessment && (
+                          <Badge className="bg-[#124A69]/10 text-[#124A69] border-[#124A69]/20">
+                            Class record:{" "}
+                            {selectedQuiz.assessment.termConfig.term} ·{" "}
+                            {selectedQuiz.assessment.name}
+                          </Badge>
+                        )}
+                        <Button
+                          size="sm"
+                          className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+                          disabled={
+                            changedScores.length === 0 ||
+                            hasInvalidScore ||
+                            saveScores.isPending
+                          }
+                          onClick={handleSaveScores}
+                        >
+                          Save scores
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-3">
+                  {!selectedQuizId ? (
+                    <p className="text-sm text-muted-foreground">
+                      Create or select a quiz to enter scores
+                    </p>
+                  ) : isQuizLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading...</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Student</TableHead>
+                          <TableHead className="w-28">Score</TableHead>
+                          <TableHead>Attendance</TableHead>
+                          <TableHead className="text-right">Plus</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                          <TableHead>Remarks</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map((row) => {
+                          const draft = draftScores[row.student.id] ?? "";
+                          return (
+                            <TableRow key={row.student.id}>
+                              <TableCell className="font-medium">
+                                {row.student.lastName}, {row.student.firstName}
+                                {row.student.middleInitial
+                                  ? ` ${row.student.middleInitial}.`
+                                  : ""}
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  inputMode="numeric"
+                                  value={draft}
+                                  className={`h-8 ${
+                                    isScoreInvalid(draft)
+                                      ? "border-red-500"
+                                      : ""
+                                  }`}
+                                  onChange={(e) =>
+                                    setDraftScores((prev) => ({
+                                      ...prev,
+                                      [row.student.id]: e.target.value,
+                                    }))
+                                  }
+                                />
+                              </TableCell>
+                              <TableCell className="text-xs text-muted-foreground">
+                                {row.attendance}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                +{row.plusPoints}
+                              </TableCell>
+                              <TableCell className="text-right font-semibold">
+                                {row.totalGrade ?? "-"}
+                              </TableCell>
+                              <TableCell>
+                                {row.remarks && (
+                                  <Badge
+                                    className={
+                                      row.remarks === "PASSED"
+                                        ? "bg-green-50 text-green-700 border-green-200"
+                                        : "bg-red-50 text-red-700 border-red-200"
+                                    }
+                                  >
+                                    {row.remarks}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+
+          <Rightsidebar />
+        </main>
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingQuiz ? "Edit quiz" : "New quiz"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="quiz-name">Name</Label>
+              <Input
+                id="quiz-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="quiz-date">Quiz date</Label>
+              <Input
+                id="quiz-date"
+                type="date"
+                value={form.quizDate}
+                onChange={(e) => setForm({ ...form, quizDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="quiz-range-start">Attendance from</Label>
+              <Input
+                id="quiz-range-start"
+                type="date"
+                value={form.attendanceRangeStart}
+                onChange={(e) =>
+                  setForm({ ...form, attendanceRangeStart: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="quiz-range-end">Attendance to</Label>
+              <Input
+                id="quiz-range-end"
+                type="date"
+                value={form.attendanceRangeEnd}
+                onChange={(e) =>
+                  setForm({ ...form, attendanceRangeEnd: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="quiz-max-score">Max score</Label>
+              <Input
+                id="quiz-max-score"
+                type="number"
+                min={1}
+                value={form.maxScore}
+                onChange={(e) =>
+                  setForm({ ...form, maxScore: Number(e.target.value) })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="quiz-passing-rate">Passing rate (%)</Label>
+              <Input
+                id="quiz-passing-rate"
+                type="number"
+                min={0}
+                max={100}
+                value={form.passingRate}
+                onChange={(e) =>
+                  setForm({ ...form, passingRate: Number(e.target.value) })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="quiz-plus-points">Max plus points</Label>
+              <Input
+                id="quiz-plus-points"
+                type="number"
+                min={0}
+                value={form.maxPlusPoints}
+                onChange={(e) =>
+                  setForm({ ...form, maxPlusPoints: Number(e.target.value) })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Class record quiz</Label>
+              <Select
+                value={form.assessmentId ?? NO_LINK}
+                onValueChange={(value) =>
+                  setForm({
+                    ...form,
+                    assessmentId: value === NO_LINK ? null : value,
+                  })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LINK}>Not linked</SelectItem>
+                  {linkableAssessments.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Plus points are the share of attended meetings in the range (late
+            counts as half, excused as attended) times the max plus points.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+              disabled={
+                !isFormValid || createQuiz.isPending || updateQuiz.isPending
+              }
+              onClick={handleSubmitQuiz}
+            >
+              {editingQuiz ? "Save quiz" : "Create quiz"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, Pencil } from "lucide-react";
+import { useSetCourseTerms } from "@/lib/hooks/queries";
+import {
+  TermDefinition,
+  toTermKey,
+  validateTermDefinitions,
+} from "@/lib/services/grading-engine";
+
+interface TermStructureEditorProps {
+  courseSlug: string;
+  terms: TermDefinition[];
+  onTermsChange?: (terms: TermDefinition[]) => void;
+}
+
+interface TermDraft {
+  key?: string;
+  label: string;
+  weight: string;
+}
+
+export function TermStructureEditor({
+  courseSlug,
+  terms,
+  onTermsChange,
+}: TermStructureEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [drafts, setDrafts] = useState<TermDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const setCourseTerms = useSetCourseTerms();
+
+  const startEditing = () => {
+    setDrafts(
+      terms.map((term) => ({
+        key: term.key,
+        label: term.label,
+        weight: String(term.weight),
+      }))
+    );
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const updateDraft = (index: number, updates: Partial<TermDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, ...updates } : draft))
+    );
+  };
+
+  // Existing terms keep their key so their assessments stay attached on rename
+  const toDefinitions = (): TermDefinition[] =>
+    drafts.map((draft) => ({
+      key: draft.key ?? toTermKey(draft.label),
+      label: draft.label.trim(),
+      weight: Number(draft.weight),
+    }));
+
+  const totalWeight = drafts.reduce(
+    (sum, draft) => sum + (Number(draft.weight) || 0),
+    0
+  );
+
+  const handleSave = async () => {
+    const definitions = toDefinitions();
+    const validationError = validateTermDefinitions(definitions);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      const result = await setCourseTerms.mutateAsync({
+        courseSlug,
+        terms: definitions,
+      });
+      if (result?.terms) {
+        onTermsChange?.(result.terms);
+      }
+      setIsEditing(false);
+    } catch {
+      // Error toast comes from the mutation
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 px-4 sm:px-6 py-2 sm:py-3 border-b bg-gray-50">
+        <span className="text-xs sm:text-sm font-medium text-[#124A69]">
+          Terms
+        </span>
+        <span className="flex-1 text-xs text-gray-600">
+          {terms.map((term) => `${term.label} ${term.weight}%`).join(" · ")}
+        </span>
+        <button
+          onClick={startEditing}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-[#124A69] hover:bg-[#124A69]/10 rounded transition-colors"
+        >
+          <Pencil className="w-3 h-3" />
+          Edit terms
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 sm:px-6 py-3 border-b bg-gray-50 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs sm:text-sm font-medium text-[#124A69]">
+          Terms and final-grade weights
+        </span>
+        <span
+          className={`text-xs font-medium ${
+            Math.abs(totalWeight - 100) < 0.01
+              ? "text-green-600"
+              : "text-red-600"
+          }`}
+        >
+          Total: {totalWeight}%
+        </span>
+      </div>
+
+      {drafts.map((draft, index) => (
+        <div key={draft.key ?? `new-${index}`} className="flex gap-2">
+          <input
+            type="text"
+            value={draft.label}
+            placeholder="Term name"
+            onChange={(e) => updateDraft(index, { label: e.target.value })}
+            className="flex-1 px-2 py-1.5 border border-gray-300 rounded text-xs sm:text-sm"
+          />
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.weight}
+              onChange={(e) => updateDraft(index, { weight: e.target.value })}
+              className="w-16 sm:w-20 px-2 py-1.5 border border-gray-300 rounded text-xs sm:text-sm text-center"
+            />
+            <span className="text-xs text-gray-500">%</span>
+          </div>
+          <button
+            onClick={() =>
+              setDrafts((prev) => prev.filter((_, i) => i !== index))
+            }
+            disabled={drafts.length <= 1}
+            className="p-1.5 text-red-500 hover:bg-red-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Remove term"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() =>
+            setDrafts((prev) => [...prev, { label: "", weight: "0" }])
+          }
+          className="flex items-center gap-1 px-2 py-1 text-xs text-[#124A69] hover:bg-[#124A69]/10 rounded transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add term
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsEditing(false)}
+            className="px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={setCourseTerms.isPending}
+            className="px-3 py-1.5 text-xs rounded-lg bg-[#124A69] text-white hover:bg-[#0D3A54] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {setCourseTerms.isPending ? "Saving..." : "Save terms"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,7 @@
 // Term Types
-export const TERMS = [
-  "PRELIM",
-  "MIDTERM",
-  "PREFINALS",
-  "FINALS",
-  "SUMMARY",
-] as const;
-
-export type Term = (typeof TERMS)[number];
+// Term keys come from the course's own term list (e.g. "PRELIM", "FINALS");
+// "SUMMARY" is the class record's aggregate tab
+export type Term = string;
 
 // Assessment Types
 export interface Assessment {
@@ -90,12 +84,21 @@ export interface FinalGrade {
   remarks: "PASSED" | "FAILED";
 }
 
-// Term Weights Constants
-export const TERM_WEIGHTS = {
-  PRELIM: 0.2,
-  MIDTERM: 0.2,
-  PREFINALS: 0.2,
-  FINALS: 0.4,
-} as const;
+// Grade Sheet Workflow
+export type GradeSubmissionStatus =
+  | "DRAFT"
+  | "SUBMITTED"
+  | "APPROVED"
+  | "RETURNED"
+  | "LOCKED";
 
-export type TermWeight = typeof TERM_WEIGHTS;
+export interface GradeSubmissionSummary {
+  term: string;
+  label: string;
+  status: GradeSubmissionStatus;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  lockedAt: string | null;
+  releasedAt: string | null;
+  note: string | null;
+}
@@ -0,0 +1,522 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Crown, SlidersHorizontal, X } from "lucide-react";
+import { toast } from "react-hot-toast";
+import axios from "@/lib/axios";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useGenerateGroupPreview } from "@/lib/hooks/queries";
+// Note: like the randomizer, groups are created through the API directly so
+// the batch gets one toast instead of one per group.
+
+type BalanceBy = "NONE" | "GRADE" | "ATTENDANCE";
+type LeaderRule = "NONE" | "RANDOM" | "HIGHEST_GRADE" | "BEST_ATTENDANCE";
+
+interface Student {
+  id: string;
+  name: string;
+  status: string;
+}
+
+interface PreviewStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  grade: number | null;
+  attendanceRate: number | null;
+}
+
+interface GroupPreview {
+  seed: number;
+  groups: Array<{
+    students: PreviewStudent[];
+    leaderId: string | null;
+    meanGrade: number | null;
+    meanAttendance: number | null;
+    repeatPairs: number;
+    keepApartViolations: number;
+  }>;
+  metrics: {
+    students: number;
+    groups: number;
+    gradeSpread: number | null;
+    attendanceSpread: number | null;
+    repeatPairs: number;
+    keepApartViolations: number;
+  };
+  warnings: string[];
+}
+
+interface PairConstraint {
+  a: string;
+  b: string;
+  together: boolean;
+}
+
+interface GroupGeneratorProps {
+  students: Student[];
+  excludedStudentIds: string[];
+  courseCode: string;
+  onGroupsCreated: () => void;
+  nextGroupNumber?: number;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value.toFixed(1)}%`;
+
+export function GroupGenerator({
+  students,
+  excludedStudentIds,
+  courseCode,
+  onGroupsCreated,
+  nextGroupNumber = 1,
+}: GroupGeneratorProps) {
+  const [open, setOpen] = useState(false);
+  const [minSize, setMinSize] = useState(3);
+  const [maxSize, setMaxSize] = useState(5);
+  const [balanceBy, setBalanceBy] = useState<BalanceBy>("GRADE");
+  const [leaderRule, setLeaderRule] = useState<LeaderRule>("HIGHEST_GRADE");
+  const [avoidRepeatPairs, setAvoidRepeatPairs] = useState(true);
+  const [pairs, setPairs] = useState<PairConstraint[]>([]);
+  const [pairA, setPairA] = useState("");
+  const [pairB, setPairB] = useState("");
+  const [preview, setPreview] = useState<GroupPreview | null>(null);
+  const [groupNames, setGroupNames] = useState<Record<number, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  const generatePreview = useGenerateGroupPreview();
+
+  const availableStudents = students.filter(
+    (s) => !excludedStudentIds.includes(s.id)
+  );
+  const studentName = (id: string) =>
+    availableStudents.find((s) => s.id === id)?.name ?? "Unknown student";
+
+  useEffect(() => {
+    if (open) {
+      setPreview(null);
+      setGroupNames({});
+      setPairs([]);
+      setPairA("");
+      setPairB("");
+    }
+  }, [open]);
+
+  const addPair = (together: boolean) => {
+    if (!pairA || !pairB || pairA === pairB) return;
+    setPairs((current) => [
+      ...current.filter(
+        (p) =>
+          !(
+            (p.a === pairA && p.b === pairB) ||
+            (p.a === pairB && p.b === pairA)
+          )
+      ),
+      { a: pairA, b: pairB, together },
+    ]);
+    setPairA("");
+    setPairB("");
+    setPreview(null);
+  };
+
+  const handleGenerate = async () => {
+    const result = await generatePreview
+      .mutateAsync({
+        courseSlug: courseCode,
+        options: {
+          minSize,
+          maxSize,
+          balanceBy,
+          leaderRule,
+          avoidRepeatPairs,
+          keepTogether: pairs
+            .filter((p) => p.together)
+            .map((p) => [p.a, p.b] as [string, string]),
+          keepApart: pairs
+            .filter((p) => !p.together)
+            .map((p) => [p.a, p.b] as [string, string]),
+        },
+      })
+      .catch(() => null);
+    if (result) {
+      setPreview(result);
+      setGroupNames({});
+    }
+  };
+
+  const createGroups = async () => {
+    if (!preview) return;
+    try {
+      setIsCreating(true);
+      // One at a time so the duplicate name check sees earlier groups
+      for (const [i, group] of preview.groups.entries()) {
+        await axios.post(`/courses/${courseCode}/groups`, {
+          groupNumber: i + nextGroupNumber,
+          groupName: groupNames[i] || `Group ${i + nextGroupNumber}`,
+          studentIds: group.students.map((s) => s.id),
+          leaderId: group.leaderId ?? undefined,
+        });
+      }
+
+      await onGroupsCreated();
+
+      toast.success(`${preview.groups.length} groups created successfully`);
+      setOpen(false);
+    } catch (error: any) {
+      console.error("Error creating generated groups:", error);
+      toast.error(
+        error?.response?.data?.error ||
+          error?.message ||
+          "Failed to create groups"
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const sizeInput = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={2}
+        max={Math.max(2, availableStudents.length)}
+        value={value}
+        onChange={(e) => {
+          onChange(Number(e.target.value));
+          setPreview(null);
+        }}
+        disabled={isCreating}
+      />
+    </div>
+  );
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={availableStudents.length < 4}
+        className="relative flex flex-col items-center justify-center gap-2 rounded-full bg-white hover:bg-gray-50 border-2 border-[#124A69] transition-all disabled:opacity-70 disabled:cursor-not-allowed"
+        style={{ width: "8.75rem", height: "8.75rem" }}
+      >
+        <SlidersHorizontal
+          className="h-10 w-10 text-[#124A69]"
+          strokeWidth={2.5}
+        />
+        <span className="text-xs font-semibold text-[#124A69] text-center px-2">
+          Group Generator
+        </span>
+      </button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(value) => !isCreating && setOpen(value)}
+      >
+        <DialogContent className="w-[95vw] sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl sm:text-2xl font-bold text-[#124A69] flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5 sm:h-6 sm:w-6" />
+              Group Generator
+            </DialogTitle>
+            <DialogDescription className="text-gray-500">
+              Build balanced groups from the {availableStudents.length}{" "}
+              ungrouped students. Review the preview before creating the groups.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {/* Settings */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 bg-gray-50 p-3 sm:p-4 rounded-lg border-2 border-gray-200">
+              {sizeInput("generator-min", "Min per group", minSize, setMinSize)}
+              {sizeInput("generator-max", "Max per group", maxSize, setMaxSize)}
+              <div className="space-y-1">
+                <Label>Balance by</Label>
+                <Select
+                  value={balanceBy}
+                  onValueChange={(value) => {
+                    setBalanceBy(value as BalanceBy);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="GRADE">Current term grade</SelectItem>
+                    <SelectItem value="ATTENDANCE">Attendance rate</SelectItem>
+                    <SelectItem value="NONE">No balancing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Leader</Label>
+                <Select
+                  value={leaderRule}
+                  onValueChange={(value) => {
+                    setLeaderRule(value as LeaderRule);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="HIGHEST_GRADE">Highest grade</SelectItem>
+                    <SelectItem value="BEST_ATTENDANCE">
+                      Best attendance
+                    </SelectItem>
+                    <SelectItem value="RANDOM">Random member</SelectItem>
+                    <SelectItem value="NONE">No leader</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 md:col-span-4 flex items-center gap-2">
+                <Checkbox
+                  id="generator-repeat"
+                  checked={avoidRepeatPairs}
+                  onCheckedChange={(checked) => {
+                    setAvoidRepeatPairs(checked === true);
+                    setPreview(null);
+                  }}
+                />
+                <Label htmlFor="generator-repeat" className="font-normal">
+                  Avoid pairing students who were grouped together before in
+                  this course
+                </Label>
+              </div>
+            </div>
+
+            {/* Pair constraints */}
+            <div className="space-y-2 rounded-lg border-2 border-gray-200 p-3 sm:p-4">
+              <Label>Pairs</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {[
+                  { value: pairA, onChange: setPairA },
+                  { value: pairB, onChange: setPairB },
+                ].map((select, index) => (
+                  <Select
+                    key={index}
+                    value={select.value}
+                    onValueChange={select.onChange}
+                  >
+                    <SelectTrigger className="sm:flex-1">
+                      <SelectValue placeholder="Select a student" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableStudents.map((student) => (
+                        <SelectItem key={student.id} value={student.id}>
+                          {student.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+                <Button
+                  variant="outline"
+                  onClick={() => addPair(true)}
+                  disabled={!pairA || !pairB || pairA === pairB}
+                >
+                  Keep together
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => addPair(false)}
+                  disabled={!pairA || !pairB || pairA === pairB}
+                >
+                  Keep apart
+                </Button>
+              </div>
+              {pairs.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {pairs.map((pair) => (
+                    <Badge
+                      key={`${pair.a}:${pair.b}`}
+                      variant="outline"
+                      className={
+                        pair.together
+                          ? "bg-green-50 text-green-700 border-green-200"
+                          : "bg-red-50 text-red-700 border-red-200"
+                      }
+                    >
+                      {studentName(pair.a)}{" "}
+                      {pair.together ? "with" : "apart from"}{" "}
+                      {studentName(pair.b)}
+                      <button
+                        className="ml-1"
+                        onClick={() => {
+                          setPairs((current) =>
+                            current.filter((p) => p !== pair)
+                          );
+                          setPreview(null);
+                        }}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Preview */}
+            {preview && (
+              <div className="space-y-3 bg-gray-50 rounded-lg p-3 sm:p-4 border-2 border-[#124A69]">
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <Badge variant="outline">
+                    {preview.metrics.groups} groups · {preview.metrics.students}{" "}
+                    students
+                  </Badge>
+                  <Badge variant="outline">
+                    Grade spread {formatPercent(preview.metrics.gradeSpread)}
+                  </Badge>
+                  <Badge variant="outline">
+                    Attendance spread{" "}
+                    {formatPercent(preview.metrics.attendanceSpread)}
+                  </Badge>
+                  <Badge
+                    variant="outline"
+                    className={
+                      preview.metrics.repeatPairs > 0
+                        ? "bg-amber-50 text-amber-700 border-amber-200"
+                        : ""
+                    }
+                  >
+                    {preview.metrics.repeatPairs} repeat pairing(s)
+                  </Badge>
+                </div>
+                {preview.warnings.map((warning) => (
+                  <p
+                    key={warning}
+                    className="flex items-center gap-2 text-xs text-amber-700"
+                  >
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    {warning}
+                  </p>
+                ))}
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 sm:gap-3 max-h-[320px] overflow-y-auto">
+                  {preview.groups.map((group, idx) => (
+                    <div
+                      key={idx}
+                      className="bg-white rounded-lg p-2.5 sm:p-3 border-2 border-gray-200 shadow-sm"
+                    >
+                      <Input
+                        value={groupNames[idx] ?? ""}
+                        onChange={(e) =>
+                          setGroupNames((prev) => ({
+                            ...prev,
+                            [idx]: e.target.value,
+                          }))
+                        }
+                        placeholder={`Group ${idx + nextGroupNumber}`}
+                        className="text-xs sm:text-sm h-8 sm:h-9 mb-2 border-gray-300 focus:border-[#124A69] focus:ring-[#124A69]"
+                        disabled={isCreating}
+                      />
+                      <p className="text-[10px] sm:text-xs text-gray-500 mb-1.5">
+                        Grade {formatPercent(group.meanGrade)} · Attendance{" "}
+                        {formatPercent(group.meanAttendance)}
+                        {group.repeatPairs > 0 &&
+                          ` · ${group.repeatPairs} repeat`}
+                      </p>
+                      <div className="space-y-1">
+                        {group.students.map((s) => (
+                          <div
+                            key={s.id}
+                            className="text-[10px] sm:text-xs text-gray-600 flex items-center gap-1"
+                          >
+                            {s.id === group.leaderId ? (
+                              <Crown className="h-3 w-3 text-[#124A69]" />
+                            ) : (
+                              <span className="text-gray-400 w-3">•</span>
+                            )}
+                            <span className="truncate flex-1">
+                              {s.lastName}, {s.firstName}
+                            </span>
+                            <span className="text-gray-400">
+                              {formatPercent(
+                                balanceBy === "ATTENDANCE"
+                                  ? s.attendanceRate
+                                  : s.grade
+                              )}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 pt-4 border-t">
+              <Button
+                variant="outline"
+                onClick={() => setOpen(false)}
+                disabled={isCreating}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                variant={preview ? "outline" : "default"}
+                onClick={handleGenerate}
+                disabled={
+                  generatePreview.isPending ||
+                  isCreating ||
+                  minSize < 2 ||
+                  maxSize < minSize
+                }
+                className={
+                  preview
+                    ? "flex-1"
+                    : "flex-1 bg-[#124A69] hover:bg-[#0d3a56] text-white font-semibold"
+                }
+              >
+                {generatePreview.isPending
+                  ? "Generating..."
+                  : preview
+                  ? "Regenerate"
+                  : "Generate Preview"}
+              </Button>
+              {preview && (
+                <Button
+                  onClick={createGroups}
+                  disabled={isCreating || generatePreview.isPending}
+                  className="flex-1 bg-[#124A69] hover:bg-[#0d3a56] text-white font-semibold"
+                >
+                  {isCreating
+                    ? "Creating..."
+                    : `Create ${preview.groups.length} Groups`}
+                </Button>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { GroupCard } from "./group-card";
 import { AddGroupModal } from "./add-group-modal";
 import { WheelRandomizer } from "./randomizer-button";
+import { GroupGenerator } from "./group-generator-dialog";
 import { Loader2 } from "lucide-react";
 import { Group } from "@/shared/types/groups";
 import { AttendanceStatus } from "@prisma/client";
@@ -163,6 +164,13 @@ export function GroupGrid({
           onGroupsCreated={onGroupAdded}
           nextGroupNumber={nextGroupNumber}
         />
+        <GroupGenerator
+          students={students}
+          excludedStudentIds={excludedStudentIds}
+          courseCode={courseCode}
+          onGroupsCreated={onGroupAdded}
+          nextGroupNumber={nextGroupNumber}
+        />
       </div>
     );
   }
@@ -227,13 +235,22 @@ export function GroupGrid({
               groupMeta={groupMeta}
             />
             {ungroupedStudentCount > 4 && (
-              <WheelRandomizer
-                students={students}
-                excludedStudentIds={excludedStudentIds}
-                courseCode={courseCode}
-                onGroupsCreated={onGroupAdded}
-                nextGroupNumber={nextGroupNumber}
-              />
+              <>
+                <WheelRandomizer
+                  students={students}
+                  excludedStudentIds={excludedStudentIds}
+                  courseCode={courseCode}
+                  onGroupsCreated={onGroupAdded}
+                  nextGroupNumber={nextGroupNumber}
+                />
+                <GroupGenerator
+                  students={students}
+                  excludedStudentIds={excludedStudentIds}
+                  courseCode={courseCode}
+                  onGroupsCreated={onGroupAdded}
+                  nextGroupNumber={nextGroupNumber}
+                />
+              </>
             )}
           </div>
         )}
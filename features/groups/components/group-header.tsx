@@ -17,6 +17,7 @@ interface GroupHeaderProps {
   onToggleSelectionMode?: () => void;
   onDeleteSelected?: () => void;
   deleting?: boolean;
+  onOpenPeerEvaluation?: () => void;
 }
 
 export function GroupHeader({
@@ -31,6 +32,7 @@ export function GroupHeader({
   onToggleSelectionMode,
   onDeleteSelected,
   deleting = false,
+  onOpenPeerEvaluation,
 }: GroupHeaderProps) {
   return (
     <div className="flex items-center gap-2 px-4 py-3 border-b bg-[#F5F6FA] rounded-t-lg">
@@ -85,6 +87,15 @@ export function GroupHeader({
         </div>
         {hasGroups && (
           <div className="flex items-center gap-2">
+            {!selectionMode && onOpenPeerEvaluation && (
+              <Button
+                variant="outline"
+                onClick={onOpenPeerEvaluation}
+                className="h-9 px-3"
+              >
+                Peer evaluation
+              </Button>
+            )}
             <Button
               variant={selectionMode ? undefined : "outline"}
               onClick={() => onToggleSelectionMode?.()}
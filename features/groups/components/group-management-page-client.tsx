@@ -19,6 +19,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { GroupGrid } from "@/features/groups/components/group-grid";
+import { PeerEvaluationDialog } from "@/features/groups/components/peer-evaluation-dialog";
 import type { GroupMeta, Group, Course } from "@/features/groups/types";
 import { groupsService } from "@/lib/services/client";
 import { AttendanceStatus } from "@prisma/client";
@@ -59,6 +60,7 @@ export function GroupManagementPageClient({
   const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>([]);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const [isDeletingSelected, setIsDeletingSelected] = useState(false);
+  const [showPeerEvaluation, setShowPeerEvaluation] = useState(false);
 
   // Filter groups based on search query
   const filteredGroups = groups.filter((group) => {
@@ -200,6 +202,13 @@ export function GroupManagementPageClient({
                   }}
                   onDeleteSelected={() => setShowBulkDeleteConfirm(true)}
                   deleting={isDeletingSelected}
+                  onOpenPeerEvaluation={() => setShowPeerEvaluation(true)}
+                />
+
+                <PeerEvaluationDialog
+                  open={showPeerEvaluation}
+                  onOpenChange={setShowPeerEvaluation}
+                  courseSlug={courseSlug}
                 />
 
                 <div className="p-6">
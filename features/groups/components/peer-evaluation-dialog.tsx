@@ -0,0 +1,364 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useClosePeerEvaluation,
+  useGroupCriteriaByCourse,
+  useOpenPeerEvaluation,
+  usePeerEvaluation,
+} from "@/lib/hooks/queries";
+
+const DEFAULT_RUBRIC = [
+  "Contribution",
+  "Reliability",
+  "Communication",
+  "Quality of work",
+];
+
+interface PeerEvaluationGroup {
+  id: string;
+  number: string;
+  name: string | null;
+  students: Array<{
+    id: string;
+    firstName: string;
+    lastName: string;
+    submitted: boolean;
+    multiplier: number | null;
+  }>;
+}
+
+interface PeerEvaluationData {
+  status: "OPEN" | "CLOSED";
+  rubric: string[];
+  scale: number;
+  minMultiplier: number;
+  maxMultiplier: number;
+  closesAt: string;
+  closedAt: string | null;
+  groups: PeerEvaluationGroup[];
+}
+
+interface PeerEvaluationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  courseSlug: string;
+}
+
+export function PeerEvaluationDialog({
+  open,
+  onOpenChange,
+  courseSlug,
+}: PeerEvaluationDialogProps) {
+  const [criteriaId, setCriteriaId] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [rubric, setRubric] = useState<string[]>(DEFAULT_RUBRIC);
+  const [scale, setScale] = useState(5);
+  const [minMultiplier, setMinMultiplier] = useState(0.8);
+  const [maxMultiplier, setMaxMultiplier] = useState(1.2);
+  const [closesAt, setClosesAt] = useState("");
+
+  const { data: criteria = [] } = useGroupCriteriaByCourse(courseSlug, {
+    enabled: open,
+  });
+  const { data: evaluation, isLoading } = usePeerEvaluation(
+    courseSlug,
+    open ? criteriaId : ""
+  );
+  const openEvaluation = useOpenPeerEvaluation();
+  const closeEvaluation = useClosePeerEvaluation();
+  const current = evaluation as PeerEvaluationData | null | undefined;
+
+  // Start from the saved settings when reopening
+  useEffect(() => {
+    setEditing(false);
+    setRubric(current?.rubric ?? DEFAULT_RUBRIC);
+    setScale(current?.scale ?? 5);
+    setMinMultiplier(current?.minMultiplier ?? 0.8);
+    setMaxMultiplier(current?.maxMultiplier ?? 1.2);
+    setClosesAt(format(addDays(new Date(), 7), "yyyy-MM-dd'T'HH:mm"));
+  }, [criteriaId, current]);
+
+  const showForm = !!criteriaId && !isLoading && (!current || editing);
+  const isSaving = openEvaluation.isPending || closeEvaluation.isPending;
+
+  const handleOpen = async () => {
+    const opened = await openEvaluation
+      .mutateAsync({
+        courseSlug,
+        criteriaId,
+        rubric: rubric.map((item) => item.trim()).filter(Boolean),
+        scale,
+        closesAt: new Date(closesAt).toISOString(),
+        minMultiplier,
+        maxMultiplier,
+      })
+      .catch(() => null);
+    if (opened) setEditing(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-[#124A69] text-xl font-bold">
+            Peer Evaluation
+          </DialogTitle>
+          <DialogDescription className="text-gray-500">
+            Group members rate each other; on closing, each member&apos;s grade
+            for the criteria is multiplied by their rating relative to the
+            group.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Group criteria</Label>
+            <Select value={criteriaId} onValueChange={setCriteriaId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a group criteria" />
+              </SelectTrigger>
+              <SelectContent>
+                {(criteria as Array<{ id: string; name: string }>).map(
+                  (item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {criteriaId && isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-[#124A69]" />
+            </div>
+          )}
+
+          {showForm && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Rubric</Label>
+                {rubric.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={item}
+                      maxLength={60}
+                      onChange={(e) =>
+                        setRubric((items) =>
+                          items.map((value, i) =>
+                            i === index ? e.target.value : value
+                          )
+                        )
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={rubric.length <= 1}
+                      onClick={() =>
+                        setRubric((items) =>
+                          items.filter((_, i) => i !== index)
+                        )
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={rubric.length >= 10}
+                  onClick={() => setRubric((items) => [...items, ""])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add item
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="peer-scale">Scale (1 to)</Label>
+                  <Input
+                    id="peer-scale"
+                    type="number"
+                    min={3}
+                    max={10}
+                    value={scale}
+                    onChange={(e) => setScale(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="peer-min">Min multiplier</Label>
+                  <Input
+                    id="peer-min"
+                    type="number"
+                    step={0.05}
+                    min={0}
+                    max={1}
+                    value={minMultiplier}
+                    onChange={(e) => setMinMultiplier(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="peer-max">Max multiplier</Label>
+                  <Input
+                    id="peer-max"
+                    type="number"
+                    step={0.05}
+                    min={1}
+                    max={2}
+                    value={maxMultiplier}
+                    onChange={(e) => setMaxMultiplier(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-1 col-span-2 sm:col-span-1">
+                  <Label htmlFor="peer-closes">Closes</Label>
+                  <Input
+                    id="peer-closes"
+                    type="datetime-local"
+                    value={closesAt}
+                    onChange={(e) => setClosesAt(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {current && !editing && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <Badge
+                  variant="outline"
+                  className={
+                    current.status === "OPEN"
+                      ? "bg-green-100 text-green-700 border-green-200"
+                      : "bg-gray-100 text-gray-700 border-gray-200"
+                  }
+                >
+                  {current.status === "OPEN"
+                    ? `Open until ${format(
+                        new Date(current.closesAt),
+                        "MMM d, h:mm a"
+                      )}`
+                    : `Closed ${format(
+                        new Date(current.closedAt ?? current.closesAt),
+                        "MMM d, h:mm a"
+                      )}`}
+                </Badge>
+                <span className="text-xs text-muted-foreground truncate">
+                  {current.rubric.join(", ")} · 1-{current.scale}
+                </span>
+              </div>
+
+              <div className="divide-y divide-[#124A69]/10 rounded-md border border-[#124A69]/10">
+                {current.groups.map((group) => (
+                  <div key={group.id} className="p-3">
+                    <p className="text-sm font-semibold text-[#124A69] mb-1">
+                      Group {group.number}
+                      {group.name ? ` - ${group.name}` : ""}
+                    </p>
+                    <ul className="space-y-0.5">
+                      {group.students.map((student) => (
+                        <li
+                          key={student.id}
+                          className="flex items-center justify-between text-xs"
+                        >
+                          <span className="text-gray-700">
+                            {student.lastName}, {student.firstName}
+                          </span>
+                          {current.status === "OPEN" ? (
+                            <span
+                              className={
+                                student.submitted
+                                  ? "text-green-700"
+                                  : "text-muted-foreground"
+                              }
+                            >
+                              {student.submitted ? "Submitted" : "Pending"}
+                            </span>
+                          ) : (
+                            <span className="font-semibold text-gray-900">
+                              ×{(student.multiplier ?? 1).toFixed(2)}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button
+            variant="outline"
+            onClick={() => (editing ? setEditing(false) : onOpenChange(false))}
+            disabled={isSaving}
+            className="border-gray-200"
+          >
+            {editing ? "Back" : "Close"}
+          </Button>
+          {showForm && (
+            <Button
+              onClick={handleOpen}
+              disabled={
+                isSaving || !closesAt || rubric.every((item) => !item.trim())
+              }
+              className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+            >
+              {current ? "Reopen Evaluation" : "Open Evaluation"}
+            </Button>
+          )}
+          {current?.status === "OPEN" && !editing && (
+            <Button
+              onClick={() =>
+                closeEvaluation
+                  .mutateAsync({ courseSlug, criteriaId })
+                  .catch(() => null)
+              }
+              disabled={isSaving}
+              className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+            >
+              Close &amp; Apply
+            </Button>
+          )}
+          {current?.status === "CLOSED" && !editing && (
+            <Button
+              variant="outline"
+              onClick={() => setEditing(true)}
+              disabled={isSaving}
+            >
+              Reopen
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
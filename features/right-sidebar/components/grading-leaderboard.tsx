@@ -4,8 +4,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Trophy, Medal, Award, Loader2 } from "lucide-react";
 import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
-import { statsService } from "@/lib/services/client";
+import { gradingService, statsService } from "@/lib/services/client";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DEFAULT_GRADING_SCALE,
+  GradingScaleDefinition,
+  isPassingGrade,
+  resolveScaleEntry,
+} from "@/lib/services/grading-engine";
 
 interface StudentGrade {
   id: string;
@@ -17,12 +23,7 @@ interface StudentGrade {
   rank: number;
   improvement: number; // Percentage improvement from midterm to final
   isImproving: boolean;
-  termGrades?: {
-    PRELIM: string | null;
-    MIDTERM: string | null;
-    PREFINALS: string | null;
-    FINALS: string | null;
-  };
+  termGrades?: Record<string, string | null>; // Keyed by course term key
 }
 
 interface GradeCount {
@@ -128,14 +129,32 @@ const LoadingSkeleton = () => (
   </div>
 );
 
-const GradeCountTable = ({ gradeCounts }: { gradeCounts: GradeCount[] }) => {
+// Scale entries from best to worst grade
+const getOrderedEntries = (scale: GradingScaleDefinition) =>
+  [...scale.entries].sort((a, b) => b.minPercentage - a.minPercentage);
+
+const GradeCountTable = ({
+  gradeCounts,
+  gradingScale,
+}: {
+  gradeCounts: GradeCount[];
+  gradingScale: GradingScaleDefinition;
+}) => {
+  // Color by position among the scale's passing grades; failing grades are red
   const getGradeColor = (grade: string) => {
-    const numGrade = parseFloat(grade);
-    if (numGrade <= 1.5) return "bg-green-400";
-    if (numGrade <= 2.0) return "bg-blue-400";
-    if (numGrade <= 2.5) return "bg-yellow-400";
-    if (numGrade <= 3.0) return "bg-orange-400";
-    return "bg-red-400";
+    const entries = getOrderedEntries(gradingScale);
+    const entry = entries.find((e) => e.label === grade);
+    if (!entry) return "bg-gray-400";
+    if (!isPassingGrade(entry.value, gradingScale)) return "bg-red-400";
+
+    const passing = entries.filter((e) =>
+      isPassingGrade(e.value, gradingScale)
+    );
+    const position = passing.indexOf(entry) / passing.length;
+    if (position < 0.25) return "bg-green-400";
+    if (position < 0.5) return "bg-blue-400";
+    if (position < 0.75) return "bg-yellow-400";
+    return "bg-orange-400";
   };
 
   return (
@@ -188,11 +207,25 @@ export default function GradingLeaderboard({
   const [gradeCounts, setGradeCounts] = useState<GradeCount[]>([]);
   const [studentRankings, setStudentRankings] = useState<StudentGrade[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  // Synced term from class record component - defaults to PRELIM on first load
-  const [syncedTerm, setSyncedTerm] = useState<
-    "PRELIM" | "MIDTERM" | "PREFINALS" | "FINALS" | "FINAL"
-  >("PRELIM");
+  // Synced term from class record component (a course term key, or FINAL for
+  // the summary) - defaults to PRELIM on first load
+  const [syncedTerm, setSyncedTerm] = useState<string>("PRELIM");
+  const [syncedTermLabel, setSyncedTermLabel] = useState<string>("Prelims");
   const [isSummaryView, setIsSummaryView] = useState(false);
+  const [gradingScale, setGradingScale] = useState<GradingScaleDefinition>(
+    DEFAULT_GRADING_SCALE
+  );
+
+  // Course leaderboards count grades in the course's own scale
+  useEffect(() => {
+    if (!courseSlug || status !== "authenticated") return;
+    gradingService
+      .getCourseGradingScale(courseSlug)
+      .then((data) =>
+        setGradingScale(data?.gradingScale ?? DEFAULT_GRADING_SCALE)
+      )
+      .catch(() => setGradingScale(DEFAULT_GRADING_SCALE));
+  }, [courseSlug, status]);
 
   const fetchLeaderboard = useCallback(
     async (silent = false) => {
@@ -211,18 +244,9 @@ export default function GradingLeaderboard({
 
         // Calculate grade counts based on selected term
         const gradeCountMap = new Map<string, number>();
-        const gradeOrder = [
-          "1.00",
-          "1.25",
-          "1.50",
-          "1.75",
-          "2.00",
-          "2.25",
-          "2.50",
-          "2.75",
-          "3.00",
-          "5.00",
-        ];
+        const gradeOrder = getOrderedEntries(gradingScale).map(
+          (entry) => entry.label
+        );
 
         data.forEach((student) => {
           let numericGrade: string | null = null;
@@ -231,20 +255,7 @@ export default function GradingLeaderboard({
             // Use final grade
             numericGrade =
               student.numericGrade ||
-              (() => {
-                // Fallback: calculate from currentGrade if numericGrade not provided
-                const percent = student.currentGrade;
-                if (percent >= 97.5) return "1.00";
-                if (percent >= 94.5) return "1.25";
-                if (percent >= 91.5) return "1.50";
-                if (percent >= 86.5) return "1.75";
-                if (percent >= 81.5) return "2.00";
-                if (percent >= 76.0) return "2.25";
-                if (percent >= 70.5) return "2.50";
-                if (percent >= 65.0) return "2.75";
-                if (percent >= 59.5) return "3.00";
-                return "5.00";
-              })();
+              resolveScaleEntry(student.currentGrade, gradingScale).label;
           } else {
             // Use term-specific grade
             numericGrade = student.termGrades?.[syncedTerm] || null;
@@ -277,19 +288,7 @@ export default function GradingLeaderboard({
               gradeToUse = student.currentGrade;
               numericGradeToUse =
                 student.numericGrade ||
-                (() => {
-                  const percent = student.currentGrade;
-                  if (percent >= 97.5) return "1.00";
-                  if (percent >= 94.5) return "1.25";
-                  if (percent >= 91.5) return "1.50";
-                  if (percent >= 86.5) return "1.75";
-                  if (percent >= 81.5) return "2.00";
-                  if (percent >= 76.0) return "2.25";
-                  if (percent >= 70.5) return "2.50";
-                  if (percent >= 65.0) return "2.75";
-                  if (percent >= 59.5) return "3.00";
-                  return "5.00";
-                })();
+                resolveScaleEntry(student.currentGrade, gradingScale).label;
             } else {
               // Use term-specific grade - use actual percentage from API for accurate sorting
               const termPercentage = (student as any).termPercentages?.[
@@ -332,7 +331,7 @@ export default function GradingLeaderboard({
         }
       }
     },
-    [session?.user?.id, courseSlug, syncedTerm]
+    [session?.user?.id, courseSlug, syncedTerm, gradingScale]
   );
 
   useEffect(() => {
@@ -351,35 +350,27 @@ export default function GradingLeaderboard({
   // Listen for term changes from class record component
   useEffect(() => {
     const handleTermChanged = (event: CustomEvent) => {
-      const { courseSlug: eventCourseSlug, activeTerm } = event.detail || {};
+      const {
+        courseSlug: eventCourseSlug,
+        activeTerm,
+        activeTermLabel,
+      } = event.detail || {};
 
       // Only sync if this leaderboard matches the course or if no courseSlug (general leaderboard)
       if (eventCourseSlug === courseSlug || !courseSlug) {
         // Map class record terms to leaderboard terms
-        let mappedTerm: "PRELIM" | "MIDTERM" | "PREFINALS" | "FINALS" | "FINAL";
-
         if (activeTerm === "SUMMARY") {
-          mappedTerm = "FINAL";
+          setSyncedTerm("FINAL");
           setIsSummaryView(true);
-        } else if (activeTerm === "PRELIM") {
-          mappedTerm = "PRELIM";
-          setIsSummaryView(false);
-        } else if (activeTerm === "MIDTERM") {
-          mappedTerm = "MIDTERM";
-          setIsSummaryView(false);
-        } else if (activeTerm === "PREFINALS") {
-          mappedTerm = "PREFINALS";
-          setIsSummaryView(false);
-        } else if (activeTerm === "FINALS") {
-          mappedTerm = "FINALS";
+        } else if (activeTerm) {
+          setSyncedTerm(activeTerm);
+          setSyncedTermLabel(activeTermLabel || activeTerm);
           setIsSummaryView(false);
         } else {
           // Default to FINAL if unknown term
-          mappedTerm = "FINAL";
+          setSyncedTerm("FINAL");
           setIsSummaryView(false);
         }
-
-        setSyncedTerm(mappedTerm);
       }
     };
 
@@ -497,15 +488,7 @@ export default function GradingLeaderboard({
           <span className="text-xs text-white/70 font-medium">
             {syncedTerm === "FINAL"
               ? "Final Grade Rankings"
-              : syncedTerm === "PRELIM"
-              ? "Prelim Rankings"
-              : syncedTerm === "MIDTERM"
-              ? "Midterm Rankings"
-              : syncedTerm === "PREFINALS"
-              ? "Pre-Finals Rankings"
-              : syncedTerm === "FINALS"
-              ? "Finals Rankings"
-              : "Rankings"}
+              : `${syncedTermLabel} Rankings`}
           </span>
         </div>
         <Tabs
@@ -542,7 +525,10 @@ export default function GradingLeaderboard({
                   </p>
                 </div>
               ) : (
-                <GradeCountTable gradeCounts={gradeCounts} />
+                <GradeCountTable
+                  gradeCounts={gradeCounts}
+                  gradingScale={gradingScale}
+                />
               )}
             </TabsContent>
           )}
@@ -7,6 +7,7 @@ import {
   useCourse,
   useActiveCourses,
   useAttendanceLeaderboardAll,
+  useActiveAttendanceSession,
 } from "@/lib/hooks/queries";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -16,7 +17,6 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { checkActiveRfidSession } from "@/lib/utils/rfid-session";
 
 interface StudentAttendance {
   studentId: string;
@@ -200,49 +200,15 @@ export default function AttendanceLeaderboard({
 }: AttendanceLeaderboardProps = {}) {
   const { data: session, status } = useSession();
   const [sortBy, setSortBy] = useState<SortOption>("absents");
-  const [hasActiveRfidSession, setHasActiveRfidSession] = useState(false);
 
   const isSingleCourse = !!courseSlug;
 
-  // Check for active RFID session
-  useEffect(() => {
-    if (!courseSlug) {
-      setHasActiveRfidSession(false);
-      return;
-    }
-
-    const checkSession = () => {
-      const activeSession = checkActiveRfidSession(courseSlug);
-      setHasActiveRfidSession(!!activeSession);
-    };
-
-    // Initial check
-    checkSession();
-
-    // Set up periodic checks (every 1 second)
-    const interval = setInterval(checkSession, 1000);
-
-    // Listen for storage changes (cross-tab)
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === "attendance:global:activeRfidSession" || e.key === null) {
-        checkSession();
-      }
-    };
-
-    // Listen for custom events (same-tab)
-    const handleCustomChange = () => {
-      checkSession();
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    window.addEventListener("rfid-session-changed", handleCustomChange);
-
-    return () => {
-      clearInterval(interval);
-      window.removeEventListener("storage", handleStorageChange);
-      window.removeEventListener("rfid-session-changed", handleCustomChange);
-    };
-  }, [courseSlug]);
+  // Check for active RFID session (kept on the server, shared across devices)
+  const { data: activeRfidSession } = useActiveAttendanceSession({
+    enabled: isSingleCourse,
+  });
+  const hasActiveRfidSession =
+    isSingleCourse && activeRfidSession?.courseSlug === courseSlug;
 
   // React Query hooks
   const { data: courseData } = useCourse(courseSlug || "");
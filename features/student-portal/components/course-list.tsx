@@ -0,0 +1,77 @@
+import Link from "next/link";
+import { CalendarCheck, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+interface PortalCourse {
+  slug: string;
+  code: string;
+  title: string;
+  section: string;
+  room: string;
+  semester: string;
+  academicYear: string;
+  faculty: string | null;
+  schedules: Array<{ day: string; fromTime: string; toTime: string }>;
+  releasedTerms: string[];
+  attendance: {
+    present: number;
+    late: number;
+    excused: number;
+    absent: number;
+  };
+}
+
+export function CourseList({ courses }: { courses: PortalCourse[] }) {
+  if (courses.length === 0) {
+    return (
+      <div className="rounded-lg border bg-white p-8 text-center text-gray-600">
+        You are not enrolled in any course yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {courses.map((course) => (
+        <Link
+          key={course.slug}
+          href={`/student/courses/${course.slug}`}
+          className="group rounded-lg border bg-white p-4 transition-colors hover:border-[#124A69]"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-semibold text-[#124A69]">
+                {course.code} - {course.section}
+              </p>
+              <p className="text-sm text-gray-700">{course.title}</p>
+            </div>
+            <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-[#124A69]" />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {course.semester}, {course.academicYear} | Room {course.room}
+            {course.faculty ? ` | ${course.faculty}` : ""}
+          </p>
+          {course.schedules.length > 0 && (
+            <p className="text-xs text-gray-500">
+              {course.schedules
+                .map((s) => `${s.day} ${s.fromTime}-${s.toTime}`)
+                .join(", ")}
+            </p>
+          )}
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+            <span className="inline-flex items-center gap-1 text-gray-600">
+              <CalendarCheck className="h-3.5 w-3.5" />
+              {course.attendance.absent} absence(s), {course.attendance.late}{" "}
+              late
+            </span>
+            {course.releasedTerms.length > 0 && (
+              <Badge className="bg-green-100 text-green-700">
+                {course.releasedTerms.length} term grade(s) released
+              </Badge>
+            )}
+          </div>
+        </Link>
+      ))}
+    </div>
+  );
+}
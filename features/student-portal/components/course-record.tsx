@@ -0,0 +1,180 @@
+import { format } from "date-fns";
+import { Lock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { getStudentCourseRecord } from "@/lib/services/student-portal";
+
+type CourseRecord = NonNullable<
+  Awaited<ReturnType<typeof getStudentCourseRecord>>
+>;
+
+const STATUS_STYLES: Record<string, string> = {
+  PRESENT: "bg-green-100 text-green-700",
+  LATE: "bg-yellow-100 text-yellow-700",
+  EXCUSED: "bg-blue-100 text-blue-700",
+  ABSENT: "bg-red-100 text-red-700",
+};
+
+function RemarksBadge({ remarks }: { remarks: "PASSED" | "FAILED" | null }) {
+  if (!remarks) return null;
+  return (
+    <Badge
+      className={
+        remarks === "PASSED"
+          ? "bg-green-100 text-green-700"
+          : "bg-red-100 text-red-700"
+      }
+    >
+      {remarks}
+    </Badge>
+  );
+}
+
+export function CourseRecord({ record }: { record: CourseRecord }) {
+  const { course, terms, finalGrade, attendance } = record;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-bold text-[#124A69]">
+          {course.code} - {course.section}
+        </h1>
+        <p className="text-gray-700">{course.title}</p>
+        <p className="text-sm text-gray-500">
+          {course.semester}, {course.academicYear} | Room {course.room}
+          {course.faculty ? ` | ${course.faculty}` : ""}
+        </p>
+      </div>
+
+      {finalGrade && (
+        <div className="flex items-center justify-between rounded-lg border bg-white p-4">
+          <div>
+            <p className="text-sm text-gray-500">Final Grade</p>
+            <p className="text-2xl font-bold text-[#124A69]">
+              {finalGrade.label}
+            </p>
+            <p className="text-xs text-gray-500">
+              {finalGrade.percentage.toFixed(2)}%
+            </p>
+          </div>
+          <RemarksBadge remarks={finalGrade.remarks} />
+        </div>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="font-semibold text-gray-800">Grades</h2>
+        {terms.map((term) => (
+          <div key={term.key} className="rounded-lg border bg-white">
+            <div className="flex items-center justify-between border-b px-4 py-3">
+              <p className="font-medium text-gray-800">{term.label}</p>
+              {term.released && term.grade ? (
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-[#124A69]">
+                    {term.grade.gradeLabel ?? "—"}
+                  </span>
+                  {term.grade.totalPercent !== null && (
+                    <span className="text-xs text-gray-500">
+                      ({term.grade.totalPercent.toFixed(2)}%)
+                    </span>
+                  )}
+                  <RemarksBadge remarks={term.grade.remarks} />
+                </div>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-sm text-gray-500">
+                  <Lock className="h-3.5 w-3.5" />
+                  Not yet released
+                </span>
+              )}
+            </div>
+            {term.released && term.assessments.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Assessment</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {term.assessments.map((assessment) => (
+                    <TableRow key={assessment.id}>
+                      <TableCell>{assessment.name}</TableCell>
+                      <TableCell>{assessment.type}</TableCell>
+                      <TableCell>
+                        {assessment.date
+                          ? format(new Date(assessment.date), "MMM d, yyyy")
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {assessment.score ?? "—"} / {assessment.maxScore}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="font-semibold text-gray-800">Attendance</h2>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {(
+            [
+              ["Present", attendance.present],
+              ["Late", attendance.late],
+              ["Excused", attendance.excused],
+              ["Absent", attendance.absent],
+            ] as const
+          ).map(([label, count]) => (
+            <div key={label} className="rounded-lg border bg-white p-3">
+              <p className="text-xs text-gray-500">{label}</p>
+              <p className="text-lg font-semibold text-gray-800">{count}</p>
+            </div>
+          ))}
+        </div>
+        {attendance.records.length === 0 ? (
+          <p className="text-sm text-gray-500">No attendance recorded yet.</p>
+        ) : (
+          <div className="rounded-lg border bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attendance.records.map((entry) => (
+                  <TableRow key={entry.date}>
+                    <TableCell>
+                      {format(new Date(entry.date), "EEE, MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[entry.status] ?? ""}>
+                        {entry.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {entry.reason ?? "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
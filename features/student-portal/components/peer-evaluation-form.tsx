@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSubmitPeerRatings } from "@/lib/hooks/queries";
+
+interface PortalPeerEvaluation {
+  id: string;
+  criteriaName: string;
+  rubric: string[];
+  scale: number;
+  closesAt: Date | string;
+  group: { number: string; name: string | null };
+  members: Array<{
+    id: string;
+    firstName: string;
+    lastName: string;
+    scores: number[] | null;
+    comment: string | null;
+  }>;
+}
+
+function PeerEvaluationCard({
+  evaluation,
+}: {
+  evaluation: PortalPeerEvaluation;
+}) {
+  const router = useRouter();
+  const submitRatings = useSubmitPeerRatings();
+  const [scores, setScores] = useState<Record<string, (number | null)[]>>(() =>
+    Object.fromEntries(
+      evaluation.members.map((member) => [
+        member.id,
+        member.scores ?? evaluation.rubric.map(() => null),
+      ])
+    )
+  );
+  const [comments, setComments] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      evaluation.members.map((member) => [member.id, member.comment ?? ""])
+    )
+  );
+
+  const submitted = evaluation.members.every((member) => member.scores);
+  const complete = evaluation.members.every((member) =>
+    scores[member.id].every((score) => score !== null)
+  );
+
+  const setScore = (memberId: string, index: number, value: number) =>
+    setScores((current) => ({
+      ...current,
+      [memberId]: current[memberId].map((score, i) =>
+        i === index ? value : score
+      ),
+    }));
+
+  const handleSubmit = async () => {
+    const result = await submitRatings
+      .mutateAsync({
+        evaluationId: evaluation.id,
+        ratings: evaluation.members.map((member) => ({
+          rateeId: member.id,
+          scores: scores[member.id] as number[],
+          comment: comments[member.id] || undefined,
+        })),
+      })
+      .catch(() => null);
+    if (result) router.refresh();
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-gray-800">
+            {evaluation.criteriaName}
+          </p>
+          <p className="text-xs text-gray-500">
+            Group {evaluation.group.number}
+            {evaluation.group.name ? ` - ${evaluation.group.name}` : ""} · Rate
+            each groupmate from 1 (lowest) to {evaluation.scale}
+          </p>
+        </div>
+        <p className="text-xs text-gray-500">
+          Closes {format(new Date(evaluation.closesAt), "MMM d, h:mm a")}
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {evaluation.members.map((member) => (
+          <div key={member.id} className="space-y-2 border-t pt-3">
+            <p className="text-sm font-medium text-[#124A69]">
+              {member.lastName}, {member.firstName}
+            </p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {evaluation.rubric.map((item, index) => (
+                <div
+                  key={item}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span className="text-sm text-gray-700">{item}</span>
+                  <Select
+                    value={scores[member.id][index]?.toString() ?? ""}
+                    onValueChange={(value) =>
+                      setScore(member.id, index, Number(value))
+                    }
+                  >
+                    <SelectTrigger className="w-20">
+                      <SelectValue placeholder="-" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(
+                        { length: evaluation.scale },
+                        (_, i) => i + 1
+                      ).map((value) => (
+                        <SelectItem key={value} value={value.toString()}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <Textarea
+              value={comments[member.id]}
+              onChange={(e) =>
+                setComments((current) => ({
+                  ...current,
+                  [member.id]: e.target.value,
+                }))
+              }
+              placeholder="Comment (optional, only your faculty sees this)"
+              maxLength={500}
+              className="min-h-[60px]"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {submitted && (
+          <span className="text-xs text-green-700">
+            Submitted · you can update your ratings until it closes
+          </span>
+        )}
+        <Button
+          onClick={handleSubmit}
+          disabled={!complete || submitRatings.isPending}
+          className="bg-[#124A69] hover:bg-[#0D3A54] text-white"
+        >
+          {submitRatings.isPending
+            ? "Submitting..."
+            : submitted
+            ? "Update Ratings"
+            : "Submit Ratings"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function PeerEvaluationForm({
+  evaluations,
+}: {
+  evaluations: PortalPeerEvaluation[];
+}) {
+  if (evaluations.length === 0) return null;
+
+  return (
+    <section className="space-y-3">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+        <Users className="h-5 w-5 text-[#124A69]" />
+        Peer Evaluation
+      </h2>
+      {evaluations.map((evaluation) => (
+        <PeerEvaluationCard key={evaluation.id} evaluation={evaluation} />
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+import { signOut } from "next-auth/react";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PortalHeaderProps {
+  name: string;
+  studentNumber: string;
+}
+
+export function PortalHeader({ name, studentNumber }: PortalHeaderProps) {
+  return (
+    <header className="bg-[#124A69] text-white">
+      <div className="mx-auto flex max-w-5xl items-center justify-between gap-4 px-4 py-3">
+        <Link href="/student" className="text-lg font-semibold">
+          Student Portal
+        </Link>
+        <div className="flex items-center gap-3">
+          <div className="text-right text-sm leading-tight">
+            <p className="font-medium">{name}</p>
+            <p className="text-white/70">{studentNumber}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => signOut({ callbackUrl: "/" })}
+            className="text-white hover:bg-white/10 hover:text-white"
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+}
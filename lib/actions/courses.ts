@@ -6,6 +6,10 @@ import { revalidatePath, revalidateTag } from "next/cache";
 import { logAction } from "@/lib/audit";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth-options";
+import { resolveSectionId } from "@/lib/services/sections";
+import { checkRoomCapacity, resolveRoomId } from "@/lib/services/rooms";
+import { checkFacultyLoad } from "@/lib/services/faculty-load";
+import { checkRoomOverlap } from "@/lib/utils/schedule-utils";
 
 interface ScheduleInput {
   day: string;
@@ -65,15 +69,37 @@ export async function createCourse(data: CourseInput, isFromImport = false) {
       };
     }
 
+    if ((data.status ?? CourseStatus.ACTIVE) === CourseStatus.ACTIVE) {
+      const roomConflict = await checkRoomOverlap(
+        data.schedules,
+        data.room,
+        [],
+        data.semester,
+        data.academicYear
+      );
+      if (roomConflict) return { success: false, error: roomConflict };
+
+      const loadError = await checkFacultyLoad(
+        data.schedules,
+        data.facultyId,
+        [],
+        data.semester,
+        data.academicYear
+      );
+      if (loadError) return { success: false, error: loadError };
+    }
+
     // Build create payload excluding schedules, then attach schedules via nested write
     const createData: any = {
       code: data.code,
       title: data.title,
       room: data.room,
+      roomId: await resolveRoomId(data.room),
       semester: data.semester,
       academicYear: data.academicYear,
       classNumber: data.classNumber,
       section: data.section,
+      sectionId: await resolveSectionId(data.section, data.academicYear),
       facultyId: data.facultyId ?? null,
       slug,
       status: data.status ?? CourseStatus.ACTIVE,
@@ -207,9 +233,37 @@ export async function editCourse(
   try {
     const existingCourse = await prisma.course.findUnique({
       where: { id: courseId },
+      include: {
+        schedules: true,
+        _count: { select: { students: true } },
+      },
     });
     if (!existingCourse) return { success: false, error: "Course not found" };
 
+    // The room must hold the class and be free at the (new) class times
+    const roomChanged =
+      data.room !== undefined && data.room !== existingCourse.room;
+    if (roomChanged) {
+      const capacityError = await checkRoomCapacity(
+        data.room,
+        existingCourse._count.students
+      );
+      if (capacityError) return { success: false, error: capacityError };
+    }
+    if (
+      (roomChanged || data.schedules) &&
+      (data.status ?? existingCourse.status) === CourseStatus.ACTIVE
+    ) {
+      const roomConflict = await checkRoomOverlap(
+        data.schedules ?? existingCourse.schedules,
+        data.room ?? existingCourse.room,
+        [courseId],
+        data.semester ?? existingCourse.semester,
+        data.academicYear ?? existingCourse.academicYear
+      );
+      if (roomConflict) return { success: false, error: roomConflict };
+    }
+
     // Check for duplicate slug if code, academicYear, or section changed
     const codeChanged = data.code && data.code !== existingCourse.code;
     const academicYearChanged =
@@ -252,6 +306,22 @@ export async function editCourse(
       if (!faculty) return { success: false, error: "Faculty not found" };
     }
 
+    // The (new) faculty must be available at the class times and within their load limits
+    if (
+      (data.schedules ||
+        (data.facultyId && data.facultyId !== existingCourse.facultyId)) &&
+      (data.status ?? existingCourse.status) === CourseStatus.ACTIVE
+    ) {
+      const loadError = await checkFacultyLoad(
+        data.schedules ?? existingCourse.schedules,
+        data.facultyId ?? existingCourse.facultyId,
+        [courseId],
+        data.semester ?? existingCourse.semester,
+        data.academicYear ?? existingCourse.academicYear
+      );
+      if (loadError) return { success: false, error: loadError };
+    }
+
     // Generate slug if code, academicYear, or section changed
     let newSlug: string | undefined;
     if (codeChanged || academicYearChanged || sectionChanged) {
@@ -274,12 +344,19 @@ export async function editCourse(
       ...(data.code !== undefined && { code: data.code }),
       ...(data.title !== undefined && { title: data.title }),
       ...(data.room !== undefined && { room: data.room }),
+      ...(roomChanged && { roomId: await resolveRoomId(data.room) }),
       ...(data.semester !== undefined && { semester: data.semester }),
       ...(data.academicYear !== undefined && {
         academicYear: data.academicYear,
       }),
       ...(data.classNumber !== undefined && { classNumber: data.classNumber }),
       ...(data.section !== undefined && { section: data.section }),
+      ...((sectionChanged || academicYearChanged) && {
+        sectionId: await resolveSectionId(
+          data.section || existingCourse.section,
+          data.academicYear || existingCourse.academicYear
+        ),
+      }),
       ...(data.facultyId !== undefined && { facultyId: data.facultyId }),
       ...(data.status !== undefined && { status: data.status }),
       // update slug if code, academicYear, or section changed
@@ -0,0 +1,129 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Resend } from "resend";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface EmailResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Delivers a rendered message. Selected with EMAIL_TRANSPORT
+ * ("resend" | "smtp" | "file") or replaced with setEmailTransport().
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailResult>;
+}
+
+/**
+ * Resend API (production default)
+ */
+export function createResendTransport(
+  apiKey = process.env.RESEND_API_KEY
+): EmailTransport {
+  const resend = apiKey ? new Resend(apiKey) : null;
+
+  return {
+    name: "resend",
+    async send(message) {
+      if (!resend) {
+        console.error("[Email] RESEND_API_KEY not configured");
+        return { success: false, error: "Email service not configured" };
+      }
+
+      const { data, error } = await resend.emails.send(message);
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      console.log("[Email] Email sent successfully:", data?.id);
+      return { success: true };
+    },
+  };
+}
+
+/**
+ * SMTP server, e.g. a local Mailpit/MailHog during development
+ */
+export function createSmtpTransport(): EmailTransport {
+  let transporter: import("nodemailer").Transporter | null = null;
+
+  return {
+    name: "smtp",
+    async send(message) {
+      if (!transporter) {
+        const nodemailer = await import("nodemailer");
+        transporter = nodemailer.createTransport({
+          host: process.env.SMTP_HOST || "localhost",
+          port: parseInt(process.env.SMTP_PORT || "1025", 10),
+          secure: process.env.SMTP_SECURE === "true",
+          auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+            : undefined,
+        });
+      }
+
+      const info = await transporter.sendMail(message);
+      console.log("[Email] Email sent over SMTP:", info.messageId);
+      return { success: true };
+    },
+  };
+}
+
+/**
+ * Writes each message to EMAIL_FILE_DIR (default .emails) as an HTML file
+ */
+export function createFileTransport(
+  directory = process.env.EMAIL_FILE_DIR || ".emails"
+): EmailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      const filePath = path.join(directory, `${Date.now()}-${safeTo}.html`);
+      const headers = [
+        `<!-- From: ${message.from} -->`,
+        `<!-- To: ${message.to} -->`,
+        `<!-- Subject: ${message.subject} -->`,
+      ].join("\n");
+
+      await fs.writeFile(filePath, `${headers}\n${message.html}`, "utf8");
+      console.log("[Email] Email written to", filePath);
+      return { success: true };
+    },
+  };
+}
+
+let activeTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    switch (process.env.EMAIL_TRANSPORT) {
+      case "smtp":
+        activeTransport = createSmtpTransport();
+        break;
+      case "file":
+        activeTransport = createFileTransport();
+        break;
+      default:
+        activeTransport = createResendTransport();
+    }
+  }
+  return activeTransport;
+}
+
+/**
+ * Override the transport (e.g. a custom sink); null restores the default
+ */
+export function setEmailTransport(transport: EmailTransport | null) {
+  activeTransport = transport;
+}
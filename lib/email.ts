@@ -1,10 +1,7 @@
-import { Resend } from "resend";
-
-// Initialize Resend client
-const resend = new Resend(process.env.RESEND_API_KEY);
+import { EmailResult, getEmailTransport } from "./email-transports";
 
 /**
- * Sends an email using Resend
+ * Sends an email through the configured transport (Resend by default)
  */
 export async function sendEmail({
   to,
@@ -14,14 +11,11 @@ export async function sendEmail({
   to: string;
   subject: string;
   html: string;
-}): Promise<{ success: boolean; error?: string }> {
-  try {
-    if (!process.env.RESEND_API_KEY) {
-      console.error("[Email] RESEND_API_KEY not configured");
-      return { success: false, error: "Email service not configured" };
-    }
+}): Promise<EmailResult> {
+  const transport = getEmailTransport();
 
-    const { data, error } = await resend.emails.send({
+  try {
+    const result = await transport.send({
       from:
         process.env.RESEND_FROM_EMAIL ||
         "Didasko System <noreply@didasko.local>",
@@ -30,13 +24,13 @@ export async function sendEmail({
       html,
     });
 
-    if (error) {
-      console.error("[Email] Failed to send email:", error);
-      return { success: false, error: error.message };
+    if (!result.success) {
+      console.error(
+        `[Email] Failed to send email via ${transport.name}:`,
+        result.error
+      );
     }
-
-    console.log("[Email] Email sent successfully:", data?.id);
-    return { success: true };
+    return result;
   } catch (error: any) {
     console.error("[Email] Error sending email:", error);
     return { success: false, error: error.message || "Failed to send email" };
@@ -157,3 +151,158 @@ export async function sendBreakGlassCodeEmail({
 
   return await sendEmail({ to, subject, html });
 }
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Shared shell for notification emails; body is trusted HTML built below
+function renderNotificationEmail(title: string, body: string) {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background-color: #124A69;
+            color: white;
+            padding: 20px;
+            text-align: center;
+            border-radius: 5px 5px 0 0;
+          }
+          .content {
+            background-color: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+            border-radius: 0 0 5px 5px;
+          }
+          .summary {
+            background-color: #fff;
+            border-left: 4px solid #124A69;
+            padding: 15px;
+            margin: 20px 0;
+          }
+          .footer {
+            margin-top: 30px;
+            padding-top: 20px;
+            border-top: 1px solid #ddd;
+            font-size: 12px;
+            color: #666;
+            text-align: center;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>${title}</h1>
+        </div>
+        <div class="content">
+          ${body}
+        </div>
+        <div class="footer">
+          <p>This is an automated message from the Didasko System.</p>
+          <p>Please do not reply to this email.</p>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Absence notice sent to a student (or their guardian)
+ */
+export function buildAbsenceNoticeEmail({
+  studentName,
+  course,
+  absences,
+  lastAbsence,
+  toGuardian,
+}: {
+  studentName: string;
+  course: string;
+  absences: number;
+  lastAbsence: string;
+  toGuardian: boolean;
+}) {
+  const name = escapeHtml(studentName);
+  const courseName = escapeHtml(course);
+
+  return {
+    subject: `Absence Notice: ${course}`,
+    html: renderNotificationEmail(
+      "Absence Notice",
+      `
+          <p>${toGuardian ? "Dear Parent/Guardian," : `Dear ${name},`}</p>
+
+          <p>${
+            toGuardian ? `<strong>${name}</strong> has` : "You have"
+          } reached <strong>${absences} absence(s)</strong> in <strong>${courseName}</strong>.</p>
+
+          <div class="summary">
+            <strong>Most recent absence:</strong> ${escapeHtml(lastAbsence)}
+          </div>
+
+          <p>Please coordinate with the course faculty if any of these absences should be excused. Further absences may affect the final grade.</p>
+      `
+    ),
+  };
+}
+
+/**
+ * At-risk alert sent to the course faculty and academic head
+ */
+export function buildAtRiskAlertEmail({
+  studentName,
+  studentNumber,
+  course,
+  term,
+  percentage,
+  threshold,
+  gradeLabel,
+}: {
+  studentName: string;
+  studentNumber: string;
+  course: string;
+  term: string;
+  percentage: number;
+  threshold: number;
+  gradeLabel: string | null;
+}) {
+  return {
+    subject: `At-Risk Student: ${studentName} (${course})`,
+    html: renderNotificationEmail(
+      "At-Risk Student",
+      `
+          <p>Good day,</p>
+
+          <p><strong>${escapeHtml(studentName)}</strong> (${escapeHtml(
+        studentNumber
+      )}) is currently below the failing threshold in <strong>${escapeHtml(
+        course
+      )}</strong>.</p>
+
+          <div class="summary">
+            <strong>${escapeHtml(term)}:</strong> ${percentage.toFixed(2)}%${
+        gradeLabel ? ` (${escapeHtml(gradeLabel)})` : ""
+      }<br>
+            <strong>Threshold:</strong> ${threshold.toFixed(2)}%
+          </div>
+
+          <p>Consider reaching out to the student before the grade sheet is submitted.</p>
+      `
+    ),
+  };
+}
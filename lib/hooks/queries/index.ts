@@ -8,15 +8,30 @@ export { queryKeys } from "./queryKeys";
 // Course Hooks
 export * from "./useCourses";
 
+// Room Hooks
+export * from "./useRooms";
+
+// Section Hooks
+export * from "./useSections";
+
 // Student Hooks
 export * from "./useStudents";
 
 // Attendance Hooks
 export * from "./useAttendance";
 
+// Excuse Request Hooks
+export * from "./useExcuseRequests";
+
+// Kiosk Hooks
+export * from "./useKiosk";
+
 // Grading Hooks
 export * from "./useGrading";
 
+// Quiz Hooks
+export * from "./useQuizzes";
+
 // Groups Hooks
 export * from "./useGroups";
 
@@ -26,6 +41,12 @@ export * from "./useReporting";
 // Criteria Hooks
 export * from "./useCriteria";
 
+// Export Hooks
+export * from "./useExports";
+
+// Notification Hooks
+export * from "./useNotifications";
+
 // Admin Hooks
 export * from "./useAdmin";
 
@@ -47,6 +68,9 @@ export * from "./useProfile";
 // Faculty Load Hooks
 export * from "./useFacultyLoad";
 
+// Academic Calendar Hooks
+export * from "./useAcademicCalendar";
+
 // Upload Hooks
 export * from "./useUpload";
 
@@ -78,6 +78,13 @@ export const queryKeys = {
         courseSlug,
         date || "today",
       ] as const,
+    activeSession: () =>
+      [...queryKeys.attendance.all, "activeSession"] as const,
+    session: (courseSlug: string, date: string) =>
+      [...queryKeys.attendance.all, "session", courseSlug, date] as const,
+    kioskStatus: () => [...queryKeys.attendance.all, "kioskStatus"] as const,
+    excuseRequests: (filters?: { status?: string }) =>
+      [...queryKeys.attendance.all, "excuseRequests", filters] as const,
   },
 
   // Grading
@@ -95,6 +102,31 @@ export const queryKeys = {
       [...queryKeys.grading.all, "assessmentScores", courseSlug] as const,
     termGrades: (courseSlug: string, term: string) =>
       [...queryKeys.grading.all, "termGrades", courseSlug, term] as const,
+    gradingScales: (department?: string) =>
+      department
+        ? ([...queryKeys.grading.all, "gradingScales", department] as const)
+        : ([...queryKeys.grading.all, "gradingScales"] as const),
+    courseGradingScale: (courseSlug: string) =>
+      [...queryKeys.grading.all, "courseGradingScale", courseSlug] as const,
+    courseTerms: (courseSlug: string) =>
+      [...queryKeys.grading.all, "courseTerms", courseSlug] as const,
+    gradeSubmissions: (courseSlug: string) =>
+      [...queryKeys.grading.all, "gradeSubmissions", courseSlug] as const,
+    gradeSubmissionReview: () =>
+      [...queryKeys.grading.all, "gradeSubmissionReview"] as const,
+    gradeChangeRequests: (courseSlug: string) =>
+      [...queryKeys.grading.all, "gradeChangeRequests", courseSlug] as const,
+    gradeChangeRequestReview: () =>
+      [...queryKeys.grading.all, "gradeChangeRequestReview"] as const,
+  },
+
+  // Quizzes
+  quizzes: {
+    all: ["quizzes"] as const,
+    byCourse: (courseSlug: string) =>
+      [...queryKeys.quizzes.all, "byCourse", courseSlug] as const,
+    detail: (courseSlug: string, quizId: string) =>
+      [...queryKeys.quizzes.all, "detail", courseSlug, quizId] as const,
   },
 
   // Groups
@@ -110,6 +142,13 @@ export const queryKeys = {
       [...queryKeys.groups.all, "criteria", courseSlug, groupId] as const,
     meta: (courseSlug: string) =>
       [...queryKeys.groups.all, "meta", courseSlug] as const,
+    peerEvaluation: (courseSlug: string, criteriaId: string) =>
+      [
+        ...queryKeys.groups.all,
+        "peerEvaluation",
+        courseSlug,
+        criteriaId,
+      ] as const,
   },
 
   // Reporting
@@ -136,6 +175,12 @@ export const queryKeys = {
       [...queryKeys.criteria.all, "group", courseSlug] as const,
     linked: (courseSlug: string) =>
       [...queryKeys.criteria.all, "linked", courseSlug] as const,
+    templates: (type?: string) =>
+      type
+        ? ([...queryKeys.criteria.all, "templates", type] as const)
+        : ([...queryKeys.criteria.all, "templates"] as const),
+    templateUsage: (templateId: string) =>
+      [...queryKeys.criteria.all, "templateUsage", templateId] as const,
   },
 
   // Admin
@@ -189,6 +234,24 @@ export const queryKeys = {
       [...queryKeys.stats.all, "attendanceRanking"] as const,
   },
 
+  // Exports
+  exports: {
+    all: ["exports"] as const,
+    lists: (courseSlug?: string) =>
+      courseSlug
+        ? ([...queryKeys.exports.all, "list", courseSlug] as const)
+        : ([...queryKeys.exports.all, "list"] as const),
+    detail: (id: string) => [...queryKeys.exports.all, "detail", id] as const,
+  },
+
+  // Notifications
+  notifications: {
+    all: ["notifications"] as const,
+    lists: (filters?: { status?: string; type?: string }) =>
+      [...queryKeys.notifications.all, "list", filters] as const,
+    settings: () => [...queryKeys.notifications.all, "settings"] as const,
+  },
+
   // Notes
   notes: {
     all: ["notes"] as const,
@@ -210,9 +273,35 @@ export const queryKeys = {
     current: () => [...queryKeys.profile.all, "current"] as const,
   },
 
+  // Rooms
+  rooms: {
+    all: ["rooms"] as const,
+    lists: () => [...queryKeys.rooms.all, "list"] as const,
+  },
+
+  // Sections
+  sections: {
+    all: ["sections"] as const,
+    list: (academicYear?: string) =>
+      [...queryKeys.sections.all, "list", academicYear] as const,
+  },
+
   // Faculty Load
   facultyLoad: {
     all: ["facultyLoad"] as const,
     current: () => [...queryKeys.facultyLoad.all, "current"] as const,
+    utilization: () => [...queryKeys.facultyLoad.all, "utilization"] as const,
+    limits: () => [...queryKeys.facultyLoad.all, "limits"] as const,
+    availability: () => [...queryKeys.facultyLoad.all, "availability"] as const,
+  },
+
+  // Academic Calendar
+  calendar: {
+    all: ["calendar"] as const,
+    detail: (filters?: { academicYear?: string; semester?: string }) =>
+      [...queryKeys.calendar.all, "detail", filters] as const,
+    nonClassDays: (courseIds: string[], from: string, to: string) =>
+      [...queryKeys.calendar.all, "nonClassDays", courseIds, from, to] as const,
+    feed: () => [...queryKeys.calendar.all, "feed"] as const,
   },
 } as const;
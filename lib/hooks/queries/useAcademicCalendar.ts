@@ -0,0 +1,259 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+import toast from "react-hot-toast";
+
+export type SuspensionScope = "SCHOOL" | "ROOM" | "COURSE" | "SECTION";
+
+export interface AcademicTerm {
+  id: string;
+  academicYear: string;
+  semester: string;
+  term: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+export interface ClassSuspension {
+  id: string;
+  reason: string;
+  startDate: string;
+  endDate: string;
+  scope: SuspensionScope;
+  room: { id: string; name: string } | null;
+  course: { id: string; code: string; section: string } | null;
+  section: { id: string; name: string; academicYear: string } | null;
+}
+
+export interface AcademicCalendar {
+  terms: AcademicTerm[];
+  holidays: Holiday[];
+  suspensions: ClassSuspension[];
+}
+
+export interface ClassSuspensionInput {
+  reason: string;
+  startDate: string;
+  endDate: string;
+  scope: SuspensionScope;
+  roomId?: string | null;
+  courseId?: string | null;
+  sectionId?: string | null;
+}
+
+export interface NonClassDay {
+  date: string;
+  type: "HOLIDAY" | "SUSPENSION" | "BREAK";
+  reason: string;
+}
+
+export interface CalendarFeed {
+  createdAt: string;
+  updatedAt: string;
+  lastAccessedAt: string | null;
+}
+
+// Query: Get term ranges, holidays and suspensions of a semester
+export function useAcademicCalendar(filters?: {
+  academicYear?: string;
+  semester?: string;
+}) {
+  return useQuery({
+    queryKey: queryKeys.calendar.detail(filters),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/calendar", {
+        params: filters,
+        signal,
+      });
+      return data as AcademicCalendar;
+    },
+  });
+}
+
+// Query: Get the days each course has no class (yyyy-MM-dd range)
+export function useNonClassDays(
+  courseIds: string[],
+  from: string,
+  to: string,
+  options?: { enabled?: boolean }
+) {
+  return useQuery({
+    queryKey: queryKeys.calendar.nonClassDays(courseIds, from, to),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/calendar/non-class-days", {
+        params: { courseIds: courseIds.join(","), from, to },
+        signal,
+      });
+      return (data.days ?? {}) as Record<string, NonClassDay[]>;
+    },
+    enabled: (options?.enabled ?? true) && courseIds.length > 0,
+  });
+}
+
+// Mutation: Replace the term ranges of a semester
+export function useSetAcademicTerms() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      academicYear: string;
+      semester: string;
+      terms: Array<{ term: string; startDate: string; endDate: string }>;
+    }) => {
+      const { data: response } = await axios.put("/calendar/terms", data);
+      return response.terms as AcademicTerm[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      toast.success("Term dates saved");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to save term dates");
+    },
+  });
+}
+
+// Mutation: Declare a holiday
+export function useCreateHoliday() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (holiday: { date: string; name: string }) => {
+      const { data } = await axios.post("/calendar/holidays", holiday);
+      return data as Holiday;
+    },
+    onSuccess: (holiday) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      toast.success(`${holiday.name} added`);
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to add holiday");
+    },
+  });
+}
+
+// Mutation: Remove a holiday
+export function useDeleteHoliday() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data } = await axios.delete(`/calendar/holidays/${id}`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      toast.success("Holiday removed");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to remove holiday");
+    },
+  });
+}
+
+// Mutation: Suspend classes
+export function useCreateClassSuspension() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (suspension: ClassSuspensionInput) => {
+      const { data } = await axios.post("/calendar/suspensions", suspension);
+      return data as ClassSuspension;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      toast.success("Classes suspended");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to suspend classes");
+    },
+  });
+}
+
+// Mutation: Lift a class suspension
+export function useDeleteClassSuspension() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data } = await axios.delete(`/calendar/suspensions/${id}`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      toast.success("Suspension lifted");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to lift the suspension"
+      );
+    },
+  });
+}
+
+// Query: Signed-in user's calendar feed (null when none is issued)
+export function useCalendarFeed(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.calendar.feed(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/profile/calendar-feed", { signal });
+      return (data.feed ?? null) as CalendarFeed | null;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Mutation: Issue a new calendar feed URL (returned only once)
+export function useRotateCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data } = await axios.post("/profile/calendar-feed");
+      return data as { feed: CalendarFeed; url: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.feed() });
+      toast.success("Calendar feed URL generated");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to generate calendar feed"
+      );
+    },
+  });
+}
+
+// Mutation: Revoke the signed-in user's calendar feed
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data } = await axios.delete("/profile/calendar-feed");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendar.feed() });
+      toast.success("Calendar feed revoked");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to revoke calendar feed"
+      );
+    },
+  });
+}
@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import axios from "@/lib/axios";
 import { queryKeys } from "./queryKeys";
 import toast from "react-hot-toast";
+import { AttendanceSession } from "@/shared/types/attendance";
 
 // Query: Get attendance by course
 export function useAttendanceByCourse(
@@ -418,3 +419,218 @@ export function useClearAttendance() {
     },
   });
 }
+
+// Query: Get the open RFID session started by the current user
+export function useActiveAttendanceSession(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.attendance.activeSession(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/attendance/sessions/active", {
+        signal,
+      });
+      return data.session as AttendanceSession | null;
+    },
+    enabled: options?.enabled ?? true,
+    staleTime: 0,
+    refetchInterval: 15 * 1000, // Pick up sessions started on other devices
+    refetchOnWindowFocus: true,
+  });
+}
+
+// Query: Get the open RFID session of a course on a date (with its scans)
+export function useCourseAttendanceSession(courseSlug: string, date: string) {
+  return useQuery({
+    queryKey: queryKeys.attendance.session(courseSlug, date),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(
+        `/courses/${courseSlug}/attendance/sessions?date=${date}`,
+        { signal }
+      );
+      return data.session as
+        | (AttendanceSession & {
+            scans: Array<{
+              studentId: string;
+              status: string;
+              scannedAt: string | null;
+            }>;
+          })
+        | null;
+    },
+    enabled: !!courseSlug && !!date,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+}
+
+// Mutation: Start an RFID attendance session
+export function useStartAttendanceSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      date,
+      graceMinutes,
+      timeoutMinutes,
+    }: {
+      courseSlug: string;
+      date: string;
+      graceMinutes: number;
+      timeoutMinutes: number;
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/attendance/sessions`,
+        { date, graceMinutes, timeoutMinutes }
+      );
+      return data as AttendanceSession;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.activeSession(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.session(
+          variables.courseSlug,
+          variables.date
+        ),
+      });
+    },
+    onError: (error: any) => {
+      toast.dismiss("error-toast");
+      toast.error(
+        error?.response?.data?.error || "Failed to start attendance",
+        { id: "error-toast", duration: 5000 }
+      );
+    },
+  });
+}
+
+// Mutation: Record an RFID scan (status is decided by the server)
+// Note: No toasts here - the scanner UI shows its own per-student feedback
+export function useRecordAttendanceScan() {
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      sessionId,
+      rfid,
+    }: {
+      courseSlug: string;
+      sessionId: string;
+      rfid: string;
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/attendance/sessions/${sessionId}/scan`,
+        { rfid }
+      );
+      return data as {
+        student: {
+          id: string;
+          studentId: string;
+          name: string;
+          image: string | null;
+        };
+        attendance: { id: string; status: string; scannedAt: string };
+      };
+    },
+  });
+}
+
+// Mutation: Pause or resume an RFID attendance session
+export function usePauseAttendanceSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      sessionId,
+      paused,
+    }: {
+      courseSlug: string;
+      sessionId: string;
+      paused: boolean;
+    }) => {
+      const url = `/courses/${courseSlug}/attendance/sessions/${sessionId}/pause`;
+      const { data } = paused ? await axios.post(url) : await axios.delete(url);
+      return data as AttendanceSession;
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.activeSession(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.session(variables.courseSlug, data.date),
+      });
+      toast.success(
+        variables.paused ? "Attendance session paused" : "Attendance resumed"
+      );
+    },
+    onError: (error: any, variables) => {
+      toast.error(
+        error?.response?.data?.error ||
+          (variables.paused
+            ? "Failed to pause attendance"
+            : "Failed to resume attendance")
+      );
+    },
+  });
+}
+
+// Mutation: End an RFID attendance session (unscanned students become ABSENT)
+export function useEndAttendanceSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      sessionId,
+    }: {
+      courseSlug: string;
+      sessionId: string;
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/attendance/sessions/${sessionId}/end`
+      );
+      return data as { session: AttendanceSession; absentCount: number };
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.activeSession(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.session(
+          variables.courseSlug,
+          data.session.date
+        ),
+      });
+      queryClient.invalidateQueries({
+        queryKey: [
+          ...queryKeys.attendance.byCourse(variables.courseSlug),
+          data.session.date,
+        ],
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.dates(variables.courseSlug),
+        refetchType: "active",
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.stats(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.leaderboard(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.attendance.leaderboardAll(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.courses.analytics(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.stats.attendanceRanking(),
+      });
+    },
+    onError: (error: any) => {
+      toast.dismiss();
+      toast.error(error?.response?.data?.error || "Failed to end attendance");
+    },
+  });
+}
@@ -15,6 +15,7 @@ import {
   CreateCourseInput,
   CourseUpdateInput,
 } from "@/shared/types/course";
+import type { RoomType } from "./useRooms";
 import toast from "react-hot-toast";
 
 // Query: Get all courses
@@ -573,6 +574,208 @@ export function useBulkArchiveCourses() {
   });
 }
 
+export interface CourseRolloverRequest {
+  courseSlugs?: string[];
+  facultyId?: string;
+  sourceAcademicYear?: string;
+  sourceSemester?: string;
+  academicYear: string;
+  semester: string;
+}
+
+export interface CourseRolloverEntry {
+  source: {
+    slug: string;
+    code: string;
+    title: string;
+    section: string;
+    academicYear: string;
+    semester: string;
+  };
+  target: {
+    slug: string | null;
+    code: string;
+    section: string;
+    academicYear: string;
+    semester: string;
+  };
+  status: "create" | "skipped" | "conflict";
+  message: string;
+  copies: {
+    schedules: string[];
+    terms: string[];
+    assessments: string[];
+    criteria: string[];
+  };
+  leftBehind: {
+    students: number;
+    grades: number;
+    attendance: number;
+    quizzes: number;
+  };
+}
+
+// Mutation: Preview a semester rollover (nothing is written)
+export function usePreviewCourseRollover() {
+  return useMutation({
+    mutationFn: async (request: CourseRolloverRequest) => {
+      const { data } = await axios.post<{
+        academicYear: string;
+        semester: string;
+        total: number;
+        toCreate: number;
+        toSkip: number;
+        conflicts: number;
+        courses: CourseRolloverEntry[];
+      }>("/courses/rollover/preview", request);
+      return data;
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to preview course rollover"
+      );
+    },
+  });
+}
+
+// Mutation: Roll courses over into a new term
+export function useCourseRollover() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: CourseRolloverRequest) => {
+      const { data } = await axios.post<{
+        academicYear: string;
+        semester: string;
+        total: number;
+        created: number;
+        skipped: number;
+        conflicts: number;
+        courses: CourseRolloverEntry[];
+      }>("/courses/rollover", request);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats.all });
+      toast.success(
+        `${data.created} course(s) rolled over to ${data.academicYear} ${data.semester}`
+      );
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to roll over courses"
+      );
+    },
+  });
+}
+
+export interface TimetableRequest {
+  academicYear: string;
+  semester: string;
+  weeklyHours?: number;
+  meetingsPerWeek?: number;
+  courses?: Array<{
+    courseId: string;
+    weeklyHours?: number;
+    meetingsPerWeek?: number;
+    roomType?: RoomType;
+  }>;
+  courseIds?: string[];
+}
+
+export interface TimetableEntry {
+  courseId: string;
+  slug: string;
+  code: string;
+  title: string;
+  section: string;
+  faculty: { id: string; name: string } | null;
+  enrolled: number;
+  weeklyHours: number;
+  meetingsPerWeek: number;
+  roomType: RoomType;
+  room: string | null;
+  roomChanged: boolean;
+  schedules: Array<{ day: string; fromTime: string; toTime: string }>;
+  status: "placed" | "unplaced";
+  reason: string | null;
+}
+
+export interface TimetableProposal {
+  academicYear: string;
+  semester: string;
+  placed: number;
+  unplaced: number;
+  courses: TimetableEntry[];
+  facultyLoad: Array<{
+    facultyId: string;
+    name: string;
+    workType: string;
+    limitHours: number;
+    scheduledHours: number;
+    proposedHours: number;
+  }>;
+}
+
+// Mutation: Propose a timetable for a term's unscheduled courses (nothing is written)
+export function useProposeTimetable() {
+  return useMutation({
+    mutationFn: async (request: TimetableRequest) => {
+      const { data } = await axios.post<TimetableProposal>(
+        "/courses/timetable",
+        request
+      );
+      return data;
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to generate timetable"
+      );
+    },
+  });
+}
+
+// Mutation: Save the placed courses of a timetable proposal
+export function useApplyTimetable() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entries: TimetableEntry[]) => {
+      const { data } = await axios.post<{
+        message: string;
+        results: {
+          success: number;
+          failed: number;
+          errors: Array<{ courseId: string; message: string }>;
+        };
+      }>("/courses/assign-schedules", {
+        coursesSchedules: entries.map((entry) => ({
+          courseId: entry.courseId,
+          schedules: entry.schedules,
+          room: entry.room ?? undefined,
+        })),
+      });
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rooms.all });
+      if (data.results.failed > 0) {
+        toast.error(
+          `${data.results.failed} course(s) could not be scheduled: ${data.results.errors[0]?.message}`
+        );
+      }
+      if (data.results.success > 0) {
+        toast.success(`Schedules saved for ${data.results.success} course(s)`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to save timetable");
+    },
+  });
+}
+
 // Mutation: Import courses
 export function useImportCourses() {
   const queryClient = useQueryClient();
@@ -308,3 +308,245 @@ export function useLinkCriteria() {
     },
   });
 }
+
+export type CriteriaTemplateType = "individual" | "group" | "recitation";
+
+export interface CriteriaTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  scope: "PERSONAL" | "DEPARTMENT";
+  department: string | null;
+  ownerId: string;
+  isGroupCriteria: boolean;
+  isRecitationCriteria: boolean;
+  scoringRange: string;
+  passingScore: string;
+  version: number;
+  rubrics: Array<{ id: string; name: string; percentage: number }>;
+  owner: { id: string; name: string };
+  _count: { criteria: number };
+}
+
+export interface CriteriaTemplateUsage {
+  templateId: string;
+  version: number;
+  usage: Array<{
+    criteriaId: string;
+    criteriaName: string;
+    date: string;
+    courseSlug: string;
+    courseCode: string;
+    courseSection: string;
+    facultyName: string | null;
+    templateVersion: number | null;
+    isOutdated: boolean;
+  }>;
+}
+
+// Query: Get criteria templates visible to the current user
+export function useCriteriaTemplates(type?: CriteriaTemplateType) {
+  return useQuery({
+    queryKey: queryKeys.criteria.templates(type),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get<CriteriaTemplate[]>(
+        "/criteria-templates",
+        { params: type ? { type } : undefined, signal }
+      );
+      return data;
+    },
+  });
+}
+
+// Query: Courses using a template (and whether they are outdated)
+export function useCriteriaTemplateUsage(templateId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.criteria.templateUsage(templateId || ""),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get<CriteriaTemplateUsage>(
+        `/criteria-templates/${templateId}/usage`,
+        { signal }
+      );
+      return data;
+    },
+    enabled: !!templateId,
+  });
+}
+
+// Mutation: Save criteria settings as a template
+export function useCreateCriteriaTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateData: {
+      name: string;
+      description?: string;
+      scope?: "PERSONAL" | "DEPARTMENT";
+      isGroupCriteria?: boolean;
+      isRecitationCriteria?: boolean;
+      scoringRange: number | string;
+      passingScore: number | string;
+      rubrics: Array<{ name: string; percentage: number }>;
+      sourceCriteriaId?: string;
+    }) => {
+      const { data } = await axios.post<CriteriaTemplate>(
+        "/criteria-templates",
+        templateData
+      );
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templates(),
+      });
+      toast.success("Template saved");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to save template");
+    },
+  });
+}
+
+// Mutation: Update a template (rename, share or publish a new version)
+export function useUpdateCriteriaTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      templateData,
+    }: {
+      id: string;
+      templateData: {
+        name: string;
+        description?: string | null;
+        scope?: "PERSONAL" | "DEPARTMENT";
+        scoringRange: number | string;
+        passingScore: number | string;
+        rubrics: Array<{ name: string; percentage: number }>;
+      };
+    }) => {
+      const { data } = await axios.put<CriteriaTemplate>(
+        `/criteria-templates/${id}`,
+        templateData
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templates(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templateUsage(variables.id),
+      });
+      toast.success("Template updated");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to update template");
+    },
+  });
+}
+
+// Mutation: Delete a template (criteria created from it are kept)
+export function useDeleteCriteriaTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/criteria-templates/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templates(),
+      });
+      toast.success("Template deleted");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to delete template");
+    },
+  });
+}
+
+// Mutation: Create criteria from a template in several courses at once
+export function useApplyCriteriaTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      courseSlugs,
+      date,
+      name,
+    }: {
+      id: string;
+      courseSlugs: string[];
+      date: string;
+      name?: string;
+    }) => {
+      const { data } = await axios.post(`/criteria-templates/${id}/apply`, {
+        courseSlugs,
+        date,
+        name,
+      });
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      variables.courseSlugs.forEach((courseSlug) => {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.criteria.byCourse(courseSlug),
+        });
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.criteria.recitation(courseSlug),
+        });
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.criteria.group(courseSlug),
+        });
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templateUsage(variables.id),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templates(),
+      });
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to apply template");
+    },
+  });
+}
+
+// Mutation: Publish an edited criteria as the template's next version
+export function usePublishCriteriaToTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      templateId,
+      criteriaId,
+    }: {
+      templateId: string;
+      criteriaId: string;
+    }) => {
+      const { data } = await axios.post<CriteriaTemplate>(
+        `/criteria-templates/${templateId}/publish`,
+        { criteriaId }
+      );
+      return data;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templates(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.criteria.templateUsage(template.id),
+      });
+      toast.success(`Template updated to version ${template.version}`);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to publish template version"
+      );
+    },
+  });
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+import { DocumentUploadResponse } from "@/shared/types/upload";
+import toast from "react-hot-toast";
+
+// Query: Get excuse requests (reviewers see all, faculty their own)
+export function useExcuseRequests(filters?: { status?: string }) {
+  return useQuery({
+    queryKey: queryKeys.attendance.excuseRequests(filters),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/excuse-requests", {
+        params: filters,
+        signal,
+      });
+      return data.requests;
+    },
+  });
+}
+
+// Mutation: Upload a supporting document for an excuse request
+export function useUploadExcuseDocument() {
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("purpose", "excuse");
+      formData.append("file", file);
+
+      const { data } = await axios.post<DocumentUploadResponse>(
+        "/upload",
+        formData,
+        { headers: { "Content-Type": "multipart/form-data" } }
+      );
+      return data;
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to upload document");
+    },
+  });
+}
+
+// Mutation: File an excuse request
+export function useCreateExcuseRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: {
+      studentId: string;
+      startDate: string;
+      endDate: string;
+      reason: string;
+      attachments: DocumentUploadResponse[];
+    }) => {
+      const { data } = await axios.post("/excuse-requests", request);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [...queryKeys.attendance.all, "excuseRequests"],
+      });
+      toast.success("Excuse request sent for approval");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to file excuse request"
+      );
+    },
+  });
+}
+
+// Mutation: Approve or reject an excuse request
+export function useReviewExcuseRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      requestId,
+      decision,
+      note,
+    }: {
+      requestId: string;
+      decision: "APPROVE" | "REJECT";
+      note?: string;
+    }) => {
+      const { data } = await axios.patch(`/excuse-requests/${requestId}`, {
+        decision,
+        note,
+      });
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      // Approval changes attendance in every course of the student
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      toast.success(
+        variables.decision === "APPROVE" ? "Excuse approved" : "Excuse rejected"
+      );
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to review excuse request"
+      );
+    },
+  });
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+import toast from "react-hot-toast";
+
+export type ExportJobType =
+  | "COURSE_GRADES"
+  | "CLASS_RECORD"
+  | "CRITERIA_REPORT"
+  | "CLASS_RECORD_PDF"
+  | "GRADE_SHEET_PDF"
+  | "ATTENDANCE_SUMMARY_PDF";
+export type ExportJobStatus = "QUEUED" | "PROCESSING" | "COMPLETED" | "FAILED";
+
+export interface ExportJob {
+  id: string;
+  type: ExportJobType;
+  status: ExportJobStatus;
+  progress: number;
+  params: Record<string, any>;
+  batchId: string;
+  fileName: string | null;
+  recordCount: number | null;
+  errorMessage: string | null;
+  requestedById: string;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  expiresAt: string | null;
+  course: { slug: string; code: string; section: string };
+}
+
+export interface CreateExportJobRequest {
+  type: ExportJobType;
+  courseSlug: string;
+  params: Record<string, any>;
+}
+
+const isPending = (job?: ExportJob) =>
+  job?.status === "QUEUED" || job?.status === "PROCESSING";
+
+// Download through the API, which redirects to a short-lived storage link
+export const downloadExportJob = (id: string) => {
+  window.location.assign(`/api/exports/${id}/download`);
+};
+
+// Query: Get the current user's recent exports
+export function useExportJobs(courseSlug?: string) {
+  return useQuery({
+    queryKey: queryKeys.exports.lists(courseSlug),
+    queryFn: async () => {
+      const { data } = await axios.get<ExportJob[]>("/exports", {
+        params: courseSlug ? { courseSlug } : undefined,
+      });
+      return data;
+    },
+  });
+}
+
+// Query: Poll an export job until it finishes
+export function useExportJob(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.exports.detail(id || ""),
+    queryFn: async () => {
+      const { data } = await axios.get<ExportJob>(`/exports/${id}`);
+      return data;
+    },
+    enabled: !!id,
+    staleTime: 0,
+    refetchInterval: (query) =>
+      isPending(query.state.data as ExportJob | undefined) ? 1500 : false,
+  });
+}
+
+// Mutation: Queue an export
+export function useCreateExportJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: CreateExportJobRequest) => {
+      const { data } = await axios.post<ExportJob>("/exports", request);
+      return data;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData(queryKeys.exports.detail(job.id), job);
+      queryClient.invalidateQueries({ queryKey: queryKeys.exports.lists() });
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to start export");
+    },
+  });
+}
+
+// Queue an export, follow its progress and download it when it is ready
+export function useExportRunner(options?: { onComplete?: () => void }) {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const createMutation = useCreateExportJob();
+  const { data: job } = useExportJob(jobId);
+  const handledRef = useRef<string | null>(null);
+  const onCompleteRef = useRef(options?.onComplete);
+  onCompleteRef.current = options?.onComplete;
+
+  useEffect(() => {
+    if (!job || handledRef.current === job.id) return;
+
+    if (job.status === "COMPLETED") {
+      handledRef.current = job.id;
+      downloadExportJob(job.id);
+      toast.success(
+        `Exported ${job.recordCount ?? 0} student(s) to ${job.fileName}`
+      );
+      setJobId(null);
+      onCompleteRef.current?.();
+    } else if (job.status === "FAILED") {
+      handledRef.current = job.id;
+      toast.error(job.errorMessage || "Export failed");
+      setJobId(null);
+    }
+  }, [job]);
+
+  const start = async (request: CreateExportJobRequest) => {
+    const created = await createMutation.mutateAsync(request).catch(() => null);
+    if (created) setJobId(created.id);
+  };
+
+  return {
+    start,
+    job: jobId ? job : undefined,
+    isRunning: createMutation.isPending || (!!jobId && isPending(job)),
+    progress: jobId ? job?.progress ?? 0 : 0,
+  };
+}
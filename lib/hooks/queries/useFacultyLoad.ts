@@ -1,8 +1,9 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import axios from "@/lib/axios";
 import { queryKeys } from "./queryKeys";
+import toast from "react-hot-toast";
 
 // Query: Get current user's faculty load (courses teaching)
 export function useFacultyLoad() {
@@ -20,3 +21,114 @@ export function useFacultyLoad() {
     },
   });
 }
+
+export type WorkTypeLimits = Record<
+  "FULL_TIME" | "PART_TIME" | "CONTRACT",
+  { maxHours: number; maxCourses: number | null }
+>;
+
+export interface AvailabilityWindow {
+  day: string;
+  fromTime: string;
+  toTime: string;
+}
+
+export interface FacultyUtilization {
+  id: string;
+  name: string;
+  department: string;
+  workType: "FULL_TIME" | "PART_TIME" | "CONTRACT";
+  courses: number;
+  scheduledHours: number;
+  maxHours: number;
+  maxCourses: number | null;
+  utilization: number;
+  status: "UNDER" | "NEAR" | "OVER";
+  availableHours: number | null;
+  outsideAvailability: Array<{ code: string; section: string; slot: string }>;
+}
+
+// Query: Teaching load of every faculty member against their limits
+export function useFacultyUtilization() {
+  return useQuery({
+    queryKey: queryKeys.facultyLoad.utilization(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/faculty-load", { signal });
+      return (data.faculty ?? []) as FacultyUtilization[];
+    },
+  });
+}
+
+// Query: Load limits per work type
+export function useTeachingLoadLimits(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.facultyLoad.limits(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/faculty-load/limits", { signal });
+      return data.limits as WorkTypeLimits;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Mutation: Set the load limits per work type
+export function useUpdateTeachingLoadLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      limits: Array<{
+        workType: keyof WorkTypeLimits;
+        maxHours: number;
+        maxCourses: number | null;
+      }>
+    ) => {
+      const { data } = await axios.put("/faculty-load/limits", { limits });
+      return data.limits as WorkTypeLimits;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.facultyLoad.all });
+      toast.success("Load limits updated");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to update load limits"
+      );
+    },
+  });
+}
+
+// Query: Signed-in faculty member's availability windows
+export function useMyAvailability(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.facultyLoad.availability(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/profile/availability", { signal });
+      return (data.availability ?? []) as AvailabilityWindow[];
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Mutation: Replace the signed-in faculty member's availability windows
+export function useUpdateMyAvailability() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (availability: AvailabilityWindow[]) => {
+      const { data } = await axios.put("/profile/availability", {
+        availability,
+      });
+      return data.availability as AvailabilityWindow[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.facultyLoad.all });
+      toast.success("Availability saved");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to save availability"
+      );
+    },
+  });
+}
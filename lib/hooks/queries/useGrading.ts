@@ -68,6 +68,100 @@ export function useTermGrades(
   });
 }
 
+// Query: Get grading scales
+export function useGradingScales(department?: string) {
+  return useQuery({
+    queryKey: queryKeys.grading.gradingScales(department),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/grading-scales", {
+        params: department ? { department } : {},
+        signal,
+      });
+      return data;
+    },
+  });
+}
+
+// Query: Get the grading scale a course resolves grades through
+export function useCourseGradingScale(courseSlug: string) {
+  return useQuery({
+    queryKey: queryKeys.grading.courseGradingScale(courseSlug),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(`/courses/${courseSlug}/grading-scale`, {
+        signal,
+      });
+      return data;
+    },
+    enabled: !!courseSlug,
+  });
+}
+
+// Query: Get a course's ordered terms and final-grade weights
+export function useCourseTerms(courseSlug: string) {
+  return useQuery({
+    queryKey: queryKeys.grading.courseTerms(courseSlug),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(`/courses/${courseSlug}/terms`, {
+        signal,
+      });
+      return data;
+    },
+    enabled: !!courseSlug,
+  });
+}
+
+// Query: Get the grade sheet status of each term of a course
+export function useGradeSubmissions(courseSlug: string) {
+  return useQuery({
+    queryKey: queryKeys.grading.gradeSubmissions(courseSlug),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(
+        `/courses/${courseSlug}/grade-submissions`,
+        { signal }
+      );
+      return data.submissions;
+    },
+    enabled: !!courseSlug,
+  });
+}
+
+// Query: Get grade sheets awaiting review (academic heads)
+export function useGradeSubmissionsForReview() {
+  return useQuery({
+    queryKey: queryKeys.grading.gradeSubmissionReview(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/grade-submissions", { signal });
+      return data.submissions;
+    },
+  });
+}
+
+// Query: Get a course's pending grade change requests
+export function useGradeChangeRequests(courseSlug: string) {
+  return useQuery({
+    queryKey: queryKeys.grading.gradeChangeRequests(courseSlug),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(
+        `/courses/${courseSlug}/grade-change-requests`,
+        { params: { status: "PENDING" }, signal }
+      );
+      return data.requests;
+    },
+    enabled: !!courseSlug,
+  });
+}
+
+// Query: Get grade change requests awaiting review (academic heads)
+export function useGradeChangeRequestsForReview() {
+  return useQuery({
+    queryKey: queryKeys.grading.gradeChangeRequestReview(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/grade-change-requests", { signal });
+      return data.requests;
+    },
+  });
+}
+
 // Query: Get grades
 export function useGrades(
   courseSlug: string,
@@ -415,3 +509,343 @@ export function useDeleteGrades() {
     },
   });
 }
+
+// Mutation: Pick a course's grading scale
+export function useSetCourseGradingScale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      gradingScaleId,
+    }: {
+      courseSlug: string;
+      gradingScaleId: string | null;
+    }) => {
+      const { data } = await axios.put(`/courses/${courseSlug}/grading-scale`, {
+        gradingScaleId,
+      });
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.courseGradingScale(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.classRecord(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: [
+          ...queryKeys.grading.all,
+          "termGrades",
+          variables.courseSlug,
+        ],
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.stats.courseAnalytics(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.stats.gradesLeaderboard(variables.courseSlug),
+      });
+      toast.success("Grading scale updated successfully");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to update grading scale"
+      );
+    },
+  });
+}
+
+// Mutation: Replace a course's terms and their final-grade weights
+export function useSetCourseTerms() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      terms,
+    }: {
+      courseSlug: string;
+      terms: Array<{ key?: string; label: string; weight: number }>;
+    }) => {
+      const { data } = await axios.put(`/courses/${courseSlug}/terms`, {
+        terms,
+      });
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.courseTerms(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.classRecord(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: [
+          ...queryKeys.grading.all,
+          "termGrades",
+          variables.courseSlug,
+        ],
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.courses.analytics(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.stats.courseAnalytics(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.stats.gradesLeaderboard(variables.courseSlug),
+      });
+      toast.success("Terms updated successfully");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to update terms");
+    },
+  });
+}
+
+// Mutation: Submit, approve, return or lock a term's grade sheet
+export function useTransitionGradeSubmission() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      term,
+      action,
+      note,
+    }: {
+      courseSlug: string;
+      term: string;
+      action: "SUBMIT" | "APPROVE" | "RETURN" | "LOCK";
+      note?: string;
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/grade-submissions`,
+        { term, action, note }
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeSubmissions(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeSubmissionReview(),
+      });
+      const messages = {
+        SUBMIT: "Grade sheet submitted for review",
+        APPROVE: "Grade sheet approved",
+        RETURN: "Grade sheet returned to faculty",
+        LOCK: "Grade sheet locked",
+      };
+      toast.success(messages[variables.action]);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to update grade sheet"
+      );
+    },
+  });
+}
+
+// Mutation: Show or hide a term's grades in the student portal
+export function useSetGradeRelease() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      term,
+      released,
+    }: {
+      courseSlug: string;
+      term: string;
+      released: boolean;
+    }) => {
+      const { data } = await axios.patch(
+        `/courses/${courseSlug}/grade-submissions`,
+        { term, released }
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeSubmissions(variables.courseSlug),
+      });
+      toast.success(
+        variables.released
+          ? "Grades are now visible to students"
+          : "Grades are hidden from students"
+      );
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to update grade release"
+      );
+    },
+  });
+}
+
+// Mutation: Propose a score correction on a locked term
+export function useCreateGradeChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      ...request
+    }: {
+      courseSlug: string;
+      studentId: string;
+      assessmentId: string;
+      proposedScore: number | null;
+      reason: string;
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/grade-change-requests`,
+        request
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeChangeRequests(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeChangeRequestReview(),
+      });
+      toast.success("Grade change request sent for approval");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to request grade change"
+      );
+    },
+  });
+}
+
+// Mutation: Approve or reject a grade change request
+export function useReviewGradeChangeRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      requestId,
+      decision,
+      note,
+    }: {
+      requestId: string;
+      courseSlug: string;
+      decision: "APPROVE" | "REJECT";
+      note?: string;
+    }) => {
+      const { data } = await axios.patch(
+        `/grade-change-requests/${requestId}`,
+        { decision, note }
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeChangeRequestReview(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradeChangeRequests(variables.courseSlug),
+      });
+      if (variables.decision === "APPROVE") {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.grading.classRecord(variables.courseSlug),
+        });
+        queryClient.invalidateQueries({
+          queryKey: [
+            ...queryKeys.grading.all,
+            "termGrades",
+            variables.courseSlug,
+          ],
+        });
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.courses.analytics(variables.courseSlug),
+        });
+      }
+      toast.success(
+        variables.decision === "APPROVE"
+          ? "Grade change approved"
+          : "Grade change rejected"
+      );
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to review grade change"
+      );
+    },
+  });
+}
+
+// Mutation: Create grading scale
+export function useCreateGradingScale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scaleData: any) => {
+      const { data } = await axios.post("/grading-scales", scaleData);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradingScales(),
+      });
+      toast.success("Grading scale created successfully");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to create grading scale"
+      );
+    },
+  });
+}
+
+// Mutation: Update grading scale
+export function useUpdateGradingScale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, scaleData }: { id: string; scaleData: any }) => {
+      const { data } = await axios.put(`/grading-scales/${id}`, scaleData);
+      return data;
+    },
+    onSuccess: () => {
+      // Courses resolving through this scale get recomputed grades
+      queryClient.invalidateQueries({ queryKey: queryKeys.grading.all });
+      toast.success("Grading scale updated successfully");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to update grading scale"
+      );
+    },
+  });
+}
+
+// Mutation: Delete grading scale
+export function useDeleteGradingScale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/grading-scales/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.gradingScales(),
+      });
+      toast.success("Grading scale deleted successfully");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to delete grading scale"
+      );
+    },
+  });
+}
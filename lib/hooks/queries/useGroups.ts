@@ -308,3 +308,157 @@ export function useAssignGroupCriteria() {
     },
   });
 }
+
+// Mutation: Preview constraint-aware groups for the ungrouped students
+// Nothing is saved until the groups are created from the preview
+export function useGenerateGroupPreview() {
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      options,
+    }: {
+      courseSlug: string;
+      options: {
+        minSize: number;
+        maxSize: number;
+        balanceBy: "NONE" | "GRADE" | "ATTENDANCE";
+        keepTogether: Array<[string, string]>;
+        keepApart: Array<[string, string]>;
+        avoidRepeatPairs: boolean;
+        leaderRule: "NONE" | "RANDOM" | "HIGHEST_GRADE" | "BEST_ATTENDANCE";
+        seed?: number;
+      };
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/groups/generate`,
+        options
+      );
+      return data;
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to generate groups");
+    },
+  });
+}
+
+// Query: Get the peer evaluation of a group criteria (null if none)
+export function usePeerEvaluation(courseSlug: string, criteriaId: string) {
+  return useQuery({
+    queryKey: queryKeys.groups.peerEvaluation(courseSlug, criteriaId),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(
+        `/courses/${courseSlug}/peer-evaluations`,
+        { params: { criteriaId }, signal }
+      );
+      return data.evaluation;
+    },
+    enabled: !!courseSlug && !!criteriaId,
+  });
+}
+
+// Mutation: Open (or reopen) peer evaluation for a group criteria
+export function useOpenPeerEvaluation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      ...settings
+    }: {
+      courseSlug: string;
+      criteriaId: string;
+      rubric: string[];
+      scale: number;
+      closesAt: string;
+      minMultiplier: number;
+      maxMultiplier: number;
+    }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/peer-evaluations`,
+        settings
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.groups.peerEvaluation(
+          variables.courseSlug,
+          variables.criteriaId
+        ),
+      });
+      toast.success("Peer evaluation opened");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to open peer evaluation"
+      );
+    },
+  });
+}
+
+// Mutation: Close peer evaluation and apply the grade adjustments
+export function useClosePeerEvaluation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      criteriaId,
+    }: {
+      courseSlug: string;
+      criteriaId: string;
+    }) => {
+      const { data } = await axios.patch(
+        `/courses/${courseSlug}/peer-evaluations`,
+        { criteriaId }
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.groups.peerEvaluation(
+          variables.courseSlug,
+          variables.criteriaId
+        ),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.classRecord(variables.courseSlug),
+      });
+      toast.success("Peer evaluation closed and grades adjusted");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to close peer evaluation"
+      );
+    },
+  });
+}
+
+// Mutation: Submit a student's ratings of their groupmates
+export function useSubmitPeerRatings() {
+  return useMutation({
+    mutationFn: async ({
+      evaluationId,
+      ratings,
+    }: {
+      evaluationId: string;
+      ratings: Array<{
+        rateeId: string;
+        scores: number[];
+        comment?: string;
+      }>;
+    }) => {
+      const { data } = await axios.post(
+        `/student/peer-evaluations/${evaluationId}`,
+        { ratings }
+      );
+      return data;
+    },
+    onSuccess: () => {
+      toast.success("Ratings submitted");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to submit ratings");
+    },
+  });
+}
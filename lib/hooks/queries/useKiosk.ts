@@ -0,0 +1,70 @@
+"use client";
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+
+// Kiosk requests carry the device token instead of a user session
+const kioskHeaders = (token: string) => ({
+  Authorization: `Bearer ${token}`,
+});
+
+export interface KioskStatus {
+  device: { name: string; room: string };
+  currentClass: {
+    id: string;
+    slug: string;
+    code: string;
+    title: string;
+    section: string;
+    room: string;
+    fromTime: string;
+    toTime: string;
+  } | null;
+}
+
+export interface KioskScanResult {
+  student: {
+    name: string;
+    firstName: string;
+    studentId: string;
+    image: string | null;
+  };
+  status: "PRESENT" | "LATE";
+  scannedAt: string;
+  course: { code: string; title: string; section: string; room: string };
+  message: string;
+}
+
+// Query: Get the kiosk device and the class currently in its room
+export function useKioskStatus(token: string | null) {
+  return useQuery({
+    queryKey: queryKeys.attendance.kioskStatus(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/kiosk/status", {
+        headers: kioskHeaders(token!),
+        signal,
+      });
+      return data as KioskStatus;
+    },
+    enabled: !!token,
+    retry: false,
+    refetchInterval: 60 * 1000, // Classes change over the day
+    refetchOnWindowFocus: false,
+  });
+}
+
+// Mutation: Send a card tap from the kiosk reader
+// Note: No toasts here - the kiosk shows full-screen feedback instead
+export function useKioskScan(token: string | null) {
+  return useMutation({
+    mutationFn: async (rfid: string) => {
+      const { data } = await axios.post(
+        "/kiosk/scan",
+        { rfid },
+        { headers: kioskHeaders(token!) }
+      );
+      return data as KioskScanResult;
+    },
+  });
+}
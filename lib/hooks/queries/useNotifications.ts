@@ -0,0 +1,87 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+import toast from "react-hot-toast";
+
+export type NotificationType = "ABSENCE_THRESHOLD" | "AT_RISK";
+export type NotificationStatus = "QUEUED" | "SENDING" | "SENT" | "FAILED";
+
+export interface NotificationSettings {
+  absenceEnabled: boolean;
+  absenceThreshold: number;
+  notifyGuardian: boolean;
+  atRiskEnabled: boolean;
+  failingThreshold: number | null;
+  updatedAt: string;
+}
+
+export interface NotificationLogEntry {
+  id: string;
+  type: NotificationType;
+  status: NotificationStatus;
+  recipient: string;
+  subject: string;
+  attempts: number;
+  errorMessage: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  course: { code: string; section: string } | null;
+}
+
+// Query: Get the notification settings
+export function useNotificationSettings() {
+  return useQuery({
+    queryKey: queryKeys.notifications.settings(),
+    queryFn: async () => {
+      const { data } = await axios.get<NotificationSettings>(
+        "/notifications/settings"
+      );
+      return data;
+    },
+  });
+}
+
+// Query: Get recent notifications
+export function useNotifications(filters?: {
+  status?: NotificationStatus;
+  type?: NotificationType;
+}) {
+  return useQuery({
+    queryKey: queryKeys.notifications.lists(filters),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get<NotificationLogEntry[]>(
+        "/notifications",
+        { params: filters, signal }
+      );
+      return data;
+    },
+  });
+}
+
+// Mutation: Update the notification settings
+export function useUpdateNotificationSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      settings: Partial<Omit<NotificationSettings, "updatedAt">>
+    ) => {
+      const { data } = await axios.put<NotificationSettings>(
+        "/notifications/settings",
+        settings
+      );
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.notifications.settings(), data);
+      toast.success("Notification settings saved");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.response?.data?.error || "Failed to save notification settings"
+      );
+    },
+  });
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+import toast from "react-hot-toast";
+
+export interface QuizFormInput {
+  name: string;
+  quizDate: string;
+  attendanceRangeStart: string;
+  attendanceRangeEnd: string;
+  maxScore: number;
+  passingRate: number;
+  maxPlusPoints: number;
+  assessmentId: string | null;
+}
+
+// Query: Get a course's quizzes
+export function useQuizzes(courseSlug: string) {
+  return useQuery({
+    queryKey: queryKeys.quizzes.byCourse(courseSlug),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(`/courses/${courseSlug}/quizzes`, {
+        signal,
+      });
+      return data.quizzes;
+    },
+    enabled: !!courseSlug,
+  });
+}
+
+// Query: Get a quiz with its student score rows
+export function useQuiz(courseSlug: string, quizId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.quizzes.detail(courseSlug, quizId ?? ""),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get(
+        `/courses/${courseSlug}/quizzes/${quizId}`,
+        { signal }
+      );
+      return data;
+    },
+    enabled: !!courseSlug && !!quizId,
+  });
+}
+
+// Mutation: Create quiz
+export function useCreateQuiz() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      quiz,
+    }: {
+      courseSlug: string;
+      quiz: QuizFormInput;
+    }) => {
+      const { data } = await axios.post(`/courses/${courseSlug}/quizzes`, quiz);
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quizzes.byCourse(variables.courseSlug),
+      });
+      toast.success("Quiz created successfully");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to create quiz");
+    },
+  });
+}
+
+// Mutation: Update quiz
+export function useUpdateQuiz() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      quizId,
+      quiz,
+    }: {
+      courseSlug: string;
+      quizId: string;
+      quiz: QuizFormInput;
+    }) => {
+      const { data } = await axios.put(
+        `/courses/${courseSlug}/quizzes/${quizId}`,
+        quiz
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quizzes.byCourse(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quizzes.detail(
+          variables.courseSlug,
+          variables.quizId
+        ),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.classRecord(variables.courseSlug),
+      });
+      toast.success("Quiz updated successfully");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to update quiz");
+    },
+  });
+}
+
+// Mutation: Delete quiz
+export function useDeleteQuiz() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      quizId,
+    }: {
+      courseSlug: string;
+      quizId: string;
+    }) => {
+      const { data } = await axios.delete(
+        `/courses/${courseSlug}/quizzes/${quizId}`
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quizzes.byCourse(variables.courseSlug),
+      });
+      toast.success("Quiz deleted successfully");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to delete quiz");
+    },
+  });
+}
+
+// Mutation: Save quiz scores (linked class record scores are updated too)
+export function useSaveQuizScores() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      courseSlug,
+      quizId,
+      scores,
+    }: {
+      courseSlug: string;
+      quizId: string;
+      scores: Array<{ studentId: string; score: number | null }>;
+    }) => {
+      const { data } = await axios.put(
+        `/courses/${courseSlug}/quizzes/${quizId}/scores`,
+        { scores }
+      );
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quizzes.detail(
+          variables.courseSlug,
+          variables.quizId
+        ),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quizzes.byCourse(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.grading.classRecord(variables.courseSlug),
+      });
+      toast.success("Quiz scores saved");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to save quiz scores");
+    },
+  });
+}
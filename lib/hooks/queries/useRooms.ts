@@ -0,0 +1,97 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+import toast from "react-hot-toast";
+
+export type RoomType = "LECTURE" | "LAB";
+
+export interface Room {
+  id: string;
+  name: string;
+  building: string | null;
+  capacity: number;
+  type: RoomType;
+  _count: { courses: number };
+}
+
+export interface RoomInput {
+  name: string;
+  building?: string | null;
+  capacity: number;
+  type: RoomType;
+}
+
+// Query: Get registered rooms
+export function useRooms(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.rooms.lists(),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/rooms", { signal });
+      return (data.rooms ?? []) as Room[];
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Mutation: Register a room
+export function useCreateRoom() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (room: RoomInput) => {
+      const { data } = await axios.post("/rooms", room);
+      return data as Room;
+    },
+    onSuccess: (room) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.rooms.all });
+      toast.success(`Room ${room.name} added`);
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to add room");
+    },
+  });
+}
+
+// Mutation: Update a room (renaming relabels its courses)
+export function useUpdateRoom() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...room
+    }: Partial<RoomInput> & { id: string }) => {
+      const { data } = await axios.patch(`/rooms/${id}`, room);
+      return data as Room;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.rooms.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.all });
+      toast.success("Room updated");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to update room");
+    },
+  });
+}
+
+// Mutation: Delete a room (courses keep the label)
+export function useDeleteRoom() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data } = await axios.delete(`/rooms/${id}`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.rooms.all });
+      toast.success("Room deleted");
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to delete room");
+    },
+  });
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import axios from "@/lib/axios";
+import { queryKeys } from "./queryKeys";
+
+export interface Section {
+  id: string;
+  name: string;
+  academicYear: string;
+  _count: { courses: number; students: number };
+}
+
+// Query: Get sections (optionally of one academic year)
+export function useSections(
+  academicYear?: string,
+  options?: { enabled?: boolean }
+) {
+  return useQuery({
+    queryKey: queryKeys.sections.list(academicYear),
+    queryFn: async ({ signal }) => {
+      const { data } = await axios.get("/sections", {
+        params: { academicYear },
+        signal,
+      });
+      return (data.sections ?? []) as Section[];
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
@@ -258,6 +258,37 @@ export function useImportStudentsToCourse() {
   });
 }
 
+// Mutation: Enroll every student of the course's section
+export function useEnrollCourseSection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ courseSlug }: { courseSlug: string }) => {
+      const { data } = await axios.post(
+        `/courses/${courseSlug}/students/section`
+      );
+      return data;
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.students.byCourse(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.courses.students(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.courses.detail(variables.courseSlug),
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats.all });
+      toast.success(`${data.imported} student(s) enrolled from the section`);
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || "Failed to enroll section");
+    },
+  });
+}
+
 // Mutation: Assign RFID to student
 export function useAssignRFID() {
   const queryClient = useQueryClient();
@@ -15,6 +15,7 @@ export const Permissions = {
   CAN_VIEW_COURSES: ["ACADEMIC_HEAD", "FACULTY"] as Role[],
   CAN_CREATE_COURSES: ["FACULTY"] as Role[],
   CAN_ACCESS_AUDIT_LOGS: ["ADMIN", "ACADEMIC_HEAD"] as Role[],
+  CAN_ACCESS_STUDENT_PORTAL: ["STUDENT"] as Role[],
 } as const;
 
 /**
@@ -15,6 +15,14 @@ export enum Permission {
   VIEW_LIMITED_LOGS = "VIEW_LIMITED_LOGS",
   USE_BREAK_GLASS = "USE_BREAK_GLASS",
   ACTIVATE_BREAK_GLASS = "ACTIVATE_BREAK_GLASS",
+  MANAGE_GRADING_SCALES = "MANAGE_GRADING_SCALES",
+  REVIEW_GRADES = "REVIEW_GRADES",
+  MANAGE_SECTIONS = "MANAGE_SECTIONS",
+  MANAGE_KIOSKS = "MANAGE_KIOSKS",
+  MANAGE_NOTIFICATIONS = "MANAGE_NOTIFICATIONS",
+  REVIEW_EXCUSES = "REVIEW_EXCUSES",
+  MANAGE_ROOMS = "MANAGE_ROOMS",
+  MANAGE_CALENDAR = "MANAGE_CALENDAR",
 }
 
 /**
@@ -32,6 +40,14 @@ const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
     Permission.VIEW_LIMITED_LOGS,
     Permission.USE_BREAK_GLASS,
     Permission.ACTIVATE_BREAK_GLASS,
+    Permission.MANAGE_GRADING_SCALES,
+    Permission.REVIEW_GRADES,
+    Permission.MANAGE_SECTIONS,
+    Permission.MANAGE_ROOMS,
+    Permission.MANAGE_KIOSKS,
+    Permission.MANAGE_NOTIFICATIONS,
+    Permission.REVIEW_EXCUSES,
+    Permission.MANAGE_CALENDAR,
   ],
   [Role.ACADEMIC_HEAD]: [
     Permission.MANAGE_FACULTY,
@@ -39,12 +55,18 @@ const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
     Permission.MANAGE_COURSES,
     Permission.VIEW_COURSES,
     Permission.VIEW_LIMITED_LOGS,
+    Permission.REVIEW_GRADES,
+    Permission.MANAGE_SECTIONS,
+    Permission.MANAGE_ROOMS,
+    Permission.REVIEW_EXCUSES,
     Permission.USE_BREAK_GLASS, // Only when break-glass is active
   ],
   [Role.FACULTY]: [
     Permission.VIEW_COURSES,
     Permission.MANAGE_COURSES, // Own courses only
   ],
+  // Students only use the read-only portal
+  [Role.STUDENT]: [],
 };
 
 /**
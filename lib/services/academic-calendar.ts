@@ -0,0 +1,392 @@
+import { prisma } from "@/lib/prisma";
+import { SuspensionScope } from "@prisma/client";
+import { DEFAULT_TERM_DEFINITIONS } from "./grading-engine";
+import { toTermDefinitions } from "./grading";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest span non-class days are resolved over in one call
+export const MAX_CALENDAR_DAYS = 731;
+
+export interface NonClassDay {
+  date: string;
+  type: "HOLIDAY" | "SUSPENSION" | "BREAK";
+  reason: string;
+}
+
+export interface AcademicTermInput {
+  term: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ClassSuspensionInput {
+  reason: string;
+  startDate: string;
+  endDate: string;
+  scope: SuspensionScope;
+  roomId?: string | null;
+  courseId?: string | null;
+  sectionId?: string | null;
+}
+
+const suspensionInclude = {
+  room: { select: { id: true, name: true } },
+  course: { select: { id: true, code: true, section: true } },
+  section: { select: { id: true, name: true, academicYear: true } },
+};
+
+// Helper: Parse a yyyy-MM-dd date as the UTC midnight attendance is stored at
+function parseCalendarDate(value: unknown, field: string) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`${field} must be a date (yyyy-MM-dd)`);
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${field} must be a date (yyyy-MM-dd)`);
+  }
+  return date;
+}
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+const termLabel = (term: string) =>
+  DEFAULT_TERM_DEFINITIONS.find((t) => t.key === term)?.label ?? term;
+
+const scopeLabel = (suspension: {
+  scope: SuspensionScope;
+  room: { name: string } | null;
+  course: { code: string; section: string } | null;
+  section: { name: string } | null;
+}) => {
+  switch (suspension.scope) {
+    case "ROOM":
+      return `room ${suspension.room?.name}`;
+    case "COURSE":
+      return `${suspension.course?.code} - ${suspension.course?.section}`;
+    case "SECTION":
+      return `section ${suspension.section?.name}`;
+    default:
+      return "all classes";
+  }
+};
+
+// Get the term ranges, holidays and class suspensions of a semester
+// Without a semester, holidays and suspensions from the last year onward
+export async function getAcademicCalendar(
+  filters: { academicYear?: string; semester?: string } = {}
+) {
+  const terms = await prisma.academicTerm.findMany({
+    where: {
+      academicYear: filters.academicYear,
+      semester: filters.semester,
+    },
+  });
+  const order = DEFAULT_TERM_DEFINITIONS.map((t) => t.key);
+  terms.sort(
+    (a, b) =>
+      a.startDate.getTime() - b.startDate.getTime() ||
+      order.indexOf(a.term) - order.indexOf(b.term)
+  );
+
+  const hasRange = filters.academicYear && filters.semester && terms.length;
+  const from = hasRange
+    ? terms[0].startDate
+    : new Date(Date.now() - 365 * DAY_MS);
+  const to = hasRange ? terms[terms.length - 1].endDate : undefined;
+
+  const [holidays, suspensions] = await Promise.all([
+    prisma.holiday.findMany({
+      where: { date: { gte: from, ...(to && { lte: to }) } },
+      orderBy: { date: "asc" },
+    }),
+    prisma.classSuspension.findMany({
+      where: {
+        endDate: { gte: from },
+        ...(to && { startDate: { lte: to } }),
+      },
+      include: suspensionInclude,
+      orderBy: { startDate: "asc" },
+    }),
+  ]);
+
+  return { terms, holidays, suspensions };
+}
+
+// Replace the term ranges of a semester
+export async function setAcademicTerms(
+  academicYear: string,
+  semester: string,
+  terms: AcademicTermInput[]
+) {
+  if (!academicYear?.trim() || !semester?.trim()) {
+    throw new Error("Academic year and semester are required");
+  }
+  if (!Array.isArray(terms)) {
+    throw new Error("Term ranges are required");
+  }
+
+  const parsed = terms.map((term) => {
+    const label = termLabel(term.term);
+    if (!DEFAULT_TERM_DEFINITIONS.some((t) => t.key === term.term)) {
+      throw new Error(
+        `Term must be one of ${DEFAULT_TERM_DEFINITIONS.map((t) => t.key).join(
+          ", "
+        )}`
+      );
+    }
+    const startDate = parseCalendarDate(term.startDate, `${label} start date`);
+    const endDate = parseCalendarDate(term.endDate, `${label} end date`);
+    if (endDate < startDate) {
+      throw new Error(`${label} end date cannot be before its start date`);
+    }
+    return { term: term.term, startDate, endDate };
+  });
+
+  if (new Set(parsed.map((t) => t.term)).size !== parsed.length) {
+    throw new Error("Each term can only have one date range");
+  }
+
+  // Terms must follow each other in the regular order without overlapping
+  const order = DEFAULT_TERM_DEFINITIONS.map((t) => t.key);
+  const sorted = [...parsed].sort(
+    (a, b) => order.indexOf(a.term) - order.indexOf(b.term)
+  );
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startDate <= sorted[i - 1].endDate) {
+      throw new Error(
+        `${termLabel(sorted[i].term)} must start after ${termLabel(
+          sorted[i - 1].term
+        )} ends`
+      );
+    }
+  }
+
+  const where = { academicYear: academicYear.trim(), semester };
+  const before = await prisma.academicTerm.findMany({ where });
+  await prisma.$transaction([
+    prisma.academicTerm.deleteMany({ where }),
+    prisma.academicTerm.createMany({
+      data: parsed.map((term) => ({ ...where, ...term })),
+    }),
+  ]);
+
+  return { before, after: (await getAcademicCalendar(where)).terms };
+}
+
+// Declare a holiday (no classes for anyone)
+export async function createHoliday(data: { date: string; name: string }) {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error("Holiday name is required");
+  }
+  const date = parseCalendarDate(data.date, "Holiday date");
+
+  const existing = await prisma.holiday.findUnique({ where: { date } });
+  if (existing) {
+    throw new Error(`${data.date} is already a holiday (${existing.name})`);
+  }
+
+  return prisma.holiday.create({ data: { date, name } });
+}
+
+// Delete a holiday
+export async function deleteHoliday(id: string) {
+  const holiday = await prisma.holiday.findUnique({ where: { id } });
+  if (!holiday) {
+    throw new Error("Holiday not found");
+  }
+  await prisma.holiday.delete({ where: { id } });
+  return holiday;
+}
+
+// Suspend classes school-wide or for one room, course or section
+export async function createClassSuspension(data: ClassSuspensionInput) {
+  const reason = data.reason?.trim();
+  if (!reason) {
+    throw new Error("A reason is required for a class suspension");
+  }
+  if (!Object.values(SuspensionScope).includes(data.scope)) {
+    throw new Error("Scope must be SCHOOL, ROOM, COURSE or SECTION");
+  }
+
+  const startDate = parseCalendarDate(data.startDate, "Start date");
+  const endDate = parseCalendarDate(data.endDate, "End date");
+  if (endDate < startDate) {
+    throw new Error("End date cannot be before the start date");
+  }
+
+  const target = {
+    roomId: data.scope === "ROOM" ? data.roomId : null,
+    courseId: data.scope === "COURSE" ? data.courseId : null,
+    sectionId: data.scope === "SECTION" ? data.sectionId : null,
+  };
+  if (data.scope !== "SCHOOL" && !Object.values(target).some(Boolean)) {
+    throw new Error(`A ${data.scope.toLowerCase()} is required for this scope`);
+  }
+
+  if (target.roomId) {
+    const room = await prisma.room.findUnique({ where: { id: target.roomId } });
+    if (!room) throw new Error("Room not found");
+  }
+  if (target.courseId) {
+    const course = await prisma.course.findUnique({
+      where: { id: target.courseId },
+    });
+    if (!course) throw new Error("Course not found");
+  }
+  if (target.sectionId) {
+    const section = await prisma.section.findUnique({
+      where: { id: target.sectionId },
+    });
+    if (!section) throw new Error("Section not found");
+  }
+
+  const suspension = await prisma.classSuspension.create({
+    data: { reason, startDate, endDate, scope: data.scope, ...target },
+    include: suspensionInclude,
+  });
+
+  return { ...suspension, label: scopeLabel(suspension) };
+}
+
+// Lift a class suspension
+export async function deleteClassSuspension(id: string) {
+  const suspension = await prisma.classSuspension.findUnique({
+    where: { id },
+    include: suspensionInclude,
+  });
+  if (!suspension) {
+    throw new Error("Class suspension not found");
+  }
+  await prisma.classSuspension.delete({ where: { id } });
+  return { ...suspension, label: scopeLabel(suspension) };
+}
+
+/**
+ * Resolves the days each course has no class: holidays, suspensions covering
+ * the school or the course's room, section or the course itself, and days
+ * outside the ranges of the course's own terms (when ranges are set; a course
+ * whose terms have none uses every term range of its semester).
+ * @param courseIds - Courses to resolve
+ * @param from - First day (yyyy-MM-dd)
+ * @param to - Last day (yyyy-MM-dd)
+ * @returns Non-class days by course ID, in date order
+ */
+export async function getNonClassDays(
+  courseIds: string[],
+  from: string,
+  to: string
+): Promise<Record<string, NonClassDay[]>> {
+  const start = parseCalendarDate(from, "From");
+  const end = parseCalendarDate(to, "To");
+  if (end < start) {
+    throw new Error("To cannot be before from");
+  }
+  if ((end.getTime() - start.getTime()) / DAY_MS + 1 > MAX_CALENDAR_DAYS) {
+    throw new Error(
+      `A calendar range can cover at most ${MAX_CALENDAR_DAYS} days`
+    );
+  }
+  if (courseIds.length === 0) return {};
+
+  const courses = await prisma.course.findMany({
+    where: { id: { in: courseIds } },
+    select: {
+      id: true,
+      roomId: true,
+      sectionId: true,
+      semester: true,
+      academicYear: true,
+      terms: { select: { key: true, label: true, weight: true } },
+    },
+  });
+
+  const [holidays, suspensions, terms] = await Promise.all([
+    prisma.holiday.findMany({ where: { date: { gte: start, lte: end } } }),
+    prisma.classSuspension.findMany({
+      where: {
+        startDate: { lte: end },
+        endDate: { gte: start },
+        OR: [
+          { scope: "SCHOOL" },
+          { courseId: { in: courses.map((c) => c.id) } },
+          {
+            roomId: {
+              in: courses.flatMap((c) => (c.roomId ? [c.roomId] : [])),
+            },
+          },
+          {
+            sectionId: {
+              in: courses.flatMap((c) => (c.sectionId ? [c.sectionId] : [])),
+            },
+          },
+        ],
+      },
+      orderBy: { startDate: "asc" },
+    }),
+    prisma.academicTerm.findMany({
+      where: {
+        OR: courses.map((c) => ({
+          academicYear: c.academicYear,
+          semester: c.semester,
+        })),
+      },
+    }),
+  ]);
+
+  const holidayByDate = new Map(holidays.map((h) => [toDateKey(h.date), h]));
+  const result: Record<string, NonClassDay[]> = {};
+
+  for (const course of courses) {
+    const courseSuspensions = suspensions.filter(
+      (s) =>
+        s.scope === "SCHOOL" ||
+        (s.scope === "COURSE" && s.courseId === course.id) ||
+        (s.scope === "ROOM" && !!course.roomId && s.roomId === course.roomId) ||
+        (s.scope === "SECTION" &&
+          !!course.sectionId &&
+          s.sectionId === course.sectionId)
+    );
+    const semesterTerms = terms.filter(
+      (t) =>
+        t.academicYear === course.academicYear && t.semester === course.semester
+    );
+    const termKeys = toTermDefinitions(course.terms).map((t) => t.key);
+    const ownTerms = semesterTerms.filter((t) => termKeys.includes(t.term));
+    const courseTerms = ownTerms.length > 0 ? ownTerms : semesterTerms;
+
+    const days: NonClassDay[] = [];
+    for (let t = start.getTime(); t <= end.getTime(); t += DAY_MS) {
+      const day = new Date(t);
+      const date = toDateKey(day);
+      const holiday = holidayByDate.get(date);
+      const suspension = courseSuspensions.find(
+        (s) => s.startDate <= day && day <= s.endDate
+      );
+
+      if (holiday) {
+        days.push({ date, type: "HOLIDAY", reason: holiday.name });
+      } else if (suspension) {
+        days.push({ date, type: "SUSPENSION", reason: suspension.reason });
+      } else if (
+        courseTerms.length > 0 &&
+        !courseTerms.some((r) => r.startDate <= day && day <= r.endDate)
+      ) {
+        days.push({
+          date,
+          type: "BREAK",
+          reason: `Outside the ${course.semester} term dates`,
+        });
+      }
+    }
+    result[course.id] = days;
+  }
+
+  return result;
+}
+
+// The reason a course has no class on a day, or null when it does
+export async function getCourseNonClassDay(courseId: string, date: string) {
+  const days = await getNonClassDays([courseId], date, date);
+  return days[courseId]?.[0] ?? null;
+}
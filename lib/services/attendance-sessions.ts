@@ -0,0 +1,433 @@
+import { prisma } from "@/lib/prisma";
+import { AttendanceSession, AttendanceStatus } from "@prisma/client";
+import { getExcusedStudentIds } from "./excuse-requests";
+import { getCourseNonClassDay } from "./academic-calendar";
+import { recomputeQuizzesForAttendance } from "./quizzes";
+
+type SessionWithCourse = AttendanceSession & {
+  course: { slug: string; code: string; section: string };
+};
+
+const sessionInclude = {
+  course: { select: { slug: true, code: true, section: true } },
+};
+
+const OPEN_STATUSES = ["ACTIVE", "PAUSED"] as const;
+
+// A session paused for longer than this in total is ended, so a forgotten
+// pause cannot hold the course and the scanner open indefinitely
+const MAX_PAUSED_MS = 2 * 60 * 60 * 1000;
+
+// Session dates are stored at UTC midnight, same as attendance records
+const toSessionDate = (date: string) => {
+  const utcDate = new Date(date);
+  if (isNaN(utcDate.getTime())) {
+    throw new Error("Invalid session date");
+  }
+  utcDate.setUTCHours(0, 0, 0, 0);
+  return utcDate;
+};
+
+const dayRange = (date: Date) => ({
+  gte: date,
+  lt: new Date(date.getTime() + 24 * 60 * 60 * 1000),
+});
+
+// Running time of the session, excluding paused time
+const getElapsedMs = (session: AttendanceSession, now = new Date()) =>
+  (session.pausedAt ?? now).getTime() -
+  session.startedAt.getTime() -
+  session.pausedMs;
+
+// Total time spent paused, including a pause still in progress
+const getPausedMs = (session: AttendanceSession, now = new Date()) =>
+  session.pausedMs +
+  (session.pausedAt ? now.getTime() - session.pausedAt.getTime() : 0);
+
+const isTimedOut = (session: AttendanceSession, now = new Date()) =>
+  session.status !== "ENDED" &&
+  (getElapsedMs(session, now) >= session.timeoutMinutes * 60 * 1000 ||
+    getPausedMs(session, now) >= MAX_PAUSED_MS);
+
+// Shape returned to the client; deadlines are shifted by the time spent paused
+function toSessionResponse(session: SessionWithCourse) {
+  const base = session.startedAt.getTime() + session.pausedMs;
+  return {
+    id: session.id,
+    courseId: session.courseId,
+    courseSlug: session.course.slug,
+    courseCode: session.course.code,
+    courseSection: session.course.section,
+    date: session.date.toISOString().split("T")[0],
+    startedAt: session.startedAt,
+    graceMinutes: session.graceMinutes,
+    timeoutMinutes: session.timeoutMinutes,
+    status: session.status,
+    pausedAt: session.pausedAt,
+    endedAt: session.endedAt,
+    graceEndsAt: new Date(base + session.graceMinutes * 60 * 1000),
+    endsAt: new Date(base + session.timeoutMinutes * 60 * 1000),
+  };
+}
+
+export type AttendanceSessionResponse = ReturnType<typeof toSessionResponse>;
+
+async function getCourseSession(courseSlug: string, sessionId: string) {
+  const session = await prisma.attendanceSession.findFirst({
+    where: { id: sessionId, course: { slug: courseSlug } },
+    include: sessionInclude,
+  });
+
+  if (!session) {
+    throw new Error("Attendance session not found");
+  }
+
+  return session;
+}
+
+// Students already scanned (or marked) on the session date
+async function getSessionScans(session: AttendanceSession) {
+  return prisma.attendance.findMany({
+    where: { courseId: session.courseId, date: dayRange(session.date) },
+    select: { studentId: true, status: true, scannedAt: true },
+  });
+}
+
+// Close the session and mark every enrolled student without a record ABSENT
+// (EXCUSED when an approved excuse letter covers the date)
+async function closeSession(session: SessionWithCourse) {
+  const now = new Date();
+  const [enrolled, existing] = await Promise.all([
+    prisma.student.findMany({
+      where: { coursesEnrolled: { some: { id: session.courseId } } },
+      select: { id: true },
+    }),
+    prisma.attendance.findMany({
+      where: { courseId: session.courseId, date: dayRange(session.date) },
+      select: { studentId: true },
+    }),
+  ]);
+
+  const recorded = new Set(existing.map((r) => r.studentId));
+  const missingIds = enrolled
+    .map((s) => s.id)
+    .filter((id) => !recorded.has(id));
+  const excused = await getExcusedStudentIds(missingIds, session.date);
+  const absentIds = missingIds.filter((id) => !excused.has(id));
+
+  const [, closed] = await prisma.$transaction([
+    prisma.attendance.createMany({
+      data: missingIds.map((studentId) => ({
+        studentId,
+        courseId: session.courseId,
+        date: session.date,
+        status: (excused.has(studentId)
+          ? "EXCUSED"
+          : "ABSENT") as AttendanceStatus,
+        reason: excused.has(studentId) ? "Excuse letter" : undefined,
+      })),
+      skipDuplicates: true,
+    }),
+    prisma.attendanceSession.update({
+      where: { id: session.id },
+      data: {
+        status: "ENDED",
+        endedAt: now,
+        pausedAt: null,
+        pausedMs: getPausedMs(session, now),
+      },
+      include: sessionInclude,
+    }),
+  ]);
+
+  if (missingIds.length > 0) {
+    await recomputeQuizzesForAttendance(session.courseId, [session.date]);
+  }
+
+  return { session: toSessionResponse(closed), absentCount: absentIds.length };
+}
+
+// Sessions left open past their timeout are ended on next access
+async function closeIfTimedOut(session: SessionWithCourse) {
+  if (isTimedOut(session)) {
+    await closeSession(session);
+    return null;
+  }
+  return session;
+}
+
+// End every open session past its timeout, including ones nobody reopened
+// (the absence cron runs this before skipping courses with an open session)
+export async function closeTimedOutSessions(now = new Date()) {
+  const open = await prisma.attendanceSession.findMany({
+    where: { status: { in: [...OPEN_STATUSES] } },
+    include: sessionInclude,
+  });
+
+  const closed = [];
+  for (const session of open.filter((s) => isTimedOut(s, now))) {
+    closed.push(await closeSession(session));
+  }
+  return closed;
+}
+
+// Get the open session started by a user (one scanner per faculty at a time)
+export async function getActiveAttendanceSession(userId: string) {
+  const session = await prisma.attendanceSession.findFirst({
+    where: { startedById: userId, status: { in: [...OPEN_STATUSES] } },
+    include: sessionInclude,
+    orderBy: { startedAt: "desc" },
+  });
+
+  if (!session) return null;
+
+  const open = await closeIfTimedOut(session);
+  return open ? toSessionResponse(open) : null;
+}
+
+// Get the open session of a course on a date, with the students scanned so far
+export async function getCourseAttendanceSession(
+  courseSlug: string,
+  date: string
+) {
+  const session = await prisma.attendanceSession.findFirst({
+    where: {
+      course: { slug: courseSlug },
+      date: toSessionDate(date),
+      status: { in: [...OPEN_STATUSES] },
+    },
+    include: sessionInclude,
+    orderBy: { startedAt: "desc" },
+  });
+
+  if (!session) return null;
+
+  const open = await closeIfTimedOut(session);
+  if (!open) return null;
+
+  return {
+    ...toSessionResponse(open),
+    scans: await getSessionScans(open),
+  };
+}
+
+// Start an RFID attendance session
+export async function startAttendanceSession(
+  courseSlug: string,
+  userId: string,
+  data: { date: string; graceMinutes?: number; timeoutMinutes: number }
+) {
+  const graceMinutes = data.graceMinutes ?? 5;
+  if (!Number.isInteger(graceMinutes) || graceMinutes < 0) {
+    throw new Error("Grace minutes must be a non-negative whole number");
+  }
+  if (!Number.isInteger(data.timeoutMinutes) || data.timeoutMinutes <= 0) {
+    throw new Error("Timeout minutes must be a positive whole number");
+  }
+  if (graceMinutes > data.timeoutMinutes) {
+    throw new Error("Grace period must be within the session timeout");
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  const date = toSessionDate(data.date);
+
+  const nonClassDay = await getCourseNonClassDay(
+    course.id,
+    date.toISOString().split("T")[0]
+  );
+  if (nonClassDay) {
+    throw new Error(`No class on ${nonClassDay.date} (${nonClassDay.reason})`);
+  }
+
+  const openSessions = await prisma.attendanceSession.findMany({
+    where: {
+      status: { in: [...OPEN_STATUSES] },
+      OR: [{ startedById: userId }, { courseId: course.id }],
+    },
+    include: sessionInclude,
+  });
+
+  for (const open of openSessions) {
+    if (await closeIfTimedOut(open)) {
+      throw new Error(
+        `An attendance session is already active for ${open.course.code} on ${
+          open.date.toISOString().split("T")[0]
+        }`
+      );
+    }
+  }
+
+  const session = await prisma.attendanceSession.create({
+    data: {
+      courseId: course.id,
+      date,
+      graceMinutes,
+      timeoutMinutes: data.timeoutMinutes,
+      startedById: userId,
+    },
+    include: sessionInclude,
+  });
+
+  return toSessionResponse(session);
+}
+
+// Write the attendance row for an RFID tap (shared by sessions and kiosks)
+export async function recordRfidAttendance(
+  courseId: string,
+  date: Date,
+  rfid: string,
+  status: AttendanceStatus
+) {
+  const normalized = String(rfid ?? "").replace(/\s+/g, "");
+  if (!/^\d+$/.test(normalized)) {
+    throw new Error("Invalid RFID format");
+  }
+
+  const student = await prisma.student.findFirst({
+    where: {
+      rfid_id: BigInt(normalized),
+      coursesEnrolled: { some: { id: courseId } },
+    },
+    select: {
+      id: true,
+      studentId: true,
+      firstName: true,
+      lastName: true,
+      middleInitial: true,
+      image: true,
+    },
+  });
+
+  if (!student) {
+    throw new Error("Student not found in this course for this RFID");
+  }
+
+  const name = `${student.lastName}, ${student.firstName}${
+    student.middleInitial ? ` ${student.middleInitial}.` : ""
+  }`;
+
+  const existing = await prisma.attendance.findFirst({
+    where: { studentId: student.id, courseId, date: dayRange(date) },
+    select: { status: true },
+  });
+
+  if (existing) {
+    throw new Error(`${name} already marked as ${existing.status}`);
+  }
+
+  const attendance = await prisma.attendance
+    .create({
+      data: {
+        studentId: student.id,
+        courseId,
+        date,
+        status,
+        scannedAt: new Date(),
+      },
+      select: { id: true, status: true, scannedAt: true },
+    })
+    .catch((error) => {
+      // Another write (a second tap, the absence cron) got there first
+      if (error.code === "P2002") {
+        throw new Error(`${name} already marked`);
+      }
+      throw error;
+    });
+
+  await recomputeQuizzesForAttendance(courseId, [date]);
+
+  return { student: { ...student, name }, attendance };
+}
+
+// Record an RFID scan; PRESENT within the grace period, LATE after it
+export async function recordAttendanceScan(
+  courseSlug: string,
+  sessionId: string,
+  rfid: string
+) {
+  const session = await getCourseSession(courseSlug, sessionId);
+
+  if (session.status === "ENDED") {
+    throw new Error("Attendance session has already ended");
+  }
+  if (!(await closeIfTimedOut(session))) {
+    throw new Error("Attendance session has timed out");
+  }
+  if (session.status === "PAUSED") {
+    throw new Error("Attendance session is paused");
+  }
+
+  const status: AttendanceStatus =
+    getElapsedMs(session) < session.graceMinutes * 60 * 1000
+      ? "PRESENT"
+      : "LATE";
+
+  return recordRfidAttendance(session.courseId, session.date, rfid, status);
+}
+
+// Pause a running session; the grace and timeout clocks stop while paused
+export async function pauseAttendanceSession(
+  courseSlug: string,
+  sessionId: string
+) {
+  const session = await getCourseSession(courseSlug, sessionId);
+
+  if (session.status !== "ACTIVE" || !(await closeIfTimedOut(session))) {
+    throw new Error("Only an active attendance session can be paused");
+  }
+
+  const paused = await prisma.attendanceSession.update({
+    where: { id: session.id },
+    data: { status: "PAUSED", pausedAt: new Date() },
+    include: sessionInclude,
+  });
+
+  return toSessionResponse(paused);
+}
+
+// Resume a paused session
+export async function resumeAttendanceSession(
+  courseSlug: string,
+  sessionId: string
+) {
+  const session = await getCourseSession(courseSlug, sessionId);
+
+  if (session.status !== "PAUSED" || !session.pausedAt) {
+    throw new Error("Only a paused attendance session can be resumed");
+  }
+
+  const now = new Date();
+  const resumed = await prisma.attendanceSession.update({
+    where: { id: session.id },
+    data: {
+      status: "ACTIVE",
+      pausedAt: null,
+      pausedMs: session.pausedMs + (now.getTime() - session.pausedAt.getTime()),
+    },
+    include: sessionInclude,
+  });
+
+  return toSessionResponse(resumed);
+}
+
+// End a session and mark unscanned students ABSENT
+export async function endAttendanceSession(
+  courseSlug: string,
+  sessionId: string
+) {
+  const session = await getCourseSession(courseSlug, sessionId);
+
+  if (session.status === "ENDED") {
+    throw new Error("Attendance session has already ended");
+  }
+
+  return closeSession(session);
+}
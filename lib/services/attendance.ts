@@ -1,4 +1,14 @@
 import { prisma } from "@/lib/prisma";
+import { AttendanceStatus } from "@prisma/client";
+import { getExcusedStudentIds } from "./excuse-requests";
+import { closeTimedOutSessions } from "./attendance-sessions";
+import { recomputeQuizzesForAttendance } from "./quizzes";
+import { getNonClassDays, MAX_CALENDAR_DAYS } from "./academic-calendar";
+import {
+  getSchoolClock,
+  normalizeDayName,
+  timeToMinutes,
+} from "@/lib/utils/schedule-utils";
 
 // Get attendance for a course on a specific date
 // Note: Not cached to ensure fresh data after saves
@@ -235,6 +245,7 @@ export async function getAttendanceDates(courseSlug: string) {
 // Get attendance stats for a course
 // Note: Not cached to ensure fresh data after saves
 // Optimized: Use database aggregation instead of fetching all records
+// Records on holidays, suspensions and breaks are left out
 export async function getAttendanceStats(courseSlug: string) {
   const course = await prisma.course.findUnique({
     where: { slug: courseSlug },
@@ -243,10 +254,37 @@ export async function getAttendanceStats(courseSlug: string) {
 
   if (!course) return null;
 
+  const range = await prisma.attendance.aggregate({
+    where: { courseId: course.id },
+    _min: { date: true },
+    _max: { date: true },
+  });
+  let nonClassDates: Date[] = [];
+  if (range._min.date && range._max.date) {
+    const to = range._max.date;
+    const from = new Date(
+      Math.max(
+        range._min.date.getTime(),
+        to.getTime() - (MAX_CALENDAR_DAYS - 1) * 24 * 60 * 60 * 1000
+      )
+    );
+    const days = await getNonClassDays(
+      [course.id],
+      from.toISOString().split("T")[0],
+      to.toISOString().split("T")[0]
+    );
+    nonClassDates = days[course.id].map(
+      (day) => new Date(`${day.date}T00:00:00.000Z`)
+    );
+  }
+
   // Use groupBy for efficient aggregation instead of fetching all records
   const statusCounts = await prisma.attendance.groupBy({
     by: ["status"],
-    where: { courseId: course.id },
+    where: {
+      courseId: course.id,
+      ...(nonClassDates.length > 0 && { date: { notIn: nonClassDates } }),
+    },
     _count: {
       status: true,
     },
@@ -280,3 +318,126 @@ export async function getAttendanceStats(courseSlug: string) {
     attendanceRate,
   };
 }
+
+// Mark ABSENT (or EXCUSED, under an approved excuse letter) every enrolled
+// student without a record once today's class slot has ended. Holidays,
+// suspended classes, term breaks and courses with an open RFID session are
+// skipped; the session marks its own absentees when it ends. Sessions past
+// their timeout are ended first so they no longer count as open.
+export async function markAbsencesForEndedClasses(now = new Date()) {
+  await closeTimedOutSessions(now);
+
+  const clock = getSchoolClock(now);
+  const date = new Date(`${clock.date}T00:00:00.000Z`);
+  const nextDate = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+  const holiday = await prisma.holiday.findUnique({
+    where: { date },
+    select: { name: true },
+  });
+
+  if (holiday) {
+    return {
+      date: clock.date,
+      holiday: holiday.name,
+      suspended: 0,
+      courses: [],
+    };
+  }
+
+  const courses = await prisma.course.findMany({
+    where: {
+      status: "ACTIVE",
+      attendanceSessions: {
+        none: { date, status: { in: ["ACTIVE", "PAUSED"] } },
+      },
+    },
+    select: {
+      id: true,
+      code: true,
+      section: true,
+      schedules: { select: { day: true, toTime: true } },
+      students: { select: { id: true } },
+    },
+  });
+
+  const scheduled = courses.filter((course) =>
+    course.schedules.some(
+      (s) =>
+        normalizeDayName(s.day) === clock.day &&
+        timeToMinutes(s.toTime) <= clock.minutes
+    )
+  );
+
+  const nonClassDays = await getNonClassDays(
+    scheduled.map((c) => c.id),
+    clock.date,
+    clock.date
+  );
+  const ended = scheduled.filter((course) => !nonClassDays[course.id]?.length);
+  const suspended = scheduled.length - ended.length;
+
+  if (ended.length === 0) {
+    return { date: clock.date, holiday: null, suspended, courses: [] };
+  }
+
+  const existing = await prisma.attendance.findMany({
+    where: {
+      courseId: { in: ended.map((c) => c.id) },
+      date: { gte: date, lt: nextDate },
+    },
+    select: { courseId: true, studentId: true },
+  });
+
+  const recorded = new Set(existing.map((r) => `${r.courseId}:${r.studentId}`));
+  const missing = ended.map((course) => ({
+    course,
+    studentIds: course.students
+      .map((s) => s.id)
+      .filter((id) => !recorded.has(`${course.id}:${id}`)),
+  }));
+
+  // Students covered by an approved excuse letter are marked EXCUSED instead
+  const excused = await getExcusedStudentIds(
+    [...new Set(missing.flatMap((m) => m.studentIds))],
+    date
+  );
+
+  const results = missing
+    .map(({ course, studentIds }) => ({
+      courseId: course.id,
+      courseCode: course.code,
+      section: course.section,
+      studentIds: studentIds.filter((id) => !excused.has(id)),
+      excusedStudentIds: studentIds.filter((id) => excused.has(id)),
+    }))
+    .filter((r) => r.studentIds.length + r.excusedStudentIds.length > 0);
+
+  if (results.length > 0) {
+    await prisma.attendance.createMany({
+      data: results.flatMap((r) => [
+        ...r.studentIds.map((studentId) => ({
+          studentId,
+          courseId: r.courseId,
+          date,
+          status: "ABSENT" as AttendanceStatus,
+        })),
+        ...r.excusedStudentIds.map((studentId) => ({
+          studentId,
+          courseId: r.courseId,
+          date,
+          status: "EXCUSED" as AttendanceStatus,
+          reason: "Excuse letter",
+        })),
+      ]),
+      // A tap or session close since the lookup above keeps its record
+      skipDuplicates: true,
+    });
+
+    for (const result of results) {
+      await recomputeQuizzesForAttendance(result.courseId, [date]);
+    }
+  }
+
+  return { date: clock.date, holiday: null, suspended, courses: results };
+}
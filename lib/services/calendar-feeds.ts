@@ -0,0 +1,385 @@
+import { prisma } from "@/lib/prisma";
+import { Role } from "@prisma/client";
+import { createHash, randomBytes } from "crypto";
+import {
+  SCHOOL_TIMEZONE,
+  normalizeDayName,
+  timeToMinutes,
+} from "@/lib/utils/schedule-utils";
+import { getNonClassDays, MAX_CALENDAR_DAYS } from "./academic-calendar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a class recurs when its semester has no term dates
+const DEFAULT_SEMESTER_WEEKS = 18;
+
+// School events and holidays older than this are left out of feeds
+const PAST_EVENT_DAYS = 365;
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const feedSelect = {
+  createdAt: true,
+  updatedAt: true,
+  lastAccessedAt: true,
+};
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+// Escape a TEXT value (RFC 5545, 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Fold a content line to 75 octets, continuation lines start with a space
+function foldLine(line: string) {
+  const lines: string[] = [];
+  let current = "";
+  let limit = 75;
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      lines.push(current);
+      current = "";
+      limit = 74;
+    }
+    current += char;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+// The school's UTC offset in minutes (school time has no daylight saving)
+function getSchoolOffsetMinutes(now = new Date()) {
+  const name = new Intl.DateTimeFormat("en-US", {
+    timeZone: SCHOOL_TIMEZONE,
+    timeZoneName: "longOffset",
+  })
+    .formatToParts(now)
+    .find((p) => p.type === "timeZoneName")?.value;
+  const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+const formatOffset = (minutes: number) => {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${String(Math.floor(abs / 60)).padStart(
+    2,
+    "0"
+  )}${String(abs % 60).padStart(2, "0")}`;
+};
+
+// yyyy-MM-dd -> yyyyMMdd
+const formatDate = (dateKey: string) => dateKey.replace(/-/g, "");
+
+// School-time date and minutes -> yyyyMMddTHHmm00
+const formatLocal = (dateKey: string, minutes: number) =>
+  `${formatDate(dateKey)}T${String(Math.floor(minutes / 60)).padStart(
+    2,
+    "0"
+  )}${String(minutes % 60).padStart(2, "0")}00`;
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+
+// Get the signed-in user's feed (null when none is issued)
+export async function getCalendarFeed(userId: string) {
+  return prisma.calendarFeed.findUnique({
+    where: { userId },
+    select: feedSelect,
+  });
+}
+
+// Issue a new feed token; a previous subscription URL stops working immediately
+export async function rotateCalendarFeedToken(userId: string) {
+  const existing = await prisma.calendarFeed.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  const token = randomBytes(32).toString("hex");
+  const feed = await prisma.calendarFeed.upsert({
+    where: { userId },
+    create: { userId, tokenHash: hashToken(token) },
+    update: { tokenHash: hashToken(token), lastAccessedAt: null },
+    select: feedSelect,
+  });
+
+  return { feed, token, rotated: !!existing };
+}
+
+// Revoke the user's feed; subscribed calendars stop updating
+export async function revokeCalendarFeed(userId: string) {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { userId },
+    select: feedSelect,
+  });
+
+  if (!feed) {
+    throw new Error("Calendar feed not found");
+  }
+
+  await prisma.calendarFeed.delete({ where: { userId } });
+  return feed;
+}
+
+// Resolve the user behind a feed token (null if unknown or archived)
+export async function authenticateCalendarFeed(token: string) {
+  if (!token) return null;
+
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      id: true,
+      user: { select: { id: true, name: true, roles: true, status: true } },
+    },
+  });
+
+  if (!feed || feed.user.status !== "ACTIVE") return null;
+
+  await prisma.calendarFeed.update({
+    where: { id: feed.id },
+    data: { lastAccessedAt: new Date() },
+  });
+
+  const { id, name, roles } = feed.user;
+  return { id, name, roles };
+}
+
+// Weekly recurring events for each schedule of the faculty member's active
+// courses, across the semester's term dates; non-class days are excluded
+async function buildCourseEvents(facultyId: string, stamp: string) {
+  const courses = await prisma.course.findMany({
+    where: { facultyId, status: "ACTIVE" },
+    select: {
+      id: true,
+      code: true,
+      title: true,
+      section: true,
+      room: true,
+      semester: true,
+      academicYear: true,
+      createdAt: true,
+      schedules: {
+        select: { id: true, day: true, fromTime: true, toTime: true },
+      },
+    },
+  });
+  if (courses.length === 0) return [];
+
+  const terms = await prisma.academicTerm.findMany({
+    where: {
+      OR: courses.map((c) => ({
+        academicYear: c.academicYear,
+        semester: c.semester,
+      })),
+    },
+  });
+  const offset = getSchoolOffsetMinutes();
+  const events: string[][] = [];
+
+  for (const course of courses) {
+    const courseTerms = terms.filter(
+      (t) =>
+        t.academicYear === course.academicYear && t.semester === course.semester
+    );
+
+    let start: Date;
+    let end: Date;
+    if (courseTerms.length > 0) {
+      start = new Date(Math.min(...courseTerms.map((t) => +t.startDate)));
+      end = new Date(Math.max(...courseTerms.map((t) => +t.endDate)));
+    } else {
+      // Without term dates, recur from the week the course was created
+      const created = new Date(`${toDateKey(course.createdAt)}T00:00:00.000Z`);
+      start = new Date(
+        created.getTime() - ((created.getUTCDay() + 6) % 7) * DAY_MS
+      );
+      end = new Date(
+        start.getTime() + (DEFAULT_SEMESTER_WEEKS * 7 - 1) * DAY_MS
+      );
+    }
+    end = new Date(
+      Math.min(
+        end.getTime(),
+        start.getTime() + (MAX_CALENDAR_DAYS - 1) * DAY_MS
+      )
+    );
+
+    const nonClassDates = new Set(
+      (await getNonClassDays([course.id], toDateKey(start), toDateKey(end)))[
+        course.id
+      ]?.map((day) => day.date)
+    );
+
+    for (const schedule of course.schedules) {
+      const weekday = WEEKDAYS.indexOf(normalizeDayName(schedule.day));
+      if (weekday === -1) continue;
+
+      const first = new Date(
+        start.getTime() + ((weekday - start.getUTCDay() + 7) % 7) * DAY_MS
+      );
+      if (first > end) continue;
+
+      const occurrences: string[] = [];
+      for (let t = first.getTime(); t <= end.getTime(); t += 7 * DAY_MS) {
+        occurrences.push(toDateKey(new Date(t)));
+      }
+
+      const from = timeToMinutes(schedule.fromTime);
+      const to = timeToMinutes(schedule.toTime);
+      const last = occurrences[occurrences.length - 1];
+      const until = new Date(
+        new Date(`${last}T00:00:00.000Z`).getTime() +
+          (from - offset) * 60 * 1000
+      );
+      const excluded = occurrences.filter((date) => nonClassDates.has(date));
+
+      events.push([
+        "BEGIN:VEVENT",
+        `UID:${schedule.id}@didasko`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;TZID=${SCHOOL_TIMEZONE}:${formatLocal(occurrences[0], from)}`,
+        `DTEND;TZID=${SCHOOL_TIMEZONE}:${formatLocal(occurrences[0], to)}`,
+        `RRULE:FREQ=WEEKLY;UNTIL=${formatUtc(until)}`,
+        ...(excluded.length > 0
+          ? [
+              `EXDATE;TZID=${SCHOOL_TIMEZONE}:${excluded
+                .map((date) => formatLocal(date, from))
+                .join(",")}`,
+            ]
+          : []),
+        `SUMMARY:${escapeText(`${course.code} - ${course.section}`)}`,
+        `DESCRIPTION:${escapeText(course.title)}`,
+        ...(course.room ? [`LOCATION:${escapeText(course.room)}`] : []),
+        "END:VEVENT",
+      ]);
+    }
+  }
+
+  return events;
+}
+
+// School events meant for the user's roles and holidays from the last year
+// onward
+async function buildSchoolEvents(roles: Role[], stamp: string) {
+  const since = new Date(Date.now() - PAST_EVENT_DAYS * DAY_MS);
+  const [schoolEvents, holidays] = await Promise.all([
+    prisma.event.findMany({
+      where: {
+        date: { gte: since },
+        OR: [{ roles: { isEmpty: true } }, { roles: { hasSome: roles } }],
+      },
+      orderBy: { date: "asc" },
+    }),
+    prisma.holiday.findMany({
+      where: { date: { gte: since } },
+      orderBy: { date: "asc" },
+    }),
+  ]);
+
+  const allDay = (date: Date) => {
+    const next = new Date(date.getTime() + DAY_MS);
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(toDateKey(date))}`,
+      `DTEND;VALUE=DATE:${formatDate(toDateKey(next))}`,
+    ];
+  };
+
+  return [
+    ...schoolEvents.map((event) => {
+      const date = toDateKey(event.date);
+      return [
+        "BEGIN:VEVENT",
+        `UID:event-${event.id}@didasko`,
+        `DTSTAMP:${stamp}`,
+        ...(event.fromTime && event.toTime
+          ? [
+              `DTSTART;TZID=${SCHOOL_TIMEZONE}:${formatLocal(
+                date,
+                timeToMinutes(event.fromTime)
+              )}`,
+              `DTEND;TZID=${SCHOOL_TIMEZONE}:${formatLocal(
+                date,
+                timeToMinutes(event.toTime)
+              )}`,
+            ]
+          : allDay(event.date)),
+        `SUMMARY:${escapeText(event.title)}`,
+        ...(event.description
+          ? [`DESCRIPTION:${escapeText(event.description)}`]
+          : []),
+        "END:VEVENT",
+      ];
+    }),
+    ...holidays.map((holiday) => [
+      "BEGIN:VEVENT",
+      `UID:holiday-${holiday.id}@didasko`,
+      `DTSTAMP:${stamp}`,
+      ...allDay(holiday.date),
+      `SUMMARY:${escapeText(`${holiday.name} (No classes)`)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ]),
+  ];
+}
+
+/**
+ * Builds the iCalendar feed of a user: their class schedules as weekly
+ * recurring events (holidays and suspensions excluded) plus school events.
+ * @param user - Feed owner
+ * @returns The calendar as text/calendar content
+ */
+export async function buildCalendarFeed(user: {
+  id: string;
+  name: string;
+  roles: Role[];
+}) {
+  const stamp = formatUtc(new Date());
+  const offset = formatOffset(getSchoolOffsetMinutes());
+
+  const [courseEvents, schoolEvents] = await Promise.all([
+    buildCourseEvents(user.id, stamp),
+    buildSchoolEvents(user.roles, stamp),
+  ]);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Didasko//Schedule Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Didasko - ${user.name}`)}`,
+    `X-WR-TIMEZONE:${SCHOOL_TIMEZONE}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    "BEGIN:VTIMEZONE",
+    `TZID:${SCHOOL_TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    ...courseEvents.flat(),
+    ...schoolEvents.flat(),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
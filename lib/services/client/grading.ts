@@ -31,25 +31,78 @@ export const gradingService = {
       .post(`/courses/${courseSlug}/assessment-scores/bulk`, { scores })
       .then((res) => res.data),
 
+  // Get the grading scale a course resolves grades through
+  getCourseGradingScale: (courseSlug: string) =>
+    axiosInstance
+      .get(`/courses/${courseSlug}/grading-scale`)
+      .then((res) => res.data),
+
+  // Pick a course's grading scale (null = department/school default)
+  setCourseGradingScale: (courseSlug: string, gradingScaleId: string | null) =>
+    axiosInstance
+      .put(`/courses/${courseSlug}/grading-scale`, { gradingScaleId })
+      .then((res) => res.data),
+
+  // Get a course's ordered terms and final-grade weights
+  getCourseTerms: (courseSlug: string) =>
+    axiosInstance.get(`/courses/${courseSlug}/terms`).then((res) => res.data),
+
+  // Replace a course's term list
+  setCourseTerms: (
+    courseSlug: string,
+    terms: Array<{ key?: string; label: string; weight: number }>
+  ) =>
+    axiosInstance
+      .put(`/courses/${courseSlug}/terms`, { terms })
+      .then((res) => res.data),
+
+  // Get grading scales
+  getGradingScales: (department?: string) =>
+    axiosInstance
+      .get("/grading-scales", { params: department ? { department } : {} })
+      .then((res) => res.data),
+
+  // Create grading scale
+  createGradingScale: (data: any) =>
+    axiosInstance.post("/grading-scales", data).then((res) => res.data),
+
+  // Update grading scale
+  updateGradingScale: (id: string, data: any) =>
+    axiosInstance.put(`/grading-scales/${id}`, data).then((res) => res.data),
+
+  // Delete grading scale
+  deleteGradingScale: (id: string) =>
+    axiosInstance.delete(`/grading-scales/${id}`).then((res) => res.data),
+
   // Get class record data (batched)
   getClassRecordData: async (courseSlug: string) => {
-    const [students, termConfigs, assessmentScores, criteriaLinks] =
-      await Promise.all([
-        axiosInstance
-          .get(`/courses/${courseSlug}/students`)
-          .then((res) => res.data.students || []),
-        gradingService.getTermConfigs(courseSlug),
-        gradingService.getAssessmentScores(courseSlug),
-        axiosInstance
-          .get(`/courses/${courseSlug}/criteria/link`)
-          .then((res) => res.data),
-      ]);
+    const [
+      students,
+      termConfigs,
+      assessmentScores,
+      criteriaLinks,
+      gradingScaleData,
+      termsData,
+    ] = await Promise.all([
+      axiosInstance
+        .get(`/courses/${courseSlug}/students`)
+        .then((res) => res.data.students || []),
+      gradingService.getTermConfigs(courseSlug),
+      gradingService.getAssessmentScores(courseSlug),
+      axiosInstance
+        .get(`/courses/${courseSlug}/criteria/link`)
+        .then((res) => res.data),
+      gradingService.getCourseGradingScale(courseSlug),
+      gradingService.getCourseTerms(courseSlug),
+    ]);
 
     return {
       students,
       termConfigs,
       assessmentScores,
       criteriaLinks,
+      gradingScale: gradingScaleData?.gradingScale,
+      terms: termsData?.terms,
     };
   },
 };
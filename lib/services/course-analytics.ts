@@ -1,4 +1,13 @@
 import { getCourseAnalytics } from "./courses";
+import { computeCourseGrades } from "./grading";
+import {
+  DEFAULT_GRADING_SCALE,
+  DEFAULT_TERM_DEFINITIONS,
+  getPassingPercentage,
+  GradingScaleDefinition,
+  isPassingGrade,
+  TermDefinition,
+} from "./grading-engine";
 
 // ==================== Types ====================
 interface TermGradeData {
@@ -52,17 +61,6 @@ const calculateAttendanceStats = (attendanceRecords: any[]) => {
   };
 };
 
-/**
- * Map term name to object key
- */
-const getTermKey = (term: string): string => {
-  return term.toLowerCase().replace("-", "") as
-    | "prelims"
-    | "midterm"
-    | "prefinals"
-    | "finals";
-};
-
 /**
  * Build assessment scores for a term (optimized with Map-based lookup)
  */
@@ -98,23 +96,24 @@ const buildAssessmentScores = (
 };
 
 /**
- * Build term grades structure for a student (optimized with Map-based lookups)
+ * Build term grades structure for a student, keyed by the course's term keys
+ * in term order (optimized with Map-based lookups)
  */
 const buildTermGrades = (
+  terms: TermDefinition[],
   termConfigs: any[],
   studentId: string,
   termGradesByConfig: Map<string, Map<string, any>>,
   scoresByAssessment: Map<string, Map<string, number>>
 ) => {
-  const termGrades: Record<string, TermGradeData | undefined> = {
-    prelims: undefined,
-    midterm: undefined,
-    prefinals: undefined,
-    finals: undefined,
-  };
+  const termGrades: Record<string, TermGradeData | undefined> = {};
+  terms.forEach((term) => {
+    termGrades[term.key] = undefined;
+  });
 
   termConfigs.forEach((termConfig) => {
-    const termKey = getTermKey(termConfig.term);
+    const termKey = termConfig.term;
+    if (!(termKey in termGrades)) return;
 
     // Get student's computed term grade using Map lookup - O(1) instead of O(n)
     const configTermGrades = termGradesByConfig.get(termConfig.id);
@@ -178,9 +177,11 @@ const buildTermGrades = (
 
 /**
  * Calculate average grade from term grades with fallback
+ * (passing is judged against the course's grading scale)
  */
 const calculateAverageGrade = (
-  termGrades: Record<string, TermGradeData | undefined>
+  termGrades: Record<string, TermGradeData | undefined>,
+  gradingScale: GradingScaleDefinition
 ) => {
   // Try numeric grades first
   const numericGrades = Object.values(termGrades)
@@ -200,6 +201,7 @@ const calculateAverageGrade = (
     return {
       averageGrade: Math.round(average * 10) / 10,
       latestGrade: Math.round(latest * 10) / 10,
+      isPassing: isPassingGrade(average, gradingScale),
     };
   }
 
@@ -221,10 +223,11 @@ const calculateAverageGrade = (
     return {
       averageGrade: Math.round(average * 10) / 10,
       latestGrade: Math.round(latest * 10) / 10,
+      isPassing: average >= getPassingPercentage(gradingScale),
     };
   }
 
-  return { averageGrade: 0, latestGrade: 0 };
+  return { averageGrade: 0, latestGrade: 0, isPassing: false };
 };
 
 /**
@@ -272,14 +275,7 @@ const calculateCourseStats = (attendance: any[], studentAnalytics: any[]) => {
       gradeSum += grade;
       gradeCount++;
 
-      // Check if passing (assuming 75 is passing for percentage, 3.0 or less for numeric)
-      if (grade <= 5) {
-        // Numeric grading (1.0-5.0)
-        if (grade <= 3.0) passingStudents++;
-      } else {
-        // Percentage (0-100)
-        if (grade >= 75) passingStudents++;
-      }
+      if (student.isPassing) passingStudents++;
     }
   }
 
@@ -300,13 +296,18 @@ const calculateCourseStats = (attendance: any[], studentAnalytics: any[]) => {
  * Get course analytics with all calculations (server-side, optimized)
  */
 export async function getCourseAnalyticsData(courseSlug: string) {
-  // Fetch course with all related data using service
-  const course = await getCourseAnalytics(courseSlug);
+  // Fetch course with all related data using service, plus engine-computed grades
+  const [course, computedGrades] = await Promise.all([
+    getCourseAnalytics(courseSlug),
+    computeCourseGrades(courseSlug),
+  ]);
 
   if (!course) {
     return null;
   }
 
+  const terms = computedGrades?.terms ?? DEFAULT_TERM_DEFINITIONS;
+
   // Build Maps for O(1) lookups instead of O(n²) filters
   // Map: studentId -> attendance records
   const attendanceByStudent = new Map<string, any[]>();
@@ -318,14 +319,20 @@ export async function getCourseAnalyticsData(courseSlug: string) {
     attendanceByStudent.get(studentId)!.push(record);
   }
 
-  // Map: termConfigId -> (studentId -> termGrade)
+  // Map: termConfigId -> (studentId -> termGrade), computed by the grading engine
   const termGradesByConfig = new Map<string, Map<string, any>>();
-  for (const termConfig of course.termConfigs || []) {
+  for (const termConfig of computedGrades?.termConfigs || []) {
     const configMap = new Map<string, any>();
-    for (const termGrade of termConfig.termGrades || []) {
-      // Use studentId directly (from optimized query structure)
-      const studentId = termGrade.student?.id || termGrade.studentId;
-      configMap.set(studentId, termGrade);
+    for (const [studentId, studentGrades] of Object.entries(
+      computedGrades?.grades || {}
+    )) {
+      const result = studentGrades.terms[termConfig.term];
+      if (!result || result.totalPercent === null) continue;
+      configMap.set(studentId, {
+        totalPercentage: result.totalPercent,
+        numericGrade: result.numericGrade,
+        remarks: result.remarks,
+      });
     }
     termGradesByConfig.set(termConfig.id, configMap);
   }
@@ -354,6 +361,7 @@ export async function getCourseAnalyticsData(courseSlug: string) {
 
     // Build term grades structure using Map lookups
     const termGrades = buildTermGrades(
+      terms,
       course.termConfigs || [],
       student.id,
       termGradesByConfig,
@@ -361,7 +369,10 @@ export async function getCourseAnalyticsData(courseSlug: string) {
     );
 
     // Calculate average grade
-    const gradeStats = calculateAverageGrade(termGrades);
+    const gradeStats = calculateAverageGrade(
+      termGrades,
+      computedGrades?.gradingScale ?? DEFAULT_GRADING_SCALE
+    );
 
     return {
       id: student.id,
@@ -411,5 +422,6 @@ export async function getCourseAnalyticsData(courseSlug: string) {
     course: courseInfo,
     stats,
     students: studentAnalytics,
+    terms,
   };
 }
@@ -0,0 +1,403 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { revalidateTag } from "next/cache";
+import { generateSlug } from "./courses";
+import { checkFacultyLoad } from "./faculty-load";
+import { isUnassignedRoom, normalizeRoomName } from "@/lib/utils/room-utils";
+import { resolveSectionId } from "./sections";
+import {
+  checkRoomOverlap,
+  checkScheduleOverlap,
+  findScheduleOverlap,
+} from "@/lib/utils/schedule-utils";
+
+export interface CourseRolloverInput {
+  // Either specific courses, or a faculty member's load for a source term
+  courseSlugs?: string[];
+  facultyId?: string;
+  sourceAcademicYear?: string;
+  sourceSemester?: string;
+  // Target term
+  academicYear: string;
+  semester: string;
+}
+
+const sourceInclude = {
+  schedules: { select: { day: true, fromTime: true, toTime: true } },
+  terms: { orderBy: { order: "asc" as const } },
+  termConfigs: {
+    include: { assessments: { orderBy: { order: "asc" as const } } },
+  },
+  criteria: {
+    include: { rubrics: { orderBy: { createdAt: "asc" as const } } },
+    orderBy: { createdAt: "asc" as const },
+  },
+  _count: {
+    select: { students: true, grades: true, attendance: true, quizzes: true },
+  },
+};
+
+type RolloverSource = Prisma.CourseGetPayload<{
+  include: typeof sourceInclude;
+}>;
+
+// Helper: Resolve the source courses from the input
+async function getRolloverSources(input: CourseRolloverInput) {
+  if (!input.academicYear?.trim() || !input.semester?.trim()) {
+    throw new Error("Target academic year and semester are required");
+  }
+
+  if (input.courseSlugs?.length) {
+    const courses = await prisma.course.findMany({
+      where: { slug: { in: input.courseSlugs } },
+      include: sourceInclude,
+      orderBy: [{ code: "asc" }, { section: "asc" }],
+    });
+    if (courses.length !== new Set(input.courseSlugs).size) {
+      throw new Error("One or more courses not found");
+    }
+    return courses;
+  }
+
+  if (input.facultyId) {
+    if (!input.sourceAcademicYear || !input.sourceSemester) {
+      throw new Error(
+        "Source academic year and semester are required for a faculty load"
+      );
+    }
+    return prisma.course.findMany({
+      where: {
+        facultyId: input.facultyId,
+        academicYear: input.sourceAcademicYear,
+        semester: input.sourceSemester,
+        status: { not: "ARCHIVED" },
+      },
+      include: sourceInclude,
+      orderBy: [{ code: "asc" }, { section: "asc" }],
+    });
+  }
+
+  throw new Error("Select courses or a faculty load to roll over");
+}
+
+// Helper: Room, faculty schedule or teaching load problem the copied course
+// would cause in the target term, counting courses planned earlier in the batch
+async function findRolloverConflict(
+  source: RolloverSource,
+  planned: RolloverSource[],
+  academicYear: string,
+  semester: string
+): Promise<string | null> {
+  if (!isUnassignedRoom(source.room)) {
+    const roomName = normalizeRoomName(source.room);
+    const sameRoom = planned.filter(
+      (p) => normalizeRoomName(p.room) === roomName
+    );
+    const overlap = findScheduleOverlap(source.schedules, sameRoom);
+    if (overlap) {
+      return `Room ${roomName} is also booked for "${overlap.course.code} - ${overlap.course.section}" in this rollover on ${overlap.schedule.day} (${overlap.schedule.fromTime} - ${overlap.schedule.toTime})`;
+    }
+  }
+
+  const sameFaculty = source.facultyId
+    ? planned.filter((p) => p.facultyId === source.facultyId)
+    : [];
+  const facultyOverlap = findScheduleOverlap(source.schedules, sameFaculty);
+  if (facultyOverlap) {
+    return `Schedule overlaps with "${facultyOverlap.course.code} - ${facultyOverlap.course.section}" in this rollover on ${facultyOverlap.schedule.day} (${facultyOverlap.schedule.fromTime} - ${facultyOverlap.schedule.toTime})`;
+  }
+
+  const roomConflict = await checkRoomOverlap(
+    source.schedules,
+    source.room,
+    [],
+    semester,
+    academicYear
+  );
+  if (roomConflict) return roomConflict;
+
+  if (!source.facultyId) return null;
+
+  return (
+    (await checkScheduleOverlap(
+      source.schedules,
+      source.facultyId,
+      [],
+      semester,
+      academicYear
+    )) ??
+    (await checkFacultyLoad(
+      [...sameFaculty.flatMap((p) => p.schedules), ...source.schedules],
+      source.facultyId,
+      [],
+      semester,
+      academicYear,
+      sameFaculty.length + 1
+    ))
+  );
+}
+
+// Helper: Work out what each source course would become in the target term
+async function planRollover(input: CourseRolloverInput) {
+  const sources = await getRolloverSources(input);
+  const academicYear = input.academicYear.trim();
+  const semester = input.semester.trim();
+  const reservedSlugs = new Set<string>();
+  // Courses this rollover will create, so the batch cannot double-book itself
+  const planned: RolloverSource[] = [];
+
+  const plans = [];
+  for (const source of sources) {
+    const existing = await prisma.course.findFirst({
+      where: {
+        code: source.code,
+        section: source.section,
+        academicYear,
+        semester,
+      },
+      select: { slug: true },
+    });
+
+    const conflict = existing
+      ? null
+      : await findRolloverConflict(source, planned, academicYear, semester);
+
+    let slug: string | null = null;
+    if (!existing && !conflict) {
+      const baseSlug = generateSlug(source.code, academicYear, source.section);
+      slug = baseSlug;
+      let counter = 1;
+      while (
+        reservedSlugs.has(slug) ||
+        (await prisma.course.findUnique({
+          where: { slug },
+          select: { id: true },
+        }))
+      ) {
+        slug = `${baseSlug}-${counter}`;
+        counter++;
+      }
+      reservedSlugs.add(slug);
+      planned.push(source);
+    }
+
+    plans.push({
+      source,
+      slug,
+      conflictSlug: existing?.slug ?? null,
+      conflict,
+    });
+  }
+
+  return { academicYear, semester, plans };
+}
+
+// Helper: Diff entry shown to the user before committing
+function describePlan(
+  plan: Awaited<ReturnType<typeof planRollover>>["plans"][number],
+  target: { academicYear: string; semester: string }
+) {
+  const { source } = plan;
+  const status = plan.conflictSlug
+    ? ("skipped" as const)
+    : plan.conflict
+    ? ("conflict" as const)
+    : ("create" as const);
+  return {
+    source: {
+      slug: source.slug,
+      code: source.code,
+      title: source.title,
+      section: source.section,
+      academicYear: source.academicYear,
+      semester: source.semester,
+    },
+    target: {
+      slug: plan.slug,
+      code: source.code,
+      section: source.section,
+      academicYear: target.academicYear,
+      semester: target.semester,
+    },
+    status,
+    message: plan.conflictSlug
+      ? `Course already exists in the target term (${plan.conflictSlug})`
+      : plan.conflict ?? "Will be created",
+    copies: {
+      schedules: source.schedules.map(
+        (s) => `${s.day} ${s.fromTime}-${s.toTime}`
+      ),
+      terms: source.terms.map((t) => `${t.label} (${t.weight}%)`),
+      assessments: source.termConfigs.flatMap((tc) =>
+        tc.assessments.map((a) => `${tc.term}: ${a.name} (${a.type})`)
+      ),
+      criteria: source.criteria.map(
+        (c) => `${c.name} (${c.rubrics.length} rubric(s))`
+      ),
+    },
+    // Per-student data stays with the source course
+    leftBehind: {
+      students: source._count.students,
+      grades: source._count.grades,
+      attendance: source._count.attendance,
+      quizzes: source._count.quizzes,
+    },
+  };
+}
+
+// Helper: Queries that create the target course with its grading structure
+function buildRolloverQueries(
+  source: RolloverSource,
+  target: {
+    id: string;
+    slug: string;
+    academicYear: string;
+    semester: string;
+    sectionId: string | null;
+  }
+) {
+  const now = new Date();
+  const criteriaIds = new Map(source.criteria.map((c) => [c.id, randomUUID()]));
+
+  return [
+    prisma.course.create({
+      data: {
+        id: target.id,
+        code: source.code,
+        title: source.title,
+        room: source.room,
+        roomId: source.roomId,
+        semester: target.semester,
+        academicYear: target.academicYear,
+        slug: target.slug,
+        classNumber: source.classNumber,
+        status: "ACTIVE",
+        section: source.section,
+        sectionId: target.sectionId,
+        facultyId: source.facultyId,
+        gradingScaleId: source.gradingScaleId,
+        schedules: { create: source.schedules },
+        terms: {
+          create: source.terms.map((t) => ({
+            key: t.key,
+            label: t.label,
+            weight: t.weight,
+            order: t.order,
+          })),
+        },
+      },
+    }),
+    // Criteria first so linked assessments can point at the copies
+    ...source.criteria.map((c) =>
+      prisma.criteria.create({
+        data: {
+          id: criteriaIds.get(c.id),
+          name: c.name,
+          courseId: target.id,
+          userId: c.userId,
+          scoringRange: c.scoringRange,
+          passingScore: c.passingScore,
+          date: now,
+          isGroupCriteria: c.isGroupCriteria,
+          isRecitationCriteria: c.isRecitationCriteria,
+          templateId: c.templateId,
+          templateVersion: c.templateVersion,
+          rubrics: {
+            create: c.rubrics.map((r) => ({
+              name: r.name,
+              percentage: r.percentage,
+            })),
+          },
+        },
+      })
+    ),
+    ...source.termConfigs.map((tc) =>
+      prisma.termConfiguration.create({
+        data: {
+          courseId: target.id,
+          term: tc.term,
+          ptWeight: tc.ptWeight,
+          quizWeight: tc.quizWeight,
+          examWeight: tc.examWeight,
+          assessments: {
+            // Dates belong to the old term and are set again by the faculty
+            create: tc.assessments.map((a) => ({
+              type: a.type,
+              name: a.name,
+              maxScore: a.maxScore,
+              enabled: a.enabled,
+              order: a.order,
+              transmutationBase: a.transmutationBase,
+              linkedCriteriaId: a.linkedCriteriaId
+                ? criteriaIds.get(a.linkedCriteriaId) ?? null
+                : null,
+            })),
+          },
+        },
+      })
+    ),
+  ];
+}
+
+// Preview a rollover without writing anything
+export async function previewCourseRollover(input: CourseRolloverInput) {
+  const { academicYear, semester, plans } = await planRollover(input);
+  const courses = plans.map((plan) =>
+    describePlan(plan, { academicYear, semester })
+  );
+
+  return {
+    academicYear,
+    semester,
+    total: courses.length,
+    toCreate: courses.filter((c) => c.status === "create").length,
+    toSkip: courses.filter((c) => c.status === "skipped").length,
+    conflicts: courses.filter((c) => c.status === "conflict").length,
+    courses,
+  };
+}
+
+// Copy course structure (schedules, terms, assessments, criteria) into a new term
+// Students, grades, attendance and quizzes are not copied, and courses that
+// would double-book a room or faculty member or break a teaching load are left out
+export async function commitCourseRollover(input: CourseRolloverInput) {
+  const { academicYear, semester, plans } = await planRollover(input);
+
+  const results = [];
+  for (const plan of plans) {
+    const entry = describePlan(plan, { academicYear, semester });
+    if (!plan.slug) {
+      results.push(entry);
+      continue;
+    }
+
+    // Each course is copied atomically so a failure never leaves half a course
+    await prisma.$transaction(
+      buildRolloverQueries(plan.source, {
+        id: randomUUID(),
+        slug: plan.slug,
+        academicYear,
+        semester,
+        sectionId: await resolveSectionId(plan.source.section, academicYear),
+      })
+    );
+    results.push({ ...entry, message: "Created" });
+  }
+
+  const created = results.filter((r) => r.status === "create").length;
+  const conflicts = results.filter((r) => r.status === "conflict").length;
+  if (created > 0) {
+    revalidateTag("courses", "max");
+  }
+
+  return {
+    academicYear,
+    semester,
+    total: results.length,
+    created,
+    skipped: results.length - created - conflicts,
+    conflicts,
+    courses: results,
+  };
+}
@@ -1,6 +1,10 @@
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
 import { unstable_cache, revalidateTag } from "next/cache";
+import { resolveSectionId } from "./sections";
+import { checkRoomCapacity, resolveRoomId } from "./rooms";
+import { checkFacultyLoad } from "./faculty-load";
+import { checkRoomOverlap } from "@/lib/utils/schedule-utils";
 
 // Helper function to generate slug
 // Format: code-academicyear-section
@@ -412,33 +416,8 @@ export async function getCourseStudentsWithAttendance(
 
   if (!courseWithData) return null;
 
-  // Batch fetch all gradeScores for all students at once (fixes N+1)
-  // Only fetch if we have students to avoid unnecessary query
-  const studentIds = courseWithData.students.map((s) => s.id);
-  const allGradeScores =
-    studentIds.length > 0
-      ? await prisma.gradeScore.findMany({
-          where: {
-            courseId: courseWithData.id,
-            studentId: { in: studentIds },
-          },
-          orderBy: { createdAt: "desc" },
-          take: 1000, // Limit to prevent excessive data
-        })
-      : [];
-
-  // Group gradeScores by studentId, taking the latest for each
-  const gradeScoresMap = new Map<string, (typeof allGradeScores)[0]>();
-  for (const score of allGradeScores) {
-    if (!gradeScoresMap.has(score.studentId)) {
-      gradeScoresMap.set(score.studentId, score);
-    }
-  }
-
-  // Transform students with their gradeScores
+  // Transform students for the attendance view
   const students = courseWithData.students.map((student) => {
-    const latestGradeScore = gradeScoresMap.get(student.id);
-
     return {
       id: student.id,
       studentId: student.studentId,
@@ -450,11 +429,6 @@ export async function getCourseStudentsWithAttendance(
       rfid_id: student.rfid_id ? String(student.rfid_id) : null, // Convert BigInt to String for JSON serialization
       status: student.attendance[0]?.status || "NOT_SET",
       attendanceRecords: student.attendance,
-      reportingScore: latestGradeScore?.reportingScore ?? 0,
-      recitationScore: latestGradeScore?.recitationScore ?? 0,
-      quizScore: latestGradeScore?.quizScore ?? 0,
-      totalScore: latestGradeScore?.totalScore ?? 0,
-      remarks: latestGradeScore?.remarks ?? "",
       quizScores: [], // Removed quizScores to reduce query complexity
     };
   });
@@ -800,12 +774,35 @@ export async function createCourse(data: {
     throw new Error("classNumber must be a valid number");
   }
 
+  if ((data.status || "ACTIVE") === "ACTIVE") {
+    const scheduleConflict =
+      (await checkRoomOverlap(
+        data.schedules ?? [],
+        data.room,
+        [],
+        data.semester,
+        data.academicYear
+      )) ??
+      (await checkFacultyLoad(
+        data.schedules ?? [],
+        data.facultyId,
+        [],
+        data.semester,
+        data.academicYear
+      ));
+    if (scheduleConflict) {
+      throw new Error(scheduleConflict);
+    }
+  }
+
   const result = await prisma.course.create({
     data: {
       code: data.code,
       title: data.title,
       section: data.section,
+      sectionId: await resolveSectionId(data.section, data.academicYear),
       room: data.room || "",
+      roomId: await resolveRoomId(data.room),
       semester: data.semester,
       academicYear: data.academicYear,
       slug,
@@ -872,11 +869,93 @@ export async function updateCourse(
     }
   }
 
+  // Keep the section link in step with the section name / academic year
+  let sectionId: string | null | undefined;
+  if (data.section || data.academicYear) {
+    const current = await prisma.course.findUnique({
+      where: { slug: courseSlug },
+      select: { section: true, academicYear: true },
+    });
+    if (current) {
+      sectionId = await resolveSectionId(
+        data.section ?? current.section,
+        data.academicYear ?? current.academicYear
+      );
+    }
+  }
+
+  // A new room must be free at the course's times and hold its students
+  let roomId: string | null | undefined;
+  if (data.room !== undefined) {
+    const current = await prisma.course.findUnique({
+      where: { slug: courseSlug },
+      select: {
+        id: true,
+        room: true,
+        status: true,
+        semester: true,
+        academicYear: true,
+        schedules: true,
+        _count: { select: { students: true } },
+      },
+    });
+    if (current && current.room !== data.room) {
+      const roomError =
+        (await checkRoomCapacity(data.room, current._count.students)) ??
+        (current.status === "ACTIVE"
+          ? await checkRoomOverlap(
+              current.schedules,
+              data.room,
+              [current.id],
+              data.semester ?? current.semester,
+              data.academicYear ?? current.academicYear
+            )
+          : null);
+      if (roomError) {
+        throw new Error(roomError);
+      }
+      roomId = await resolveRoomId(data.room);
+    }
+  }
+
+  // A new faculty member must be available at the course's times and within their load limits
+  if (data.facultyId) {
+    const current = await prisma.course.findUnique({
+      where: { slug: courseSlug },
+      select: {
+        id: true,
+        facultyId: true,
+        status: true,
+        semester: true,
+        academicYear: true,
+        schedules: true,
+      },
+    });
+    if (
+      current &&
+      current.status === "ACTIVE" &&
+      current.facultyId !== data.facultyId
+    ) {
+      const loadError = await checkFacultyLoad(
+        current.schedules,
+        data.facultyId,
+        [current.id],
+        data.semester ?? current.semester,
+        data.academicYear ?? current.academicYear
+      );
+      if (loadError) {
+        throw new Error(loadError);
+      }
+    }
+  }
+
   const result = await prisma.course.update({
     where: { slug: courseSlug },
     data: {
       ...data,
       ...(newSlug && { slug: newSlug }),
+      ...(sectionId !== undefined && { sectionId }),
+      ...(roomId !== undefined && { roomId }),
     },
     include: {
       faculty: {
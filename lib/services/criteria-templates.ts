@@ -0,0 +1,401 @@
+import { prisma } from "@/lib/prisma";
+import { CriteriaTemplateScope, Prisma } from "@prisma/client";
+
+export interface CriteriaTemplateInput {
+  name: string;
+  description?: string | null;
+  scope?: CriteriaTemplateScope;
+  isGroupCriteria?: boolean;
+  isRecitationCriteria?: boolean;
+  scoringRange: string | number;
+  passingScore: string | number;
+  rubrics: Array<{ name: string; percentage: number }>;
+}
+
+// The user looking at the library; managers see every department's templates
+interface TemplateViewer {
+  id: string;
+  isManager: boolean;
+}
+
+const templateInclude = {
+  rubrics: { orderBy: { order: "asc" as const } },
+  owner: { select: { id: true, name: true } },
+  _count: { select: { criteria: true } },
+};
+
+// Helper: Validate input and normalize rubric rows
+function normalizeTemplateInput(data: CriteriaTemplateInput) {
+  if (!data.name?.trim()) {
+    throw new Error("Template name is required");
+  }
+  if (data.isGroupCriteria && data.isRecitationCriteria) {
+    throw new Error("Template cannot be both group and recitation criteria");
+  }
+
+  const rubrics = (data.rubrics || []).map((rubric, index) => ({
+    name: String(rubric.name ?? "").trim(),
+    percentage: Number(rubric.percentage),
+    order: index,
+  }));
+
+  if (rubrics.length === 0) {
+    throw new Error("Template must have at least one rubric");
+  }
+  if (rubrics.some((r) => !r.name)) {
+    throw new Error("Every rubric must have a name");
+  }
+  if (
+    rubrics.some((r) => !Number.isInteger(r.percentage) || r.percentage <= 0) ||
+    rubrics.reduce((sum, r) => sum + r.percentage, 0) !== 100
+  ) {
+    throw new Error("Rubric weights must be whole numbers totaling 100%");
+  }
+
+  return {
+    rubrics,
+    scoringRange: String(data.scoringRange),
+    passingScore: String(data.passingScore),
+  };
+}
+
+// Helper: Templates a user may see (own personal ones plus their department's)
+async function getVisibleWhere(
+  viewer: TemplateViewer
+): Promise<Prisma.CriteriaTemplateWhereInput> {
+  if (viewer.isManager) {
+    return { OR: [{ ownerId: viewer.id }, { scope: "DEPARTMENT" }] };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: viewer.id },
+    select: { department: true },
+  });
+
+  return {
+    OR: [
+      { ownerId: viewer.id },
+      { scope: "DEPARTMENT", department: user?.department ?? "" },
+    ],
+  };
+}
+
+// Helper: Load a template the viewer may see
+async function getVisibleTemplate(id: string, viewer: TemplateViewer) {
+  const template = await prisma.criteriaTemplate.findFirst({
+    where: { id, ...(await getVisibleWhere(viewer)) },
+    include: templateInclude,
+  });
+
+  if (!template) {
+    throw new Error("Criteria template not found");
+  }
+
+  return template;
+}
+
+// Helper: Owners edit their templates; managers may also edit shared ones
+function assertCanManage(
+  template: { ownerId: string; scope: CriteriaTemplateScope },
+  viewer: TemplateViewer
+) {
+  if (
+    template.ownerId !== viewer.id &&
+    !(viewer.isManager && template.scope === "DEPARTMENT")
+  ) {
+    throw new Error("Only the template owner can change this template");
+  }
+}
+
+// Get the criteria templates visible to a user
+export async function getCriteriaTemplates(
+  viewer: TemplateViewer,
+  filters?: { isGroupCriteria?: boolean; isRecitationCriteria?: boolean }
+) {
+  const where: Prisma.CriteriaTemplateWhereInput = await getVisibleWhere(
+    viewer
+  );
+  if (filters?.isGroupCriteria !== undefined) {
+    where.isGroupCriteria = filters.isGroupCriteria;
+  }
+  if (filters?.isRecitationCriteria !== undefined) {
+    where.isRecitationCriteria = filters.isRecitationCriteria;
+  }
+
+  return prisma.criteriaTemplate.findMany({
+    where,
+    include: templateInclude,
+    orderBy: [{ scope: "asc" }, { name: "asc" }],
+  });
+}
+
+// Get a single criteria template
+export async function getCriteriaTemplate(id: string, viewer: TemplateViewer) {
+  return getVisibleTemplate(id, viewer);
+}
+
+// Create a criteria template; department templates are shared with the owner's department
+// When saved from an existing criteria, that criteria is linked to version 1
+export async function createCriteriaTemplate(
+  data: CriteriaTemplateInput & { sourceCriteriaId?: string },
+  userId: string
+) {
+  const { rubrics, scoringRange, passingScore } = normalizeTemplateInput(data);
+  const scope = data.scope ?? CriteriaTemplateScope.PERSONAL;
+
+  const owner = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { department: true },
+  });
+
+  const template = await prisma.criteriaTemplate.create({
+    data: {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      scope,
+      department: scope === "DEPARTMENT" ? owner?.department ?? null : null,
+      ownerId: userId,
+      isGroupCriteria: !!data.isGroupCriteria,
+      isRecitationCriteria: !!data.isRecitationCriteria,
+      scoringRange,
+      passingScore,
+      rubrics: { create: rubrics },
+    },
+    include: templateInclude,
+  });
+
+  if (data.sourceCriteriaId) {
+    await prisma.criteria.updateMany({
+      where: { id: data.sourceCriteriaId, userId },
+      data: { templateId: template.id, templateVersion: template.version },
+    });
+  }
+
+  return template;
+}
+
+// Update a criteria template; changing the scoring or rubrics publishes a new version
+export async function updateCriteriaTemplate(
+  id: string,
+  data: CriteriaTemplateInput,
+  viewer: TemplateViewer
+) {
+  const existing = await getVisibleTemplate(id, viewer);
+  assertCanManage(existing, viewer);
+
+  const { rubrics, scoringRange, passingScore } = normalizeTemplateInput({
+    ...data,
+    isGroupCriteria: existing.isGroupCriteria,
+    isRecitationCriteria: existing.isRecitationCriteria,
+  });
+  const scope = data.scope ?? existing.scope;
+
+  const contentChanged =
+    scoringRange !== existing.scoringRange ||
+    passingScore !== existing.passingScore ||
+    rubrics.length !== existing.rubrics.length ||
+    rubrics.some(
+      (r, i) =>
+        r.name !== existing.rubrics[i].name ||
+        r.percentage !== existing.rubrics[i].percentage
+    );
+
+  let department = existing.department;
+  if (scope !== existing.scope) {
+    const owner = await prisma.user.findUnique({
+      where: { id: existing.ownerId },
+      select: { department: true },
+    });
+    department = scope === "DEPARTMENT" ? owner?.department ?? null : null;
+  }
+
+  // Rubrics are replaced together with the template so a version is never partial
+  const [, template] = await prisma.$transaction([
+    prisma.criteriaTemplateRubric.deleteMany({ where: { templateId: id } }),
+    prisma.criteriaTemplate.update({
+      where: { id },
+      data: {
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+        scope,
+        department,
+        scoringRange,
+        passingScore,
+        version: contentChanged ? existing.version + 1 : existing.version,
+        rubrics: { create: rubrics },
+      },
+      include: templateInclude,
+    }),
+  ]);
+
+  return { before: existing, template };
+}
+
+// Publish the rubrics of a criteria created from a template as the template's next version
+export async function publishCriteriaToTemplate(
+  templateId: string,
+  criteriaId: string,
+  viewer: TemplateViewer
+) {
+  const criteria = await prisma.criteria.findUnique({
+    where: { id: criteriaId },
+    include: { rubrics: { orderBy: { createdAt: "asc" } } },
+  });
+
+  if (!criteria) {
+    throw new Error("Criteria not found");
+  }
+  if (criteria.templateId !== templateId) {
+    throw new Error("Criteria was not created from this template");
+  }
+
+  const existing = await getVisibleTemplate(templateId, viewer);
+
+  const { before, template } = await updateCriteriaTemplate(
+    existing.id,
+    {
+      name: existing.name,
+      description: existing.description,
+      scope: existing.scope,
+      scoringRange: criteria.scoringRange,
+      passingScore: criteria.passingScore,
+      rubrics: criteria.rubrics.map((r) => ({
+        name: r.name,
+        percentage: r.percentage,
+      })),
+    },
+    viewer
+  );
+
+  await prisma.criteria.update({
+    where: { id: criteria.id },
+    data: { templateVersion: template.version },
+  });
+
+  return { before, template };
+}
+
+// Delete a criteria template; criteria created from it keep their rubrics
+export async function deleteCriteriaTemplate(
+  id: string,
+  viewer: TemplateViewer
+) {
+  const existing = await getVisibleTemplate(id, viewer);
+  assertCanManage(existing, viewer);
+
+  await prisma.criteriaTemplate.delete({ where: { id } });
+
+  return existing;
+}
+
+// Create criteria from a template in several courses at once (batch operation)
+export async function applyCriteriaTemplate(
+  id: string,
+  viewer: TemplateViewer,
+  data: { courseSlugs: string[]; date: Date; name?: string }
+) {
+  const template = await getVisibleTemplate(id, viewer);
+
+  const courseSlugs = Array.from(new Set(data.courseSlugs || []));
+  if (courseSlugs.length === 0) {
+    throw new Error("Select at least one course");
+  }
+  if (isNaN(data.date.getTime())) {
+    throw new Error("Invalid criteria date");
+  }
+
+  const courses = await prisma.course.findMany({
+    where: { slug: { in: courseSlugs } },
+    select: {
+      id: true,
+      slug: true,
+      code: true,
+      section: true,
+      facultyId: true,
+    },
+  });
+
+  if (courses.length !== courseSlugs.length) {
+    throw new Error("One or more courses not found");
+  }
+  if (!viewer.isManager && courses.some((c) => c.facultyId !== viewer.id)) {
+    throw new Error("Only courses you teach can use this template");
+  }
+
+  const name = data.name?.trim() || template.name;
+  const created = await prisma.$transaction(
+    courses.map((course) =>
+      prisma.criteria.create({
+        data: {
+          name,
+          courseId: course.id,
+          userId: viewer.id,
+          date: data.date,
+          scoringRange: template.scoringRange,
+          passingScore: template.passingScore,
+          isGroupCriteria: template.isGroupCriteria,
+          isRecitationCriteria: template.isRecitationCriteria,
+          templateId: template.id,
+          templateVersion: template.version,
+          rubrics: {
+            create: template.rubrics.map((r) => ({
+              name: r.name,
+              percentage: r.percentage,
+            })),
+          },
+        },
+        include: {
+          user: { select: { name: true } },
+          rubrics: true,
+          course: { select: { slug: true, code: true, section: true } },
+        },
+      })
+    )
+  );
+
+  return { template, criteria: created };
+}
+
+// Courses using a template, flagging those still on an older version
+export async function getCriteriaTemplateUsage(
+  id: string,
+  viewer: TemplateViewer
+) {
+  const template = await getVisibleTemplate(id, viewer);
+
+  const criteria = await prisma.criteria.findMany({
+    where: { templateId: id },
+    select: {
+      id: true,
+      name: true,
+      date: true,
+      templateVersion: true,
+      course: {
+        select: {
+          slug: true,
+          code: true,
+          section: true,
+          facultyId: true,
+          faculty: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: [{ course: { code: "asc" } }, { date: "desc" }],
+  });
+
+  return {
+    templateId: template.id,
+    version: template.version,
+    usage: criteria.map((c) => ({
+      criteriaId: c.id,
+      criteriaName: c.name,
+      date: c.date.toISOString().split("T")[0],
+      courseSlug: c.course.slug,
+      courseCode: c.course.code,
+      courseSection: c.course.section,
+      facultyName: c.course.faculty?.name ?? null,
+      templateVersion: c.templateVersion,
+      isOutdated: (c.templateVersion ?? 0) < template.version,
+    })),
+  };
+}
@@ -0,0 +1,278 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { pickCourseGradingScale, toTermDefinitions } from "./grading";
+import {
+  AttendanceTally,
+  computeRiskScore,
+  getPassingPercentage,
+  getTermWeights,
+  RiskAssessment,
+  RiskLevel,
+} from "./grading-engine";
+
+// Courses are scored in chunks so department-wide views stay within memory
+const COURSE_CHUNK_SIZE = 25;
+
+export interface StudentRisk extends RiskAssessment {
+  id: string;
+  studentId: string;
+  firstName: string;
+  lastName: string;
+  image: string | null;
+  course: {
+    id: string;
+    slug: string;
+    code: string;
+    section: string;
+    title: string;
+  };
+  faculty: { id: string; name: string; department: string } | null;
+}
+
+export interface DepartmentRiskSummary {
+  department: string;
+  courses: number;
+  students: number;
+  high: number;
+  moderate: number;
+  topCourses: Array<{
+    id: string;
+    slug: string;
+    code: string;
+    section: string;
+    facultyName: string | null;
+    atRisk: number;
+    students: number;
+  }>;
+  topStudents: StudentRisk[];
+}
+
+const courseRiskSelect = {
+  id: true,
+  slug: true,
+  code: true,
+  section: true,
+  title: true,
+  faculty: { select: { id: true, name: true, department: true } },
+  gradingScale: { include: { entries: true } },
+  terms: { orderBy: { order: "asc" as const } },
+  students: {
+    select: {
+      id: true,
+      studentId: true,
+      firstName: true,
+      lastName: true,
+      image: true,
+    },
+  },
+  termConfigs: {
+    select: {
+      id: true,
+      term: true,
+      // Linked assessments take their score from criteria, not AssessmentScore
+      assessments: {
+        where: { enabled: true, linkedCriteriaId: null },
+        select: { id: true },
+      },
+    },
+  },
+} satisfies Prisma.CourseSelect;
+
+const emptyTally = (): AttendanceTally => ({
+  present: 0,
+  late: 0,
+  excused: 0,
+  absent: 0,
+});
+
+const rankByRisk = (a: StudentRisk, b: StudentRisk) =>
+  b.score - a.score || a.lastName.localeCompare(b.lastName);
+
+// Score every enrolled student of the matching active courses from stored
+// term grades, attendance and assessment scores
+async function assessCourses(where: Prisma.CourseWhereInput) {
+  const [courseIds, defaultScales] = await Promise.all([
+    prisma.course.findMany({
+      where: { ...where, status: "ACTIVE" },
+      select: { id: true },
+    }),
+    prisma.gradingScale.findMany({
+      where: { isDefault: true },
+      include: { entries: true },
+    }),
+  ]);
+
+  const results: StudentRisk[] = [];
+  for (let i = 0; i < courseIds.length; i += COURSE_CHUNK_SIZE) {
+    const ids = courseIds.slice(i, i + COURSE_CHUNK_SIZE).map((c) => c.id);
+    const courses = await prisma.course.findMany({
+      where: { id: { in: ids } },
+      select: courseRiskSelect,
+    });
+
+    const termConfigIds = courses.flatMap((c) =>
+      c.termConfigs.map((t) => t.id)
+    );
+    const assessmentIds = courses.flatMap((c) =>
+      c.termConfigs.flatMap((t) => t.assessments.map((a) => a.id))
+    );
+
+    const [attendance, termGrades, scores] = await Promise.all([
+      prisma.attendance.findMany({
+        where: { courseId: { in: ids } },
+        select: { courseId: true, studentId: true, status: true },
+      }),
+      prisma.termGrade.findMany({
+        where: { termConfigId: { in: termConfigIds } },
+        select: { termConfigId: true, studentId: true, totalPercentage: true },
+      }),
+      prisma.assessmentScore.findMany({
+        where: { assessmentId: { in: assessmentIds } },
+        select: { assessmentId: true, studentId: true },
+      }),
+    ]);
+
+    const tallies = new Map<string, AttendanceTally>();
+    attendance.forEach((record) => {
+      const key = `${record.courseId}:${record.studentId}`;
+      const tally = tallies.get(key) ?? emptyTally();
+      if (record.status === "PRESENT") tally.present++;
+      else if (record.status === "LATE") tally.late++;
+      else if (record.status === "EXCUSED") tally.excused++;
+      else if (record.status === "ABSENT") tally.absent++;
+      tallies.set(key, tally);
+    });
+
+    const termPercents = new Map(
+      termGrades.map((g) => [
+        `${g.termConfigId}:${g.studentId}`,
+        g.totalPercentage,
+      ])
+    );
+
+    const scoredBy = new Map<string, Set<string>>();
+    scores.forEach((score) => {
+      const students = scoredBy.get(score.assessmentId) ?? new Set<string>();
+      students.add(score.studentId);
+      scoredBy.set(score.assessmentId, students);
+    });
+
+    courses.forEach((course) => {
+      const terms = toTermDefinitions(course.terms);
+      const weights = getTermWeights(terms);
+      const configs = new Map(course.termConfigs.map((t) => [t.term, t]));
+      const passingPercentage = getPassingPercentage(
+        pickCourseGradingScale(
+          course.gradingScale,
+          course.faculty?.department ?? null,
+          defaultScales
+        )
+      );
+
+      // Only assessments the class has been scored on count as due
+      const gradedAssessments = terms.flatMap(
+        (term) =>
+          configs
+            .get(term.key)
+            ?.assessments.filter((a) => scoredBy.has(a.id))
+            .map((a) => a.id) ?? []
+      );
+
+      course.students.forEach((student) => {
+        const risk = computeRiskScore({
+          attendance: tallies.get(`${course.id}:${student.id}`) ?? emptyTally(),
+          gradedAssessments: gradedAssessments.length,
+          missingAssessments: gradedAssessments.filter(
+            (id) => !scoredBy.get(id)!.has(student.id)
+          ).length,
+          terms: terms.map((term) => {
+            const config = configs.get(term.key);
+            return {
+              weight: weights[term.key],
+              percent: config
+                ? termPercents.get(`${config.id}:${student.id}`) ?? null
+                : null,
+            };
+          }),
+          passingPercentage,
+        });
+
+        results.push({
+          ...student,
+          ...risk,
+          course: {
+            id: course.id,
+            slug: course.slug,
+            code: course.code,
+            section: course.section,
+            title: course.title,
+          },
+          faculty: course.faculty,
+        });
+      });
+    });
+  }
+
+  return results;
+}
+
+// Ranked list of a faculty member's at-risk students across active courses
+export async function getFacultyAtRiskStudents(facultyId: string, limit = 10) {
+  const students = await assessCourses({ facultyId });
+  return students
+    .filter((student) => student.level !== "LOW")
+    .sort(rankByRisk)
+    .slice(0, limit);
+}
+
+// At-risk counts per department (by the course faculty's department)
+// Optionally limited to one department
+export async function getDepartmentRiskSummary(
+  department?: string
+): Promise<DepartmentRiskSummary[]> {
+  const students = await assessCourses(
+    department ? { faculty: { department } } : { facultyId: { not: null } }
+  );
+
+  const byDepartment = new Map<string, StudentRisk[]>();
+  students.forEach((student) => {
+    const key = student.faculty?.department ?? "Unassigned";
+    const list = byDepartment.get(key) ?? [];
+    list.push(student);
+    byDepartment.set(key, list);
+  });
+
+  const count = (list: StudentRisk[], level: RiskLevel) =>
+    list.filter((student) => student.level === level).length;
+
+  return [...byDepartment.entries()]
+    .map(([name, list]) => {
+      const courses = new Map<string, StudentRisk[]>();
+      list.forEach((student) => {
+        const courseList = courses.get(student.course.id) ?? [];
+        courseList.push(student);
+        courses.set(student.course.id, courseList);
+      });
+
+      const atRisk = list.filter((student) => student.level !== "LOW");
+      return {
+        department: name,
+        courses: courses.size,
+        students: list.length,
+        high: count(list, "HIGH"),
+        moderate: count(list, "MODERATE"),
+        topCourses: [...courses.values()]
+          .map((courseList) => ({
+            ...courseList[0].course,
+            facultyName: courseList[0].faculty?.name ?? null,
+            atRisk: courseList.filter((s) => s.level !== "LOW").length,
+            students: courseList.length,
+          }))
+          .filter((course) => course.atRisk > 0)
+          .sort((a, b) => b.atRisk / b.students - a.atRisk / a.students)
+          .slice(0, 5),
+        topStudents: atRisk.sort(rankByRisk).slice(0, 5),
+      };
+    })
+    .sort((a, b) => b.high - a.high || b.moderate - a.moderate);
+}
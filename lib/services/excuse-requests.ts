@@ -0,0 +1,305 @@
+import { prisma } from "@/lib/prisma";
+import { ExcuseRequestStatus } from "@prisma/client";
+import { recomputeQuizzesForAttendance } from "./quizzes";
+
+export const EXCUSE_BUCKET = process.env.EXCUSE_BUCKET || "excuse-letters";
+const MAX_EXCUSE_DAYS = 31;
+const MAX_ATTACHMENTS = 5;
+const ATTACHMENT_URL_SECONDS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExcuseAttachmentInput {
+  path: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+const requestInclude = {
+  student: {
+    select: { id: true, firstName: true, lastName: true, studentId: true },
+  },
+  attachments: {
+    select: { id: true, fileName: true, contentType: true, size: true },
+    orderBy: { createdAt: "asc" as const },
+  },
+};
+
+// Loaded lazily: the admin client needs the service role key
+async function getExcuseBucket() {
+  const { supabaseAdmin } = await import("@/lib/supabase-admin");
+  return supabaseAdmin.storage.from(EXCUSE_BUCKET);
+}
+
+// Helper: Parse a yyyy-MM-dd date as the UTC midnight attendance is stored at
+function parseExcuseDate(value: unknown, field: string) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`${field} must be a date (yyyy-MM-dd)`);
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${field} must be a date (yyyy-MM-dd)`);
+  }
+  return date;
+}
+
+// Whether a faculty member teaches the student in any course
+export async function isTeachingStudent(facultyId: string, studentId: string) {
+  const course = await prisma.course.findFirst({
+    where: { facultyId, students: { some: { id: studentId } } },
+    select: { id: true },
+  });
+  return !!course;
+}
+
+// List excuse requests, newest first
+export async function getExcuseRequests(
+  filters: {
+    status?: ExcuseRequestStatus;
+    studentId?: string;
+    requestedById?: string;
+  } = {}
+) {
+  return prisma.excuseRequest.findMany({
+    where: {
+      status: filters.status,
+      studentId: filters.studentId,
+      requestedById: filters.requestedById,
+    },
+    include: requestInclude,
+    orderBy: { createdAt: filters.status === "PENDING" ? "asc" : "desc" },
+  });
+}
+
+// File an excuse request with its uploaded documents
+// Documents must have been uploaded by the requester (see /api/upload)
+export async function createExcuseRequest(
+  data: {
+    studentId: string;
+    startDate: string;
+    endDate: string;
+    reason: string;
+    attachments: ExcuseAttachmentInput[];
+  },
+  requestedById: string
+) {
+  const reason = data.reason?.trim();
+  if (!reason) {
+    throw new Error("A reason is required for an excuse request");
+  }
+
+  const startDate = parseExcuseDate(data.startDate, "Start date");
+  const endDate = parseExcuseDate(data.endDate, "End date");
+  if (endDate < startDate) {
+    throw new Error("End date cannot be before the start date");
+  }
+  if (
+    (endDate.getTime() - startDate.getTime()) / DAY_MS + 1 >
+    MAX_EXCUSE_DAYS
+  ) {
+    throw new Error(
+      `An excuse request can cover at most ${MAX_EXCUSE_DAYS} days`
+    );
+  }
+
+  const attachments = Array.isArray(data.attachments) ? data.attachments : [];
+  if (attachments.length === 0) {
+    throw new Error("Attach at least one supporting document");
+  }
+  if (attachments.length > MAX_ATTACHMENTS) {
+    throw new Error(`Attach at most ${MAX_ATTACHMENTS} documents`);
+  }
+  if (
+    attachments.some(
+      (file) =>
+        typeof file.path !== "string" ||
+        !file.path.startsWith(`${requestedById}/`) ||
+        file.path.includes("..")
+    )
+  ) {
+    throw new Error("Invalid attachment");
+  }
+
+  const student = await prisma.student.findUnique({
+    where: { id: data.studentId },
+    select: { id: true },
+  });
+  if (!student) {
+    throw new Error("Student not found");
+  }
+
+  // Dates already covered by a pending or approved request can't be re-filed
+  const overlapping = await prisma.excuseRequest.findFirst({
+    where: {
+      studentId: student.id,
+      status: {
+        in: [ExcuseRequestStatus.PENDING, ExcuseRequestStatus.APPROVED],
+      },
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+    select: { status: true },
+  });
+  if (overlapping) {
+    throw new Error(
+      `An excuse request for these dates is already ${overlapping.status.toLowerCase()}`
+    );
+  }
+
+  return prisma.excuseRequest.create({
+    data: {
+      studentId: student.id,
+      startDate,
+      endDate,
+      reason,
+      requestedById,
+      attachments: {
+        create: attachments.map((file) => ({
+          path: file.path,
+          fileName: String(file.fileName || "document").slice(0, 255),
+          contentType: String(file.contentType || "application/octet-stream"),
+          size: Number(file.size) || 0,
+        })),
+      },
+    },
+    include: requestInclude,
+  });
+}
+
+// Approve (flips the student's ABSENT rows in the range to EXCUSED in every
+// course; LATE rows stay as recorded) or reject a pending request
+export async function reviewExcuseRequest(
+  id: string,
+  decision: "APPROVE" | "REJECT",
+  reviewedById: string,
+  note?: string | null
+) {
+  const request = await prisma.excuseRequest.findUnique({
+    where: { id },
+    include: requestInclude,
+  });
+
+  if (!request) {
+    throw new Error("Excuse request not found");
+  }
+
+  if (request.status !== ExcuseRequestStatus.PENDING) {
+    throw new Error(
+      `Cannot review a request that is already ${request.status.toLowerCase()}`
+    );
+  }
+
+  const reviewNote = note?.trim() || null;
+  if (decision === "REJECT" && !reviewNote) {
+    throw new Error("A reason is required to reject an excuse request");
+  }
+
+  const rangeWhere = {
+    studentId: request.studentId,
+    date: {
+      gte: request.startDate,
+      lt: new Date(request.endDate.getTime() + DAY_MS),
+    },
+    status: "ABSENT" as const,
+  };
+
+  const excused =
+    decision === "APPROVE"
+      ? await prisma.attendance.findMany({
+          where: rangeWhere,
+          select: {
+            id: true,
+            date: true,
+            status: true,
+            course: { select: { id: true, code: true, section: true } },
+          },
+          orderBy: { date: "asc" },
+        })
+      : [];
+
+  const [updated] = await prisma.$transaction([
+    prisma.excuseRequest.update({
+      where: { id },
+      data: {
+        status:
+          decision === "APPROVE"
+            ? ExcuseRequestStatus.APPROVED
+            : ExcuseRequestStatus.REJECTED,
+        reviewedById,
+        reviewedAt: new Date(),
+        reviewNote,
+        excusedCount: decision === "APPROVE" ? excused.length : null,
+      },
+      include: requestInclude,
+    }),
+    prisma.attendance.updateMany({
+      where: {
+        id: { in: excused.map((record) => record.id) },
+        status: "ABSENT",
+      },
+      data: { status: "EXCUSED", reason: request.reason.slice(0, 255) },
+    }),
+  ]);
+
+  const excusedByCourse = new Map<string, Date[]>();
+  excused.forEach((record) => {
+    const dates = excusedByCourse.get(record.course.id) ?? [];
+    dates.push(record.date);
+    excusedByCourse.set(record.course.id, dates);
+  });
+  for (const [courseId, dates] of excusedByCourse) {
+    await recomputeQuizzesForAttendance(courseId, dates);
+  }
+
+  return { request: updated, excused };
+}
+
+// Short-lived link to an attached document
+// Pass requestedById to limit the lookup to requests filed by that user
+export async function getExcuseAttachmentUrl(
+  requestId: string,
+  attachmentId: string,
+  requestedById?: string
+) {
+  const attachment = await prisma.excuseAttachment.findFirst({
+    where: {
+      id: attachmentId,
+      requestId,
+      ...(requestedById ? { request: { requestedById } } : {}),
+    },
+    select: { path: true, fileName: true },
+  });
+
+  if (!attachment) {
+    throw new Error("Attachment not found");
+  }
+
+  const bucket = await getExcuseBucket();
+  const { data, error } = await bucket.createSignedUrl(
+    attachment.path,
+    ATTACHMENT_URL_SECONDS
+  );
+
+  if (error || !data) {
+    throw new Error(`Could not create download link: ${error?.message}`);
+  }
+
+  return data.signedUrl;
+}
+
+// Students with an approved excuse covering the date (for auto-absence)
+export async function getExcusedStudentIds(studentIds: string[], date: Date) {
+  if (studentIds.length === 0) return new Set<string>();
+
+  const excuses = await prisma.excuseRequest.findMany({
+    where: {
+      studentId: { in: studentIds },
+      status: ExcuseRequestStatus.APPROVED,
+      startDate: { lte: date },
+      endDate: { gte: date },
+    },
+    select: { studentId: true },
+  });
+
+  return new Set(excuses.map((excuse) => excuse.studentId));
+}
@@ -0,0 +1,837 @@
+import { createHash } from "crypto";
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import QRCode from "qrcode";
+import { format } from "date-fns";
+import { prisma } from "@/lib/prisma";
+import { getClassRecordData, getCourseTerms } from "./grading";
+import {
+  computeFinalGrade,
+  computeTermGrade,
+  getEffectiveScore,
+  getTermWeights,
+  lookupFromRecord,
+  TermGradeResult,
+} from "./grading-engine";
+import {
+  BuiltExport,
+  formatStudentName,
+  loadCourseInfo,
+  ProgressReporter,
+  rowProgress,
+} from "./export-workbooks";
+
+// Official printable documents for the registrar. All three are built from
+// getClassRecordData, so the grades match the class record screen. Each page
+// carries the school header, page numbers and a QR code for the verification
+// hash; the last page carries the faculty and academic head signature blocks.
+
+export interface ClassRecordPdfOptions {
+  term: string;
+}
+
+export type GradeSheetPdfOptions = Record<string, never>;
+export type AttendanceSummaryPdfOptions = Record<string, never>;
+
+type PdfDocumentType =
+  | "CLASS_RECORD_PDF"
+  | "GRADE_SHEET_PDF"
+  | "ATTENDANCE_SUMMARY_PDF";
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: "left" | "center" | "right";
+}
+
+interface Signatory {
+  label: string;
+  name: string | null;
+  title: string;
+  date: Date | null;
+}
+
+interface PdfDocumentSpec {
+  type: PdfDocumentType;
+  title: string;
+  term: string | null;
+  termLabel: string | null;
+  course: Awaited<ReturnType<typeof loadCourseInfo>>;
+  facultyName: string | null;
+  columns: PdfColumn[];
+  rows: string[][];
+  signatories: Signatory[];
+  issuedAt: Date;
+}
+
+interface PdfFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  mono: PDFFont;
+}
+
+const PDF_CONTENT_TYPE = "application/pdf";
+const SCHOOL_NAME = process.env.SCHOOL_NAME || "STI College Alabang";
+const SCHOOL_ADDRESS = process.env.SCHOOL_ADDRESS || "";
+
+// A4 landscape, in points
+const PAGE_SIZE: [number, number] = [841.89, 595.28];
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_SIZE[0] - MARGIN * 2;
+const FOOTER_HEIGHT = 64;
+const ROW_HEIGHT = 15;
+const SIGNATURE_HEIGHT = 100;
+const QR_SIZE = 52;
+
+const BRAND = rgb(18 / 255, 74 / 255, 105 / 255);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.86, 0.88);
+const STRIPE = rgb(0.97, 0.98, 0.99);
+const WHITE = rgb(1, 1, 1);
+
+// Helper: Standard fonts only encode WinAnsi; anything else throws while drawing
+const pdfText = (text: string) =>
+  text.normalize("NFC").replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+
+// Helper: Shorten text with an ellipsis until it fits the width
+function fitText(text: string, font: PDFFont, size: number, width: number) {
+  let fitted = pdfText(text);
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+  while (
+    fitted.length > 0 &&
+    font.widthOfTextAtSize(`${fitted}...`, size) > width
+  ) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+const formatNumber = (value: number | null | undefined) =>
+  value === null || value === undefined ? "-" : value.toFixed(2);
+
+const formatDate = (date: Date) => format(date, "MMMM d, yyyy");
+
+export function getDocumentVerifyUrl(hash: string) {
+  const baseUrl = (process.env.NEXTAUTH_URL || "").replace(/\/$/, "");
+  return `${baseUrl}/verify/${hash}`;
+}
+
+// Helper: Faculty-in-charge and the academic head who approved the grade sheet.
+// The approval line stays blank until the term's sheet (every term's sheet for
+// whole-course documents) is approved or locked.
+async function loadSignatories(
+  course: { id: string; facultyId: string | null },
+  term: string | null
+) {
+  const [faculty, submissions, terms] = await Promise.all([
+    course.facultyId
+      ? prisma.user.findUnique({
+          where: { id: course.facultyId },
+          select: { name: true },
+        })
+      : null,
+    prisma.gradeSubmission.findMany({
+      where: {
+        courseId: course.id,
+        status: { in: ["APPROVED", "LOCKED"] },
+        reviewedById: { not: null },
+        ...(term && { term }),
+      },
+      select: {
+        term: true,
+        reviewedById: true,
+        reviewedAt: true,
+        submittedAt: true,
+      },
+      orderBy: { reviewedAt: "desc" },
+    }),
+    term ? [term] : getCourseTerms(course.id).then((t) => t.map((d) => d.key)),
+  ]);
+
+  const approvedTerms = new Set(submissions.map((s) => s.term));
+  const submission =
+    terms.length > 0 && terms.every((key) => approvedTerms.has(key))
+      ? submissions[0]
+      : null;
+
+  let headName: string | null = null;
+  if (submission?.reviewedById) {
+    const reviewer = await prisma.user.findUnique({
+      where: { id: submission.reviewedById },
+      select: { name: true },
+    });
+    headName = reviewer?.name ?? null;
+  }
+
+  return {
+    facultyName: faculty?.name ?? null,
+    signatories: [
+      {
+        label: "Prepared by:",
+        name: faculty?.name ?? null,
+        title: "Faculty-in-Charge",
+        date: submission?.submittedAt ?? null,
+      },
+      {
+        label: "Approved by:",
+        name: headName,
+        title: "Academic Head",
+        date: submission?.reviewedAt ?? null,
+      },
+    ] satisfies Signatory[],
+  };
+}
+
+// Helper: Hash of everything printed, so any edit to a copy shows on verification
+function hashDocument(spec: PdfDocumentSpec) {
+  const { course } = spec;
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        type: spec.type,
+        course: [
+          course.code,
+          course.section,
+          course.classNumber,
+          course.semester,
+          course.academicYear,
+        ],
+        term: spec.term,
+        columns: spec.columns.map((c) => c.header),
+        rows: spec.rows,
+        signatories: spec.signatories.map((s) => [
+          s.name,
+          s.date?.toISOString() ?? null,
+        ]),
+        issuedAt: spec.issuedAt.toISOString(),
+      })
+    )
+    .digest("hex");
+}
+
+// Helper: School header and course details; returns the y below them
+function drawHeader(page: PDFPage, fonts: PdfFonts, spec: PdfDocumentSpec) {
+  const { width, height } = page.getSize();
+  let y = height - MARGIN;
+
+  const centered = (
+    text: string,
+    font: PDFFont,
+    size: number,
+    color = rgb(0, 0, 0)
+  ) => {
+    const safe = pdfText(text);
+    page.drawText(safe, {
+      x: (width - font.widthOfTextAtSize(safe, size)) / 2,
+      y,
+      size,
+      font,
+      color,
+    });
+  };
+
+  y -= 12;
+  centered(SCHOOL_NAME.toUpperCase(), fonts.bold, 14, BRAND);
+  if (SCHOOL_ADDRESS) {
+    y -= 12;
+    centered(SCHOOL_ADDRESS, fonts.regular, 8, MUTED);
+  }
+  y -= 18;
+  centered(spec.title, fonts.bold, 12);
+
+  const { course } = spec;
+  const details = [
+    `${course.code} - ${course.title}`,
+    [
+      `Section ${course.section}`,
+      `Class No. ${course.classNumber}`,
+      `${course.semester}, A.Y. ${course.academicYear}`,
+      spec.termLabel,
+    ]
+      .filter(Boolean)
+      .join("  |  "),
+    `Faculty: ${spec.facultyName ?? "-"}`,
+  ];
+  y -= 6;
+  details.forEach((line) => {
+    y -= 12;
+    centered(line, fonts.regular, 9);
+  });
+
+  y -= 8;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: width - MARGIN, y },
+    thickness: 1,
+    color: BRAND,
+  });
+  return y - 10;
+}
+
+// Helper: One table row; header rows are white on the brand colour
+function drawRow(
+  page: PDFPage,
+  fonts: PdfFonts,
+  columns: PdfColumn[],
+  cells: string[],
+  y: number,
+  options: { header?: boolean; striped?: boolean } = {}
+) {
+  const height = options.header ? ROW_HEIGHT + 4 : ROW_HEIGHT;
+  if (options.header || options.striped) {
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - height,
+      width: CONTENT_WIDTH,
+      height,
+      color: options.header ? BRAND : STRIPE,
+    });
+  }
+
+  const font = options.header ? fonts.bold : fonts.regular;
+  const size = options.header ? 7.5 : 8;
+  let x = MARGIN;
+  columns.forEach((column, index) => {
+    const text = fitText(cells[index] ?? "", font, size, column.width - 6);
+    const textWidth = font.widthOfTextAtSize(text, size);
+    const align = options.header ? "center" : column.align ?? "center";
+    const textX =
+      align === "left"
+        ? x + 3
+        : align === "right"
+        ? x + column.width - 3 - textWidth
+        : x + (column.width - textWidth) / 2;
+    page.drawText(text, {
+      x: textX,
+      y: y - height + (height - size) / 2 + 1,
+      size,
+      font,
+      color: options.header ? WHITE : rgb(0, 0, 0),
+    });
+    x += column.width;
+  });
+
+  page.drawLine({
+    start: { x: MARGIN, y: y - height },
+    end: { x: MARGIN + CONTENT_WIDTH, y: y - height },
+    thickness: 0.5,
+    color: RULE,
+  });
+  return y - height;
+}
+
+// Helper: Signature lines side by side
+function drawSignatures(
+  page: PDFPage,
+  fonts: PdfFonts,
+  signatories: Signatory[],
+  top: number
+) {
+  const blockWidth = CONTENT_WIDTH / signatories.length;
+  const lineWidth = Math.min(220, blockWidth - 40);
+
+  signatories.forEach((signatory, index) => {
+    const center = MARGIN + blockWidth * index + blockWidth / 2;
+    const left = center - lineWidth / 2;
+    const lineY = top - 52;
+
+    page.drawText(pdfText(signatory.label), {
+      x: left,
+      y: top - 14,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED,
+    });
+    if (signatory.name) {
+      const name = fitText(
+        signatory.name.toUpperCase(),
+        fonts.bold,
+        9,
+        lineWidth
+      );
+      page.drawText(name, {
+        x: center - fonts.bold.widthOfTextAtSize(name, 9) / 2,
+        y: lineY + 4,
+        size: 9,
+        font: fonts.bold,
+      });
+    }
+    page.drawLine({
+      start: { x: left, y: lineY },
+      end: { x: left + lineWidth, y: lineY },
+      thickness: 0.75,
+    });
+    page.drawText(signatory.title, {
+      x: center - fonts.regular.widthOfTextAtSize(signatory.title, 8) / 2,
+      y: lineY - 11,
+      size: 8,
+      font: fonts.regular,
+    });
+    const date = `Date: ${
+      signatory.date ? formatDate(signatory.date) : "____________________"
+    }`;
+    page.drawText(date, {
+      x: center - fonts.regular.widthOfTextAtSize(date, 8) / 2,
+      y: lineY - 24,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED,
+    });
+  });
+}
+
+// Helper: Paginate the table, then stamp page numbers and the verification QR
+async function renderPdf(
+  spec: PdfDocumentSpec,
+  hash: string,
+  report: ProgressReporter
+) {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${spec.title} - ${spec.course.code} ${spec.course.section}`);
+  doc.setAuthor(SCHOOL_NAME);
+  doc.setSubject(`Verification hash ${hash}`);
+  doc.setCreationDate(spec.issuedAt);
+
+  const fonts: PdfFonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    mono: await doc.embedFont(StandardFonts.Courier),
+  };
+  const verifyUrl = getDocumentVerifyUrl(hash);
+  const qr = await doc.embedPng(
+    await QRCode.toBuffer(verifyUrl, { type: "png", margin: 0, width: 160 })
+  );
+
+  const bottom = MARGIN + FOOTER_HEIGHT;
+  const newPage = () => {
+    const page = doc.addPage(PAGE_SIZE);
+    const y = drawHeader(page, fonts, spec);
+    return { page, y };
+  };
+
+  let { page, y } = newPage();
+  y = drawRow(
+    page,
+    fonts,
+    spec.columns,
+    spec.columns.map((c) => c.header),
+    y,
+    { header: true }
+  );
+
+  const progress = rowProgress(spec.rows.length, report, 30, 85);
+  for (const [index, row] of spec.rows.entries()) {
+    if (y - ROW_HEIGHT < bottom) {
+      ({ page, y } = newPage());
+      y = drawRow(
+        page,
+        fonts,
+        spec.columns,
+        spec.columns.map((c) => c.header),
+        y,
+        { header: true }
+      );
+    }
+    y = drawRow(page, fonts, spec.columns, row, y, {
+      striped: index % 2 === 1,
+    });
+    await progress(index);
+  }
+
+  if (y - SIGNATURE_HEIGHT - 12 < bottom) {
+    ({ page, y } = newPage());
+  }
+  drawSignatures(page, fonts, spec.signatories, y - 12);
+
+  const pages = doc.getPages();
+  pages.forEach((current, index) => {
+    const { width } = current.getSize();
+    const footerTop = MARGIN + FOOTER_HEIGHT - 8;
+    current.drawLine({
+      start: { x: MARGIN, y: footerTop },
+      end: { x: width - MARGIN, y: footerTop },
+      thickness: 0.5,
+      color: RULE,
+    });
+
+    current.drawText(`Page ${index + 1} of ${pages.length}`, {
+      x: MARGIN,
+      y: footerTop - 14,
+      size: 8,
+      font: fonts.bold,
+    });
+    current.drawText(
+      `Generated ${format(spec.issuedAt, "MMMM d, yyyy h:mm a")}`,
+      {
+        x: MARGIN,
+        y: footerTop - 26,
+        size: 7.5,
+        font: fonts.regular,
+        color: MUTED,
+      }
+    );
+    current.drawText(`Verification: ${hash}`, {
+      x: MARGIN,
+      y: footerTop - 38,
+      size: 7,
+      font: fonts.mono,
+      color: MUTED,
+    });
+    current.drawText(
+      fitText(
+        `Scan the code or visit ${verifyUrl} to verify this document`,
+        fonts.regular,
+        7,
+        CONTENT_WIDTH - QR_SIZE - 12
+      ),
+      {
+        x: MARGIN,
+        y: footerTop - 50,
+        size: 7,
+        font: fonts.regular,
+        color: MUTED,
+      }
+    );
+    current.drawImage(qr, {
+      x: width - MARGIN - QR_SIZE,
+      y: MARGIN,
+      width: QR_SIZE,
+      height: QR_SIZE,
+    });
+  });
+
+  return Buffer.from(await doc.save());
+}
+
+// Helper: Render a spec into an export with its verification record
+async function buildPdfExport(
+  spec: PdfDocumentSpec,
+  fileName: string,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const hash = hashDocument(spec);
+  const buffer = await renderPdf(spec, hash, report);
+
+  return {
+    buffer,
+    fileName,
+    recordCount: spec.rows.length,
+    contentType: PDF_CONTENT_TYPE,
+    verification: {
+      hash,
+      title: spec.title,
+      term: spec.term,
+      // What was printed, so the verification page can show it back
+      summary: {
+        course: {
+          code: spec.course.code,
+          title: spec.course.title,
+          section: spec.course.section,
+          semester: spec.course.semester,
+          academicYear: spec.course.academicYear,
+        },
+        termLabel: spec.termLabel,
+        faculty: spec.facultyName,
+        columns: spec.columns.map((c) => c.header),
+        rows: spec.rows,
+        signatories: spec.signatories.map((s) => ({
+          title: s.title,
+          name: s.name,
+          date: s.date?.toISOString() ?? null,
+        })),
+        issuedAt: spec.issuedAt.toISOString(),
+      },
+    },
+  };
+}
+
+// Helper: Number, student ID and name columns shared by every document
+function studentColumns(nameWidth: number): PdfColumn[] {
+  return [
+    { header: "NO.", width: 26 },
+    { header: "STUDENT ID", width: 74 },
+    { header: "NAME", width: nameWidth, align: "left" },
+  ];
+}
+
+async function loadRecordData(courseSlug: string) {
+  const [course, data] = await Promise.all([
+    loadCourseInfo(courseSlug),
+    getClassRecordData(courseSlug),
+  ]);
+  if (!data) {
+    throw new Error("Course not found");
+  }
+  return { course, data };
+}
+
+// Per-term class record: score breakdown, weighted components and term grade
+export async function buildClassRecordPdf(
+  courseSlug: string,
+  options: ClassRecordPdfOptions,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const { course, data } = await loadRecordData(courseSlug);
+  const term = data.terms.find((t) => t.key === options.term);
+  const config = data.termConfigs[options.term];
+  if (!term || !config) {
+    throw new Error(`No configuration found for ${options.term}`);
+  }
+  const { facultyName, signatories } = await loadSignatories(course, term.key);
+  await report(20);
+
+  const lookup = lookupFromRecord(data.assessmentScores);
+  const typeOrder = ["PT", "QUIZ", "EXAM"];
+  const assessments = config.assessments
+    .filter((a: any) => a.enabled)
+    .sort(
+      (a: any, b: any) =>
+        typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) ||
+        a.order - b.order
+    );
+
+  const summaryColumns: PdfColumn[] = [
+    { header: `PT (${config.ptWeight}%)`, width: 50 },
+    { header: `QUIZ (${config.quizWeight}%)`, width: 50 },
+    { header: `EXAM (${config.examWeight}%)`, width: 50 },
+    { header: "TOTAL %", width: 46 },
+    { header: "GRADE", width: 44 },
+    { header: "REMARKS", width: 54 },
+  ];
+  const fixedWidth = [...studentColumns(170), ...summaryColumns].reduce(
+    (sum, c) => sum + c.width,
+    0
+  );
+  // Individual scores only when they stay legible; the weighted columns always print
+  const assessmentWidth = Math.min(
+    46,
+    (CONTENT_WIDTH - fixedWidth) / Math.max(assessments.length, 1)
+  );
+  const showScores = assessments.length > 0 && assessmentWidth >= 28;
+  const scoreColumns: PdfColumn[] = showScores
+    ? assessments.map((a: any) => ({
+        header: `${a.name} (${a.maxScore})`,
+        width: assessmentWidth,
+      }))
+    : [];
+  const usedWidth =
+    fixedWidth + scoreColumns.reduce((sum, c) => sum + c.width, 0);
+  const columns = [
+    ...studentColumns(170 + CONTENT_WIDTH - usedWidth),
+    ...scoreColumns,
+    ...summaryColumns,
+  ];
+
+  const rows = data.students.map((student, index) => {
+    const result = computeTermGrade(
+      config,
+      student.id,
+      lookup,
+      data.criteriaMetadata,
+      data.gradingScale
+    );
+    return [
+      String(index + 1),
+      student.studentId ?? "",
+      formatStudentName(student),
+      ...(showScores
+        ? assessments.map((a: any) => {
+            const score = getEffectiveScore(
+              student.id,
+              a,
+              lookup,
+              data.criteriaMetadata
+            );
+            return score === null ? "-" : String(score);
+          })
+        : []),
+      formatNumber(result.ptWeighted),
+      formatNumber(result.quizWeighted),
+      formatNumber(result.examWeighted),
+      formatNumber(result.totalPercent),
+      result.gradeLabel ?? "-",
+      result.remarks ?? "-",
+    ];
+  });
+
+  return buildPdfExport(
+    {
+      type: "CLASS_RECORD_PDF",
+      title: "OFFICIAL CLASS RECORD",
+      term: term.key,
+      termLabel: term.label,
+      course,
+      facultyName,
+      columns,
+      rows,
+      signatories,
+      issuedAt: new Date(),
+    },
+    `${course.code}_${course.section}_ClassRecord_${term.key}.pdf`,
+    report
+  );
+}
+
+// Final grade sheet: every term's grade and the weighted final grade
+export async function buildGradeSheetPdf(
+  courseSlug: string,
+  _options: GradeSheetPdfOptions,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const { course, data } = await loadRecordData(courseSlug);
+  const { facultyName, signatories } = await loadSignatories(course, null);
+  await report(20);
+
+  const lookup = lookupFromRecord(data.assessmentScores);
+  const termWeights = getTermWeights(data.terms);
+
+  const termColumns: PdfColumn[] = data.terms.map((term) => ({
+    header: `${term.label.toUpperCase()} (${term.weight}%)`,
+    width: 64,
+  }));
+  const finalColumns: PdfColumn[] = [
+    { header: "FINAL %", width: 52 },
+    { header: "FINAL GRADE", width: 60 },
+    { header: "REMARKS", width: 60 },
+  ];
+  const usedWidth = [...studentColumns(0), ...termColumns, ...finalColumns]
+    .map((c) => c.width)
+    .reduce((sum, width) => sum + width, 0);
+  const columns = [
+    ...studentColumns(CONTENT_WIDTH - usedWidth),
+    ...termColumns,
+    ...finalColumns,
+  ];
+
+  const rows = data.students.map((student, index) => {
+    const termResults: Record<string, TermGradeResult> = {};
+    data.terms.forEach((term) => {
+      const config = data.termConfigs[term.key];
+      if (config) {
+        termResults[term.key] = computeTermGrade(
+          config,
+          student.id,
+          lookup,
+          data.criteriaMetadata,
+          data.gradingScale
+        );
+      }
+    });
+    const final = computeFinalGrade(
+      termResults,
+      termWeights,
+      data.gradingScale
+    );
+
+    return [
+      String(index + 1),
+      student.studentId ?? "",
+      formatStudentName(student),
+      ...data.terms.map((term) => termResults[term.key]?.gradeLabel ?? "-"),
+      formatNumber(final?.percentage),
+      final?.label ?? "INC",
+      final?.remarks ?? "INCOMPLETE",
+    ];
+  });
+
+  return buildPdfExport(
+    {
+      type: "GRADE_SHEET_PDF",
+      title: "FINAL GRADE SHEET",
+      term: null,
+      termLabel: null,
+      course,
+      facultyName,
+      columns,
+      rows,
+      signatories,
+      issuedAt: new Date(),
+    },
+    `${course.code}_${course.section}_GradeSheet.pdf`,
+    report
+  );
+}
+
+// Per-student attendance totals over every recorded class meeting
+export async function buildAttendanceSummaryPdf(
+  courseSlug: string,
+  _options: AttendanceSummaryPdfOptions,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const { course, data } = await loadRecordData(courseSlug);
+  const { facultyName, signatories } = await loadSignatories(course, null);
+  const records = await prisma.attendance.findMany({
+    where: { courseId: course.id },
+    select: { studentId: true, status: true, date: true },
+    orderBy: { date: "asc" },
+  });
+  await report(20);
+
+  const tallies = new Map<string, Record<string, number>>();
+  records.forEach((record) => {
+    const tally = tallies.get(record.studentId) ?? {};
+    tally[record.status] = (tally[record.status] ?? 0) + 1;
+    tallies.set(record.studentId, tally);
+  });
+
+  const countColumns: PdfColumn[] = [
+    "PRESENT",
+    "LATE",
+    "EXCUSED",
+    "ABSENT",
+    "TOTAL",
+    "ATTENDED %",
+  ].map((header) => ({ header, width: 62 }));
+  const usedWidth = [...studentColumns(0), ...countColumns]
+    .map((c) => c.width)
+    .reduce((sum, width) => sum + width, 0);
+  const columns = [
+    ...studentColumns(CONTENT_WIDTH - usedWidth),
+    ...countColumns,
+  ];
+
+  const rows = data.students.map((student, index) => {
+    const tally = tallies.get(student.id) ?? {};
+    const present = tally.PRESENT ?? 0;
+    const late = tally.LATE ?? 0;
+    const excused = tally.EXCUSED ?? 0;
+    const absent = tally.ABSENT ?? 0;
+    const total = present + late + excused + absent;
+    return [
+      String(index + 1),
+      student.studentId ?? "",
+      formatStudentName(student),
+      String(present),
+      String(late),
+      String(excused),
+      String(absent),
+      String(total),
+      total > 0
+        ? `${Math.round(((present + late + excused) / total) * 100)}%`
+        : "-",
+    ];
+  });
+
+  const first = records[0]?.date;
+  const last = records[records.length - 1]?.date;
+  const period =
+    first && last
+      ? `${format(first, "MMM d, yyyy")} - ${format(last, "MMM d, yyyy")}`
+      : null;
+
+  return buildPdfExport(
+    {
+      type: "ATTENDANCE_SUMMARY_PDF",
+      title: "ATTENDANCE SUMMARY",
+      term: null,
+      termLabel: period,
+      course,
+      facultyName,
+      columns,
+      rows,
+      signatories,
+      issuedAt: new Date(),
+    },
+    `${course.code}_${course.section}_AttendanceSummary.pdf`,
+    report
+  );
+}
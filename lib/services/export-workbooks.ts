@@ -0,0 +1,674 @@
+import ExcelJS from "exceljs";
+import { prisma } from "@/lib/prisma";
+import { computeCourseGrades } from "./grading";
+import { getGrades } from "./grades";
+import {
+  formatScaleGrade,
+  getEffectiveScore,
+  lookupFromRecord,
+  transmuteScore,
+  TermGradeResult,
+} from "./grading-engine";
+
+// Workbook builders behind the export job queue. Grades come from the same
+// grading engine the term-grades API uses, so exported numbers match the server.
+
+export interface CourseGradesExportOptions {
+  includeStudentId?: boolean;
+  includeFullName?: boolean;
+  // "ALL" exports every attendance date; otherwise YYYY-MM-DD dates
+  attendanceDates?: string[] | "ALL";
+  detailedTerms?: string[];
+  summaryTerms?: string[];
+}
+
+export interface ClassRecordExportOptions {
+  // A term key, or SUMMARY for every term's grade
+  term: string;
+  exportType: "summary" | "details";
+}
+
+export interface CriteriaReportExportOptions {
+  criteriaId: string;
+  date: string;
+  groupId?: string;
+}
+
+export interface BuiltExport {
+  buffer: Buffer;
+  fileName: string;
+  recordCount: number;
+  // Defaults to an .xlsx workbook
+  contentType?: string;
+  // Set for official documents, recorded so a printed copy can be verified
+  verification?: DocumentVerification;
+}
+
+export interface DocumentVerification {
+  hash: string;
+  title: string;
+  term: string | null;
+  summary: Record<string, unknown>;
+}
+
+export type ProgressReporter = (progress: number) => Promise<void>;
+
+const BRAND = "FF124A69";
+const thinBorder = (argb = "FF000000") => ({
+  top: { style: "thin" as const, color: { argb } },
+  left: { style: "thin" as const, color: { argb } },
+  bottom: { style: "thin" as const, color: { argb } },
+  right: { style: "thin" as const, color: { argb } },
+});
+
+// Helper: "DELA CRUZ, JUAN" (class record) or "DELA CRUZ, Juan P." (grade sheet)
+export function formatStudentName(
+  student: {
+    lastName: string;
+    firstName: string;
+    middleInitial?: string | null;
+  },
+  upperCase = false
+) {
+  const name = `${student.lastName.toUpperCase()}, ${student.firstName}${
+    !upperCase && student.middleInitial ? ` ${student.middleInitial}.` : ""
+  }`;
+  return upperCase ? name.toUpperCase() : name;
+}
+
+// Helper: Report progress once per ~10% of rows instead of per row
+export function rowProgress(
+  total: number,
+  report: ProgressReporter,
+  from: number,
+  to: number
+) {
+  const step = Math.max(1, Math.ceil(total / 10));
+  return async (index: number) => {
+    if ((index + 1) % step === 0 || index === total - 1) {
+      await report(Math.round(from + ((index + 1) / total) * (to - from)));
+    }
+  };
+}
+
+// Helper: Score cell text, showing the transmuted score when it applies
+function formatScoreCell(
+  rawScore: number | null,
+  maxScore: number,
+  transmutationBase: number
+) {
+  if (rawScore === null) return "";
+  const transmuted = transmuteScore(rawScore, maxScore, transmutationBase);
+  const baseThreshold =
+    transmutationBase > 0 ? (transmutationBase / 100) * maxScore : null;
+  return transmuted !== null &&
+    baseThreshold !== null &&
+    rawScore < baseThreshold
+    ? `${rawScore} (${transmuted})`
+    : rawScore;
+}
+
+export async function loadCourseInfo(courseSlug: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      code: true,
+      title: true,
+      section: true,
+      room: true,
+      semester: true,
+      academicYear: true,
+      classNumber: true,
+      facultyId: true,
+    },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  return course;
+}
+
+async function loadComputedGrades(courseSlug: string) {
+  const computed = await computeCourseGrades(courseSlug);
+  if (!computed) {
+    throw new Error("Course not found");
+  }
+  return computed;
+}
+
+// Grade sheet with attendance by day and per-term detailed/summary columns
+export async function buildCourseGradesWorkbook(
+  courseSlug: string,
+  options: CourseGradesExportOptions,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const [course, computed] = await Promise.all([
+    loadCourseInfo(courseSlug),
+    loadComputedGrades(courseSlug),
+  ]);
+  const lookup = lookupFromRecord(computed.scoresMap);
+
+  const attendance = await prisma.attendance.findMany({
+    where: { courseId: course.id },
+    select: { studentId: true, date: true, status: true },
+  });
+  const attendanceByKey = new Map(
+    attendance.map((a) => [
+      `${a.studentId}:${a.date.toISOString().split("T")[0]}`,
+      a.status,
+    ])
+  );
+  const allDates = Array.from(
+    new Set(attendance.map((a) => a.date.toISOString().split("T")[0]))
+  ).sort();
+  const dates =
+    options.attendanceDates === "ALL"
+      ? allDates
+      : (options.attendanceDates || []).filter((d) => allDates.includes(d));
+
+  await report(20);
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("Student Grades");
+
+  worksheet.mergeCells("A1:F1");
+  const titleCell = worksheet.getCell("A1");
+  titleCell.value = `${course.code} - ${course.title}`;
+  titleCell.font = { bold: true, size: 18, color: { argb: "FFFFFFFF" } };
+  titleCell.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: BRAND },
+  };
+  titleCell.alignment = { vertical: "middle", horizontal: "center" };
+  worksheet.getRow(1).height = 35;
+
+  worksheet.mergeCells("A2:F2");
+  const infoCell = worksheet.getCell("A2");
+  infoCell.value = `Section ${course.section} • Room ${course.room} • ${course.semester} • ${course.academicYear}`;
+  infoCell.alignment = { vertical: "middle", horizontal: "center" };
+
+  worksheet.mergeCells("A3:F3");
+  const dateCell = worksheet.getCell("A3");
+  dateCell.value = `Generated: ${new Date().toLocaleString()} | Total Students: ${
+    computed.students.length
+  }`;
+  dateCell.font = { italic: true, size: 10, color: { argb: "FF666666" } };
+  dateCell.alignment = { vertical: "middle", horizontal: "center" };
+
+  worksheet.addRow([]);
+
+  // Columns are resolved once, then filled per student in the same order
+  type Column = {
+    header: string;
+    width: number;
+    value: (studentId: string) => ExcelJS.CellValue;
+    numFmt?: string;
+  };
+  const columns: Column[] = [];
+  const students = new Map(computed.students.map((s) => [s.id, s]));
+
+  if (options.includeStudentId !== false) {
+    columns.push({
+      header: "STUDENT ID",
+      width: 16,
+      value: (id) => students.get(id)?.studentId ?? "",
+    });
+  }
+  if (options.includeFullName !== false) {
+    columns.push({
+      header: "FULL NAME",
+      width: 35,
+      value: (id) => formatStudentName(students.get(id)!),
+    });
+  }
+  dates.forEach((date) => {
+    columns.push({
+      header: date,
+      width: 14,
+      value: (id) => attendanceByKey.get(`${id}:${date}`) ?? "—",
+    });
+  });
+
+  computed.terms.forEach((term) => {
+    const termConfig = computed.termConfigs.find((c) => c.term === term.key);
+    if (!termConfig) return;
+    const label = term.label.toUpperCase();
+
+    if (options.detailedTerms?.includes(term.key)) {
+      const assessments = termConfig.assessments
+        .filter((a: any) => a.enabled)
+        .sort(
+          (a: any, b: any) =>
+            ["PT", "QUIZ", "EXAM"].indexOf(a.type) -
+              ["PT", "QUIZ", "EXAM"].indexOf(b.type) || a.order - b.order
+        );
+      assessments.forEach((assessment: any) => {
+        columns.push({
+          header: `${label}\n${assessment.name}`,
+          width: 14,
+          value: (id) => {
+            const score = getEffectiveScore(
+              id,
+              assessment,
+              lookup,
+              computed.criteriaMetadata
+            );
+            return score === null ? "—" : `${score} / ${assessment.maxScore}`;
+          },
+        });
+      });
+    }
+
+    if (options.summaryTerms?.includes(term.key)) {
+      const result = (id: string): TermGradeResult | undefined =>
+        computed.grades[id]?.terms[term.key];
+      columns.push(
+        {
+          header: `${label}\nFinal %`,
+          width: 13,
+          numFmt: "0.00%",
+          value: (id) => {
+            const total = result(id)?.totalPercent;
+            return total === null || total === undefined ? "—" : total / 100;
+          },
+        },
+        {
+          header: `${label}\nGrade`,
+          width: 12,
+          value: (id) => {
+            const r = result(id);
+            return r?.numericGrade === null ||
+              r?.numericGrade === undefined ||
+              r.totalPercent === null
+              ? "—"
+              : formatScaleGrade(
+                  r.numericGrade,
+                  r.totalPercent,
+                  computed.gradingScale
+                );
+          },
+        },
+        {
+          header: `${label}\nRemarks`,
+          width: 14,
+          value: (id) => result(id)?.remarks ?? "—",
+        }
+      );
+    }
+  });
+
+  const headerRow = worksheet.getRow(5);
+  columns.forEach((column, index) => {
+    const cell = headerRow.getCell(index + 1);
+    cell.value = column.header;
+    cell.font = { bold: true, size: 13, color: { argb: "FFFFFFFF" } };
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: BRAND } };
+    cell.alignment = {
+      vertical: "middle",
+      horizontal: "center",
+      wrapText: true,
+    };
+    worksheet.getColumn(index + 1).width = column.width;
+  });
+  headerRow.height = 40;
+
+  const progress = rowProgress(computed.students.length, report, 20, 90);
+  for (const [index, student] of computed.students.entries()) {
+    const row = worksheet.getRow(6 + index);
+    columns.forEach((column, colIndex) => {
+      const cell = row.getCell(colIndex + 1);
+      const value = column.value(student.id);
+      cell.value = value;
+      if (column.numFmt && typeof value === "number") {
+        cell.numFmt = column.numFmt;
+      }
+      if (value === "PASSED" || value === "PRESENT") {
+        cell.font = { bold: true, color: { argb: "FF059669" } };
+      } else if (value === "FAILED" || value === "ABSENT") {
+        cell.font = { bold: true, color: { argb: "FFDC2626" } };
+      } else if (value === "LATE") {
+        cell.font = { bold: true, color: { argb: "FFD97706" } };
+      }
+      cell.alignment = {
+        vertical: "middle",
+        horizontal: colIndex < 2 ? "left" : "center",
+      };
+      cell.border = thinBorder("FFE5E7EB");
+      if (index % 2 === 1) {
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFF8FAFC" },
+        };
+      }
+    });
+    row.height = 28;
+    await progress(index);
+  }
+
+  worksheet.views = [
+    {
+      state: "frozen",
+      xSplit: options.includeStudentId !== false ? 1 : 0,
+      ySplit: 5,
+    },
+  ];
+
+  return {
+    buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+    fileName: `${course.code}_GradeSheet_${
+      new Date().toISOString().split("T")[0]
+    }.xlsx`,
+    recordCount: computed.students.length,
+  };
+}
+
+// Class record: every term's grade (summary) or one term's score breakdown (details)
+export async function buildClassRecordWorkbook(
+  courseSlug: string,
+  options: ClassRecordExportOptions,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const [course, computed] = await Promise.all([
+    loadCourseInfo(courseSlug),
+    loadComputedGrades(courseSlug),
+  ]);
+  await report(20);
+
+  const workbook = new ExcelJS.Workbook();
+  const ws = workbook.addWorksheet("Class Record");
+  const progress = rowProgress(computed.students.length, report, 20, 90);
+
+  if (options.exportType === "summary") {
+    ws.getCell("A1").value = `Subject Name: ${course.title}`;
+    ws.getCell("A2").value = `Class number: ${course.classNumber}`;
+    ws.getCell("A3").value = `Class Section: ${course.section}`;
+
+    const headerRow = ws.addRow([
+      "",
+      "",
+      ...computed.terms.map((term) => `${term.label} Grade`),
+    ]);
+    headerRow.height = 25;
+    headerRow.eachCell((cell, col) => {
+      cell.border = thinBorder();
+      cell.alignment = {
+        vertical: "middle",
+        horizontal: col >= 3 ? "center" : "left",
+      };
+      cell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFD9D9D9" },
+      };
+    });
+
+    for (const [index, student] of computed.students.entries()) {
+      const row = ws.addRow([
+        student.studentId ?? "",
+        formatStudentName(student, true),
+        ...computed.terms.map((term) => {
+          const total =
+            computed.grades[student.id]?.terms[term.key]?.totalPercent;
+          return total === null || total === undefined ? "" : total;
+        }),
+      ]);
+      row.eachCell((cell, col) => {
+        cell.border = thinBorder();
+        cell.alignment = {
+          vertical: "middle",
+          horizontal: col <= 2 ? "left" : "right",
+        };
+      });
+      await progress(index);
+    }
+
+    ws.getColumn(1).width = 16;
+    ws.getColumn(2).width = 30;
+    computed.terms.forEach((_, index) => {
+      ws.getColumn(index + 3).width = 15;
+    });
+    ws.views = [{ state: "frozen", ySplit: 4 }];
+
+    return {
+      buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+      fileName: `${course.code}_${course.section}_ClassRecord_Summary.xlsx`,
+      recordCount: computed.students.length,
+    };
+  }
+
+  // Details of one term; SUMMARY falls back to the course's first term
+  const termKey =
+    options.term === "SUMMARY" ? computed.terms[0]?.key : options.term;
+  const config = computed.termConfigs.find((c) => c.term === termKey);
+  if (!termKey || !config) {
+    throw new Error(`No configuration found for ${options.term}`);
+  }
+
+  const lookup = lookupFromRecord(computed.scoresMap);
+  const byType = (type: string) =>
+    config.assessments
+      .filter((a: any) => a.type === type && a.enabled)
+      .sort((a: any, b: any) => a.order - b.order);
+  const pts = byType("PT");
+  const quizzes = byType("QUIZ");
+  const exam = byType("EXAM")[0];
+
+  const headers: string[] = ["Student ID", "Name"];
+  pts.forEach((pt: any) => headers.push(pt.name));
+  headers.push("PT Weighted");
+  quizzes.forEach((quiz: any) => headers.push(quiz.name));
+  headers.push("Quiz Weighted");
+  if (exam) headers.push(exam.name, "Exam Weighted");
+  headers.push("Total %", "Numeric Grade");
+
+  const lastColumn = ws.getColumn(headers.length).letter;
+  const banner = (rowNumber: number, value: string) => {
+    ws.mergeCells(`A${rowNumber}:${lastColumn}${rowNumber}`);
+    const cell = ws.getCell(`A${rowNumber}`);
+    cell.value = value;
+    cell.alignment = { vertical: "middle", horizontal: "center" };
+    return cell;
+  };
+
+  const title = banner(1, "CLASS RECORD DATA");
+  title.font = { bold: true, size: 16, color: { argb: "FFFFFFFF" } };
+  title.fill = { type: "pattern", pattern: "solid", fgColor: { argb: BRAND } };
+  ws.getRow(1).height = 30;
+  banner(
+    2,
+    `${course.title} - ${course.section} | Class Number: ${course.classNumber} | Term: ${termKey}`
+  ).font = { italic: true, size: 11 };
+  banner(3, `Export Date: ${new Date().toLocaleDateString()}`).font = {
+    italic: true,
+    size: 11,
+  };
+  ws.addRow([]);
+
+  const headerRow = ws.addRow(headers);
+  headerRow.height = 25;
+  headerRow.eachCell((cell) => {
+    cell.font = { bold: true, color: { argb: "FFFFFFFF" } };
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: BRAND } };
+    cell.alignment = { vertical: "middle", horizontal: "center" };
+    cell.border = thinBorder();
+  });
+
+  const score = (studentId: string, assessment: any) =>
+    formatScoreCell(
+      getEffectiveScore(
+        studentId,
+        assessment,
+        lookup,
+        computed.criteriaMetadata
+      ),
+      assessment.maxScore,
+      assessment.transmutationBase ?? 0
+    );
+  const orBlank = (value: number | null | undefined) =>
+    value === null || value === undefined ? "" : value;
+
+  for (const [index, student] of computed.students.entries()) {
+    const result = computed.grades[student.id]?.terms[termKey];
+    const rowData: ExcelJS.CellValue[] = [
+      student.studentId ?? "",
+      formatStudentName(student, true),
+      ...pts.map((pt: any) => score(student.id, pt)),
+      orBlank(result?.ptWeighted),
+      ...quizzes.map((quiz: any) => score(student.id, quiz)),
+      orBlank(result?.quizWeighted),
+    ];
+    if (exam) {
+      rowData.push(score(student.id, exam), orBlank(result?.examWeighted));
+    }
+    rowData.push(
+      orBlank(result?.totalPercent),
+      result?.numericGrade !== null &&
+        result?.numericGrade !== undefined &&
+        result.totalPercent !== null
+        ? formatScaleGrade(
+            result.numericGrade,
+            result.totalPercent,
+            computed.gradingScale
+          )
+        : ""
+    );
+
+    const row = ws.addRow(rowData);
+    row.eachCell((cell) => {
+      cell.border = thinBorder("FFD3D3D3");
+      cell.alignment = { vertical: "middle" };
+    });
+    if (row.number % 2 === 0) {
+      row.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFF9FAFB" },
+      };
+    }
+    await progress(index);
+  }
+
+  ws.columns = headers.map((_, index) => ({
+    width: index === 0 ? 16 : index === 1 ? 30 : 12,
+  }));
+
+  return {
+    buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+    fileName: `${course.code}_${course.section}_ClassRecord_${termKey}_Details.xlsx`,
+    recordCount: computed.students.length,
+  };
+}
+
+// Reporting/recitation/group criteria grades for one date
+export async function buildCriteriaReportWorkbook(
+  courseSlug: string,
+  options: CriteriaReportExportOptions,
+  report: ProgressReporter
+): Promise<BuiltExport> {
+  const course = await loadCourseInfo(courseSlug);
+  const criteria = await prisma.criteria.findFirst({
+    where: { id: options.criteriaId, courseId: course.id },
+    include: { rubrics: { orderBy: { createdAt: "asc" } } },
+  });
+  if (!criteria) {
+    throw new Error("Criteria not found");
+  }
+
+  const [students, grades] = await Promise.all([
+    options.groupId
+      ? prisma.student.findMany({
+          where: { groups: { some: { id: options.groupId } } },
+          orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+        })
+      : prisma.student.findMany({
+          where: { coursesEnrolled: { some: { id: course.id } } },
+          orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+        }),
+    getGrades(courseSlug, {
+      date: options.date,
+      criteriaId: criteria.id,
+      groupId: options.groupId,
+    }),
+  ]);
+  const gradesByStudent = new Map(grades.map((g) => [g.studentId, g]));
+  await report(30);
+
+  const reportKind = criteria.isRecitationCriteria ? "Recitation" : "Grading";
+  const workbook = new ExcelJS.Workbook();
+  const ws = workbook.addWorksheet("Grades");
+
+  const headers = [
+    "Student Name",
+    ...criteria.rubrics.map((r) => `${r.name} (${r.percentage}%)`),
+    "Total Grade",
+    "Remarks",
+  ];
+  const lastColumn = ws.getColumn(headers.length).letter;
+
+  ws.mergeCells(`A1:${lastColumn}1`);
+  const title = ws.getCell("A1");
+  title.value = `${course.code} - ${
+    course.section
+  } ${reportKind.toUpperCase()} REPORT`;
+  title.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  title.fill = { type: "pattern", pattern: "solid", fgColor: { argb: BRAND } };
+  title.alignment = { horizontal: "center", vertical: "middle" };
+  ws.addRow([]);
+  ws.addRow(["Date:", options.date]);
+  ws.addRow([`${reportKind} Report:`, criteria.name]);
+  ws.addRow([]);
+
+  const headerRow = ws.addRow(headers);
+  headerRow.eachCell((cell) => {
+    cell.font = { bold: true };
+    cell.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFF5F6FA" },
+    };
+    cell.alignment = { horizontal: "center", vertical: "middle" };
+    cell.border = thinBorder();
+  });
+
+  const passingScore = Number(criteria.passingScore);
+  const progress = rowProgress(students.length, report, 30, 90);
+  for (const [index, student] of students.entries()) {
+    const grade = gradesByStudent.get(student.id);
+    const scores: number[] = Array.isArray(grade?.scores)
+      ? (grade!.scores as number[])
+      : new Array(criteria.rubrics.length).fill(0);
+    const total = grade?.total ?? 0;
+    const incomplete = scores.some((s) => !s) || total === 0;
+
+    const row = ws.addRow([
+      formatStudentName(student),
+      ...criteria.rubrics.map((_, i) => (scores[i] ? scores[i] : "---")),
+      incomplete ? "---" : `${total.toFixed(2)}%`,
+      incomplete ? "---" : total >= passingScore ? "PASSED" : "FAILED",
+    ]);
+    row.eachCell((cell, col) => {
+      cell.alignment = { horizontal: "center", vertical: "middle" };
+      cell.border = thinBorder();
+      if (col === headers.length && cell.value !== "---") {
+        cell.font = {
+          bold: true,
+          color: { argb: cell.value === "PASSED" ? "FF008000" : "FFFF0000" },
+        };
+      }
+    });
+    await progress(index);
+  }
+
+  ws.columns = headers.map((_, index) => ({ width: index === 0 ? 30 : 15 }));
+
+  return {
+    buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+    fileName: `${course.code}-${course.section}-${options.date}-grades.xlsx`,
+    recordCount: students.length,
+  };
+}
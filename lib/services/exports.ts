@@ -0,0 +1,441 @@
+import { prisma } from "@/lib/prisma";
+import { ExportJobType, Prisma } from "@prisma/client";
+import { generateBatchId, logAction } from "@/lib/audit";
+import {
+  buildClassRecordWorkbook,
+  buildCourseGradesWorkbook,
+  buildCriteriaReportWorkbook,
+  BuiltExport,
+  ClassRecordExportOptions,
+  CourseGradesExportOptions,
+  CriteriaReportExportOptions,
+} from "./export-workbooks";
+import {
+  AttendanceSummaryPdfOptions,
+  buildAttendanceSummaryPdf,
+  buildClassRecordPdf,
+  buildGradeSheetPdf,
+  ClassRecordPdfOptions,
+  GradeSheetPdfOptions,
+} from "./export-pdfs";
+
+const EXPORT_BUCKET = process.env.EXPORT_BUCKET || "exports";
+const EXPORT_RETENTION_HOURS = parseInt(
+  process.env.EXPORT_RETENTION_HOURS || "24",
+  10
+);
+const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+// A job still PROCESSING after this long is assumed to have died with its worker
+const STALE_JOB_MINUTES = 10;
+const MAX_ATTEMPTS = 3;
+
+export type ExportJobParams =
+  | CourseGradesExportOptions
+  | ClassRecordExportOptions
+  | CriteriaReportExportOptions
+  | ClassRecordPdfOptions
+  | GradeSheetPdfOptions
+  | AttendanceSummaryPdfOptions;
+
+const EXPORT_ACTIONS: Record<ExportJobType, string> = {
+  COURSE_GRADES: "COURSE_GRADES_EXPORTED",
+  CLASS_RECORD: "CLASS_RECORD_EXPORTED",
+  CRITERIA_REPORT: "CRITERIA_REPORT_EXPORTED",
+  CLASS_RECORD_PDF: "CLASS_RECORD_PRINTED",
+  GRADE_SHEET_PDF: "GRADE_SHEET_PRINTED",
+  ATTENDANCE_SUMMARY_PDF: "ATTENDANCE_SUMMARY_PRINTED",
+};
+
+// Loaded lazily: the admin client needs the service role key, which only
+// export processing requires
+async function getExportBucket() {
+  const { supabaseAdmin } = await import("@/lib/supabase-admin");
+  return supabaseAdmin.storage.from(EXPORT_BUCKET);
+}
+
+const jobSelect = {
+  id: true,
+  type: true,
+  status: true,
+  progress: true,
+  params: true,
+  batchId: true,
+  fileName: true,
+  recordCount: true,
+  errorMessage: true,
+  requestedById: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+  expiresAt: true,
+  course: { select: { slug: true, code: true, section: true } },
+};
+
+// Helper: Validate the options for a job type
+function validateExportParams(type: ExportJobType, params: any) {
+  if (!params || typeof params !== "object") {
+    throw new Error("Export options are required");
+  }
+
+  if (type === "CLASS_RECORD") {
+    if (!params.term) {
+      throw new Error("Term is required");
+    }
+    if (!["summary", "details"].includes(params.exportType)) {
+      throw new Error("Export type must be summary or details");
+    }
+  }
+
+  if (type === "CLASS_RECORD_PDF" && !params.term) {
+    throw new Error("Term is required");
+  }
+
+  if (type === "CRITERIA_REPORT") {
+    if (!params.criteriaId) {
+      throw new Error("Criteria is required");
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(params.date || "")) {
+      throw new Error("Date must be in YYYY-MM-DD format");
+    }
+  }
+}
+
+// Queue an export; the workbook is generated in the background
+export async function createExportJob(
+  data: { type: ExportJobType; courseSlug: string; params: ExportJobParams },
+  userId: string
+) {
+  if (!Object.values(ExportJobType).includes(data.type)) {
+    throw new Error("Invalid export type");
+  }
+  validateExportParams(data.type, data.params);
+
+  const course = await prisma.course.findUnique({
+    where: { slug: data.courseSlug },
+    select: { id: true },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  return prisma.exportJob.create({
+    data: {
+      type: data.type,
+      params: data.params as Prisma.InputJsonValue,
+      courseId: course.id,
+      requestedById: userId,
+      batchId: generateBatchId(),
+    },
+    select: jobSelect,
+  });
+}
+
+// Get an export job
+export async function getExportJob(id: string) {
+  return prisma.exportJob.findUnique({
+    where: { id },
+    select: jobSelect,
+  });
+}
+
+// Get a user's recent export jobs
+export async function getExportJobs(
+  userId: string,
+  filters?: { courseSlug?: string; limit?: number }
+) {
+  return prisma.exportJob.findMany({
+    where: {
+      requestedById: userId,
+      ...(filters?.courseSlug && { course: { slug: filters.courseSlug } }),
+    },
+    select: jobSelect,
+    orderBy: { createdAt: "desc" },
+    take: filters?.limit ?? 20,
+  });
+}
+
+// Helper: Build the file for a job
+function buildExport(
+  type: ExportJobType,
+  courseSlug: string,
+  params: any,
+  report: (progress: number) => Promise<void>
+): Promise<BuiltExport> {
+  switch (type) {
+    case "COURSE_GRADES":
+      return buildCourseGradesWorkbook(courseSlug, params, report);
+    case "CLASS_RECORD":
+      return buildClassRecordWorkbook(courseSlug, params, report);
+    case "CRITERIA_REPORT":
+      return buildCriteriaReportWorkbook(courseSlug, params, report);
+    case "CLASS_RECORD_PDF":
+      return buildClassRecordPdf(courseSlug, params, report);
+    case "GRADE_SHEET_PDF":
+      return buildGradeSheetPdf(courseSlug, params, report);
+    case "ATTENDANCE_SUMMARY_PDF":
+      return buildAttendanceSummaryPdf(courseSlug, params, report);
+  }
+}
+
+// Generate, upload and record one queued job
+// Audit entries are written here because jobs finish outside the request that queued them
+export async function processExportJob(id: string) {
+  // Claim the job so a concurrent worker cannot process it twice
+  const claimed = await prisma.exportJob.updateMany({
+    where: { id, status: "QUEUED" },
+    data: {
+      status: "PROCESSING",
+      progress: 5,
+      startedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  const job = await prisma.exportJob.findUniqueOrThrow({
+    where: { id },
+    include: { course: { select: { slug: true, code: true, section: true } } },
+  });
+
+  const report = async (progress: number) => {
+    await prisma.exportJob.update({
+      where: { id },
+      data: { progress: Math.min(progress, 95) },
+    });
+  };
+
+  try {
+    const built = await buildExport(
+      job.type,
+      job.course.slug,
+      job.params,
+      report
+    );
+
+    const filePath = `jobs/${job.requestedById}/${job.id}/${built.fileName}`;
+    const bucket = await getExportBucket();
+    const { error: uploadError } = await bucket.upload(filePath, built.buffer, {
+      contentType: built.contentType ?? XLSX_CONTENT_TYPE,
+      upsert: true,
+    });
+
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+
+    // Printed documents stay verifiable after the file itself expires
+    if (built.verification) {
+      await prisma.issuedDocument.create({
+        data: {
+          hash: built.verification.hash,
+          type: job.type,
+          title: built.verification.title,
+          term: built.verification.term,
+          courseId: job.courseId,
+          issuedById: job.requestedById,
+          jobId: job.id,
+          summary: built.verification.summary as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    const fileFormat = built.fileName.endsWith(".pdf") ? "pdf" : "xlsx";
+    const completedAt = new Date();
+    const completed = await prisma.exportJob.update({
+      where: { id },
+      data: {
+        status: "COMPLETED",
+        progress: 100,
+        fileName: built.fileName,
+        filePath,
+        recordCount: built.recordCount,
+        completedAt,
+        expiresAt: new Date(
+          completedAt.getTime() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000
+        ),
+        errorMessage: null,
+      },
+      select: jobSelect,
+    });
+
+    await logAction({
+      userId: job.requestedById,
+      action: EXPORT_ACTIONS[job.type],
+      module: "Grading",
+      reason: `Exported ${built.recordCount} student(s) from ${job.course.code} - ${job.course.section} (${built.fileName})`,
+      batchId: job.batchId,
+      status: "SUCCESS",
+      after: {
+        exportType: job.type,
+        count: built.recordCount,
+        fileFormat: fileFormat === "pdf" ? "PDF" : "Excel",
+      },
+      metadata: {
+        exportType: job.type,
+        fileFormat,
+        recordCount: built.recordCount,
+        jobId: job.id,
+        courseSlug: job.course.slug,
+        options: job.params,
+        durationMs: completedAt.getTime() - (job.startedAt?.getTime() ?? 0),
+      },
+    });
+
+    return completed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[Export Jobs] Job ${id} failed:`, error);
+
+    const failed = await prisma.exportJob.update({
+      where: { id },
+      data: { status: "FAILED", errorMessage: message },
+      select: jobSelect,
+    });
+
+    await logAction({
+      userId: job.requestedById,
+      action: EXPORT_ACTIONS[job.type],
+      module: "Grading",
+      reason: `Export of ${job.course.code} - ${job.course.section} failed`,
+      batchId: job.batchId,
+      status: "FAILED",
+      errorMessage: message,
+      metadata: {
+        exportType: job.type,
+        jobId: job.id,
+        courseSlug: job.course.slug,
+        attempt: job.attempts,
+      },
+    });
+
+    return failed;
+  }
+}
+
+// Worker pass: retry stalled jobs, then process the oldest queued ones
+export async function processQueuedExportJobs(limit = 5) {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000);
+  const requeued = await prisma.exportJob.updateMany({
+    where: {
+      status: "PROCESSING",
+      startedAt: { lt: staleBefore },
+      attempts: { lt: MAX_ATTEMPTS },
+    },
+    data: { status: "QUEUED", progress: 0 },
+  });
+  await prisma.exportJob.updateMany({
+    where: {
+      status: "PROCESSING",
+      startedAt: { lt: staleBefore },
+      attempts: { gte: MAX_ATTEMPTS },
+    },
+    data: { status: "FAILED", errorMessage: "Export timed out" },
+  });
+
+  const queued = await prisma.exportJob.findMany({
+    where: { status: "QUEUED" },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  // One at a time: workbook generation is memory-heavy
+  const processed = [];
+  for (const { id } of queued) {
+    const job = await processExportJob(id);
+    if (job) processed.push(job);
+  }
+
+  return { requeued: requeued.count, processed };
+}
+
+// Remove expired artifacts from storage and their jobs
+export async function cleanupExpiredExportJobs() {
+  const expired = await prisma.exportJob.findMany({
+    where: { expiresAt: { lt: new Date() } },
+    select: { id: true, filePath: true },
+  });
+  if (expired.length === 0) return 0;
+
+  const paths = expired
+    .map((job) => job.filePath)
+    .filter((path): path is string => !!path);
+  if (paths.length > 0) {
+    const bucket = await getExportBucket();
+    const { error } = await bucket.remove(paths);
+    if (error) {
+      console.error("[Export Jobs] Failed to remove expired files:", error);
+      return 0;
+    }
+  }
+
+  const { count } = await prisma.exportJob.deleteMany({
+    where: { id: { in: expired.map((job) => job.id) } },
+  });
+  return count;
+}
+
+// Short-lived download link for a completed export
+export async function getExportDownloadUrl(id: string) {
+  const job = await prisma.exportJob.findUnique({
+    where: { id },
+    select: { status: true, filePath: true, fileName: true, expiresAt: true },
+  });
+
+  if (!job) {
+    throw new Error("Export not found");
+  }
+  if (job.status !== "COMPLETED" || !job.filePath) {
+    throw new Error("Export is not ready yet");
+  }
+  if (job.expiresAt && job.expiresAt < new Date()) {
+    throw new Error("Export has expired");
+  }
+
+  const bucket = await getExportBucket();
+  const { data, error } = await bucket.createSignedUrl(job.filePath, 60, {
+    download: job.fileName ?? true,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to create download link: ${error?.message}`);
+  }
+
+  return data.signedUrl;
+}
+
+// Look up an issued document by the hash printed on it
+export async function getIssuedDocument(hash: string) {
+  if (!/^[a-f0-9]{64}$/.test(hash)) return null;
+
+  const document = await prisma.issuedDocument.findUnique({
+    where: { hash },
+    select: {
+      hash: true,
+      type: true,
+      title: true,
+      term: true,
+      summary: true,
+      issuedById: true,
+      createdAt: true,
+    },
+  });
+  if (!document) return null;
+
+  const issuedBy = await prisma.user.findUnique({
+    where: { id: document.issuedById },
+    select: { name: true },
+  });
+
+  return {
+    hash: document.hash,
+    type: document.type,
+    title: document.title,
+    term: document.term,
+    summary: document.summary,
+    issuedBy: issuedBy?.name ?? null,
+    issuedAt: document.createdAt,
+  };
+}
@@ -0,0 +1,393 @@
+import { prisma } from "@/lib/prisma";
+import { WorkType } from "@prisma/client";
+import {
+  minutesToTime,
+  normalizeDayName,
+  timeToMinutes,
+} from "@/lib/utils/schedule-utils";
+
+export interface TeachingLoadLimitValue {
+  maxHours: number;
+  maxCourses: number | null;
+}
+
+export interface AvailabilityWindow {
+  day: string;
+  fromTime: string;
+  toTime: string;
+}
+
+// Used for work types an admin has not configured
+export const DEFAULT_TEACHING_LOAD_LIMITS: Record<
+  WorkType,
+  TeachingLoadLimitValue
+> = {
+  FULL_TIME: { maxHours: 24, maxCourses: null },
+  PART_TIME: { maxHours: 12, maxCourses: null },
+  CONTRACT: { maxHours: 18, maxCourses: null },
+};
+
+// Share of the hour limit from which a load is reported as near the limit
+export const NEAR_LOAD_LIMIT = 0.9;
+
+const AVAILABILITY_DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const workTypeLabel = (workType: WorkType) =>
+  workType.replace("_", "-").toLowerCase();
+
+const formatHours = (minutes: number) =>
+  `${Math.round((minutes / 60) * 10) / 10}h`;
+
+const scheduleMinutes = (
+  schedules: Array<{ fromTime: string; toTime: string }>
+) =>
+  schedules.reduce(
+    (sum, s) => sum + (timeToMinutes(s.toTime) - timeToMinutes(s.fromTime)),
+    0
+  );
+
+// Whether a class meeting lies inside the windows (back-to-back windows join up)
+export function isWithinAvailability(
+  schedule: AvailabilityWindow,
+  windows: AvailabilityWindow[]
+) {
+  const day = normalizeDayName(schedule.day);
+  const from = timeToMinutes(schedule.fromTime);
+  const to = timeToMinutes(schedule.toTime);
+
+  let reached = from;
+  windows
+    .filter((window) => normalizeDayName(window.day) === day)
+    .map((window) => [
+      timeToMinutes(window.fromTime),
+      timeToMinutes(window.toTime),
+    ])
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (start <= reached && end > reached) reached = end;
+    });
+
+  return reached >= to;
+}
+
+// Get the load limit of every work type
+export async function getTeachingLoadLimits(): Promise<
+  Record<WorkType, TeachingLoadLimitValue>
+> {
+  const rows = await prisma.teachingLoadLimit.findMany();
+  const limits = { ...DEFAULT_TEACHING_LOAD_LIMITS };
+  for (const row of rows) {
+    limits[row.workType] = {
+      maxHours: row.maxHours,
+      maxCourses: row.maxCourses,
+    };
+  }
+  return limits;
+}
+
+// Set the load limits of the given work types
+export async function updateTeachingLoadLimits(
+  limits: Array<{
+    workType: WorkType;
+    maxHours: number;
+    maxCourses?: number | null;
+  }>
+) {
+  if (!Array.isArray(limits) || limits.length === 0) {
+    throw new Error("At least one load limit is required");
+  }
+  for (const limit of limits) {
+    if (!Object.values(WorkType).includes(limit.workType)) {
+      throw new Error("Work type must be FULL_TIME, PART_TIME or CONTRACT");
+    }
+    if (!(Number(limit.maxHours) >= 1 && Number(limit.maxHours) <= 60)) {
+      throw new Error("Maximum hours must be between 1 and 60");
+    }
+    if (
+      limit.maxCourses !== undefined &&
+      limit.maxCourses !== null &&
+      !(Number.isInteger(limit.maxCourses) && limit.maxCourses > 0)
+    ) {
+      throw new Error("Maximum courses must be a positive whole number");
+    }
+  }
+
+  const before = await getTeachingLoadLimits();
+  await prisma.$transaction(
+    limits.map((limit) =>
+      prisma.teachingLoadLimit.upsert({
+        where: { workType: limit.workType },
+        create: {
+          workType: limit.workType,
+          maxHours: Number(limit.maxHours),
+          maxCourses: limit.maxCourses ?? null,
+        },
+        update: {
+          maxHours: Number(limit.maxHours),
+          maxCourses: limit.maxCourses ?? null,
+        },
+      })
+    )
+  );
+
+  return { before, after: await getTeachingLoadLimits() };
+}
+
+// Get a faculty member's availability windows (none declared = always available)
+export async function getFacultyAvailability(facultyId: string) {
+  const windows = await prisma.facultyAvailability.findMany({
+    where: { facultyId },
+    select: { id: true, day: true, fromTime: true, toTime: true },
+  });
+  return windows.sort(
+    (a, b) =>
+      AVAILABILITY_DAYS.indexOf(a.day) - AVAILABILITY_DAYS.indexOf(b.day) ||
+      timeToMinutes(a.fromTime) - timeToMinutes(b.fromTime)
+  );
+}
+
+// Replace a faculty member's availability windows
+export async function setFacultyAvailability(
+  facultyId: string,
+  windows: AvailabilityWindow[]
+) {
+  if (!Array.isArray(windows)) {
+    throw new Error("Availability windows are required");
+  }
+
+  const normalized = windows.map((window) => ({
+    day: normalizeDayName(window.day),
+    fromTime: window.fromTime,
+    toTime: window.toTime,
+  }));
+
+  normalized.forEach((window, index) => {
+    if (!AVAILABILITY_DAYS.includes(window.day)) {
+      throw new Error(`Window ${index + 1}: day must be a weekday name`);
+    }
+    if (!window.fromTime || !window.toTime) {
+      throw new Error(`Window ${index + 1}: start and end time are required`);
+    }
+    if (timeToMinutes(window.fromTime) >= timeToMinutes(window.toTime)) {
+      throw new Error(`Window ${index + 1}: end time must be after start time`);
+    }
+    const overlapping = normalized.findIndex(
+      (other, otherIndex) =>
+        otherIndex !== index &&
+        other.day === window.day &&
+        timeToMinutes(other.fromTime) < timeToMinutes(window.toTime) &&
+        timeToMinutes(window.fromTime) < timeToMinutes(other.toTime)
+    );
+    if (overlapping !== -1) {
+      throw new Error(
+        `Windows ${Math.min(index, overlapping) + 1} and ${
+          Math.max(index, overlapping) + 1
+        } must not overlap`
+      );
+    }
+  });
+
+  const before = await getFacultyAvailability(facultyId);
+  await prisma.$transaction([
+    prisma.facultyAvailability.deleteMany({ where: { facultyId } }),
+    prisma.facultyAvailability.createMany({
+      data: normalized.map((window) => ({ facultyId, ...window })),
+    }),
+  ]);
+
+  return { before, after: await getFacultyAvailability(facultyId) };
+}
+
+/**
+ * Checks that a faculty member can take on the given schedules: each one
+ * must fall inside a declared availability window (when any are declared),
+ * and their active courses plus this one must stay within the load limits
+ * of their work type.
+ * @param newSchedules - Schedules of the course being assigned
+ * @param facultyId - Faculty ID to check
+ * @param excludeCourseIds - Course IDs whose current schedules are replaced (e.g., the course being edited)
+ * @param semester - Semester to filter active courses
+ * @param academicYear - Academic year to filter active courses
+ * @param newCourseCount - Number of courses the new schedules belong to
+ * @returns Error message if a limit is broken, null otherwise
+ */
+export async function checkFacultyLoad(
+  newSchedules: AvailabilityWindow[],
+  facultyId: string | null | undefined,
+  excludeCourseIds: string[] = [],
+  semester?: string,
+  academicYear?: string,
+  newCourseCount = 1
+): Promise<string | null> {
+  if (!facultyId) return null;
+
+  const faculty = await prisma.user.findUnique({
+    where: { id: facultyId },
+    select: {
+      name: true,
+      workType: true,
+      availability: { select: { day: true, fromTime: true, toTime: true } },
+    },
+  });
+  if (!faculty) return null;
+
+  if (faculty.availability.length > 0) {
+    const outside = newSchedules.find(
+      (schedule) => !isWithinAvailability(schedule, faculty.availability)
+    );
+    if (outside) {
+      return `${normalizeDayName(outside.day)} ${outside.fromTime} - ${
+        outside.toTime
+      } is outside ${
+        faculty.name
+      }'s declared availability. Please choose another time.`;
+    }
+  }
+
+  const courses = await prisma.course.findMany({
+    where: {
+      facultyId,
+      status: "ACTIVE",
+      ...(semester && { semester }),
+      ...(academicYear && { academicYear }),
+      ...(excludeCourseIds.length > 0 && { id: { notIn: excludeCourseIds } }),
+    },
+    select: { schedules: { select: { fromTime: true, toTime: true } } },
+  });
+
+  const limits = (await getTeachingLoadLimits())[faculty.workType];
+  const minutes =
+    courses.reduce(
+      (sum, course) => sum + scheduleMinutes(course.schedules),
+      0
+    ) + scheduleMinutes(newSchedules);
+
+  if (minutes > limits.maxHours * 60) {
+    return `${faculty.name} would teach ${formatHours(
+      minutes
+    )} per week, over the ${formatHours(
+      limits.maxHours * 60
+    )} limit for ${workTypeLabel(faculty.workType)} faculty.`;
+  }
+  if (
+    limits.maxCourses !== null &&
+    courses.length + newCourseCount > limits.maxCourses
+  ) {
+    return `${faculty.name} would handle ${
+      courses.length + newCourseCount
+    } courses, over the ${limits.maxCourses}-course limit for ${workTypeLabel(
+      faculty.workType
+    )} faculty.`;
+  }
+
+  return null;
+}
+
+export interface FacultyUtilization {
+  id: string;
+  name: string;
+  department: string;
+  workType: WorkType;
+  courses: number;
+  scheduledHours: number;
+  maxHours: number;
+  maxCourses: number | null;
+  // Scheduled hours as a share of the hour limit (%)
+  utilization: number;
+  status: "UNDER" | "NEAR" | "OVER";
+  availableHours: number | null;
+  // Class meetings outside the declared availability
+  outsideAvailability: Array<{ code: string; section: string; slot: string }>;
+}
+
+// Teaching load of every faculty member against their work type's limits
+export async function getFacultyUtilization(): Promise<FacultyUtilization[]> {
+  const [faculty, limits] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        roles: { hasSome: ["FACULTY", "ACADEMIC_HEAD"] },
+        NOT: { roles: { has: "ADMIN" } },
+      },
+      select: {
+        id: true,
+        name: true,
+        department: true,
+        workType: true,
+        availability: { select: { day: true, fromTime: true, toTime: true } },
+        coursesTeaching: {
+          where: { status: "ACTIVE" },
+          select: {
+            code: true,
+            section: true,
+            schedules: { select: { day: true, fromTime: true, toTime: true } },
+          },
+        },
+      },
+      orderBy: { name: "asc" },
+    }),
+    getTeachingLoadLimits(),
+  ]);
+
+  return faculty
+    .map((member) => {
+      const limit = limits[member.workType];
+      const minutes = member.coursesTeaching.reduce(
+        (sum, course) => sum + scheduleMinutes(course.schedules),
+        0
+      );
+      const utilization = Math.round((minutes / (limit.maxHours * 60)) * 100);
+      const overCourses =
+        limit.maxCourses !== null &&
+        member.coursesTeaching.length > limit.maxCourses;
+
+      const outsideAvailability =
+        member.availability.length === 0
+          ? []
+          : member.coursesTeaching.flatMap((course) =>
+              course.schedules
+                .filter(
+                  (schedule) =>
+                    !isWithinAvailability(schedule, member.availability)
+                )
+                .map((schedule) => ({
+                  code: course.code,
+                  section: course.section,
+                  slot: `${normalizeDayName(schedule.day)} ${minutesToTime(
+                    timeToMinutes(schedule.fromTime)
+                  )} - ${minutesToTime(timeToMinutes(schedule.toTime))}`,
+                }))
+            );
+
+      return {
+        id: member.id,
+        name: member.name,
+        department: member.department,
+        workType: member.workType,
+        courses: member.coursesTeaching.length,
+        scheduledHours: Math.round((minutes / 60) * 10) / 10,
+        maxHours: limit.maxHours,
+        maxCourses: limit.maxCourses,
+        utilization,
+        status:
+          utilization > 100 || overCourses
+            ? ("OVER" as const)
+            : utilization >= NEAR_LOAD_LIMIT * 100
+            ? ("NEAR" as const)
+            : ("UNDER" as const),
+        availableHours:
+          member.availability.length > 0
+            ? Math.round((scheduleMinutes(member.availability) / 60) * 10) / 10
+            : null,
+        outsideAvailability,
+      };
+    })
+    .sort((a, b) => b.utilization - a.utilization);
+}
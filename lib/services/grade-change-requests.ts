@@ -0,0 +1,263 @@
+import { prisma } from "@/lib/prisma";
+import { GradeChangeRequestStatus } from "@prisma/client";
+import { applyGradeChange, getLockedTerms } from "./grading";
+
+const requestInclude = {
+  student: {
+    select: { id: true, firstName: true, lastName: true, studentId: true },
+  },
+  assessment: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      maxScore: true,
+      termConfig: { select: { term: true } },
+    },
+  },
+  course: {
+    select: {
+      id: true,
+      slug: true,
+      code: true,
+      section: true,
+      faculty: { select: { id: true, name: true } },
+    },
+  },
+};
+
+// Get a course's grade change requests (optionally by status)
+export async function getCourseGradeChangeRequests(
+  courseSlug: string,
+  status?: GradeChangeRequestStatus
+) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true },
+  });
+
+  if (!course) return null;
+
+  return prisma.gradeChangeRequest.findMany({
+    where: { courseId: course.id, ...(status ? { status } : {}) },
+    include: requestInclude,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Get pending grade change requests across courses (academic head review)
+export async function getGradeChangeRequestsForReview() {
+  return prisma.gradeChangeRequest.findMany({
+    where: { status: GradeChangeRequestStatus.PENDING },
+    include: requestInclude,
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+// Propose a new score for a locked term
+export async function createGradeChangeRequest(
+  courseSlug: string,
+  data: {
+    studentId: string;
+    assessmentId: string;
+    proposedScore: number | null;
+    reason: string;
+  },
+  requestedById: string
+) {
+  const reason = data.reason?.trim();
+  if (!reason) {
+    throw new Error("A reason is required for a grade change");
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true, code: true, section: true },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  const student = await prisma.student.findFirst({
+    where: {
+      id: data.studentId,
+      coursesEnrolled: { some: { id: course.id } },
+    },
+    select: { id: true },
+  });
+
+  if (!student) {
+    throw new Error("Student not found in this course");
+  }
+
+  const assessment = await prisma.assessment.findFirst({
+    where: { id: data.assessmentId, termConfig: { courseId: course.id } },
+    select: {
+      id: true,
+      maxScore: true,
+      linkedCriteriaId: true,
+      termConfig: { select: { term: true } },
+    },
+  });
+
+  if (!assessment) {
+    throw new Error("Assessment not found");
+  }
+
+  // The grading engine reads these scores from the criteria, not AssessmentScore
+  if (assessment.linkedCriteriaId) {
+    throw new Error(
+      "Scores for this assessment come from its linked criteria and cannot be changed by request"
+    );
+  }
+
+  const lockedTerms = await getLockedTerms(course.id);
+  if (!lockedTerms.has(assessment.termConfig.term)) {
+    throw new Error(
+      "Grade change requests are only for locked terms; edit the score directly"
+    );
+  }
+
+  const proposedScore =
+    data.proposedScore === null ? null : Number(data.proposedScore);
+  if (
+    proposedScore !== null &&
+    (isNaN(proposedScore) ||
+      proposedScore < 0 ||
+      proposedScore > assessment.maxScore)
+  ) {
+    throw new Error(
+      `Proposed score must be between 0 and ${assessment.maxScore}`
+    );
+  }
+
+  const pending = await prisma.gradeChangeRequest.findFirst({
+    where: {
+      assessmentId: assessment.id,
+      studentId: data.studentId,
+      status: GradeChangeRequestStatus.PENDING,
+    },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new Error("A change request for this score is already pending");
+  }
+
+  const current = await prisma.assessmentScore.findUnique({
+    where: {
+      assessmentId_studentId: {
+        assessmentId: assessment.id,
+        studentId: data.studentId,
+      },
+    },
+    select: { score: true },
+  });
+
+  return prisma.gradeChangeRequest.create({
+    data: {
+      courseId: course.id,
+      assessmentId: assessment.id,
+      studentId: data.studentId,
+      currentScore: current?.score ?? null,
+      proposedScore,
+      reason,
+      requestedById,
+    },
+    include: requestInclude,
+  });
+}
+
+// Approve (writes the score and recomputed term grade) or reject a pending request
+export async function reviewGradeChangeRequest(
+  id: string,
+  decision: "APPROVE" | "REJECT",
+  reviewedById: string,
+  note?: string | null
+) {
+  const request = await prisma.gradeChangeRequest.findUnique({
+    where: { id },
+    include: requestInclude,
+  });
+
+  if (!request) {
+    throw new Error("Grade change request not found");
+  }
+
+  if (request.status !== GradeChangeRequestStatus.PENDING) {
+    throw new Error(
+      `Cannot review a request that is already ${request.status.toLowerCase()}`
+    );
+  }
+
+  const reviewNote = note?.trim() || null;
+  if (decision === "REJECT" && !reviewNote) {
+    throw new Error("A reason is required to reject a grade change");
+  }
+
+  // Claim the request before touching the score so two reviewers acting at
+  // once cannot both review it
+  const claimed = await prisma.gradeChangeRequest.updateMany({
+    where: { id, status: GradeChangeRequestStatus.PENDING },
+    data: {
+      status:
+        decision === "APPROVE"
+          ? GradeChangeRequestStatus.APPROVED
+          : GradeChangeRequestStatus.REJECTED,
+      reviewedById,
+      reviewedAt: new Date(),
+      reviewNote,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new Error("Cannot review a request that is no longer pending");
+  }
+
+  // Score read at approval time, in case it moved since the request was filed
+  const before = await prisma.assessmentScore.findUnique({
+    where: {
+      assessmentId_studentId: {
+        assessmentId: request.assessmentId,
+        studentId: request.studentId,
+      },
+    },
+    select: { score: true },
+  });
+
+  let applied: Awaited<ReturnType<typeof applyGradeChange>> | null = null;
+  if (decision === "APPROVE") {
+    try {
+      applied = await applyGradeChange({
+        studentId: request.studentId,
+        assessmentId: request.assessmentId,
+        score: request.proposedScore,
+      });
+    } catch (error) {
+      // Hand the request back so it can be reviewed again
+      await prisma.gradeChangeRequest.update({
+        where: { id },
+        data: {
+          status: GradeChangeRequestStatus.PENDING,
+          reviewedById: null,
+          reviewedAt: null,
+          reviewNote: null,
+        },
+      });
+      throw error;
+    }
+  }
+
+  const updated = await prisma.gradeChangeRequest.findUniqueOrThrow({
+    where: { id },
+    include: requestInclude,
+  });
+
+  return {
+    request: updated,
+    beforeScore: before?.score ?? null,
+    afterScore:
+      decision === "APPROVE" ? request.proposedScore : before?.score ?? null,
+    beforeTermGrade: applied?.beforeTermGrade ?? null,
+    afterTermGrade: applied?.afterTermGrade ?? null,
+  };
+}
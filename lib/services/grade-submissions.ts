@@ -0,0 +1,232 @@
+import { prisma } from "@/lib/prisma";
+import { GradeSubmissionStatus } from "@prisma/client";
+import { getCourseTerms } from "./grading";
+import { DEFAULT_TERM_DEFINITIONS } from "./grading-engine";
+
+export type GradeSubmissionAction = "SUBMIT" | "APPROVE" | "RETURN" | "LOCK";
+
+// Workflow: draft → submitted → approved/returned → locked (returned sheets are resubmitted)
+const TRANSITIONS: Record<
+  GradeSubmissionAction,
+  { from: GradeSubmissionStatus[]; to: GradeSubmissionStatus }
+> = {
+  SUBMIT: {
+    from: [GradeSubmissionStatus.DRAFT, GradeSubmissionStatus.RETURNED],
+    to: GradeSubmissionStatus.SUBMITTED,
+  },
+  APPROVE: {
+    from: [GradeSubmissionStatus.SUBMITTED],
+    to: GradeSubmissionStatus.APPROVED,
+  },
+  RETURN: {
+    from: [GradeSubmissionStatus.SUBMITTED],
+    to: GradeSubmissionStatus.RETURNED,
+  },
+  LOCK: {
+    from: [GradeSubmissionStatus.APPROVED],
+    to: GradeSubmissionStatus.LOCKED,
+  },
+};
+
+const submissionSelect = {
+  id: true,
+  term: true,
+  status: true,
+  submittedById: true,
+  submittedAt: true,
+  reviewedById: true,
+  reviewedAt: true,
+  lockedAt: true,
+  releasedAt: true,
+  note: true,
+};
+
+// Get the grade sheet status of every term of a course (terms never submitted are drafts)
+export async function getCourseGradeSubmissions(courseSlug: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      facultyId: true,
+      gradeSubmissions: { select: submissionSelect },
+    },
+  });
+
+  if (!course) return null;
+
+  const terms = await getCourseTerms(course.id);
+  const byTerm = new Map(course.gradeSubmissions.map((s) => [s.term, s]));
+
+  return terms.map((term) => {
+    const submission = byTerm.get(term.key);
+    return {
+      term: term.key,
+      label: term.label,
+      status: submission?.status ?? GradeSubmissionStatus.DRAFT,
+      submittedAt: submission?.submittedAt ?? null,
+      reviewedAt: submission?.reviewedAt ?? null,
+      lockedAt: submission?.lockedAt ?? null,
+      releasedAt: submission?.releasedAt ?? null,
+      note: submission?.note ?? null,
+    };
+  });
+}
+
+// Move a course term's grade sheet through the workflow
+export async function transitionGradeSubmission(
+  courseSlug: string,
+  term: string,
+  action: GradeSubmissionAction,
+  userId: string,
+  note?: string | null
+) {
+  const transition = TRANSITIONS[action];
+  if (!transition) {
+    throw new Error(`Unknown grade sheet action: ${action}`);
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true, code: true, section: true, facultyId: true },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  const terms = await getCourseTerms(course.id);
+  const termDefinition = terms.find((t) => t.key === term);
+  if (!termDefinition) {
+    throw new Error(`${term}: Not a term of this course`);
+  }
+
+  const trimmedNote = note?.trim() || null;
+  if (action === "RETURN" && !trimmedNote) {
+    throw new Error("A reason is required to return a grade sheet");
+  }
+
+  const existing = await prisma.gradeSubmission.findUnique({
+    where: { courseId_term: { courseId: course.id, term } },
+    select: submissionSelect,
+  });
+  const currentStatus = existing?.status ?? GradeSubmissionStatus.DRAFT;
+
+  if (!transition.from.includes(currentStatus)) {
+    throw new Error(
+      `Cannot ${action.toLowerCase()} a grade sheet that is ${currentStatus.toLowerCase()}`
+    );
+  }
+
+  const now = new Date();
+  const data =
+    action === "SUBMIT"
+      ? {
+          status: transition.to,
+          submittedById: userId,
+          submittedAt: now,
+          reviewedById: null,
+          reviewedAt: null,
+          note: trimmedNote,
+        }
+      : action === "LOCK"
+      ? { status: transition.to, lockedAt: now }
+      : {
+          status: transition.to,
+          reviewedById: userId,
+          reviewedAt: now,
+          note: trimmedNote,
+        };
+
+  const submission = await prisma.gradeSubmission.upsert({
+    where: { courseId_term: { courseId: course.id, term } },
+    create: { courseId: course.id, term, ...data },
+    update: data,
+    select: submissionSelect,
+  });
+
+  return {
+    course,
+    termLabel: termDefinition.label,
+    before: currentStatus,
+    submission,
+  };
+}
+
+// Show or hide a term's grades in the student portal
+// Independent of the review workflow: the course faculty decides when students see grades
+export async function setGradeRelease(
+  courseSlug: string,
+  term: string,
+  released: boolean,
+  userId: string
+) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true, code: true, section: true },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  const terms = await getCourseTerms(course.id);
+  const termDefinition = terms.find((t) => t.key === term);
+  if (!termDefinition) {
+    throw new Error(`${term}: Not a term of this course`);
+  }
+
+  const data = released
+    ? { releasedAt: new Date(), releasedById: userId }
+    : { releasedAt: null, releasedById: null };
+
+  const submission = await prisma.gradeSubmission.upsert({
+    where: { courseId_term: { courseId: course.id, term } },
+    create: { courseId: course.id, term, ...data },
+    update: data,
+    select: submissionSelect,
+  });
+
+  return { course, termLabel: termDefinition.label, submission };
+}
+
+// Grade sheets awaiting an academic head: submitted for review or approved but not yet locked
+export async function getGradeSubmissionsForReview() {
+  const submissions = await prisma.gradeSubmission.findMany({
+    where: {
+      status: {
+        in: [GradeSubmissionStatus.SUBMITTED, GradeSubmissionStatus.APPROVED],
+      },
+    },
+    select: {
+      ...submissionSelect,
+      course: {
+        select: {
+          id: true,
+          slug: true,
+          code: true,
+          title: true,
+          section: true,
+          faculty: { select: { id: true, name: true } },
+          terms: { select: { key: true, label: true } },
+        },
+      },
+    },
+    orderBy: { submittedAt: "asc" },
+  });
+
+  return submissions.map(({ course, ...submission }) => ({
+    ...submission,
+    termLabel:
+      (course.terms.length ? course.terms : DEFAULT_TERM_DEFINITIONS).find(
+        (t) => t.key === submission.term
+      )?.label ?? submission.term,
+    course: {
+      id: course.id,
+      slug: course.slug,
+      code: course.code,
+      title: course.title,
+      section: course.section,
+      faculty: course.faculty,
+    },
+  }));
+}
@@ -1,4 +1,6 @@
 import { prisma } from "@/lib/prisma";
+import { assertCriteriaUnlocked } from "./grading";
+import { getPeerMultipliers } from "./peer-evaluations";
 
 // Get grades for a course, date, and optionally criteria
 export async function getGrades(
@@ -48,7 +50,7 @@ export async function getGrades(
       in: filters.studentIds,
     };
   } else if (filters.groupId) {
-  // If groupId is provided, filter by students in that group
+    // If groupId is provided, filter by students in that group
     const group = await prisma.group.findUnique({
       where: { id: filters.groupId },
       select: { students: { select: { id: true } } },
@@ -63,8 +65,8 @@ export async function getGrades(
 
   return prisma.grade.findMany({
     where,
-        select: {
-          id: true,
+    select: {
+      id: true,
       studentId: true,
       scores: true,
       total: true,
@@ -101,6 +103,8 @@ export async function saveGrades(
     throw new Error("Course not found");
   }
 
+  await assertCriteriaUnlocked(course.id, [data.criteriaId]);
+
   const studentIds = data.grades.map((grade) => grade.studentId);
 
   // Parse date string (YYYY-MM-DD) and create local date range
@@ -129,19 +133,29 @@ export async function saveGrades(
     },
   });
 
+  // Group criteria with a closed peer evaluation adjust each member's value
+  const multipliers = await getPeerMultipliers(data.criteriaId);
+
   // Create new grades
   return prisma.grade.createMany({
-    data: data.grades.map((grade) => ({
-      courseId: course.id,
-      criteriaId: data.criteriaId,
-      studentId: grade.studentId,
-      value: grade.total,
-      scores: grade.scores,
-      total: grade.total,
-      reportingScore: !data.isRecitationCriteria,
-      recitationScore: data.isRecitationCriteria || false,
-      date: gradeDate,
-    })),
+    data: data.grades.map((grade) => {
+      const multiplier = multipliers?.[grade.studentId] ?? null;
+      return {
+        courseId: course.id,
+        criteriaId: data.criteriaId,
+        studentId: grade.studentId,
+        value:
+          multiplier === null
+            ? grade.total
+            : Math.round(grade.total * multiplier * 100) / 100,
+        peerMultiplier: multiplier,
+        scores: grade.scores,
+        total: grade.total,
+        reportingScore: !data.isRecitationCriteria,
+        recitationScore: data.isRecitationCriteria || false,
+        date: gradeDate,
+      };
+    }),
   });
 }
 
@@ -161,6 +175,8 @@ export async function deleteGrades(
     throw new Error("Course not found");
   }
 
+  await assertCriteriaUnlocked(course.id, [filters.criteriaId]);
+
   // Parse date string (YYYY-MM-DD) and create local date range
   const dateParts = filters.date.split("-");
   const year = parseInt(dateParts[0], 10);
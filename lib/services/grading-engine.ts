@@ -0,0 +1,799 @@
+// Grading engine: the single implementation of term/final grade math.
+// Pure functions only (no Prisma) so the class record can run the same
+// computation in the browser while scores are being edited, and the server
+// (term-grades API, course analytics, leaderboards, TermGrade persistence)
+// produces identical numbers.
+
+// ==================== Types ====================
+
+export type EngineAssessmentType = "PT" | "QUIZ" | "EXAM";
+
+export interface EngineAssessment {
+  id: string;
+  type: EngineAssessmentType | string;
+  maxScore: number;
+  enabled: boolean;
+  linkedCriteriaId?: string | null;
+  transmutationBase?: number | null;
+}
+
+export interface EngineTermConfig {
+  term: string;
+  ptWeight: number;
+  quizWeight: number;
+  examWeight: number;
+  assessments: EngineAssessment[];
+}
+
+export interface ScoreEntry {
+  score: number | null;
+  rawScores?: unknown;
+  // Peer evaluation adjustment of a group criteria grade
+  peerMultiplier?: number | null;
+}
+
+/**
+ * Resolves a score entry by key. Keys follow the class record convention:
+ * `${studentId}:${assessmentId}` for assessment scores and
+ * `${studentId}:criteria:${criteriaId}` for linked criteria grades.
+ */
+export type ScoreLookup = (key: string) => ScoreEntry | null | undefined;
+
+export interface CriteriaMeta {
+  scoringRange: number;
+  rubrics: Array<{ percentage: number }>;
+}
+
+export type GradingScaleKind = "NUMERIC" | "LETTER";
+
+export interface GradingScaleEntryDefinition {
+  minPercentage: number;
+  label: string;
+  value: number;
+}
+
+/**
+ * Percentage-to-grade table. `value` is what gets averaged and stored in
+ * TermGrade.numericGrade (grade points for letter scales); `label` is what
+ * gets displayed and exported.
+ */
+export interface GradingScaleDefinition {
+  id?: string | null;
+  name: string;
+  type: GradingScaleKind;
+  passingGrade: number;
+  lowerIsBetter: boolean;
+  entries: GradingScaleEntryDefinition[];
+}
+
+/**
+ * One grading period of a course. `key` matches TermConfiguration.term;
+ * `weight` is the term's share of the final grade in percent.
+ */
+export interface TermDefinition {
+  key: string;
+  label: string;
+  weight: number;
+}
+
+export interface TermGradeResult {
+  ptWeighted: number | null;
+  quizWeighted: number | null;
+  examWeighted: number | null;
+  totalPercent: number | null;
+  numericGrade: number | null;
+  gradeLabel: string | null;
+  remarks: "PASSED" | "FAILED" | null;
+  hasScoreExceedingMax: boolean;
+}
+
+export interface FinalGradeResult {
+  percentage: number;
+  grade: number;
+  label: string;
+  remarks: "PASSED" | "FAILED";
+}
+
+export interface AttendanceTally {
+  present: number;
+  late: number;
+  excused: number;
+  absent: number;
+}
+
+export interface QuizResult {
+  plusPoints: number;
+  totalGrade: number;
+  remarks: "PASSED" | "FAILED";
+}
+
+// ==================== Constants ====================
+
+// Regular semester structure, used when a course has not defined its terms
+export const DEFAULT_TERM_DEFINITIONS: TermDefinition[] = [
+  { key: "PRELIM", label: "Prelims", weight: 20 },
+  { key: "MIDTERM", label: "Midterm", weight: 20 },
+  { key: "PREFINALS", label: "Pre-Finals", weight: 20 },
+  { key: "FINALS", label: "Finals", weight: 40 },
+];
+
+export const DEFAULT_TERMS = DEFAULT_TERM_DEFINITIONS.map((term) => term.key);
+
+export const DEFAULT_TERM_WEIGHTS: Record<string, number> = getTermWeights(
+  DEFAULT_TERM_DEFINITIONS
+);
+
+// Keys the class record, summary views and leaderboards use for themselves
+export const RESERVED_TERM_KEYS = ["SUMMARY", "FINAL", "ALL"];
+
+// Institutional 1.00-5.00 scale, used when no scale is configured
+export const DEFAULT_GRADING_SCALE: GradingScaleDefinition = {
+  id: null,
+  name: "Standard (1.00 - 5.00)",
+  type: "NUMERIC",
+  passingGrade: 3.0,
+  lowerIsBetter: true,
+  entries: [
+    { minPercentage: 97.5, label: "1.00", value: 1.0 },
+    { minPercentage: 94.5, label: "1.25", value: 1.25 },
+    { minPercentage: 91.5, label: "1.50", value: 1.5 },
+    { minPercentage: 86.5, label: "1.75", value: 1.75 },
+    { minPercentage: 81.5, label: "2.00", value: 2.0 },
+    { minPercentage: 76.0, label: "2.25", value: 2.25 },
+    { minPercentage: 70.5, label: "2.50", value: 2.5 },
+    { minPercentage: 65.0, label: "2.75", value: 2.75 },
+    { minPercentage: 59.5, label: "3.00", value: 3.0 },
+    { minPercentage: 0, label: "5.00", value: 5.0 },
+  ],
+};
+
+// ==================== Score keys ====================
+
+export const scoreKey = (studentId: string, assessmentId: string) =>
+  `${studentId}:${assessmentId}`;
+
+export const criteriaScoreKey = (studentId: string, criteriaId: string) =>
+  `${studentId}:criteria:${criteriaId}`;
+
+/**
+ * Build a ScoreLookup from a plain scores map (as returned by getAssessmentScores)
+ */
+export function lookupFromRecord(
+  record: Record<string, ScoreEntry> | null | undefined
+): ScoreLookup {
+  return (key) => record?.[key];
+}
+
+// ==================== Primitives ====================
+
+export function percent(
+  score: number | null,
+  max: number | null
+): number | null {
+  if (score == null || max == null || max <= 0) return null;
+  return Math.max(0, Math.min(100, (score / max) * 100));
+}
+
+/**
+ * Apply an assessment's transmutation base.
+ * Formula: raw_score * (base/100) + ((100 - base)/100) * max_score
+ */
+export function transmuteScore(
+  rawScore: number | null,
+  maxScore: number,
+  base: number
+): number | null {
+  // If base is 0, no transmutation (raw score stays the same)
+  if (base === 0 || rawScore === null) return rawScore;
+
+  const basePercentage = base / 100;
+  const remainingPercentage = (100 - base) / 100;
+  return rawScore * basePercentage + remainingPercentage * maxScore;
+}
+
+// ==================== Grading scales ====================
+
+/**
+ * Find the scale entry for a percentage (highest cutoff the percentage meets).
+ * Falls back to the lowest entry so every percentage resolves to a grade.
+ */
+export function resolveScaleEntry(
+  totalPercent: number,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): GradingScaleEntryDefinition {
+  const entries = [...scale.entries].sort(
+    (a, b) => b.minPercentage - a.minPercentage
+  );
+  return (
+    entries.find((entry) => totalPercent >= entry.minPercentage) ??
+    entries[entries.length - 1]
+  );
+}
+
+/**
+ * Convert a term/final percentage to the scale's grade value
+ */
+export function getNumericGrade(
+  totalPercent: number,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): number {
+  return resolveScaleEntry(totalPercent, scale).value;
+}
+
+export function formatNumericGrade(grade: number): string {
+  return grade.toFixed(2);
+}
+
+/**
+ * Display label for a grade. Numeric scales show the (possibly averaged)
+ * value; letter scales show the letter for the percentage.
+ */
+export function formatScaleGrade(
+  grade: number,
+  totalPercent: number,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): string {
+  return scale.type === "LETTER"
+    ? resolveScaleEntry(totalPercent, scale).label
+    : formatNumericGrade(grade);
+}
+
+export function isPassingGrade(
+  grade: number,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): boolean {
+  return scale.lowerIsBetter
+    ? grade <= scale.passingGrade
+    : grade >= scale.passingGrade;
+}
+
+export function getRemarks(
+  grade: number,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): "PASSED" | "FAILED" {
+  return isPassingGrade(grade, scale) ? "PASSED" : "FAILED";
+}
+
+/**
+ * Lowest percentage that still resolves to a passing grade
+ */
+export function getPassingPercentage(
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): number {
+  const passing = scale.entries
+    .filter((entry) => isPassingGrade(entry.value, scale))
+    .map((entry) => entry.minPercentage);
+  return passing.length > 0 ? Math.min(...passing) : 100;
+}
+
+/**
+ * Validate a scale definition; returns an error message or null
+ */
+export function validateGradingScale(
+  scale: Pick<GradingScaleDefinition, "entries" | "passingGrade">
+): string | null {
+  if (!scale.entries || scale.entries.length === 0) {
+    return "Grading scale must have at least one entry";
+  }
+  if (isNaN(scale.passingGrade)) {
+    return "Passing grade must be a number";
+  }
+  const cutoffs = new Set<number>();
+  for (const entry of scale.entries) {
+    if (!entry.label?.trim()) {
+      return "Every grading scale entry needs a label";
+    }
+    if (
+      isNaN(entry.minPercentage) ||
+      entry.minPercentage < 0 ||
+      entry.minPercentage > 100
+    ) {
+      return "Entry cutoffs must be between 0 and 100";
+    }
+    if (isNaN(entry.value)) {
+      return "Entry grade values must be numbers";
+    }
+    if (cutoffs.has(entry.minPercentage)) {
+      return "Entry cutoffs must be unique";
+    }
+    cutoffs.add(entry.minPercentage);
+  }
+  if (!cutoffs.has(0)) {
+    return "Grading scale must have an entry starting at 0%";
+  }
+  return null;
+}
+
+// ==================== Terms ====================
+
+/**
+ * Final-grade weights (as fractions) keyed by term
+ */
+export function getTermWeights(
+  terms: TermDefinition[]
+): Record<string, number> {
+  const weights: Record<string, number> = {};
+  terms.forEach((term) => {
+    weights[term.key] = term.weight / 100;
+  });
+  return weights;
+}
+
+/**
+ * Derive a term key from its name (e.g. "Summer 1" → "SUMMER1")
+ */
+export function toTermKey(label: string): string {
+  return label.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Validate a course's term list; returns an error message or null
+ */
+export function validateTermDefinitions(
+  terms: TermDefinition[]
+): string | null {
+  if (!terms || terms.length === 0) {
+    return "A course needs at least one term";
+  }
+  const keys = new Set<string>();
+  let totalWeight = 0;
+  for (const term of terms) {
+    if (!term.label?.trim() || !term.key) {
+      return "Every term needs a name";
+    }
+    if (RESERVED_TERM_KEYS.includes(term.key)) {
+      return `"${term.label}" is a reserved term name`;
+    }
+    if (keys.has(term.key)) {
+      return "Term names must be unique";
+    }
+    keys.add(term.key);
+    if (isNaN(term.weight) || term.weight < 0 || term.weight > 100) {
+      return "Term weights must be between 0 and 100";
+    }
+    totalWeight += term.weight;
+  }
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    return `Term weights must total 100% (currently ${totalWeight}%)`;
+  }
+  return null;
+}
+
+/**
+ * Weights should sum to 100 and all should be valid non-negative numbers
+ */
+export function isTermConfigValid(
+  termConfig: Pick<EngineTermConfig, "ptWeight" | "quizWeight" | "examWeight">
+): boolean {
+  const ptWeight = termConfig.ptWeight ?? 0;
+  const quizWeight = termConfig.quizWeight ?? 0;
+  const examWeight = termConfig.examWeight ?? 0;
+
+  return (
+    !isNaN(ptWeight) &&
+    !isNaN(quizWeight) &&
+    !isNaN(examWeight) &&
+    ptWeight >= 0 &&
+    quizWeight >= 0 &&
+    examWeight >= 0 &&
+    ptWeight + quizWeight + examWeight === 100
+  );
+}
+
+// ==================== Scores ====================
+
+/**
+ * Weighted percentage from raw rubric scores (same formula as the grading table)
+ */
+export function calculateWeightedPercentage(
+  rawScores: number[] | null | undefined,
+  rubrics: Array<{ percentage: number }>,
+  scoringRange: number
+): number {
+  if (
+    !rawScores ||
+    !Array.isArray(rawScores) ||
+    !rubrics ||
+    rubrics.length === 0
+  )
+    return 0;
+
+  // Only use scores up to the number of rubrics
+  const validScores = rawScores.slice(0, rubrics.length);
+  const weightedScores = validScores.map((score, index) => {
+    const weight = rubrics[index]?.percentage || 0;
+    return (score / scoringRange) * weight;
+  });
+
+  return Number(
+    weightedScores.reduce((sum, score) => sum + score, 0).toFixed(2)
+  );
+}
+
+/**
+ * Score of a student for an assessment, resolving linked criteria
+ * (reporting/recitation) grades into the assessment's max score
+ */
+export function getEffectiveScore(
+  studentId: string,
+  assessment: EngineAssessment,
+  lookup: ScoreLookup,
+  criteriaMetadata?: Record<string, CriteriaMeta> | null
+): number | null {
+  if (assessment.linkedCriteriaId) {
+    const gradeData = lookup(
+      criteriaScoreKey(studentId, assessment.linkedCriteriaId)
+    );
+    if (!gradeData) return null;
+
+    const rawScores = Array.isArray(gradeData.rawScores)
+      ? (gradeData.rawScores as number[])
+      : null;
+    const criteriaMeta = criteriaMetadata?.[assessment.linkedCriteriaId];
+
+    if (!rawScores || !criteriaMeta) {
+      // Fallback: use percentage if raw scores not available
+      if (gradeData.score === null || gradeData.score === undefined)
+        return null;
+      return (
+        Math.round((gradeData.score / 100) * assessment.maxScore * 100) / 100
+      );
+    }
+
+    const weightedPercentage = calculateWeightedPercentage(
+      rawScores,
+      criteriaMeta.rubrics,
+      criteriaMeta.scoringRange
+    );
+    const trueScore = Math.min(
+      (weightedPercentage / 100) *
+        assessment.maxScore *
+        (gradeData.peerMultiplier ?? 1),
+      assessment.maxScore
+    );
+    return Math.round(trueScore * 100) / 100;
+  }
+
+  const scoreData = lookup(scoreKey(studentId, assessment.id));
+  return scoreData?.score !== null && scoreData?.score !== undefined
+    ? scoreData.score
+    : null;
+}
+
+// ==================== Term & final grades ====================
+
+const EMPTY_TERM_RESULT: TermGradeResult = {
+  ptWeighted: null,
+  quizWeighted: null,
+  examWeighted: null,
+  totalPercent: null,
+  numericGrade: null,
+  gradeLabel: null,
+  remarks: null,
+  hasScoreExceedingMax: false,
+};
+
+/**
+ * Compute a student's grade for one term.
+ *
+ * - Each enabled assessment is transmuted with its own base, then converted
+ *   to a percentage.
+ * - PT and quiz averages divide by the number of scored items.
+ * - A component only counts once ALL of its assessments have scores; linked
+ *   criteria without a grade count as 0.
+ * - The total is only produced when every required component is present.
+ */
+export function computeTermGrade(
+  termConfig: EngineTermConfig,
+  studentId: string,
+  lookup: ScoreLookup,
+  criteriaMetadata?: Record<string, CriteriaMeta> | null,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): TermGradeResult {
+  if (!isTermConfigValid(termConfig)) return { ...EMPTY_TERM_RESULT };
+
+  const enabled = termConfig.assessments.filter((a) => a.enabled);
+  const ptAssessments = enabled.filter((a) => a.type === "PT");
+  const quizAssessments = enabled.filter((a) => a.type === "QUIZ");
+  const examAssessment = enabled.find((a) => a.type === "EXAM");
+
+  let hasScoreExceedingMax = false;
+
+  const toPercentage = (assessment: EngineAssessment): number | null => {
+    const rawScore = getEffectiveScore(
+      studentId,
+      assessment,
+      lookup,
+      criteriaMetadata
+    );
+    // For linked assessments, if no score exists, treat as 0 for computation
+    const scoreForComputation =
+      rawScore === null && assessment.linkedCriteriaId ? 0 : rawScore;
+    if (
+      scoreForComputation !== null &&
+      scoreForComputation > assessment.maxScore
+    ) {
+      hasScoreExceedingMax = true;
+    }
+    const transmuted = transmuteScore(
+      scoreForComputation,
+      assessment.maxScore,
+      assessment.transmutationBase ?? 0
+    );
+    return transmuted !== null
+      ? percent(transmuted, assessment.maxScore)
+      : null;
+  };
+
+  const collect = (assessments: EngineAssessment[]) =>
+    assessments.map(toPercentage).filter((pct): pct is number => pct !== null);
+
+  const ptPercentages = collect(ptAssessments);
+  const quizPercentages = collect(quizAssessments);
+  const examPercentage = examAssessment ? toPercentage(examAssessment) : null;
+
+  const average = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((a, b) => a + b, 0) / values.length
+      : null;
+  const ptAvg = average(ptPercentages);
+  const quizAvg = average(quizPercentages);
+
+  const ptWeighted =
+    ptAvg !== null && ptPercentages.length === ptAssessments.length
+      ? (ptAvg / 100) * termConfig.ptWeight
+      : null;
+  const quizWeighted =
+    quizAvg !== null && quizPercentages.length === quizAssessments.length
+      ? (quizAvg / 100) * termConfig.quizWeight
+      : null;
+  const examWeighted =
+    examPercentage !== null
+      ? (examPercentage / 100) * termConfig.examWeight
+      : null;
+
+  const hasRequiredPT = ptAssessments.length === 0 || ptWeighted !== null;
+  const hasRequiredQuiz = quizAssessments.length === 0 || quizWeighted !== null;
+  const hasRequiredExam = !examAssessment || examWeighted !== null;
+  const hasAnyAssessment = enabled.length > 0;
+
+  const totalPercent =
+    hasAnyAssessment && hasRequiredPT && hasRequiredQuiz && hasRequiredExam
+      ? (ptWeighted ?? 0) + (quizWeighted ?? 0) + (examWeighted ?? 0)
+      : null;
+
+  const entry =
+    totalPercent !== null && !hasScoreExceedingMax
+      ? resolveScaleEntry(totalPercent, scale)
+      : null;
+
+  return {
+    ptWeighted,
+    quizWeighted,
+    examWeighted,
+    totalPercent,
+    numericGrade: entry ? entry.value : null,
+    gradeLabel: entry ? entry.label : null,
+    remarks: entry ? getRemarks(entry.value, scale) : null,
+    hasScoreExceedingMax,
+  };
+}
+
+/**
+ * Compute the final grade from per-term results.
+ * Returns null unless every weighted term has a valid numeric grade.
+ */
+export function computeFinalGrade(
+  termResults: Record<string, TermGradeResult | null | undefined>,
+  termWeights: Record<string, number> = DEFAULT_TERM_WEIGHTS,
+  scale: GradingScaleDefinition = DEFAULT_GRADING_SCALE
+): FinalGradeResult | null {
+  let percentage = 0;
+  let grade = 0;
+
+  for (const [term, weight] of Object.entries(termWeights)) {
+    const result = termResults[term];
+    if (
+      !result ||
+      result.totalPercent === null ||
+      result.numericGrade === null
+    ) {
+      return null;
+    }
+    percentage += result.totalPercent * weight;
+    grade += result.numericGrade * weight;
+  }
+
+  if (isNaN(percentage) || isNaN(grade)) return null;
+
+  return {
+    percentage,
+    grade,
+    label: formatScaleGrade(grade, percentage, scale),
+    remarks: getRemarks(grade, scale),
+  };
+}
+
+// ==================== Quizzes ====================
+
+/**
+ * Attendance-based plus points for a quiz: the full allowance for perfect
+ * attendance in the quiz's range, scaled by the share of sessions attended
+ * (EXCUSED counts as attended, LATE as half). No sessions → no plus points.
+ */
+export function computeQuizPlusPoints(
+  tally: AttendanceTally,
+  maxPlusPoints: number
+): number {
+  const sessions = tally.present + tally.late + tally.excused + tally.absent;
+  if (sessions === 0 || maxPlusPoints <= 0) return 0;
+  const attended = tally.present + tally.excused + tally.late * 0.5;
+  return Math.round((attended / sessions) * maxPlusPoints * 100) / 100;
+}
+
+/**
+ * Short attendance summary stored with a quiz score (e.g. "8/10 attended, 1 late")
+ */
+export function formatAttendanceTally(tally: AttendanceTally): string {
+  const sessions = tally.present + tally.late + tally.excused + tally.absent;
+  const attended = tally.present + tally.excused + tally.late;
+  return tally.late > 0
+    ? `${attended}/${sessions} attended, ${tally.late} late`
+    : `${attended}/${sessions} attended`;
+}
+
+/**
+ * Quiz total (score plus attendance points, capped at the quiz max) and remarks
+ * against the quiz's passing rate (a percentage)
+ */
+export function computeQuizResult(
+  score: number,
+  quiz: { maxScore: number; passingRate: number },
+  plusPoints: number
+): QuizResult {
+  const totalGrade = Math.min(score + plusPoints, quiz.maxScore);
+  const totalPercent = percent(totalGrade, quiz.maxScore) ?? 0;
+  return {
+    plusPoints,
+    totalGrade,
+    remarks: totalPercent >= quiz.passingRate ? "PASSED" : "FAILED",
+  };
+}
+
+// ==================== Early warning ====================
+
+export type RiskLevel = "HIGH" | "MODERATE" | "LOW";
+export type RiskFactor =
+  | "ABSENCES"
+  | "MISSING_WORK"
+  | "DECLINING"
+  | "PROJECTED_FAIL";
+
+export interface RiskInput {
+  attendance: AttendanceTally;
+  /** Assessments the class has been scored on */
+  gradedAssessments: number;
+  /** Of those, the ones this student has no score for */
+  missingAssessments: number;
+  /** Term percentages in term order; weight as a fraction of the final grade */
+  terms: Array<{ weight: number; percent: number | null }>;
+  passingPercentage: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+  absenceRate: number | null;
+  missingAssessments: number;
+  trend: number | null;
+  projectedFinal: number | null;
+}
+
+// Points each signal contributes at full strength (sums to 100)
+export const RISK_WEIGHTS: Record<RiskFactor, number> = {
+  ABSENCES: 30,
+  MISSING_WORK: 25,
+  DECLINING: 15,
+  PROJECTED_FAIL: 30,
+};
+
+// Signal strength reaches 1 at: 20% absences, 30% of graded work missing,
+// a 10-point drop between terms, and a projection 10 points below passing
+// (it starts 5 points above passing)
+const FULL_ABSENCE_RATE = 20;
+const FULL_MISSING_RATE = 0.3;
+const FULL_DECLINE = 10;
+const PROJECTION_MARGIN = 5;
+const FULL_PROJECTION_GAP = 15;
+
+export const RISK_LEVEL_THRESHOLDS = { HIGH: 50, MODERATE: 25 };
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Projected final percentage from the terms graded so far, re-weighted as if
+ * they were the whole course
+ */
+export function projectFinalPercentage(
+  terms: Array<{ weight: number; percent: number | null }>
+): number | null {
+  const graded = terms.filter((term) => term.percent !== null);
+  const totalWeight = graded.reduce((sum, term) => sum + term.weight, 0);
+  if (graded.length === 0 || totalWeight <= 0) return null;
+  return (
+    graded.reduce((sum, term) => sum + term.percent! * term.weight, 0) /
+    totalWeight
+  );
+}
+
+/**
+ * Score a student's risk of failing a course (0-100, higher is worse) from
+ * absences, missing work, the trend across terms and the projected final grade
+ */
+export function computeRiskScore(input: RiskInput): RiskAssessment {
+  const { attendance } = input;
+  const sessions =
+    attendance.present +
+    attendance.late +
+    attendance.excused +
+    attendance.absent;
+  const absenceRate =
+    sessions > 0 ? (attendance.absent / sessions) * 100 : null;
+
+  const graded = input.terms
+    .map((term) => term.percent)
+    .filter((p): p is number => p !== null);
+  const trend =
+    graded.length >= 2
+      ? graded[graded.length - 1] - graded[graded.length - 2]
+      : null;
+  const projectedFinal = projectFinalPercentage(input.terms);
+
+  const strength: Record<RiskFactor, number> = {
+    ABSENCES: clamp01((absenceRate ?? 0) / FULL_ABSENCE_RATE),
+    MISSING_WORK:
+      input.gradedAssessments > 0
+        ? clamp01(
+            input.missingAssessments /
+              input.gradedAssessments /
+              FULL_MISSING_RATE
+          )
+        : 0,
+    DECLINING: trend !== null ? clamp01(-trend / FULL_DECLINE) : 0,
+    PROJECTED_FAIL:
+      projectedFinal !== null
+        ? clamp01(
+            (input.passingPercentage + PROJECTION_MARGIN - projectedFinal) /
+              FULL_PROJECTION_GAP
+          )
+        : 0,
+  };
+
+  const factors = (Object.keys(strength) as RiskFactor[]).filter(
+    (factor) => strength[factor] >= 0.5
+  );
+  const score = Math.round(
+    (Object.keys(strength) as RiskFactor[]).reduce(
+      (sum, factor) => sum + strength[factor] * RISK_WEIGHTS[factor],
+      0
+    )
+  );
+
+  return {
+    score,
+    level:
+      score >= RISK_LEVEL_THRESHOLDS.HIGH
+        ? "HIGH"
+        : score >= RISK_LEVEL_THRESHOLDS.MODERATE
+        ? "MODERATE"
+        : "LOW",
+    factors,
+    absenceRate:
+      absenceRate === null ? null : Math.round(absenceRate * 10) / 10,
+    missingAssessments: input.missingAssessments,
+    trend: trend === null ? null : Math.round(trend * 10) / 10,
+    projectedFinal:
+      projectedFinal === null ? null : Math.round(projectedFinal * 100) / 100,
+  };
+}
@@ -0,0 +1,270 @@
+import { prisma } from "@/lib/prisma";
+import { GradingScaleType } from "@prisma/client";
+import { recomputeTermGrades } from "./grading";
+import { validateGradingScale } from "./grading-engine";
+
+export interface GradingScaleInput {
+  name: string;
+  description?: string | null;
+  type?: GradingScaleType;
+  department?: string | null;
+  isDefault?: boolean;
+  passingGrade: number;
+  lowerIsBetter?: boolean;
+  entries: Array<{ minPercentage: number; label: string; value: number }>;
+}
+
+const scaleInclude = {
+  entries: { orderBy: { minPercentage: "desc" as const } },
+  _count: { select: { courses: true } },
+};
+
+// Helper: Validate input and normalize entries (highest cutoff first)
+function normalizeScaleInput(data: GradingScaleInput) {
+  if (!data.name?.trim()) {
+    throw new Error("Grading scale name is required");
+  }
+
+  const entries = (data.entries || []).map((entry) => ({
+    minPercentage: Number(entry.minPercentage),
+    label: String(entry.label ?? "").trim(),
+    value: Number(entry.value),
+  }));
+  const passingGrade = Number(data.passingGrade);
+
+  const validationError = validateGradingScale({ entries, passingGrade });
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  return {
+    entries: entries
+      .sort((a, b) => b.minPercentage - a.minPercentage)
+      .map((entry, index) => ({ ...entry, order: index })),
+    passingGrade,
+  };
+}
+
+// Get grading scales, optionally limited to a department (plus school-wide scales)
+export async function getGradingScales(filters?: { department?: string }) {
+  return prisma.gradingScale.findMany({
+    where: filters?.department
+      ? {
+          OR: [{ department: filters.department }, { department: null }],
+        }
+      : undefined,
+    include: scaleInclude,
+    orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+  });
+}
+
+// Get a single grading scale
+export async function getGradingScale(id: string) {
+  return prisma.gradingScale.findUnique({
+    where: { id },
+    include: scaleInclude,
+  });
+}
+
+// Create a grading scale
+export async function createGradingScale(
+  data: GradingScaleInput,
+  createdById?: string
+) {
+  const { entries, passingGrade } = normalizeScaleInput(data);
+  const department = data.department?.trim() || null;
+
+  // Only one default per department (or school-wide)
+  if (data.isDefault) {
+    await prisma.gradingScale.updateMany({
+      where: { department, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  const scale = await prisma.gradingScale.create({
+    data: {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      type: data.type ?? GradingScaleType.NUMERIC,
+      department,
+      isDefault: !!data.isDefault,
+      passingGrade,
+      lowerIsBetter: data.lowerIsBetter ?? true,
+      createdById: createdById ?? null,
+      entries: { create: entries },
+    },
+    include: scaleInclude,
+  });
+
+  if (scale.isDefault) {
+    await recomputeAffectedCourses(scale.id);
+  }
+
+  return scale;
+}
+
+// Update a grading scale (entries are replaced as a whole)
+export async function updateGradingScale(id: string, data: GradingScaleInput) {
+  const existing = await prisma.gradingScale.findUnique({
+    where: { id },
+    include: scaleInclude,
+  });
+
+  if (!existing) {
+    throw new Error("Grading scale not found");
+  }
+
+  const { entries, passingGrade } = normalizeScaleInput(data);
+  const department =
+    data.department !== undefined
+      ? data.department?.trim() || null
+      : existing.department;
+  const isDefault = data.isDefault ?? existing.isDefault;
+
+  if (isDefault) {
+    await prisma.gradingScale.updateMany({
+      where: { department, isDefault: true, id: { not: id } },
+      data: { isDefault: false },
+    });
+  }
+
+  // Entries are replaced together with the scale so grades never see a partial table
+  const [, scale] = await prisma.$transaction([
+    prisma.gradingScaleEntry.deleteMany({ where: { scaleId: id } }),
+    prisma.gradingScale.update({
+      where: { id },
+      data: {
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+        type: data.type ?? existing.type,
+        department,
+        isDefault,
+        passingGrade,
+        lowerIsBetter: data.lowerIsBetter ?? existing.lowerIsBetter,
+        entries: { create: entries },
+      },
+      include: scaleInclude,
+    }),
+  ]);
+
+  // A former default no longer applies to its department's courses either
+  await recomputeAffectedCourses(
+    id,
+    existing.isDefault ? existing.department : undefined
+  );
+
+  return { before: existing, scale };
+}
+
+// Delete a grading scale that no course uses
+export async function deleteGradingScale(id: string) {
+  const existing = await prisma.gradingScale.findUnique({
+    where: { id },
+    include: scaleInclude,
+  });
+
+  if (!existing) {
+    throw new Error("Grading scale not found");
+  }
+
+  if (existing._count.courses > 0) {
+    throw new Error(
+      `Grading scale is in use by ${existing._count.courses} course(s)`
+    );
+  }
+
+  await prisma.gradingScale.delete({ where: { id } });
+
+  if (existing.isDefault) {
+    await recomputeDepartmentCourses(existing.department);
+  }
+
+  return existing;
+}
+
+// Assign a grading scale to a course (null falls back to the default scale)
+export async function setCourseGradingScale(
+  courseSlug: string,
+  gradingScaleId: string | null
+) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true, gradingScaleId: true },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  if (gradingScaleId) {
+    const scale = await prisma.gradingScale.findUnique({
+      where: { id: gradingScaleId },
+      select: { id: true },
+    });
+    if (!scale) {
+      throw new Error("Grading scale not found");
+    }
+  }
+
+  await prisma.course.update({
+    where: { id: course.id },
+    data: { gradingScaleId },
+  });
+
+  // Stored term grades must follow the new scale
+  await recomputeTermGrades(course.id);
+
+  return { courseId: course.id, before: course.gradingScaleId, gradingScaleId };
+}
+
+// Helper: Recompute stored term grades of active courses that resolve to a scale
+async function recomputeAffectedCourses(
+  scaleId: string,
+  previousDefaultDepartment?: string | null
+) {
+  const scale = await prisma.gradingScale.findUnique({
+    where: { id: scaleId },
+    select: { department: true, isDefault: true },
+  });
+
+  const courses = await prisma.course.findMany({
+    where: { gradingScaleId: scaleId, status: "ACTIVE" },
+    select: { id: true },
+  });
+  const courseIds = new Set(courses.map((c) => c.id));
+
+  if (scale?.isDefault) {
+    (await getDepartmentCourseIds(scale.department)).forEach((id) =>
+      courseIds.add(id)
+    );
+  }
+  if (previousDefaultDepartment !== undefined) {
+    (await getDepartmentCourseIds(previousDefaultDepartment)).forEach((id) =>
+      courseIds.add(id)
+    );
+  }
+
+  for (const courseId of courseIds) {
+    await recomputeTermGrades(courseId);
+  }
+}
+
+async function recomputeDepartmentCourses(department: string | null) {
+  for (const courseId of await getDepartmentCourseIds(department)) {
+    await recomputeTermGrades(courseId);
+  }
+}
+
+// Helper: Active courses without their own scale that fall back to a department default
+async function getDepartmentCourseIds(department: string | null) {
+  const courses = await prisma.course.findMany({
+    where: {
+      gradingScaleId: null,
+      status: "ACTIVE",
+      ...(department ? { faculty: { department } } : {}),
+    },
+    select: { id: true },
+  });
+  return courses.map((c) => c.id);
+}
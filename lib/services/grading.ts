@@ -1,6 +1,23 @@
 import { prisma } from "@/lib/prisma";
-import { AssessmentType } from "@prisma/client";
+import { AssessmentType, GradeSubmissionStatus } from "@prisma/client";
 import { getCriteriaLinks } from "./criteria";
+import {
+  computeFinalGrade,
+  computeTermGrade,
+  CriteriaMeta,
+  DEFAULT_GRADING_SCALE,
+  DEFAULT_TERM_DEFINITIONS,
+  EngineAssessment,
+  EngineTermConfig,
+  FinalGradeResult,
+  getTermWeights,
+  GradingScaleDefinition,
+  lookupFromRecord,
+  TermDefinition,
+  TermGradeResult,
+  toTermKey,
+  validateTermDefinitions,
+} from "./grading-engine";
 
 // Get term configurations for a course
 // Note: Not cached to ensure fresh data after saves
@@ -23,24 +40,7 @@ export async function getTermConfigs(courseSlug: string) {
 
   const termConfigs: Record<string, any> = {};
   course.termConfigs.forEach((config) => {
-    termConfigs[config.term] = {
-      id: config.id,
-      term: config.term,
-      ptWeight: config.ptWeight,
-      quizWeight: config.quizWeight,
-      examWeight: config.examWeight,
-      assessments: config.assessments.map((a: any) => ({
-        id: a.id,
-        name: a.name,
-        type: a.type,
-        maxScore: a.maxScore,
-        date: a.date ? a.date.toISOString().split("T")[0] : null,
-        enabled: a.enabled,
-        order: a.order,
-        linkedCriteriaId: a.linkedCriteriaId ?? null,
-        transmutationBase: a.transmutationBase ?? 0,
-      })),
-    };
+    termConfigs[config.term] = serializeTermConfig(config);
   });
 
   return termConfigs;
@@ -67,6 +67,18 @@ export async function saveTermConfigs(
     }
   }
 
+  // Only the course's own terms can be configured
+  const termKeys = new Set(
+    (await getCourseTerms(course.id)).map((term) => term.key)
+  );
+  for (const term of Object.keys(termConfigs)) {
+    if (!termKeys.has(term)) {
+      throw new Error(`${term}: Not a term of this course`);
+    }
+  }
+
+  await assertTermsUnlocked(course.id, Object.keys(termConfigs));
+
   // ✅ OPTIMIZATION: Collect all unique criteriaIds that will be linked
   const criteriaIdsToFetch = new Set<string>();
   Object.values(termConfigs).forEach((config: any) => {
@@ -207,24 +219,10 @@ export async function saveTermConfigs(
         // Return updated term config with real assessment IDs
         return {
           term,
-          termConfig: {
-            id: termConfig.id,
-            term: termConfig.term,
-            ptWeight: termConfig.ptWeight,
-            quizWeight: termConfig.quizWeight,
-            examWeight: termConfig.examWeight,
-            assessments: savedAssessments.map((a: any) => ({
-              id: a.id,
-              name: a.name,
-              type: a.type,
-              maxScore: a.maxScore,
-              date: a.date ? a.date.toISOString().split("T")[0] : null,
-              enabled: a.enabled,
-              order: a.order,
-              linkedCriteriaId: a.linkedCriteriaId ?? null,
-              transmutationBase: a.transmutationBase ?? 0,
-            })),
-          },
+          termConfig: serializeTermConfig({
+            ...termConfig,
+            assessments: savedAssessments,
+          }),
         };
       } catch (error: any) {
         // Check if error is due to missing column (migration not run)
@@ -251,6 +249,9 @@ export async function saveTermConfigs(
     updatedTermConfigs[result.term] = result.termConfig;
   });
 
+  // Weights or assessments changed: refresh persisted term grades
+  await refreshTermGrades(course.id);
+
   return { success: true, termConfigs: updatedTermConfigs };
 }
 
@@ -289,6 +290,7 @@ export async function getAssessmentScores(courseSlug: string) {
         criteriaId: true,
         value: true,
         scores: true, // Include raw rubric scores
+        peerMultiplier: true,
       },
     }),
   ]);
@@ -312,6 +314,7 @@ export async function getAssessmentScores(courseSlug: string) {
       score: grade.value, // Keep percentage for backward compatibility
       rawScores: grade.scores, // Add raw rubric scores
       criteriaId: grade.criteriaId, // Add for lookup
+      peerMultiplier: grade.peerMultiplier,
     };
   });
 
@@ -332,13 +335,20 @@ export async function saveAssessmentScore(data: {
 
   const assessment = await prisma.assessment.findUnique({
     where: { id: assessmentId },
-    select: { maxScore: true },
+    select: {
+      maxScore: true,
+      termConfig: { select: { courseId: true, term: true } },
+    },
   });
 
   if (!assessment) {
     throw new Error("Assessment not found");
   }
 
+  await assertTermsUnlocked(assessment.termConfig.courseId, [
+    assessment.termConfig.term,
+  ]);
+
   if (score !== null && score > assessment.maxScore) {
     throw new Error(`Score cannot exceed max score of ${assessment.maxScore}`);
   }
@@ -350,6 +360,7 @@ export async function saveAssessmentScore(data: {
         assessmentId,
       },
     });
+    await refreshTermGrades(assessment.termConfig.courseId, [studentId]);
     return { success: true, deleted: true };
   }
 
@@ -370,6 +381,8 @@ export async function saveAssessmentScore(data: {
     },
   });
 
+  await refreshTermGrades(assessment.termConfig.courseId, [studentId]);
+
   return {
     success: true,
     score: {
@@ -380,8 +393,9 @@ export async function saveAssessmentScore(data: {
   };
 }
 
-// Save multiple assessment scores in bulk
-export async function saveAssessmentScoresBulk(
+// Validate bulk assessment scores and build the queries that write them
+// Callers run the queries in a transaction, then call refreshTermGrades
+export async function prepareAssessmentScoresBulk(
   courseSlug: string,
   scores: Array<{
     studentId: string;
@@ -403,6 +417,21 @@ export async function saveAssessmentScoresBulk(
     throw new Error("Course not found");
   }
 
+  // Scores (and deletions) may only touch terms that are not locked
+  const touchedTerms = await prisma.termConfiguration.findMany({
+    where: {
+      courseId: course.id,
+      assessments: {
+        some: { id: { in: [...new Set(scores.map((s) => s.assessmentId))] } },
+      },
+    },
+    select: { term: true },
+  });
+  await assertTermsUnlocked(
+    course.id,
+    touchedTerms.map((t) => t.term)
+  );
+
   // Filter out null scores for validation (they're valid for deletion)
   const scoresToValidate = scores.filter((s) => s.score !== null);
 
@@ -441,134 +470,315 @@ export async function saveAssessmentScoresBulk(
     }
   }
 
-  // Use transaction to save all scores
-  const results = await prisma.$transaction(
-    scores.map((scoreData) => {
-      if (scoreData.score === null) {
-        // Delete if score is null
-        return prisma.assessmentScore.deleteMany({
-          where: {
-            studentId: scoreData.studentId,
-            assessmentId: scoreData.assessmentId,
-          },
-        });
-      }
-
-      // Upsert the score
-      return prisma.assessmentScore.upsert({
+  const queries = scores.map((scoreData) => {
+    if (scoreData.score === null) {
+      // Delete if score is null
+      return prisma.assessmentScore.deleteMany({
         where: {
-          assessmentId_studentId: {
-            assessmentId: scoreData.assessmentId,
-            studentId: scoreData.studentId,
-          },
-        },
-        create: {
           studentId: scoreData.studentId,
           assessmentId: scoreData.assessmentId,
-          score: scoreData.score,
-        },
-        update: {
-          score: scoreData.score,
         },
       });
-    })
+    }
+
+    // Upsert the score
+    return prisma.assessmentScore.upsert({
+      where: {
+        assessmentId_studentId: {
+          assessmentId: scoreData.assessmentId,
+          studentId: scoreData.studentId,
+        },
+      },
+      create: {
+        studentId: scoreData.studentId,
+        assessmentId: scoreData.assessmentId,
+        score: scoreData.score,
+      },
+      update: {
+        score: scoreData.score,
+      },
+    });
+  });
+
+  return { courseId: course.id, queries };
+}
+
+// Save multiple assessment scores in bulk
+export async function saveAssessmentScoresBulk(
+  courseSlug: string,
+  scores: Array<{
+    studentId: string;
+    assessmentId: string;
+    score: number | null;
+  }>
+) {
+  const { courseId, queries } = await prepareAssessmentScoresBulk(
+    courseSlug,
+    scores
   );
 
+  // Use transaction to save all scores
+  const results = await prisma.$transaction(queries);
+
+  await refreshTermGrades(courseId, [
+    ...new Set(scores.map((s) => s.studentId)),
+  ]);
+
   return {
     success: true,
     savedCount: results.length,
   };
 }
 
-// Helper: Compute term grade from assessment scores
-function computeTermGradeFromScores(
-  termConfig: any,
-  assessmentScores: Record<string, any>,
-  studentId: string
-): number | null {
-  const ptAssessments = termConfig.assessments.filter(
-    (a: any) => a.type === "PT" && a.enabled
-  );
-  const quizAssessments = termConfig.assessments.filter(
-    (a: any) => a.type === "QUIZ" && a.enabled
-  );
-  const examAssessment = termConfig.assessments.find(
-    (a: any) => a.type === "EXAM" && a.enabled
-  );
+// Helper: Transform course term rows to engine definitions (default structure if none)
+export function toTermDefinitions(
+  terms: Array<{ key: string; label: string; weight: number }>
+): TermDefinition[] {
+  if (terms.length === 0) return DEFAULT_TERM_DEFINITIONS;
+  return terms.map((term) => ({
+    key: term.key,
+    label: term.label,
+    weight: term.weight,
+  }));
+}
 
-  // Calculate PT average percentage
-  const ptPercentages: number[] = [];
-  ptAssessments.forEach((pt: any) => {
-    const key = `${studentId}:${pt.id}`;
-    const scoreData = assessmentScores[key];
-    if (
-      scoreData?.score !== null &&
-      scoreData?.score !== undefined &&
-      pt.maxScore > 0
-    ) {
-      const percentage = (scoreData.score / pt.maxScore) * 100;
-      ptPercentages.push(percentage);
-    }
+// Get a course's ordered terms and their final-grade weights
+export async function getCourseTerms(
+  courseId: string
+): Promise<TermDefinition[]> {
+  const terms = await prisma.courseTerm.findMany({
+    where: { courseId },
+    orderBy: { order: "asc" },
   });
-  const ptAvg =
-    ptPercentages.length > 0
-      ? ptPercentages.reduce((a, b) => a + b, 0) / ptAssessments.length
-      : 0;
-
-  // Calculate Quiz average percentage
-  const quizPercentages: number[] = [];
-  quizAssessments.forEach((quiz: any) => {
-    const key = `${studentId}:${quiz.id}`;
-    const scoreData = assessmentScores[key];
-    if (
-      scoreData?.score !== null &&
-      scoreData?.score !== undefined &&
-      quiz.maxScore > 0
-    ) {
-      const percentage = (scoreData.score / quiz.maxScore) * 100;
-      quizPercentages.push(percentage);
-    }
+  return toTermDefinitions(terms);
+}
+
+// Replace a course's term list (order is the array order)
+export async function saveCourseTerms(
+  courseSlug: string,
+  terms: Array<{ key?: string | null; label: string; weight: number }>
+) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      terms: { orderBy: { order: "asc" } },
+      termConfigs: { select: { id: true, term: true } },
+    },
   });
-  const quizAvg =
-    quizPercentages.length > 0
-      ? quizPercentages.reduce((a, b) => a + b, 0) / quizAssessments.length
-      : 0;
-
-  // Calculate Exam percentage
-  let examPercentage: number | null = null;
-  if (examAssessment) {
-    const key = `${studentId}:${examAssessment.id}`;
-    const scoreData = assessmentScores[key];
-    if (
-      scoreData?.score !== null &&
-      scoreData?.score !== undefined &&
-      examAssessment.maxScore > 0
-    ) {
-      examPercentage = (scoreData.score / examAssessment.maxScore) * 100;
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  const definitions: TermDefinition[] = (terms || []).map((term) => ({
+    key: term.key?.trim() || toTermKey(String(term.label ?? "")),
+    label: String(term.label ?? "").trim(),
+    weight: Number(term.weight),
+  }));
+
+  const validationError = validateTermDefinitions(definitions);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  // Final grades weigh every term, so a locked sheet freezes the term list
+  const before = toTermDefinitions(course.terms);
+  if (JSON.stringify(before) !== JSON.stringify(definitions)) {
+    await assertTermsUnlocked(
+      course.id,
+      before.map((term) => term.key)
+    );
+  }
+
+  // Dropping a term deletes its configuration, so refuse once scores exist
+  const keys = new Set(definitions.map((term) => term.key));
+  const removedConfigs = course.termConfigs.filter(
+    (config) => !keys.has(config.term)
+  );
+  if (removedConfigs.length > 0) {
+    const recordedScores = await prisma.assessmentScore.count({
+      where: {
+        assessment: {
+          termConfigId: { in: removedConfigs.map((config) => config.id) },
+        },
+      },
+    });
+    if (recordedScores > 0) {
+      throw new Error(
+        `Cannot remove ${removedConfigs
+          .map((config) => config.term)
+          .join(", ")}: scores have already been recorded`
+      );
     }
   }
 
-  // If no exam score, can't compute term grade
-  if (examPercentage === null) return null;
+  await prisma.$transaction([
+    prisma.termConfiguration.deleteMany({
+      where: { id: { in: removedConfigs.map((config) => config.id) } },
+    }),
+    prisma.courseTerm.deleteMany({ where: { courseId: course.id } }),
+    prisma.courseTerm.createMany({
+      data: definitions.map((term, index) => ({
+        courseId: course.id,
+        key: term.key,
+        label: term.label,
+        weight: term.weight,
+        order: index,
+      })),
+    }),
+  ]);
 
-  // Calculate weighted total
-  const ptWeighted = (ptAvg / 100) * termConfig.ptWeight;
-  const quizWeighted = (quizAvg / 100) * termConfig.quizWeight;
-  const examWeighted = (examPercentage / 100) * termConfig.examWeight;
-  const totalPercentage = ptWeighted + quizWeighted + examWeighted;
+  // Final grades depend on the term weights
+  await refreshTermGrades(course.id);
 
-  return totalPercentage;
+  return {
+    courseId: course.id,
+    before,
+    terms: definitions,
+  };
+}
+
+// Helper: Load assessment scores and linked criteria grades for a course
+// Keys follow the class record convention (see grading-engine ScoreLookup)
+async function loadCourseScores(courseId: string, studentId?: string) {
+  const [assessmentScores, criteriaScores] = await Promise.all([
+    prisma.assessmentScore.findMany({
+      where: {
+        studentId,
+        assessment: {
+          termConfig: {
+            courseId,
+          },
+        },
+      },
+      select: {
+        studentId: true,
+        assessmentId: true,
+        score: true,
+      },
+    }),
+    prisma.grade.findMany({
+      where: {
+        courseId,
+        studentId,
+      },
+      select: {
+        studentId: true,
+        criteriaId: true,
+        value: true,
+        scores: true, // ✅ Add raw rubric scores
+        peerMultiplier: true,
+        total: true, // ✅ Add total percentage
+        criteria: {
+          // ✅ Include criteria with rubrics in SAME query (avoids connection pool exhaustion)
+          select: {
+            id: true,
+            scoringRange: true,
+            rubrics: {
+              select: {
+                id: true,
+                name: true,
+                percentage: true,
+              },
+              orderBy: { createdAt: "asc" }, // Ensure consistent order
+            },
+          },
+        },
+      },
+    }),
+  ]);
+
+  const scoresMap: Record<string, any> = {};
+
+  assessmentScores.forEach((score) => {
+    const key = `${score.studentId}:${score.assessmentId}`;
+    scoresMap[key] = {
+      studentId: score.studentId,
+      assessmentId: score.assessmentId,
+      score: score.score,
+    };
+  });
+
+  // Build criteria metadata map for efficient lookup
+  const criteriaMetadata: Record<string, CriteriaMeta> = {};
+
+  criteriaScores.forEach((grade: any) => {
+    const key = `${grade.studentId}:criteria:${grade.criteriaId}`;
+    scoresMap[key] = {
+      studentId: grade.studentId,
+      assessmentId: `criteria:${grade.criteriaId}`,
+      score: grade.value, // Keep percentage for backward compatibility
+      rawScores: grade.scores, // ✅ Add raw rubric scores
+      criteriaId: grade.criteriaId, // ✅ Add for lookup
+      peerMultiplier: grade.peerMultiplier,
+    };
+
+    // Cache criteria metadata (only once per criteria)
+    if (grade.criteria && !criteriaMetadata[grade.criteriaId]) {
+      criteriaMetadata[grade.criteriaId] = {
+        scoringRange: Number(grade.criteria.scoringRange) || 5,
+        rubrics: grade.criteria.rubrics.map((r: any) => ({
+          percentage: r.percentage,
+        })),
+      };
+    }
+  });
+
+  return { scoresMap, criteriaMetadata };
+}
+
+// Term config in the client/engine shape (dates as yyyy-MM-dd)
+export interface SerializedAssessment extends EngineAssessment {
+  name: string;
+  type: AssessmentType;
+  date: string | null;
+  order: number;
+  linkedCriteriaId: string | null;
+  transmutationBase: number;
+}
+
+export interface SerializedTermConfig extends EngineTermConfig {
+  id: string;
+  assessments: SerializedAssessment[];
+}
+
+// Helper: Transform a term config row to the client/engine shape
+function serializeTermConfig(config: any): SerializedTermConfig {
+  return {
+    id: config.id,
+    term: config.term,
+    ptWeight: config.ptWeight,
+    quizWeight: config.quizWeight,
+    examWeight: config.examWeight,
+    assessments: config.assessments.map((a: any) => ({
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      maxScore: a.maxScore,
+      date: a.date ? a.date.toISOString().split("T")[0] : null,
+      enabled: a.enabled,
+      order: a.order,
+      linkedCriteriaId: a.linkedCriteriaId ?? null,
+      transmutationBase: a.transmutationBase ?? 0,
+    })),
+  };
 }
 
 // Batched: Get class record data (students, term-configs, assessment-scores, criteria-links)
 // Note: Not cached to ensure fresh data after grade saves
-export async function getClassRecordData(courseSlug: string) {
+// options.studentId limits students and scores to one student (student portal)
+export async function getClassRecordData(
+  courseSlug: string,
+  options?: { studentId?: string }
+) {
   // Single query to get course with all needed relations
   const course = await prisma.course.findUnique({
     where: { slug: courseSlug },
     select: {
       id: true,
       status: true,
+      terms: { orderBy: { order: "asc" } },
       termConfigs: {
         include: {
           assessments: {
@@ -584,134 +794,41 @@ export async function getClassRecordData(courseSlug: string) {
 
   // Batch remaining queries in parallel (students, assessment scores, criteria links)
   // Note: criteriaLinks will be empty if course is not ACTIVE (handled by getCriteriaLinks)
-  const [students, assessmentScoresResult, criteriaLinks] = await Promise.all([
-    // Students
-    prisma.student.findMany({
-      where: {
-        coursesEnrolled: {
-          some: { id: course.id },
-        },
-      },
-      select: {
-        id: true,
-        studentId: true,
-        firstName: true,
-        lastName: true,
-        middleInitial: true,
-        image: true,
-      },
-      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
-    }),
-
-    // Assessment scores - combined query
-    (async () => {
-      const [assessmentScores, criteriaScores] = await Promise.all([
-        prisma.assessmentScore.findMany({
-          where: {
-            assessment: {
-              termConfig: {
-                courseId: course.id,
-              },
-            },
-          },
-          select: {
-            studentId: true,
-            assessmentId: true,
-            score: true,
-          },
-        }),
-        prisma.grade.findMany({
-          where: {
-            courseId: course.id,
-          },
-          select: {
-            studentId: true,
-            criteriaId: true,
-            value: true,
-            scores: true, // ✅ Add raw rubric scores
-            total: true, // ✅ Add total percentage
-            criteria: {
-              // ✅ Include criteria with rubrics in SAME query (avoids connection pool exhaustion)
-              select: {
-                id: true,
-                scoringRange: true,
-                rubrics: {
-                  select: {
-                    id: true,
-                    name: true,
-                    percentage: true,
-                  },
-                  orderBy: { createdAt: "asc" }, // Ensure consistent order
-                },
-              },
-            },
+  const [students, assessmentScoresResult, criteriaLinks, gradingScale] =
+    await Promise.all([
+      // Students
+      prisma.student.findMany({
+        where: {
+          id: options?.studentId,
+          coursesEnrolled: {
+            some: { id: course.id },
           },
-        }),
-      ]);
-
-      const scoresMap: Record<string, any> = {};
-
-      assessmentScores.forEach((score) => {
-        const key = `${score.studentId}:${score.assessmentId}`;
-        scoresMap[key] = {
-          studentId: score.studentId,
-          assessmentId: score.assessmentId,
-          score: score.score,
-        };
-      });
+        },
+        select: {
+          id: true,
+          studentId: true,
+          firstName: true,
+          lastName: true,
+          middleInitial: true,
+          image: true,
+        },
+        orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      }),
 
-      // Build criteria metadata map for efficient lookup
-      const criteriaMetadata: Record<string, any> = {};
-
-      criteriaScores.forEach((grade: any) => {
-        const key = `${grade.studentId}:criteria:${grade.criteriaId}`;
-        scoresMap[key] = {
-          studentId: grade.studentId,
-          assessmentId: `criteria:${grade.criteriaId}`,
-          score: grade.value, // Keep percentage for backward compatibility
-          rawScores: grade.scores, // ✅ Add raw rubric scores
-          criteriaId: grade.criteriaId, // ✅ Add for lookup
-        };
+      // Assessment scores - combined query
+      loadCourseScores(course.id, options?.studentId),
 
-        // Cache criteria metadata (only once per criteria)
-        if (grade.criteria && !criteriaMetadata[grade.criteriaId]) {
-          criteriaMetadata[grade.criteriaId] = {
-            scoringRange: Number(grade.criteria.scoringRange) || 5,
-            rubrics: grade.criteria.rubrics.map((r: any) => ({
-              percentage: r.percentage,
-            })),
-          };
-        }
-      });
+      // Criteria links
+      getCriteriaLinks(courseSlug),
 
-      return { scoresMap, criteriaMetadata };
-    })(),
-
-    // Criteria links
-    getCriteriaLinks(courseSlug),
-  ]);
+      // Grading scale the class record resolves grades through
+      resolveCourseGradingScale(course.id),
+    ]);
 
   // Transform term configs to match getTermConfigs format
-  const termConfigs: Record<string, any> = {};
+  const termConfigs: Record<string, SerializedTermConfig> = {};
   course.termConfigs.forEach((config) => {
-    termConfigs[config.term] = {
-      id: config.id,
-      term: config.term,
-      ptWeight: config.ptWeight,
-      quizWeight: config.quizWeight,
-      examWeight: config.examWeight,
-      assessments: config.assessments.map((a: any) => ({
-        id: a.id,
-        name: a.name,
-        type: a.type,
-        maxScore: a.maxScore,
-        date: a.date ? a.date.toISOString().split("T")[0] : null,
-        enabled: a.enabled,
-        order: a.order,
-        linkedCriteriaId: a.linkedCriteriaId ?? null,
-        transmutationBase: a.transmutationBase ?? 0,
-      })),
-    };
+    termConfigs[config.term] = serializeTermConfig(config);
   });
 
   // Ensure assessmentScores is never null
@@ -726,5 +843,379 @@ export async function getClassRecordData(courseSlug: string) {
     assessmentScores,
     criteriaLinks,
     criteriaMetadata, // ✅ Add criteria metadata
+    gradingScale,
+    terms: toTermDefinitions(course.terms),
+  };
+}
+
+export interface StudentCourseGrades {
+  terms: Record<string, TermGradeResult>;
+  final: FinalGradeResult | null;
+}
+
+// Convert a stored GradingScale (with entries) into the engine's definition
+export function toGradingScaleDefinition(scale: {
+  id: string;
+  name: string;
+  type: string;
+  passingGrade: number;
+  lowerIsBetter: boolean;
+  entries: Array<{ minPercentage: number; label: string; value: number }>;
+}): GradingScaleDefinition {
+  return {
+    id: scale.id,
+    name: scale.name,
+    type: scale.type === "LETTER" ? "LETTER" : "NUMERIC",
+    passingGrade: scale.passingGrade,
+    lowerIsBetter: scale.lowerIsBetter,
+    entries: scale.entries.map((entry) => ({
+      minPercentage: entry.minPercentage,
+      label: entry.label,
+      value: entry.value,
+    })),
+  };
+}
+
+// Resolve the grading scale a course uses:
+// the course's own scale → its faculty department's default → the school-wide
+// default → the built-in 1.00-5.00 table
+export async function resolveCourseGradingScale(
+  courseId: string
+): Promise<GradingScaleDefinition> {
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    select: {
+      gradingScale: { include: { entries: true } },
+      faculty: { select: { department: true } },
+    },
+  });
+
+  const department = course?.faculty?.department ?? null;
+  const defaults = await prisma.gradingScale.findMany({
+    where: {
+      isDefault: true,
+      OR: department
+        ? [{ department }, { department: null }]
+        : [{ department: null }],
+    },
+    include: { entries: true },
+  });
+
+  return pickCourseGradingScale(
+    course?.gradingScale ?? null,
+    department,
+    defaults
+  );
+}
+
+type ScaleWithEntries = Parameters<typeof toGradingScaleDefinition>[0];
+
+// Same resolution as resolveCourseGradingScale, from rows already loaded
+// (bulk readers fetch the default scales once)
+export function pickCourseGradingScale(
+  courseScale: ScaleWithEntries | null,
+  department: string | null,
+  defaults: Array<ScaleWithEntries & { department: string | null }>
+): GradingScaleDefinition {
+  if (courseScale && courseScale.entries.length > 0) {
+    return toGradingScaleDefinition(courseScale);
+  }
+
+  const scale =
+    defaults.find((s) => department && s.department === department) ??
+    defaults.find((s) => s.department === null);
+
+  return scale && scale.entries.length > 0
+    ? toGradingScaleDefinition(scale)
+    : DEFAULT_GRADING_SCALE;
+}
+
+// Compute every enrolled student's term and final grades through the grading engine
+// Used by the term-grades API, course analytics and leaderboards so all screens agree
+export async function computeCourseGrades(courseSlug: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      slug: true,
+      students: {
+        select: {
+          id: true,
+          studentId: true,
+          firstName: true,
+          lastName: true,
+          middleInitial: true,
+          image: true,
+        },
+        orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      },
+      terms: { orderBy: { order: "asc" } },
+      termConfigs: {
+        include: {
+          assessments: {
+            orderBy: [{ type: "asc" }, { order: "asc" }],
+          },
+        },
+      },
+    },
+  });
+
+  if (!course) return null;
+
+  const terms = toTermDefinitions(course.terms);
+  const termKeys = terms.map((term) => term.key);
+  const termWeights = getTermWeights(terms);
+
+  const [{ scoresMap, criteriaMetadata }, gradingScale] = await Promise.all([
+    loadCourseScores(course.id),
+    resolveCourseGradingScale(course.id),
+  ]);
+  const lookup = lookupFromRecord(scoresMap);
+
+  // Keep terms in the course's order; configs of removed terms are ignored
+  const termConfigs = course.termConfigs
+    .filter((config) => termKeys.includes(config.term))
+    .map(serializeTermConfig)
+    .sort((a, b) => termKeys.indexOf(a.term) - termKeys.indexOf(b.term));
+
+  const grades: Record<string, StudentCourseGrades> = {};
+  course.students.forEach((student) => {
+    const termResults: Record<string, TermGradeResult> = {};
+    termConfigs.forEach((termConfig) => {
+      termResults[termConfig.term] = computeTermGrade(
+        termConfig,
+        student.id,
+        lookup,
+        criteriaMetadata,
+        gradingScale
+      );
+    });
+    grades[student.id] = {
+      terms: termResults,
+      final: computeFinalGrade(termResults, termWeights, gradingScale),
+    };
+  });
+
+  return {
+    courseId: course.id,
+    students: course.students,
+    terms,
+    termConfigs,
+    scoresMap,
+    criteriaMetadata,
+    gradingScale,
+    grades,
+  };
+}
+
+// Recompute and persist TermGrade rows through the grading engine
+// Optionally limited to a subset of students (e.g. after a single score save)
+// Locked terms are skipped unless listed in options.includeLockedTerms
+export async function recomputeTermGrades(
+  courseId: string,
+  studentIds?: string[],
+  options?: { includeLockedTerms?: string[] }
+) {
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    select: { slug: true },
+  });
+
+  if (!course) return { success: false, updatedCount: 0 };
+
+  const computed = await computeCourseGrades(course.slug);
+  if (!computed) return { success: false, updatedCount: 0 };
+
+  const targetIds = studentIds
+    ? new Set(studentIds)
+    : new Set(computed.students.map((s) => s.id));
+
+  // Locked grade sheets keep the grades that were approved
+  const lockedTerms = await getLockedTerms(courseId);
+  const unlockedConfigs = computed.termConfigs.filter(
+    (termConfig) =>
+      !lockedTerms.has(termConfig.term) ||
+      options?.includeLockedTerms?.includes(termConfig.term)
+  );
+
+  const upserts = unlockedConfigs.flatMap((termConfig) =>
+    computed.students
+      .filter((student) => targetIds.has(student.id))
+      .map((student) => {
+        const result = computed.grades[student.id].terms[termConfig.term];
+        const data = {
+          ptWeightedScore: result.ptWeighted,
+          quizWeightedScore: result.quizWeighted,
+          examWeightedScore: result.examWeighted,
+          totalPercentage: result.totalPercent,
+          numericGrade: result.numericGrade,
+          gradeLabel: result.gradeLabel,
+          remarks: result.remarks,
+        };
+        return prisma.termGrade.upsert({
+          where: {
+            termConfigId_studentId: {
+              termConfigId: termConfig.id,
+              studentId: student.id,
+            },
+          },
+          create: {
+            termConfigId: termConfig.id,
+            studentId: student.id,
+            ...data,
+          },
+          update: data,
+        });
+      })
+  );
+
+  if (upserts.length > 0) {
+    await prisma.$transaction(upserts);
+  }
+
+  return { success: true, updatedCount: upserts.length };
+}
+
+// Write an approved grade change (the term is usually locked) and refresh that term's stored grade
+export async function applyGradeChange(data: {
+  studentId: string;
+  assessmentId: string;
+  score: number | null;
+}) {
+  const { studentId, assessmentId, score } = data;
+
+  const assessment = await prisma.assessment.findUnique({
+    where: { id: assessmentId },
+    select: {
+      maxScore: true,
+      termConfigId: true,
+      linkedCriteriaId: true,
+      termConfig: { select: { courseId: true, term: true } },
+    },
+  });
+
+  if (!assessment) {
+    throw new Error("Assessment not found");
+  }
+
+  if (assessment.linkedCriteriaId) {
+    throw new Error(
+      "Scores for this assessment come from its linked criteria and cannot be changed by request"
+    );
+  }
+
+  if (score !== null && score > assessment.maxScore) {
+    throw new Error(`Score cannot exceed max score of ${assessment.maxScore}`);
+  }
+
+  const termGradeWhere = {
+    termConfigId_studentId: {
+      termConfigId: assessment.termConfigId,
+      studentId,
+    },
+  };
+  const beforeTermGrade = await prisma.termGrade.findUnique({
+    where: termGradeWhere,
+  });
+
+  if (score === null) {
+    await prisma.assessmentScore.deleteMany({
+      where: { studentId, assessmentId },
+    });
+  } else {
+    await prisma.assessmentScore.upsert({
+      where: { assessmentId_studentId: { assessmentId, studentId } },
+      create: { studentId, assessmentId, score },
+      update: { score },
+    });
+  }
+
+  await recomputeTermGrades(assessment.termConfig.courseId, [studentId], {
+    includeLockedTerms: [assessment.termConfig.term],
+  });
+
+  const afterTermGrade = await prisma.termGrade.findUnique({
+    where: termGradeWhere,
+  });
+
+  return {
+    term: assessment.termConfig.term,
+    beforeTermGrade,
+    afterTermGrade,
   };
 }
+
+// Recompute term grades without failing the caller's write
+export async function refreshTermGrades(
+  courseId: string,
+  studentIds?: string[]
+) {
+  try {
+    await recomputeTermGrades(courseId, studentIds);
+  } catch (error) {
+    console.error("Error recomputing term grades:", error);
+  }
+}
+
+// Terms of a course whose grade sheets are read-only: under review
+// (submitted or approved) or locked
+export async function getLockedTerms(courseId: string) {
+  const locked = await prisma.gradeSubmission.findMany({
+    where: {
+      courseId,
+      status: {
+        in: [
+          GradeSubmissionStatus.SUBMITTED,
+          GradeSubmissionStatus.APPROVED,
+          GradeSubmissionStatus.LOCKED,
+        ],
+      },
+    },
+    select: { term: true },
+  });
+  return new Set(locked.map((submission) => submission.term));
+}
+
+// Helper: Reject writes that touch a locked term
+async function assertTermsUnlocked(courseId: string, terms: string[]) {
+  const lockedTerms = await getLockedTerms(courseId);
+  const locked = terms.find((term) => lockedTerms.has(term));
+  if (locked) {
+    throw new Error(`${locked}: Grades for this term are locked`);
+  }
+}
+
+// Helper: Terms whose assessments take their score from the given criteria
+async function getCriteriaTerms(courseId: string, criteriaIds: string[]) {
+  const linked = await prisma.assessment.findMany({
+    where: {
+      linkedCriteriaId: { in: criteriaIds },
+      termConfig: { courseId },
+    },
+    select: { termConfig: { select: { term: true } } },
+  });
+  return linked.map((assessment) => assessment.termConfig.term);
+}
+
+// First locked term the criteria feeds an assessment of, or null
+export async function getLockedCriteriaTerm(
+  courseId: string,
+  criteriaIds: string[]
+) {
+  const [terms, lockedTerms] = await Promise.all([
+    getCriteriaTerms(courseId, criteriaIds),
+    getLockedTerms(courseId),
+  ]);
+  return terms.find((term) => lockedTerms.has(term)) ?? null;
+}
+
+// Reject criteria grade writes when the criteria feeds an assessment of a locked term
+export async function assertCriteriaUnlocked(
+  courseId: string,
+  criteriaIds: string[]
+) {
+  await assertTermsUnlocked(
+    courseId,
+    await getCriteriaTerms(courseId, criteriaIds)
+  );
+}
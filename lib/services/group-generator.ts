@@ -0,0 +1,474 @@
+import { prisma } from "@/lib/prisma";
+import { toTermDefinitions } from "./grading";
+
+export type GroupBalanceBy = "NONE" | "GRADE" | "ATTENDANCE";
+export type GroupLeaderRule =
+  | "NONE"
+  | "RANDOM"
+  | "HIGHEST_GRADE"
+  | "BEST_ATTENDANCE";
+
+export interface GroupGeneratorOptions {
+  minSize: number;
+  maxSize: number;
+  balanceBy?: GroupBalanceBy;
+  // Pairs of student ids
+  keepTogether?: Array<[string, string]>;
+  keepApart?: Array<[string, string]>;
+  avoidRepeatPairs?: boolean;
+  leaderRule?: GroupLeaderRule;
+  // Same seed and inputs give the same groups
+  seed?: number;
+}
+
+export interface GeneratorStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  // Current term grade (%) and share of sessions attended (%)
+  grade: number | null;
+  attendanceRate: number | null;
+}
+
+export interface GeneratedGroup {
+  students: GeneratorStudent[];
+  leaderId: string | null;
+  meanGrade: number | null;
+  meanAttendance: number | null;
+  repeatPairs: number;
+  keepApartViolations: number;
+}
+
+export interface GroupPreview {
+  seed: number;
+  groups: GeneratedGroup[];
+  metrics: {
+    students: number;
+    groups: number;
+    // Difference between the highest and lowest group mean
+    gradeSpread: number | null;
+    attendanceSpread: number | null;
+    repeatPairs: number;
+    keepApartViolations: number;
+  };
+  warnings: string[];
+}
+
+// Cost weights: keep-apart pairs outrank repeat pairings, which outrank balance
+const KEEP_APART_COST = 10000;
+const REPEAT_PAIR_COST = 100;
+const SWAP_ATTEMPTS_PER_STUDENT = 200;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Small seeded PRNG (mulberry32) so previews are reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number) {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function mean(values: Array<number | null>) {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0
+    ? known.reduce((sum, v) => sum + v, 0) / known.length
+    : null;
+}
+
+function spread(values: Array<number | null>) {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0
+    ? round1(Math.max(...known) - Math.min(...known))
+    : null;
+}
+
+function countPairs(ids: string[], pairs: Set<string>) {
+  let count = 0;
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (pairs.has(pairKey(ids[i], ids[j]))) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Split students into groups of minSize-maxSize (as even as possible).
+ *
+ * Keep-together pairs are placed as one unit; the remaining students are
+ * then swapped between groups while that lowers the cost: keep-apart pairs
+ * in the same group, then repeat pairings from `previousPairs` (when
+ * avoidRepeatPairs is set), then how far each group's mean grade or
+ * attendance is from the class mean. Students without a value count as
+ * the class mean.
+ */
+export function generateGroups(
+  students: GeneratorStudent[],
+  options: GroupGeneratorOptions,
+  previousPairs: Set<string> = new Set()
+): GroupPreview {
+  const { minSize, maxSize } = options;
+  const balanceBy = options.balanceBy ?? "NONE";
+  const leaderRule = options.leaderRule ?? "NONE";
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+
+  if (!Number.isInteger(minSize) || !Number.isInteger(maxSize)) {
+    throw new Error("Group sizes must be whole numbers");
+  }
+  if (minSize < 2 || maxSize < minSize) {
+    throw new Error(
+      "Group sizes must be at least 2, with the maximum not below the minimum"
+    );
+  }
+
+  const n = students.length;
+  const groupCount = Math.ceil(n / maxSize);
+  if (n === 0 || Math.floor(n / groupCount) < minSize) {
+    throw new Error(
+      `Cannot split ${n} students into groups of ${minSize}-${maxSize}`
+    );
+  }
+
+  const byId = new Map(students.map((s) => [s.id, s]));
+  const name = (id: string) =>
+    `${byId.get(id)!.firstName} ${byId.get(id)!.lastName}`;
+  const checkPairs = (pairs: Array<[string, string]>) => {
+    pairs.forEach(([a, b]) => {
+      if (!byId.has(a) || !byId.has(b) || a === b) {
+        throw new Error(
+          "Paired students must be two different students being grouped"
+        );
+      }
+    });
+  };
+  const keepTogether = options.keepTogether ?? [];
+  const keepApart = options.keepApart ?? [];
+  checkPairs(keepTogether);
+  checkPairs(keepApart);
+
+  // Keep-together pairs are joined into units (union-find)
+  const parent = new Map(students.map((s) => [s.id, s.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  keepTogether.forEach(([a, b]) => parent.set(find(a), find(b)));
+
+  const unitsByRoot = new Map<string, string[]>();
+  students.forEach((s) => {
+    const root = find(s.id);
+    unitsByRoot.set(root, [...(unitsByRoot.get(root) ?? []), s.id]);
+  });
+  const units = [...unitsByRoot.values()];
+
+  const apartPairs = new Set(keepApart.map(([a, b]) => pairKey(a, b)));
+  units.forEach((unit) => {
+    if (unit.length > maxSize) {
+      throw new Error(
+        `Cannot keep ${unit.length} students together in groups of at most ${maxSize}`
+      );
+    }
+    if (countPairs(unit, apartPairs) > 0) {
+      const [a, b] = keepApart.find(
+        ([x, y]) => unit.includes(x) && unit.includes(y)
+      )!;
+      throw new Error(
+        `Cannot keep ${name(a)} and ${name(b)} both together and apart`
+      );
+    }
+  });
+
+  const warnings: string[] = [];
+  const balanceValue = (s: GeneratorStudent) =>
+    balanceBy === "GRADE"
+      ? s.grade
+      : balanceBy === "ATTENDANCE"
+      ? s.attendanceRate
+      : null;
+  const classMean = mean(students.map(balanceValue)) ?? 0;
+  const value = new Map(
+    students.map((s) => [s.id, balanceValue(s) ?? classMean])
+  );
+  if (balanceBy !== "NONE") {
+    const missing = students.filter((s) => balanceValue(s) === null).length;
+    if (missing === n) {
+      warnings.push(
+        balanceBy === "GRADE"
+          ? "No term grades yet, so groups are not balanced by grade"
+          : "No attendance yet, so groups are not balanced by attendance"
+      );
+    } else if (missing > 0) {
+      warnings.push(
+        `${missing} student(s) have no ${
+          balanceBy === "GRADE" ? "term grade" : "attendance"
+        } yet and count as the class average`
+      );
+    }
+  }
+
+  const repeatPairs = options.avoidRepeatPairs
+    ? previousPairs
+    : new Set<string>();
+  const groupCost = (ids: string[]) => {
+    let cost =
+      countPairs(ids, apartPairs) * KEEP_APART_COST +
+      countPairs(ids, repeatPairs) * REPEAT_PAIR_COST;
+    if (balanceBy !== "NONE" && ids.length > 0) {
+      const groupMean =
+        ids.reduce((sum, id) => sum + value.get(id)!, 0) / ids.length;
+      cost += ids.length * (groupMean - classMean) ** 2;
+    }
+    return cost;
+  };
+
+  // Target sizes differ by at most one
+  const targets = Array.from(
+    { length: groupCount },
+    (_, i) => Math.floor(n / groupCount) + (i < n % groupCount ? 1 : 0)
+  );
+  const groups: string[][] = targets.map(() => []);
+
+  // Larger units first; when balancing, strongest first so they spread out
+  const unitMean = (unit: string[]) =>
+    unit.reduce((sum, id) => sum + value.get(id)!, 0) / unit.length;
+  const ordered = shuffle(units, random).sort(
+    (a, b) =>
+      b.length - a.length ||
+      (balanceBy !== "NONE" ? unitMean(b) - unitMean(a) : 0)
+  );
+  ordered.forEach((unit) => {
+    const fits = (i: number, limit: number) =>
+      groups[i].length + unit.length <= limit;
+    let candidates = groups.map((_, i) => i).filter((i) => fits(i, targets[i]));
+    if (candidates.length === 0) {
+      candidates = groups.map((_, i) => i).filter((i) => fits(i, maxSize));
+    }
+    if (candidates.length === 0) {
+      throw new Error(
+        `Cannot fit the students kept together into groups of ${minSize}-${maxSize}`
+      );
+    }
+    // Emptiest group first; when balancing, the one with the lowest total
+    const total = (i: number) =>
+      groups[i].reduce((sum, id) => sum + value.get(id)!, 0);
+    const best = candidates.sort(
+      (a, b) =>
+        (balanceBy !== "NONE" ? total(a) - total(b) : 0) ||
+        groups[a].length - groups[b].length
+    )[0];
+    groups[best].push(...unit);
+  });
+  if (groups.some((group) => group.length < minSize)) {
+    throw new Error(
+      `Cannot fit the students kept together into groups of ${minSize}-${maxSize}`
+    );
+  }
+
+  // Swap single students between groups while it lowers the cost
+  const movable = new Set(
+    units.filter((unit) => unit.length === 1).map((unit) => unit[0])
+  );
+  if (groupCount > 1) {
+    for (let attempt = 0; attempt < n * SWAP_ATTEMPTS_PER_STUDENT; attempt++) {
+      const i = Math.floor(random() * groupCount);
+      const j = Math.floor(random() * groupCount);
+      if (i === j) continue;
+      const a = groups[i].filter((id) => movable.has(id));
+      const b = groups[j].filter((id) => movable.has(id));
+      if (a.length === 0 || b.length === 0) continue;
+
+      const x = a[Math.floor(random() * a.length)];
+      const y = b[Math.floor(random() * b.length)];
+      const nextI = groups[i].map((id) => (id === x ? y : id));
+      const nextJ = groups[j].map((id) => (id === y ? x : id));
+      if (
+        groupCost(nextI) + groupCost(nextJ) <
+        groupCost(groups[i]) + groupCost(groups[j])
+      ) {
+        groups[i] = nextI;
+        groups[j] = nextJ;
+      }
+    }
+  }
+
+  const pickLeader = (members: GeneratorStudent[]) => {
+    const best = (key: "grade" | "attendanceRate") => {
+      const ranked = members
+        .filter((s) => s[key] !== null)
+        .sort((a, b) => b[key]! - a[key]!);
+      return ranked[0]?.id ?? null;
+    };
+    switch (leaderRule) {
+      case "RANDOM":
+        return members[Math.floor(random() * members.length)].id;
+      case "HIGHEST_GRADE":
+        return best("grade");
+      case "BEST_ATTENDANCE":
+        return best("attendanceRate");
+      default:
+        return null;
+    }
+  };
+
+  const generated: GeneratedGroup[] = groups.map((ids) => {
+    const members = ids
+      .map((id) => byId.get(id)!)
+      .sort(
+        (a, b) =>
+          a.lastName.localeCompare(b.lastName) ||
+          a.firstName.localeCompare(b.firstName)
+      );
+    const meanGrade = mean(members.map((s) => s.grade));
+    const meanAttendance = mean(members.map((s) => s.attendanceRate));
+    return {
+      students: members,
+      leaderId: pickLeader(members),
+      meanGrade: meanGrade === null ? null : round1(meanGrade),
+      meanAttendance: meanAttendance === null ? null : round1(meanAttendance),
+      repeatPairs: countPairs(ids, previousPairs),
+      keepApartViolations: countPairs(ids, apartPairs),
+    };
+  });
+
+  const keepApartViolations = generated.reduce(
+    (sum, g) => sum + g.keepApartViolations,
+    0
+  );
+  if (keepApartViolations > 0) {
+    warnings.push(
+      `${keepApartViolations} keep-apart pair(s) could not be separated`
+    );
+  }
+
+  return {
+    seed,
+    groups: generated,
+    metrics: {
+      students: n,
+      groups: groupCount,
+      gradeSpread: spread(generated.map((g) => g.meanGrade)),
+      attendanceSpread: spread(generated.map((g) => g.meanAttendance)),
+      repeatPairs: generated.reduce((sum, g) => sum + g.repeatPairs, 0),
+      keepApartViolations,
+    },
+    warnings,
+  };
+}
+
+// Preview groups for a course's ungrouped students (or the given subset of
+// them). Nothing is saved; the faculty creates the groups from the preview.
+export async function previewCourseGroups(
+  courseSlug: string,
+  options: GroupGeneratorOptions & { studentIds?: string[] }
+) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      terms: { orderBy: { order: "asc" } },
+      termConfigs: { select: { id: true, term: true } },
+      students: { select: { id: true, firstName: true, lastName: true } },
+      groups: { select: { students: { select: { id: true } } } },
+    },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  const grouped = new Set(
+    course.groups.flatMap((group) => group.students.map((s) => s.id))
+  );
+  let students = course.students.filter((s) => !grouped.has(s.id));
+  if (options.studentIds) {
+    const requested = new Set(options.studentIds);
+    students = students.filter((s) => requested.has(s.id));
+    if (students.length !== requested.size) {
+      throw new Error("Only ungrouped students of the course can be grouped");
+    }
+  }
+
+  const ids = students.map((s) => s.id);
+  const [termGrades, attendance, pairings] = await Promise.all([
+    prisma.termGrade.findMany({
+      where: {
+        termConfigId: { in: course.termConfigs.map((t) => t.id) },
+        studentId: { in: ids },
+      },
+      select: { termConfigId: true, studentId: true, totalPercentage: true },
+    }),
+    prisma.attendance.findMany({
+      where: { courseId: course.id, studentId: { in: ids } },
+      select: { studentId: true, status: true },
+    }),
+    prisma.groupPairing.findMany({
+      where: { courseId: course.id },
+      select: { studentAId: true, studentBId: true },
+    }),
+  ]);
+
+  // The current term is the latest one with any computed grades
+  const configByTerm = new Map(course.termConfigs.map((t) => [t.term, t.id]));
+  const currentConfigId = toTermDefinitions(course.terms)
+    .map((term) => configByTerm.get(term.key))
+    .reverse()
+    .find((id) => id && termGrades.some((g) => g.termConfigId === id));
+  const grades = new Map(
+    termGrades
+      .filter((g) => g.termConfigId === currentConfigId)
+      .map((g) => [g.studentId, g.totalPercentage])
+  );
+
+  // EXCUSED counts as attended and LATE as half, as for quiz plus points
+  const sessions = new Map<string, { total: number; attended: number }>();
+  attendance.forEach((record) => {
+    const tally = sessions.get(record.studentId) ?? { total: 0, attended: 0 };
+    tally.total++;
+    if (record.status === "PRESENT" || record.status === "EXCUSED") {
+      tally.attended++;
+    } else if (record.status === "LATE") {
+      tally.attended += 0.5;
+    }
+    sessions.set(record.studentId, tally);
+  });
+
+  const previousPairs = new Set(
+    pairings.map((p) => pairKey(p.studentAId, p.studentBId))
+  );
+
+  return generateGroups(
+    students.map((s) => {
+      const tally = sessions.get(s.id);
+      return {
+        ...s,
+        grade: grades.get(s.id) ?? null,
+        attendanceRate:
+          tally && tally.total > 0
+            ? round1((tally.attended / tally.total) * 100)
+            : null,
+      };
+    }),
+    options,
+    previousPairs
+  );
+}
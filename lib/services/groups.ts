@@ -105,6 +105,18 @@ export async function getGroupMeta(courseSlug: string) {
   };
 }
 
+// Remember who has shared a group so later generated groups can avoid
+// repeat pairings, even after the group itself is deleted
+async function recordGroupPairings(courseId: string, studentIds: string[]) {
+  const ids = [...new Set(studentIds)].sort();
+  const pairs = ids.flatMap((a, i) =>
+    ids.slice(i + 1).map((b) => ({ courseId, studentAId: a, studentBId: b }))
+  );
+  if (pairs.length === 0) return;
+
+  await prisma.groupPairing.createMany({ data: pairs, skipDuplicates: true });
+}
+
 // Create group
 export async function createGroup(
   courseSlug: string,
@@ -138,7 +150,7 @@ export async function createGroup(
     }
   }
 
-  return prisma.group.create({
+  const group = await prisma.group.create({
     data: {
       number: String(data.groupNumber),
       name: data.groupName,
@@ -153,6 +165,13 @@ export async function createGroup(
       leader: true,
     },
   });
+
+  await recordGroupPairings(
+    course.id,
+    group.students.map((student) => student.id)
+  );
+
+  return group;
 }
 
 // Update group
@@ -177,7 +196,7 @@ export async function updateGroup(
     };
   }
 
-  return prisma.group.update({
+  const group = await prisma.group.update({
     where: { id: groupId },
     data: updateData,
     include: {
@@ -185,6 +204,15 @@ export async function updateGroup(
       leader: true,
     },
   });
+
+  if (data.studentIds) {
+    await recordGroupPairings(
+      group.courseId,
+      group.students.map((student) => student.id)
+    );
+  }
+
+  return group;
 }
 
 // Delete group
@@ -1,10 +1,31 @@
 // Server-side service exports (for use in API routes)
 export * from "./courses";
+export * from "./course-rollover";
+export * from "./sections";
+export * from "./rooms";
+export * from "./timetable";
 export * from "./students";
+export * from "./student-portal";
 export * from "./users";
+export * from "./faculty-load";
 export * from "./grading";
+export * from "./grading-scales";
+export * from "./grade-submissions";
+export * from "./grade-change-requests";
+export * from "./early-warning";
+export * from "./exports";
+export * from "./notifications";
+export * from "./quizzes";
 export * from "./criteria";
+export * from "./criteria-templates";
 export * from "./groups";
+export * from "./group-generator";
+export * from "./peer-evaluations";
 export * from "./grades";
 export * from "./attendance";
+export * from "./attendance-sessions";
+export * from "./excuse-requests";
+export * from "./academic-calendar";
+export * from "./calendar-feeds";
+export * from "./kiosk";
 export * from "./stats";
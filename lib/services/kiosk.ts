@@ -0,0 +1,258 @@
+import { prisma } from "@/lib/prisma";
+import { createHash, randomBytes } from "crypto";
+import {
+  getSchoolClock,
+  normalizeDayName,
+  timeToMinutes,
+} from "@/lib/utils/schedule-utils";
+import {
+  getCourseAttendanceSession,
+  recordAttendanceScan,
+  recordRfidAttendance,
+} from "./attendance-sessions";
+import { getNonClassDays } from "./academic-calendar";
+
+// Taps are accepted from this long before class starts
+const KIOSK_EARLY_MINUTES = 15;
+
+// Without an open session, taps within this many minutes of the start are PRESENT
+const KIOSK_GRACE_MINUTES = 15;
+
+const deviceSelect = {
+  id: true,
+  name: true,
+  room: { select: { id: true, name: true } },
+  isActive: true,
+  lastSeenAt: true,
+  createdAt: true,
+};
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+type KioskDeviceRoom = { name: string; room: { id: string; name: string } };
+
+// Find the active course scheduled in a room right now (and not suspended)
+async function resolveKioskClass(
+  roomId: string,
+  clock: ReturnType<typeof getSchoolClock>
+) {
+  const courses = await prisma.course.findMany({
+    where: { roomId, status: "ACTIVE" },
+    select: {
+      id: true,
+      slug: true,
+      code: true,
+      title: true,
+      section: true,
+      room: true,
+      schedules: { select: { day: true, fromTime: true, toTime: true } },
+    },
+  });
+
+  const nonClassDays = await getNonClassDays(
+    courses.map((c) => c.id),
+    clock.date,
+    clock.date
+  );
+
+  for (const course of courses) {
+    if (nonClassDays[course.id]?.length) continue;
+    const schedule = course.schedules.find(
+      (s) =>
+        normalizeDayName(s.day) === clock.day &&
+        timeToMinutes(s.fromTime) - KIOSK_EARLY_MINUTES <= clock.minutes &&
+        clock.minutes < timeToMinutes(s.toTime)
+    );
+    if (schedule) {
+      const { schedules, ...rest } = course;
+      return { course: rest, schedule };
+    }
+  }
+
+  return null;
+}
+
+// Get kiosk devices
+export async function getKioskDevices() {
+  return prisma.kioskDevice.findMany({
+    select: deviceSelect,
+    orderBy: [{ room: { name: "asc" } }, { name: "asc" }],
+  });
+}
+
+// Helper: Make sure a kiosk is placed in a registered room
+async function assertRoomExists(roomId: string) {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { id: true },
+  });
+  if (!room) {
+    throw new Error("Room not found");
+  }
+}
+
+// Register a kiosk device; the plain token is only returned here
+export async function createKioskDevice(
+  data: { name: string; roomId: string },
+  userId: string
+) {
+  const name = data.name?.trim();
+  if (!name || !data.roomId) {
+    throw new Error("Device name and room are required");
+  }
+  await assertRoomExists(data.roomId);
+
+  const token = randomBytes(32).toString("hex");
+  const device = await prisma.kioskDevice.create({
+    data: {
+      name,
+      roomId: data.roomId,
+      tokenHash: hashToken(token),
+      createdById: userId,
+    },
+    select: deviceSelect,
+  });
+
+  return { device, token };
+}
+
+// Update a kiosk device (rename, move rooms or deactivate)
+export async function updateKioskDevice(
+  id: string,
+  data: { name?: string; roomId?: string; isActive?: boolean }
+) {
+  const before = await prisma.kioskDevice.findUnique({
+    where: { id },
+    select: deviceSelect,
+  });
+
+  if (!before) {
+    throw new Error("Kiosk device not found");
+  }
+
+  if (
+    (data.name !== undefined && !data.name.trim()) ||
+    (data.roomId !== undefined && !data.roomId)
+  ) {
+    throw new Error("Device name and room are required");
+  }
+  if (data.roomId !== undefined) {
+    await assertRoomExists(data.roomId);
+  }
+
+  const device = await prisma.kioskDevice.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.roomId !== undefined && { roomId: data.roomId }),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+    },
+    select: deviceSelect,
+  });
+
+  return { before, device };
+}
+
+// Issue a new token; the previous one stops working immediately
+export async function rotateKioskDeviceToken(id: string) {
+  const existing = await prisma.kioskDevice.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    throw new Error("Kiosk device not found");
+  }
+
+  const token = randomBytes(32).toString("hex");
+  const device = await prisma.kioskDevice.update({
+    where: { id },
+    data: { tokenHash: hashToken(token) },
+    select: deviceSelect,
+  });
+
+  return { device, token };
+}
+
+// Resolve the device behind a kiosk token (null if unknown or deactivated)
+export async function authenticateKioskDevice(token: string) {
+  if (!token) return null;
+
+  const device = await prisma.kioskDevice.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: deviceSelect,
+  });
+
+  if (!device || !device.isActive) return null;
+
+  await prisma.kioskDevice.update({
+    where: { id: device.id },
+    data: { lastSeenAt: new Date() },
+  });
+
+  return device;
+}
+
+// What the kiosk shows while idle: the device and the class in its room now
+export async function getKioskStatus(device: KioskDeviceRoom) {
+  const current = await resolveKioskClass(device.room.id, getSchoolClock());
+
+  return {
+    device: { name: device.name, room: device.room.name },
+    currentClass: current
+      ? {
+          ...current.course,
+          fromTime: current.schedule.fromTime,
+          toTime: current.schedule.toTime,
+        }
+      : null,
+  };
+}
+
+// Record a tap from a kiosk reader for the class currently in its room
+// An open RFID session for the class decides PRESENT/LATE; otherwise the
+// schedule's start time plus a fixed grace period does
+export async function recordKioskScan(device: KioskDeviceRoom, rfid: string) {
+  const clock = getSchoolClock();
+  const current = await resolveKioskClass(device.room.id, clock);
+
+  if (!current) {
+    throw new Error("No class is scheduled in this room right now");
+  }
+
+  const { course, schedule } = current;
+  const openSession = await getCourseAttendanceSession(course.slug, clock.date);
+
+  const { student, attendance } = openSession
+    ? await recordAttendanceScan(course.slug, openSession.id, rfid)
+    : await recordRfidAttendance(
+        course.id,
+        new Date(`${clock.date}T00:00:00.000Z`),
+        rfid,
+        clock.minutes < timeToMinutes(schedule.fromTime) + KIOSK_GRACE_MINUTES
+          ? "PRESENT"
+          : "LATE"
+      );
+
+  return {
+    student: {
+      name: student.name,
+      firstName: student.firstName,
+      studentId: student.studentId,
+      image: student.image,
+    },
+    status: attendance.status,
+    scannedAt: attendance.scannedAt,
+    course: {
+      code: course.code,
+      title: course.title,
+      section: course.section,
+      room: course.room,
+    },
+    message:
+      attendance.status === "PRESENT"
+        ? `Welcome, ${student.firstName}! You are marked PRESENT for ${course.code}.`
+        : `${student.firstName}, you are marked LATE for ${course.code}.`,
+  };
+}
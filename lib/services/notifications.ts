@@ -0,0 +1,398 @@
+import { prisma } from "@/lib/prisma";
+import { NotificationStatus, NotificationType, Prisma } from "@prisma/client";
+import { logAction } from "@/lib/audit";
+import {
+  buildAbsenceNoticeEmail,
+  buildAtRiskAlertEmail,
+  sendEmail,
+} from "@/lib/email";
+import { pickCourseGradingScale, toTermDefinitions } from "./grading";
+import { getPassingPercentage } from "./grading-engine";
+
+const SETTINGS_ID = "default";
+// A notification still SENDING after this long is assumed to have died with its worker
+const STALE_SEND_MINUTES = 10;
+const MAX_ATTEMPTS = 3;
+
+export interface NotificationSettingsInput {
+  absenceEnabled?: boolean;
+  absenceThreshold?: number;
+  notifyGuardian?: boolean;
+  atRiskEnabled?: boolean;
+  failingThreshold?: number | null;
+}
+
+type QueuedNotification = Prisma.NotificationCreateManyInput;
+
+// Get the notification settings, creating the defaults on first use
+export async function getNotificationSettings() {
+  return prisma.notificationSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: { id: SETTINGS_ID },
+    update: {},
+  });
+}
+
+// Update the notification settings
+export async function updateNotificationSettings(
+  input: NotificationSettingsInput,
+  userId: string
+) {
+  if (
+    input.absenceThreshold !== undefined &&
+    (!Number.isInteger(input.absenceThreshold) ||
+      input.absenceThreshold < 1 ||
+      input.absenceThreshold > 50)
+  ) {
+    throw new Error("Absence threshold must be a whole number from 1 to 50");
+  }
+  if (
+    input.failingThreshold !== undefined &&
+    input.failingThreshold !== null &&
+    (typeof input.failingThreshold !== "number" ||
+      input.failingThreshold <= 0 ||
+      input.failingThreshold > 100)
+  ) {
+    throw new Error("Failing threshold must be between 0 and 100");
+  }
+
+  const data = {
+    absenceEnabled: input.absenceEnabled,
+    absenceThreshold: input.absenceThreshold,
+    notifyGuardian: input.notifyGuardian,
+    atRiskEnabled: input.atRiskEnabled,
+    failingThreshold: input.failingThreshold,
+    updatedById: userId,
+  };
+
+  return prisma.notificationSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: { id: SETTINGS_ID, ...data },
+    update: data,
+  });
+}
+
+// Queue a notice for every student (and guardian, if enabled) who reached the
+// absence threshold in an active course. Already-queued notices are skipped.
+export async function queueAbsenceNotifications(settings: {
+  absenceThreshold: number;
+  notifyGuardian: boolean;
+}) {
+  // Counted in the database; only pairs at or over the threshold come back
+  const reached = await prisma.$queryRaw<
+    Array<{
+      courseId: string;
+      studentId: string;
+      count: number;
+      lastDate: Date;
+    }>
+  >`
+    SELECT
+      a."courseId",
+      a."studentId",
+      COUNT(a.id)::int as "count",
+      MAX(a.date) as "lastDate"
+    FROM attendance a
+    INNER JOIN courses c ON c.id = a."courseId"
+    WHERE a.status = 'ABSENT'
+      AND c.status = 'ACTIVE'
+    GROUP BY a."courseId", a."studentId"
+    HAVING COUNT(a.id) >= ${settings.absenceThreshold}
+  `;
+  if (reached.length === 0) return 0;
+
+  const [students, courses] = await Promise.all([
+    prisma.student.findMany({
+      where: { id: { in: [...new Set(reached.map((e) => e.studentId))] } },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        guardianEmail: true,
+      },
+    }),
+    prisma.course.findMany({
+      where: { id: { in: [...new Set(reached.map((e) => e.courseId))] } },
+      select: { id: true, code: true, section: true, title: true },
+    }),
+  ]);
+  const studentMap = new Map(students.map((s) => [s.id, s]));
+  const courseMap = new Map(courses.map((c) => [c.id, c]));
+
+  const notifications: QueuedNotification[] = [];
+  reached.forEach((entry) => {
+    const student = studentMap.get(entry.studentId);
+    const course = courseMap.get(entry.courseId);
+    if (!student || !course) return;
+
+    const recipients = [
+      { email: student.email, toGuardian: false },
+      {
+        email: settings.notifyGuardian ? student.guardianEmail : null,
+        toGuardian: true,
+      },
+    ];
+
+    recipients.forEach(({ email, toGuardian }) => {
+      if (!email) return;
+      const { subject, html } = buildAbsenceNoticeEmail({
+        studentName: `${student.firstName} ${student.lastName}`,
+        course: `${course.code} - ${course.section} (${course.title})`,
+        absences: entry.count,
+        lastAbsence: entry.lastDate.toISOString().split("T")[0],
+        toGuardian,
+      });
+      notifications.push({
+        type: NotificationType.ABSENCE_THRESHOLD,
+        recipient: email.toLowerCase(),
+        subject,
+        html,
+        dedupeKey: `absence:${course.id}:${student.id}:${
+          settings.absenceThreshold
+        }:${email.toLowerCase()}`,
+        courseId: course.id,
+        studentId: student.id,
+      });
+    });
+  });
+
+  return enqueue(notifications);
+}
+
+// Queue an alert to the faculty and department academic head for every
+// student whose stored term grade is below the failing threshold in an active course
+export async function queueAtRiskNotifications(settings: {
+  failingThreshold: number | null;
+}) {
+  const [courses, academicHeads, defaultScales] = await Promise.all([
+    prisma.course.findMany({
+      where: { status: "ACTIVE", facultyId: { not: null } },
+      select: {
+        id: true,
+        code: true,
+        section: true,
+        title: true,
+        faculty: { select: { email: true, department: true } },
+        gradingScale: { include: { entries: true } },
+        terms: { orderBy: { order: "asc" } },
+        termConfigs: { select: { id: true, term: true } },
+        students: { select: { id: true } },
+      },
+    }),
+    prisma.user.findMany({
+      where: { roles: { has: "ACADEMIC_HEAD" }, status: "ACTIVE" },
+      select: { email: true, department: true },
+    }),
+    prisma.gradingScale.findMany({
+      where: { isDefault: true },
+      include: { entries: true },
+    }),
+  ]);
+
+  // TermGrade rows are kept current by recomputeTermGrades on every score change
+  const termGrades = await prisma.termGrade.findMany({
+    where: {
+      termConfig: { courseId: { in: courses.map((c) => c.id) } },
+      totalPercentage: { not: null },
+    },
+    select: {
+      termConfigId: true,
+      totalPercentage: true,
+      gradeLabel: true,
+      student: {
+        select: { id: true, studentId: true, firstName: true, lastName: true },
+      },
+    },
+  });
+  const gradesByConfig = new Map<string, typeof termGrades>();
+  termGrades.forEach((grade) => {
+    const grades = gradesByConfig.get(grade.termConfigId) ?? [];
+    grades.push(grade);
+    gradesByConfig.set(grade.termConfigId, grades);
+  });
+
+  let queued = 0;
+  for (const course of courses) {
+    if (!course.faculty) continue;
+
+    const threshold =
+      settings.failingThreshold ??
+      getPassingPercentage(
+        pickCourseGradingScale(
+          course.gradingScale,
+          course.faculty.department,
+          defaultScales
+        )
+      );
+    const recipients = [
+      course.faculty.email,
+      ...academicHeads
+        .filter((head) => head.department === course.faculty!.department)
+        .map((head) => head.email),
+    ].map((email) => email.toLowerCase());
+    const enrolled = new Set(course.students.map((s) => s.id));
+    const configs = new Map(course.termConfigs.map((t) => [t.term, t.id]));
+
+    const notifications: QueuedNotification[] = [];
+    // Configs of removed terms are ignored, as on the grade sheet
+    toTermDefinitions(course.terms).forEach((term) => {
+      const configId = configs.get(term.key);
+      if (!configId) return;
+
+      gradesByConfig.get(configId)?.forEach((grade) => {
+        const { student } = grade;
+        if (!enrolled.has(student.id)) return;
+        if (grade.totalPercentage === null) return;
+        if (grade.totalPercentage >= threshold) return;
+
+        const { subject, html } = buildAtRiskAlertEmail({
+          studentName: `${student.firstName} ${student.lastName}`,
+          studentNumber: student.studentId,
+          course: `${course.code} - ${course.section}`,
+          term: term.label,
+          percentage: grade.totalPercentage,
+          threshold,
+          gradeLabel: grade.gradeLabel,
+        });
+
+        new Set(recipients).forEach((recipient) => {
+          notifications.push({
+            type: NotificationType.AT_RISK,
+            recipient,
+            subject,
+            html,
+            dedupeKey: `at-risk:${course.id}:${student.id}:${term.key}:${recipient}`,
+            courseId: course.id,
+            studentId: student.id,
+          });
+        });
+      });
+    });
+
+    queued += await enqueue(notifications);
+  }
+
+  return queued;
+}
+
+async function enqueue(notifications: QueuedNotification[]) {
+  if (notifications.length === 0) return 0;
+  const { count } = await prisma.notification.createMany({
+    data: notifications,
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+// Worker pass: retry stalled sends, then deliver the oldest queued notifications
+export async function processQueuedNotifications(batchId: string, limit = 50) {
+  const staleBefore = new Date(Date.now() - STALE_SEND_MINUTES * 60 * 1000);
+  await prisma.notification.updateMany({
+    where: { status: "SENDING", updatedAt: { lt: staleBefore } },
+    data: { status: "QUEUED" },
+  });
+
+  const queued = await prisma.notification.findMany({
+    where: { status: "QUEUED" },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  const processed: Array<{ id: string; status: NotificationStatus }> = [];
+  for (const notification of queued) {
+    // Claim the notification so a concurrent worker cannot send it twice
+    const claimed = await prisma.notification.updateMany({
+      where: { id: notification.id, status: "QUEUED" },
+      data: { status: "SENDING", attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) continue;
+
+    const attempts = notification.attempts + 1;
+    const result = await sendEmail({
+      to: notification.recipient,
+      subject: notification.subject,
+      html: notification.html,
+    });
+
+    const status: NotificationStatus = result.success
+      ? "SENT"
+      : attempts >= MAX_ATTEMPTS
+      ? "FAILED"
+      : "QUEUED";
+
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        status,
+        sentAt: result.success ? new Date() : null,
+        errorMessage: result.success ? null : result.error ?? "Unknown error",
+      },
+    });
+
+    // Retries are logged once they finally succeed or give up
+    if (status !== "QUEUED") {
+      await logAction({
+        action: status === "SENT" ? "NOTIFICATION_SENT" : "NOTIFICATION_FAILED",
+        module: "Notifications",
+        reason: `${notification.subject} to ${notification.recipient}`,
+        batchId,
+        status: status === "SENT" ? "SUCCESS" : "FAILED",
+        errorMessage: result.success ? undefined : result.error,
+        metadata: {
+          notificationId: notification.id,
+          type: notification.type,
+          courseId: notification.courseId,
+          studentId: notification.studentId,
+          attempts,
+        },
+      });
+    }
+
+    processed.push({ id: notification.id, status });
+  }
+
+  return processed;
+}
+
+// Queue due notifications per the settings, then deliver a batch
+export async function runNotificationCycle(batchId: string) {
+  const settings = await getNotificationSettings();
+
+  const absenceQueued = settings.absenceEnabled
+    ? await queueAbsenceNotifications(settings)
+    : 0;
+  const atRiskQueued = settings.atRiskEnabled
+    ? await queueAtRiskNotifications(settings)
+    : 0;
+  const processed = await processQueuedNotifications(batchId);
+
+  return { absenceQueued, atRiskQueued, processed };
+}
+
+// Recent notifications for the admin log, newest first
+export async function getNotifications(
+  filters: {
+    status?: NotificationStatus;
+    type?: NotificationType;
+    limit?: number;
+  } = {}
+) {
+  return prisma.notification.findMany({
+    where: { status: filters.status, type: filters.type },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      recipient: true,
+      subject: true,
+      attempts: true,
+      errorMessage: true,
+      sentAt: true,
+      createdAt: true,
+      course: { select: { code: true, section: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: Math.min(filters.limit ?? 100, 500),
+  });
+}
@@ -0,0 +1,562 @@
+import { prisma } from "@/lib/prisma";
+import { PeerEvaluationStatus, Prisma } from "@prisma/client";
+import {
+  assertCriteriaUnlocked,
+  getLockedCriteriaTerm,
+  recomputeTermGrades,
+} from "./grading";
+
+const MAX_RUBRIC_ITEMS = 10;
+
+export interface PeerEvaluationInput {
+  rubric: string[];
+  scale?: number;
+  closesAt: string;
+  minMultiplier?: number;
+  maxMultiplier?: number;
+}
+
+export interface PeerRatingInput {
+  rateeId: string;
+  scores: number[];
+  comment?: string | null;
+}
+
+/**
+ * Per-student multipliers from peer ratings. A member's rating is the mean of
+ * the ratings groupmates gave them (as a fraction of the scale); the
+ * multiplier is that rating over the group's mean rating, clamped to
+ * [min, max]. Members nobody rated keep 1.
+ */
+export function computePeerMultipliers(
+  groups: Array<{ studentIds: string[] }>,
+  responses: Array<{ raterId: string; rateeId: string; scores: number[] }>,
+  options: { scale: number; minMultiplier: number; maxMultiplier: number }
+): Record<string, number> {
+  const multipliers: Record<string, number> = {};
+
+  groups.forEach((group) => {
+    const members = new Set(group.studentIds);
+    const ratings = new Map<string, number>();
+
+    members.forEach((studentId) => {
+      const received = responses.filter(
+        (r) =>
+          r.rateeId === studentId &&
+          r.raterId !== studentId &&
+          members.has(r.raterId) &&
+          r.scores.length > 0
+      );
+      if (received.length === 0) return;
+
+      const mean =
+        received.reduce(
+          (sum, r) =>
+            sum +
+            r.scores.reduce((a, b) => a + b, 0) /
+              r.scores.length /
+              options.scale,
+          0
+        ) / received.length;
+      ratings.set(studentId, mean);
+    });
+
+    const groupMean =
+      ratings.size > 0
+        ? [...ratings.values()].reduce((a, b) => a + b, 0) / ratings.size
+        : 0;
+
+    members.forEach((studentId) => {
+      const rating = ratings.get(studentId);
+      if (rating === undefined || groupMean === 0) {
+        multipliers[studentId] = 1;
+        return;
+      }
+      const clamped = Math.min(
+        Math.max(rating / groupMean, options.minMultiplier),
+        options.maxMultiplier
+      );
+      multipliers[studentId] = Math.round(clamped * 100) / 100;
+    });
+  });
+
+  return multipliers;
+}
+
+// Helper: Validate the evaluation settings a faculty member submits
+function parseEvaluationInput(input: PeerEvaluationInput) {
+  const rubric = (Array.isArray(input.rubric) ? input.rubric : [])
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+  if (rubric.length === 0) {
+    throw new Error("Add at least one rubric item");
+  }
+  if (rubric.length > MAX_RUBRIC_ITEMS) {
+    throw new Error(`A rubric can have at most ${MAX_RUBRIC_ITEMS} items`);
+  }
+
+  const scale = input.scale ?? 5;
+  if (!Number.isInteger(scale) || scale < 3 || scale > 10) {
+    throw new Error("Rating scale must be a whole number from 3 to 10");
+  }
+
+  const minMultiplier = input.minMultiplier ?? 0.8;
+  const maxMultiplier = input.maxMultiplier ?? 1.2;
+  if (
+    !(minMultiplier > 0 && minMultiplier <= 1) ||
+    !(maxMultiplier >= 1 && maxMultiplier <= 2)
+  ) {
+    throw new Error(
+      "Multiplier range must be within 0-1 (minimum) and 1-2 (maximum)"
+    );
+  }
+
+  const closesAt = new Date(input.closesAt);
+  if (isNaN(closesAt.getTime()) || closesAt <= new Date()) {
+    throw new Error("Closing date must be in the future");
+  }
+
+  return { rubric, scale, minMultiplier, maxMultiplier, closesAt };
+}
+
+// Helper: Group criteria of a course
+async function getCourseGroupCriteria(courseSlug: string, criteriaId: string) {
+  const criteria = await prisma.criteria.findFirst({
+    where: { id: criteriaId, course: { slug: courseSlug } },
+    select: { id: true, name: true, courseId: true, isGroupCriteria: true },
+  });
+
+  if (!criteria) {
+    throw new Error("Criteria not found");
+  }
+  if (!criteria.isGroupCriteria) {
+    throw new Error("Peer evaluation is only available for group criteria");
+  }
+
+  return criteria;
+}
+
+// Rewrite the criteria's grades with the multipliers (empty map clears them)
+// Rejected when the criteria feeds an assessment of a locked term
+async function applyPeerMultipliers(
+  courseId: string,
+  criteriaId: string,
+  multipliers: Record<string, number>
+) {
+  await assertCriteriaUnlocked(courseId, [criteriaId]);
+
+  const grades = await prisma.grade.findMany({
+    where: { criteriaId },
+    select: { id: true, studentId: true, courseId: true, total: true },
+  });
+  if (grades.length === 0) return;
+
+  await prisma.$transaction(
+    grades.map((grade) => {
+      const multiplier = multipliers[grade.studentId] ?? null;
+      return prisma.grade.update({
+        where: { id: grade.id },
+        data: {
+          peerMultiplier: multiplier,
+          value:
+            multiplier === null
+              ? grade.total
+              : Math.round(grade.total * multiplier * 100) / 100,
+        },
+      });
+    })
+  );
+
+  await recomputeTermGrades(courseId, [
+    ...new Set(grades.map((grade) => grade.studentId)),
+  ]);
+}
+
+// Multipliers of a closed evaluation, for grades saved after it closed
+export async function getPeerMultipliers(criteriaId: string) {
+  const evaluation = await prisma.peerEvaluation.findUnique({
+    where: { criteriaId },
+    select: { status: true, multipliers: true },
+  });
+
+  if (evaluation?.status !== PeerEvaluationStatus.CLOSED) return null;
+  return (evaluation.multipliers ?? {}) as Record<string, number>;
+}
+
+// Close the evaluation, compute the multipliers and apply them to the grades
+async function finalizeEvaluation(evaluation: {
+  id: string;
+  criteriaId: string;
+  courseId: string;
+  scale: number;
+  minMultiplier: number;
+  maxMultiplier: number;
+}) {
+  const [groups, responses] = await Promise.all([
+    prisma.group.findMany({
+      where: { courseId: evaluation.courseId },
+      select: { students: { select: { id: true } } },
+    }),
+    prisma.peerEvaluationResponse.findMany({
+      where: { evaluationId: evaluation.id },
+      select: { raterId: true, rateeId: true, scores: true },
+    }),
+  ]);
+
+  const multipliers = computePeerMultipliers(
+    groups.map((group) => ({ studentIds: group.students.map((s) => s.id) })),
+    responses,
+    evaluation
+  );
+
+  // Apply first so an evaluation of a locked term stays open
+  await applyPeerMultipliers(
+    evaluation.courseId,
+    evaluation.criteriaId,
+    multipliers
+  );
+
+  return prisma.peerEvaluation.update({
+    where: { id: evaluation.id },
+    data: {
+      status: PeerEvaluationStatus.CLOSED,
+      closedAt: new Date(),
+      multipliers,
+    },
+  });
+}
+
+// Close every open evaluation past its closing date (run from the cron)
+// Evaluations whose grades sit in a locked term are left open and reported
+export async function closeDuePeerEvaluations(now = new Date()) {
+  const due = await prisma.peerEvaluation.findMany({
+    where: { status: PeerEvaluationStatus.OPEN, closesAt: { lte: now } },
+    include: { criteria: { select: { name: true } } },
+  });
+
+  const closed: Array<
+    Awaited<ReturnType<typeof finalizeEvaluation>> & { criteriaName: string }
+  > = [];
+  const blocked: Array<{ id: string; criteriaName: string; reason: string }> =
+    [];
+
+  for (const evaluation of due) {
+    const lockedTerm = await getLockedCriteriaTerm(evaluation.courseId, [
+      evaluation.criteriaId,
+    ]);
+    if (lockedTerm) {
+      blocked.push({
+        id: evaluation.id,
+        criteriaName: evaluation.criteria.name,
+        reason: `${lockedTerm}: Grades for this term are locked`,
+      });
+      continue;
+    }
+
+    const result = await finalizeEvaluation(evaluation);
+    closed.push({ ...result, criteriaName: evaluation.criteria.name });
+  }
+
+  return { closed, blocked };
+}
+
+// Peer evaluation of a group criteria with each group's progress
+// Evaluations past their closing date are closed on access
+export async function getPeerEvaluation(
+  courseSlug: string,
+  criteriaId: string
+) {
+  const criteria = await getCourseGroupCriteria(courseSlug, criteriaId);
+
+  let evaluation = await prisma.peerEvaluation.findUnique({
+    where: { criteriaId },
+  });
+  if (!evaluation) return null;
+
+  // A locked term keeps it open; the dialog still shows the progress
+  if (
+    evaluation.status === PeerEvaluationStatus.OPEN &&
+    evaluation.closesAt <= new Date() &&
+    !(await getLockedCriteriaTerm(evaluation.courseId, [criteriaId]))
+  ) {
+    evaluation = await finalizeEvaluation(evaluation);
+  }
+
+  const [groups, responses] = await Promise.all([
+    prisma.group.findMany({
+      where: { courseId: criteria.courseId },
+      select: {
+        id: true,
+        number: true,
+        name: true,
+        students: {
+          select: { id: true, firstName: true, lastName: true },
+          orderBy: { lastName: "asc" },
+        },
+      },
+      orderBy: { number: "asc" },
+    }),
+    prisma.peerEvaluationResponse.findMany({
+      where: { evaluationId: evaluation.id },
+      select: { raterId: true, rateeId: true },
+    }),
+  ]);
+
+  const rated = new Map<string, Set<string>>();
+  responses.forEach((response) => {
+    const ratees = rated.get(response.raterId) ?? new Set<string>();
+    ratees.add(response.rateeId);
+    rated.set(response.raterId, ratees);
+  });
+  const multipliers = (evaluation.multipliers ?? {}) as Record<string, number>;
+
+  return {
+    ...evaluation,
+    criteriaName: criteria.name,
+    groups: groups.map((group) => ({
+      ...group,
+      students: group.students.map((student) => ({
+        ...student,
+        // Rated every groupmate
+        submitted: group.students.every(
+          (mate) =>
+            mate.id === student.id || !!rated.get(student.id)?.has(mate.id)
+        ),
+        multiplier: multipliers[student.id] ?? null,
+      })),
+    })),
+  };
+}
+
+// Open (or reopen) peer evaluation for a group criteria
+// Reopening clears the applied multipliers until it closes again
+export async function openPeerEvaluation(
+  courseSlug: string,
+  criteriaId: string,
+  input: PeerEvaluationInput,
+  userId: string
+) {
+  const criteria = await getCourseGroupCriteria(courseSlug, criteriaId);
+  const settings = parseEvaluationInput(input);
+
+  const existing = await prisma.peerEvaluation.findUnique({
+    where: { criteriaId },
+    include: { _count: { select: { responses: true } } },
+  });
+
+  if (
+    existing &&
+    existing._count.responses > 0 &&
+    (existing.scale !== settings.scale ||
+      existing.rubric.join("\n") !== settings.rubric.join("\n"))
+  ) {
+    throw new Error(
+      "Cannot change the rubric or scale after students have responded"
+    );
+  }
+
+  // Reopening clears the applied multipliers, which a locked term forbids
+  if (existing?.status === PeerEvaluationStatus.CLOSED) {
+    await assertCriteriaUnlocked(criteria.courseId, [criteriaId]);
+  }
+
+  const evaluation = await prisma.peerEvaluation.upsert({
+    where: { criteriaId },
+    create: {
+      ...settings,
+      courseId: criteria.courseId,
+      criteriaId,
+      createdById: userId,
+    },
+    update: {
+      ...settings,
+      status: PeerEvaluationStatus.OPEN,
+      closedAt: null,
+      multipliers: Prisma.DbNull,
+    },
+  });
+
+  if (existing?.status === PeerEvaluationStatus.CLOSED) {
+    await applyPeerMultipliers(criteria.courseId, criteriaId, {});
+  }
+
+  return { evaluation, criteria, reopened: !!existing };
+}
+
+// Close an open evaluation now and apply its multipliers
+export async function closePeerEvaluation(
+  courseSlug: string,
+  criteriaId: string
+) {
+  const criteria = await getCourseGroupCriteria(courseSlug, criteriaId);
+  const evaluation = await prisma.peerEvaluation.findUnique({
+    where: { criteriaId },
+  });
+
+  if (!evaluation) {
+    throw new Error("Peer evaluation not found");
+  }
+  if (evaluation.status !== PeerEvaluationStatus.OPEN) {
+    throw new Error("Cannot close a peer evaluation that is already closed");
+  }
+
+  return { evaluation: await finalizeEvaluation(evaluation), criteria };
+}
+
+// Open evaluations a student has to answer, with their groupmates
+// Optionally limited to one course
+export async function getStudentPeerEvaluations(
+  studentId: string,
+  courseId?: string
+) {
+  const groups = await prisma.group.findMany({
+    where: { courseId, students: { some: { id: studentId } } },
+    select: {
+      courseId: true,
+      number: true,
+      name: true,
+      students: {
+        where: { id: { not: studentId } },
+        select: { id: true, firstName: true, lastName: true, image: true },
+        orderBy: { lastName: "asc" },
+      },
+    },
+  });
+  if (groups.length === 0) return [];
+
+  const evaluations = await prisma.peerEvaluation.findMany({
+    where: {
+      courseId: { in: groups.map((group) => group.courseId) },
+      status: PeerEvaluationStatus.OPEN,
+      closesAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      courseId: true,
+      rubric: true,
+      scale: true,
+      closesAt: true,
+      criteria: { select: { name: true } },
+      responses: {
+        where: { raterId: studentId },
+        select: { rateeId: true, scores: true, comment: true },
+      },
+    },
+    orderBy: { closesAt: "asc" },
+  });
+
+  return evaluations.flatMap(({ criteria, responses, ...evaluation }) => {
+    const group = groups.find((g) => g.courseId === evaluation.courseId);
+    if (!group || group.students.length === 0) return [];
+    return [
+      {
+        ...evaluation,
+        criteriaName: criteria.name,
+        group: { number: group.number, name: group.name },
+        members: group.students.map((member) => {
+          const response = responses.find((r) => r.rateeId === member.id);
+          return {
+            ...member,
+            scores: response?.scores ?? null,
+            comment: response?.comment ?? null,
+          };
+        }),
+      },
+    ];
+  });
+}
+
+// Save a student's ratings of their groupmates (replaces earlier ratings)
+export async function submitPeerRatings(
+  studentId: string,
+  evaluationId: string,
+  ratings: PeerRatingInput[]
+) {
+  const evaluation = await prisma.peerEvaluation.findUnique({
+    where: { id: evaluationId },
+    select: {
+      id: true,
+      courseId: true,
+      rubric: true,
+      scale: true,
+      status: true,
+      closesAt: true,
+      criteria: { select: { name: true } },
+    },
+  });
+
+  if (!evaluation) {
+    throw new Error("Peer evaluation not found");
+  }
+  if (
+    evaluation.status !== PeerEvaluationStatus.OPEN ||
+    evaluation.closesAt <= new Date()
+  ) {
+    throw new Error("Cannot submit ratings: the peer evaluation has closed");
+  }
+
+  const group = await prisma.group.findFirst({
+    where: {
+      courseId: evaluation.courseId,
+      students: { some: { id: studentId } },
+    },
+    select: { students: { select: { id: true } } },
+  });
+  if (!group) {
+    throw new Error("Peer evaluation not found");
+  }
+
+  const groupmates = new Set(
+    group.students.map((s) => s.id).filter((id) => id !== studentId)
+  );
+  const list = Array.isArray(ratings) ? ratings : [];
+  if (
+    list.length !== groupmates.size ||
+    new Set(list.map((r) => r.rateeId)).size !== list.length ||
+    list.some((r) => !groupmates.has(r.rateeId))
+  ) {
+    throw new Error("Rate each of your groupmates once");
+  }
+  if (
+    list.some(
+      (r) =>
+        !Array.isArray(r.scores) ||
+        r.scores.length !== evaluation.rubric.length ||
+        r.scores.some(
+          (score) =>
+            !Number.isInteger(score) || score < 1 || score > evaluation.scale
+        )
+    )
+  ) {
+    throw new Error(
+      `Each rating must score every rubric item from 1 to ${evaluation.scale}`
+    );
+  }
+
+  await prisma.$transaction(
+    list.map((rating) => {
+      const data = {
+        scores: rating.scores,
+        comment: rating.comment?.trim().slice(0, 500) || null,
+      };
+      return prisma.peerEvaluationResponse.upsert({
+        where: {
+          evaluationId_raterId_rateeId: {
+            evaluationId,
+            raterId: studentId,
+            rateeId: rating.rateeId,
+          },
+        },
+        create: {
+          ...data,
+          evaluationId,
+          raterId: studentId,
+          rateeId: rating.rateeId,
+        },
+        update: data,
+      });
+    })
+  );
+
+  return { evaluation, rated: list.length };
+}
@@ -0,0 +1,457 @@
+import { prisma } from "@/lib/prisma";
+import { AssessmentType, AttendanceStatus } from "@prisma/client";
+import { prepareAssessmentScoresBulk, refreshTermGrades } from "./grading";
+import {
+  AttendanceTally,
+  computeQuizPlusPoints,
+  computeQuizResult,
+  formatAttendanceTally,
+} from "./grading-engine";
+
+export interface QuizInput {
+  name: string;
+  quizDate: string | Date;
+  attendanceRangeStart: string | Date;
+  attendanceRangeEnd: string | Date;
+  maxScore: number;
+  passingRate: number;
+  maxPlusPoints?: number;
+  assessmentId?: string | null;
+}
+
+const quizInclude = {
+  assessment: {
+    select: {
+      id: true,
+      name: true,
+      maxScore: true,
+      termConfig: { select: { term: true } },
+    },
+  },
+  _count: { select: { scores: true } },
+};
+
+// Helper: Validate quiz input (and the optional class record link) for a course
+async function normalizeQuizInput(
+  courseId: string,
+  data: QuizInput,
+  quizId?: string
+) {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error("Quiz name is required");
+  }
+
+  const quizDate = new Date(data.quizDate);
+  const attendanceRangeStart = new Date(data.attendanceRangeStart);
+  const attendanceRangeEnd = new Date(data.attendanceRangeEnd);
+  if (
+    isNaN(quizDate.getTime()) ||
+    isNaN(attendanceRangeStart.getTime()) ||
+    isNaN(attendanceRangeEnd.getTime())
+  ) {
+    throw new Error("Quiz dates are invalid");
+  }
+  if (attendanceRangeStart > attendanceRangeEnd) {
+    throw new Error("Attendance range must start before it ends");
+  }
+
+  const maxScore = Number(data.maxScore);
+  const passingRate = Number(data.passingRate);
+  const maxPlusPoints = Number(data.maxPlusPoints ?? 0);
+  if (!(maxScore > 0)) {
+    throw new Error("Quiz max score must be greater than 0");
+  }
+  if (isNaN(passingRate) || passingRate < 0 || passingRate > 100) {
+    throw new Error("Quiz passing rate must be between 0 and 100");
+  }
+  if (isNaN(maxPlusPoints) || maxPlusPoints < 0 || maxPlusPoints > maxScore) {
+    throw new Error("Quiz plus points must be between 0 and the max score");
+  }
+
+  const assessmentId = data.assessmentId || null;
+  if (assessmentId) {
+    const assessment = await prisma.assessment.findFirst({
+      where: { id: assessmentId, termConfig: { courseId } },
+      select: { type: true, quiz: { select: { id: true } } },
+    });
+    if (!assessment) {
+      throw new Error("Linked assessment not found in this course");
+    }
+    if (assessment.type !== AssessmentType.QUIZ) {
+      throw new Error("Quizzes can only be linked to QUIZ assessments");
+    }
+    if (assessment.quiz && assessment.quiz.id !== quizId) {
+      throw new Error("That assessment is already linked to another quiz");
+    }
+  }
+
+  return {
+    name,
+    quizDate,
+    attendanceRangeStart,
+    attendanceRangeEnd,
+    maxScore,
+    passingRate,
+    maxPlusPoints,
+    assessmentId,
+  };
+}
+
+// Helper: Attendance tallies per student within a date range
+async function getAttendanceTallies(
+  courseId: string,
+  studentIds: string[],
+  start: Date,
+  end: Date
+) {
+  const records = await prisma.attendance.findMany({
+    where: {
+      courseId,
+      studentId: { in: studentIds },
+      date: { gte: start, lte: end },
+    },
+    select: { studentId: true, status: true },
+  });
+
+  const tallies = new Map<string, AttendanceTally>();
+  studentIds.forEach((id) =>
+    tallies.set(id, { present: 0, late: 0, excused: 0, absent: 0 })
+  );
+  records.forEach((record) => {
+    const tally = tallies.get(record.studentId);
+    if (!tally) return;
+    if (record.status === AttendanceStatus.PRESENT) tally.present++;
+    else if (record.status === AttendanceStatus.LATE) tally.late++;
+    else if (record.status === AttendanceStatus.EXCUSED) tally.excused++;
+    else tally.absent++;
+  });
+  return tallies;
+}
+
+// Helper: Resolve a course or fail
+async function getCourseId(courseSlug: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true },
+  });
+  if (!course) {
+    throw new Error("Course not found");
+  }
+  return course.id;
+}
+
+// Helper: Load a quiz that belongs to the course
+async function getCourseQuiz(courseSlug: string, quizId: string) {
+  const courseId = await getCourseId(courseSlug);
+  const quiz = await prisma.quiz.findFirst({
+    where: { id: quizId, courseId },
+  });
+  if (!quiz) {
+    throw new Error("Quiz not found");
+  }
+  return quiz;
+}
+
+// Get a course's quizzes
+export async function getQuizzes(courseSlug: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: { id: true },
+  });
+
+  if (!course) return null;
+
+  return prisma.quiz.findMany({
+    where: { courseId: course.id },
+    include: quizInclude,
+    orderBy: { quizDate: "asc" },
+  });
+}
+
+// Get a quiz with every enrolled student's score row (students without one get a blank row)
+export async function getQuizWithScores(courseSlug: string, quizId: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      students: {
+        select: {
+          id: true,
+          studentId: true,
+          firstName: true,
+          lastName: true,
+          middleInitial: true,
+        },
+        orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      },
+    },
+  });
+
+  if (!course) return null;
+
+  const quiz = await prisma.quiz.findFirst({
+    where: { id: quizId, courseId: course.id },
+    include: { ...quizInclude, scores: true },
+  });
+
+  if (!quiz) return null;
+
+  // Plus points shown for unscored students come from current attendance
+  const tallies = await getAttendanceTallies(
+    course.id,
+    course.students.map((s) => s.id),
+    quiz.attendanceRangeStart,
+    quiz.attendanceRangeEnd
+  );
+  const scoresByStudent = new Map(quiz.scores.map((s) => [s.studentId, s]));
+  const { scores, ...quizData } = quiz;
+
+  return {
+    quiz: quizData,
+    students: course.students.map((student) => {
+      const saved = scoresByStudent.get(student.id);
+      const tally = tallies.get(student.id)!;
+      return {
+        student,
+        score: saved?.score ?? null,
+        attendance: saved?.attendance ?? formatAttendanceTally(tally),
+        plusPoints:
+          saved?.plusPoints ?? computeQuizPlusPoints(tally, quiz.maxPlusPoints),
+        totalGrade: saved?.totalGrade ?? null,
+        remarks: saved?.remarks ?? null,
+      };
+    }),
+  };
+}
+
+// Create a quiz
+export async function createQuiz(courseSlug: string, data: QuizInput) {
+  const courseId = await getCourseId(courseSlug);
+  const quizData = await normalizeQuizInput(courseId, data);
+
+  return prisma.quiz.create({
+    data: { courseId, ...quizData },
+    include: quizInclude,
+  });
+}
+
+// Update a quiz; saved scores are recomputed against the new settings
+export async function updateQuiz(
+  courseSlug: string,
+  quizId: string,
+  data: QuizInput
+) {
+  const existing = await getCourseQuiz(courseSlug, quizId);
+  const quizData = await normalizeQuizInput(existing.courseId, data, quizId);
+
+  const quiz = await prisma.quiz.update({
+    where: { id: quizId },
+    data: quizData,
+    include: quizInclude,
+  });
+
+  await recomputeQuizScores(courseSlug, quizId);
+
+  return { before: existing, quiz };
+}
+
+// Delete a quiz and its scores (linked class record scores are left as they are)
+export async function deleteQuiz(courseSlug: string, quizId: string) {
+  const existing = await getCourseQuiz(courseSlug, quizId);
+  await prisma.quiz.delete({ where: { id: quizId } });
+  return existing;
+}
+
+// Save raw quiz scores; plus points, totals and remarks are computed here
+// A null score removes the student's quiz score
+export async function saveQuizScores(
+  courseSlug: string,
+  quizId: string,
+  scores: Array<{ studentId: string; score: number | null }>
+) {
+  if (!Array.isArray(scores)) {
+    throw new Error("scores must be an array");
+  }
+
+  const quiz = await getCourseQuiz(courseSlug, quizId);
+
+  for (const entry of scores) {
+    if (
+      entry.score !== null &&
+      (typeof entry.score !== "number" ||
+        isNaN(entry.score) ||
+        entry.score < 0 ||
+        entry.score > quiz.maxScore)
+    ) {
+      throw new Error(`Quiz scores must be between 0 and ${quiz.maxScore}`);
+    }
+  }
+
+  const enrolled = await prisma.student.findMany({
+    where: {
+      id: { in: scores.map((s) => s.studentId) },
+      coursesEnrolled: { some: { id: quiz.courseId } },
+    },
+    select: { id: true },
+  });
+  const enrolledIds = new Set(enrolled.map((s) => s.id));
+  const invalid = scores.find((s) => !enrolledIds.has(s.studentId));
+  if (invalid) {
+    throw new Error(`Student not found in this course: ${invalid.studentId}`);
+  }
+
+  const tallies = await getAttendanceTallies(
+    quiz.courseId,
+    scores.map((s) => s.studentId),
+    quiz.attendanceRangeStart,
+    quiz.attendanceRangeEnd
+  );
+
+  const rows = scores.map((entry) => {
+    if (entry.score === null)
+      return { studentId: entry.studentId, result: null };
+    const tally = tallies.get(entry.studentId)!;
+    return {
+      studentId: entry.studentId,
+      score: entry.score,
+      attendance: formatAttendanceTally(tally),
+      result: computeQuizResult(
+        entry.score,
+        quiz,
+        computeQuizPlusPoints(tally, quiz.maxPlusPoints)
+      ),
+    };
+  });
+
+  // Checked before anything is written: a locked term rejects the whole save
+  const linkedQueries = quiz.assessmentId
+    ? await linkedAssessmentQueries(
+        courseSlug,
+        quiz.assessmentId,
+        quiz.maxScore,
+        rows
+      )
+    : [];
+
+  // Quiz scores and the linked class record scores are written together
+  await prisma.$transaction([
+    ...linkedQueries,
+    ...rows.map((row) =>
+      row.result === null
+        ? prisma.quizScore.deleteMany({
+            where: { quizId, studentId: row.studentId },
+          })
+        : prisma.quizScore.upsert({
+            where: {
+              quizId_studentId: { quizId, studentId: row.studentId },
+            },
+            create: {
+              quizId,
+              studentId: row.studentId,
+              score: row.score!,
+              attendance: row.attendance!,
+              plusPoints: row.result.plusPoints,
+              totalGrade: row.result.totalGrade,
+              remarks: row.result.remarks,
+            },
+            update: {
+              score: row.score!,
+              attendance: row.attendance!,
+              plusPoints: row.result.plusPoints,
+              totalGrade: row.result.totalGrade,
+              remarks: row.result.remarks,
+            },
+          })
+    ),
+  ]);
+
+  if (linkedQueries.length > 0) {
+    await refreshTermGrades(
+      quiz.courseId,
+      rows.map((row) => row.studentId)
+    );
+  }
+
+  return { success: true, savedCount: rows.length };
+}
+
+// Recompute saved quiz scores (e.g. after the quiz or its attendance changed)
+// Scores of students no longer enrolled are left as they are
+export async function recomputeQuizScores(courseSlug: string, quizId: string) {
+  const quiz = await getCourseQuiz(courseSlug, quizId);
+  const saved = await prisma.quizScore.findMany({
+    where: {
+      quizId,
+      student: { coursesEnrolled: { some: { id: quiz.courseId } } },
+    },
+    select: { studentId: true, score: true },
+  });
+  if (saved.length === 0) {
+    return { success: true, savedCount: 0 };
+  }
+  return saveQuizScores(courseSlug, quizId, saved);
+}
+
+// Recompute quizzes whose attendance range covers any of the given dates, so
+// plus points follow attendance changes. A quiz that cannot be recomputed
+// (e.g. its linked class record term is locked) keeps its saved scores.
+export async function recomputeQuizzesForAttendance(
+  courseId: string,
+  dates: Date[]
+) {
+  if (dates.length === 0) return;
+
+  const uniqueDates = [...new Set(dates.map((date) => date.getTime()))].map(
+    (time) => new Date(time)
+  );
+  const quizzes = await prisma.quiz.findMany({
+    where: {
+      courseId,
+      scores: { some: {} },
+      OR: uniqueDates.map((date) => ({
+        attendanceRangeStart: { lte: date },
+        attendanceRangeEnd: { gte: date },
+      })),
+    },
+    select: { id: true, course: { select: { slug: true } } },
+  });
+
+  for (const quiz of quizzes) {
+    try {
+      await recomputeQuizScores(quiz.course.slug, quiz.id);
+    } catch (error) {
+      console.error("Error recomputing quiz scores:", error);
+    }
+  }
+}
+
+// Helper: Queries that write quiz totals to the linked class record assessment,
+// scaled to its max score
+async function linkedAssessmentQueries(
+  courseSlug: string,
+  assessmentId: string,
+  quizMaxScore: number,
+  rows: Array<{ studentId: string; result: { totalGrade: number } | null }>
+) {
+  const assessment = await prisma.assessment.findUnique({
+    where: { id: assessmentId },
+    select: { maxScore: true },
+  });
+  if (!assessment) return [];
+
+  const { queries } = await prepareAssessmentScoresBulk(
+    courseSlug,
+    rows.map((row) => ({
+      studentId: row.studentId,
+      assessmentId,
+      score:
+        row.result === null
+          ? null
+          : Math.round(
+              (row.result.totalGrade / quizMaxScore) * assessment.maxScore * 100
+            ) / 100,
+    }))
+  );
+  return queries;
+}
@@ -0,0 +1,232 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma, RoomType } from "@prisma/client";
+import { revalidateTag } from "next/cache";
+import { isUnassignedRoom, normalizeRoomName } from "@/lib/utils/room-utils";
+
+export { isUnassignedRoom, normalizeRoomName };
+
+const roomInclude = {
+  _count: { select: { courses: true } },
+};
+
+// Get the registered room for a course's room label (null if unregistered)
+export async function resolveRoomId(name: string | null | undefined) {
+  if (isUnassignedRoom(name)) return null;
+
+  const room = await prisma.room.findUnique({
+    where: { name: normalizeRoomName(name) },
+    select: { id: true },
+  });
+  return room?.id ?? null;
+}
+
+// Get rooms (optionally by type / name search) with course counts
+export async function getRooms(filters: { type?: RoomType; search?: string }) {
+  const where: Prisma.RoomWhereInput = {};
+  if (filters.type) where.type = filters.type;
+  if (filters.search) {
+    where.OR = [
+      { name: { contains: filters.search, mode: "insensitive" } },
+      { building: { contains: filters.search, mode: "insensitive" } },
+    ];
+  }
+
+  return prisma.room.findMany({
+    where,
+    include: roomInclude,
+    orderBy: { name: "asc" },
+  });
+}
+
+function parseRoomData(data: {
+  name?: string;
+  building?: string | null;
+  capacity?: number;
+  type?: RoomType;
+}) {
+  const parsed: Prisma.RoomUpdateInput = {};
+
+  if (data.name !== undefined) {
+    const name = normalizeRoomName(data.name);
+    if (!name || isUnassignedRoom(name)) {
+      throw new Error("Room name is required");
+    }
+    if (name.length > 15) {
+      throw new Error("Room name must be at most 15 characters");
+    }
+    parsed.name = name;
+  }
+  if (data.building !== undefined) {
+    parsed.building = data.building?.trim() || null;
+  }
+  if (data.capacity !== undefined) {
+    const capacity = Number(data.capacity);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error("Room capacity must be a positive whole number");
+    }
+    parsed.capacity = capacity;
+  }
+  if (data.type !== undefined) {
+    if (!Object.values(RoomType).includes(data.type)) {
+      throw new Error("Room type must be LECTURE or LAB");
+    }
+    parsed.type = data.type;
+  }
+
+  return parsed;
+}
+
+// The room of a course must hold everyone enrolled in it
+async function assertCapacityForCourses(
+  roomId: string,
+  capacity: number,
+  name: string
+) {
+  const courses = await prisma.course.findMany({
+    where: { roomId, status: { not: "ARCHIVED" } },
+    select: {
+      code: true,
+      section: true,
+      _count: { select: { students: true } },
+    },
+  });
+
+  const overfull = courses.find((c) => c._count.students > capacity);
+  if (overfull) {
+    throw new Error(
+      `Cannot set the capacity of ${name} to ${capacity}: ${overfull.code} - ${overfull.section} has ${overfull._count.students} students enrolled`
+    );
+  }
+}
+
+// Create room and link the courses already using its name
+export async function createRoom(data: {
+  name: string;
+  building?: string | null;
+  capacity: number;
+  type?: RoomType;
+}) {
+  if (data.name === undefined || data.capacity === undefined) {
+    throw new Error("Room name and capacity are required");
+  }
+  const parsed = parseRoomData(data) as Prisma.RoomCreateInput;
+
+  const existing = await prisma.room.findUnique({
+    where: { name: parsed.name },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new Error("Room already exists");
+  }
+
+  const room = await prisma.room.create({ data: parsed });
+  await prisma.course.updateMany({
+    where: { room: { equals: room.name, mode: "insensitive" } },
+    data: { roomId: room.id },
+  });
+  revalidateTag("courses", "max");
+
+  return prisma.room.findUniqueOrThrow({
+    where: { id: room.id },
+    include: roomInclude,
+  });
+}
+
+// Update room; renaming also relabels its courses
+export async function updateRoom(
+  id: string,
+  data: {
+    name?: string;
+    building?: string | null;
+    capacity?: number;
+    type?: RoomType;
+  }
+) {
+  const room = await prisma.room.findUnique({ where: { id } });
+  if (!room) {
+    throw new Error("Room not found");
+  }
+
+  const parsed = parseRoomData(data);
+  const name = (parsed.name as string | undefined) ?? room.name;
+
+  if (name !== room.name) {
+    const existing = await prisma.room.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new Error("Room already exists");
+    }
+  }
+
+  if (parsed.capacity !== undefined) {
+    await assertCapacityForCourses(id, parsed.capacity as number, name);
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.room.update({ where: { id }, data: parsed, include: roomInclude }),
+    prisma.course.updateMany({
+      where: { roomId: id },
+      data: { room: name },
+    }),
+  ]);
+  revalidateTag("courses", "max");
+
+  return { before: room, room: updated };
+}
+
+// Delete room; its courses keep the label but lose the link
+// Rooms with kiosk devices are kept until the kiosks are moved
+export async function deleteRoom(id: string) {
+  const room = await prisma.room.findUnique({
+    where: { id },
+    include: roomInclude,
+  });
+  if (!room) {
+    throw new Error("Room not found");
+  }
+
+  const kiosks = await prisma.kioskDevice.count({ where: { roomId: id } });
+  if (kiosks > 0) {
+    throw new Error("Cannot delete a room with kiosk devices; move them first");
+  }
+
+  await prisma.room.delete({ where: { id } });
+  revalidateTag("courses", "max");
+
+  return room;
+}
+
+// Error message if a room cannot hold the given enrollment, null otherwise
+// Unregistered rooms have no known capacity and always pass
+export async function checkRoomCapacity(
+  roomName: string | null | undefined,
+  enrolled: number
+): Promise<string | null> {
+  if (isUnassignedRoom(roomName)) return null;
+
+  const room = await prisma.room.findUnique({
+    where: { name: normalizeRoomName(roomName) },
+    select: { name: true, capacity: true },
+  });
+
+  if (room && enrolled > room.capacity) {
+    return `Room ${room.name} holds ${room.capacity} students, but ${enrolled} are enrolled. Please choose a larger room.`;
+  }
+  return null;
+}
+
+// Seats left in a course's room (null when the room has no known capacity)
+export async function getRoomSeatsLeft(courseId: string) {
+  const course = await prisma.course.findUnique({
+    where: { id: courseId },
+    select: {
+      venue: { select: { capacity: true } },
+      _count: { select: { students: true } },
+    },
+  });
+
+  if (!course?.venue) return null;
+  return Math.max(0, course.venue.capacity - course._count.students);
+}
@@ -0,0 +1,239 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { revalidateTag } from "next/cache";
+import { getRoomSeatsLeft } from "./rooms";
+
+const sectionInclude = {
+  _count: { select: { courses: true, students: true } },
+};
+
+// Get (or create) the section row for a course's block name
+export async function resolveSectionId(name: string, academicYear: string) {
+  const trimmed = name?.trim();
+  if (!trimmed || !academicYear) return null;
+
+  const section = await prisma.section.upsert({
+    where: { name_academicYear: { name: trimmed, academicYear } },
+    create: { name: trimmed, academicYear },
+    update: {},
+    select: { id: true },
+  });
+  return section.id;
+}
+
+// Get sections (optionally by academic year / name search)
+export async function getSections(filters: {
+  academicYear?: string;
+  search?: string;
+}) {
+  const where: Prisma.SectionWhereInput = {};
+  if (filters.academicYear) where.academicYear = filters.academicYear;
+  if (filters.search) {
+    where.name = { contains: filters.search, mode: "insensitive" };
+  }
+
+  return prisma.section.findMany({
+    where,
+    include: sectionInclude,
+    orderBy: [{ academicYear: "desc" }, { name: "asc" }],
+  });
+}
+
+// Get a section with its courses and students
+export async function getSectionById(id: string) {
+  return prisma.section.findUnique({
+    where: { id },
+    include: {
+      ...sectionInclude,
+      courses: {
+        select: {
+          id: true,
+          slug: true,
+          code: true,
+          title: true,
+          semester: true,
+          status: true,
+        },
+        orderBy: { code: "asc" },
+      },
+      students: {
+        select: {
+          id: true,
+          studentId: true,
+          firstName: true,
+          lastName: true,
+          middleInitial: true,
+        },
+        orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      },
+    },
+  });
+}
+
+// Create section
+export async function createSection(data: {
+  name: string;
+  academicYear: string;
+}) {
+  const name = data.name?.trim();
+  if (!name || !data.academicYear?.trim()) {
+    throw new Error("Section name and academic year are required");
+  }
+
+  const existing = await prisma.section.findUnique({
+    where: {
+      name_academicYear: { name, academicYear: data.academicYear.trim() },
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new Error("Section already exists for this academic year");
+  }
+
+  return prisma.section.create({
+    data: { name, academicYear: data.academicYear.trim() },
+    include: sectionInclude,
+  });
+}
+
+// Replace the students of a section (students keep one block at a time)
+export async function setSectionStudents(
+  sectionId: string,
+  studentIds: string[]
+) {
+  if (!Array.isArray(studentIds)) {
+    throw new Error("studentIds must be an array");
+  }
+
+  const section = await prisma.section.findUnique({
+    where: { id: sectionId },
+    select: { id: true, students: { select: { id: true } } },
+  });
+
+  if (!section) {
+    throw new Error("Section not found");
+  }
+
+  const found = await prisma.student.count({
+    where: { id: { in: studentIds } },
+  });
+  if (found !== new Set(studentIds).size) {
+    throw new Error("One or more students not found");
+  }
+
+  await prisma.$transaction([
+    prisma.student.updateMany({
+      where: { sectionId, id: { notIn: studentIds } },
+      data: { sectionId: null },
+    }),
+    prisma.student.updateMany({
+      where: { id: { in: studentIds } },
+      data: { sectionId },
+    }),
+  ]);
+
+  return {
+    before: section.students.map((s) => s.id),
+    section: await getSectionById(sectionId),
+  };
+}
+
+// Enroll every student of the course's section (batch operation)
+// Same rules as the file import: already-enrolled and RFID-less students are
+// skipped, as is everyone past the capacity of the course's room
+export async function enrollSectionInCourse(courseSlug: string) {
+  const course = await prisma.course.findUnique({
+    where: { slug: courseSlug },
+    select: {
+      id: true,
+      sectionId: true,
+      students: { select: { id: true } },
+    },
+  });
+
+  if (!course) {
+    throw new Error("Course not found");
+  }
+
+  if (!course.sectionId) {
+    throw new Error("Course is not linked to a section");
+  }
+
+  const sectionStudents = await prisma.student.findMany({
+    where: { sectionId: course.sectionId },
+    select: {
+      id: true,
+      studentId: true,
+      firstName: true,
+      lastName: true,
+      middleInitial: true,
+      rfid_id: true,
+    },
+    orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+  });
+
+  const enrolledIds = new Set(course.students.map((s) => s.id));
+  // Seats left in the course's registered room (null = no known capacity)
+  let seatsLeft = await getRoomSeatsLeft(course.id);
+  const detailedFeedback: Array<{
+    row: number;
+    studentNumber: string;
+    fullName: string;
+    status: "imported" | "skipped";
+    message: string;
+  }> = [];
+  const toConnect: string[] = [];
+
+  sectionStudents.forEach((student, index) => {
+    const entry = {
+      row: index + 1,
+      studentNumber: student.studentId,
+      fullName: `${student.lastName}, ${student.firstName}${
+        student.middleInitial ? ` ${student.middleInitial}.` : ""
+      }`,
+    };
+    if (enrolledIds.has(student.id)) {
+      detailedFeedback.push({
+        ...entry,
+        status: "skipped",
+        message: "Already enrolled in this course",
+      });
+    } else if (!student.rfid_id) {
+      detailedFeedback.push({
+        ...entry,
+        status: "skipped",
+        message: "No RFID card registered",
+      });
+    } else if (seatsLeft === 0) {
+      detailedFeedback.push({
+        ...entry,
+        status: "skipped",
+        message: "Course room is full (capacity reached)",
+      });
+    } else {
+      if (seatsLeft !== null) seatsLeft--;
+      toConnect.push(student.id);
+      detailedFeedback.push({
+        ...entry,
+        status: "imported",
+        message: "Successfully added to course",
+      });
+    }
+  });
+
+  if (toConnect.length > 0) {
+    await prisma.course.update({
+      where: { id: course.id },
+      data: { students: { connect: toConnect.map((id) => ({ id })) } },
+    });
+    revalidateTag("courses", "max");
+  }
+
+  return {
+    total: sectionStudents.length,
+    imported: toConnect.length,
+    skipped: sectionStudents.length - toConnect.length,
+    errors: [] as Array<{ studentNumber: string; message: string }>,
+    detailedFeedback,
+  };
+}
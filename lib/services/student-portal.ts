@@ -0,0 +1,233 @@
+import { prisma } from "@/lib/prisma";
+import { getClassRecordData } from "./grading";
+import {
+  computeFinalGrade,
+  computeTermGrade,
+  getEffectiveScore,
+  getTermWeights,
+  lookupFromRecord,
+  TermGradeResult,
+} from "./grading-engine";
+
+// Domain of the school accounts students sign in with, including the "@"
+export const SCHOOL_EMAIL_DOMAIN = (
+  process.env.SCHOOL_EMAIL_DOMAIN || "@alabang.sti.edu.ph"
+).toLowerCase();
+
+export interface PortalAssessmentScore {
+  id: string;
+  name: string;
+  type: string;
+  maxScore: number;
+  date: string | null;
+  score: number | null;
+}
+
+const portalStudentSelect = {
+  id: true,
+  studentId: true,
+  firstName: true,
+  lastName: true,
+  middleInitial: true,
+  image: true,
+  email: true,
+};
+
+// Find the student a school account belongs to: only the school email
+// recorded on the student (set by staff on the student record) links an account
+export async function findStudentForSignIn(email: string) {
+  const normalized = email.trim().toLowerCase();
+  if (!normalized.endsWith(SCHOOL_EMAIL_DOMAIN)) return null;
+
+  return prisma.student.findUnique({
+    where: { email: normalized },
+    select: portalStudentSelect,
+  });
+}
+
+// Get a student's profile for the portal
+export async function getPortalStudent(studentId: string) {
+  return prisma.student.findUnique({
+    where: { id: studentId },
+    select: portalStudentSelect,
+  });
+}
+
+// Helper: Count attendance records by status
+function tallyAttendance(records: Array<{ status: string }>) {
+  const tally = { present: 0, late: 0, excused: 0, absent: 0 };
+  records.forEach((record) => {
+    if (record.status === "PRESENT") tally.present++;
+    else if (record.status === "LATE") tally.late++;
+    else if (record.status === "EXCUSED") tally.excused++;
+    else if (record.status === "ABSENT") tally.absent++;
+  });
+  return tally;
+}
+
+// Get a student's enrolled courses with attendance totals and released terms
+export async function getStudentPortalCourses(studentId: string) {
+  const [student, attendance] = await Promise.all([
+    prisma.student.findUnique({
+      where: { id: studentId },
+      select: {
+        coursesEnrolled: {
+          select: {
+            id: true,
+            slug: true,
+            code: true,
+            title: true,
+            section: true,
+            room: true,
+            semester: true,
+            academicYear: true,
+            status: true,
+            faculty: { select: { name: true } },
+            schedules: { select: { day: true, fromTime: true, toTime: true } },
+            gradeSubmissions: {
+              where: { releasedAt: { not: null } },
+              select: { term: true },
+            },
+          },
+          orderBy: [{ academicYear: "desc" }, { code: "asc" }],
+        },
+      },
+    }),
+    prisma.attendance.findMany({
+      where: { studentId },
+      select: { courseId: true, status: true },
+    }),
+  ]);
+
+  if (!student) return [];
+
+  return student.coursesEnrolled.map(
+    ({ gradeSubmissions, faculty, ...course }) => ({
+      ...course,
+      faculty: faculty?.name ?? null,
+      releasedTerms: gradeSubmissions.map((s) => s.term),
+      attendance: tallyAttendance(
+        attendance.filter((record) => record.courseId === course.id)
+      ),
+    })
+  );
+}
+
+// Get one enrolled course's grades and attendance for a student
+// Grades and scores of a term stay hidden until the faculty releases the term
+export async function getStudentCourseRecord(
+  studentId: string,
+  courseSlug: string
+) {
+  const course = await prisma.course.findFirst({
+    where: { slug: courseSlug, students: { some: { id: studentId } } },
+    select: {
+      id: true,
+      slug: true,
+      code: true,
+      title: true,
+      section: true,
+      room: true,
+      semester: true,
+      academicYear: true,
+      faculty: { select: { name: true } },
+      gradeSubmissions: {
+        where: { releasedAt: { not: null } },
+        select: { term: true },
+      },
+    },
+  });
+
+  if (!course) return null;
+
+  const [data, attendance] = await Promise.all([
+    getClassRecordData(courseSlug, { studentId }),
+    prisma.attendance.findMany({
+      where: { studentId, courseId: course.id },
+      select: { date: true, status: true, reason: true },
+      orderBy: { date: "desc" },
+    }),
+  ]);
+
+  if (!data) return null;
+
+  const released = new Set(course.gradeSubmissions.map((s) => s.term));
+  const lookup = lookupFromRecord(data.assessmentScores);
+  const typeOrder = ["PT", "QUIZ", "EXAM"];
+  const termResults: Record<string, TermGradeResult> = {};
+
+  const terms = data.terms.map((term) => {
+    const config = data.termConfigs[term.key];
+    if (!released.has(term.key) || !config) {
+      return {
+        ...term,
+        released: false,
+        grade: null,
+        assessments: [] as PortalAssessmentScore[],
+      };
+    }
+
+    const grade = computeTermGrade(
+      config,
+      studentId,
+      lookup,
+      data.criteriaMetadata,
+      data.gradingScale
+    );
+    termResults[term.key] = grade;
+
+    return {
+      ...term,
+      released: true,
+      grade,
+      assessments: config.assessments
+        .filter((a) => a.enabled)
+        .sort(
+          (a, b) =>
+            typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) ||
+            a.order - b.order
+        )
+        .map(
+          (a): PortalAssessmentScore => ({
+            id: a.id,
+            name: a.name,
+            type: a.type,
+            maxScore: a.maxScore,
+            date: a.date,
+            score: getEffectiveScore(
+              studentId,
+              a,
+              lookup,
+              data.criteriaMetadata
+            ),
+          })
+        ),
+    };
+  });
+
+  // The final grade only shows once every term is out
+  const allReleased = terms.every((term) => term.released);
+  const finalGrade = allReleased
+    ? computeFinalGrade(
+        termResults,
+        getTermWeights(data.terms),
+        data.gradingScale
+      )
+    : null;
+
+  const { faculty, gradeSubmissions: _, ...courseInfo } = course;
+
+  return {
+    course: { ...courseInfo, faculty: faculty?.name ?? null },
+    terms,
+    finalGrade,
+    attendance: {
+      ...tallyAttendance(attendance),
+      records: attendance.map((record) => ({
+        date: record.date.toISOString().split("T")[0],
+        status: record.status,
+        reason: record.reason,
+      })),
+    },
+  };
+}
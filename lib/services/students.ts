@@ -1,6 +1,7 @@
 import { unstable_cache } from "next/cache";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { getRoomSeatsLeft } from "./rooms";
 
 // Get students with filters
 export async function getStudents(filters: {
@@ -166,6 +167,10 @@ export async function createStudent(data: {
       throw new Error("Course not found");
     }
 
+    if ((await getRoomSeatsLeft(course.id)) === 0) {
+      throw new Error("Cannot enroll: Course room is full (capacity reached)");
+    }
+
     studentData.coursesEnrolled = {
       connect: {
         id: data.courseId,
@@ -266,6 +271,8 @@ export async function importStudentsToCourse(
 
   const courseId = course.id;
   const existingStudentIds = new Set(course.students.map((s) => s.studentId));
+  // Seats left in the course's registered room (null = no known capacity)
+  let seatsLeft = await getRoomSeatsLeft(courseId);
 
   let imported = 0;
   let skipped = 0;
@@ -345,6 +352,17 @@ export async function importStudentsToCourse(
         continue;
       }
 
+      if (seatsLeft === 0) {
+        skipped++;
+        detailedFeedback.push({
+          row: rowNumber,
+          studentId: studentId,
+          status: "skipped",
+          message: "Course room is full (capacity reached)",
+        });
+        continue;
+      }
+
       await prisma.course.update({
         where: { id: courseId },
         data: {
@@ -353,6 +371,7 @@ export async function importStudentsToCourse(
           },
         },
       });
+      if (seatsLeft !== null) seatsLeft--;
 
       imported++;
       existingStudentIds.add(studentId);
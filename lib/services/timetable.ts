@@ -0,0 +1,637 @@
+import { prisma } from "@/lib/prisma";
+import { RoomType, WorkType } from "@prisma/client";
+import { isUnassignedRoom, normalizeRoomName } from "@/lib/utils/room-utils";
+import {
+  AvailabilityWindow,
+  getTeachingLoadLimits,
+  isWithinAvailability,
+} from "./faculty-load";
+import {
+  minutesToTime,
+  normalizeDayName,
+  timeToMinutes,
+} from "@/lib/utils/schedule-utils";
+
+export interface TimetableCourseOptions {
+  courseId: string;
+  weeklyHours?: number;
+  meetingsPerWeek?: number;
+  roomType?: RoomType;
+}
+
+export interface TimetableRequest {
+  academicYear: string;
+  semester: string;
+  // Defaults for courses without their own options
+  weeklyHours?: number;
+  meetingsPerWeek?: number;
+  courses?: TimetableCourseOptions[];
+  // Only plan these courses (default: every unscheduled active course)
+  courseIds?: string[];
+}
+
+export interface TimetableSchedule {
+  day: string;
+  fromTime: string;
+  toTime: string;
+}
+
+export interface TimetableEntry {
+  courseId: string;
+  slug: string;
+  code: string;
+  title: string;
+  section: string;
+  faculty: { id: string; name: string } | null;
+  enrolled: number;
+  weeklyHours: number;
+  meetingsPerWeek: number;
+  roomType: RoomType;
+  // Proposed room (the course's own room when it already has one)
+  room: string | null;
+  roomChanged: boolean;
+  schedules: TimetableSchedule[];
+  status: "placed" | "unplaced";
+  reason: string | null;
+}
+
+export interface TimetableFacultyLoad {
+  facultyId: string;
+  name: string;
+  workType: WorkType;
+  limitHours: number;
+  scheduledHours: number;
+  proposedHours: number;
+}
+
+export interface TimetableProposal {
+  academicYear: string;
+  semester: string;
+  placed: number;
+  unplaced: number;
+  courses: TimetableEntry[];
+  facultyLoad: TimetableFacultyLoad[];
+}
+
+const TEACHING_DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Same window the schedule assignment dialog accepts (7:00 AM - 8:00 PM)
+const DAY_START = 7 * 60;
+const DAY_END = 20 * 60;
+const SLOT_MINUTES = 30;
+
+// Meeting days tried for each number of meetings per week, in order
+const DAY_PATTERNS: Record<number, string[][]> = {
+  1: TEACHING_DAYS.map((day) => [day]),
+  2: [
+    ["Monday", "Thursday"],
+    ["Tuesday", "Friday"],
+    ["Wednesday", "Saturday"],
+    ["Monday", "Wednesday"],
+    ["Tuesday", "Thursday"],
+  ],
+  3: [
+    ["Monday", "Wednesday", "Friday"],
+    ["Tuesday", "Thursday", "Saturday"],
+  ],
+};
+
+const DEFAULT_WEEKLY_HOURS = 3;
+
+export interface SolverCourse {
+  id: string;
+  code: string;
+  section: string;
+  facultyId: string | null;
+  enrolled: number;
+  meetings: number;
+  meetingMinutes: number;
+  roomType: RoomType;
+  // Assigned room label; null lets the solver pick a registered room
+  fixedRoom: string | null;
+}
+
+export interface SolverRoom {
+  name: string;
+  type: RoomType;
+  capacity: number;
+}
+
+export interface SolverBooking {
+  facultyId: string | null;
+  room: string | null;
+  section: string;
+  day: string;
+  from: number;
+  to: number;
+}
+
+export interface SolverFaculty {
+  id: string;
+  name: string;
+  workType: WorkType;
+  scheduledMinutes: number;
+  // Active courses this term, scheduled or not
+  courses: number;
+  maxMinutes: number;
+  maxCourses: number | null;
+  // None declared = available at any time
+  availability: AvailabilityWindow[];
+}
+
+export type SolverResult =
+  | {
+      status: "placed";
+      room: string;
+      slots: Array<{ day: string; from: number; to: number }>;
+    }
+  | { status: "unplaced"; reason: string };
+
+type Interval = [number, number];
+
+const busyKey = (
+  kind: "faculty" | "room" | "section",
+  id: string,
+  day: string
+) => `${kind}:${id}:${day}`;
+
+const sectionId = (section: string) => section.trim().toUpperCase();
+
+const formatHours = (minutes: number) =>
+  `${Math.round((minutes / 60) * 10) / 10}h`;
+
+/**
+ * Place each course's weekly meetings so that no faculty member, room or
+ * block section is booked twice, every meeting falls inside the faculty
+ * member's declared availability, and no faculty member goes over the
+ * load limits of their work type.
+ *
+ * Courses are placed greedily, most constrained first (fewest usable rooms,
+ * then longest weekly hours, then largest enrollment). For each course every
+ * day pattern and 30-minute start time is tried with the smallest free room
+ * that fits; among the free options the one on the least busy days for the
+ * faculty and section (then the earliest) wins. Courses that cannot be
+ * placed get a reason instead.
+ */
+export function solveTimetable(
+  courses: SolverCourse[],
+  rooms: SolverRoom[],
+  bookings: SolverBooking[],
+  faculty: SolverFaculty[]
+): Map<string, SolverResult> {
+  const busy = new Map<string, Interval[]>();
+  const dayLoad = new Map<string, number>();
+  const facultyMinutes = new Map(
+    faculty.map((f) => [f.id, f.scheduledMinutes])
+  );
+  const facultyById = new Map(faculty.map((f) => [f.id, f]));
+  const roomsByName = new Map(rooms.map((r) => [r.name, r]));
+
+  const isFree = (key: string, from: number, to: number) =>
+    !(busy.get(key) ?? []).some(([start, end]) => from < end && start < to);
+
+  const book = (key: string, from: number, to: number) => {
+    busy.set(key, [...(busy.get(key) ?? []), [from, to]]);
+    dayLoad.set(key, (dayLoad.get(key) ?? 0) + (to - from));
+  };
+
+  const bookAll = (booking: SolverBooking) => {
+    if (booking.facultyId) {
+      book(
+        busyKey("faculty", booking.facultyId, booking.day),
+        booking.from,
+        booking.to
+      );
+    }
+    if (booking.room) {
+      book(
+        busyKey("room", booking.room, booking.day),
+        booking.from,
+        booking.to
+      );
+    }
+    if (booking.section.trim()) {
+      book(
+        busyKey("section", sectionId(booking.section), booking.day),
+        booking.from,
+        booking.to
+      );
+    }
+  };
+
+  bookings.forEach(bookAll);
+
+  // Rooms each course may use, smallest first
+  const roomOptions = new Map<string, string[] | string>();
+  for (const course of courses) {
+    if (course.fixedRoom) {
+      const room = roomsByName.get(course.fixedRoom);
+      roomOptions.set(
+        course.id,
+        room && course.enrolled > room.capacity
+          ? `Room ${room.name} holds ${room.capacity} students, but ${course.enrolled} are enrolled`
+          : [course.fixedRoom]
+      );
+      continue;
+    }
+
+    const fitting = rooms
+      .filter(
+        (r) => r.type === course.roomType && r.capacity >= course.enrolled
+      )
+      .sort((a, b) => a.capacity - b.capacity || a.name.localeCompare(b.name))
+      .map((r) => r.name);
+    roomOptions.set(
+      course.id,
+      fitting.length > 0
+        ? fitting
+        : `No registered ${
+            course.roomType === "LAB" ? "laboratory" : "lecture room"
+          } holds ${course.enrolled} students`
+    );
+  }
+
+  const order = [...courses].sort((a, b) => {
+    const roomsA = roomOptions.get(a.id);
+    const roomsB = roomOptions.get(b.id);
+    const countA = Array.isArray(roomsA) ? roomsA.length : 0;
+    const countB = Array.isArray(roomsB) ? roomsB.length : 0;
+    return (
+      countA - countB ||
+      b.meetings * b.meetingMinutes - a.meetings * a.meetingMinutes ||
+      b.enrolled - a.enrolled ||
+      a.code.localeCompare(b.code) ||
+      a.section.localeCompare(b.section)
+    );
+  });
+
+  const results = new Map<string, SolverResult>();
+
+  for (const course of order) {
+    const options = roomOptions.get(course.id);
+    if (!Array.isArray(options)) {
+      results.set(course.id, {
+        status: "unplaced",
+        reason: options ?? "No room available",
+      });
+      continue;
+    }
+
+    const weeklyMinutes = course.meetings * course.meetingMinutes;
+    const member = course.facultyId
+      ? facultyById.get(course.facultyId)
+      : undefined;
+    if (member) {
+      const limit = member.maxMinutes;
+      const current = facultyMinutes.get(member.id) ?? 0;
+      if (member.maxCourses !== null && member.courses > member.maxCourses) {
+        results.set(course.id, {
+          status: "unplaced",
+          reason: `${member.name} handles ${member.courses} courses, over the ${
+            member.maxCourses
+          }-course limit for ${member.workType
+            .replace("_", "-")
+            .toLowerCase()} faculty`,
+        });
+        continue;
+      }
+      if (current + weeklyMinutes > limit) {
+        results.set(course.id, {
+          status: "unplaced",
+          reason: `${member.name} would go over the ${formatHours(
+            limit
+          )} weekly limit for ${member.workType
+            .replace("_", "-")
+            .toLowerCase()} faculty (${formatHours(
+            current
+          )} already scheduled, this course needs ${formatHours(
+            weeklyMinutes
+          )})`,
+        });
+        continue;
+      }
+    }
+
+    const section = course.section.trim() ? sectionId(course.section) : null;
+    const patterns = DAY_PATTERNS[course.meetings] ?? [];
+    let best: {
+      score: number;
+      room: string;
+      days: string[];
+      from: number;
+    } | null = null;
+    let tried = 0;
+    let facultyBusy = 0;
+    let sectionBusy = 0;
+    let roomsBusy = 0;
+
+    for (const days of patterns) {
+      for (
+        let from = DAY_START;
+        from + course.meetingMinutes <= DAY_END;
+        from += SLOT_MINUTES
+      ) {
+        const to = from + course.meetingMinutes;
+        tried++;
+
+        const facultyFree =
+          !course.facultyId ||
+          days.every(
+            (day) =>
+              isFree(busyKey("faculty", course.facultyId!, day), from, to) &&
+              (!member?.availability.length ||
+                isWithinAvailability(
+                  {
+                    day,
+                    fromTime: minutesToTime(from),
+                    toTime: minutesToTime(to),
+                  },
+                  member.availability
+                ))
+          );
+        const sectionFree =
+          !section ||
+          days.every((day) =>
+            isFree(busyKey("section", section, day), from, to)
+          );
+        const room = options.find((name) =>
+          days.every((day) => isFree(busyKey("room", name, day), from, to))
+        );
+
+        if (!facultyFree) facultyBusy++;
+        if (!sectionFree) sectionBusy++;
+        if (!room) roomsBusy++;
+        if (!facultyFree || !sectionFree || !room) continue;
+
+        const load = days.reduce(
+          (sum, day) =>
+            sum +
+            (course.facultyId
+              ? dayLoad.get(busyKey("faculty", course.facultyId, day)) ?? 0
+              : 0) +
+            (section ? dayLoad.get(busyKey("section", section, day)) ?? 0 : 0),
+          0
+        );
+        const score = load + (from - DAY_START) / 2;
+        if (!best || score < best.score) {
+          best = { score, room, days, from };
+        }
+      }
+    }
+
+    if (!best) {
+      const blockers = [
+        course.facultyId &&
+          `the faculty is busy or unavailable in ${facultyBusy}`,
+        section && `${course.section} has class in ${sectionBusy}`,
+        `every suitable room is booked in ${roomsBusy}`,
+      ].filter(Boolean);
+      results.set(course.id, {
+        status: "unplaced",
+        reason: `No free ${formatHours(
+          course.meetingMinutes
+        )} slot between ${minutesToTime(DAY_START)} and ${minutesToTime(
+          DAY_END
+        )} on ${course.meetings} day(s): of ${tried} options, ${blockers.join(
+          ", "
+        )}`,
+      });
+      continue;
+    }
+
+    const { room, days, from } = best;
+    const slots = days.map((day) => ({
+      day,
+      from,
+      to: from + course.meetingMinutes,
+    }));
+    slots.forEach((slot) =>
+      bookAll({
+        facultyId: course.facultyId,
+        room,
+        section: course.section,
+        ...slot,
+      })
+    );
+    if (course.facultyId) {
+      facultyMinutes.set(
+        course.facultyId,
+        (facultyMinutes.get(course.facultyId) ?? 0) + weeklyMinutes
+      );
+    }
+
+    results.set(course.id, { status: "placed", room, slots });
+  }
+
+  return results;
+}
+
+/**
+ * Propose a conflict-free timetable for the term's unscheduled active
+ * courses around the schedules that already exist. Nothing is saved;
+ * placements are applied through POST /courses/assign-schedules.
+ */
+export async function proposeTimetable(
+  request: TimetableRequest
+): Promise<TimetableProposal> {
+  const { academicYear, semester } = request;
+  if (!academicYear?.trim() || !semester?.trim()) {
+    throw new Error("Academic year and semester are required");
+  }
+
+  const overrides = new Map(
+    (request.courses ?? []).map((options) => [options.courseId, options])
+  );
+
+  const termCourses = await prisma.course.findMany({
+    where: { academicYear, semester, status: "ACTIVE" },
+    select: {
+      id: true,
+      slug: true,
+      code: true,
+      title: true,
+      section: true,
+      room: true,
+      facultyId: true,
+      faculty: {
+        select: {
+          id: true,
+          name: true,
+          workType: true,
+          availability: {
+            select: { day: true, fromTime: true, toTime: true },
+          },
+        },
+      },
+      venue: { select: { type: true } },
+      schedules: { select: { day: true, fromTime: true, toTime: true } },
+      _count: { select: { students: true } },
+    },
+    orderBy: [{ code: "asc" }, { section: "asc" }],
+  });
+
+  const targets = termCourses.filter(
+    (course) =>
+      course.schedules.length === 0 &&
+      (!request.courseIds || request.courseIds.includes(course.id))
+  );
+
+  const bookings: SolverBooking[] = [];
+  const scheduledMinutes = new Map<string, number>();
+  for (const course of termCourses) {
+    for (const schedule of course.schedules) {
+      const from = timeToMinutes(schedule.fromTime);
+      const to = timeToMinutes(schedule.toTime);
+      bookings.push({
+        facultyId: course.facultyId,
+        room: isUnassignedRoom(course.room)
+          ? null
+          : normalizeRoomName(course.room),
+        section: course.section,
+        day: normalizeDayName(schedule.day),
+        from,
+        to,
+      });
+      if (course.facultyId) {
+        scheduledMinutes.set(
+          course.facultyId,
+          (scheduledMinutes.get(course.facultyId) ?? 0) + (to - from)
+        );
+      }
+    }
+  }
+
+  const limits = await getTeachingLoadLimits();
+  const facultyMembers = new Map<string, SolverFaculty>();
+  for (const course of targets) {
+    if (course.faculty && !facultyMembers.has(course.faculty.id)) {
+      const limit = limits[course.faculty.workType];
+      facultyMembers.set(course.faculty.id, {
+        ...course.faculty,
+        scheduledMinutes: scheduledMinutes.get(course.faculty.id) ?? 0,
+        courses: termCourses.filter((c) => c.facultyId === course.faculty!.id)
+          .length,
+        maxMinutes: limit.maxHours * 60,
+        maxCourses: limit.maxCourses,
+      });
+    }
+  }
+
+  const solverCourses: SolverCourse[] = targets.map((course) => {
+    const options = overrides.get(course.id);
+    const weeklyHours = Number(
+      options?.weeklyHours ?? request.weeklyHours ?? DEFAULT_WEEKLY_HOURS
+    );
+    if (!(weeklyHours >= 0.5 && weeklyHours <= 12)) {
+      throw new Error(
+        `Weekly hours for ${course.code} - ${course.section} must be between 0.5 and 12`
+      );
+    }
+    const meetings = Number(
+      options?.meetingsPerWeek ??
+        request.meetingsPerWeek ??
+        (weeklyHours >= 3 ? 2 : 1)
+    );
+    if (![1, 2, 3].includes(meetings)) {
+      throw new Error(
+        `Meetings per week for ${course.code} - ${course.section} must be 1, 2 or 3`
+      );
+    }
+
+    return {
+      id: course.id,
+      code: course.code,
+      section: course.section,
+      facultyId: course.facultyId,
+      enrolled: course._count.students,
+      meetings,
+      meetingMinutes: Math.max(
+        SLOT_MINUTES,
+        Math.round((weeklyHours * 60) / meetings / SLOT_MINUTES) * SLOT_MINUTES
+      ),
+      roomType: options?.roomType ?? course.venue?.type ?? "LECTURE",
+      fixedRoom: isUnassignedRoom(course.room)
+        ? null
+        : normalizeRoomName(course.room),
+    };
+  });
+
+  const rooms = await prisma.room.findMany({
+    select: { name: true, type: true, capacity: true },
+  });
+
+  const results = solveTimetable(
+    solverCourses,
+    rooms,
+    bookings,
+    Array.from(facultyMembers.values())
+  );
+
+  const entries: TimetableEntry[] = targets.map((course, index) => {
+    const planned = solverCourses[index];
+    const result = results.get(course.id);
+    const placed = result?.status === "placed" ? result : null;
+
+    return {
+      courseId: course.id,
+      slug: course.slug,
+      code: course.code,
+      title: course.title,
+      section: course.section,
+      faculty: course.faculty
+        ? { id: course.faculty.id, name: course.faculty.name }
+        : null,
+      enrolled: planned.enrolled,
+      weeklyHours: (planned.meetings * planned.meetingMinutes) / 60,
+      meetingsPerWeek: planned.meetings,
+      roomType: planned.roomType,
+      room: placed?.room ?? planned.fixedRoom,
+      roomChanged: !!placed && placed.room !== planned.fixedRoom,
+      schedules:
+        placed?.slots.map((slot) => ({
+          day: slot.day,
+          fromTime: minutesToTime(slot.from),
+          toTime: minutesToTime(slot.to),
+        })) ?? [],
+      status: placed ? "placed" : "unplaced",
+      reason: result?.status === "unplaced" ? result.reason : null,
+    };
+  });
+
+  const facultyLoad = Array.from(facultyMembers.values())
+    .map((member) => {
+      const proposedMinutes = entries
+        .filter(
+          (entry) =>
+            entry.status === "placed" && entry.faculty?.id === member.id
+        )
+        .reduce((sum, entry) => sum + entry.weeklyHours * 60, 0);
+      return {
+        facultyId: member.id,
+        name: member.name,
+        workType: member.workType,
+        limitHours: member.maxMinutes / 60,
+        scheduledHours: member.scheduledMinutes / 60,
+        proposedHours: proposedMinutes / 60,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const placedCount = entries.filter((e) => e.status === "placed").length;
+
+  return {
+    academicYear,
+    semester,
+    placed: placedCount,
+    unplaced: entries.length - placedCount,
+    courses: entries,
+    facultyLoad,
+  };
+}
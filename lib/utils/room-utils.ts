@@ -0,0 +1,11 @@
+// Room labels that mean no room has been assigned yet
+const UNASSIGNED_ROOMS = ["", "TBA"];
+
+// Course room labels and room names are compared upper-case
+export function normalizeRoomName(name: string | null | undefined) {
+  return (name ?? "").trim().toUpperCase();
+}
+
+export function isUnassignedRoom(name: string | null | undefined) {
+  return UNASSIGNED_ROOMS.includes(normalizeRoomName(name));
+}
@@ -1,4 +1,8 @@
 import { prisma } from "@/lib/prisma";
+import { isUnassignedRoom, normalizeRoomName } from "@/lib/utils/room-utils";
+
+// Attendance runs on school time regardless of where the server is hosted
+export const SCHOOL_TIMEZONE = process.env.SCHOOL_TIMEZONE || "Asia/Manila";
 
 interface Schedule {
   day: string;
@@ -33,6 +37,22 @@ export function timeToMinutes(timeStr: string): number {
   return hours * 60 + (minutes || 0);
 }
 
+/**
+ * Converts minutes since midnight to the "HH:MM AM/PM" format used by the
+ * schedule time picker
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours24 = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  const period = hours24 >= 12 ? "PM" : "AM";
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+
+  return `${String(hours12).padStart(2, "0")}:${String(minutes).padStart(
+    2,
+    "0"
+  )} ${period}`;
+}
+
 /**
  * Checks if two schedules overlap on the same day
  */
@@ -73,6 +93,53 @@ export function normalizeDayName(day: string): string {
   return dayMap[day] || day;
 }
 
+type CourseWithSchedules = {
+  code: string;
+  section: string;
+  schedules: Schedule[];
+};
+
+/**
+ * First existing course schedule that overlaps one of the new schedules
+ */
+export function findScheduleOverlap(
+  newSchedules: Schedule[],
+  existingCourses: CourseWithSchedules[]
+) {
+  for (const newSchedule of newSchedules) {
+    const normalizedNewDay = normalizeDayName(newSchedule.day);
+
+    for (const existingCourse of existingCourses) {
+      if (!existingCourse.schedules || existingCourse.schedules.length === 0) {
+        continue;
+      }
+
+      for (const existingSchedule of existingCourse.schedules) {
+        const normalizedExistingDay = normalizeDayName(existingSchedule.day);
+
+        if (normalizedNewDay === normalizedExistingDay) {
+          const overlapSchedule = {
+            day: normalizedExistingDay,
+            fromTime: existingSchedule.fromTime,
+            toTime: existingSchedule.toTime,
+          };
+
+          if (
+            checkTimeOverlap(
+              { ...newSchedule, day: normalizedNewDay },
+              overlapSchedule
+            )
+          ) {
+            return { course: existingCourse, schedule: overlapSchedule };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
 /**
  * Checks if new schedules overlap with existing active courses for a given faculty
  * @param newSchedules - Array of schedules to check
@@ -120,31 +187,81 @@ export async function checkScheduleOverlap(
     },
   });
 
-  for (const newSchedule of newSchedules) {
-    const normalizedNewDay = normalizeDayName(newSchedule.day);
+  const overlap = findScheduleOverlap(newSchedules, existingCourses);
+  if (overlap) {
+    return `Schedule overlaps with existing course "${overlap.course.code} - ${overlap.course.section}" on ${overlap.schedule.day} (${overlap.schedule.fromTime} - ${overlap.schedule.toTime}). Please adjust the time.`;
+  }
 
-    for (const existingCourse of existingCourses) {
-      if (!existingCourse.schedules || existingCourse.schedules.length === 0) {
-        continue;
-      }
+  return null; // No overlap found
+}
 
-      for (const existingSchedule of existingCourse.schedules) {
-        const normalizedExistingDay = normalizeDayName(existingSchedule.day);
+/**
+ * Checks if new schedules double-book a room already used by another active
+ * course in the same semester. Rooms not yet assigned ("TBA") never conflict.
+ * @param newSchedules - Array of schedules to check
+ * @param room - Room label of the course being scheduled
+ * @param excludeCourseIds - Course IDs to exclude from conflict check (e.g., courses being edited)
+ * @param semester - Semester to filter active courses
+ * @param academicYear - Academic year to filter active courses
+ * @returns Error message if the room is taken, null otherwise
+ */
+export async function checkRoomOverlap(
+  newSchedules: Array<{ day: string; fromTime: string; toTime: string }>,
+  room: string | null | undefined,
+  excludeCourseIds: string[] = [],
+  semester?: string,
+  academicYear?: string
+): Promise<string | null> {
+  if (isUnassignedRoom(room)) {
+    return null;
+  }
+  const roomName = normalizeRoomName(room);
 
-        if (normalizedNewDay === normalizedExistingDay) {
-          const overlapSchedule = {
-            day: normalizedExistingDay,
-            fromTime: existingSchedule.fromTime,
-            toTime: existingSchedule.toTime,
-          };
+  if (!newSchedules || newSchedules.length === 0) {
+    return null; // No schedules to check
+  }
 
-          if (checkTimeOverlap(newSchedule, overlapSchedule)) {
-            return `Schedule overlaps with existing course "${existingCourse.code} - ${existingCourse.section}" on ${normalizedNewDay} (${existingSchedule.fromTime} - ${existingSchedule.toTime}). Please adjust the time.`;
-          }
-        }
-      }
-    }
+  const existingCourses = await prisma.course.findMany({
+    where: {
+      room: { equals: roomName, mode: "insensitive" },
+      status: "ACTIVE",
+      ...(semester && { semester }),
+      ...(academicYear && { academicYear }),
+      ...(excludeCourseIds.length > 0 && { id: { notIn: excludeCourseIds } }),
+    },
+    include: {
+      schedules: true,
+    },
+  });
+
+  const overlap = findScheduleOverlap(newSchedules, existingCourses);
+  if (overlap) {
+    return `Room ${roomName} is already booked for "${overlap.course.code} - ${overlap.course.section}" on ${overlap.schedule.day} (${overlap.schedule.fromTime} - ${overlap.schedule.toTime}). Please choose another room or time.`;
   }
 
-  return null; // No overlap found
+  return null;
+}
+
+/**
+ * Current date (yyyy-MM-dd), weekday name and minute of day in the
+ * school's timezone
+ */
+export function getSchoolClock(now = new Date()) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: SCHOOL_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    day: get("weekday") as string,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
 }
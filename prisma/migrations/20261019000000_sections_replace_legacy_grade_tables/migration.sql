@@ -0,0 +1,102 @@
+/*
+  Replaces the unused Section / Class / GradeItem models with a real Section
+  (block) entity and drops the legacy grade_configurations / grade_scores
+  tables, which the term-config class record has superseded.
+
+  Warnings:
+
+  - The old "sections", "classes" and "grade_items" tables are dropped. No route or service ever wrote to them.
+  - The "grade_configurations" and "grade_scores" tables are dropped. Their reporting / recitation / quiz weights do not map onto term configurations, so no data is carried over.
+
+*/
+-- DropForeignKey
+ALTER TABLE "grade_items" DROP CONSTRAINT "grade_items_classId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "classes" DROP CONSTRAINT "classes_sectionId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "grade_scores" DROP CONSTRAINT "grade_scores_configId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "grade_scores" DROP CONSTRAINT "grade_scores_courseId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "grade_scores" DROP CONSTRAINT "grade_scores_studentId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "grade_configurations" DROP CONSTRAINT "grade_configurations_courseId_fkey";
+
+-- DropTable
+DROP TABLE "grade_items";
+
+-- DropTable
+DROP TABLE "classes";
+
+-- DropTable
+DROP TABLE "grade_scores";
+
+-- DropTable
+DROP TABLE "grade_configurations";
+
+-- DropTable
+DROP TABLE "sections";
+
+-- CreateTable
+CREATE TABLE "sections" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "academic_year" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sections_name_academic_year_key" ON "sections"("name", "academic_year");
+
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN "section_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "students" ADD COLUMN "section_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "courses_section_id_idx" ON "courses"("section_id");
+
+-- CreateIndex
+CREATE INDEX "students_section_id_idx" ON "students"("section_id");
+
+-- AddForeignKey
+ALTER TABLE "courses" ADD CONSTRAINT "courses_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "students" ADD CONSTRAINT "students_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "sections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: one section per distinct (course.section, course.academicYear)
+INSERT INTO "sections" ("id", "name", "academic_year", "updated_at")
+SELECT gen_random_uuid()::text, "name", "academicYear", CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT TRIM("section") AS "name", "academicYear"
+    FROM "courses"
+    WHERE TRIM("section") <> ''
+) AS "course_sections";
+
+UPDATE "courses" AS c
+SET "section_id" = s."id"
+FROM "sections" AS s
+WHERE s."name" = TRIM(c."section") AND s."academic_year" = c."academicYear";
+
+-- Backfill: students whose enrolled courses all belong to the same section
+UPDATE "students" AS st
+SET "section_id" = blocks."section_id"
+FROM (
+    SELECT sc."B" AS "student_id", MIN(c."section_id") AS "section_id"
+    FROM "_StudentCourses" AS sc
+    JOIN "courses" AS c ON c."id" = sc."A"
+    WHERE c."section_id" IS NOT NULL
+    GROUP BY sc."B"
+    HAVING COUNT(DISTINCT c."section_id") = 1
+) AS blocks
+WHERE st."id" = blocks."student_id";
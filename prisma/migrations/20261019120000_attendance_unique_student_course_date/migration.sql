@@ -0,0 +1,19 @@
+/*
+  One attendance record per student, course and class day.
+
+  Warnings:
+
+  - Duplicate rows (left by the absence cron racing a session close or an RFID tap) are removed first, keeping the most recently updated one.
+
+*/
+-- DeleteDuplicates
+DELETE FROM "attendance" a
+USING "attendance" b
+WHERE a."studentId" = b."studentId"
+  AND a."courseId" = b."courseId"
+  AND a."date" = b."date"
+  AND (a."updated_at" < b."updated_at"
+    OR (a."updated_at" = b."updated_at" AND a."id" < b."id"));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_studentId_courseId_date_key" ON "attendance"("studentId", "courseId", "date");
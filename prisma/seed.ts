@@ -208,6 +208,15 @@ async function main() {
     }
     console.log("Faculty members seeded successfully");
 
+    // Create the sections (blocks) the courses belong to
+    for (const name of new Set(mockSchedules.map((s) => s.section))) {
+      await prisma.section.upsert({
+        where: { name_academicYear: { name, academicYear: "2024-2025" } },
+        update: {},
+        create: { name, academicYear: "2024-2025" },
+      });
+    }
+
     // Create courses and schedules
     const courses = await Promise.all(
       mockSchedules.map(async (schedule) => {
@@ -226,6 +235,11 @@ async function main() {
             room: schedule.room,
             semester: schedule.semester,
             section: schedule.section,
+            block: {
+              connect: {
+                name_academicYear: { name: schedule.section, academicYear },
+              },
+            },
             classNumber: schedule.classNumber,
             slug,
             academicYear,
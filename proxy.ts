@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+
+// Students sign in with the same provider as staff, but most API routes only
+// check for a session. Keep student-only sessions inside the read-only portal
+// and the /api/student routes, which act only on the signed-in student.
+const STUDENT_PATHS = [
+  "/student",
+  "/api/student",
+  "/api/auth",
+  "/verify",
+  "/session-expired",
+];
+
+export async function proxy(request: NextRequest) {
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET,
+  });
+  const roles = token?.roles ?? [];
+  const isStudentOnly = roles.length > 0 && roles.every((r) => r === "STUDENT");
+  if (!isStudentOnly) return NextResponse.next();
+
+  const { pathname } = request.nextUrl;
+  if (
+    pathname === "/" ||
+    pathname === "/redirecting" ||
+    STUDENT_PATHS.some(
+      (path) => pathname === path || pathname.startsWith(`${path}/`)
+    )
+  ) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.redirect(new URL("/student", request.url));
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\..*).*)"],
+};
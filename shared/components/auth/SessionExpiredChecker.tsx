@@ -15,6 +15,7 @@ export function SessionExpiredChecker() {
     if (
       pathname === "/" ||
       pathname === "/session-expired" ||
+      pathname === "/kiosk" ||
       pathname?.startsWith("/auth/")
     ) {
       return;
@@ -17,6 +17,10 @@ import {
   UserRoundCog,
   Activity,
   Menu,
+  Scale,
+  FileQuestion,
+  Bell,
+  CalendarDays,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -62,6 +66,13 @@ const adminItems = [
   { title: "Users", url: "/dashboard/admin", icon: UserRoundCog },
   { title: "Students", url: "/main/students", icon: Users },
   { title: "Audit Logs", url: "/main/logs", icon: Activity },
+  {
+    title: "Grading Scales",
+    url: "/dashboard/admin/grading-scales",
+    icon: Scale,
+  },
+  { title: "Notifications", url: "/dashboard/admin/notifications", icon: Bell },
+  { title: "Calendar", url: "/dashboard/admin/calendar", icon: CalendarDays },
 ];
 
 const academicHeadItems = [
@@ -95,6 +106,7 @@ const gradingSubItems = [
   { title: "Attendance", url: "/main/attendance", icon: CalendarCheck },
   { title: "Reporting", url: "/main/grading/reporting", icon: Presentation },
   { title: "Recitation", url: "/main/grading/recitation", icon: BookCheck },
+  { title: "Quiz", url: "/main/grading/quiz", icon: FileQuestion },
 ];
 
 function SidebarSkeleton() {
@@ -169,6 +181,7 @@ export function AppSidebar() {
       "/main/grading/class-record",
       "/main/grading/reporting",
       "/main/grading/recitation",
+      "/main/grading/quiz",
       "/main/course",
       "/main/logs",
     ],
@@ -178,6 +191,7 @@ export function AppSidebar() {
       "/main/grading/class-record",
       "/main/grading/reporting",
       "/main/grading/recitation",
+      "/main/grading/quiz",
       "/main/course",
     ],
   };
@@ -45,6 +45,24 @@ export interface Attendance {
   };
 }
 
+// Server-side RFID attendance session (as returned by the sessions API)
+export interface AttendanceSession {
+  id: string;
+  courseId: string;
+  courseSlug: string;
+  courseCode: string;
+  courseSection: string;
+  date: string;
+  startedAt: string;
+  graceMinutes: number;
+  timeoutMinutes: number;
+  status: "ACTIVE" | "PAUSED" | "ENDED";
+  pausedAt: string | null;
+  endedAt: string | null;
+  graceEndsAt: string;
+  endsAt: string;
+}
+
 export interface AttendanceCreateInput {
   courseId: string;
   studentId: string;
@@ -2,6 +2,13 @@ export interface UploadResponse {
   imageUrl: string;
 }
 
+export interface DocumentUploadResponse {
+  path: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
 export interface DeleteImageInput {
   imageUrl: string;
 }